@@ -0,0 +1,30 @@
+'use server';
+
+import { issueCertificate } from '@/lib/certificate-data';
+
+interface IssueCertificateResult {
+  success: boolean;
+  error?: string;
+  certificateId?: string;
+  serialNumber?: string;
+}
+
+/**
+ * Issues (or looks up) the certificate for a user's current completion of a course.
+ * The returned ID is used for both the PDF download and the public verification page.
+ * @param userId - The learner who completed the course.
+ * @param courseId - The completed course.
+ */
+export async function issueCertificateAction(userId: string, courseId: string): Promise<IssueCertificateResult> {
+  if (!userId || !courseId) {
+    return { success: false, error: "Invalid certificate request." };
+  }
+
+  try {
+    const certificate = await issueCertificate(userId, courseId);
+    return { success: true, certificateId: certificate.id, serialNumber: certificate.serialNumber };
+  } catch (error: any) {
+    console.error(`Error issuing certificate for user ${userId}, course ${courseId}:`, error);
+    return { success: false, error: error.message || "Could not issue the certificate." };
+  }
+}
@@ -6,6 +6,8 @@ import { db } from '@/lib/firebase';
 import { collection, getDocs, doc, writeBatch, serverTimestamp } from 'firebase/firestore';
 import { getUsersWithoutCompany } from '@/lib/user-data';
 import type { User, Company } from '@/types/user';
+import type { CurriculumModule } from '@/types/course';
+import { buildModulesFromCurriculum } from '@/lib/curriculum-modules';
 
 interface MigrationResult {
   success: boolean;
@@ -96,6 +98,44 @@ export async function runUserBrandMigration(userIds: string[], targetCompanyId:
   }
 }
 
+/**
+ * Server action to wrap the flat curriculum of every global and brand course that has no modules yet
+ * in a single module, so the curriculum editors and the learner sidebar show it as one section.
+ * Safe to run more than once: courses that already have modules are skipped.
+ */
+export async function runCurriculumModulesMigration(): Promise<MigrationResult> {
+  console.log("[Data Migration Action] Starting curriculum modules migration.");
+  try {
+    let count = 0;
+    for (const collectionName of ['courses', 'brandCourses']) {
+      const snapshot = await getDocs(collection(db, collectionName));
+      const docsToMigrate = snapshot.docs.filter(courseDoc => {
+        const modules: CurriculumModule[] | undefined = courseDoc.data().modules;
+        return !modules || modules.length === 0;
+      });
+
+      // Firestore batches are limited to 500 writes
+      for (let start = 0; start < docsToMigrate.length; start += 500) {
+        const batch = writeBatch(db);
+        docsToMigrate.slice(start, start + 500).forEach(courseDoc => {
+          batch.update(courseDoc.ref, {
+            modules: buildModulesFromCurriculum(courseDoc.data().curriculum || []),
+            updatedAt: serverTimestamp(),
+          });
+        });
+        await batch.commit();
+      }
+      count += docsToMigrate.length;
+    }
+
+    console.log(`[Data Migration Action] Curriculum modules migration complete. ${count} courses were updated.`);
+    return { success: true, count };
+  } catch (error: any) {
+    console.error("[Data Migration Action] Curriculum modules migration failed:", error);
+    return { success: false, count: 0, error: error.message || "An unexpected error occurred during migration." };
+  }
+}
+
 /**
  * A utility function to count all users, just for testing/verification.
  */
@@ -0,0 +1,275 @@
+'use server';
+
+import { getQuizById, getCourseById } from '@/lib/firestore-data';
+import { getBrandQuizById, getBrandCourseById } from '@/lib/brand-content-data';
+import { getUserById, incrementUserQuizAttempts } from '@/lib/user-data';
+import {
+  addQuizAttempt,
+  completeQuizAttempt,
+  getQuizAttemptById,
+  getQuizAttemptsForUser,
+  getQuizSettings,
+  gradeQuizAnswers,
+  drawQuizQuestions,
+  applyQuestionDraw,
+  QUIZ_TIME_LIMIT_GRACE_SECONDS,
+} from '@/lib/quiz-attempt-data';
+import { checkForAndAwardBadges } from '@/lib/gamification';
+import { emitQuizAttemptStatements } from '@/lib/xapi-delivery';
+import { recordLearningActivity } from '@/lib/learning-metrics-data';
+import { getCourseAssignedAt, getCurriculumItemAvailableAt, formatTimeUntil } from '@/lib/drip-schedule';
+import { getRecertificationStartedAt } from '@/lib/recertification';
+import { getCourseLocksForUser } from '@/lib/program-path';
+import { getContentVersion, getPublishedVersion } from '@/lib/content-versions';
+import type { Quiz, BrandQuiz, Question, QuizAttempt, QuizAttemptAnswer, QuizAttemptStartRequest, QuizSettings, QuizSubmission } from '@/types/course';
+
+interface StartQuizAttemptResult {
+  success: boolean;
+  error?: string;
+  attemptId?: string;
+  attemptNumber?: number;
+  startedAt?: string; // ISO string, server time
+  expiresAt?: string | null; // ISO string when the quiz is timed
+  settings?: QuizSettings;
+  questionIds?: string[] | null; // Drawn questions in display order; null = all questions in quiz order
+  optionOrder?: Record<string, number[]> | null;
+  quizVersion?: number; // Published quiz version the attempt is pinned to
+  questions?: Question[] | null; // That version's questions, when it is not the version the client loaded
+}
+
+interface SubmitQuizAttemptResult {
+  success: boolean;
+  error?: string;
+  attemptId?: string;
+  score?: number;
+  passed?: boolean;
+  timedOut?: boolean;
+  incorrectQuestionNumbers?: number[];
+  attemptsRemaining?: number | null; // null = unlimited
+  retryAvailableAt?: string | null; // ISO string when a cooldown applies
+  answers?: QuizAttemptAnswer[]; // Only included when the quiz reveals correct answers
+  newBadges?: { id: string; name: string }[];
+}
+
+async function fetchQuiz(quizId: string, quizType: 'quiz' | 'brandQuiz'): Promise<Quiz | BrandQuiz | null> {
+  // Fetched without a locale so grading always uses the original option texts
+  return quizType === 'quiz' ? getQuizById(quizId) : getBrandQuizById(quizId);
+}
+
+// The questions of the quiz version an attempt was started on. Publishing a new version does not change attempts in progress.
+async function fetchAttemptQuestions(quiz: Quiz | BrandQuiz, quizType: 'quiz' | 'brandQuiz', attempt: QuizAttempt): Promise<Question[]> {
+  const version = attempt.quizVersion || 1;
+  if (version === getPublishedVersion(quiz)) return quiz.questions || [];
+  const pinned = await getContentVersion(quizType, quiz.id, version);
+  return pinned?.content.questions ?? quiz.questions ?? [];
+}
+
+function getAttemptDeadline(attempt: QuizAttempt): Date | null {
+  if (!attempt.timeLimitMinutes || !attempt.startedAt) return null;
+  return new Date(new Date(attempt.startedAt as string).getTime() + attempt.timeLimitMinutes * 60 * 1000);
+}
+
+function isPastDeadline(attempt: QuizAttempt, now: Date): boolean {
+  const deadline = getAttemptDeadline(attempt);
+  return !!deadline && now.getTime() > deadline.getTime() + QUIZ_TIME_LIMIT_GRACE_SECONDS * 1000;
+}
+
+function getRetryAvailableAt(lastSubmittedAt: QuizAttempt['submittedAt'], settings: QuizSettings): Date | null {
+  if (!settings.attemptCooldownMinutes || !lastSubmittedAt) return null;
+  return new Date(new Date(lastSubmittedAt as string).getTime() + settings.attemptCooldownMinutes * 60 * 1000);
+}
+
+/**
+ * Starts (or resumes) an attempt at a quiz, enforcing the quiz's attempt limit and cooldown.
+ * An unfinished timed attempt whose time has run out is closed as a failed attempt first.
+ * @param request - The user, course and quiz being attempted.
+ */
+export async function startQuizAttempt(request: QuizAttemptStartRequest): Promise<StartQuizAttemptResult> {
+  const { userId, courseId, quizId, quizType, locale } = request;
+  if (!userId || !courseId || !quizId || (quizType !== 'quiz' && quizType !== 'brandQuiz')) {
+    return { success: false, error: "Invalid quiz request." };
+  }
+
+  try {
+    const user = await getUserById(userId);
+    if (!user || user.isDeleted || !user.isActive) {
+      return { success: false, error: "User not found or inactive." };
+    }
+
+    const course = (await getCourseById(courseId)) ?? (await getBrandCourseById(courseId));
+    if (!course || !(course.curriculum || []).includes(`${quizType}-${quizId}`)) {
+      return { success: false, error: "This quiz is not part of the course." };
+    }
+
+    const itemId = `${quizType}-${quizId}`;
+    const courseProgress = user.courseProgress?.[courseId];
+    const opensAt = getCurriculumItemAvailableAt(course.curriculumAvailability?.[itemId], getCourseAssignedAt(user, courseId));
+    if (opensAt && opensAt.getTime() > Date.now() && courseProgress?.status !== 'Completed' && !(courseProgress?.completedItems || []).includes(itemId)) {
+      return { success: false, error: `This quiz opens in ${formatTimeUntil(opensAt)}.` };
+    }
+    const courseLock = (await getCourseLocksForUser(user, [courseId]))[courseId];
+    if (courseLock) {
+      return { success: false, error: `This course is locked. ${courseLock.reason}` };
+    }
+
+    const quiz = await fetchQuiz(quizId, quizType);
+    if (!quiz) {
+      return { success: false, error: "Quiz not found." };
+    }
+    const settings = getQuizSettings(quiz);
+    const now = new Date();
+    const clientVersion = request.quizVersion || getPublishedVersion(quiz);
+
+    const recertificationStartedAt = getRecertificationStartedAt(user, courseId);
+    const attempts = (await getQuizAttemptsForUser(userId, courseId, quizId))
+      .filter(attempt => !recertificationStartedAt || !attempt.startedAt || new Date(attempt.startedAt as string) >= recertificationStartedAt); // Earlier certifications don't use up attempts
+    const inProgress = attempts.find(attempt => attempt.status === 'in_progress');
+    if (inProgress) {
+      const pinnedQuestions = await fetchAttemptQuestions(quiz, quizType, inProgress);
+      const pinnedVersion = inProgress.quizVersion || 1;
+      if (!isPastDeadline(inProgress, now)) {
+        return {
+          success: true,
+          attemptId: inProgress.id,
+          attemptNumber: inProgress.attemptNumber,
+          startedAt: inProgress.startedAt as string,
+          expiresAt: getAttemptDeadline(inProgress)?.toISOString() ?? null,
+          settings,
+          questionIds: inProgress.questionIds ?? null,
+          optionOrder: inProgress.optionOrder ?? null,
+          quizVersion: pinnedVersion,
+          questions: pinnedVersion !== clientVersion ? pinnedQuestions : null,
+        };
+      }
+      const expired = await completeQuizAttempt(inProgress.id, gradeQuizAnswers(applyQuestionDraw(pinnedQuestions, inProgress), {}, inProgress.passingScore, inProgress.locale), true);
+      if (expired) {
+        await incrementUserQuizAttempts(userId, courseId, quizId);
+        await emitQuizAttemptStatements(expired, pinnedQuestions);
+        await recordLearningActivity(user, { quizzesFailed: 1 });
+        Object.assign(inProgress, expired); // Now counts as a submitted attempt below
+      }
+    }
+
+    const submitted = attempts.filter(attempt => attempt.status !== 'in_progress');
+    if (settings.maxAttempts && submitted.length >= settings.maxAttempts) {
+      return { success: false, error: `You have used all ${settings.maxAttempts} attempts for this quiz.` };
+    }
+
+    const lastSubmittedAt = submitted
+      .map(attempt => attempt.submittedAt)
+      .filter(Boolean)
+      .sort((a, b) => new Date(b as string).getTime() - new Date(a as string).getTime())[0] ?? null;
+    const retryAvailableAt = getRetryAvailableAt(lastSubmittedAt, settings);
+    if (retryAvailableAt && retryAvailableAt > now) {
+      const minutesLeft = Math.ceil((retryAvailableAt.getTime() - now.getTime()) / 60000);
+      return { success: false, error: `You can retake this quiz in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.` };
+    }
+
+    const draw = drawQuizQuestions(quiz.questions || [], settings);
+    const quizVersion = getPublishedVersion(quiz);
+    const attempt = await addQuizAttempt({
+      userId,
+      courseId,
+      quizId,
+      quizType,
+      quizTitle: quiz.title,
+      locale: locale || 'en',
+      attemptNumber: submitted.length + 1,
+      passingScore: settings.passingScore,
+      timeLimitMinutes: settings.timeLimitMinutes,
+      questionIds: draw.questionIds,
+      optionOrder: draw.optionOrder,
+      quizVersion,
+    });
+    if (!attempt) {
+      return { success: false, error: "Failed to start quiz attempt." };
+    }
+
+    return {
+      success: true,
+      attemptId: attempt.id,
+      attemptNumber: attempt.attemptNumber,
+      startedAt: attempt.startedAt as string,
+      expiresAt: getAttemptDeadline(attempt)?.toISOString() ?? null,
+      settings,
+      questionIds: draw.questionIds,
+      optionOrder: draw.optionOrder,
+      quizVersion,
+      questions: quizVersion !== clientVersion ? quiz.questions || [] : null,
+    };
+  } catch (error: any) {
+    console.error("[startQuizAttempt] Error:", error);
+    return { success: false, error: error.message || "Failed to start quiz." };
+  }
+}
+
+/**
+ * Grades a quiz submission against the stored questions and records the attempt.
+ * The client's own scoring is never trusted; the returned score and pass state are authoritative.
+ * @param submission - The in-progress attempt and the user's answers.
+ */
+export async function submitQuizAttempt(submission: QuizSubmission): Promise<SubmitQuizAttemptResult> {
+  const { attemptId, userId, answers } = submission;
+  if (!attemptId || !userId) {
+    return { success: false, error: "Invalid quiz submission." };
+  }
+
+  try {
+    const attempt = await getQuizAttemptById(attemptId);
+    if (!attempt || attempt.userId !== userId || (attempt.quizType !== 'quiz' && attempt.quizType !== 'brandQuiz')) {
+      return { success: false, error: "Quiz attempt not found." };
+    }
+    if (attempt.status !== 'in_progress') {
+      return { success: false, error: "This attempt has already been submitted." };
+    }
+
+    const quiz = await fetchQuiz(attempt.quizId, attempt.quizType);
+    if (!quiz) {
+      return { success: false, error: "Quiz not found." };
+    }
+    const settings = getQuizSettings(quiz);
+
+    const timedOut = isPastDeadline(attempt, new Date());
+    // Graded against the questions drawn when the attempt started, from the quiz version it started on
+    const questions = await fetchAttemptQuestions(quiz, attempt.quizType, attempt);
+    const result = gradeQuizAnswers(applyQuestionDraw(questions, attempt), answers || {}, attempt.passingScore, attempt.locale);
+    const completed = await completeQuizAttempt(attemptId, result, timedOut);
+    if (!completed) {
+      return { success: false, error: "Failed to save quiz attempt." };
+    }
+
+    await incrementUserQuizAttempts(userId, attempt.courseId, attempt.quizId);
+    await emitQuizAttemptStatements(completed, questions);
+    const learner = await getUserById(userId);
+    if (learner) await recordLearningActivity(learner, completed.passed ? { quizzesPassed: 1 } : { quizzesFailed: 1 });
+
+    let newBadges: { id: string; name: string }[] = [];
+    try {
+      const awarded = await checkForAndAwardBadges(userId, 'QUIZ_SUBMITTED', {
+        courseId: attempt.courseId,
+        quizId: attempt.quizId,
+        score: result.score,
+        attemptNumber: attempt.attemptNumber,
+      });
+      newBadges = awarded.map(badge => ({ id: badge.id, name: badge.name }));
+    } catch (badgeError) {
+      console.error("[submitQuizAttempt] Badge check failed:", badgeError);
+    }
+
+    return {
+      success: true,
+      attemptId,
+      score: result.score,
+      passed: completed.passed,
+      timedOut,
+      incorrectQuestionNumbers: result.incorrectQuestionNumbers,
+      attemptsRemaining: settings.maxAttempts ? Math.max(0, settings.maxAttempts - attempt.attemptNumber) : null,
+      retryAvailableAt: completed.passed ? null : getRetryAvailableAt(completed.submittedAt, settings)?.toISOString() ?? null,
+      answers: settings.showCorrectAnswers ? result.answers : undefined,
+      newBadges,
+    };
+  } catch (error: any) {
+    console.error("[submitQuizAttempt] Error:", error);
+    return { success: false, error: error.message || "Failed to submit quiz." };
+  }
+}
@@ -0,0 +1,87 @@
+'use server';
+
+import { getCourseById, getLessonById } from '@/lib/firestore-data';
+import { getBrandCourseById, getBrandLessonById } from '@/lib/brand-content-data';
+import { getUserById, incrementUserQuizAttempts, updateUserScormProgress } from '@/lib/user-data';
+import { addScormQuizAttempt, getQuizAttemptsForUser } from '@/lib/quiz-attempt-data';
+import { recordLearningActivity } from '@/lib/learning-metrics-data';
+import { getScormScorePercent, isScormLessonComplete, sanitizeScormRuntimeData } from '@/lib/scorm';
+import type { Lesson, BrandLesson, ScormProgressRequest, ScormRuntimeData } from '@/types/course';
+
+interface SaveScormProgressResult {
+  success: boolean;
+  error?: string;
+  data?: ScormRuntimeData; // As stored
+  isComplete?: boolean; // The package reports the lesson as completed or passed
+}
+
+const hasResult = (data: ScormRuntimeData | undefined) =>
+  !!data && (getScormScorePercent(data) !== null || data.lessonStatus === 'passed' || data.lessonStatus === 'failed');
+
+const sameResult = (a: ScormRuntimeData, b: ScormRuntimeData | undefined) =>
+  !!b && a.lessonStatus === b.lessonStatus && a.scoreRaw === b.scoreRaw && a.scoreScaled === b.scoreScaled;
+
+/**
+ * Stores what a SCORM lesson's package has reported for the learner. When a session ends with a new
+ * score or pass/fail result, it is also added to the learner's quiz-attempt history for the lesson.
+ * @param request - The learner, the lesson and the package's runtime data.
+ */
+export async function saveScormProgress(request: ScormProgressRequest): Promise<SaveScormProgressResult> {
+  const { userId, courseId, itemId, sessionEnded, sessionStartedAt, locale } = request;
+  const [itemType, lessonId] = (itemId || '').split('-');
+  if (!userId || !courseId || !lessonId || (itemType !== 'lesson' && itemType !== 'brandLesson')) {
+    return { success: false, error: "Invalid SCORM progress request." };
+  }
+
+  try {
+    const user = await getUserById(userId);
+    if (!user || user.isDeleted || !user.isActive) {
+      return { success: false, error: "User not found or inactive." };
+    }
+
+    const course = (await getCourseById(courseId)) ?? (await getBrandCourseById(courseId));
+    if (!course || !(course.curriculum || []).includes(itemId)) {
+      return { success: false, error: "This lesson is not part of the course." };
+    }
+
+    const lesson: Lesson | BrandLesson | null = itemType === 'lesson' ? await getLessonById(lessonId) : await getBrandLessonById(lessonId);
+    if (!lesson || lesson.lessonType !== 'scorm' || !lesson.scormPackage) {
+      return { success: false, error: "This lesson is not a SCORM lesson." };
+    }
+
+    const data = { ...sanitizeScormRuntimeData(request.data), updatedAt: new Date().toISOString() };
+    const previousData = user.courseProgress?.[courseId]?.scormData?.[itemId];
+    await updateUserScormProgress(userId, courseId, itemId, data);
+
+    if (sessionEnded && hasResult(data) && !sameResult(data, previousData)) {
+      const score = getScormScorePercent(data);
+      const masteryScore = lesson.scormPackage.masteryScore;
+      const passed = data.lessonStatus === 'passed'
+        || (data.lessonStatus === 'completed' && (masteryScore === null || (score ?? 0) >= masteryScore));
+      const startedAt = sessionStartedAt && !isNaN(Date.parse(sessionStartedAt)) && Date.parse(sessionStartedAt) < Date.now()
+        ? new Date(sessionStartedAt)
+        : new Date();
+      const previousAttempts = await getQuizAttemptsForUser(userId, courseId, lessonId);
+
+      await addScormQuizAttempt({
+        userId,
+        courseId,
+        quizId: lessonId,
+        quizType: itemType,
+        quizTitle: lesson.title,
+        locale: locale || 'en',
+        attemptNumber: previousAttempts.length + 1,
+        passingScore: masteryScore ?? 0,
+        score: score ?? (passed ? 100 : 0),
+        passed,
+      }, startedAt);
+      await incrementUserQuizAttempts(userId, courseId, lessonId);
+      await recordLearningActivity(user, passed ? { quizzesPassed: 1 } : { quizzesFailed: 1 });
+    }
+
+    return { success: true, data, isComplete: isScormLessonComplete(data) };
+  } catch (error: any) {
+    console.error("[saveScormProgress] Error:", error);
+    return { success: false, error: error.message || "Failed to save SCORM progress." };
+  }
+}
@@ -6,6 +6,8 @@ import { initializeApp, deleteApp, getApps, FirebaseApp } from 'firebase/app';
 import { getAuth, createUserWithEmailAndPassword, Auth } from 'firebase/auth';
 import type { UserFormData, User } from '@/types/user';
 import { addUser as addUserToFirestore } from '@/lib/user-data';
+import { deleteUnusedLoginAccounts } from '@/lib/login-accounts';
+import { getVerifiedCaller } from '@/lib/server-auth';
 import { sendNewUserWelcomeEmail } from '@/lib/email';
 import { generateRandomPassword } from '@/lib/utils';
 
@@ -91,3 +93,19 @@ export async function createUserAndSendWelcomeEmail(
     return { success: false, error: errorMessage };
   }
 }
+
+/**
+ * Deletes the login accounts of users a Super Admin just purged from the trash. The caller proves who they are
+ * with their Firebase ID token; anyone else is refused.
+ * @param idToken - The signed-in user's ID token.
+ * @param emails - Emails of the purged users. Emails that a user profile still uses keep their account.
+ * @returns The number of accounts deleted.
+ */
+export async function deletePurgedLoginAccounts(idToken: string, emails: string[]): Promise<number> {
+  if (emails.length === 0) return 0;
+  const caller = await getVerifiedCaller(idToken);
+  if (caller?.role !== 'Super Admin') {
+    throw new Error('Only Super Admins can delete login accounts.');
+  }
+  return deleteUnusedLoginAccounts(emails);
+}
@@ -0,0 +1,32 @@
+'use server';
+
+import { processVideoAsset } from '@/lib/video-processing';
+import { requeueVideoAsset } from '@/lib/video-asset-data';
+
+interface StartVideoProcessingResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Starts packaging an uploaded video in the background and returns straight away.
+ * The editor polls the asset for progress. If the server restarts mid-job, the video-processing cron route picks it up.
+ * @param assetId - The asset created for the upload.
+ * @param retry - Re-queue an asset whose processing failed.
+ */
+export async function startVideoProcessingAction(assetId: string, retry = false): Promise<StartVideoProcessingResult> {
+  if (!assetId) {
+    return { success: false, error: "Invalid video." };
+  }
+
+  try {
+    if (retry && !(await requeueVideoAsset(assetId))) {
+      return { success: false, error: "This video isn't waiting for a retry." };
+    }
+    processVideoAsset(assetId).catch(error => console.error(`Background processing failed for video asset ${assetId}:`, error));
+    return { success: true };
+  } catch (error: any) {
+    console.error(`Error starting processing for video asset ${assetId}:`, error);
+    return { success: false, error: error.message || "Could not start video processing." };
+  }
+}
@@ -0,0 +1,154 @@
+'use server';
+
+import { getCourseById, getLessonById } from '@/lib/firestore-data';
+import { getBrandCourseById, getBrandLessonById } from '@/lib/brand-content-data';
+import { getUserById } from '@/lib/user-data';
+import { getStoredBrandLrsSettings, normalizeLrsEndpoint, requeueFailedXapiStatements, saveBrandLrsSettings } from '@/lib/xapi-data';
+import { checkLrsConnection, deliverPendingXapiStatements, emitXapiStatements, getXapiDestination } from '@/lib/xapi-delivery';
+import { encryptLrsSecret, getBrandLrsCredentials } from '@/lib/lrs-secrets';
+import { canManageBrand, getVerifiedCaller } from '@/lib/server-auth';
+import {
+  buildCourseCompletedStatement,
+  buildCourseLaunchedStatement,
+  buildLessonExperiencedStatement,
+  type XapiStatementScope,
+} from '@/lib/xapi';
+import type { BrandLrsSettings, BrandLrsSettingsFormData, XapiLearningEventRequest, XapiStatement } from '@/types/xapi';
+
+interface RecordLearningEventResult {
+  success: boolean;
+  error?: string;
+  queued?: number; // 0 when the learner's brand has no LRS
+}
+
+/**
+ * Reports a course player event (course launched, lesson opened, course completed) to the learner's LRS.
+ * Completion is only reported once the stored progress says the course is complete.
+ * @param request - The learner, the course and the event.
+ */
+export async function recordLearningEvent(request: XapiLearningEventRequest): Promise<RecordLearningEventResult> {
+  const { userId, courseId, verb, itemId, locale } = request;
+  if (!userId || !courseId || !['launched', 'experienced', 'completed'].includes(verb)) {
+    return { success: false, error: "Invalid learning event." };
+  }
+
+  try {
+    const user = await getUserById(userId);
+    if (!user || user.isDeleted || !user.isActive) {
+      return { success: false, error: "User not found or inactive." };
+    }
+    const destination = await getXapiDestination(user);
+    if (!destination) {
+      return { success: true, queued: 0 };
+    }
+
+    const globalCourse = await getCourseById(courseId);
+    const course = globalCourse ?? (await getBrandCourseById(courseId));
+    if (!course) {
+      return { success: false, error: "Course not found." };
+    }
+    const scope: XapiStatementScope = {
+      user,
+      course: { id: course.id, title: course.title, isBrandCourse: !globalCourse },
+      brandId: destination.learnerBrandId,
+      locale,
+    };
+
+    let statement: XapiStatement;
+    if (verb === 'experienced') {
+      const [itemType, lessonId] = (itemId || '').split('-');
+      if (!itemId || !lessonId || (itemType !== 'lesson' && itemType !== 'brandLesson') || !(course.curriculum || []).includes(itemId)) {
+        return { success: false, error: "This lesson is not part of the course." };
+      }
+      const lesson = itemType === 'lesson' ? await getLessonById(lessonId) : await getBrandLessonById(lessonId);
+      if (!lesson) {
+        return { success: false, error: "Lesson not found." };
+      }
+      statement = buildLessonExperiencedStatement(scope, { type: itemType, id: lessonId, title: lesson.title });
+    } else if (verb === 'completed') {
+      const progress = user.courseProgress?.[courseId];
+      if (progress?.status !== 'Completed') {
+        return { success: false, error: "The course has not been completed." };
+      }
+      statement = buildCourseCompletedStatement(scope, { completedAt: progress.completedAt, timeSpentSeconds: progress.timeSpentSeconds });
+    } else {
+      statement = buildCourseLaunchedStatement(scope);
+    }
+
+    return { success: true, queued: await emitXapiStatements(destination, [statement]) };
+  } catch (error: any) {
+    console.error("[recordLearningEvent] Error:", error);
+    return { success: false, error: error.message || "Failed to record learning event." };
+  }
+}
+
+// Whether the caller, identified by their ID token, may change a brand's LRS settings
+async function isBrandAdminCaller(idToken: string, brandId: string): Promise<boolean> {
+  return !!brandId && canManageBrand(await getVerifiedCaller(idToken), brandId);
+}
+
+/**
+ * Saves a brand's LRS settings. The secret is encrypted before it is stored and is never sent back.
+ * @param idToken - The caller's Firebase ID token. Only the brand's admins may save.
+ * @param settings - The settings as entered. An empty secret keeps the saved one unless `removePassword` is set.
+ */
+export async function saveLrsSettings(idToken: string, brandId: string, settings: BrandLrsSettingsFormData): Promise<{ success: boolean; settings?: BrandLrsSettings; error?: string }> {
+  if (!(await isBrandAdminCaller(idToken, brandId))) {
+    return { success: false, error: "You don't have permission to change this brand's LRS settings." };
+  }
+  try {
+    const stored = await getStoredBrandLrsSettings(brandId);
+    let encryptedPassword = stored?.encryptedPassword ?? null;
+    if (settings.password) encryptedPassword = encryptLrsSecret(settings.password);
+    else if (settings.removePassword) encryptedPassword = null;
+    else if (!encryptedPassword && stored?.plainTextPassword) encryptedPassword = encryptLrsSecret(stored.plainTextPassword); // Saved before secrets were encrypted
+    const saved = await saveBrandLrsSettings(brandId, settings, encryptedPassword);
+    return saved ? { success: true, settings: saved } : { success: false, error: "The settings could not be saved." };
+  } catch (error: any) {
+    console.error("[saveLrsSettings] Error:", error);
+    return { success: false, error: error.message || "Failed to save the LRS settings." };
+  }
+}
+
+/**
+ * Checks that a brand's saved LRS endpoint answers and accepts the saved key and secret.
+ * @param idToken - The caller's Firebase ID token. Only the brand's admins may test.
+ */
+export async function testLrsConnection(idToken: string, brandId: string): Promise<{ success: boolean; message?: string; error?: string }> {
+  if (!(await isBrandAdminCaller(idToken, brandId))) {
+    return { success: false, error: "You don't have permission to test this brand's LRS." };
+  }
+  try {
+    const credentials = await getBrandLrsCredentials(brandId);
+    const endpoint = normalizeLrsEndpoint(credentials?.endpoint || '');
+    if (!credentials || !/^https?:\/\//i.test(endpoint)) {
+      return { success: false, error: "Save an http(s) LRS endpoint before testing it." };
+    }
+    const error = await checkLrsConnection({ ...credentials, endpoint });
+    return error ? { success: false, error } : { success: true, message: "The LRS accepted the connection." };
+  } catch (error: any) {
+    console.error("[testLrsConnection] Error:", error);
+    return { success: false, error: error.message || "Failed to test the LRS connection." };
+  }
+}
+
+/**
+ * Puts a brand's failed statements back in the queue and starts sending them.
+ * @param idToken - The caller's Firebase ID token. Only the brand's admins may retry.
+ * @param brandId - The brand whose LRS settings the statements use.
+ */
+export async function retryFailedXapiStatements(idToken: string, brandId: string): Promise<{ success: boolean; requeued?: number; error?: string }> {
+  if (!(await isBrandAdminCaller(idToken, brandId))) {
+    return { success: false, error: "You don't have permission to retry this brand's statements." };
+  }
+  try {
+    const requeued = await requeueFailedXapiStatements(brandId);
+    if (requeued > 0) {
+      deliverPendingXapiStatements().catch(error => console.error("Background xAPI delivery failed:", error));
+    }
+    return { success: true, requeued };
+  } catch (error: any) {
+    console.error("[retryFailedXapiStatements] Error:", error);
+    return { success: false, error: error.message || "Failed to requeue statements." };
+  }
+}
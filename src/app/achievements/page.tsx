@@ -22,10 +22,18 @@ import { Timestamp } from 'firebase/firestore';
 import { CourseCertificate } from '@/components/learn/CourseCertificate';
 import { BadgeCard, type BadgeInfo } from '@/components/gamification/BadgeCard';
 import { getBadgesForUser } from '@/lib/gamification';
+import { getCompletionExpiry } from '@/lib/recertification';
+import { getCertificateTemplateById } from '@/lib/certificate-template-data';
+import type { CertificateTemplate } from '@/types/certificate';
+import { Badge } from '@/components/ui/badge';
 
 type CompletedCourseDisplay = (Course | BrandCourse) & {
     completionDate: Date | null;
     effectiveCourseId: string;
+    certificateKey: string;
+    expiresAt: Date | null;
+    isExpired: boolean;
+    timeSpentSeconds: number;
 };
 
 export default function MyAchievementsPage() {
@@ -37,6 +45,7 @@ export default function MyAchievementsPage() {
     const { toast } = useToast();
 
     const [selectedCertificate, setSelectedCertificate] = useState<CompletedCourseDisplay | null>(null);
+    const [selectedTemplate, setSelectedTemplate] = useState<CertificateTemplate | null>(null);
     const [isCertificateDialogOpen, setIsCertificateDialogOpen] = useState(false);
 
     useEffect(() => {
@@ -76,12 +85,37 @@ export default function MyAchievementsPage() {
                 if (!courseData) return null;
                 const progressData = await getUserCourseProgress(currentUser.id, courseId);
                 if (progressData.status === 'Completed') {
-                    return { ...courseData, completionDate: new Date(progressData.lastUpdated as string), effectiveCourseId: courseId };
+                    const expiry = getCompletionExpiry(currentUser.courseProgress?.[courseId], courseData);
+                    return {
+                        ...courseData,
+                        completionDate: expiry?.completedAt ?? new Date(progressData.lastUpdated as string),
+                        effectiveCourseId: courseId,
+                        certificateKey: courseId,
+                        expiresAt: expiry?.expiresAt ?? null,
+                        isExpired: expiry?.isExpired ?? false,
+                        timeSpentSeconds: progressData.timeSpentSeconds ?? 0,
+                    };
                 }
                 return null;
             });
+            // Completions that expired and were archived when the course was reset for recertification
+            const expiredCertificatePromises = Object.entries(currentUser.courseCompletionHistory || {}).map(async ([courseId, history]) => {
+                const courseData: Course | BrandCourse | null = await getCourseById(courseId) || await getBrandCourseById(courseId);
+                if (!courseData) return [];
+                return history.map((entry, index) => ({
+                    ...courseData,
+                    completionDate: entry.completedAt ? new Date(entry.completedAt) : null,
+                    effectiveCourseId: courseId,
+                    certificateKey: `${courseId}-expired-${index}`,
+                    expiresAt: new Date(entry.expiredAt),
+                    isExpired: true,
+                    timeSpentSeconds: entry.timeSpentSeconds,
+                }));
+            });
             const fetchedCompletedCourses = (await Promise.all(coursesDataPromises)).filter(Boolean) as CompletedCourseDisplay[];
-            setCompletedCourses(fetchedCompletedCourses);
+            const expiredCertificates = (await Promise.all(expiredCertificatePromises)).flat()
+                .sort((a, b) => (b.expiresAt?.getTime() ?? 0) - (a.expiresAt?.getTime() ?? 0));
+            setCompletedCourses([...fetchedCompletedCourses, ...expiredCertificates]);
 
             // Fetch earned badges
             const badges = await getBadgesForUser(currentUser);
@@ -105,7 +139,13 @@ export default function MyAchievementsPage() {
         }
     }, [currentUser, fetchAchievements]);
 
-    const handleViewCertificate = (course: CompletedCourseDisplay) => {
+    const handleViewCertificate = async (course: CompletedCourseDisplay) => {
+        try {
+            setSelectedTemplate(await getCertificateTemplateById(course.certificateTemplateId));
+        } catch (error) {
+            console.error("Error loading certificate template:", error);
+            setSelectedTemplate(null); // Fall back to the built-in certificate
+        }
         setSelectedCertificate(course);
         setIsCertificateDialogOpen(true);
     };
@@ -156,7 +196,7 @@ export default function MyAchievementsPage() {
                             </h2>
                             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
                                 {completedCourses.map((course) => (
-                                <Card key={course.effectiveCourseId} className="flex flex-col overflow-hidden shadow-md hover:shadow-lg transition-shadow">
+                                <Card key={course.certificateKey} className={`flex flex-col overflow-hidden shadow-md hover:shadow-lg transition-shadow${course.isExpired ? ' opacity-75' : ''}`}>
                                     {course.featuredImageUrl || course.imageUrl ? (
                                         <div className="relative aspect-video w-full"><Image src={course.featuredImageUrl || course.imageUrl || ''} alt={course.title} fill style={{ objectFit: 'cover' }} className="bg-muted" data-ai-hint="course certificate" onError={(e) => { (e.target as HTMLImageElement).src = `https://placehold.co/600x350.png?text=${encodeURIComponent(course.title)}`; }}/></div>
                                     ) : (
@@ -165,6 +205,11 @@ export default function MyAchievementsPage() {
                                     <CardContent className="p-4 flex-grow flex flex-col">
                                         <CardTitle className="text-lg font-semibold line-clamp-2 mb-1">{course.title}</CardTitle>
                                         <p className="text-xs text-muted-foreground">Completed: {course.completionDate?.toLocaleDateString()}</p>
+                                        {course.expiresAt && (
+                                            course.isExpired
+                                                ? <Badge variant="destructive" className="mt-1 w-fit text-xs">Expired {course.expiresAt.toLocaleDateString()}</Badge>
+                                                : <p className="text-xs text-muted-foreground">Valid until: {course.expiresAt.toLocaleDateString()}</p>
+                                        )}
                                         <div className="mt-auto pt-3"><Button onClick={() => handleViewCertificate(course)} className="w-full">View Certificate</Button></div>
                                     </CardContent>
                                 </Card>
@@ -177,8 +222,8 @@ export default function MyAchievementsPage() {
 
             {selectedCertificate && currentUser && (
                 <Dialog open={isCertificateDialogOpen} onOpenChange={setIsCertificateDialogOpen}>
-                     <DialogHeader className="p-6 print-hide"><DialogUITitle>Course Certificate</DialogUITitle><DialogDescription>Congratulations on completing {selectedCertificate.title}!</DialogDescription></DialogHeader>
-                    <DialogContent className="max-w-3xl p-0 overflow-hidden print-content"><CourseCertificate courseName={selectedCertificate.title} userName={currentUser.name} completionDate={selectedCertificate.completionDate || new Date()} brandName={userBrand?.name} brandLogoUrl={userBrand?.logoUrl} /></DialogContent>
+                     <DialogHeader className="p-6 print-hide"><DialogUITitle>Course Certificate</DialogUITitle><DialogDescription>{selectedCertificate.isExpired ? `This certificate for ${selectedCertificate.title} has expired. Retake the course to recertify.` : `Congratulations on completing ${selectedCertificate.title}!`}</DialogDescription></DialogHeader>
+                    <DialogContent className="max-w-3xl p-0 overflow-hidden print-content"><CourseCertificate courseName={selectedCertificate.title} userName={currentUser.name} completionDate={selectedCertificate.completionDate || new Date()} brandName={userBrand?.name} brandLogoUrl={userBrand?.logoUrl} expiresAt={selectedCertificate.expiresAt} userId={selectedCertificate.certificateKey === selectedCertificate.effectiveCourseId ? currentUser.id : undefined} courseId={selectedCertificate.effectiveCourseId} template={selectedTemplate} timeSpentSeconds={selectedCertificate.timeSpentSeconds} /></DialogContent>
                 </Dialog>
             )}
         </div>
@@ -22,10 +22,11 @@ import { uploadImage, STORAGE_PATHS } from '@/lib/storage';
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Loader2, Info, ArrowLeft, Building, Upload, ImageIcon, Trash2, Globe, Link as LinkIcon, Users, GitBranch, Briefcase, Gift, Calendar as CalendarIcon } from 'lucide-react';
+import { Loader2, Info, ArrowLeft, Building, Upload, ImageIcon, Trash2, Globe, Link as LinkIcon, Users, GitBranch, Briefcase, Gift, Calendar as CalendarIcon, ClipboardCheck } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { DatePickerWithPresets } from '@/components/ui/date-picker-with-presets';
+import { BrandLrsSettingsCard } from '@/components/admin/BrandLrsSettingsCard';
 import { Timestamp } from 'firebase/firestore';
 
 const companyFormSchema = z.object({
@@ -44,6 +45,7 @@ const companyFormSchema = z.object({
   maxUsers: z.coerce.number().int().positive().min(1).optional().nullable(),
   isTrial: z.boolean().default(false),
   trialEndsAt: z.date().nullable().optional(),
+  requiresCourseApproval: z.boolean().default(false),
 });
 
 type CompanyFormValues = z.infer<typeof companyFormSchema>;
@@ -64,7 +66,7 @@ export default function EditCompanyFormPage() {
 
   const form = useForm<CompanyFormValues>({
     resolver: zodResolver(companyFormSchema),
-    defaultValues: { name: '', parentBrandId: null, subdomainSlug: null, customDomain: null, shortDescription: null, logoUrl: null, maxUsers: null, isTrial: false, trialEndsAt: null },
+    defaultValues: { name: '', parentBrandId: null, subdomainSlug: null, customDomain: null, shortDescription: null, logoUrl: null, maxUsers: null, isTrial: false, trialEndsAt: null, requiresCourseApproval: false },
   });
   
   const logoUrlValue = form.watch('logoUrl');
@@ -112,6 +114,7 @@ export default function EditCompanyFormPage() {
             maxUsers: companyData.maxUsers,
             isTrial: companyData.isTrial,
             trialEndsAt: trialDate,
+            requiresCourseApproval: companyData.requiresCourseApproval ?? false,
         });
 
         if (user.role === 'Super Admin') {
@@ -171,6 +174,7 @@ export default function EditCompanyFormPage() {
         isTrial: data.isTrial,
         trialEndsAt: data.isTrial ? (data.trialEndsAt ? Timestamp.fromDate(data.trialEndsAt) : null) : null,
       };
+      if (canSetCourseApproval) formData.requiresCourseApproval = data.requiresCourseApproval;
       
       const updatedCompany = await updateCompany(companyId, formData);
       
@@ -183,6 +187,9 @@ export default function EditCompanyFormPage() {
     });
   };
 
+  // Reviewers decide whether a brand's courses need approval, not the brand itself
+  const canSetCourseApproval = currentUser?.role === 'Super Admin' || (!!companyToEdit?.parentBrandId && currentUser?.companyId === companyToEdit.parentBrandId);
+
   if (isLoading || !currentUser || !companyToEdit) {
     return (
       <div className="container mx-auto p-6 space-y-6">
@@ -235,6 +242,26 @@ export default function EditCompanyFormPage() {
                   />
                 )}
                 
+                {canSetCourseApproval && (
+                  <FormField
+                    control={form.control}
+                    name="requiresCourseApproval"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                        <div className="space-y-0.5">
+                          <FormLabel className="flex items-center gap-1"><ClipboardCheck className="h-4 w-4" /> Require Course Approval</FormLabel>
+                          <FormDescription className="text-xs">
+                            New courses and course changes from this brand reach learners only after {companyToEdit.parentBrandId ? 'the parent account' : 'a Super Admin'} approves them.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <Card className="bg-secondary/50">
                     <CardHeader>
                         <CardTitle className="text-lg flex items-center gap-2"><Gift className="h-5 w-5"/> Trial Management</CardTitle>
@@ -310,6 +337,8 @@ export default function EditCompanyFormPage() {
           </form>
         </Form>
       </Card>
+
+      <BrandLrsSettingsCard brandId={companyId} />
     </div>
   );
 }
@@ -39,7 +39,7 @@ import type { Company, Location as LocationType, User } from '@/types/user';
 import { getCompanyById, getLocationsByCompanyId, addLocation, updateLocation, deleteLocation, getAllCompanies } from '@/lib/company-data';
 import { AddEditLocationDialog } from '@/components/admin/AddEditLocationDialog';
 import { Skeleton } from '@/components/ui/skeleton';
-import { getUserByEmail } from '@/lib/user-data';
+import { getUserByEmail, getCurrentUserSummary } from '@/lib/user-data';
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
 
@@ -183,7 +183,7 @@ export default function AdminCompanyLocationsPage() {
     if (!locationToDelete) return;
     setIsLoadingLocations(true); 
     try {
-      const success = await deleteLocation(locationToDelete.id);
+      const success = await deleteLocation(locationToDelete.id, await getCurrentUserSummary());
       if (success) {
         const locationsData = await getLocationsByCompanyId(selectedBrandIdInFilter);
         setLocationsToDisplay(locationsData);
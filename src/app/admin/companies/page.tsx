@@ -41,7 +41,7 @@ import { getAllCompanies, deleteCompany, getLocationsByCompanyId } from '@/lib/c
 import { getAllPrograms } from '@/lib/firestore-data';
 import { getUserCountByCompanyId } from '@/lib/user-data';
 import { Skeleton } from '@/components/ui/skeleton';
-import { getUserByEmail } from '@/lib/user-data';
+import { getUserByEmail, getCurrentUserSummary } from '@/lib/user-data';
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
 import { useRouter } from 'next/navigation';
@@ -181,7 +181,7 @@ export default function AdminCompaniesPage() {
     if (!companyToDelete) return;
     setIsLoading(true);
     try {
-      const success = await deleteCompany(companyToDelete.id);
+      const success = await deleteCompany(companyToDelete.id, await getCurrentUserSummary());
       if (success) {
         await fetchCompanies(currentUser); 
         toast({
@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ClipboardCheck, Search, Loader2, Eye } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { User } from '@/types/user';
+import type { CourseReview } from '@/types/course';
+import { getCourseReviewsForReviewer } from '@/lib/course-review-data';
+import { getAllCompanies } from '@/lib/company-data';
+import { getUserByEmail } from '@/lib/user-data';
+import { CourseReviewDialog } from '@/components/course-reviews/CourseReviewDialog';
+import { auth } from '@/lib/firebase';
+import { onAuthStateChanged } from 'firebase/auth';
+import { useRouter } from 'next/navigation';
+
+export default function AdminCourseReviewsPage() {
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [reviews, setReviews] = useState<CourseReview[]>([]);
+  const [brandNames, setBrandNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [openReview, setOpenReview] = useState<CourseReview | null>(null);
+  const { toast } = useToast();
+  const router = useRouter();
+
+  const fetchReviews = useCallback(async (user: User) => {
+    setIsLoading(true);
+    try {
+      const [openReviews, companies] = await Promise.all([getCourseReviewsForReviewer(user), getAllCompanies(user)]);
+      setReviews(openReviews);
+      setBrandNames(Object.fromEntries(companies.map(company => [company.id, company.name])));
+    } catch (error) {
+      console.error("Failed to load course reviews:", error);
+      toast({ title: "Error", description: "Could not load course reviews.", variant: "destructive" });
+      setReviews([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
+      if (firebaseUser?.email) {
+        const userDetails = await getUserByEmail(firebaseUser.email);
+        setCurrentUser(userDetails);
+        const canReview = userDetails?.role === 'Super Admin' || ((userDetails?.role === 'Admin' || userDetails?.role === 'Owner') && !!userDetails.companyId);
+        if (!userDetails || !canReview) {
+          toast({ title: "Access Denied", description: "Only admins can review courses.", variant: "destructive" });
+          router.push('/');
+        } else {
+          fetchReviews(userDetails);
+        }
+      } else {
+        router.push('/login');
+      }
+    });
+    return () => unsubscribe();
+  }, [router, toast, fetchReviews]);
+
+  const filteredReviews = useMemo(() => {
+    const lowercasedFilter = searchTerm.toLowerCase();
+    return reviews.filter(review =>
+      review.courseTitle.toLowerCase().includes(lowercasedFilter) ||
+      (brandNames[review.brandId] || '').toLowerCase().includes(lowercasedFilter)
+    );
+  }, [reviews, brandNames, searchTerm]);
+
+  if (!currentUser) {
+    return <div className="container mx-auto text-center"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+  }
+
+  return (
+    <div className="container mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold tracking-tight text-primary flex items-center gap-2"><ClipboardCheck className="h-7 w-7" /> Course Reviews</h1>
+      </div>
+
+      <div className="mb-6 flex items-center gap-2">
+        <Search className="h-5 w-5 text-muted-foreground" />
+        <Input type="text" placeholder="Search by course or brand..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="max-w-sm" />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Open Submissions</CardTitle>
+          <CardDescription>
+            Brands that require course approval submit new courses and changes here. Learners see them once you approve.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? <Skeleton className="h-40 w-full" /> : filteredReviews.length === 0 ? (
+            <div className="text-center py-8">{searchTerm ? "No submissions found." : "Nothing is waiting for review."}</div>
+          ) : (
+            <Table>
+              <TableHeader><TableRow><TableHead>Course</TableHead><TableHead>Brand</TableHead><TableHead>Submitted</TableHead><TableHead>Status</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {filteredReviews.map((review) => (
+                  <TableRow key={review.id}>
+                    <TableCell className="font-medium">
+                      <div className="flex flex-col">
+                        <span>{review.courseTitle}</span>
+                        <span className="text-xs text-muted-foreground">{review.publishedContent ? 'Changes to a live course' : 'New course'}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>{brandNames[review.brandId] || 'Unknown brand'}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col text-sm">
+                        <span>{review.submittedAt ? formatDistanceToNow(new Date(review.submittedAt), { addSuffix: true }) : 'Unknown date'}</span>
+                        <span className="text-xs text-muted-foreground">{review.submittedBy ? `by ${review.submittedBy.name}` : 'Unknown user'}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {review.status === 'pending'
+                        ? <Badge variant="outline" className="border-blue-500 text-blue-700">Waiting for review</Badge>
+                        : <Badge variant="secondary">Changes requested</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => setOpenReview(review)}>
+                        <Eye className="mr-1 h-4 w-4" /> {review.status === 'pending' ? 'Review' : 'View'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CourseReviewDialog
+        isOpen={!!openReview}
+        setIsOpen={(open) => { if (!open) setOpenReview(null); }}
+        review={openReview}
+        onChanged={() => fetchReviews(currentUser)}
+      />
+    </div>
+  );
+}
@@ -14,12 +14,16 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { ArrowLeft, BookOpen, PlusCircle, Trash2, GripVertical, Eye, EyeOff, HelpCircle, FileText, ListChecks, Loader2 } from 'lucide-react';
+import { ArrowLeft, BookOpen, PlusCircle, Trash2, GripVertical, Eye, EyeOff, HelpCircle, FileText, ListChecks, Loader2, CalendarClock, Layers, Pencil } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import type { Course, Lesson, Quiz } from '@/types/course';
-import { getCourseById, getAllLessons, updateCourseCurriculum, getLessonById, getAllQuizzes, getQuizById } from '@/lib/firestore-data';
+import type { Course, Lesson, Quiz, CurriculumAvailability, CurriculumModule } from '@/types/course';
+import { getCourseById, getAllLessons, updateCourseModules, getLessonById, getAllQuizzes, getQuizById, updateCourseCurriculumAvailability } from '@/lib/firestore-data';
 import { AddLessonToCurriculumDialog } from '@/components/admin/AddLessonToCurriculumDialog';
 import { AddQuizToCurriculumDialog } from '@/components/admin/AddQuizToCurriculumDialog';
+import { CurriculumAvailabilityDialog } from '@/components/admin/CurriculumAvailabilityDialog';
+import { EditModuleTitleDialog } from '@/components/admin/EditModuleTitleDialog';
+import { describeCurriculumAvailability } from '@/lib/drip-schedule';
+import { buildModulesFromCurriculum, createCurriculumModule, flattenModules, getCourseModules } from '@/lib/curriculum-modules';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
@@ -40,11 +44,15 @@ export default function ManageCourseCurriculumPage() {
   const courseId = params.courseId as string;
 
   const [course, setCourse] = useState<Course | null>(null);
-  const [curriculumItems, setCurriculumItems] = useState<CurriculumItem[]>([]); // Single list for all items
+  const [modules, setModules] = useState<CurriculumModule[]>([]);
+  const [curriculumItemsById, setCurriculumItemsById] = useState<Map<string, CurriculumItem>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isAddLessonDialogOpen, setIsAddLessonDialogOpen] = useState(false);
   const [isAddQuizDialogOpen, setIsAddQuizDialogOpen] = useState(false);
+  const [targetModuleId, setTargetModuleId] = useState<string | null>(null); // Module that new lessons and quizzes are added to
+  const [moduleToEdit, setModuleToEdit] = useState<{ moduleId: string | null } | null>(null); // moduleId null = new module
+  const [itemToSchedule, setItemToSchedule] = useState<CurriculumItem | null>(null);
   const [availableLessonsForDialog, setAvailableLessonsForDialog] = useState<Lesson[]>([]); 
   const [availableQuizzesForDialog, setAvailableQuizzesForDialog] = useState<Quiz[]>([]); 
 
@@ -73,10 +81,9 @@ export default function ManageCourseCurriculumPage() {
       const allPossibleItems = (await Promise.all(allPossibleItemsPromises)).filter(Boolean) as CurriculumItem[];
       allPossibleItems.forEach(item => allItemsMap.set(item.id, item));
       
-      const orderedCurriculumItems = (fetchedCourse.curriculum || [])
-        .map(itemId => allItemsMap.get(itemId))
-        .filter(Boolean) as CurriculumItem[];
-      setCurriculumItems(orderedCurriculumItems);
+      // Items whose lesson or quiz no longer exists are dropped, and the modules are saved without them on the next change
+      setCurriculumItemsById(allItemsMap);
+      setModules(getCourseModules(fetchedCourse).map(module => ({ ...module, itemIds: module.itemIds.filter(itemId => allItemsMap.has(itemId)) })));
 
       const currentCurriculumIds = new Set(fetchedCourse.curriculum || []);
       const lessonsNotInCurriculum = allLessons.filter(lesson => !currentCurriculumIds.has(`lesson-${lesson.id}`));
@@ -97,16 +104,27 @@ export default function ManageCourseCurriculumPage() {
   }, [fetchCourseAndData]);
 
 
+  const openAddItemDialog = (type: 'lesson' | 'quiz', moduleId: string | null) => {
+    setTargetModuleId(moduleId);
+    if (type === 'lesson') setIsAddLessonDialogOpen(true);
+    else setIsAddQuizDialogOpen(true);
+  };
+
+  // Adds to the chosen module, or the last module when added from the page header
+  const addItemToModule = async (prefixedId: string) => {
+    const baseModules = modules.length > 0 ? modules : buildModulesFromCurriculum([]);
+    const moduleIndex = baseModules.findIndex(module => module.id === targetModuleId);
+    const index = moduleIndex === -1 ? baseModules.length - 1 : moduleIndex;
+    const newModules = baseModules.map((module, i) => i === index ? { ...module, itemIds: [...module.itemIds, prefixedId] } : module);
+    await saveModules(newModules);
+    fetchCourseAndData();
+  };
+
   const handleAddLessonToCurriculum = async (lessonId: string) => {
     const allLessons = await getAllLessons(); 
     const lessonToAdd = allLessons.find(l => l.id === lessonId);
     if (lessonToAdd && course) {
-       const prefixedId = `lesson-${lessonId}`;
-       const newItem: CurriculumItem = { id: prefixedId, type: 'lesson', data: lessonToAdd };
-        setCurriculumItems(prev => [...prev, newItem]);
-        const newCurriculumIds = [...(course.curriculum || []), prefixedId];
-        await saveCurriculum(newCurriculumIds); 
-        fetchCourseAndData(); 
+        await addItemToModule(`lesson-${lessonId}`);
     }
     setIsAddLessonDialogOpen(false);
   };
@@ -115,58 +133,100 @@ export default function ManageCourseCurriculumPage() {
      const allQuizzes = await getAllQuizzes(); 
      const quizToAdd = allQuizzes.find(q => q.id === quizId);
      if (quizToAdd && course) {
-        const prefixedId = `quiz-${quizId}`;
-        const newItem: CurriculumItem = { id: prefixedId, type: 'quiz', data: quizToAdd };
-        setCurriculumItems(prev => [...prev, newItem]);
-        const newCurriculumIds = [...(course.curriculum || []), prefixedId];
-        await saveCurriculum(newCurriculumIds); 
-        fetchCourseAndData(); 
+        await addItemToModule(`quiz-${quizId}`);
      }
      setIsAddQuizDialogOpen(false);
    };
 
-  const handleRemoveItem = async (itemId: string, sourceIndex: number) => { 
-    let newCurriculumItems = [...curriculumItems];
-    newCurriculumItems.splice(sourceIndex, 1);
-
-    setCurriculumItems(newCurriculumItems);
-    const newCurriculumIds = newCurriculumItems.map(item => item.id);
-    await saveCurriculum(newCurriculumIds);
+  const handleRemoveItem = async (itemId: string) => { 
+    const newModules = modules.map(module => ({ ...module, itemIds: module.itemIds.filter(id => id !== itemId) }));
+    await saveModules(newModules);
     fetchCourseAndData();
 };
 
-   const saveCurriculum = async (newCurriculumIds: string[]) => {
+  const saveModuleTitle = async (title: string) => {
+    if (!moduleToEdit) return;
+    const newModules = moduleToEdit.moduleId
+      ? modules.map(module => module.id === moduleToEdit.moduleId ? { ...module, title } : module)
+      : [...modules, createCurriculumModule(title)];
+    await saveModules(newModules);
+  };
+
+  // The module's lessons and quizzes move to the module above it (or below, for the first module)
+  const handleDeleteModule = async (moduleId: string) => {
+    const moduleIndex = modules.findIndex(module => module.id === moduleId);
+    if (moduleIndex === -1 || modules.length <= 1) return;
+    const receivingIndex = moduleIndex === 0 ? 1 : moduleIndex - 1;
+    const movedItemIds = modules[moduleIndex].itemIds;
+    const newModules = modules
+      .map((module, i) => i === receivingIndex
+        ? { ...module, itemIds: receivingIndex < moduleIndex ? [...module.itemIds, ...movedItemIds] : [...movedItemIds, ...module.itemIds] }
+        : module)
+      .filter(module => module.id !== moduleId);
+    await saveModules(newModules);
+  };
+
+   const saveModules = async (newModules: CurriculumModule[]) => {
      if (!courseId || !course) return; 
+     setModules(newModules); // Optimistic update
      setIsSaving(true);
      try {
-       const success = await updateCourseCurriculum(courseId, newCurriculumIds); 
+       const success = await updateCourseModules(courseId, newModules); 
        if (success) {
          toast({ title: "Curriculum Updated", description: "Curriculum saved." });
-         setCourse(prev => prev ? { ...prev, curriculum: newCurriculumIds } : null);
+         setCourse(prev => prev ? { ...prev, modules: newModules, curriculum: flattenModules(newModules) } : null);
        } else {
          throw new Error("Failed to update curriculum in Firestore.");
        }
      } catch (error) {
        console.error("Error saving curriculum:", error);
        toast({ title: "Save Error", description: "Could not save curriculum changes.", variant: "destructive" });
+       fetchCourseAndData();
      } finally {
        setIsSaving(false);
      }
    };
 
+  const saveItemAvailability = async (availability: CurriculumAvailability | null) => {
+    if (!courseId || !itemToSchedule) return;
+    const itemId = itemToSchedule.id;
+    const success = await updateCourseCurriculumAvailability(courseId, itemId, availability);
+    if (success) {
+      toast({ title: "Schedule Updated", description: `"${itemToSchedule.data.title}": ${describeCurriculumAvailability(availability)}.` });
+      setCourse(prev => {
+        if (!prev) return null;
+        const curriculumAvailability = { ...(prev.curriculumAvailability || {}) };
+        if (availability) curriculumAvailability[itemId] = availability;
+        else delete curriculumAvailability[itemId];
+        return { ...prev, curriculumAvailability };
+      });
+    } else {
+      toast({ title: "Save Error", description: "Could not save the availability schedule.", variant: "destructive" });
+    }
+  };
+
+   // Modules are reordered within the module list; items move within or between modules (droppable ID = module ID)
    const onDragEnd = (result: DropResult) => {
-    const { source, destination } = result;
+    const { source, destination, type } = result;
     if (!destination || (source.droppableId === destination.droppableId && source.index === destination.index)) {
         return;
     }
 
-    const newOrderedItems = Array.from(curriculumItems);
-    const [movedItem] = newOrderedItems.splice(source.index, 1);
-    newOrderedItems.splice(destination.index, 0, movedItem);
+    if (type === 'MODULE') {
+        const newModules = Array.from(modules);
+        const [movedModule] = newModules.splice(source.index, 1);
+        newModules.splice(destination.index, 0, movedModule);
+        saveModules(newModules);
+        return;
+    }
 
-    setCurriculumItems(newOrderedItems);
-    const newCurriculumIds = newOrderedItems.map(item => item.id);
-    saveCurriculum(newCurriculumIds);
+    const newModules = modules.map(module => ({ ...module, itemIds: [...module.itemIds] }));
+    const sourceModule = newModules.find(module => module.id === source.droppableId);
+    const destinationModule = newModules.find(module => module.id === destination.droppableId);
+    if (!sourceModule || !destinationModule) return;
+    const [movedItemId] = sourceModule.itemIds.splice(source.index, 1);
+    destinationModule.itemIds.splice(destination.index, 0, movedItemId);
+    saveModules(newModules);
 };
 
    const renderCurriculumItemRow = (item: CurriculumItem, index: number) => ( 
@@ -197,12 +257,17 @@ export default function ManageCourseCurriculumPage() {
                            <span className="text-xs">{(item.data as Quiz).questions?.length ?? 0} Questions</span>
                        )}
                    </TableCell>
+                   <TableCell className="py-3 w-[190px]">
+                       <Button variant="ghost" size="sm" className="h-8 px-2 text-xs text-muted-foreground" onClick={() => setItemToSchedule(item)} disabled={isSaving}>
+                           <CalendarClock className="mr-1 h-3 w-3" /> {describeCurriculumAvailability(course?.curriculumAvailability?.[item.id])}
+                       </Button>
+                   </TableCell>
                    <TableCell className="text-right py-3 w-[80px] pr-4">
                        <Button
                            variant="ghost"
                            size="icon"
                            className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8"
-                           onClick={() => handleRemoveItem(item.id, index)} 
+                           onClick={() => handleRemoveItem(item.id)} 
                            disabled={isSaving}
                            aria-label={`Remove ${item.data.title}`}
                        >
@@ -250,10 +315,13 @@ export default function ManageCourseCurriculumPage() {
           <p className="text-muted-foreground">Manage Course Curriculum</p>
         </div>
          <div className="space-x-2">
-             <Button onClick={() => setIsAddLessonDialogOpen(true)} className="bg-accent text-accent-foreground hover:bg-accent/90">
+             <Button onClick={() => setModuleToEdit({ moduleId: null })} className="bg-accent text-accent-foreground hover:bg-accent/90">
+                <Layers className="mr-2 h-4 w-4" /> Add Module
+             </Button>
+             <Button onClick={() => openAddItemDialog('lesson', null)} className="bg-accent text-accent-foreground hover:bg-accent/90">
                 <PlusCircle className="mr-2 h-4 w-4" /> Add Lesson
              </Button>
-              <Button onClick={() => setIsAddQuizDialogOpen(true)} className="bg-accent text-accent-foreground hover:bg-accent/90">
+              <Button onClick={() => openAddItemDialog('quiz', null)} className="bg-accent text-accent-foreground hover:bg-accent/90">
                 <PlusCircle className="mr-2 h-4 w-4" /> Add Quiz
              </Button>
               <Button variant="outline" asChild>
@@ -272,45 +340,85 @@ export default function ManageCourseCurriculumPage() {
       <Card className="mb-8">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-             Course Curriculum ({curriculumItems.length}) {isSaving && <Loader2 className="h-4 w-4 animate-spin"/>}
+             Course Curriculum ({flattenModules(modules).length}) {isSaving && <Loader2 className="h-4 w-4 animate-spin"/>}
           </CardTitle>
-          <CardDescription>Drag and drop lessons and quizzes to reorder the curriculum.</CardDescription>
+          <CardDescription>Drag modules to reorder them, and drag lessons and quizzes to reorder them or move them between modules. Use the availability column to release items on a schedule.</CardDescription>
         </CardHeader>
         <CardContent>
-           <Droppable droppableId="courseCurriculum">
-             {(provided, snapshot) => (
-                 <Table
-                    className={cn(
-                         "border border-dashed rounded-md min-h-[100px]",
-                         curriculumItems.length === 0 && "text-center text-muted-foreground italic", 
-                         snapshot.isDraggingOver && "bg-accent/20 border-accent" 
-                      )}
-                 >
-                   <TableHeader className={cn(curriculumItems.length === 0 && "sr-only")}> 
-                     <TableRow>
-                       <TableHead className="w-[50px]"></TableHead>
-                       <TableHead>Type</TableHead>
-                       <TableHead>Title</TableHead>
-                       <TableHead>Details</TableHead>
-                       <TableHead className="text-right">Actions</TableHead>
-                     </TableRow>
-                   </TableHeader>
-                   <TableBody
-                       ref={provided.innerRef}
-                       {...provided.droppableProps}
-                   >
-                      {curriculumItems.length === 0 ? (
-                          <TableRow>
-                             <TableCell colSpan={5} className="h-24 text-center">
-                                 This course curriculum is empty. Add lessons or quizzes.
-                             </TableCell>
-                          </TableRow>
-                      ) : (
-                         curriculumItems.map((item, index) => renderCurriculumItemRow(item, index))
-                      )}
-                       {provided.placeholder}
-                   </TableBody>
-                 </Table>
+           <Droppable droppableId="courseModules" type="MODULE">
+             {(modulesProvided) => (
+               <div ref={modulesProvided.innerRef} {...modulesProvided.droppableProps} className="space-y-6">
+                 {modules.map((module, moduleIndex) => (
+                   <Draggable key={module.id} draggableId={module.id} index={moduleIndex}>
+                     {(moduleProvided) => (
+                       <div ref={moduleProvided.innerRef} {...moduleProvided.draggableProps} className="rounded-md border bg-card">
+                         <div className="flex items-center gap-2 border-b bg-muted/40 px-4 py-2">
+                           <span {...moduleProvided.dragHandleProps} className="cursor-move" aria-label={`Reorder ${module.title}`}>
+                             <GripVertical className="h-5 w-5 text-muted-foreground" />
+                           </span>
+                           <h3 className="font-semibold">{module.title}</h3>
+                           <Badge variant="outline" className="text-xs">{module.itemIds.length} item{module.itemIds.length === 1 ? '' : 's'}</Badge>
+                           <div className="ml-auto flex items-center gap-1">
+                             <Button variant="ghost" size="sm" className="h-8 px-2 text-xs" onClick={() => openAddItemDialog('lesson', module.id)} disabled={isSaving}>
+                               <PlusCircle className="mr-1 h-3 w-3" /> Lesson
+                             </Button>
+                             <Button variant="ghost" size="sm" className="h-8 px-2 text-xs" onClick={() => openAddItemDialog('quiz', module.id)} disabled={isSaving}>
+                               <PlusCircle className="mr-1 h-3 w-3" /> Quiz
+                             </Button>
+                             <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setModuleToEdit({ moduleId: module.id })} disabled={isSaving} aria-label={`Rename ${module.title}`}>
+                               <Pencil className="h-4 w-4" />
+                             </Button>
+                             <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8" onClick={() => handleDeleteModule(module.id)} disabled={isSaving || modules.length <= 1} aria-label={`Delete ${module.title}`}>
+                               <Trash2 className="h-4 w-4" />
+                             </Button>
+                           </div>
+                         </div>
+                         <Droppable droppableId={module.id} type="ITEM">
+                           {(provided, snapshot) => (
+                             <Table
+                                className={cn(
+                                     "min-h-[60px]",
+                                     module.itemIds.length === 0 && "text-center text-muted-foreground italic", 
+                                     snapshot.isDraggingOver && "bg-accent/20" 
+                                  )}
+                             >
+                               <TableHeader className="sr-only"> 
+                                 <TableRow>
+                                   <TableHead className="w-[50px]"></TableHead>
+                                   <TableHead>Type</TableHead>
+                                   <TableHead>Title</TableHead>
+                                   <TableHead>Details</TableHead>
+                                   <TableHead>Availability</TableHead>
+                                   <TableHead className="text-right">Actions</TableHead>
+                                 </TableRow>
+                               </TableHeader>
+                               <TableBody
+                                   ref={provided.innerRef}
+                                   {...provided.droppableProps}
+                               >
+                                  {module.itemIds.length === 0 ? (
+                                      <TableRow>
+                                         <TableCell colSpan={6} className="h-16 text-center">
+                                             This module is empty. Add lessons or quizzes, or drag them here.
+                                         </TableCell>
+                                      </TableRow>
+                                  ) : (
+                                     module.itemIds.map((itemId, index) => {
+                                        const item = curriculumItemsById.get(itemId);
+                                        return item ? renderCurriculumItemRow(item, index) : null;
+                                     })
+                                  )}
+                                   {provided.placeholder}
+                               </TableBody>
+                             </Table>
+                           )}
+                         </Droppable>
+                       </div>
+                     )}
+                   </Draggable>
+                 ))}
+                 {modulesProvided.placeholder}
+               </div>
              )}
            </Droppable>
         </CardContent>
@@ -330,6 +438,22 @@ export default function ManageCourseCurriculumPage() {
             availableQuizzes={availableQuizzesForDialog} 
             onAddQuiz={handleAddQuizToCurriculum}
         />
+
+        <EditModuleTitleDialog
+            isOpen={!!moduleToEdit}
+            setIsOpen={(open) => { if (!open) setModuleToEdit(null); }}
+            isNewModule={!moduleToEdit?.moduleId}
+            initialTitle={modules.find(module => module.id === moduleToEdit?.moduleId)?.title ?? `Module ${modules.length + 1}`}
+            onSave={saveModuleTitle}
+        />
+
+        <CurriculumAvailabilityDialog
+            isOpen={!!itemToSchedule}
+            setIsOpen={(open) => { if (!open) setItemToSchedule(null); }}
+            itemTitle={itemToSchedule?.data.title || ''}
+            availability={itemToSchedule ? course.curriculumAvailability?.[itemToSchedule.id] ?? null : null}
+            onSave={saveItemAvailability}
+        />
     </div>
     </DragDropContext>
   );
@@ -1,7 +1,7 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -16,7 +16,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { PlusCircle, MoreHorizontal, Trash2, Edit, BookOpen, CreditCard, Search, Loader2, Settings } from 'lucide-react';
+import { PlusCircle, MoreHorizontal, Trash2, Edit, BookOpen, CreditCard, Search, Loader2, Settings, Download, Upload, Copy, History } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -37,8 +37,18 @@ import {
 } from "@/components/ui/alert-dialog"
 import { useToast } from '@/hooks/use-toast';
 import type { Course } from '@/types/course';
+import type { Company } from '@/types/user';
 import { getAllCourses, deleteCourse } from '@/lib/firestore-data';
+import { getAllCompanies } from '@/lib/company-data';
+import { getUserByEmail, getCurrentUserSummary } from '@/lib/user-data';
+import { auth } from '@/lib/firebase';
+import { onAuthStateChanged } from 'firebase/auth';
 import { AddEditCourseDialog } from '@/components/admin/AddEditCourseDialog';
+import { CopyCourseToBrandDialog } from '@/components/admin/CopyCourseToBrandDialog';
+import { ExportCoursePackageDialog } from '@/components/course-packages/ExportCoursePackageDialog';
+import { ImportCoursePackageDialog, type CoursePackageTarget } from '@/components/course-packages/ImportCoursePackageDialog';
+import { VersionHistoryDialog } from '@/components/content-versions/VersionHistoryDialog';
+import { withDraft } from '@/lib/content-versions';
 import { Skeleton } from '@/components/ui/skeleton';
 
 
@@ -52,12 +62,18 @@ export default function AdminCoursesPage() {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [courseToDelete, setCourseToDelete] = useState<Course | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [brands, setBrands] = useState<Company[]>([]);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isCopyDialogOpen, setIsCopyDialogOpen] = useState(false);
+  const [packageCourse, setPackageCourse] = useState<Course | null>(null);
+  const [historyCourse, setHistoryCourse] = useState<Course | null>(null);
   const { toast } = useToast();
 
   const fetchCourses = async () => {
     setIsLoading(true);
     try {
-      const coursesData = await getAllCourses();
+      const coursesData = (await getAllCourses()).map(course => withDraft(course));
       setCourses(coursesData);
       setFilteredCourses(coursesData);
     } catch (error:any) {
@@ -74,6 +90,25 @@ export default function AdminCoursesPage() {
     fetchCourses();
   }, []);
 
+  // Brands are the other libraries a course can be imported or copied into
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
+      if (!firebaseUser?.email) return;
+      try {
+        const user = await getUserByEmail(firebaseUser.email);
+        if (user) setBrands(await getAllCompanies(user));
+      } catch (error) {
+        console.error("Failed to fetch brands:", error);
+      }
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const importTargets = useMemo<CoursePackageTarget[]>(() => [
+    { library: { type: 'global' }, label: 'Global library' },
+    ...brands.map(brand => ({ library: { type: 'brand' as const, brandId: brand.id }, label: `${brand.name} (brand library)` })),
+  ], [brands]);
+
   useEffect(() => {
     const lowercasedFilter = searchTerm.toLowerCase();
     const filtered = courses.filter(course =>
@@ -103,7 +138,7 @@ export default function AdminCoursesPage() {
     if (!courseToDelete) return;
     setIsDeleting(courseToDelete.id);
     try {
-        const success = await deleteCourse(courseToDelete.id);
+        const success = await deleteCourse(courseToDelete.id, await getCurrentUserSummary());
         if (success) {
             await fetchCourses();
             toast({
@@ -128,6 +163,16 @@ export default function AdminCoursesPage() {
     }
   };
 
+  const openExportDialog = (course: Course) => {
+    setPackageCourse(course);
+    setIsExportDialogOpen(true);
+  };
+
+  const openCopyDialog = (course: Course) => {
+    setPackageCourse(course);
+    setIsCopyDialogOpen(true);
+  };
+
    const handleSaveCourse = (savedCourse: Course) => {
        fetchCourses();
        setEditingCourse(null);
@@ -142,9 +187,14 @@ export default function AdminCoursesPage() {
           <h1 className="text-3xl font-bold tracking-tight">Course Management</h1>
           <p className="text-muted-foreground">Create and manage your course catalog</p>
         </div>
-        <Button onClick={handleAddCourseClick} className="bg-primary hover:bg-primary/90 text-primary-foreground">
-          <PlusCircle className="mr-2 h-4 w-4" /> Create Course
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" /> Import Course
+          </Button>
+          <Button onClick={handleAddCourseClick} className="bg-primary hover:bg-primary/90 text-primary-foreground">
+            <PlusCircle className="mr-2 h-4 w-4" /> Create Course
+          </Button>
+        </div>
       </div>
 
       <Card>
@@ -197,7 +247,10 @@ export default function AdminCoursesPage() {
                     <TableCell className="text-muted-foreground">{course.category || 'N/A'}</TableCell>
                     <TableCell className="text-muted-foreground">{course.duration || 'N/A'}</TableCell>
                     <TableCell>
-                      <Badge variant="success">Published</Badge>
+                      <div className="flex flex-col gap-1 items-start">
+                        <Badge variant="success">Published</Badge>
+                        {course.draft && <Badge variant="outline" className="border-yellow-500 text-yellow-700">Unpublished changes</Badge>}
+                      </div>
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-2">
@@ -209,6 +262,17 @@ export default function AdminCoursesPage() {
                           <Button variant="ghost" size="icon" onClick={() => handleEditCourseClick(course)} title="Edit Course">
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button variant="ghost" size="icon" onClick={() => setHistoryCourse(course)} title="Publishing & History">
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => openExportDialog(course)} title="Export Course Package">
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          {brands.length > 0 && (
+                            <Button variant="ghost" size="icon" onClick={() => openCopyDialog(course)} title="Copy to Brand">
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive" onClick={() => openDeleteDialog(course)} disabled={isDeleting === course.id} title="Delete Course">
                              {isDeleting === course.id ? <Loader2 className="h-4 w-4 animate-spin"/> : <Trash2 className="h-4 w-4" />}
                           </Button>
@@ -229,6 +293,36 @@ export default function AdminCoursesPage() {
          initialData={editingCourse}
        />
 
+       <ImportCoursePackageDialog
+         isOpen={isImportDialogOpen}
+         setIsOpen={setIsImportDialogOpen}
+         targets={importTargets}
+         manageCourseHref={(courseId, library) => (library.type === 'global' ? `/admin/courses/manage/${courseId}` : null)}
+         onImported={(report) => report.target.type === 'global' && fetchCourses()}
+       />
+
+       <ExportCoursePackageDialog
+         isOpen={isExportDialogOpen}
+         setIsOpen={setIsExportDialogOpen}
+         library={{ type: 'global' }}
+         course={packageCourse}
+       />
+
+       <CopyCourseToBrandDialog
+         isOpen={isCopyDialogOpen}
+         setIsOpen={setIsCopyDialogOpen}
+         course={packageCourse}
+         brands={brands}
+       />
+
+       <VersionHistoryDialog
+         isOpen={!!historyCourse}
+         setIsOpen={(open) => { if (!open) setHistoryCourse(null); }}
+         itemType="course"
+         item={historyCourse}
+         onChanged={fetchCourses}
+       />
+
         <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
             <AlertDialogContent>
                 <AlertDialogHeader>
@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from '@/components/ui/skeleton';
+import { Network, Loader2, ChevronRight, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { Company, User } from '@/types/user';
+import type { BrandAnalytics, LocationAnalytics } from '@/types/analytics';
+import { FALLING_BEHIND_MARGIN, flattenBrandAnalytics, getHierarchyAnalytics } from '@/lib/hierarchy-analytics';
+import { getAllCompanies } from '@/lib/company-data';
+import { getUserByEmail } from '@/lib/user-data';
+import { HierarchyMetricCards } from '@/components/hierarchy-report/HierarchyMetricCards';
+import { HierarchyMetricsTable } from '@/components/hierarchy-report/HierarchyMetricsTable';
+import { auth } from '@/lib/firebase';
+import { onAuthStateChanged } from 'firebase/auth';
+import { useRouter } from 'next/navigation';
+
+// Users without a location are grouped per brand, so their row needs a key of its own
+const getLocationKey = (location: LocationAnalytics) => location.locationId ?? `no-location-${location.brandId}`;
+
+export default function HierarchyReportPage() {
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [rootBrands, setRootBrands] = useState<Company[]>([]);
+  const [rootBrandId, setRootBrandId] = useState('');
+  const [report, setReport] = useState<BrandAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedBrandId, setSelectedBrandId] = useState<string | null>(null);
+  const [selectedLocationKey, setSelectedLocationKey] = useState<string | null>(null);
+  const { toast } = useToast();
+  const router = useRouter();
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
+      if (firebaseUser?.email) {
+        const userDetails = await getUserByEmail(firebaseUser.email);
+        setCurrentUser(userDetails);
+        const canViewReport = userDetails?.role === 'Super Admin' || ((userDetails?.role === 'Admin' || userDetails?.role === 'Owner') && !!userDetails.companyId);
+        if (!userDetails || !canViewReport) {
+          toast({ title: "Access Denied", description: "Only admins can view the group report.", variant: "destructive" });
+          router.push('/');
+        } else if (userDetails.role === 'Super Admin') {
+          // Super Admins pick which group to report on, starting from a parent brand
+          const companies = await getAllCompanies(userDetails);
+          const parents = companies.filter(company => !company.parentBrandId).sort((a, b) => a.name.localeCompare(b.name));
+          setRootBrands(parents);
+          setRootBrandId(parents[0]?.id || '');
+        } else {
+          setRootBrandId(userDetails.companyId!);
+        }
+      } else {
+        router.push('/login');
+      }
+    });
+    return () => unsubscribe();
+  }, [router, toast]);
+
+  const fetchReport = useCallback(async (brandId: string) => {
+    setIsLoading(true);
+    try {
+      const analytics = await getHierarchyAnalytics(brandId);
+      setReport(analytics);
+      setSelectedBrandId(analytics?.brandId || null);
+      setSelectedLocationKey(null);
+    } catch (error) {
+      console.error("Failed to build the group report:", error);
+      toast({ title: "Error", description: "Could not load the group report.", variant: "destructive" });
+      setReport(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (rootBrandId) fetchReport(rootBrandId);
+  }, [rootBrandId, fetchReport]);
+
+  const brands = useMemo(() => (report ? flattenBrandAnalytics(report) : []), [report]);
+  const brandsById = useMemo(() => new Map(brands.map(brand => [brand.brandId, brand])), [brands]);
+  const selectedBrand = (selectedBrandId && brandsById.get(selectedBrandId)) || report;
+  const selectedLocation = selectedBrand?.locations.find(location => getLocationKey(location) === selectedLocationKey) || null;
+  const parentBrand = selectedBrand?.parentBrandId ? brandsById.get(selectedBrand.parentBrandId) || null : null;
+
+  // Root first, down to the brand being viewed
+  const breadcrumb = useMemo(() => {
+    const path: BrandAnalytics[] = [];
+    let brand = selectedBrand || null;
+    while (brand) {
+      path.unshift(brand);
+      brand = brand.parentBrandId && brand.brandId !== report?.brandId ? brandsById.get(brand.parentBrandId) || null : null;
+    }
+    return path;
+  }, [selectedBrand, brandsById, report]);
+
+  const locationsFallingBehind = useMemo(
+    () => (selectedBrand ? flattenBrandAnalytics(selectedBrand).flatMap(brand => brand.locations.filter(location => location.fallingBehind.length > 0)) : []),
+    [selectedBrand]
+  );
+
+  const selectBrand = (brandId: string) => {
+    setSelectedBrandId(brandId);
+    setSelectedLocationKey(null);
+  };
+
+  const selectLocation = (locationKey: string) => {
+    const location = brands.flatMap(brand => brand.locations).find(candidate => getLocationKey(candidate) === locationKey);
+    if (!location) return;
+    setSelectedBrandId(location.brandId);
+    setSelectedLocationKey(locationKey);
+  };
+
+  if (!currentUser) {
+    return <div className="container mx-auto text-center"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+  }
+
+  return (
+    <div className="container mx-auto space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold tracking-tight text-primary flex items-center gap-2"><Network className="h-7 w-7" /> Group Report</h1>
+        <div className="flex items-end gap-2">
+          {currentUser.role === 'Super Admin' && (
+            <div className="space-y-1">
+              <Label htmlFor="group-report-brand">Parent Brand</Label>
+              <Select value={rootBrandId} onValueChange={setRootBrandId} disabled={isLoading || rootBrands.length === 0}>
+                <SelectTrigger id="group-report-brand" className="w-[240px]"><SelectValue placeholder="Select a brand" /></SelectTrigger>
+                <SelectContent>
+                  {rootBrands.map(brand => <SelectItem key={brand.id} value={brand.id}>{brand.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Button variant="outline" onClick={() => rootBrandId && fetchReport(rootBrandId)} disabled={isLoading || !rootBrandId}>
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />} Refresh
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4"><Skeleton className="h-28 w-full" /><Skeleton className="h-64 w-full" /></div>
+      ) : !report || !selectedBrand ? (
+        <Card><CardContent className="py-8 text-center text-muted-foreground">{rootBrandId ? 'The report could not be built for this brand.' : 'No brands to report on yet.'}</CardContent></Card>
+      ) : (
+        <>
+          <nav className="flex flex-wrap items-center gap-1 text-sm" aria-label="Report location">
+            {breadcrumb.map((brand, index) => (
+              <React.Fragment key={brand.brandId}>
+                {index > 0 && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+                <button type="button" className="text-primary hover:underline" onClick={() => selectBrand(brand.brandId)}>
+                  {brand.brandId === report.brandId ? `${brand.name} (whole group)` : brand.name}
+                </button>
+              </React.Fragment>
+            ))}
+            {selectedLocation && (
+              <>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium">{selectedLocation.name}</span>
+              </>
+            )}
+          </nav>
+
+          <HierarchyMetricCards metrics={selectedLocation ? selectedLocation.metrics : selectedBrand.metrics} />
+
+          {selectedLocation ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Users at {selectedLocation.name}</CardTitle>
+                <CardDescription>Each user&apos;s directly assigned courses and submitted quiz attempts.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <HierarchyMetricsTable
+                  nameHeader="User"
+                  rows={selectedLocation.users.map(user => ({
+                    id: user.userId,
+                    name: <Link href={`/dashboard/users/${user.userId}/edit`}>{user.name}</Link>,
+                    description: `${user.role}${user.isActive ? '' : ' · Inactive'}`,
+                    metrics: user.metrics,
+                  }))}
+                  emptyMessage="No users at this location."
+                />
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {locationsFallingBehind.length > 0 && (
+                <Card className="border-destructive/50">
+                  <CardHeader>
+                    <CardTitle>Locations Falling Behind</CardTitle>
+                    <CardDescription>Locations trailing the whole group by {FALLING_BEHIND_MARGIN} points or more on completion, overdue assignments or quiz scores.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <HierarchyMetricsTable
+                      nameHeader="Location"
+                      rows={locationsFallingBehind.map(location => ({
+                        id: getLocationKey(location),
+                        name: location.name,
+                        description: brandsById.get(location.brandId)?.name,
+                        metrics: location.metrics,
+                        warnings: location.fallingBehind,
+                      }))}
+                      onSelect={selectLocation}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {selectedBrand.children.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Child Brands</CardTitle>
+                    <CardDescription>Each child brand side by side, including its own child brands. Select one to drill down.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <HierarchyMetricsTable
+                      nameHeader="Brand"
+                      rows={[
+                        { id: selectedBrand.brandId, name: `${selectedBrand.name} (own users)`, metrics: selectedBrand.ownMetrics, isHighlighted: true },
+                        ...selectedBrand.children.map(child => ({ id: child.brandId, name: child.name, metrics: child.metrics })),
+                      ]}
+                      onSelect={(brandId) => brandId !== selectedBrand.brandId && selectBrand(brandId)}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {parentBrand && parentBrand.children.length > 1 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Compared with Sibling Brands</CardTitle>
+                    <CardDescription>The other child brands of {parentBrand.name}.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <HierarchyMetricsTable
+                      nameHeader="Brand"
+                      rows={parentBrand.children.map(sibling => ({ id: sibling.brandId, name: sibling.name, metrics: sibling.metrics, isHighlighted: sibling.brandId === selectedBrand.brandId }))}
+                      onSelect={selectBrand}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Locations of {selectedBrand.name}</CardTitle>
+                  <CardDescription>A user assigned to several locations counts toward each of them. Select a location to see its users.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <HierarchyMetricsTable
+                    nameHeader="Location"
+                    rows={selectedBrand.locations.map(location => ({
+                      id: getLocationKey(location),
+                      name: location.name,
+                      metrics: location.metrics,
+                      warnings: location.fallingBehind,
+                    }))}
+                    onSelect={selectLocation}
+                    emptyMessage="This brand has no locations or users yet."
+                  />
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -15,7 +15,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { PlusCircle, MoreHorizontal, Trash2, Edit, PlaySquare, Eye, EyeOff, Search, ChevronLeft, ChevronRight, Loader2, ChevronsUpDown, ArrowDown, ArrowUp } from 'lucide-react'; 
+import { PlusCircle, MoreHorizontal, Trash2, Edit, PlaySquare, Eye, EyeOff, Search, ChevronLeft, ChevronRight, Loader2, ChevronsUpDown, ArrowDown, ArrowUp, History } from 'lucide-react'; 
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -37,7 +37,10 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import type { Lesson } from '@/types/course';
 import { getAllLessons, deleteLessonAndCleanUp as deleteLesson } from '@/lib/firestore-data';
+import { getCurrentUserSummary } from '@/lib/user-data';
 import { AddEditLessonDialog } from '@/components/admin/AddEditLessonDialog';
+import { VersionHistoryDialog } from '@/components/content-versions/VersionHistoryDialog';
+import { withDraft } from '@/lib/content-versions';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"; 
 import { Label } from "@/components/ui/label"; 
@@ -56,6 +59,7 @@ export default function AdminLessonsPage() {
   const [isDeleting, setIsDeleting] = useState(false); // General deleting state
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [lessonToDelete, setLessonToDelete] = useState<Lesson | null>(null);
+  const [historyLesson, setHistoryLesson] = useState<Lesson | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const { toast } = useToast();
 
@@ -66,7 +70,7 @@ export default function AdminLessonsPage() {
   const fetchLessons = async () => {
     setIsLoading(true);
     try {
-        const lessonsData = await getAllLessons();
+        const lessonsData = (await getAllLessons()).map(lesson => withDraft(lesson));
         setLessons(lessonsData);
         setFilteredLessons(lessonsData);
     } catch (error) {
@@ -157,7 +161,7 @@ export default function AdminLessonsPage() {
 
     setIsDeleting(true);
     try {
-        const success = await deleteLesson(lessonToDelete.id);
+        const success = await deleteLesson(lessonToDelete.id, await getCurrentUserSummary());
         if (success) {
             await fetchLessons();
             toast({
@@ -256,7 +260,10 @@ export default function AdminLessonsPage() {
               <TableBody>
                 {sortedAndPaginatedLessons.map((lesson) => (
                   <TableRow key={lesson.id}>
-                    <TableCell className="font-medium">{lesson.title}</TableCell>
+                    <TableCell className="font-medium">
+                        {lesson.title}
+                        {lesson.draft && <Badge variant="outline" className="ml-2 border-yellow-500 text-yellow-700">Unpublished changes</Badge>}
+                    </TableCell>
                     <TableCell>{lesson.videoUrl ? 'Yes' : 'No'}</TableCell>
                      <TableCell>
                         <Badge variant={lesson.isPreviewAvailable ? "default" : "secondary"} className={cn(lesson.isPreviewAvailable ? 'bg-green-100 text-green-800' : '', 'w-fit')}>
@@ -282,6 +289,12 @@ export default function AdminLessonsPage() {
                               <span>Edit Details</span>
                             </>
                           </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setHistoryLesson(lesson)}>
+                            <>
+                              <History className="mr-2 h-4 w-4" />
+                              <span>Publishing &amp; History</span>
+                            </>
+                          </DropdownMenuItem>
                           <DropdownMenuSeparator />
                           <DropdownMenuItem
                             className="text-destructive focus:text-destructive focus:bg-destructive/10"
@@ -355,6 +368,14 @@ export default function AdminLessonsPage() {
             }}
         />
 
+       <VersionHistoryDialog
+            isOpen={!!historyLesson}
+            setIsOpen={(open) => { if (!open) setHistoryLesson(null); }}
+            itemType="lesson"
+            item={historyLesson}
+            onChanged={fetchLessons}
+        />
+
        <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
           <AlertDialogContent>
             <AlertDialogHeader>
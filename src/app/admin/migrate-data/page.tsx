@@ -9,8 +9,8 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { useToast } from '@/hooks/use-toast';
-import { getUnassignedUsers, getTargetCompanies, runUserBrandMigration } from '@/actions/data-migration';
-import { Loader2, DatabaseZap, Users, Building, ShieldCheck, AlertCircle } from 'lucide-react';
+import { getUnassignedUsers, getTargetCompanies, runUserBrandMigration, runCurriculumModulesMigration } from '@/actions/data-migration';
+import { Loader2, DatabaseZap, Users, Building, ShieldCheck, AlertCircle, Layers } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import type { User, Company } from '@/types/user';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -18,6 +18,7 @@ import { Badge } from '@/components/ui/badge';
 
 export default function MigrateDataPage() {
   const [isPending, startTransition] = useTransition();
+  const [isModulesMigrationPending, startModulesMigration] = useTransition();
   const [isLoadingData, setIsLoadingData] = useState(true);
   const [unassignedUsers, setUnassignedUsers] = useState<User[]>([]);
   const [companies, setCompanies] = useState<Company[]>([]);
@@ -87,8 +88,19 @@ export default function MigrateDataPage() {
     });
   };
 
+  const handleModulesMigration = () => {
+    startModulesMigration(async () => {
+      const result = await runCurriculumModulesMigration();
+      if (result.success) {
+        toast({ title: 'Migration Complete', description: `Moved ${result.count} course curriculum(s) into modules.` });
+      } else {
+        toast({ title: 'Migration Failed', description: result.error || 'An unknown error occurred.', variant: 'destructive' });
+      }
+    });
+  };
+
   return (
-    <div className="container mx-auto p-4 md:p-6 lg:p-8">
+    <div className="container mx-auto p-4 md:p-6 lg:p-8 space-y-8">
       <Card className="max-w-4xl mx-auto">
         <CardHeader>
           <CardTitle className="flex items-center gap-2 text-2xl"><DatabaseZap className="h-6 w-6"/> Interactive Data Migration</CardTitle>
@@ -176,6 +188,21 @@ export default function MigrateDataPage() {
           </div>
         </CardContent>
       </Card>
+
+      <Card className="max-w-4xl mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-2xl"><Layers className="h-6 w-6"/> Curriculum Modules</CardTitle>
+          <CardDescription>
+            Wrap the flat curriculum of every library and brand course that has no modules yet in a single "Module 1". Courses that already have modules are left unchanged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={handleModulesMigration} disabled={isModulesMigrationPending}>
+            {isModulesMigrationPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            {isModulesMigrationPending ? 'Migrating...' : 'Migrate Curricula to Modules'}
+          </Button>
+        </CardContent>
+      </Card>
     </div>
   );
 }
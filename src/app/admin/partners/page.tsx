@@ -15,7 +15,7 @@ import type { Partner } from '@/types/partner';
 import type { User } from '@/types/user';
 import { getAllPartners, deletePartner } from '@/lib/partner-data';
 import { Skeleton } from '@/components/ui/skeleton';
-import { getUserByEmail } from '@/lib/user-data';
+import { getUserByEmail, getCurrentUserSummary } from '@/lib/user-data';
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
 import { useRouter } from 'next/navigation';
@@ -86,7 +86,7 @@ export default function AdminPartnersPage() {
     if (!partnerToDelete) return;
     setIsDeleting(true);
     try {
-      await deletePartner(partnerToDelete.id);
+      await deletePartner(partnerToDelete.id, await getCurrentUserSummary());
       fetchPartners();
       toast({ title: 'Partner Deleted', description: `Partner "${partnerToDelete.name}" has been deleted.` });
     } catch (error) {
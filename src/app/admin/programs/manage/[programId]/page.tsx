@@ -8,6 +8,9 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
 import type { Program, Course } from '@/types/course';
 import type { User } from '@/types/user';
@@ -16,14 +19,17 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { getUserByEmail } from '@/lib/user-data';
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
-import { ArrowLeft, BookCheck, Layers, Loader2, Save } from 'lucide-react';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { ArrowLeft, ArrowDown, ArrowUp, BookCheck, Layers, ListOrdered, Loader2, Lock, Save } from 'lucide-react';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useForm } from 'react-hook-form';
 import * as z from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { findPrerequisiteCycle } from '@/lib/program-path';
 
 const manageCoursesFormSchema = z.object({
   assignedCourseIds: z.array(z.string()).optional(),
+  isSequential: z.boolean().default(false),
+  coursePrerequisites: z.record(z.array(z.string())).default({}),
 });
 
 type ManageCoursesFormValues = z.infer<typeof manageCoursesFormSchema>;
@@ -44,6 +50,8 @@ export default function ManageProgramCoursesPage() {
     resolver: zodResolver(manageCoursesFormSchema),
     defaultValues: {
       assignedCourseIds: [],
+      isSequential: false,
+      coursePrerequisites: {},
     },
   });
 
@@ -84,6 +92,8 @@ export default function ManageProgramCoursesPage() {
       setAllLibraryCourses(coursesData);
       form.reset({
         assignedCourseIds: programData.courseIds || [],
+        isSequential: programData.isSequential ?? false,
+        coursePrerequisites: programData.coursePrerequisites || {},
       });
     } catch (error) {
       console.error("Failed to fetch program or courses:", error);
@@ -99,11 +109,39 @@ export default function ManageProgramCoursesPage() {
     }
   }, [fetchProgramAndCourses, currentUser]);
 
+  const assignedCourseIds = form.watch('assignedCourseIds') || [];
+  const isSequential = form.watch('isSequential');
+  const coursePrerequisites = form.watch('coursePrerequisites') || {};
+  const getCourseTitle = (courseId: string) => allLibraryCourses.find(course => course.id === courseId)?.title || 'Unknown course';
+
+  const moveCourse = (index: number, direction: -1 | 1) => {
+    const newIds = [...assignedCourseIds];
+    const target = index + direction;
+    if (target < 0 || target >= newIds.length) return;
+    [newIds[index], newIds[target]] = [newIds[target], newIds[index]];
+    form.setValue('assignedCourseIds', newIds, { shouldDirty: true });
+  };
+
+  const togglePrerequisite = (courseId: string, prerequisiteId: string, checked: boolean) => {
+    const current = coursePrerequisites[courseId] || [];
+    const updated = checked ? [...current, prerequisiteId] : current.filter(id => id !== prerequisiteId);
+    form.setValue('coursePrerequisites', { ...coursePrerequisites, [courseId]: updated }, { shouldDirty: true });
+  };
+
   const onSubmit = async (data: ManageCoursesFormValues) => {
     if (!programId) return;
+    const courseIds = data.assignedCourseIds || [];
+    const cycle = findPrerequisiteCycle({ courseIds, isSequential: data.isSequential, coursePrerequisites: data.coursePrerequisites });
+    if (cycle) {
+      toast({ title: "Prerequisites Form a Loop", description: `${cycle.map(getCourseTitle).join(' → ')} depend on each other, so none of them could ever be unlocked.`, variant: "destructive" });
+      return;
+    }
     setIsSaving(true);
     try {
-      const success = await updateProgramCourseAssignments(programId, data.assignedCourseIds || []);
+      const success = await updateProgramCourseAssignments(programId, courseIds, {
+        isSequential: data.isSequential,
+        coursePrerequisites: data.coursePrerequisites,
+      });
       if (success) {
         toast({ title: "Courses Updated", description: `Courses for "${program?.title}" updated successfully.` });
         fetchProgramAndCourses(); // Re-fetch to show updated state
@@ -205,10 +243,74 @@ export default function ManageProgramCoursesPage() {
               />
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><ListOrdered className="h-5 w-5" /> Learning Path</CardTitle>
+              <CardDescription>Set the order learners should take the courses in, and which courses must be completed before another one unlocks.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="isSequential"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Require courses in order</FormLabel>
+                      <FormDescription>Each course unlocks once the course before it in the path is completed.</FormDescription>
+                    </div>
+                    <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                  </FormItem>
+                )}
+              />
+              {assignedCourseIds.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic">Select courses above to build the learning path.</p>
+              ) : (
+                <ol className="space-y-2">
+                  {assignedCourseIds.map((courseId, index) => {
+                    const otherCourseIds = assignedCourseIds.filter(id => id !== courseId);
+                    const selectedPrerequisites = (coursePrerequisites[courseId] || []).filter(id => assignedCourseIds.includes(id));
+                    return (
+                      <li key={courseId} className="flex flex-col gap-2 rounded-md border p-3 sm:flex-row sm:items-center">
+                        <div className="flex items-center gap-2 flex-1 min-w-0">
+                          <span className="text-sm font-semibold text-muted-foreground w-6">{index + 1}.</span>
+                          <span className="font-medium truncate">{getCourseTitle(courseId)}</span>
+                          {isSequential && index > 0 && <Lock className="h-3 w-3 text-muted-foreground flex-shrink-0" aria-label="Unlocks after the previous course" />}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-1">
+                          {selectedPrerequisites.map(id => <Badge key={id} variant="secondary">Requires {getCourseTitle(id)}</Badge>)}
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button type="button" variant="outline" size="sm" disabled={otherCourseIds.length === 0}>Prerequisites</Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+                              <DropdownMenuLabel>Must be completed first</DropdownMenuLabel>
+                              <DropdownMenuSeparator />
+                              {otherCourseIds.map(id => (
+                                <DropdownMenuCheckboxItem
+                                  key={id}
+                                  checked={selectedPrerequisites.includes(id)}
+                                  onCheckedChange={(checked) => togglePrerequisite(courseId, id, !!checked)}
+                                  onSelect={(event) => event.preventDefault()}
+                                >
+                                  {getCourseTitle(id)}
+                                </DropdownMenuCheckboxItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                          <Button type="button" variant="ghost" size="icon" onClick={() => moveCourse(index, -1)} disabled={index === 0} aria-label="Move up"><ArrowUp className="h-4 w-4" /></Button>
+                          <Button type="button" variant="ghost" size="icon" onClick={() => moveCourse(index, 1)} disabled={index === assignedCourseIds.length - 1} aria-label="Move down"><ArrowDown className="h-4 w-4" /></Button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
           <div className="flex justify-end">
             <Button type="submit" size="lg" className="bg-primary hover:bg-primary/90" disabled={isSaving}>
               {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              <Save className="mr-2 h-4 w-4" /> Save Course Assignments
+              <Save className="mr-2 h-4 w-4" /> Save Courses and Path
             </Button>
           </div>
         </form>
@@ -38,7 +38,7 @@ import type { Program } from '@/types/course';
 import type { User } from '@/types/user';
 import { getAllPrograms, deleteProgram } from '@/lib/firestore-data';
 import { Skeleton } from '@/components/ui/skeleton';
-import { getUserByEmail } from '@/lib/user-data';
+import { getUserByEmail, getCurrentUserSummary } from '@/lib/user-data';
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
 import { useRouter } from 'next/navigation';
@@ -109,7 +109,7 @@ export default function AdminProgramsPage() {
     if (!programToDelete) return;
     setIsDeleting(true);
     try {
-      const success = await deleteProgram(programToDelete.id);
+      const success = await deleteProgram(programToDelete.id, await getCurrentUserSummary());
       if (success) {
         fetchPrograms(); // Refresh list
         toast({
@@ -2,6 +2,7 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
 import { useParams, useRouter } from 'next/navigation';
 import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -12,12 +13,16 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from '@/hooks/use-toast';
 import type { Quiz, Question, QuestionFormData, QuestionType, QuestionTranslation } from '@/types/course';
 import { getQuizById, updateQuestion } from '@/lib/firestore-data';
-import { PlusCircle, Trash2, ArrowLeft, Loader2, Languages, Wand2 } from 'lucide-react';
+import { withDraft } from '@/lib/content-versions';
+import { PlusCircle, Trash2, ArrowLeft, Loader2, Languages, Wand2, ArrowUp, ArrowDown, Image as ImageIconLucide } from 'lucide-react';
+import { uploadImage, STORAGE_PATHS } from '@/lib/storage';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { translateContent } from '@/ai/flows/translate-content';
@@ -35,10 +40,16 @@ const SUPPORTED_LOCALES = [
 const questionTranslationSchema = z.object({
     text: z.string().optional().or(z.literal('')),
     options: z.array(z.string().optional().or(z.literal(''))).optional(),
+    acceptedAnswers: z.array(z.string().optional().or(z.literal(''))).optional(),
+    matchingPairs: z.array(z.object({
+        prompt: z.string().optional().or(z.literal('')),
+        match: z.string().optional().or(z.literal('')),
+    })).optional(),
 });
 
 const baseSchema = z.object({
   text: z.string().min(5, { message: 'Question text must be at least 5 characters.' }),
+  tag: z.string().max(50).optional().nullable(),
   translations: z.record(questionTranslationSchema).optional(),
 });
 
@@ -65,12 +76,47 @@ const multipleSelectSchema = baseSchema.extend({
   correctAnswers: z.array(z.string()).min(1, { message: "At least one correct answer must be selected."}),
 });
 
-const questionFormSchema = z.discriminatedUnion("type", [multipleChoiceSchema, trueFalseSchema, multipleSelectSchema])
-.refine(data => (data.type !== 'multiple-choice' && data.type !== 'multiple-select') || new Set(data.options.map(opt => opt.text.trim())).size === data.options.length, {
+const shortAnswerSchema = baseSchema.extend({
+  type: z.literal('short-answer'),
+  options: z.array(multipleChoiceOptionSchema).optional(),
+  correctAnswer: z.string().optional(),
+  correctAnswers: z.array(z.string()).optional(),
+  acceptedAnswers: z.array(z.object({ text: z.string().min(1, "Accepted answer cannot be empty.") })).min(1, "At least one accepted answer is required."),
+  caseSensitive: z.boolean().optional(),
+});
+
+const matchingSchema = baseSchema.extend({
+  type: z.literal('matching'),
+  options: z.array(multipleChoiceOptionSchema).optional(),
+  correctAnswer: z.string().optional(),
+  correctAnswers: z.array(z.string()).optional(),
+  matchingPairs: z.array(z.object({ prompt: z.string().min(1, "Prompt cannot be empty."), match: z.string().min(1, "Match cannot be empty.") })).min(2, "At least two pairs are required."),
+});
+
+const orderingSchema = baseSchema.extend({
+  type: z.literal('ordering'),
+  options: z.array(multipleChoiceOptionSchema).min(2, "At least two items are required."),
+  correctAnswer: z.string().optional(),
+  correctAnswers: z.array(z.string()).optional(),
+});
+
+const imageChoiceSchema = baseSchema.extend({
+  type: z.literal('image-choice'),
+  options: z.array(multipleChoiceOptionSchema.extend({ imageUrl: z.string().min(1, "Please upload an image.") })).min(2, "At least two options are required."),
+  correctAnswer: z.string().min(1, { message: 'Please select the correct image.' }),
+  correctAnswers: z.array(z.string()).optional(),
+});
+
+const questionFormSchema = z.discriminatedUnion("type", [multipleChoiceSchema, trueFalseSchema, multipleSelectSchema, shortAnswerSchema, matchingSchema, orderingSchema, imageChoiceSchema])
+.refine(data => (data.type !== 'multiple-choice' && data.type !== 'multiple-select' && data.type !== 'ordering' && data.type !== 'image-choice') || new Set(data.options.map(opt => opt.text.trim())).size === data.options.length, {
     message: "Answer options must be unique.",
     path: ["options"],
 })
-.refine(data => (data.type !== 'multiple-choice' && data.type !== 'multiple-select') || data.options.map(opt => opt.text).includes(data.correctAnswer || ''), {
+.refine(data => data.type !== 'matching' || new Set(data.matchingPairs.map(pair => pair.prompt.trim())).size === data.matchingPairs.length, {
+    message: "Matching prompts must be unique.",
+    path: ["matchingPairs"],
+})
+.refine(data => (data.type !== 'multiple-choice' && data.type !== 'image-choice') || data.options.map(opt => opt.text).includes(data.correctAnswer || ''), {
     message: "Correct answer must be one of the options.",
     path: ["correctAnswer"],
 })
@@ -95,19 +141,26 @@ export default function EditQuestionPage() {
 
     const form = useForm<QuestionFormValues>({
         resolver: zodResolver(questionFormSchema),
-        defaultValues: { type: 'multiple-choice', text: '', options: [], correctAnswer: '', correctAnswers: [], translations: {} },
+        defaultValues: { type: 'multiple-choice', text: '', options: [], correctAnswer: '', correctAnswers: [], translations: {}, tag: '' },
     });
     
-    const { fields, append, remove } = useFieldArray({ control: form.control, name: "options" as any });
+    const { fields, append, remove, move } = useFieldArray({ control: form.control, name: "options" as any });
+    const { fields: acceptedAnswerFields, append: appendAcceptedAnswer, remove: removeAcceptedAnswer } = useFieldArray({ control: form.control, name: "acceptedAnswers" as any });
+    const { fields: matchingPairFields, append: appendMatchingPair, remove: removeMatchingPair } = useFieldArray({ control: form.control, name: "matchingPairs" as any });
+    const [uploadingOptionIndex, setUploadingOptionIndex] = useState<number | null>(null);
+    const [optionImageUploadProgress, setOptionImageUploadProgress] = useState(0);
     const questionType = form.watch('type');
-    const watchedOptions = form.watch('options' as any) || [];
+    const watchedOptions: { text: string; imageUrl?: string }[] = form.watch('options' as any) || [];
+    const watchedAcceptedAnswers: { text: string }[] = form.watch('acceptedAnswers' as any) || [];
+    const watchedMatchingPairs: { prompt: string; match: string }[] = form.watch('matchingPairs' as any) || [];
+    const usesOptionList = questionType === 'multiple-choice' || questionType === 'multiple-select' || questionType === 'ordering' || questionType === 'image-choice';
 
     const fetchInitialData = useCallback(async () => {
         setIsLoading(true);
         try {
             if (!quizId || !questionId) throw new Error("Quiz ID or Question ID missing");
             
-            const fetchedQuiz = await getQuizById(quizId);
+            const fetchedQuiz = withDraft(await getQuizById(quizId));
             if (!fetchedQuiz) {
                 toast({ title: "Error", description: "Quiz not found.", variant: "destructive" });
                 router.push('/admin/quizzes'); return;
@@ -121,13 +174,24 @@ export default function EditQuestionPage() {
             }
             setInitialQuestionData(question);
 
+            // Ordering items are edited in their correct sequence; option translations follow the stored option order
+            const optionTexts = question.type === 'ordering' && question.correctAnswers?.length ? question.correctAnswers : question.options || [];
+            const translations = (question as any).translations || {};
             form.reset({
                 type: question.type, text: question.text,
-                options: (question.type === 'multiple-choice' || question.type === 'multiple-select') ? (question.options || []).map(opt => ({ text: opt })) : [],
-                correctAnswer: (question.type === 'multiple-choice' || question.type === 'true-false') ? question.correctAnswer || '' : '',
+                options: question.type === 'image-choice'
+                    ? optionTexts.map((opt, index) => ({ text: opt, imageUrl: question.optionImages?.[index] || '' }))
+                    : (question.type === 'multiple-choice' || question.type === 'multiple-select' || question.type === 'ordering') ? optionTexts.map(opt => ({ text: opt })) : [],
+                correctAnswer: (question.type === 'multiple-choice' || question.type === 'true-false' || question.type === 'image-choice') ? question.correctAnswer || '' : '',
                 correctAnswers: question.type === 'multiple-select' ? question.correctAnswers || [] : [],
-                translations: (question as any).translations || {},
-            });
+                acceptedAnswers: (question.acceptedAnswers || []).map(answer => ({ text: answer })),
+                caseSensitive: !!question.caseSensitive,
+                matchingPairs: question.matchingPairs || [],
+                translations: question.type === 'ordering'
+                    ? Object.fromEntries(Object.entries(translations).map(([locale, translation]: [string, any]) => [locale, { ...translation, options: optionTexts.map(opt => translation.options?.[(question.options || []).indexOf(opt)] || '') }]))
+                    : translations,
+                tag: question.tag || '',
+            } as QuestionFormValues);
 
         } catch (error) {
             console.error("Error fetching data:", error);
@@ -143,7 +207,10 @@ export default function EditQuestionPage() {
         const stripQuotes = (str: string) => str.trim().replace(/^"(.*)"$/, '$1').replace(/^'(.*)'$/, '$1');
 
         const questionText = form.getValues('text');
+        const type = form.getValues('type');
         const options = form.getValues('options') || [];
+        const acceptedAnswers: { text: string }[] = form.getValues('acceptedAnswers' as any) || [];
+        const matchingPairs: { prompt: string; match: string }[] = form.getValues('matchingPairs' as any) || [];
         
         if (!questionText) {
             toast({ title: "Missing Content", description: "Please enter the main question text.", variant: "destructive" });
@@ -151,7 +218,11 @@ export default function EditQuestionPage() {
         }
 
         const sourceTitle = stripQuotes(questionText);
-        const sourceOptions = options.map(opt => stripQuotes(opt.text));
+        // One line per translatable item: options, accepted answers, or prompts followed by matches
+        const sourceLines = type === 'short-answer' ? acceptedAnswers.map(answer => answer.text)
+            : type === 'matching' ? [...matchingPairs.map(pair => pair.prompt), ...matchingPairs.map(pair => pair.match)]
+            : options.map(opt => opt.text);
+        const sourceOptions = sourceLines.map(line => stripQuotes(line));
         const sourceContent = sourceOptions.join('\n');
 
         setIsTranslating(prev => ({...prev, [targetLocale]: true}));
@@ -171,7 +242,11 @@ export default function EditQuestionPage() {
                 form.setValue(`translations.${targetLocale}.text`, finalTranslatedQuestion);
 
                 // Preserve original quotes on each option
-                if (options && translatedOptions.length === options.length) {
+                if (type === 'short-answer' && translatedOptions.length === acceptedAnswers.length) {
+                    form.setValue(`translations.${targetLocale}.acceptedAnswers` as any, translatedOptions.map(line => line.trim()));
+                } else if (type === 'matching' && translatedOptions.length === matchingPairs.length * 2) {
+                    form.setValue(`translations.${targetLocale}.matchingPairs` as any, matchingPairs.map((_, index) => ({ prompt: translatedOptions[index], match: translatedOptions[matchingPairs.length + index] })));
+                } else if (options && translatedOptions.length === options.length) {
                     options.forEach((originalOption, index) => {
                         const originalOptionHasQuotes = /^".*"$/.test(originalOption.text.trim()) || /^'.*'$/.test(originalOption.text.trim());
                         const finalTranslatedOption = originalOptionHasQuotes ? `"${translatedOptions[index]}"` : translatedOptions[index];
@@ -191,10 +266,28 @@ export default function EditQuestionPage() {
     };
 
 
+    const handleOptionImageFileChange = async (index: number, event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        setUploadingOptionIndex(index);
+        setOptionImageUploadProgress(0);
+        try {
+            const storagePath = `${STORAGE_PATHS.QUIZ_OPTION_IMAGES}/${quizId}-${Date.now()}-${file.name}`;
+            const downloadURL = await uploadImage(file, storagePath, setOptionImageUploadProgress);
+            form.setValue(`options.${index}.imageUrl` as any, downloadURL, { shouldValidate: true });
+            toast({ title: "Image Uploaded", description: `Image for option ${index + 1} successfully uploaded.` });
+        } catch (error: any) {
+            toast({ title: "Upload Failed", description: error.message || "Could not upload the option image.", variant: "destructive" });
+        } finally {
+            setUploadingOptionIndex(null);
+        }
+    };
+
     const onSubmit = async (data: QuestionFormValues) => {
         try {
             let optionsForStorage: string[] = [];
-            if (data.type === 'multiple-choice' || data.type === 'multiple-select') {
+            if (data.type === 'multiple-choice' || data.type === 'multiple-select' || data.type === 'ordering' || data.type === 'image-choice') {
                 optionsForStorage = data.options.map(opt => opt.text.trim()).filter(Boolean);
             } else if (data.type === 'true-false') {
                 optionsForStorage = ["True", "False"];
@@ -202,15 +295,20 @@ export default function EditQuestionPage() {
 
             const questionPayload: QuestionFormData = {
                 type: data.type, text: data.text, options: optionsForStorage,
-                correctAnswer: (data.type === 'multiple-choice' || data.type === 'true-false') ? data.correctAnswer : undefined,
-                correctAnswers: data.type === 'multiple-select' ? data.correctAnswers : undefined,
+                correctAnswer: (data.type === 'multiple-choice' || data.type === 'true-false' || data.type === 'image-choice') ? data.correctAnswer : undefined,
+                correctAnswers: data.type === 'multiple-select' ? data.correctAnswers : data.type === 'ordering' ? optionsForStorage : undefined,
+                acceptedAnswers: data.type === 'short-answer' ? data.acceptedAnswers.map(answer => answer.text.trim()).filter(Boolean) : undefined,
+                caseSensitive: data.type === 'short-answer' ? !!data.caseSensitive : undefined,
+                matchingPairs: data.type === 'matching' ? data.matchingPairs.map(pair => ({ prompt: pair.prompt.trim(), match: pair.match.trim() })) : undefined,
+                optionImages: data.type === 'image-choice' ? data.options.map(opt => opt.imageUrl) : undefined,
+                tag: data.tag || null,
                 translations: data.translations,
             };
 
             const updatedQuestion = await updateQuestion(quizId, questionId, questionPayload);
 
             if (updatedQuestion) {
-                toast({ title: 'Question Updated', description: `The question has been successfully saved.` });
+                toast({ title: 'Question Updated', description: `The question was saved to the quiz draft. Publish the quiz to make it live.` });
                 router.push(`/admin/quizzes/manage/${quizId}`);
             } else {
                 throw new Error("Failed to update question.");
@@ -245,16 +343,56 @@ export default function EditQuestionPage() {
                                 <TabsContent value="main" className="pt-6 space-y-6">
                                     <FormField control={form.control} name="type" render={({ field }) => ( <div/>)} />
                                     <FormField control={form.control} name="text" render={({ field }) => (<FormItem><FormLabel>Question Text</FormLabel><FormControl><Textarea rows={3} {...field} /></FormControl><FormMessage /></FormItem>)} />
+                                    <FormField control={form.control} name="tag" render={({ field }) => (<FormItem><FormLabel>Tag (Optional)</FormLabel><FormControl><Input placeholder="e.g., Safety" {...field} value={field.value ?? ''} /></FormControl><FormDescription>Used to balance random question draws across topics.</FormDescription><FormMessage /></FormItem>)} />
 
-                                    {(questionType === 'multiple-choice' || questionType === 'multiple-select') && (
+                                    {usesOptionList && (
                                         <div className="space-y-3">
-                                            <FormLabel>Answer Options</FormLabel>
-                                            {fields.map((item, index) => (<FormField key={item.id} control={form.control} name={`options.${index}.text` as any} render={({ field }) => (<FormItem><div className="flex items-center gap-2"><FormControl><Input {...field} /></FormControl>{fields.length > 2 && <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}><Trash2 className="h-4 w-4"/></Button>}</div><FormMessage /></FormItem>)}/>))}
-                                            <Button type="button" variant="outline" size="sm" onClick={() => append({ text: '' })}><PlusCircle className="mr-2 h-4 w-4"/>Add Option</Button>
+                                            <FormLabel>{questionType === 'ordering' ? 'Items (In Correct Order)' : 'Answer Options'}</FormLabel>
+                                            {fields.map((item, index) => (<FormField key={item.id} control={form.control} name={`options.${index}.text` as any} render={({ field }) => (<FormItem><div className="flex items-center gap-2">
+                                                {questionType === 'image-choice' && (
+                                                    <div className="relative h-16 w-16 shrink-0 border border-dashed rounded-md bg-muted flex items-center justify-center overflow-hidden">
+                                                        {uploadingOptionIndex === index ? (<div className="w-full px-1"><Loader2 className="h-4 w-4 animate-spin text-primary mx-auto mb-1" /><Progress value={optionImageUploadProgress} className="w-full h-1" /></div>)
+                                                        : watchedOptions[index]?.imageUrl ? (<Image src={watchedOptions[index].imageUrl as string} alt={`Option ${index + 1}`} fill style={{ objectFit: 'cover' }} />)
+                                                        : (<Label htmlFor={`option-image-upload-${index}`} className="cursor-pointer"><ImageIconLucide className="h-6 w-6 text-muted-foreground" /><Input id={`option-image-upload-${index}`} type="file" accept="image/*" className="hidden" onChange={(e) => handleOptionImageFileChange(index, e)} disabled={uploadingOptionIndex !== null} /></Label>)}
+                                                    </div>
+                                                )}
+                                                <FormControl><Input {...field} /></FormControl>
+                                                {questionType === 'image-choice' && watchedOptions[index]?.imageUrl && <Button type="button" variant="ghost" size="icon" onClick={() => form.setValue(`options.${index}.imageUrl` as any, '')} title="Replace image"><ImageIconLucide className="h-4 w-4"/></Button>}
+                                                {questionType === 'ordering' && <><Button type="button" variant="ghost" size="icon" onClick={() => move(index, index - 1)} disabled={index === 0}><ArrowUp className="h-4 w-4"/></Button><Button type="button" variant="ghost" size="icon" onClick={() => move(index, index + 1)} disabled={index === fields.length - 1}><ArrowDown className="h-4 w-4"/></Button></>}
+                                                {fields.length > 2 && <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}><Trash2 className="h-4 w-4"/></Button>}
+                                            </div><FormMessage /></FormItem>)}/>))}
+                                            <Button type="button" variant="outline" size="sm" onClick={() => append(questionType === 'image-choice' ? { text: '', imageUrl: '' } : { text: '' })}><PlusCircle className="mr-2 h-4 w-4"/>{questionType === 'ordering' ? 'Add Item' : 'Add Option'}</Button>
+                                            {Array.isArray(form.formState.errors.options) && form.formState.errors.options.map((e: any, i: number) => e?.imageUrl && <p key={i} className="text-sm font-medium text-destructive">Option {i + 1}: {e.imageUrl.message}</p>)}
                                         </div>
                                     )}
 
-                                    {questionType === 'multiple-choice' && (
+                                    {questionType === 'short-answer' && (
+                                        <div className="space-y-3">
+                                            <FormLabel>Accepted Answers</FormLabel>
+                                            <FormDescription>Any of these counts as correct. Leading, trailing and repeated spaces are ignored.</FormDescription>
+                                            {acceptedAnswerFields.map((item, index) => (<FormField key={item.id} control={form.control} name={`acceptedAnswers.${index}.text` as any} render={({ field }) => (<FormItem><div className="flex items-center gap-2"><FormControl><Input {...field} /></FormControl>{acceptedAnswerFields.length > 1 && <Button type="button" variant="ghost" size="icon" onClick={() => removeAcceptedAnswer(index)}><Trash2 className="h-4 w-4"/></Button>}</div><FormMessage /></FormItem>)}/>))}
+                                            <Button type="button" variant="outline" size="sm" onClick={() => appendAcceptedAnswer({ text: '' })}><PlusCircle className="mr-2 h-4 w-4"/>Add Variant</Button>
+                                            <FormField control={form.control} name={"caseSensitive" as any} render={({ field }) => (<FormItem className="flex flex-row items-center justify-between rounded-lg border p-3"><div className="space-y-0.5"><FormLabel>Case Sensitive</FormLabel><FormDescription>Require the exact capitalization of an accepted answer.</FormDescription></div><FormControl><Switch checked={!!field.value} onCheckedChange={field.onChange} /></FormControl></FormItem>)} />
+                                        </div>
+                                    )}
+
+                                    {questionType === 'matching' && (
+                                        <div className="space-y-3">
+                                            <FormLabel>Matching Pairs</FormLabel>
+                                            <FormDescription>Learners choose the matching item for each prompt. Matches may repeat.</FormDescription>
+                                            {matchingPairFields.map((item, index) => (
+                                                <div key={item.id} className="flex items-start gap-2">
+                                                    <FormField control={form.control} name={`matchingPairs.${index}.prompt` as any} render={({ field }) => (<FormItem className="flex-1"><FormControl><Input placeholder={`Prompt ${index + 1}`} {...field} /></FormControl><FormMessage /></FormItem>)}/>
+                                                    <FormField control={form.control} name={`matchingPairs.${index}.match` as any} render={({ field }) => (<FormItem className="flex-1"><FormControl><Input placeholder={`Match ${index + 1}`} {...field} /></FormControl><FormMessage /></FormItem>)}/>
+                                                    {matchingPairFields.length > 2 && <Button type="button" variant="ghost" size="icon" onClick={() => removeMatchingPair(index)}><Trash2 className="h-4 w-4"/></Button>}
+                                                </div>
+                                            ))}
+                                            <Button type="button" variant="outline" size="sm" onClick={() => appendMatchingPair({ prompt: '', match: '' })}><PlusCircle className="mr-2 h-4 w-4"/>Add Pair</Button>
+                                            {(form.formState.errors as any).matchingPairs?.message && <p className="text-sm font-medium text-destructive">{(form.formState.errors as any).matchingPairs.message}</p>}
+                                        </div>
+                                    )}
+
+                                    {(questionType === 'multiple-choice' || questionType === 'image-choice') && (
                                         <FormField control={form.control} name="correctAnswer" render={({ field }) => (<FormItem><FormLabel>Correct Answer</FormLabel><FormControl><RadioGroup onValueChange={field.onChange} value={field.value} className="space-y-1">{watchedOptions.filter(o => o.text).map((opt, i) => (<FormItem key={`mc-c-${i}`} className="flex items-center space-x-3"><FormControl><RadioGroupItem value={opt.text} /></FormControl><Label className="font-normal">{opt.text}</Label></FormItem>))}</RadioGroup></FormControl><FormMessage/></FormItem>)} />
                                     )}
                                      {questionType === 'true-false' && (
@@ -276,7 +414,7 @@ export default function EditQuestionPage() {
                                                 </Button>
                                             </div>
                                             <FormField control={form.control} name={`translations.${locale.value}.text`} render={({ field }) => ( <FormItem><FormLabel>Translated Question Text</FormLabel><FormControl><Textarea {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem> )}/>
-                                            {(questionType === 'multiple-choice' || questionType === 'multiple-select') && (
+                                            {usesOptionList && (
                                                 <div className="space-y-2">
                                                     <FormLabel>Translated Answer Options</FormLabel>
                                                     {watchedOptions.map((option, index) => (
@@ -284,13 +422,33 @@ export default function EditQuestionPage() {
                                                     ))}
                                                 </div>
                                             )}
+                                            {questionType === 'short-answer' && (
+                                                <div className="space-y-2">
+                                                    <FormLabel>Accepted Answers In This Language</FormLabel>
+                                                    <FormDescription>Accepted in addition to the original answers.</FormDescription>
+                                                    {watchedAcceptedAnswers.map((answer, index) => (
+                                                        <FormField key={`${locale.value}-accepted-${index}`} control={form.control} name={`translations.${locale.value}.acceptedAnswers.${index}`} render={({ field }) => (<FormItem><FormLabel className="text-xs text-muted-foreground">Original: "{answer.text}"</FormLabel><FormControl><Input {...field} value={field.value ?? ''} placeholder={`Translation for "${answer.text}"`}/></FormControl><FormMessage /></FormItem>)} />
+                                                    ))}
+                                                </div>
+                                            )}
+                                            {questionType === 'matching' && (
+                                                <div className="space-y-2">
+                                                    <FormLabel>Translated Matching Pairs</FormLabel>
+                                                    {watchedMatchingPairs.map((pair, index) => (
+                                                        <div key={`${locale.value}-pair-${index}`} className="flex items-start gap-2">
+                                                            <FormField control={form.control} name={`translations.${locale.value}.matchingPairs.${index}.prompt`} render={({ field }) => (<FormItem className="flex-1"><FormControl><Input {...field} value={field.value ?? ''} placeholder={`Translation for "${pair.prompt}"`}/></FormControl><FormMessage /></FormItem>)} />
+                                                            <FormField control={form.control} name={`translations.${locale.value}.matchingPairs.${index}.match`} render={({ field }) => (<FormItem className="flex-1"><FormControl><Input {...field} value={field.value ?? ''} placeholder={`Translation for "${pair.match}"`}/></FormControl><FormMessage /></FormItem>)} />
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
                                         </div>
                                     ))}
                                 </TabsContent>
                            </Tabs>
                         </CardContent>
                         <CardFooter>
-                            <Button type="submit">Save Changes</Button>
+                            <Button type="submit" disabled={uploadingOptionIndex !== null}>Save Changes</Button>
                         </CardFooter>
                     </Card>
                 </form>
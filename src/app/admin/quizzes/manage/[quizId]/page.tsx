@@ -9,11 +9,15 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { ArrowLeft, PlusCircle, Edit, Trash2, CheckCircle, Loader2, HelpCircle, Save, Layers, ListChecks, Wand2, Languages } from 'lucide-react';
+import { ArrowLeft, PlusCircle, Edit, Trash2, CheckCircle, Loader2, HelpCircle, Save, Layers, ListChecks, Wand2, Languages, Upload, Download, History } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import type { Quiz, Question, QuizFormData, QuizTranslation } from '@/types/course';
+import type { QuestionInterchangeFormat, Quiz, Question, QuizFormData, QuizTranslation } from '@/types/course';
 import { getQuizById, deleteQuestion, updateQuiz } from '@/lib/firestore-data';
 import { AddEditQuestionDialog } from '@/components/admin/AddEditQuestionDialog';
+import { ImportQuestionsDialog } from '@/components/admin/ImportQuestionsDialog';
+import { VersionHistoryDialog } from '@/components/content-versions/VersionHistoryDialog';
+import { withDraft } from '@/lib/content-versions';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Badge } from '@/components/ui/badge';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
@@ -23,6 +27,7 @@ import * as z from 'zod';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { translateContent } from '@/ai/flows/translate-content';
+import { exportQuestions, QUESTION_FORMAT_LABELS } from '@/lib/question-interchange';
 
 const SUPPORTED_LOCALES = [
   { value: 'es', label: 'Spanish' },
@@ -54,9 +59,11 @@ export default function ManageQuizQuestionsPage() {
   const [quiz, setQuiz] = useState<Quiz | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isAddQuestionDialogOpen, setIsAddQuestionDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [questionToDelete, setQuestionToDelete] = useState<Question | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
   const [isTranslating, setIsTranslating] = useState<Record<string, boolean>>({});
 
   const form = useForm<EditQuizFormValues>({
@@ -68,7 +75,7 @@ export default function ManageQuizQuestionsPage() {
     setIsLoading(true);
     try {
       if (!quizId) throw new Error("Quiz ID missing");
-      const fetchedQuiz = await getQuizById(quizId);
+      const fetchedQuiz = withDraft(await getQuizById(quizId));
       if (!fetchedQuiz) {
         toast({ title: "Error", description: "Quiz not found.", variant: "destructive" });
         router.push('/admin/quizzes');
@@ -99,7 +106,7 @@ export default function ManageQuizQuestionsPage() {
       });
       if (updatedQuiz) {
         setQuiz(updatedQuiz);
-        toast({ title: "Quiz Updated", description: "The quiz details have been saved." });
+        toast({ title: "Draft Saved", description: "The quiz details were saved as a draft. Publish them to make them live." });
       } else {
         throw new Error("Failed to update quiz");
       }
@@ -150,6 +157,20 @@ export default function ManageQuizQuestionsPage() {
     }
   };
 
+  const handleExportQuestions = (format: QuestionInterchangeFormat) => {
+    if (!quiz) return;
+    const { fileName, blob, skipped } = exportQuestions(format, quiz.questions, quiz.title);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    if (skipped > 0) {
+      toast({ title: 'Export Incomplete', description: `${skipped} question${skipped === 1 ? '' : 's'} could not be represented in ${QUESTION_FORMAT_LABELS[format]} and ${skipped === 1 ? 'was' : 'were'} left out.` });
+    }
+  };
+
   const openDeleteConfirmation = (question: Question) => {
     setQuestionToDelete(question);
     setIsDeleteDialogOpen(true);
@@ -179,9 +200,23 @@ export default function ManageQuizQuestionsPage() {
 
   return (
     <div className="container mx-auto p-4 md:p-6 lg:p-8">
-      <Button variant="outline" onClick={() => router.push('/admin/quizzes')} className="mb-6">
-        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Quiz Library
-      </Button>
+      <div className="flex items-center justify-between mb-6">
+        <Button variant="outline" onClick={() => router.push('/admin/quizzes')}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to Quiz Library
+        </Button>
+        <Button variant="outline" onClick={() => setIsHistoryDialogOpen(true)}>
+          <History className="mr-2 h-4 w-4" /> Publishing &amp; History
+        </Button>
+      </div>
+
+      {quiz.draft && (
+        <Alert className="mb-6 border-yellow-500">
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+            <span>This quiz has unpublished changes. Learners see the published version until you publish.</span>
+            <Button size="sm" onClick={() => setIsHistoryDialogOpen(true)}>Review &amp; Publish</Button>
+          </AlertDescription>
+        </Alert>
+      )}
 
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onTitleSubmit)} className="space-y-8">
@@ -246,9 +281,22 @@ export default function ManageQuizQuestionsPage() {
             <CardTitle className="flex items-center gap-2"><ListChecks className="h-5 w-5"/> Questions ({quiz.questions.length})</CardTitle>
             <CardDescription>Add, edit, or remove questions for this quiz.</CardDescription>
           </div>
-          <Button onClick={() => setIsAddQuestionDialogOpen(true)} className="bg-accent text-accent-foreground hover:bg-accent/90">
-            <PlusCircle className="mr-2 h-4 w-4" /> Add Question
-          </Button>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}><Upload className="mr-2 h-4 w-4" /> Import</Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={quiz.questions.length === 0}><Download className="mr-2 h-4 w-4" /> Export</Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {(Object.keys(QUESTION_FORMAT_LABELS) as QuestionInterchangeFormat[]).map(format => (
+                  <DropdownMenuItem key={format} onClick={() => handleExportQuestions(format)}>{QUESTION_FORMAT_LABELS[format]}</DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button onClick={() => setIsAddQuestionDialogOpen(true)} className="bg-accent text-accent-foreground hover:bg-accent/90">
+              <PlusCircle className="mr-2 h-4 w-4" /> Add Question
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {quiz.questions.length === 0 ? (
@@ -261,7 +309,7 @@ export default function ManageQuizQuestionsPage() {
                   <TableRow key={q.id || idx}>
                     <TableCell className="font-medium max-w-md truncate">{q.text}</TableCell>
                     <TableCell><Badge variant="outline" className="capitalize">{q.type.replace('-', ' ')}</Badge></TableCell>
-                    <TableCell><Badge variant="secondary" className="flex items-center gap-1 w-fit whitespace-normal"><CheckCircle className="h-3 w-3 text-green-600"/> <span className="break-all">{q.type === 'multiple-select' ? (q.correctAnswers || []).join(', ') : q.correctAnswer}</span></Badge></TableCell>
+                    <TableCell><Badge variant="secondary" className="flex items-center gap-1 w-fit whitespace-normal"><CheckCircle className="h-3 w-3 text-green-600"/> <span className="break-all">{q.type === 'multiple-select' ? (q.correctAnswers || []).join(', ') : q.type === 'ordering' ? (q.correctAnswers || q.options || []).join(' → ') : q.type === 'short-answer' ? (q.acceptedAnswers || []).join(' / ') : q.type === 'matching' ? (q.matchingPairs || []).map(pair => `${pair.prompt} → ${pair.match}`).join(', ') : q.correctAnswer}</span></Badge></TableCell>
                     <TableCell className="text-right">
                       <Button variant="ghost" size="sm" asChild className="mr-1"><Link href={`/admin/quizzes/manage/${quizId}/${q.id}/edit`}><Edit className="h-4 w-4 mr-1"/> Edit</Link></Button>
                       <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => openDeleteConfirmation(q)}><Trash2 className="h-4 w-4 mr-1"/> Remove</Button>
@@ -281,6 +329,20 @@ export default function ManageQuizQuestionsPage() {
         initialData={null}
         onQuestionSaved={fetchQuiz}
       />
+      <ImportQuestionsDialog
+        isOpen={isImportDialogOpen}
+        setIsOpen={setIsImportDialogOpen}
+        quizId={quizId}
+        onQuestionsImported={fetchQuiz}
+      />
+      <VersionHistoryDialog
+        isOpen={isHistoryDialogOpen}
+        setIsOpen={setIsHistoryDialogOpen}
+        itemType="quiz"
+        item={quiz}
+        onChanged={fetchQuiz}
+      />
+
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent><AlertDialogHeader><AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. This will permanently delete the question: "{questionToDelete?.text.substring(0, 50)}...".</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter><AlertDialogCancel onClick={() => setQuestionToDelete(null)}>Cancel</AlertDialogCancel><AlertDialogAction onClick={confirmDeleteQuestion} className="bg-destructive hover:bg-destructive/90">Yes, delete question</AlertDialogAction></AlertDialogFooter></AlertDialogContent>
       </AlertDialog>
@@ -15,7 +15,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { PlusCircle, MoreHorizontal, Trash2, Edit, HelpCircle, ListChecks, Search, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react'; 
+import { PlusCircle, MoreHorizontal, Trash2, Edit, HelpCircle, ListChecks, Search, ChevronLeft, ChevronRight, Loader2, Settings, History } from 'lucide-react'; 
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -38,6 +38,9 @@ import { useToast } from '@/hooks/use-toast';
 import type { Quiz } from '@/types/course';
 import { getAllQuizzes, deleteQuizAndCleanUp as deleteQuiz, getQuizById } from '@/lib/firestore-data';
 import { AddEditQuizDialog } from '@/components/admin/AddEditQuizDialog';
+import { VersionHistoryDialog } from '@/components/content-versions/VersionHistoryDialog';
+import { withDraft } from '@/lib/content-versions';
+import { getCurrentUserSummary } from '@/lib/user-data';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"; 
 import { Label } from "@/components/ui/label"; 
@@ -53,6 +56,7 @@ export default function AdminQuizzesPage() {
   const [editingQuiz, setEditingQuiz] = useState<Quiz | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [quizToDelete, setQuizToDelete] = useState<Quiz | null>(null);
+  const [historyQuiz, setHistoryQuiz] = useState<Quiz | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const { toast } = useToast();
 
@@ -64,8 +68,8 @@ export default function AdminQuizzesPage() {
     try {
         const quizzesData = await getAllQuizzes();
         const quizzesWithQuestionCount = await Promise.all(quizzesData.map(async (quiz) => {
-            const fetchedQuiz = await getQuizById(quiz.id);
-            return { ...quiz, questionCount: fetchedQuiz?.questions?.length || 0 };
+            const fetchedQuiz = withDraft(await getQuizById(quiz.id));
+            return { ...withDraft(quiz), questionCount: fetchedQuiz?.questions?.length || 0 };
         }));
         setQuizzes(quizzesWithQuestionCount);
         setFilteredQuizzes(quizzesWithQuestionCount);
@@ -107,6 +111,11 @@ export default function AdminQuizzesPage() {
     setIsQuizDialogOpen(true);
   };
 
+  const handleEditQuizSettings = (quiz: Quiz) => {
+    setEditingQuiz(quiz);
+    setIsQuizDialogOpen(true);
+  };
+
    const openDeleteConfirmation = (quiz: Quiz) => {
     setQuizToDelete(quiz);
     setIsDeleteDialogOpen(true);
@@ -116,7 +125,7 @@ export default function AdminQuizzesPage() {
     if (!quizToDelete) return;
     setIsDeleting(true);
     try {
-        const success = await deleteQuiz(quizToDelete.id);
+        const success = await deleteQuiz(quizToDelete.id, await getCurrentUserSummary());
         if (success) {
             await fetchQuizzes();
             toast({
@@ -202,7 +211,10 @@ export default function AdminQuizzesPage() {
               <TableBody>
                 {paginatedQuizzes.map((quiz) => (
                   <TableRow key={quiz.id}>
-                    <TableCell className="font-medium">{quiz.title}</TableCell>
+                    <TableCell className="font-medium">
+                        {quiz.title}
+                        {quiz.draft && <Badge variant="outline" className="ml-2 border-yellow-500 text-yellow-700">Unpublished changes</Badge>}
+                    </TableCell>
                     <TableCell className="text-center">
                         <Badge variant="secondary">{quiz.questionCount ?? 'N/A'}</Badge>
                     </TableCell>
@@ -224,6 +236,14 @@ export default function AdminQuizzesPage() {
                                <span>Edit Quiz & Questions</span>
                              </Link>
                            </DropdownMenuItem>
+                           <DropdownMenuItem onClick={() => handleEditQuizSettings(quiz)}>
+                             <Settings className="mr-2 h-4 w-4" />
+                             <span>Quiz Settings</span>
+                           </DropdownMenuItem>
+                           <DropdownMenuItem onClick={() => setHistoryQuiz(quiz)}>
+                             <History className="mr-2 h-4 w-4" />
+                             <span>Publishing &amp; History</span>
+                           </DropdownMenuItem>
                           <DropdownMenuSeparator />
                           <DropdownMenuItem
                             className="text-destructive focus:text-destructive focus:bg-destructive/10"
@@ -290,13 +310,22 @@ export default function AdminQuizzesPage() {
        <AddEditQuizDialog
             isOpen={isQuizDialogOpen}
             setIsOpen={setIsQuizDialogOpen}
-            initialData={null}
+            initialData={editingQuiz}
             onQuizSaved={(savedQuiz) => {
                 fetchQuizzes();
                 setIsQuizDialogOpen(false);
+                setEditingQuiz(null);
             }}
        />
 
+       <VersionHistoryDialog
+            isOpen={!!historyQuiz}
+            setIsOpen={(open) => { if (!open) setHistoryQuiz(null); }}
+            itemType="quiz"
+            item={historyQuiz}
+            onChanged={fetchQuizzes}
+       />
+
        <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
           <AlertDialogContent>
             <AlertDialogHeader>
@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Trash2, Search, Loader2, Undo, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { User } from '@/types/user';
+import type { TrashItem, TrashItemType } from '@/types/trash';
+import { BRAND_TRASH_ITEM_TYPES, MAX_TRASH_RETENTION_DAYS, TRASH_ITEM_TYPES, getTrashItemLabel, getTrashItems, getTrashSettings, purgeTrashItem, restoreTrashItem, updateTrashSettings } from '@/lib/trash-data';
+import { getAllCompanies } from '@/lib/company-data';
+import { getUserByEmail } from '@/lib/user-data';
+import { deletePurgedLoginAccounts } from '@/actions/userManagement';
+import { auth } from '@/lib/firebase';
+import { onAuthStateChanged } from 'firebase/auth';
+import { useRouter } from 'next/navigation';
+
+type PendingAction = { kind: 'restore' | 'purge'; item: TrashItem };
+
+export default function AdminTrashPage() {
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [brandNames, setBrandNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [typeFilter, setTypeFilter] = useState<TrashItemType | 'all'>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [retentionDays, setRetentionDays] = useState('');
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const { toast } = useToast();
+  const router = useRouter();
+
+  const isSuperAdmin = currentUser?.role === 'Super Admin';
+
+  const fetchTrash = useCallback(async (user: User) => {
+    setIsLoading(true);
+    try {
+      const [trashItems, companies, settings] = await Promise.all([
+        getTrashItems(user.role === 'Super Admin' ? null : user.companyId),
+        getAllCompanies(user),
+        getTrashSettings(),
+      ]);
+      setItems(trashItems);
+      setBrandNames(Object.fromEntries(companies.map(company => [company.id, company.name])));
+      setRetentionDays(String(settings.retentionDays));
+    } catch (error) {
+      console.error("Failed to load the trash:", error);
+      toast({ title: "Error", description: "Could not load deleted items.", variant: "destructive" });
+      setItems([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
+      if (firebaseUser?.email) {
+        const userDetails = await getUserByEmail(firebaseUser.email);
+        setCurrentUser(userDetails);
+        const canViewTrash = userDetails?.role === 'Super Admin' || ((userDetails?.role === 'Admin' || userDetails?.role === 'Owner') && !!userDetails.companyId);
+        if (!userDetails || !canViewTrash) {
+          toast({ title: "Access Denied", description: "Only admins can view deleted items.", variant: "destructive" });
+          router.push('/');
+        } else {
+          fetchTrash(userDetails);
+        }
+      } else {
+        router.push('/login');
+      }
+    });
+    return () => unsubscribe();
+  }, [router, toast, fetchTrash]);
+
+  const availableTypes = isSuperAdmin ? TRASH_ITEM_TYPES : BRAND_TRASH_ITEM_TYPES;
+
+  const filteredItems = useMemo(() => {
+    const lowercasedFilter = searchTerm.toLowerCase();
+    return items.filter(item =>
+      (typeFilter === 'all' || item.type === typeFilter) &&
+      (item.title.toLowerCase().includes(lowercasedFilter) || (item.deletedBy?.name || '').toLowerCase().includes(lowercasedFilter))
+    );
+  }, [items, typeFilter, searchTerm]);
+
+  const confirmAction = async () => {
+    if (!pendingAction || !currentUser) return;
+    const { kind, item } = pendingAction;
+    setIsWorking(true);
+    try {
+      if (kind === 'restore') {
+        await restoreTrashItem(item.type, item.id);
+        toast({ title: "Restored", description: `${getTrashItemLabel(item.type)} "${item.title}" is back.` });
+      } else {
+        // Only Super Admins may delete login accounts, which the server checks against their ID token
+        const deleteLoginAccounts = isSuperAdmin
+          ? async (emails: string[]) => deletePurgedLoginAccounts(await auth.currentUser!.getIdToken(), emails)
+          : null;
+        const { filesFailed } = await purgeTrashItem(item.type, item.id, deleteLoginAccounts);
+        toast({
+          title: "Deleted Permanently",
+          description: filesFailed > 0
+            ? `"${item.title}" was deleted, but ${filesFailed} file(s) could not be removed from storage.`
+            : `"${item.title}" was deleted permanently.`,
+        });
+      }
+      fetchTrash(currentUser);
+    } catch (error: any) {
+      toast({ title: kind === 'restore' ? "Could Not Restore" : "Could Not Delete", description: error.message || "The action could not be completed.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+      setPendingAction(null);
+    }
+  };
+
+  const saveRetention = async () => {
+    setIsSavingSettings(true);
+    try {
+      const settings = await updateTrashSettings(Number(retentionDays));
+      setRetentionDays(String(settings.retentionDays));
+      toast({ title: "Settings Saved", description: `Deleted items are now kept for ${settings.retentionDays} days.` });
+      if (currentUser) fetchTrash(currentUser);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not save the retention period.", variant: "destructive" });
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  if (!currentUser) {
+    return <div className="container mx-auto text-center"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+  }
+
+  return (
+    <div className="container mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold tracking-tight text-primary flex items-center gap-2"><Trash2 className="h-7 w-7" /> Trash</h1>
+      </div>
+
+      {isSuperAdmin && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Retention</CardTitle>
+            <CardDescription>Deleted items are kept this long, then deleted permanently with their files by the daily purge job.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="trash-retention-days">Days to Keep Deleted Items</Label>
+                <Input id="trash-retention-days" type="number" min={1} max={MAX_TRASH_RETENTION_DAYS} value={retentionDays} onChange={(e) => setRetentionDays(e.target.value)} className="w-40" disabled={isSavingSettings} />
+              </div>
+              <Button type="button" onClick={saveRetention} disabled={isSavingSettings || !retentionDays} className="bg-primary hover:bg-primary/90">
+                {isSavingSettings ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="mb-6 flex flex-wrap items-center gap-2">
+        <Search className="h-5 w-5 text-muted-foreground" />
+        <Input type="text" placeholder="Search by name or who deleted it..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="max-w-sm" />
+        <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as TrashItemType | 'all')}>
+          <SelectTrigger className="w-[200px]"><SelectValue placeholder="All types" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All types</SelectItem>
+            {availableTypes.map(type => <SelectItem key={type} value={type}>{getTrashItemLabel(type)}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Deleted Items</CardTitle>
+          <CardDescription>
+            Restoring an item brings back what was deleted with it. A brand comes back with its locations and users.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? <Skeleton className="h-40 w-full" /> : filteredItems.length === 0 ? (
+            <div className="text-center py-8">{searchTerm || typeFilter !== 'all' ? "No deleted items found." : "The trash is empty."}</div>
+          ) : (
+            <Table>
+              <TableHeader><TableRow><TableHead>Item</TableHead><TableHead>Type</TableHead><TableHead>Brand</TableHead><TableHead>Deleted</TableHead><TableHead>Permanently Deleted</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {filteredItems.map((item) => (
+                  <TableRow key={`${item.type}-${item.id}`}>
+                    <TableCell className="font-medium">
+                      <div className="flex flex-col">
+                        <span>{item.title}</span>
+                        {item.cascadeCount > 0 && <span className="text-xs text-muted-foreground">With {item.cascadeCount} location(s) and user(s)</span>}
+                      </div>
+                    </TableCell>
+                    <TableCell><Badge variant="secondary">{getTrashItemLabel(item.type)}</Badge></TableCell>
+                    <TableCell>{item.brandId ? brandNames[item.brandId] || 'Deleted brand' : 'Platform'}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col text-sm">
+                        <span>{item.deletedAt ? formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true }) : 'Unknown date'}</span>
+                        <span className="text-xs text-muted-foreground">{item.deletedBy ? `by ${item.deletedBy.name}` : 'Unknown user'}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{item.purgeAt ? format(new Date(item.purgeAt), 'PP') : 'Not scheduled'}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setPendingAction({ kind: 'restore', item })} disabled={isWorking}>
+                          <Undo className="mr-1 h-4 w-4" /> Restore
+                        </Button>
+                        {isSuperAdmin && (
+                          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => setPendingAction({ kind: 'purge', item })} disabled={isWorking}>
+                            <Trash2 className="mr-1 h-4 w-4" /> Delete Now
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && !isWorking && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingAction?.kind === 'purge' ? 'Delete permanently?' : 'Restore item?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.kind === 'purge'
+                ? `"${pendingAction.item.title}" will be deleted for good, together with its files and anything deleted with it. This cannot be undone.`
+                : `"${pendingAction?.item.title}" will be restored${pendingAction?.item.cascadeCount ? ` with ${pendingAction.item.cascadeCount} location(s) and user(s)` : ''}.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWorking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => { event.preventDefault(); confirmAction(); }}
+              disabled={isWorking}
+              className={pendingAction?.kind === 'purge' ? 'bg-destructive hover:bg-destructive/90' : undefined}
+            >
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction?.kind === 'purge' ? 'Delete Permanently' : 'Restore'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+// src/app/api/certificates/[certificateId]/pdf/route.ts
+import { NextResponse } from 'next/server';
+import { getCertificateById } from '@/lib/certificate-data';
+import { renderCertificatePdf } from '@/lib/certificate-pdf';
+import { getCertificateTemplateById } from '@/lib/certificate-template-data';
+import { getCourseById } from '@/lib/firestore-data';
+import { getBrandCourseById } from '@/lib/brand-content-data';
+
+export const dynamic = 'force-dynamic';
+
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002';
+
+/**
+ * Downloads a certificate as a PDF. Certificates are issued with the issueCertificateAction server action;
+ * the certificate ID is unguessable, so like the verification page this route needs no sign-in.
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ certificateId: string }> }) {
+  const { certificateId } = await params;
+
+  try {
+    const certificate = await getCertificateById(certificateId);
+    if (!certificate) {
+      return NextResponse.json({ error: 'Certificate not found.' }, { status: 404 });
+    }
+
+    // Rendered with the course's current template, so template changes apply to certificates already issued
+    const course = (await getCourseById(certificate.courseId)) ?? (await getBrandCourseById(certificate.courseId));
+    const template = await getCertificateTemplateById(course?.certificateTemplateId);
+
+    const pdfBytes = await renderCertificatePdf(certificate, `${appUrl}/verify/${certificate.id}`, template);
+    return new NextResponse(Buffer.from(pdfBytes), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="certificate-${certificate.serialNumber}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error(`Failed to generate PDF for certificate ${certificateId}:`, error);
+    return NextResponse.json({ error: error.message || 'Failed to generate certificate.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+// src/app/api/cron/assignment-reminders/route.ts
+import { NextResponse } from 'next/server';
+import { sendAssignmentReminders } from '@/lib/assignment-reminders';
+import { authorizeCronRequest } from '@/lib/cron-auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Sends due date reminders for assigned courses. Meant to be called once a day by a cron job, e.g.
+ * `curl -H "Authorization: Bearer $CRON_SECRET" https://your-app/api/cron/assignment-reminders`.
+ * Reminders already sent are recorded per course, so calling it more often does not send duplicates.
+ */
+async function handleRequest(request: Request) {
+  const unauthorized = authorizeCronRequest(request, 'Assignment reminders');
+  if (unauthorized) return unauthorized;
+
+  try {
+    const result = await sendAssignmentReminders();
+    console.log('Assignment reminder job finished:', result);
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Assignment reminder job failed:', error);
+    return NextResponse.json({ error: error.message || 'Reminder job failed.' }, { status: 500 });
+  }
+}
+
+export const GET = handleRequest;
+export const POST = handleRequest;
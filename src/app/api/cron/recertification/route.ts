@@ -0,0 +1,27 @@
+// src/app/api/cron/recertification/route.ts
+import { NextResponse } from 'next/server';
+import { processExpiredCompletions } from '@/lib/recertification';
+import { authorizeCronRequest } from '@/lib/cron-auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Expires course completions that have passed their validity period and resets those courses for recertification.
+ * Meant to be called once a day by a cron job with `Authorization: Bearer $CRON_SECRET`.
+ */
+async function handleRequest(request: Request) {
+  const unauthorized = authorizeCronRequest(request, 'Recertification job');
+  if (unauthorized) return unauthorized;
+
+  try {
+    const result = await processExpiredCompletions();
+    console.log('Recertification job finished:', result);
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Recertification job failed:', error);
+    return NextResponse.json({ error: error.message || 'Recertification job failed.' }, { status: 500 });
+  }
+}
+
+export const GET = handleRequest;
+export const POST = handleRequest;
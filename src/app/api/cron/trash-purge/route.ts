@@ -0,0 +1,28 @@
+// src/app/api/cron/trash-purge/route.ts
+import { NextResponse } from 'next/server';
+import { purgeExpiredTrash } from '@/lib/trash-data';
+import { authorizeCronRequest } from '@/lib/cron-auth';
+import { deleteUnusedLoginAccounts } from '@/lib/login-accounts';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Permanently deletes items that have been in the trash longer than the retention period set on the Trash page,
+ * along with their files. Meant to be called once a day by a cron job with `Authorization: Bearer $CRON_SECRET`.
+ */
+async function handleRequest(request: Request) {
+  const unauthorized = authorizeCronRequest(request, 'Trash purge');
+  if (unauthorized) return unauthorized;
+
+  try {
+    const result = await purgeExpiredTrash(deleteUnusedLoginAccounts);
+    console.log('Trash purge job finished:', result);
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Trash purge job failed:', error);
+    return NextResponse.json({ error: error.message || 'Trash purge job failed.' }, { status: 500 });
+  }
+}
+
+export const GET = handleRequest;
+export const POST = handleRequest;
@@ -0,0 +1,27 @@
+// src/app/api/cron/video-processing/route.ts
+import { NextResponse } from 'next/server';
+import { processPendingVideoAssets } from '@/lib/video-processing';
+import { authorizeCronRequest } from '@/lib/cron-auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Packages uploaded lesson videos that are still queued, or whose processing job died, into HLS.
+ * Meant to be called every few minutes by a cron job with `Authorization: Bearer $CRON_SECRET`.
+ */
+async function handleRequest(request: Request) {
+  const unauthorized = authorizeCronRequest(request, 'Video processing job');
+  if (unauthorized) return unauthorized;
+
+  try {
+    const result = await processPendingVideoAssets();
+    console.log('Video processing job finished:', result);
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Video processing job failed:', error);
+    return NextResponse.json({ error: error.message || 'Video processing job failed.' }, { status: 500 });
+  }
+}
+
+export const GET = handleRequest;
+export const POST = handleRequest;
@@ -0,0 +1,27 @@
+// src/app/api/cron/xapi-delivery/route.ts
+import { NextResponse } from 'next/server';
+import { deliverPendingXapiStatements } from '@/lib/xapi-delivery';
+import { authorizeCronRequest } from '@/lib/cron-auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Sends queued xAPI statements to brands' LRSs, including ones waiting to be retried.
+ * Meant to be called every few minutes by a cron job with `Authorization: Bearer $CRON_SECRET`.
+ */
+async function handleRequest(request: Request) {
+  const unauthorized = authorizeCronRequest(request, 'xAPI delivery job');
+  if (unauthorized) return unauthorized;
+
+  try {
+    const result = await deliverPendingXapiStatements();
+    console.log('xAPI delivery job finished:', result);
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('xAPI delivery job failed:', error);
+    return NextResponse.json({ error: error.message || 'xAPI delivery job failed.' }, { status: 500 });
+  }
+}
+
+export const GET = handleRequest;
+export const POST = handleRequest;
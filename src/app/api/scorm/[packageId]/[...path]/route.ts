@@ -0,0 +1,50 @@
+// src/app/api/scorm/[packageId]/[...path]/route.ts
+import { NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import { getStorage } from 'firebase-admin/storage';
+import { adminApp } from '@/lib/firebase-admin';
+import { STORAGE_PATHS } from '@/lib/storage';
+import { isScormContentHost } from '@/lib/scorm';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Serves the files of an unpacked SCORM package, only on the SCORM content origin. Package scripts are
+ * uploaded by brands, so they must never run on the app's origin, where they could act as the signed-in viewer.
+ * On the content origin they reach the SCORM API on the player page above them. Package IDs are
+ * unguessable, so like certificate PDFs this needs no sign-in.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ packageId: string; path: string[] }> }) {
+  if (!isScormContentHost(request.headers.get('host'))) {
+    return NextResponse.json({ error: 'Not found.' }, { status: 404 });
+  }
+  const { packageId, path } = await params;
+  if (!/^[A-Za-z0-9-]+$/.test(packageId) || !path?.length || path.some(segment => !segment || segment === '.' || segment === '..')) {
+    return NextResponse.json({ error: 'Not found.' }, { status: 404 });
+  }
+  if (!adminApp) {
+    return NextResponse.json({ error: 'SCORM content needs the Firebase Admin SDK. Set FIREBASE_SERVICE_ACCOUNT_JSON.' }, { status: 500 });
+  }
+
+  const storagePath = `${STORAGE_PATHS.LESSON_SCORM}/${packageId}/${path.join('/')}`;
+  try {
+    const file = getStorage(adminApp).bucket(process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET).file(storagePath);
+    const [exists] = await file.exists();
+    if (!exists) {
+      return NextResponse.json({ error: 'Not found.' }, { status: 404 });
+    }
+    const [metadata] = await file.getMetadata();
+
+    return new NextResponse(Readable.toWeb(file.createReadStream()) as ReadableStream, {
+      headers: {
+        'Content-Type': metadata.contentType || 'application/octet-stream',
+        ...(metadata.size ? { 'Content-Length': String(metadata.size) } : {}),
+        'Cache-Control': 'private, max-age=3600', // Package files never change; a new upload gets a new ID
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error: any) {
+    console.error(`Failed to serve SCORM file ${storagePath}:`, error);
+    return NextResponse.json({ error: 'Failed to load SCORM content.' }, { status: 500 });
+  }
+}
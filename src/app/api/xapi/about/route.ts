@@ -0,0 +1,10 @@
+// src/app/api/xapi/about/route.ts
+import { NextResponse } from 'next/server';
+import { XAPI_VERSION } from '@/lib/xapi';
+
+/**
+ * The xAPI About resource of the built-in LRS. Needs no credentials, as the spec requires.
+ */
+export async function GET() {
+  return NextResponse.json({ version: [XAPI_VERSION] }, { headers: { 'X-Experience-API-Version': XAPI_VERSION } });
+}
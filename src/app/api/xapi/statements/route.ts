@@ -0,0 +1,151 @@
+// src/app/api/xapi/statements/route.ts
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { authorizeLrsRequest } from '@/lib/lrs-auth';
+import { getLrsStatement, queryLrsStatements, storeLrsStatements } from '@/lib/lrs-data';
+import { XAPI_VERSION } from '@/lib/xapi';
+import type { XapiStatement } from '@/types/xapi';
+
+export const dynamic = 'force-dynamic';
+
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const versionHeader = { 'X-Experience-API-Version': XAPI_VERSION };
+
+/*
+ * The Statements resource of the built-in LRS, for testing xAPI delivery locally: point a brand's
+ * LRS settings at `${NEXT_PUBLIC_APP_URL}/api/xapi` with XAPI_LRS_KEY and XAPI_LRS_SECRET.
+ * It checks statements only loosely and supports the common query parameters, not the whole spec.
+ */
+
+const isIsoDate = (value: string) => !isNaN(Date.parse(value));
+
+/**
+ * Checks the parts of a statement every LRS needs, and stamps it as stored by this LRS.
+ * @returns The statement to store, or an error message.
+ */
+function prepareStatement(raw: any, storedAt: string, id?: string | null): XapiStatement | string {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return 'Each statement must be an object.';
+  if (!raw.actor || typeof raw.actor !== 'object') return 'A statement needs an actor.';
+  if (typeof raw.verb?.id !== 'string' || !raw.verb.id) return 'A statement needs a verb with an id.';
+  if (!raw.object || typeof raw.object !== 'object') return 'A statement needs an object.';
+  if ((raw.object.objectType ?? 'Activity') === 'Activity' && (typeof raw.object.id !== 'string' || !raw.object.id)) return 'Activity objects need an id.';
+  const statementId = id || raw.id || randomUUID();
+  if (typeof statementId !== 'string' || !UUID_PATTERN.test(statementId)) return 'Statement IDs must be UUIDs.';
+  if (id && raw.id && raw.id !== id) return 'The statementId parameter does not match the statement ID.';
+  if (raw.timestamp !== undefined && (typeof raw.timestamp !== 'string' || !isIsoDate(raw.timestamp))) return 'Statement timestamps must be ISO 8601 dates.';
+
+  return {
+    ...JSON.parse(JSON.stringify(raw)), // Drops anything Firestore can't store, such as undefined
+    id: statementId.toLowerCase(),
+    timestamp: raw.timestamp || storedAt,
+    stored: storedAt,
+    authority: { objectType: 'Agent', name: 'Built-in LRS', account: { homePage: appUrl, name: process.env.XAPI_LRS_KEY || 'lrs' } },
+    version: raw.version || XAPI_VERSION,
+  };
+}
+
+async function readStatements(request: Request, id?: string | null): Promise<XapiStatement[] | NextResponse> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'The request body must be JSON.' }, { status: 400, headers: versionHeader });
+  }
+  const storedAt = new Date().toISOString();
+  const statements: XapiStatement[] = [];
+  for (const raw of Array.isArray(body) ? body : [body]) {
+    const prepared = prepareStatement(raw, storedAt, id);
+    if (typeof prepared === 'string') return NextResponse.json({ error: prepared }, { status: 400, headers: versionHeader });
+    statements.push(prepared);
+  }
+  return statements;
+}
+
+/**
+ * Stores one statement or an array of them, returning their IDs.
+ */
+export async function POST(request: Request) {
+  const unauthorized = authorizeLrsRequest(request);
+  if (unauthorized) return unauthorized;
+
+  const statements = await readStatements(request);
+  if (statements instanceof NextResponse) return statements;
+  try {
+    return NextResponse.json(await storeLrsStatements(statements), { headers: versionHeader });
+  } catch (error: any) {
+    console.error('Built-in LRS failed to store statements:', error);
+    return NextResponse.json({ error: 'Failed to store statements.' }, { status: 500, headers: versionHeader });
+  }
+}
+
+/**
+ * Stores a single statement under the ID given in the statementId parameter.
+ */
+export async function PUT(request: Request) {
+  const unauthorized = authorizeLrsRequest(request);
+  if (unauthorized) return unauthorized;
+
+  const statementId = new URL(request.url).searchParams.get('statementId');
+  if (!statementId) {
+    return NextResponse.json({ error: 'PUT requires a statementId parameter.' }, { status: 400, headers: versionHeader });
+  }
+  const statements = await readStatements(request, statementId);
+  if (statements instanceof NextResponse) return statements;
+  try {
+    await storeLrsStatements(statements.slice(0, 1));
+    return new NextResponse(null, { status: 204, headers: versionHeader });
+  } catch (error: any) {
+    console.error('Built-in LRS failed to store statement:', error);
+    return NextResponse.json({ error: 'Failed to store statement.' }, { status: 500, headers: versionHeader });
+  }
+}
+
+/**
+ * Returns one statement by statementId, or a StatementResult filtered by verb, agent (mbox only),
+ * activity, since, until and limit.
+ */
+export async function GET(request: Request) {
+  const unauthorized = authorizeLrsRequest(request);
+  if (unauthorized) return unauthorized;
+
+  const params = new URL(request.url).searchParams;
+  try {
+    const statementId = params.get('statementId');
+    if (statementId) {
+      const statement = await getLrsStatement(statementId.toLowerCase());
+      return statement
+        ? NextResponse.json(statement, { headers: versionHeader })
+        : NextResponse.json({ error: 'Statement not found.' }, { status: 404, headers: versionHeader });
+    }
+
+    let mbox: string | null = null;
+    const agent = params.get('agent');
+    if (agent) {
+      try {
+        mbox = JSON.parse(agent).mbox || null;
+      } catch {
+        return NextResponse.json({ error: 'The agent parameter must be a JSON agent.' }, { status: 400, headers: versionHeader });
+      }
+      if (!mbox) return NextResponse.json({ error: 'Only agents identified by mbox are supported.' }, { status: 400, headers: versionHeader });
+    }
+    for (const name of ['since', 'until']) {
+      const value = params.get(name);
+      if (value && !isIsoDate(value)) return NextResponse.json({ error: `The ${name} parameter must be an ISO 8601 date.` }, { status: 400, headers: versionHeader });
+    }
+    const toIso = (value: string | null) => (value ? new Date(value).toISOString() : null);
+
+    const statements = await queryLrsStatements({
+      verb: params.get('verb'),
+      mbox,
+      activity: params.get('activity'),
+      since: toIso(params.get('since')),
+      until: toIso(params.get('until')),
+      limit: Number(params.get('limit')) || null,
+    });
+    return NextResponse.json({ statements, more: '' }, { headers: versionHeader });
+  } catch (error: any) {
+    console.error('Built-in LRS query failed:', error);
+    return NextResponse.json({ error: 'Failed to read statements.' }, { status: 500, headers: versionHeader });
+  }
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from "@/components/ui/badge";
+import { PlusCircle, Trash2, Edit, Loader2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import type { CertificateTemplate } from '@/types/certificate';
+import type { User, Company } from '@/types/user';
+import { getCertificateTemplatesByBrandId, deleteCertificateTemplate } from '@/lib/certificate-template-data';
+import { SAMPLE_MERGE_VALUES } from '@/lib/certificate-template';
+import { CertificateTemplateView } from '@/components/certificates/CertificateTemplateView';
+import { CertificateTemplateEditorDialog } from '@/components/certificates/CertificateTemplateEditorDialog';
+import { auth } from '@/lib/firebase';
+import { onAuthStateChanged } from 'firebase/auth';
+import { getUserByEmail, getCurrentUserSummary } from '@/lib/user-data';
+import { getCompanyById } from '@/lib/company-data';
+import { useRouter } from 'next/navigation';
+
+export default function BrandAdminCertificateTemplatesPage() {
+  const [templates, setTemplates] = useState<CertificateTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<CertificateTemplate | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<CertificateTemplate | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { toast } = useToast();
+  const router = useRouter();
+
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [currentBrand, setCurrentBrand] = useState<Company | null>(null);
+  const [isAuthorized, setIsAuthorized] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
+      if (firebaseUser && firebaseUser.email) {
+        try {
+          const userDetails = await getUserByEmail(firebaseUser.email);
+          setCurrentUser(userDetails);
+          if (userDetails && (userDetails.role === 'Admin' || userDetails.role === 'Owner') && userDetails.companyId) {
+            const brandDetails = await getCompanyById(userDetails.companyId);
+            setCurrentBrand(brandDetails);
+            if (brandDetails?.canManageCourses) {
+              setIsAuthorized(true);
+            } else {
+              setIsAuthorized(false);
+              toast({ title: "Access Denied", description: "Your brand does not have course management enabled.", variant: "destructive" });
+              router.push('/dashboard');
+            }
+          } else {
+            setIsAuthorized(false);
+            toast({ title: "Access Denied", description: "You do not have permission to manage certificate templates.", variant: "destructive" });
+            router.push(userDetails?.role === 'Staff' ? '/courses/my-courses' : '/');
+          }
+        } catch (error) {
+          setIsAuthorized(false);
+          toast({ title: "Error", description: "Could not verify permissions.", variant: "destructive" });
+          router.push('/');
+        }
+      } else {
+        setCurrentUser(null); setCurrentBrand(null); setIsAuthorized(false); router.push('/');
+      }
+    });
+    return () => unsubscribe();
+  }, [router, toast]);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!isAuthorized || !currentUser?.companyId) {
+      setTemplates([]); setIsLoading(false); return;
+    }
+    setIsLoading(true);
+    try {
+      setTemplates(await getCertificateTemplatesByBrandId(currentUser.companyId));
+    } catch (error) {
+      console.error("Failed to fetch certificate templates:", error);
+      toast({ title: "Error", description: "Could not fetch certificate templates.", variant: "destructive" });
+      setTemplates([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAuthorized, currentUser?.companyId, toast]);
+
+  useEffect(() => { if (isAuthorized) fetchTemplates(); }, [isAuthorized, fetchTemplates]);
+
+  const handleAddTemplate = () => { setEditingTemplate(null); setIsEditorOpen(true); };
+  const handleEditTemplate = (template: CertificateTemplate) => { setEditingTemplate(template); setIsEditorOpen(true); };
+
+  const confirmDelete = async () => {
+    if (!templateToDelete) return;
+    setIsDeleting(true);
+    try {
+      await deleteCertificateTemplate(templateToDelete.id, await getCurrentUserSummary());
+      await fetchTemplates();
+      toast({ title: 'Template Deleted', description: `"${templateToDelete.name}" deleted.` });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to delete template.', variant: 'destructive' });
+    } finally {
+      setIsDeleting(false); setTemplateToDelete(null);
+    }
+  };
+
+  if (!currentUser || !currentBrand || !isAuthorized) {
+    return <div className="container mx-auto text-center"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /><p className="mt-2">Verifying access...</p></div>;
+  }
+
+  return (
+    <div className="container mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold tracking-tight text-primary">Certificate Templates</h1>
+        <Button onClick={handleAddTemplate} className="bg-accent text-accent-foreground hover:bg-accent/90">
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Template
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Certificate Templates for {currentBrand.name}</CardTitle>
+          <CardDescription>Design the certificates your learners receive. Choose a template for each course in My Courses.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3"><Skeleton className="h-48 w-full" /><Skeleton className="h-48 w-full" /><Skeleton className="h-48 w-full" /></div>
+          ) : templates.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">No certificate templates yet. Courses without a template use the default certificate.</div>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {templates.map(template => (
+                <Card key={template.id} className="overflow-hidden">
+                  <div className="border-b bg-muted/40 p-3">
+                    <CertificateTemplateView template={template} values={SAMPLE_MERGE_VALUES} className="mx-auto max-w-[320px] shadow-sm" />
+                  </div>
+                  <CardContent className="flex items-center justify-between gap-2 p-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{template.name}</p>
+                      <Badge variant="secondary" className="capitalize">{template.orientation}</Badge>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEditTemplate(template)} aria-label="Edit template"><Edit className="h-4 w-4" /></Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => setTemplateToDelete(template)} aria-label="Delete template"><Trash2 className="h-4 w-4" /></Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CertificateTemplateEditorDialog
+        isOpen={isEditorOpen}
+        setIsOpen={setIsEditorOpen}
+        brandId={currentBrand.id}
+        initialData={editingTemplate}
+        onSave={() => { fetchTemplates(); setEditingTemplate(null); }}
+      />
+
+      <AlertDialog open={!!templateToDelete} onOpenChange={(open) => { if (!open) setTemplateToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader><AlertDialogTitle>Are you sure?</AlertDialogTitle><AlertDialogDescription>This will delete the template "{templateToDelete?.name}". Courses using it will switch to the default certificate.</AlertDialogDescription></AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-destructive hover:bg-destructive/90" disabled={isDeleting}>
+              {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
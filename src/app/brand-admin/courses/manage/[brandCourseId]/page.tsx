@@ -7,16 +7,21 @@ import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { ArrowLeft, BookOpen, PlusCircle, Trash2, GripVertical, FileText, HelpCircle, Loader2, Layers, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, BookOpen, PlusCircle, Trash2, GripVertical, FileText, HelpCircle, Loader2, Layers, AlertTriangle, CalendarClock, Pencil } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import type { BrandCourse, BrandLesson, BrandQuiz, Course } from '@/types/course';
+import type { BrandCourse, BrandLesson, BrandQuiz, Course, CurriculumAvailability, CurriculumModule } from '@/types/course';
 import type { User, Company } from '@/types/user';
-import { getBrandCourseById, getBrandLessonsByBrandId, getBrandQuizzesByBrandId, updateBrandCourseCurriculum } from '@/lib/brand-content-data';
+import { getBrandCourseById, getBrandLessonsByBrandId, getBrandQuizzesByBrandId, updateBrandCourseModules, updateBrandCourseCurriculumAvailability } from '@/lib/brand-content-data';
 import { getCompanyById } from '@/lib/company-data'; 
+import { withDraft } from '@/lib/content-versions';
 import { getUserByEmail } from '@/lib/user-data'; 
 
 import { AddBrandLessonToCurriculumDialog } from '@/components/brand-admin/AddBrandLessonToCurriculumDialog';
 import { AddBrandQuizToCurriculumDialog } from '@/components/brand-admin/AddBrandQuizToCurriculumDialog'; 
+import { BrandCurriculumAvailabilityDialog } from '@/components/brand-admin/BrandCurriculumAvailabilityDialog';
+import { EditBrandModuleTitleDialog } from '@/components/brand-admin/EditBrandModuleTitleDialog';
+import { describeCurriculumAvailability } from '@/lib/drip-schedule';
+import { buildModulesFromCurriculum, createCurriculumModule, flattenModules, getCourseModules } from '@/lib/curriculum-modules';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
@@ -42,11 +47,15 @@ export default function ManageBrandCourseCurriculumPage() {
   const [isAuthorized, setIsAuthorized] = useState(false);
 
   const [brandCourse, setBrandCourse] = useState<BrandCourse | null>(null);
-  const [curriculumItems, setCurriculumItems] = useState<BrandCurriculumItem[]>([]);
+  const [modules, setModules] = useState<CurriculumModule[]>([]);
+  const [curriculumItemsById, setCurriculumItemsById] = useState<Map<string, BrandCurriculumItem>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isAddLessonDialogOpen, setIsAddLessonDialogOpen] = useState(false);
   const [isAddQuizDialogOpen, setIsAddQuizDialogOpen] = useState(false);
+  const [targetModuleId, setTargetModuleId] = useState<string | null>(null); // Module that new lessons and quizzes are added to
+  const [moduleToEdit, setModuleToEdit] = useState<{ moduleId: string | null } | null>(null); // moduleId null = new module
+  const [itemToSchedule, setItemToSchedule] = useState<BrandCurriculumItem | null>(null);
 
   const [availableBrandLessonsForDialog, setAvailableBrandLessonsForDialog] = useState<BrandLesson[]>([]);
   const [availableBrandQuizzesForDialog, setAvailableBrandQuizzesForDialog] = useState<BrandQuiz[]>([]);
@@ -90,11 +99,13 @@ export default function ManageBrandCourseCurriculumPage() {
     }
     setIsLoading(true);
     try {
-      const fetchedBrandCourse = await getBrandCourseById(brandCourseId);
-      if (!fetchedBrandCourse || fetchedBrandCourse.brandId !== currentUser.companyId) {
+      const storedBrandCourse = await getBrandCourseById(brandCourseId);
+      if (!storedBrandCourse || storedBrandCourse.brandId !== currentUser.companyId) {
         toast({ title: "Error", description: "Brand Course not found or not owned by your brand.", variant: "destructive" });
         router.push('/brand-admin/courses'); return;
       }
+      // Under course approval the curriculum being edited is held in the draft
+      const fetchedBrandCourse = withDraft(storedBrandCourse);
       setBrandCourse(fetchedBrandCourse);
 
       const [brandLessons, brandQuizzes] = await Promise.all([
@@ -106,10 +117,9 @@ export default function ManageBrandCourseCurriculumPage() {
       brandLessons.forEach(lesson => allItemsMap.set(`brandLesson-${lesson.id}`, { id: `brandLesson-${lesson.id}`, type: 'brandLesson', data: lesson }));
       brandQuizzes.forEach(quiz => allItemsMap.set(`brandQuiz-${quiz.id}`, { id: `brandQuiz-${quiz.id}`, type: 'brandQuiz', data: quiz }));
       
-      const orderedCurriculumItems = (fetchedBrandCourse.curriculum || [])
-        .map(itemId => allItemsMap.get(itemId))
-        .filter(Boolean) as BrandCurriculumItem[];
-      setCurriculumItems(orderedCurriculumItems);
+      // Items whose lesson or quiz no longer exists are dropped, and the modules are saved without them on the next change
+      setCurriculumItemsById(allItemsMap);
+      setModules(getCourseModules(fetchedBrandCourse).map(module => ({ ...module, itemIds: module.itemIds.filter(itemId => allItemsMap.has(itemId)) })));
 
       const currentCurriculumIds = new Set(fetchedBrandCourse.curriculum || []);
       setAvailableBrandLessonsForDialog(brandLessons.filter(lesson => !currentCurriculumIds.has(`brandLesson-${lesson.id}`)));
@@ -125,6 +135,12 @@ export default function ManageBrandCourseCurriculumPage() {
 
   useEffect(() => { if (isAuthorized) fetchBrandCourseAndData(); }, [isAuthorized, fetchBrandCourseAndData]);
 
+  const openAddItemDialog = (type: 'brandLesson' | 'brandQuiz', moduleId: string | null) => {
+    setTargetModuleId(moduleId);
+    if (type === 'brandLesson') setIsAddLessonDialogOpen(true);
+    else setIsAddQuizDialogOpen(true);
+  };
+
   const handleAddItemToCurriculum = async (itemId: string, itemType: 'brandLesson' | 'brandQuiz') => {
     let itemToAdd: BrandLesson | BrandQuiz | undefined;
     if (itemType === 'brandLesson') itemToAdd = availableBrandLessonsForDialog.find(l => l.id === itemId);
@@ -132,18 +148,18 @@ export default function ManageBrandCourseCurriculumPage() {
     
     if (itemToAdd && brandCourse) {
       const prefixedId = `${itemType}-${itemId}`;
-      const newItem: BrandCurriculumItem = { id: prefixedId, type: itemType, data: itemToAdd };
       // Check if item already exists to prevent duplicates
-      if (curriculumItems.some(item => item.id === prefixedId)) {
+      if (modules.some(module => module.itemIds.includes(prefixedId))) {
         toast({ title: "Item Already Added", description: "This item is already in the curriculum.", variant: "default" });
         if (itemType === 'brandLesson') setIsAddLessonDialogOpen(false);
         else setIsAddQuizDialogOpen(false);
         return;
       }
-      const newCurriculumItems = [...curriculumItems, newItem];
-      setCurriculumItems(newCurriculumItems); // Optimistic update
-      const newCurriculumIds = newCurriculumItems.map(item => item.id);
-      await saveCurriculum(newCurriculumIds);
+      // Adds to the chosen module, or the last module when added from the page header
+      const baseModules = modules.length > 0 ? modules : buildModulesFromCurriculum([]);
+      const moduleIndex = baseModules.findIndex(module => module.id === targetModuleId);
+      const index = moduleIndex === -1 ? baseModules.length - 1 : moduleIndex;
+      await saveModules(baseModules.map((module, i) => i === index ? { ...module, itemIds: [...module.itemIds, prefixedId] } : module));
       fetchBrandCourseAndData(); // Re-fetch to sync available items
     }
     if (itemType === 'brandLesson') setIsAddLessonDialogOpen(false);
@@ -151,21 +167,41 @@ export default function ManageBrandCourseCurriculumPage() {
   };
 
   const handleRemoveItem = async (itemIdToRemove: string) => {
-    const newCurriculumItems = curriculumItems.filter(item => item.id !== itemIdToRemove);
-    setCurriculumItems(newCurriculumItems); // Optimistic update
-    const newCurriculumIds = newCurriculumItems.map(item => item.id);
-    await saveCurriculum(newCurriculumIds);
+    await saveModules(modules.map(module => ({ ...module, itemIds: module.itemIds.filter(id => id !== itemIdToRemove) })));
     fetchBrandCourseAndData(); // Re-fetch to sync available items
   };
 
-  const saveCurriculum = async (newCurriculumIds: string[]) => {
+  const saveModuleTitle = async (title: string) => {
+    if (!moduleToEdit) return;
+    const newModules = moduleToEdit.moduleId
+      ? modules.map(module => module.id === moduleToEdit.moduleId ? { ...module, title } : module)
+      : [...modules, createCurriculumModule(title)];
+    await saveModules(newModules);
+  };
+
+  // The module's lessons and quizzes move to the module above it (or below, for the first module)
+  const handleDeleteModule = async (moduleId: string) => {
+    const moduleIndex = modules.findIndex(module => module.id === moduleId);
+    if (moduleIndex === -1 || modules.length <= 1) return;
+    const receivingIndex = moduleIndex === 0 ? 1 : moduleIndex - 1;
+    const movedItemIds = modules[moduleIndex].itemIds;
+    const newModules = modules
+      .map((module, i) => i === receivingIndex
+        ? { ...module, itemIds: receivingIndex < moduleIndex ? [...module.itemIds, ...movedItemIds] : [...movedItemIds, ...module.itemIds] }
+        : module)
+      .filter(module => module.id !== moduleId);
+    await saveModules(newModules);
+  };
+
+  const saveModules = async (newModules: CurriculumModule[]) => {
     if (!brandCourseId || !brandCourse) return;
+    setModules(newModules); // Optimistic update
     setIsSaving(true);
     try {
-      const success = await updateBrandCourseCurriculum(brandCourseId, newCurriculumIds);
+      const success = await updateBrandCourseModules(brandCourseId, newModules);
       if (success) {
-        toast({ title: "Curriculum Updated", description: "Course curriculum saved." });
-        setBrandCourse(prev => prev ? { ...prev, curriculum: newCurriculumIds } : null);
+        toast({ title: "Curriculum Updated", description: currentBrandDetails?.requiresCourseApproval ? "Curriculum saved. Learners see it once the course is submitted for review and approved." : "Course curriculum saved." });
+        setBrandCourse(prev => prev ? { ...prev, modules: newModules, curriculum: flattenModules(newModules) } : null);
       } else {
         throw new Error("Failed to update brand course curriculum in Firestore.");
       }
@@ -178,15 +214,42 @@ export default function ManageBrandCourseCurriculumPage() {
     }
   };
 
+  const saveItemAvailability = async (availability: CurriculumAvailability | null) => {
+    if (!brandCourseId || !itemToSchedule) return;
+    const itemId = itemToSchedule.id;
+    const success = await updateBrandCourseCurriculumAvailability(brandCourseId, itemId, availability);
+    if (success) {
+      toast({ title: "Schedule Updated", description: `"${itemToSchedule.data.title}": ${describeCurriculumAvailability(availability)}.` });
+      setBrandCourse(prev => {
+        if (!prev) return null;
+        const curriculumAvailability = { ...(prev.curriculumAvailability || {}) };
+        if (availability) curriculumAvailability[itemId] = availability;
+        else delete curriculumAvailability[itemId];
+        return { ...prev, curriculumAvailability };
+      });
+    } else {
+      toast({ title: "Save Error", description: "Could not save the availability schedule.", variant: "destructive" });
+    }
+  };
+
+  // Modules are reordered within the module list; items move within or between modules (droppable ID = module ID)
   const onDragEnd = (result: DropResult) => {
-    const { source, destination } = result;
+    const { source, destination, type } = result;
     if (!destination || (source.droppableId === destination.droppableId && source.index === destination.index)) return;
-    const newOrderedItems = Array.from(curriculumItems);
-    const [movedItem] = newOrderedItems.splice(source.index, 1);
-    newOrderedItems.splice(destination.index, 0, movedItem);
-    setCurriculumItems(newOrderedItems);
-    const newCurriculumIds = newOrderedItems.map(item => item.id);
-    saveCurriculum(newCurriculumIds);
+    if (type === 'MODULE') {
+      const newModules = Array.from(modules);
+      const [movedModule] = newModules.splice(source.index, 1);
+      newModules.splice(destination.index, 0, movedModule);
+      saveModules(newModules);
+      return;
+    }
+    const newModules = modules.map(module => ({ ...module, itemIds: [...module.itemIds] }));
+    const sourceModule = newModules.find(module => module.id === source.droppableId);
+    const destinationModule = newModules.find(module => module.id === destination.droppableId);
+    if (!sourceModule || !destinationModule) return;
+    const [movedItemId] = sourceModule.itemIds.splice(source.index, 1);
+    destinationModule.itemIds.splice(destination.index, 0, movedItemId);
+    saveModules(newModules);
   };
 
   const renderCurriculumItemRow = (item: BrandCurriculumItem, index: number) => (
@@ -204,6 +267,11 @@ export default function ManageBrandCourseCurriculumPage() {
           <TableCell className="text-sm text-muted-foreground py-3 w-[150px]">
             {item.type === 'brandLesson' ? ((item.data as BrandLesson).playbackTime || 'N/A') : `${(item.data as BrandQuiz).questions?.length || 0} Questions`}
           </TableCell>
+          <TableCell className="py-3 w-[190px]">
+            <Button variant="ghost" size="sm" className="h-8 px-2 text-xs text-muted-foreground" onClick={() => setItemToSchedule(item)} disabled={isSaving}>
+              <CalendarClock className="mr-1 h-3 w-3" /> {describeCurriculumAvailability(brandCourse?.curriculumAvailability?.[item.id])}
+            </Button>
+          </TableCell>
           <TableCell className="text-right py-3 w-[80px] pr-4">
             <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8" onClick={() => handleRemoveItem(item.id)} disabled={isSaving} aria-label={`Remove ${item.data.title}`}>
               <Trash2 className="h-4 w-4" />
@@ -234,10 +302,13 @@ export default function ManageBrandCourseCurriculumPage() {
             <p className="text-muted-foreground">Manage My Course Curriculum</p>
           </div>
           <div className="space-x-2">
-            <Button onClick={() => setIsAddLessonDialogOpen(true)} className="bg-accent text-accent-foreground hover:bg-accent/90">
+            <Button onClick={() => setModuleToEdit({ moduleId: null })} className="bg-accent text-accent-foreground hover:bg-accent/90">
+              <Layers className="mr-2 h-4 w-4" /> Add Module
+            </Button>
+            <Button onClick={() => openAddItemDialog('brandLesson', null)} className="bg-accent text-accent-foreground hover:bg-accent/90">
               <PlusCircle className="mr-2 h-4 w-4" /> Add Lesson
             </Button>
-            <Button onClick={() => setIsAddQuizDialogOpen(true)} className="bg-accent text-accent-foreground hover:bg-accent/90">
+            <Button onClick={() => openAddItemDialog('brandQuiz', null)} className="bg-accent text-accent-foreground hover:bg-accent/90">
               <PlusCircle className="mr-2 h-4 w-4" /> Add Quiz
             </Button>
           </div>
@@ -245,20 +316,46 @@ export default function ManageBrandCourseCurriculumPage() {
 
         <Card className="mb-8">
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">My Course Curriculum ({curriculumItems.length}) {isSaving && <Loader2 className="h-4 w-4 animate-spin"/>}</CardTitle>
-            <CardDescription>Drag and drop lessons and quizzes to reorder the curriculum.</CardDescription>
+            <CardTitle className="flex items-center gap-2">My Course Curriculum ({flattenModules(modules).length}) {isSaving && <Loader2 className="h-4 w-4 animate-spin"/>}</CardTitle>
+            <CardDescription>Drag modules to reorder them, and drag lessons and quizzes to reorder them or move them between modules. Use the availability column to release items on a schedule.{currentBrandDetails?.requiresCourseApproval && ' Curriculum changes reach learners once the course is submitted for review and approved.'}</CardDescription>
           </CardHeader>
           <CardContent>
-            <Droppable droppableId="brandCourseCurriculum">
-              {(provided, snapshot) => (
-                <Table className={cn("border border-dashed rounded-md min-h-[100px]", curriculumItems.length === 0 && "text-center text-muted-foreground italic", snapshot.isDraggingOver && "bg-accent/20 border-accent")}>
-                  <TableHeader className={cn(curriculumItems.length === 0 && "sr-only")}><TableRow><TableHead className="w-[50px]"></TableHead><TableHead>Type</TableHead><TableHead>Title</TableHead><TableHead>Details</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
-                  <TableBody ref={provided.innerRef} {...provided.droppableProps}>
-                    {curriculumItems.length === 0 ? (<TableRow><TableCell colSpan={5} className="h-24 text-center">This course curriculum is empty. Add lessons or quizzes.</TableCell></TableRow>)
-                                                : (curriculumItems.map((item, index) => renderCurriculumItemRow(item, index)))}
-                    {provided.placeholder}
-                  </TableBody>
-                </Table>
+            <Droppable droppableId="brandCourseModules" type="MODULE">
+              {(modulesProvided) => (
+                <div ref={modulesProvided.innerRef} {...modulesProvided.droppableProps} className="space-y-6">
+                  {modules.map((module, moduleIndex) => (
+                    <Draggable key={module.id} draggableId={module.id} index={moduleIndex}>
+                      {(moduleProvided) => (
+                        <div ref={moduleProvided.innerRef} {...moduleProvided.draggableProps} className="rounded-md border bg-card">
+                          <div className="flex items-center gap-2 border-b bg-muted/40 px-4 py-2">
+                            <span {...moduleProvided.dragHandleProps} className="cursor-move" aria-label={`Reorder ${module.title}`}><GripVertical className="h-5 w-5 text-muted-foreground" /></span>
+                            <h3 className="font-semibold">{module.title}</h3>
+                            <Badge variant="outline" className="text-xs">{module.itemIds.length} item{module.itemIds.length === 1 ? '' : 's'}</Badge>
+                            <div className="ml-auto flex items-center gap-1">
+                              <Button variant="ghost" size="sm" className="h-8 px-2 text-xs" onClick={() => openAddItemDialog('brandLesson', module.id)} disabled={isSaving}><PlusCircle className="mr-1 h-3 w-3" /> Lesson</Button>
+                              <Button variant="ghost" size="sm" className="h-8 px-2 text-xs" onClick={() => openAddItemDialog('brandQuiz', module.id)} disabled={isSaving}><PlusCircle className="mr-1 h-3 w-3" /> Quiz</Button>
+                              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setModuleToEdit({ moduleId: module.id })} disabled={isSaving} aria-label={`Rename ${module.title}`}><Pencil className="h-4 w-4" /></Button>
+                              <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8" onClick={() => handleDeleteModule(module.id)} disabled={isSaving || modules.length <= 1} aria-label={`Delete ${module.title}`}><Trash2 className="h-4 w-4" /></Button>
+                            </div>
+                          </div>
+                          <Droppable droppableId={module.id} type="ITEM">
+                            {(provided, snapshot) => (
+                              <Table className={cn("min-h-[60px]", module.itemIds.length === 0 && "text-center text-muted-foreground italic", snapshot.isDraggingOver && "bg-accent/20")}>
+                                <TableHeader className="sr-only"><TableRow><TableHead className="w-[50px]"></TableHead><TableHead>Type</TableHead><TableHead>Title</TableHead><TableHead>Details</TableHead><TableHead>Availability</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+                                <TableBody ref={provided.innerRef} {...provided.droppableProps}>
+                                  {module.itemIds.length === 0 ? (<TableRow><TableCell colSpan={6} className="h-16 text-center">This module is empty. Add lessons or quizzes, or drag them here.</TableCell></TableRow>)
+                                                               : (module.itemIds.map((itemId, index) => { const item = curriculumItemsById.get(itemId); return item ? renderCurriculumItemRow(item, index) : null; }))}
+                                  {provided.placeholder}
+                                </TableBody>
+                              </Table>
+                            )}
+                          </Droppable>
+                        </div>
+                      )}
+                    </Draggable>
+                  ))}
+                  {modulesProvided.placeholder}
+                </div>
               )}
             </Droppable>
           </CardContent>
@@ -276,6 +373,20 @@ export default function ManageBrandCourseCurriculumPage() {
           availableQuizzes={availableBrandQuizzesForDialog}
           onAddQuiz={(quizId) => handleAddItemToCurriculum(quizId, 'brandQuiz')}
         />
+        <EditBrandModuleTitleDialog
+          isOpen={!!moduleToEdit}
+          setIsOpen={(open) => { if (!open) setModuleToEdit(null); }}
+          isNewModule={!moduleToEdit?.moduleId}
+          initialTitle={modules.find(module => module.id === moduleToEdit?.moduleId)?.title ?? `Module ${modules.length + 1}`}
+          onSave={saveModuleTitle}
+        />
+        <BrandCurriculumAvailabilityDialog
+          isOpen={!!itemToSchedule}
+          setIsOpen={(open) => { if (!open) setItemToSchedule(null); }}
+          itemTitle={itemToSchedule?.data.title || ''}
+          availability={itemToSchedule ? brandCourse.curriculumAvailability?.[itemToSchedule.id] ?? null : null}
+          onSave={saveItemAvailability}
+        />
       </div>
     </DragDropContext>
   );
@@ -8,7 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { PlusCircle, MoreHorizontal, Trash2, Edit, BookOpen, Search, ChevronLeft, ChevronRight, Loader2, AlertTriangle, Layers } from 'lucide-react'; // Added Layers
+import { PlusCircle, MoreHorizontal, Trash2, Edit, BookOpen, Search, ChevronLeft, ChevronRight, Loader2, AlertTriangle, Layers, Download, Upload, History, Share2, GitFork } from 'lucide-react'; // Added Layers
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from '@/hooks/use-toast';
@@ -16,13 +16,20 @@ import type { BrandCourse } from '@/types/course';
 import type { User, Company } from '@/types/user';
 import { getBrandCoursesByBrandId, deleteBrandCourse } from '@/lib/brand-content-data';
 import { AddEditBrandCourseDialog } from '@/components/brand-admin/AddEditBrandCourseDialog';
+import { ExportCoursePackageDialog } from '@/components/course-packages/ExportCoursePackageDialog';
+import { ImportCoursePackageDialog } from '@/components/course-packages/ImportCoursePackageDialog';
+import { VersionHistoryDialog } from '@/components/content-versions/VersionHistoryDialog';
+import { ShareBrandCourseDialog } from '@/components/course-sharing/ShareBrandCourseDialog';
+import { ForkSharedCourseDialog } from '@/components/course-sharing/ForkSharedCourseDialog';
+import { getCoursesSharedWithBrand } from '@/lib/course-sharing-data';
+import { withDraft } from '@/lib/content-versions';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
-import { getUserByEmail } from '@/lib/user-data';
-import { getCompanyById } from '@/lib/company-data'; 
+import { getUserByEmail, getCurrentUserSummary } from '@/lib/user-data';
+import { getCompanyById, getChildBrandsByParentId } from '@/lib/company-data'; 
 import { useRouter } from 'next/navigation';
 
 const DEFAULT_ROWS_PER_PAGE = 10;
@@ -37,6 +44,13 @@ export default function BrandAdminCoursesPage() {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [courseToDelete, setCourseToDelete] = useState<BrandCourse | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [exportingCourse, setExportingCourse] = useState<BrandCourse | null>(null);
+  const [historyCourse, setHistoryCourse] = useState<BrandCourse | null>(null);
+  const [childBrands, setChildBrands] = useState<Company[]>([]);
+  const [sharedCourses, setSharedCourses] = useState<BrandCourse[]>([]);
+  const [sharingCourse, setSharingCourse] = useState<BrandCourse | null>(null);
+  const [forkingCourse, setForkingCourse] = useState<BrandCourse | null>(null);
   const { toast } = useToast();
   const router = useRouter();
 
@@ -93,9 +107,16 @@ export default function BrandAdminCoursesPage() {
     }
     setIsLoading(true);
     try {
-      const coursesData = await getBrandCoursesByBrandId(currentUser.companyId);
+      const [brandCourses, children, coursesFromParent] = await Promise.all([
+        getBrandCoursesByBrandId(currentUser.companyId),
+        getChildBrandsByParentId(currentUser.companyId),
+        getCoursesSharedWithBrand(currentBrand),
+      ]);
+      const coursesData = brandCourses.map(course => withDraft(course));
       setCourses(coursesData);
       setFilteredCourses(coursesData);
+      setChildBrands(children);
+      setSharedCourses(coursesFromParent);
     } catch (error) {
       console.error("Failed to fetch brand courses:", error);
       toast({ title: "Error", description: "Could not fetch courses.", variant: "destructive" });
@@ -104,7 +125,7 @@ export default function BrandAdminCoursesPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [isAuthorized, currentUser?.companyId, toast]);
+  }, [isAuthorized, currentUser?.companyId, currentBrand, toast]);
 
   useEffect(() => {
     if (isAuthorized) {
@@ -153,7 +174,7 @@ export default function BrandAdminCoursesPage() {
     if (!courseToDelete || !isAuthorized) return;
     setIsDeleting(true);
     try {
-      const success = await deleteBrandCourse(courseToDelete.id);
+      const success = await deleteBrandCourse(courseToDelete.id, await getCurrentUserSummary());
       if (success) {
         await fetchBrandCourses();
         toast({ title: 'Course Deleted', description: `Course "${courseToDelete.title}" deleted.` });
@@ -189,9 +210,14 @@ export default function BrandAdminCoursesPage() {
     <div className="container mx-auto">
       <div className="flex items-center justify-between mb-8">
         <h1 className="text-3xl font-bold tracking-tight text-primary">My Courses</h1>
-        <Button onClick={handleAddCourse} className="bg-accent text-accent-foreground hover:bg-accent/90">
-          <PlusCircle className="mr-2 h-4 w-4" /> Add Course
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" /> Import Course
+          </Button>
+          <Button onClick={handleAddCourse} className="bg-accent text-accent-foreground hover:bg-accent/90">
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Course
+          </Button>
+        </div>
       </div>
 
       <div className="mb-6 flex items-center gap-2">
@@ -224,7 +250,14 @@ export default function BrandAdminCoursesPage() {
                 <TableBody>
                   {paginatedCourses.map((course) => (
                     <TableRow key={course.id}>
-                      <TableCell className="font-medium">{course.title}</TableCell>
+                      <TableCell className="font-medium">
+                        {course.title}
+                        {course.draft && <Badge variant="outline" className="ml-2 border-yellow-500 text-yellow-700">Unpublished changes</Badge>}
+                        {course.approvalStatus === 'pending' && <Badge variant="outline" className="ml-2 border-blue-500 text-blue-700">In review</Badge>}
+                        {course.approvalStatus === 'changes_requested' && <Badge variant="destructive" className="ml-2">Changes requested</Badge>}
+                        {course.isApproved === false && !course.approvalStatus && <Badge variant="outline" className="ml-2">Not submitted</Badge>}
+                        {course.sharing && <Badge variant="outline" className="ml-2"><Share2 className="mr-1 h-3 w-3" />Shared</Badge>}
+                      </TableCell>
                       <TableCell><Badge variant="secondary">{course.level}</Badge></TableCell>
                       <TableCell>{course.curriculum?.length || 0}</TableCell>
                       <TableCell className="text-right">
@@ -236,6 +269,11 @@ export default function BrandAdminCoursesPage() {
                             <DropdownMenuItem asChild>
                               <Link href={`/brand-admin/courses/manage/${course.id}`}><Layers className="mr-2 h-4 w-4" />Manage Curriculum</Link>
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setExportingCourse(course)}><Download className="mr-2 h-4 w-4" />Export Package</DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setHistoryCourse(course)}><History className="mr-2 h-4 w-4" />Publishing &amp; History</DropdownMenuItem>
+                            {childBrands.length > 0 && (
+                              <DropdownMenuItem onClick={() => setSharingCourse(course)}><Share2 className="mr-2 h-4 w-4" />Share with Child Brands</DropdownMenuItem>
+                            )}
                             <DropdownMenuSeparator />
                             <DropdownMenuItem className="text-destructive focus:text-destructive focus:bg-destructive/10" onClick={() => openDeleteConfirmation(course)} disabled={isDeleting && courseToDelete?.id === course.id}>
                               {isDeleting && courseToDelete?.id === course.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Trash2 className="mr-2 h-4 w-4" />}
@@ -267,6 +305,34 @@ export default function BrandAdminCoursesPage() {
         </CardContent>
       </Card>
 
+      {sharedCourses.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Shared by Your Parent Brand</CardTitle>
+            <CardDescription>Assign these courses to your users like your own. They stay up to date with the parent brand and can&apos;t be edited here; make a copy to customize one.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader><TableRow><TableHead>Title</TableHead><TableHead>Level</TableHead><TableHead>Curriculum Items</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {sharedCourses.map((course) => (
+                  <TableRow key={course.id}>
+                    <TableCell className="font-medium">{course.title}</TableCell>
+                    <TableCell><Badge variant="secondary">{course.level}</Badge></TableCell>
+                    <TableCell>{course.curriculum?.length || 0}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => setForkingCourse(course)}>
+                        <GitFork className="mr-1 h-4 w-4" /> Make Editable Copy
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {currentUser?.companyId && (
         <AddEditBrandCourseDialog
           isOpen={isCourseDialogOpen}
@@ -281,6 +347,51 @@ export default function BrandAdminCoursesPage() {
         />
       )}
 
+      {currentUser?.companyId && (
+        <>
+          <ImportCoursePackageDialog
+            isOpen={isImportDialogOpen}
+            setIsOpen={setIsImportDialogOpen}
+            targets={[{ library: { type: 'brand', brandId: currentUser.companyId }, label: currentBrand.name }]}
+            manageCourseHref={(courseId) => `/brand-admin/courses/manage/${courseId}`}
+            onImported={() => fetchBrandCourses()}
+          />
+          <ExportCoursePackageDialog
+            isOpen={!!exportingCourse}
+            setIsOpen={(open) => { if (!open) setExportingCourse(null); }}
+            library={{ type: 'brand', brandId: currentUser.companyId }}
+            course={exportingCourse}
+          />
+        </>
+      )}
+
+      <VersionHistoryDialog
+        isOpen={!!historyCourse}
+        setIsOpen={(open) => { if (!open) setHistoryCourse(null); }}
+        itemType="brandCourse"
+        item={historyCourse}
+        onChanged={fetchBrandCourses}
+        requiresApproval={!!currentBrand?.requiresCourseApproval}
+      />
+
+      <ShareBrandCourseDialog
+        isOpen={!!sharingCourse}
+        setIsOpen={(open) => { if (!open) setSharingCourse(null); }}
+        course={sharingCourse}
+        childBrands={childBrands}
+        onChanged={fetchBrandCourses}
+      />
+
+      {currentUser?.companyId && (
+        <ForkSharedCourseDialog
+          isOpen={!!forkingCourse}
+          setIsOpen={(open) => { if (!open) setForkingCourse(null); }}
+          course={forkingCourse}
+          brandId={currentUser.companyId}
+          onForked={fetchBrandCourses}
+        />
+      )}
+
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader><AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. This will permanently delete the course "{courseToDelete?.title}". This may also affect any users assigned to this course through brand-specific enrollments.</AlertDialogDescription></AlertDialogHeader>
@@ -8,7 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { PlusCircle, MoreHorizontal, Trash2, Edit, FileText, Search, ChevronLeft, ChevronRight, Loader2, AlertTriangle } from 'lucide-react';
+import { PlusCircle, MoreHorizontal, Trash2, Edit, FileText, Search, ChevronLeft, ChevronRight, Loader2, AlertTriangle, History } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from '@/hooks/use-toast';
@@ -16,12 +16,14 @@ import type { BrandLesson } from '@/types/course';
 import type { User, Company } from '@/types/user';
 import { getBrandLessonsByBrandId, deleteBrandLessonAndCleanUp } from '@/lib/brand-content-data';
 import { AddEditBrandLessonDialog } from '@/components/brand-admin/AddEditBrandLessonDialog';
+import { VersionHistoryDialog } from '@/components/content-versions/VersionHistoryDialog';
+import { withDraft } from '@/lib/content-versions';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
-import { getUserByEmail } from '@/lib/user-data';
+import { getUserByEmail, getCurrentUserSummary } from '@/lib/user-data';
 import { getCompanyById } from '@/lib/company-data'; 
 import { useRouter } from 'next/navigation';
 
@@ -36,6 +38,7 @@ export default function BrandAdminLessonsPage() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [lessonToDelete, setLessonToDelete] = useState<BrandLesson | null>(null);
+  const [historyLesson, setHistoryLesson] = useState<BrandLesson | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const { toast } = useToast();
   const router = useRouter();
@@ -93,7 +96,7 @@ export default function BrandAdminLessonsPage() {
     }
     setIsLoading(true);
     try {
-      const lessonsData = await getBrandLessonsByBrandId(currentUser.companyId);
+      const lessonsData = (await getBrandLessonsByBrandId(currentUser.companyId)).map(lesson => withDraft(lesson));
       setLessons(lessonsData);
       setFilteredLessons(lessonsData);
     } catch (error) {
@@ -153,7 +156,7 @@ export default function BrandAdminLessonsPage() {
     if (!lessonToDelete || !isAuthorized || !currentUser?.companyId) return;
     setIsDeleting(true);
     try {
-      const success = await deleteBrandLessonAndCleanUp(lessonToDelete.id, currentUser.companyId);
+      const success = await deleteBrandLessonAndCleanUp(lessonToDelete.id, currentUser.companyId, await getCurrentUserSummary());
       if (success) {
         await fetchBrandLessons();
         toast({ title: 'Lesson Deleted', description: `Lesson "${lessonToDelete.title}" deleted.` });
@@ -224,7 +227,10 @@ export default function BrandAdminLessonsPage() {
                 <TableBody>
                   {paginatedLessons.map((lesson) => (
                     <TableRow key={lesson.id}>
-                      <TableCell className="font-medium">{lesson.title}</TableCell>
+                      <TableCell className="font-medium">
+                        {lesson.title}
+                        {lesson.draft && <Badge variant="outline" className="ml-2 border-yellow-500 text-yellow-700">Unpublished changes</Badge>}
+                      </TableCell>
                       <TableCell>{lesson.videoUrl ? <Badge variant="secondary">Yes</Badge> : 'No'}</TableCell>
                       <TableCell>{lesson.playbackTime || 'N/A'}</TableCell>
                       <TableCell className="text-right">
@@ -233,6 +239,7 @@ export default function BrandAdminLessonsPage() {
                           <DropdownMenuContent align="end">
                             <DropdownMenuLabel>Manage</DropdownMenuLabel>
                             <DropdownMenuItem onClick={() => handleEditLesson(lesson)}><Edit className="mr-2 h-4 w-4" />Edit Details</DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setHistoryLesson(lesson)}><History className="mr-2 h-4 w-4" />Publishing &amp; History</DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem className="text-destructive focus:text-destructive focus:bg-destructive/10" onClick={() => openDeleteConfirmation(lesson)} disabled={isDeleting && lessonToDelete?.id === lesson.id}>
                               {isDeleting && lessonToDelete?.id === lesson.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Trash2 className="mr-2 h-4 w-4" />} Delete Lesson
@@ -277,6 +284,15 @@ export default function BrandAdminLessonsPage() {
         />
       )}
 
+      <VersionHistoryDialog
+        isOpen={!!historyLesson}
+        setIsOpen={(open) => { if (!open) setHistoryLesson(null); }}
+        itemType="brandLesson"
+        item={historyLesson}
+        onChanged={fetchBrandLessons}
+        requiresApproval={!!currentBrand?.requiresCourseApproval}
+      />
+
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader><AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. This will permanently delete the lesson "{lessonToDelete?.title}". It will also be removed from any course curriculums it belongs to.</AlertDialogDescription></AlertDialogHeader>
@@ -9,11 +9,15 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { ArrowLeft, PlusCircle, Edit, Trash2, CheckCircle, Loader2, HelpCircle, Save, ListChecks, Wand2, Languages } from 'lucide-react';
+import { ArrowLeft, PlusCircle, Edit, Trash2, CheckCircle, Loader2, HelpCircle, Save, ListChecks, Wand2, Languages, Upload, Download, History } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import type { BrandQuiz, BrandQuestion, User, Company, QuizTranslation } from '@/types/course';
+import type { QuestionInterchangeFormat, BrandQuiz, BrandQuestion, User, Company, QuizTranslation } from '@/types/course';
 import { getBrandQuizById, deleteBrandQuestionFromBrandQuiz, updateBrandQuiz } from '@/lib/brand-content-data';
 import { AddEditBrandQuestionDialog } from '@/components/brand-admin/AddEditBrandQuestionDialog';
+import { ImportBrandQuestionsDialog } from '@/components/brand-admin/ImportBrandQuestionsDialog';
+import { VersionHistoryDialog } from '@/components/content-versions/VersionHistoryDialog';
+import { withDraft } from '@/lib/content-versions';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -28,6 +32,7 @@ import { onAuthStateChanged } from 'firebase/auth';
 import { getUserByEmail } from '@/lib/user-data';
 import { getCompanyById } from '@/lib/company-data';
 import { translateContent } from '@/ai/flows/translate-content';
+import { exportQuestions, QUESTION_FORMAT_LABELS } from '@/lib/question-interchange';
 
 const SUPPORTED_LOCALES = [
   { value: 'es', label: 'Spanish' },
@@ -61,9 +66,11 @@ export default function ManageBrandQuizQuestionsPage() {
   const [quiz, setQuiz] = useState<BrandQuiz | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isAddQuestionDialogOpen, setIsAddQuestionDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [questionToDelete, setQuestionToDelete] = useState<BrandQuestion | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
   const [isTranslating, setIsTranslating] = useState<Record<string, boolean>>({});
 
   const form = useForm<EditBrandQuizFormValues>({
@@ -90,7 +97,7 @@ export default function ManageBrandQuizQuestionsPage() {
       setIsAuthorized(true);
 
       if (!brandQuizId) throw new Error("Quiz ID missing");
-      const fetchedQuiz = await getBrandQuizById(brandQuizId);
+      const fetchedQuiz = withDraft(await getBrandQuizById(brandQuizId));
       if (!fetchedQuiz || fetchedQuiz.brandId !== userDetails.companyId) {
         throw new Error("Quiz not found or you do not have permission to edit it.");
       }
@@ -129,7 +136,7 @@ export default function ManageBrandQuizQuestionsPage() {
       });
       if (updatedQuiz) {
         setQuiz(prev => prev ? { ...prev, title: updatedQuiz.title, translations: updatedQuiz.translations } : null);
-        toast({ title: "Quiz Updated", description: "The quiz details have been saved." });
+        toast({ title: "Draft Saved", description: "The quiz details were saved as a draft. Publish them to make them live." });
       } else {
         throw new Error("Failed to update quiz");
       }
@@ -179,6 +186,20 @@ export default function ManageBrandQuizQuestionsPage() {
     }
   };
   
+  const handleExportQuestions = (format: QuestionInterchangeFormat) => {
+    if (!quiz) return;
+    const { fileName, blob, skipped } = exportQuestions(format, quiz.questions, quiz.title);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    if (skipped > 0) {
+      toast({ title: 'Export Incomplete', description: `${skipped} question${skipped === 1 ? '' : 's'} could not be represented in ${QUESTION_FORMAT_LABELS[format]} and ${skipped === 1 ? 'was' : 'were'} left out.` });
+    }
+  };
+
   const openDeleteConfirmation = (question: BrandQuestion) => {
     setQuestionToDelete(question);
     setIsDeleteDialogOpen(true);
@@ -204,9 +225,23 @@ export default function ManageBrandQuizQuestionsPage() {
 
   return (
     <div className="container mx-auto p-4 md:p-6 lg:p-8">
-      <Button variant="outline" onClick={() => router.push('/brand-admin/quizzes')} className="mb-6">
-        <ArrowLeft className="mr-2 h-4 w-4" /> Back to My Quizzes
-      </Button>
+      <div className="flex items-center justify-between mb-6">
+        <Button variant="outline" onClick={() => router.push('/brand-admin/quizzes')}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to My Quizzes
+        </Button>
+        <Button variant="outline" onClick={() => setIsHistoryDialogOpen(true)}>
+          <History className="mr-2 h-4 w-4" /> Publishing &amp; History
+        </Button>
+      </div>
+
+      {quiz.draft && (
+        <Alert className="mb-6 border-yellow-500">
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+            <span>This quiz has unpublished changes. Learners see the published version until you publish.</span>
+            <Button size="sm" onClick={() => setIsHistoryDialogOpen(true)}>Review &amp; Publish</Button>
+          </AlertDescription>
+        </Alert>
+      )}
 
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onTitleSubmit)} className="space-y-8">
@@ -247,19 +282,36 @@ export default function ManageBrandQuizQuestionsPage() {
       <Card className="mt-8">
         <CardHeader className="flex flex-row items-center justify-between">
           <div><CardTitle className="flex items-center gap-2"><ListChecks className="h-5 w-5"/> Questions ({quiz.questions.length})</CardTitle><CardDescription>Add, edit, or remove questions for this quiz.</CardDescription></div>
-          <Button onClick={() => setIsAddQuestionDialogOpen(true)} className="bg-accent text-accent-foreground hover:bg-accent/90"><PlusCircle className="mr-2 h-4 w-4"/> Add Question</Button>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}><Upload className="mr-2 h-4 w-4" /> Import</Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={quiz.questions.length === 0}><Download className="mr-2 h-4 w-4" /> Export</Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {(Object.keys(QUESTION_FORMAT_LABELS) as QuestionInterchangeFormat[]).map(format => (
+                  <DropdownMenuItem key={format} onClick={() => handleExportQuestions(format)}>{QUESTION_FORMAT_LABELS[format]}</DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button onClick={() => setIsAddQuestionDialogOpen(true)} className="bg-accent text-accent-foreground hover:bg-accent/90">
+              <PlusCircle className="mr-2 h-4 w-4" /> Add Question
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {quiz.questions.length === 0 ? (<div className="text-center text-muted-foreground py-8">No questions added yet.</div>) : (
             <Table>
               <TableHeader><TableRow><TableHead>Question Text</TableHead><TableHead>Type</TableHead><TableHead>Correct Answer(s)</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
-              <TableBody>{quiz.questions.map((q, idx) => (<TableRow key={q.id || idx}><TableCell className="font-medium max-w-md truncate">{q.text}</TableCell><TableCell><Badge variant="outline" className="capitalize">{q.type.replace('-', ' ')}</Badge></TableCell><TableCell><Badge variant="secondary" className="flex items-center gap-1 w-fit whitespace-normal"><CheckCircle className="h-3 w-3 text-green-600"/> <span className="break-all">{q.type === 'multiple-select' ? (q.correctAnswers || []).join(', ') : q.correctAnswer}</span></Badge></TableCell><TableCell className="text-right"><Button variant="ghost" size="sm" asChild className="mr-1"><Link href={`/brand-admin/quizzes/manage/${brandQuizId}/${q.id}/edit`}><Edit className="h-4 w-4 mr-1"/> Edit</Link></Button><Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => openDeleteConfirmation(q)}><Trash2 className="h-4 w-4 mr-1"/> Remove</Button></TableCell></TableRow>))}</TableBody>
+              <TableBody>{quiz.questions.map((q, idx) => (<TableRow key={q.id || idx}><TableCell className="font-medium max-w-md truncate">{q.text}</TableCell><TableCell><Badge variant="outline" className="capitalize">{q.type.replace('-', ' ')}</Badge></TableCell><TableCell><Badge variant="secondary" className="flex items-center gap-1 w-fit whitespace-normal"><CheckCircle className="h-3 w-3 text-green-600"/> <span className="break-all">{q.type === 'multiple-select' ? (q.correctAnswers || []).join(', ') : q.type === 'ordering' ? (q.correctAnswers || q.options || []).join(' → ') : q.type === 'short-answer' ? (q.acceptedAnswers || []).join(' / ') : q.type === 'matching' ? (q.matchingPairs || []).map(pair => `${pair.prompt} → ${pair.match}`).join(', ') : q.correctAnswer}</span></Badge></TableCell><TableCell className="text-right"><Button variant="ghost" size="sm" asChild className="mr-1"><Link href={`/brand-admin/quizzes/manage/${brandQuizId}/${q.id}/edit`}><Edit className="h-4 w-4 mr-1"/> Edit</Link></Button><Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => openDeleteConfirmation(q)}><Trash2 className="h-4 w-4 mr-1"/> Remove</Button></TableCell></TableRow>))}</TableBody>
             </Table>
           )}
         </CardContent>
       </Card>
       
       <AddEditBrandQuestionDialog isOpen={isAddQuestionDialogOpen} setIsOpen={setIsAddQuestionDialogOpen} brandQuizId={brandQuizId} initialData={null} onQuestionSaved={fetchQuizAndAuthorize} />
+      <ImportBrandQuestionsDialog isOpen={isImportDialogOpen} setIsOpen={setIsImportDialogOpen} brandQuizId={brandQuizId} onQuestionsImported={fetchQuizAndAuthorize} />
+      <VersionHistoryDialog isOpen={isHistoryDialogOpen} setIsOpen={setIsHistoryDialogOpen} itemType="brandQuiz" item={quiz} onChanged={fetchQuizAndAuthorize} />
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent><AlertDialogHeader><AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle><AlertDialogDescription>This will permanently delete the question: "{questionToDelete?.text.substring(0, 50)}...".</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter><AlertDialogCancel onClick={() => setQuestionToDelete(null)}>Cancel</AlertDialogCancel><AlertDialogAction onClick={confirmDeleteQuestion} className="bg-destructive hover:bg-destructive/90">Yes, delete question</AlertDialogAction></AlertDialogFooter></AlertDialogContent>
       </AlertDialog>
@@ -8,7 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { PlusCircle, MoreHorizontal, Trash2, Edit, HelpCircle, ListChecks, Search, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { PlusCircle, MoreHorizontal, Trash2, Edit, HelpCircle, ListChecks, Search, ChevronLeft, ChevronRight, Loader2, Settings, History } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from '@/hooks/use-toast';
@@ -16,12 +16,14 @@ import type { BrandQuiz } from '@/types/course';
 import type { User, Company } from '@/types/user';
 import { getBrandQuizzesByBrandId, deleteBrandQuizAndCleanUp } from '@/lib/brand-content-data';
 import { AddEditBrandQuizDialog } from '@/components/brand-admin/AddEditBrandQuizDialog';
+import { VersionHistoryDialog } from '@/components/content-versions/VersionHistoryDialog';
+import { withDraft } from '@/lib/content-versions';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
-import { getUserByEmail } from '@/lib/user-data';
+import { getUserByEmail, getCurrentUserSummary } from '@/lib/user-data';
 import { getCompanyById } from '@/lib/company-data'; 
 import { useRouter } from 'next/navigation';
 
@@ -36,6 +38,7 @@ export default function BrandAdminQuizzesPage() {
   const [editingQuiz, setEditingQuiz] = useState<BrandQuiz | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [quizToDelete, setQuizToDelete] = useState<BrandQuiz | null>(null);
+  const [historyQuiz, setHistoryQuiz] = useState<BrandQuiz | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const { toast } = useToast();
   const router = useRouter();
@@ -86,7 +89,7 @@ export default function BrandAdminQuizzesPage() {
     }
     setIsLoading(true);
     try {
-      const quizzesData = await getBrandQuizzesByBrandId(currentUser.companyId);
+      const quizzesData = (await getBrandQuizzesByBrandId(currentUser.companyId)).map(quiz => withDraft(quiz));
       setQuizzes(quizzesData);
       setFilteredQuizzes(quizzesData);
     } catch (error) {
@@ -117,13 +120,14 @@ export default function BrandAdminQuizzesPage() {
   }, [filteredQuizzes, currentPage, rowsPerPage]);
 
   const handleAddQuiz = () => { if (!isAuthorized) return; setEditingQuiz(null); setIsQuizDialogOpen(true); };
+  const handleEditQuizSettings = (quiz: BrandQuiz) => { if (!isAuthorized) return; setEditingQuiz(quiz); setIsQuizDialogOpen(true); };
   const openDeleteConfirmation = (quiz: BrandQuiz) => { if (!isAuthorized) return; setQuizToDelete(quiz); setIsDeleteDialogOpen(true); };
 
   const confirmDelete = async () => {
     if (!quizToDelete || !isAuthorized || !currentUser?.companyId) return;
     setIsDeleting(true);
     try {
-      await deleteBrandQuizAndCleanUp(quizToDelete.id, currentUser.companyId);
+      await deleteBrandQuizAndCleanUp(quizToDelete.id, currentUser.companyId, await getCurrentUserSummary());
       await fetchBrandQuizzes();
       toast({ title: 'Quiz Deleted', description: `Quiz "${quizToDelete.title}" deleted.` });
     } catch (error) {
@@ -173,7 +177,10 @@ export default function BrandAdminQuizzesPage() {
                 <TableBody>
                   {paginatedQuizzes.map((quiz) => (
                     <TableRow key={quiz.id}>
-                      <TableCell className="font-medium">{quiz.title}</TableCell>
+                      <TableCell className="font-medium">
+                        {quiz.title}
+                        {quiz.draft && <Badge variant="outline" className="ml-2 border-yellow-500 text-yellow-700">Unpublished changes</Badge>}
+                      </TableCell>
                       <TableCell className="text-center"><Badge variant="secondary">{quiz.questionCount ?? 0}</Badge></TableCell>
                       <TableCell className="text-right">
                         <DropdownMenu>
@@ -181,6 +188,8 @@ export default function BrandAdminQuizzesPage() {
                           <DropdownMenuContent align="end">
                             <DropdownMenuLabel>Manage</DropdownMenuLabel>
                             <DropdownMenuItem asChild><Link href={`/brand-admin/quizzes/manage/${quiz.id}`}><Edit className="mr-2 h-4 w-4" />Edit Quiz & Questions</Link></DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleEditQuizSettings(quiz)}><Settings className="mr-2 h-4 w-4" />Quiz Settings</DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setHistoryQuiz(quiz)}><History className="mr-2 h-4 w-4" />Publishing &amp; History</DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem className="text-destructive focus:text-destructive focus:bg-destructive/10" onClick={() => openDeleteConfirmation(quiz)} disabled={isDeleting && quizToDelete?.id === quiz.id}>
                               {isDeleting && quizToDelete?.id === quiz.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Trash2 className="mr-2 h-4 w-4" />} Delete Quiz
@@ -216,11 +225,20 @@ export default function BrandAdminQuizzesPage() {
           isOpen={isQuizDialogOpen}
           setIsOpen={setIsQuizDialogOpen}
           brandId={currentUser.companyId}
-          initialData={null}
-          onQuizSaved={(savedQuiz) => { fetchBrandQuizzes(); setIsQuizDialogOpen(false); }}
+          initialData={editingQuiz}
+          onQuizSaved={(savedQuiz) => { fetchBrandQuizzes(); setIsQuizDialogOpen(false); setEditingQuiz(null); }}
         />
       )}
 
+      <VersionHistoryDialog
+        isOpen={!!historyQuiz}
+        setIsOpen={(open) => { if (!open) setHistoryQuiz(null); }}
+        itemType="brandQuiz"
+        item={historyQuiz}
+        onChanged={fetchBrandQuizzes}
+        requiresApproval={!!currentBrand?.requiresCourseApproval}
+      />
+
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader><AlertDialogTitle>Are you sure?</AlertDialogTitle><AlertDialogDescription>This will permanently delete the quiz "{quizToDelete?.title}" and all its questions. It will also be removed from any course curriculums.</AlertDialogDescription></AlertDialogHeader>
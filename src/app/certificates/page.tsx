@@ -1 +1,6 @@
-// This file is intentionally left blank. The page is being moved to /achievements.
+import { redirect } from 'next/navigation';
+
+// Certificates are listed on the achievements page; older notification and help links still point here.
+export default function CertificatesPage() {
+    redirect('/achievements');
+}
@@ -8,14 +8,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter }
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Skeleton } from '@/components/ui/skeleton';
-import { BookOpen, PlayCircle, Eye } from 'lucide-react';
+import { BookOpen, PlayCircle, Eye, Lock, CalendarClock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import type { Course, BrandCourse } from '@/types/course';
+import type { Course, BrandCourse, CourseLock } from '@/types/course';
 import type { User, UserCourseProgressData } from '@/types/user';
 import { getUserByEmail, getUserCourseProgress } from '@/lib/user-data';
 import { getCourseById, getAllPrograms } from '@/lib/firestore-data'; 
 import { getBrandCourseById, getBrandCoursesByBrandId } from '@/lib/brand-content-data'; 
+import { isBrandCourseVisibleToLearners } from '@/lib/course-review-data';
 import { getCompanyById } from '@/lib/company-data'; 
+import { getCourseLocksForUser } from '@/lib/program-path';
+import { getCourseDueState, describeDueState, formatDueDate } from '@/lib/due-dates';
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
 import { cn } from '@/lib/utils';
@@ -26,6 +29,7 @@ type CourseWithProgress = (Course | BrandCourse) & {
   status: "Not Started" | "Started" | "In Progress" | "Completed";
   completedItems: string[];
   lastUpdated?: string | null; 
+  lock?: CourseLock | null;
 };
 
 
@@ -65,6 +69,7 @@ export default function MyCoursesPage() {
     setIsLoadingCourses(true);
     try {
       let effectiveAssignedCourseIds = new Set<string>(currentUser.assignedCourseIds || []);
+      const programPathCourseIds: string[] = []; // Program courses in learning path order
 
       if (currentUser.companyId) {
         const brand = await getCompanyById(currentUser.companyId);
@@ -72,12 +77,15 @@ export default function MyCoursesPage() {
           const allPrograms = await getAllPrograms();
           const brandPrograms = allPrograms.filter(p => brand.assignedProgramIds!.includes(p.id));
           brandPrograms.forEach(program => {
-            (program.courseIds || []).forEach(courseId => effectiveAssignedCourseIds.add(courseId));
+            (program.courseIds || []).forEach(courseId => {
+              effectiveAssignedCourseIds.add(courseId);
+              programPathCourseIds.push(courseId);
+            });
           });
         }
         if (brand && brand.canManageCourses) {
             const brandCreatedCourses = await getBrandCoursesByBrandId(brand.id);
-            brandCreatedCourses.forEach(bc => effectiveAssignedCourseIds.add(bc.id));
+            brandCreatedCourses.filter(isBrandCourseVisibleToLearners).forEach(bc => effectiveAssignedCourseIds.add(bc.id));
         }
       }
       
@@ -101,6 +109,7 @@ export default function MyCoursesPage() {
           console.warn(`Course (global or brand) with ID ${courseId} not found or is deleted.`);
           return null;
         }
+        if ('brandId' in courseDetails && !isBrandCourseVisibleToLearners(courseDetails)) return null;
         
         const progressData = await getUserCourseProgress(currentUser.id, courseId);
         return {
@@ -112,8 +121,16 @@ export default function MyCoursesPage() {
         } as CourseWithProgress; 
       });
 
-      const coursesWithProgressData = (await Promise.all(courseProgressPromises))
-        .filter(Boolean) as CourseWithProgress[];
+      const [coursesWithProgressData, courseLocks] = await Promise.all([
+        Promise.all(courseProgressPromises).then(courses => courses.filter(Boolean) as CourseWithProgress[]),
+        getCourseLocksForUser(currentUser, uniqueCourseIds),
+      ]);
+      coursesWithProgressData.forEach(course => { course.lock = courseLocks[course.id] || null; });
+      const pathPosition = (courseId: string) => {
+        const position = programPathCourseIds.indexOf(courseId);
+        return position === -1 ? programPathCourseIds.length : position;
+      };
+      coursesWithProgressData.sort((a, b) => pathPosition(a.id) - pathPosition(b.id));
 
       setAssignedCoursesWithProgress(coursesWithProgressData);
 
@@ -169,9 +186,11 @@ export default function MyCoursesPage() {
         <div className="flex flex-wrap justify-center gap-6">
           {assignedCoursesWithProgress.map((course) => {
             const isCompleted = course.status === 'Completed';
+            const isLocked = !!course.lock;
+            const dueState = currentUser ? getCourseDueState(currentUser, course.id) : null;
             const imageUrl = course.featuredImageUrl || (course as Course).imageUrl || `https://placehold.co/600x350.png?text=${encodeURIComponent(course.title)}`;
             return (
-              <Card key={course.id} className="card-lift-hover flex flex-col overflow-hidden w-full sm:w-[calc(50%-1.5rem)] lg:w-[calc(33.333%-1.5rem)]">
+              <Card key={course.id} className={cn("card-lift-hover flex flex-col overflow-hidden w-full sm:w-[calc(50%-1.5rem)] lg:w-[calc(33.333%-1.5rem)]", isLocked && "opacity-75")}>
                 <CardHeader className="p-0">
                   <div className="relative aspect-video w-full">
                     <Image
@@ -187,6 +206,11 @@ export default function MyCoursesPage() {
                         target.src = `https://placehold.co/600x350.png?text=${encodeURIComponent(course.title)}`;
                       }}
                     />
+                    {isLocked && (
+                      <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                        <Lock className="h-10 w-10 text-muted-foreground" />
+                      </div>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent className="flex flex-col flex-grow p-4 space-y-3">
@@ -199,15 +223,31 @@ export default function MyCoursesPage() {
                       </div>
                        <Progress value={course.progress} aria-label={`${course.title} progress ${course.progress}%`} className="h-2" />
                        <p className="text-xs text-muted-foreground">Status: {course.status}</p>
+                       {dueState && (
+                         <p className={cn("text-xs flex items-center gap-1", dueState.isOverdue ? "font-semibold text-destructive" : "text-muted-foreground")}>
+                           <CalendarClock className="h-3 w-3 flex-shrink-0" /> Due {formatDueDate(dueState.dueDate)} · {describeDueState(dueState)}
+                         </p>
+                       )}
+                       {isLocked && (
+                         <p className="text-xs font-medium text-muted-foreground flex items-start gap-1 pt-1">
+                           <Lock className="h-3 w-3 mt-0.5 flex-shrink-0" /> {course.lock!.reason} ({course.lock!.programTitle})
+                         </p>
+                       )}
                    </div>
                 </CardContent>
                  <CardFooter className="p-4 pt-0">
+                   {isLocked ? (
+                     <Button className="w-full" variant="outline" disabled>
+                       <Lock className="h-4 w-4 mr-2" /> Locked
+                     </Button>
+                   ) : (
                    <Button asChild className={cn("w-full", isCompleted ? "bg-secondary hover:bg-secondary/80 text-secondary-foreground" : "bg-primary hover:bg-primary/90")}>
                       <Link href={`/learn/${course.id}`}>
                            {isCompleted ? ( <span className='flex items-center gap-2'> <Eye className="h-4 w-4" /> View Course </span> )
                                         : ( <span className='flex items-center gap-2'> <PlayCircle className="h-4 w-4" /> {course.status === 'Not Started' ? 'Start Learning' : 'Continue Learning'} </span> )}
                       </Link>
                    </Button>
+                   )}
                 </CardFooter>
               </Card>
             );
@@ -3,11 +3,13 @@
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Users, TrendingUp, Award, UserCheck, BookOpen, MapPin, Building, Activity, ChevronLeft, ChevronRight, Loader2, Layers, Info, ShieldCheck, PlusCircle } from "lucide-react";
+import { Users, MapPin, Building, Activity, ChevronLeft, ChevronRight, Loader2, Layers, Info, ShieldCheck, PlusCircle, Network } from "lucide-react";
 import { EmployeeTable } from "@/components/dashboard/EmployeeTable";
+import { ExpiringCertificationsCard } from "@/components/dashboard/ExpiringCertificationsCard";
 import type { User, Company, Location, UserRole } from '@/types/user';
 import type { Course, BrandCourse, Program } from '@/types/course';
 import type { ActivityLog } from '@/types/activity';
+import type { LearningMetricsScope } from '@/types/analytics';
 import { getUserByEmail, toggleUserStatus, getAllUsers as fetchAllSystemUsers, getUserOverallProgress, getUsersByCompanyId } from '@/lib/user-data';
 import { getCompanyById, getLocationsByCompanyId, getAllLocations as fetchAllSystemLocations, getAllCompanies as fetchAllAccessibleBrandsForUser } from '@/lib/company-data';
 import { getAllCourses as getAllLibraryCourses, getCourseById as fetchGlobalCourseById, getAllPrograms as fetchAllGlobalPrograms } from '@/lib/firestore-data';
@@ -23,8 +25,7 @@ import { onAuthStateChanged } from 'firebase/auth';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useRouter } from 'next/navigation';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { StatCard } from '@/components/dashboard/StatCard';
-import { format, subDays } from 'date-fns';
+import { LearningMetricsPanel } from '@/components/dashboard/LearningMetricsPanel';
 import Link from 'next/link';
 
 const DEFAULT_ROWS_PER_PAGE = 5;
@@ -38,30 +39,6 @@ type EmployeeWithOverallProgress = User & {
     overallStatus: "Not Started" | "Started" | "In Progress" | "Completed";
 };
 
-// Helper function to generate mock chart data
-const generateChartData = (baseValue: number, max: number = 100) => {
-    if (baseValue === 0) {
-        return Array(30).fill(null).map((_, i) => ({
-            date: format(subDays(new Date(), 29 - i), 'MMM d'),
-            value: 0
-        }));
-    }
-    const data = [];
-    let currentValue = baseValue * 0.8; // Start at 80% of the final value
-    const today = new Date();
-    for (let i = 29; i >= 0; i--) { // Iterate from 29 days ago to today
-        const fluctuation = (Math.random() - 0.45) * (currentValue * 0.1); // Fluctuate by up to 10%
-        currentValue += fluctuation + (baseValue * 0.2 / 30); // Add a small upward trend
-        
-        const date = subDays(today, i);
-        data.push({ 
-            date: format(date, 'MMM d'),
-            value: Math.max(0, Math.min(max, Math.round(currentValue))) 
-        });
-    }
-    return data;
-};
-
 export default function DashboardPage() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [userPrimaryBrand, setUserPrimaryBrand] = useState<Company | null>(null);
@@ -236,7 +213,13 @@ export default function DashboardPage() {
   const paginatedInactiveEmployees = useMemo(() => rowsPerPage === 'all' ? inactiveEmployees : inactiveEmployees.slice((inactiveCurrentPage - 1) * currentRowsPerPage, inactiveCurrentPage * currentRowsPerPage), [inactiveEmployees, inactiveCurrentPage, currentRowsPerPage]);
   const totalActiveFiltered = activeEmployees.length;
   const avgCompletion = totalActiveFiltered > 0 ? Math.round(activeEmployees.reduce((sum, emp) => sum + emp.overallProgress, 0) / totalActiveFiltered) : 0;
-  const certificatesIssued = useMemo(() => activeEmployees.reduce((count, emp) => count + Object.values(emp.courseProgress || {}).filter(p => p?.status === 'Completed').length, 0), [activeEmployees]);
+
+  // Learning metrics are kept per brand and per location: the selected location, the selected brand, or every brand in view
+  const learningMetricsScopes = useMemo<LearningMetricsScope[]>(() => {
+    if (selectedLocationId && selectedLocationId !== 'all') return [{ type: 'location', id: selectedLocationId }];
+    if (selectedBrandIdForDashboard && selectedBrandIdForDashboard !== 'all') return [{ type: 'brand', id: selectedBrandIdForDashboard }];
+    return viewableBrandsForFilter.map(brand => ({ type: 'brand' as const, id: brand.id }));
+  }, [selectedLocationId, selectedBrandIdForDashboard, viewableBrandsForFilter]);
 
   const handleRowsPerPageChange = (value: string) => {
     if (value === 'all') setRowsPerPage('all'); else setRowsPerPage(parseInt(value, 10));
@@ -261,6 +244,9 @@ export default function DashboardPage() {
       <div className="flex items-center justify-between space-y-2">
         <div> <h1 className="text-3xl font-bold text-primary">{displayBrandNameForTitle} Dashboard</h1> <p className="text-muted-foreground flex items-center gap-2"> <MapPin className="h-4 w-4" /> {displayLocationName ? `Viewing: ${displayLocationName}` : 'Overview'} </p> 
         </div>
+        {(currentUser.role === 'Super Admin' || currentUser.role === 'Admin' || currentUser.role === 'Owner') && (
+          <Button variant="outline" asChild><Link href="/admin/hierarchy-report"><Network className="mr-2 h-4 w-4" /> Group Report</Link></Button>
+        )}
       </div>
       <div className="flex flex-wrap items-end gap-4 mb-6 p-4 bg-secondary rounded-lg shadow-sm">
         <h2 className="text-lg font-semibold mr-4 self-center text-foreground">Filters:</h2>
@@ -282,48 +268,13 @@ export default function DashboardPage() {
           </div>
         <Button variant="outline" onClick={() => { setSelectedBrandIdForDashboard(userPrimaryBrand?.id || (currentUser?.role === 'Super Admin' ? 'all' : '')); setSelectedLocationId('all');}} className="h-10 self-end" disabled={isLoadingBrandDataForFilters}>Reset</Button>
       </div>
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <StatCard
-          title="Active Team Members"
-          value={isLoadingEmployees ? <Loader2 className="h-6 w-6 animate-spin"/> : totalActiveFiltered}
-          description={`${inactiveEmployees.length} inactive`}
-          icon={UserCheck}
-          chartData={generateChartData(totalActiveFiltered)}
-          chartColor="hsl(var(--chart-1))"
-          change="+2.5%"
-          changeVariant="default"
-        />
-        <StatCard
-          title="Avg. Completion"
-          value={isLoadingEmployees ? <Loader2 className="h-6 w-6 animate-spin"/> : `${avgCompletion}%`}
-          description="Overall for active team members"
-          icon={TrendingUp}
-          chartData={generateChartData(avgCompletion, 100)}
-          chartColor="hsl(var(--chart-2))"
-          change="+1.8%"
-          changeVariant="default"
-        />
-        <StatCard
-          title="Certificates Issued"
-          value={isLoadingEmployees ? <Loader2 className="h-6 w-6 animate-spin"/> : `+${certificatesIssued}`}
-          description="Total completions"
-          icon={Award}
-          chartData={generateChartData(certificatesIssued)}
-          chartColor="hsl(var(--chart-3))"
-          change="-0.5%"
-          changeVariant="destructive"
-        />
-        <Card className="card-lift-hover">
-            <CardHeader className="flex flex-row items-center justify-between pb-2">
-                <CardTitle className="text-sm font-medium">Assignable Courses</CardTitle>
-                <BookOpen className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-                <div className="text-2xl font-bold">N/A</div>
-                <p className="text-xs text-muted-foreground">Contextual count</p>
-                <div className="h-20 mt-4"></div>
-            </CardContent>
-        </Card>
+      <LearningMetricsPanel
+        scopes={learningMetricsScopes}
+        activeTeamMembers={totalActiveFiltered}
+        avgCompletion={avgCompletion}
+      />
+      <div className="pt-6">
+        {isLoadingEmployees ? null : <ExpiringCertificationsCard employees={activeEmployees} baseEditPath="/dashboard/users" />}
       </div>
       <div className="flex flex-col space-y-4 pt-6"> <Card className="card-lift-hover"> <CardHeader> <CardTitle>Team Management</CardTitle> </CardHeader>
           <CardContent> <Tabs defaultValue="active" className="w-full"> <TabsList className="grid w-full grid-cols-2 mb-4"> <TabsTrigger value="active">Active ({activeEmployees.length})</TabsTrigger> <TabsTrigger value="inactive">Inactive ({inactiveEmployees.length})</TabsTrigger> </TabsList>
@@ -19,16 +19,18 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { useToast } from '@/hooks/use-toast';
 import type { User, UserRole, Company, Location, UserFormData, UserCourseProgressData } from '@/types/user';
 import type { Course, BrandCourse, Program, Quiz, BrandQuiz } from '@/types/course';
-import { getUserById, updateUser, toggleUserCourseAssignments, getUserByEmail as fetchUserByEmail } from '@/lib/user-data';
+import { getUserById, updateUser, toggleUserCourseAssignments, setCourseDueDates, getUserByEmail as fetchUserByEmail } from '@/lib/user-data';
 import { getCompanyById, getLocationsByCompanyId, getAllCompanies as fetchAllAccessibleBrandsForUser, getAllLocations } from '@/lib/company-data';
 import { getAllCourses as getAllGlobalCourses, getCourseById as fetchGlobalCourseById, getAllPrograms as fetchAllGlobalPrograms, getAllQuizzes, getQuizById as fetchGlobalQuizById } from '@/lib/firestore-data';
 import { getBrandCoursesByBrandId, getBrandQuizzesByBrandId, getBrandQuizById } from '@/lib/brand-content-data';
+import { getCoursesSharedWithBrand } from '@/lib/course-sharing-data';
 import { Skeleton } from '@/components/ui/skeleton';
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
-import { ArrowLeft, User as UserIcon, Building, MapPin, BookOpen, BarChart3, Save, Loader2, AlertCircle, Clock, ListChecks } from 'lucide-react';
+import { ArrowLeft, User as UserIcon, Building, MapPin, BookOpen, CalendarClock, BarChart3, Save, Loader2, AlertCircle, Clock, ListChecks } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from '@/components/ui/badge';
+import { getCourseDueState, describeDueState, formatDueDate } from '@/lib/due-dates';
 
 const ROLE_HIERARCHY: Record<UserRole, number> = {
   'Super Admin': 5, 'Admin': 4, 'Owner': 3, 'Manager': 2, 'Staff': 1,
@@ -57,6 +59,7 @@ export default function DashboardEditUserPage() {
   const [allQuizzesMap, setAllQuizzesMap] = useState<Map<string, Quiz | BrandQuiz>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [newAssignmentDueDate, setNewAssignmentDueDate] = useState(''); // YYYY-MM-DD, empty for no deadline
 
   const form = useForm<EditUserFormValues>({
     resolver: zodResolver(editUserFormSchema),
@@ -163,6 +166,7 @@ export default function DashboardEditUserPage() {
         if (brandForContext.canManageCourses) {
           courses.push(...await getBrandCoursesByBrandId(brandForContext.id));
         }
+        courses.push(...await getCoursesSharedWithBrand(brandForContext));
       } else if (targetUser.role === 'Super Admin' && currentUserSession.role === 'Super Admin') {
         courses.push(...await getAllGlobalCourses());
       }
@@ -178,6 +182,13 @@ export default function DashboardEditUserPage() {
             if (!quizzesMap.has(bq.id)) quizzesMap.set(bq.id, bq);
         });
       }
+      // Quizzes in courses shared by the parent brand
+      if (brandForContext?.parentBrandId) {
+        const parentQuizzes = await getBrandQuizzesByBrandId(brandForContext.parentBrandId);
+        parentQuizzes.forEach(bq => {
+            if (!quizzesMap.has(bq.id)) quizzesMap.set(bq.id, bq);
+        });
+      }
       setAllQuizzesMap(quizzesMap);
 
 
@@ -243,7 +254,7 @@ export default function DashboardEditUserPage() {
     const isAssigned = userToEdit.assignedCourseIds?.includes(courseId);
     const action = isAssigned ? 'unassign' : 'assign';
     try {
-      const updatedUser = await toggleUserCourseAssignments(userToEdit.id, [courseId], action);
+      const updatedUser = await toggleUserCourseAssignments(userToEdit.id, [courseId], action, newAssignmentDueDate || null);
       if (updatedUser) {
         setUserToEdit(updatedUser);
         toast({ title: `Course ${action === 'assign' ? 'Assigned' : 'Unassigned'}`, description: `Course successfully ${action}ed.` });
@@ -253,6 +264,21 @@ export default function DashboardEditUserPage() {
     }
   };
 
+  const handleSetDueDate = async (courseIds: string[], dueDate: string | null) => {
+    if (!userToEdit || courseIds.length === 0) return;
+    try {
+      await setCourseDueDates([userToEdit.id], courseIds, dueDate);
+      const updatedUser = await getUserById(userToEdit.id);
+      if (updatedUser) setUserToEdit(updatedUser);
+      toast({
+        title: dueDate ? "Due Date Set" : "Due Date Cleared",
+        description: dueDate ? `${courseIds.length} course${courseIds.length === 1 ? ' is' : 's are'} now due ${formatDueDate(dueDate)}.` : `${courseIds.length} course${courseIds.length === 1 ? '' : 's'} no longer ha${courseIds.length === 1 ? 's' : 've'} a due date.`,
+      });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to update the due date.", variant: "destructive" });
+    }
+  };
+
   const formatTimeSpent = (seconds?: number): string => {
     if (seconds === undefined || seconds === null || seconds < 0) return 'N/A';
     const h = Math.floor(seconds / 3600);
@@ -265,6 +291,10 @@ export default function DashboardEditUserPage() {
     return <div className="container mx-auto p-6"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>;
   }
 
+  const isOutsideManagerLocations = currentUserSession.role === 'Manager'
+    && !(currentUserSession.assignedLocationIds || []).some(locId => (userToEdit.assignedLocationIds || []).includes(locId))
+    && userToEdit.id !== currentUserSession.id;
+
   const canChangeRole = currentUserSession.id !== userToEdit.id &&
                        (currentUserSession.role === 'Super Admin' ? userToEdit.role !== 'Super Admin' :
                         (currentUserSession.role === 'Admin' || currentUserSession.role === 'Owner') ? ROLE_HIERARCHY[currentUserSession.role] > ROLE_HIERARCHY[userToEdit.role] :
@@ -350,28 +380,56 @@ export default function DashboardEditUserPage() {
             <CardHeader><CardTitle className="flex items-center gap-2"><BookOpen className="h-5 w-5" /> Assigned Courses</CardTitle></CardHeader>
             <CardContent>
               {assignableCourses.length === 0 ? <p className="text-sm text-muted-foreground">No courses available for assignment for this brand's context.</p> :
+                <>
+                <div className="mb-4 space-y-2">
+                  <Label htmlFor="assignment-due-date" className="text-sm">Due Date</Label>
+                  <div className="flex items-center gap-2">
+                    <Input id="assignment-due-date" type="date" value={newAssignmentDueDate} onChange={(e) => setNewAssignmentDueDate(e.target.value)} className="h-8 w-40" />
+                    <Button type="button" variant="outline" size="sm" disabled={!userToEdit.assignedCourseIds?.length || isOutsideManagerLocations} onClick={() => handleSetDueDate(userToEdit.assignedCourseIds || [], newAssignmentDueDate || null)}>
+                      {newAssignmentDueDate ? 'Apply to All Assigned' : 'Clear All Due Dates'}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">Courses you tick below are due on this date. Leave it empty for no deadline.</p>
+                </div>
                 <ScrollArea className="h-80">
                   <div className="space-y-2">
-                    {assignableCourses.map(course => (
-                      <div key={course.id} className="flex items-center justify-between p-2 border rounded-md">
-                        <Label htmlFor={`course-${course.id}`} className="text-sm font-medium flex-1 cursor-pointer">{course.title} <Badge variant="outline" className="ml-2 text-xs">{course.level}</Badge></Label>
-                        <Checkbox
-                          id={`course-${course.id}`}
-                          checked={userToEdit.assignedCourseIds?.includes(course.id) || false}
-                          onCheckedChange={() => handleToggleCourseAssignment(course.id)}
-                          disabled={
-                            currentUserSession.role === 'Manager' && !(currentUserSession.assignedLocationIds || []).some(locId => (userToEdit.assignedLocationIds || []).includes(locId)) && userToEdit.id !== currentUserSession.id
-                          }
-                          title={
-                            currentUserSession.role === 'Manager' && !(currentUserSession.assignedLocationIds || []).some(locId => (userToEdit.assignedLocationIds || []).includes(locId)) && userToEdit.id !== currentUserSession.id
-                              ? "Managers can only assign courses to team members in their own locations."
-                              : ""
-                          }
-                        />
+                    {assignableCourses.map(course => {
+                      const isAssigned = userToEdit.assignedCourseIds?.includes(course.id) || false;
+                      const dueDate = userToEdit.courseDueDates?.[course.id] || '';
+                      const dueState = isAssigned ? getCourseDueState(userToEdit, course.id) : null;
+                      return (
+                      <div key={course.id} className="p-2 border rounded-md space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor={`course-${course.id}`} className="text-sm font-medium flex-1 cursor-pointer">{course.title} <Badge variant="outline" className="ml-2 text-xs">{course.level}</Badge></Label>
+                          <Checkbox
+                            id={`course-${course.id}`}
+                            checked={isAssigned}
+                            onCheckedChange={() => handleToggleCourseAssignment(course.id)}
+                            disabled={isOutsideManagerLocations}
+                            title={isOutsideManagerLocations ? "Managers can only assign courses to team members in their own locations." : ""}
+                          />
+                        </div>
+                        {isAssigned && (
+                          <div className="flex items-center gap-2">
+                            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                            <Input
+                              key={dueDate}
+                              type="date"
+                              defaultValue={dueDate}
+                              onBlur={(e) => { if (e.target.value !== dueDate) handleSetDueDate([course.id], e.target.value || null); }}
+                              className="h-8 w-40 text-xs"
+                              aria-label={`Due date for ${course.title}`}
+                              disabled={isOutsideManagerLocations}
+                            />
+                            {dueState && <Badge variant={dueState.isOverdue ? 'destructive' : 'secondary'} className="text-xs whitespace-nowrap">{describeDueState(dueState)}</Badge>}
+                          </div>
+                        )}
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </ScrollArea>
+                </>
               }
             </CardContent>
           </Card>
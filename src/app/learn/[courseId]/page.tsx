@@ -10,34 +10,60 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle as DialogUITitle, DialogDescription as DialogUIDescription } from '@/components/ui/dialog';
 import { Progress } from "@/components/ui/progress";
-import { CheckCircle, Lock, PlayCircle, FileText, HelpCircle, ChevronLeft, ChevronRight, Menu, Award, MousePointerClick, Video as VideoIcon } from 'lucide-react';
+import { CheckCircle, Lock, PlayCircle, FileText, HelpCircle, ChevronLeft, ChevronRight, ChevronDown, Menu, Award, MousePointerClick, Video as VideoIcon, Clock, Package } from 'lucide-react';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { getCourseById, getLessonById, getQuizById } from '@/lib/firestore-data';
 import { getBrandCourseById, getBrandLessonById, getBrandQuizById } from '@/lib/brand-content-data';
-import type { Course, Lesson, Quiz, BrandCourse, BrandLesson, BrandQuiz } from '@/types/course';
+import { isBrandCourseVisibleToLearners } from '@/lib/course-review-data';
+import type { Course, Lesson, Quiz, BrandCourse, BrandLesson, BrandQuiz, QuizAnswerValue, CourseLock, LessonTimedEvent, ScormRuntimeData } from '@/types/course';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { auth } from '@/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
-import { getUserByEmail, getUserCourseProgress, updateEmployeeProgress, updateUserVideoProgress } from '@/lib/user-data';
+import { getUserByEmail, getUserCourseProgress, markCourseOpened, updateEmployeeProgress, updateUserVideoProgress } from '@/lib/user-data';
+import { startQuizAttempt, submitQuizAttempt } from '@/actions/quiz';
+import { saveScormProgress } from '@/actions/scorm';
+import { recordLearningEvent } from '@/actions/xapi';
+import type { XapiLearningEventRequest } from '@/types/xapi';
 import { getCompanyById } from '@/lib/company-data';
+import { getCourseLocksForUser } from '@/lib/program-path';
+import { getCourseAssignedAt, getCurriculumItemAvailableAt, formatTimeUntil } from '@/lib/drip-schedule';
+import { getCourseItemIds, getCourseModules, getModuleProgress } from '@/lib/curriculum-modules';
+import { buildCheckpointQuiz } from '@/lib/timed-events';
 import type { User, UserCourseProgressData, Company } from '@/types/user';
-import { QuizTaking } from '@/components/learn/QuizTaking';
+import { QuizTaking, type QuizAttemptSession, type QuizGradedResult } from '@/components/learn/QuizTaking';
+import { VideoCaptionsPanel } from '@/components/learn/VideoCaptionsPanel';
+import { ScormPlayer } from '@/components/learn/ScormPlayer';
+import { isScormLessonComplete } from '@/lib/scorm';
+import { useCaptionTracks } from '@/hooks/use-caption-tracks';
+import { useHlsPlayback } from '@/hooks/use-hls-playback';
 import { CourseCertificate } from '@/components/learn/CourseCertificate';
+import { getCompletionExpiry } from '@/lib/recertification';
+import { getPublishedVersion } from '@/lib/content-versions';
+import { getCertificateTemplateById } from '@/lib/certificate-template-data';
+import type { CertificateTemplate } from '@/types/certificate';
 import { cn } from '@/lib/utils';
 import type { Timestamp } from 'firebase/firestore';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useToast } from '@/hooks/use-toast';
 
 type CurriculumDisplayItem = {
     id: string;
     type: 'lesson' | 'quiz' | 'brandLesson' | 'brandQuiz';
-    data: Lesson | Quiz | BrandLesson | BrandQuiz & { timedEvents?: Array<{ timestamp: number; type: 'quiz'; quizId: string; eventId: string }> };
+    data: Lesson | Quiz | BrandLesson | BrandQuiz;
 };
 
 const SCRUB_TOLERANCE = 2; // seconds
 const SAVE_PROGRESS_INTERVAL = 5000; // 5 seconds
 
+// Sent to the brand's LRS, if it has one, without holding up the player
+const reportLearningEvent = (request: XapiLearningEventRequest) => {
+    recordLearningEvent(request)
+        .then(result => { if (!result.success) console.error(`Failed to record '${request.verb}' learning event:`, result.error); })
+        .catch(error => console.error(`Failed to record '${request.verb}' learning event:`, error));
+};
+
 export default function LearnCoursePage() {
     const params = useParams();
     const router = useRouter();
@@ -46,6 +72,7 @@ export default function LearnCoursePage() {
 
     const [course, setCourse] = useState<Course | BrandCourse | null>(null);
     const [certificateBrandDetails, setCertificateBrandDetails] = useState<Company | null>(null);
+    const [certificateTemplate, setCertificateTemplate] = useState<CertificateTemplate | null>(null);
     const [currentUser, setCurrentUser] = useState<User | null>(null);
     const [userBrandDetails, setUserBrandDetails] = useState<Company | null>(null);
     const [curriculumItems, setCurriculumItems] = useState<CurriculumDisplayItem[]>([]);
@@ -56,11 +83,15 @@ export default function LearnCoursePage() {
     const [isSidebarOpen, setIsSidebarOpen] = useState(false);
     const [completedItemIds, setCompletedItemIds] = useState<string[]>([]);
     const [isVideoWatched, setIsVideoWatched] = useState(false);
+    const [isScormCompleted, setIsScormCompleted] = useState(false);
     const videoRef = useRef<HTMLVideoElement>(null);
     const [showCertificateDialog, setShowCertificateDialog] = useState(false);
     const [hasShownInitialCertificate, setHasShownInitialCertificate] = useState(false);
     const [isBrandSpecificCourse, setIsBrandSpecificCourse] = useState(false);
     const [isMounted, setIsMounted] = useState(false);
+    const [courseLock, setCourseLock] = useState<CourseLock | null>(null);
+    const [now, setNow] = useState(() => Date.now()); // Drives drip countdowns
+    const [collapsedModuleIds, setCollapsedModuleIds] = useState<string[]>([]);
 
     const [highestWatchedTime, setHighestWatchedTime] = useState(0);
     const [lastSavedVideoTime, setLastSavedVideoTime] = useState<number | null>(null);
@@ -69,6 +100,7 @@ export default function LearnCoursePage() {
     // State for timed quizzes
     const [showTimedQuizModal, setShowTimedQuizModal] = useState(false);
     const [currentTimedQuizData, setCurrentTimedQuizData] = useState<Quiz | BrandQuiz | null>(null);
+    const [currentTimedEvent, setCurrentTimedEvent] = useState<LessonTimedEvent | null>(null);
     const [triggeredEventIds, setTriggeredEventIds] = useState<Set<string>>(new Set());
     const [isLoadingTimedQuiz, setIsLoadingTimedQuiz] = useState(false);
 
@@ -76,6 +108,9 @@ export default function LearnCoursePage() {
     const isCurrentUserOnTrial = !!userBrandDetails?.isTrial;
 
     const userLocale = currentUser?.preferredLocale || 'en';
+    const captionTracks = useCaptionTracks(isVideoLesson ? (currentContentItem.data as Lesson | BrandLesson).captions : null);
+    const currentVideoLesson = isVideoLesson ? (currentContentItem.data as Lesson | BrandLesson) : null;
+    useHlsPlayback(videoRef, currentVideoLesson?.videoAsset?.hlsUrl, currentVideoLesson?.videoUrl);
 
     useEffect(() => {
         setIsMounted(true);
@@ -94,10 +129,13 @@ export default function LearnCoursePage() {
         return () => unsubscribe();
     }, [router]);
 
-    const loadCourseData = useCallback(async (userId: string, userCompanyId?: string | null) => {
+    const loadCourseData = useCallback(async (user: User) => {
         if (!courseId) { setIsLoading(false); return; }
+        const userId = user.id;
+        const userCompanyId = user.companyId;
         setIsLoading(true);
         setHasShownInitialCertificate(false);
+        setCourseLock(null);
         try {
             let fetchedCourseData: Course | BrandCourse | null = null;
             let isBrandCourse = false;
@@ -122,6 +160,19 @@ export default function LearnCoursePage() {
                     toast({ title: "Course Unavailable", description: "This course is no longer available.", variant: "destructive" });
                     router.push('/courses/my-courses'); setIsLoading(false); return;
                 }
+                // Brand admins and reviewers can open a course that is still waiting for approval
+                const canPreviewUnapproved = user.role === 'Super Admin' || user.role === 'Admin' || user.role === 'Owner';
+                if (isBrandCourse && !isBrandCourseVisibleToLearners(fetchedCourseData as BrandCourse) && !canPreviewUnapproved) {
+                    toast({ title: "Course Unavailable", description: "This course hasn't been approved yet.", variant: "destructive" });
+                    router.push('/courses/my-courses'); setIsLoading(false); return;
+                }
+
+                // Program prerequisites also apply to direct links, not just the my-courses page
+                const lock = (await getCourseLocksForUser(user, [courseId]))[courseId];
+                if (lock) {
+                    setCourseLock(lock);
+                    setIsLoading(false); return;
+                }
 
                 let brandIdForCertificate: string | null = null;
                 if (isBrandCourse && (fetchedCourseData as BrandCourse).brandId) brandIdForCertificate = (fetchedCourseData as BrandCourse).brandId;
@@ -133,14 +184,16 @@ export default function LearnCoursePage() {
                 } else {
                     setCertificateBrandDetails(null);
                 }
+                setCertificateTemplate(await getCertificateTemplateById(fetchedCourseData.certificateTemplateId));
 
                 const allItemsMap = new Map<string, CurriculumDisplayItem>();
-                for (const prefixedId of (fetchedCourseData.curriculum || [])) {
+                const courseItemIds = getCourseItemIds(fetchedCourseData);
+                for (const prefixedId of courseItemIds) {
                     const [typePrefix, id] = prefixedId.split('-');
                     let itemData: Lesson | Quiz | BrandLesson | BrandQuiz | null = null;
                     let itemType: CurriculumDisplayItem['type'] = typePrefix as CurriculumDisplayItem['type'];
                     if (isBrandCourse) {
-                        if (typePrefix === 'brandLesson') itemData = await getBrandLessonById(id);
+                        if (typePrefix === 'brandLesson') itemData = await getBrandLessonById(id, userLocale);
                         else if (typePrefix === 'brandQuiz') itemData = await getBrandQuizById(id, userLocale);
                         else { 
                             if (typePrefix === 'lesson') itemData = await getLessonById(id, userLocale); // Pass locale
@@ -154,7 +207,7 @@ export default function LearnCoursePage() {
                     }
                     if (itemData) allItemsMap.set(prefixedId, { id: prefixedId, type: itemType, data: itemData as CurriculumDisplayItem['data'] });
                 }
-                const orderedItems = (fetchedCourseData.curriculum || []).map(id => allItemsMap.get(id)).filter(Boolean) as CurriculumDisplayItem[];
+                const orderedItems = courseItemIds.map(id => allItemsMap.get(id)).filter(Boolean) as CurriculumDisplayItem[];
                 setCurriculumItems(orderedItems);
 
                 const progressData = await getUserCourseProgress(userId, courseId);
@@ -173,6 +226,8 @@ export default function LearnCoursePage() {
                 }
                 setCurrentContentItem(orderedItems[initialItemIndex] || null);
                 setCurrentIndex(initialItemIndex);
+                reportLearningEvent({ userId, courseId, verb: 'launched', locale: user.preferredLocale });
+                markCourseOpened(userId, courseId).catch(error => console.error("Failed to record that the course was opened:", error));
 
             } else {
                 toast({ title: "Error", description: "Course not found.", variant: "destructive" });
@@ -188,12 +243,26 @@ export default function LearnCoursePage() {
 
     useEffect(() => {
         if (currentUser?.id) {
-            loadCourseData(currentUser.id, currentUser.companyId);
+            loadCourseData(currentUser);
         }
     }, [currentUser, courseId, loadCourseData]);
 
     const isCourseCompleted = userProgressData?.status === "Completed";
 
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const courseAssignedAtTime = currentUser ? getCourseAssignedAt(currentUser, courseId)?.getTime() ?? null : null;
+
+    // When a drip-scheduled item opens, or null if it is already available
+    const getItemOpensAt = useCallback((itemId: string): Date | null => {
+        if (isCourseCompleted || completedItemIds.includes(itemId)) return null;
+        const opensAt = getCurriculumItemAvailableAt(course?.curriculumAvailability?.[itemId], courseAssignedAtTime !== null ? new Date(courseAssignedAtTime) : null);
+        return opensAt && opensAt.getTime() > now ? opensAt : null;
+    }, [course, courseAssignedAtTime, completedItemIds, isCourseCompleted, now]);
+
     useEffect(() => {
         setIsVideoWatched(false);
         setHighestWatchedTime(0);
@@ -223,6 +292,29 @@ export default function LearnCoursePage() {
     }, [currentContentItem, userProgressData, completedItemIds]);
 
 
+    const currentItemId = currentContentItem?.id;
+    useEffect(() => {
+        if (currentUser?.id && currentItemId && (currentItemId.startsWith('lesson-') || currentItemId.startsWith('brandLesson-'))) {
+            reportLearningEvent({ userId: currentUser.id, courseId, verb: 'experienced', itemId: currentItemId, locale: userLocale });
+        }
+    }, [currentUser?.id, courseId, currentItemId]);
+
+    useEffect(() => { // Only on item change; SCORM commits update it directly
+        setIsScormCompleted(!!currentItemId && isScormLessonComplete(userProgressData?.scormData?.[currentItemId]));
+    }, [currentItemId]);
+
+    const handleScormCommit = useCallback(async (data: ScormRuntimeData, sessionEnded: boolean, sessionStartedAt: string) => {
+        if (!currentUser?.id || !currentItemId) return;
+        const result = await saveScormProgress({ userId: currentUser.id, courseId, itemId: currentItemId, data, sessionEnded, sessionStartedAt, locale: userLocale });
+        if (!result.success || !result.data) {
+            console.error("Failed to save SCORM progress:", result.error);
+            return;
+        }
+        const savedData = result.data;
+        setUserProgressData(prev => prev ? { ...prev, scormData: { ...prev.scormData, [currentItemId]: savedData } } : prev);
+        if (result.isComplete) setIsScormCompleted(true);
+    }, [currentUser?.id, courseId, currentItemId, userLocale]);
+
     const saveCurrentVideoProgress = useCallback(async (timeToSave?: number) => {
         if (!isMounted || !currentUser?.id || !courseId || !currentContentItem || !isVideoLesson) return;
         const videoElement = videoRef.current;
@@ -243,7 +335,8 @@ export default function LearnCoursePage() {
 
     const handleItemCompletion = useCallback(async (itemIdToComplete: string): Promise<boolean> => {
         if (!currentUser?.id || !courseId || !itemIdToComplete) return false;
-        const overallIndex = curriculumItems.findIndex(item => item.id === itemIdToComplete);
+        // Progress is recorded by the item's position in the full course, which includes items that failed to load here
+        const overallIndex = course ? getCourseItemIds(course).indexOf(itemIdToComplete) : -1;
         if (overallIndex === -1) return false;
 
         if (!completedItemIds.includes(itemIdToComplete) || isCourseCompleted) {
@@ -253,6 +346,9 @@ export default function LearnCoursePage() {
                 setUserProgressData(updatedProgressData);
                 setCompletedItemIds(updatedProgressData.completedItems || []);
 
+                if (updatedProgressData.status === "Completed" && !isCourseCompleted) {
+                    reportLearningEvent({ userId: currentUser.id, courseId, verb: 'completed', locale: userLocale });
+                }
                 if (updatedProgressData.status === "Completed" && !isCourseCompleted && !hasShownInitialCertificate) {
                     toast({ title: "Course Complete!", description: `Congratulations on finishing ${course?.title}!`, variant: "success", duration: 7000 });
                     setShowCertificateDialog(true); 
@@ -266,9 +362,10 @@ export default function LearnCoursePage() {
         } else {
             return true;
         }
-    }, [currentUser?.id, courseId, curriculumItems, toast, isCourseCompleted, hasShownInitialCertificate, course?.title, completedItemIds]);
+    }, [currentUser?.id, courseId, course, toast, isCourseCompleted, hasShownInitialCertificate, completedItemIds, userLocale]);
 
     const isItemLocked = useCallback((itemIndex: number) => {
+        if (curriculumItems[itemIndex] && getItemOpensAt(curriculumItems[itemIndex].id)) return true;
         if (isCurrentUserOnTrial) return false;
         if (isCourseCompleted) return false; 
         if (itemIndex === 0) return false;
@@ -276,9 +373,14 @@ export default function LearnCoursePage() {
             if (!completedItemIds.includes(curriculumItems[i].id)) return true;
         }
         return false;
-    }, [completedItemIds, curriculumItems, isCourseCompleted, isCurrentUserOnTrial]);
+    }, [completedItemIds, curriculumItems, isCourseCompleted, isCurrentUserOnTrial, getItemOpensAt]);
 
     const handleContentSelection = (item: CurriculumDisplayItem, index: number) => {
+        const opensAt = getItemOpensAt(item.id);
+        if (opensAt && currentContentItem?.id !== item.id) {
+            toast({ title: "Not Available Yet", description: `"${item.data.title}" opens in ${formatTimeUntil(opensAt, now)}.`, variant: "default" });
+            return;
+        }
         if (isItemLocked(index) && !completedItemIds.includes(item.id) && currentContentItem?.id !== item.id) {
             toast({ title: "Locked Content", description: "Please complete the previous items first.", variant: "default" });
             return;
@@ -290,8 +392,11 @@ export default function LearnCoursePage() {
         if (!currentUser?.id) return;
         const nextItemIndex = currentIndex + 1;
         if (nextItemIndex < curriculumItems.length) {
+            const nextOpensAt = getItemOpensAt(curriculumItems[nextItemIndex].id);
             if (!isItemLocked(nextItemIndex) || isCourseCompleted) {
                 setCurrentContentItem(curriculumItems[nextItemIndex]); setCurrentIndex(nextItemIndex);
+            } else if (nextOpensAt) {
+                toast({ title: "Next Item Not Available Yet", description: `It opens in ${formatTimeUntil(nextOpensAt, now)}.`, variant: "default" });
             } else {
                 toast({ title: "Next Item Locked", description: "Complete the current item to proceed.", variant: "default" });
             }
@@ -309,7 +414,7 @@ export default function LearnCoursePage() {
                  }
             }
         }
-    }, [currentIndex, curriculumItems, isItemLocked, toast, currentUser, courseId, course?.title, hasShownInitialCertificate, isCourseCompleted]);
+    }, [currentIndex, curriculumItems, isItemLocked, getItemOpensAt, now, toast, currentUser, courseId, course?.title, hasShownInitialCertificate, isCourseCompleted]);
 
 
     const handleMainActionClick = async () => {
@@ -332,6 +437,9 @@ export default function LearnCoursePage() {
                 if (hasVideo && !isVideoWatched && !isCurrentUserOnTrial) {
                     toast({ title: "Video Not Watched", description: "Please watch the entire video.", variant: "default"}); return;
                 }
+                if (lessonData.lessonType === 'scorm' && !isScormCompleted && !isCurrentUserOnTrial) {
+                    toast({ title: "Module Not Finished", description: "Please complete the module above.", variant: "default"}); return;
+                }
                 if (await handleItemCompletion(currentContentItem.id)) {
                     if (isLastItem) { 
                         const finalProgress = await getUserCourseProgress(currentUser.id, courseId);
@@ -371,9 +479,61 @@ export default function LearnCoursePage() {
         }
     };
 
+    const handleQuizStart = async (quizId: string): Promise<QuizAttemptSession | null> => {
+        if (!currentUser?.id || !courseId || !currentContentItem) return null;
+        const quizType = currentContentItem.type === 'brandQuiz' ? 'brandQuiz' : 'quiz';
+        const quizVersion = getPublishedVersion(currentContentItem.data as Quiz | BrandQuiz);
+        try {
+            const result = await startQuizAttempt({ userId: currentUser.id, courseId, quizId, quizType, locale: userLocale, quizVersion });
+            if (!result.success || !result.attemptId || !result.settings) {
+                toast({ title: "Cannot Start Quiz", description: result.error || "Could not start the quiz. Please try again.", variant: "destructive" });
+                return null;
+            }
+            return {
+                attemptId: result.attemptId,
+                attemptNumber: result.attemptNumber ?? 1,
+                expiresAt: result.expiresAt ?? null,
+                settings: result.settings,
+                questionIds: result.questionIds ?? null,
+                optionOrder: result.optionOrder ?? null,
+                questions: result.questions ?? null,
+            };
+        } catch (error) {
+            console.error("Failed to start quiz attempt:", error);
+            toast({ title: "Cannot Start Quiz", description: "Could not start the quiz. Please try again.", variant: "destructive" });
+            return null;
+        }
+    };
+
+    const handleQuizSubmit = async (quizId: string, answers: Record<string, QuizAnswerValue>, attemptId: string | null): Promise<QuizGradedResult | null> => {
+        if (!currentUser?.id || !attemptId) return null;
+        try {
+            const result = await submitQuizAttempt({ attemptId, userId: currentUser.id, answers });
+            if (!result.success) {
+                toast({ title: "Submission Failed", description: result.error || "Could not submit your quiz. Please try again.", variant: "destructive" });
+                return null;
+            }
+            (result.newBadges || []).forEach(badge => toast({ title: "Badge Earned!", description: `You earned the "${badge.name}" badge.` }));
+            return {
+                score: result.score ?? 0,
+                passed: !!result.passed,
+                incorrectQuestionNumbers: result.incorrectQuestionNumbers || [],
+                timedOut: result.timedOut,
+                attemptsRemaining: result.attemptsRemaining,
+                retryAvailableAt: result.retryAvailableAt,
+                answers: result.answers,
+            };
+        } catch (error) {
+            console.error("Failed to submit quiz attempt:", error);
+            toast({ title: "Submission Failed", description: "Could not submit your quiz. Please try again.", variant: "destructive" });
+            return null;
+        }
+    };
+
     const handleTimedQuizComplete = async (timedQuizId: string, score: number, passed: boolean) => {
         setShowTimedQuizModal(false);
         setCurrentTimedQuizData(null);
+        setCurrentTimedEvent(null);
         if (videoRef.current && videoRef.current.paused) {
             videoRef.current.play().catch(err => console.warn("Failed to auto-resume video:", err));
         }
@@ -406,7 +566,7 @@ export default function LearnCoursePage() {
             const duration = videoRef.current.duration;
 
             // Timed events logic
-            const lessonData = currentContentItem.data as (Lesson | BrandLesson & { timedEvents?: Array<{ timestamp: number; type: 'quiz'; quizId: string; eventId: string }> });
+            const lessonData = currentContentItem.data as Lesson | BrandLesson;
             if (lessonData.timedEvents && !showTimedQuizModal) {
                 for (const event of lessonData.timedEvents) {
                     if (currentTime >= event.timestamp && !triggeredEventIds.has(event.eventId)) {
@@ -414,20 +574,32 @@ export default function LearnCoursePage() {
                              videoRef.current.pause();
                         }
                         setTriggeredEventIds(prev => new Set(prev).add(event.eventId));
+                        if (event.type === 'question') { // Inline questions are stored on the lesson, no fetch needed
+                            const checkpointQuiz = buildCheckpointQuiz(event);
+                            if (checkpointQuiz) {
+                                setCurrentTimedEvent(event);
+                                setCurrentTimedQuizData(checkpointQuiz);
+                                setShowTimedQuizModal(true);
+                            }
+                            break;
+                        }
+                        if (!event.quizId) break;
+                        const timedQuizId = event.quizId;
                         setIsLoadingTimedQuiz(true);
                         try {
                             let quizData: Quiz | BrandQuiz | null = null;
                             // Determine if it's a global quiz or brand quiz based on current course type
                             if (isBrandSpecificCourse || currentContentItem.type === 'brandLesson') { // Assume timed quizzes for brand lessons are brand quizzes
-                                quizData = await getBrandQuizById(event.quizId, userLocale);
+                                quizData = await getBrandQuizById(timedQuizId, userLocale);
                             } else {
-                                quizData = await getQuizById(event.quizId, userLocale);
+                                quizData = await getQuizById(timedQuizId, userLocale);
                             }
                             if (quizData) {
+                                setCurrentTimedEvent(event);
                                 setCurrentTimedQuizData(quizData);
                                 setShowTimedQuizModal(true);
                             } else {
-                                console.warn(`Timed quiz with ID ${event.quizId} not found.`);
+                                console.warn(`Timed quiz with ID ${timedQuizId} not found.`);
                                 toast({ title: "Error", description: "Could not load timed quiz.", variant: "destructive"});
                             }
                         } catch (err) {
@@ -511,6 +683,7 @@ export default function LearnCoursePage() {
 
     const getButtonState = () => {
         if (!currentContentItem) return { text: "Loading...", disabled: true, variant: "default" as const };
+        if (getItemOpensAt(currentContentItem.id)) return { text: "Not Available Yet", disabled: true, variant: "secondary" as const };
         const isCurrentItemCompleted = completedItemIds.includes(currentContentItem.id);
         const isLastItem = currentIndex === curriculumItems.length - 1;
         
@@ -518,13 +691,14 @@ export default function LearnCoursePage() {
             const lessonData = currentContentItem.data as (Lesson | BrandLesson);
             const hasVideo = !!lessonData.videoUrl;
             const videoCompletionRequired = hasVideo && !isVideoWatched && !isCurrentItemCompleted && !isCourseCompleted && !isCurrentUserOnTrial;
+            const scormCompletionRequired = lessonData.lessonType === 'scorm' && !isScormCompleted && !isCurrentItemCompleted && !isCourseCompleted && !isCurrentUserOnTrial;
 
             if (isCourseCompleted) return { text: isLastItem ? "View Certificate" : "Next Item", disabled: false, variant: "outline" as const };
             if (isCurrentItemCompleted) return { text: isLastItem ? "Finish & View Certificate" : "Next Item", disabled: false, variant: "outline" as const };
             return {
                 text: isLastItem ? "Mark Complete & Finish" : "Mark Complete & Next",
-                disabled: videoCompletionRequired,
-                title: videoCompletionRequired ? "Please watch the video to enable completion." : undefined,
+                disabled: videoCompletionRequired || scormCompletionRequired,
+                title: videoCompletionRequired ? "Please watch the video to enable completion." : scormCompletionRequired ? "Please complete the module to enable completion." : undefined,
                 variant: "default" as const
             };
         }
@@ -544,34 +718,60 @@ export default function LearnCoursePage() {
         if (!currentContentItem && curriculumItems.length === 0 && isMounted) return <div className="p-6 text-center">This course has no content yet.</div>;
         if (!isMounted || !currentContentItem) return ( <div className="p-6 text-center"> <Skeleton className="h-8 w-1/2 mx-auto mb-4" /> <Skeleton className="aspect-video w-full my-6 rounded-lg" /> <Skeleton className="h-4 w-full my-2" /> <Skeleton className="h-4 w-5/6 my-2" /> </div> );
 
+        const currentItemOpensAt = getItemOpensAt(currentContentItem.id);
+        if (currentItemOpensAt) return ( <div className="p-6 text-center flex flex-col items-center justify-center h-full"> <Clock className="h-12 w-12 text-primary mb-4" /> <h2 className="text-xl font-semibold mb-2">{currentContentItem.data.title}</h2> <p className="text-muted-foreground">This item opens in {formatTimeUntil(currentItemOpensAt, now)}, on {currentItemOpensAt.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}.</p> </div> );
+
         const { type, data } = currentContentItem;
         const itemData = data as Lesson | BrandLesson | Quiz | BrandQuiz;
         const isCurrentItemCompletedForDisplay = completedItemIds.includes(currentContentItem.id);
 
         if (type === 'lesson' || type === 'brandLesson') {
             const lesson = itemData as (Lesson | BrandLesson);
-            return ( <div className="p-4 md:p-6 lg:p-8 space-y-6"> {lesson.featuredImageUrl && ( <div className="relative aspect-video mb-6"> <Image src={lesson.featuredImageUrl} alt={`Featured image for ${lesson.title}`} fill style={{ objectFit: 'cover' }} className="rounded-lg shadow-md" priority data-ai-hint="lesson image"/> </div> )} <h2 className="text-2xl md:text-3xl font-bold text-primary">{lesson.title}</h2> {lesson.videoUrl && ( <div className="aspect-video bg-muted rounded-lg flex items-center justify-center text-muted-foreground mb-6 shadow overflow-hidden"> {lesson.videoUrl.includes('youtube.com') || lesson.videoUrl.includes('youtu.be') ? ( <iframe width="100%" height="100%" src={`https://www.youtube.com/embed/${lesson.videoUrl.split('v=')[1]?.split('&')[0] || lesson.videoUrl.split('/').pop()}`} title="YouTube video player" frameBorder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share" referrerPolicy="strict-origin-when-cross-origin" allowFullScreen></iframe> ) : lesson.videoUrl.includes('vimeo.com') ? ( <iframe src={`https://player.vimeo.com/video/${lesson.videoUrl.split('/').pop()}`} width="100%" height="100%" frameBorder="0" allow="autoplay; fullscreen; picture-in-picture" allowFullScreen></iframe> ) : ( <video ref={videoRef} controls src={lesson.videoUrl} className="w-full h-full object-contain" preload="metadata" onContextMenu={(e) => e.preventDefault()}> Your browser does not support the video tag. </video> )} </div> )} {!!lesson.videoUrl && !isVideoWatched && !isCourseCompleted && !isCurrentItemCompletedForDisplay && !isCurrentUserOnTrial && ( <div className="p-3 bg-yellow-100 border border-yellow-300 text-yellow-700 rounded-md text-sm flex items-center gap-2"> <VideoIcon className="h-5 w-5" /> Please watch the video to the end to enable completion. </div> )} <div className="prose prose-lg max-w-none text-foreground dark:prose-invert" dangerouslySetInnerHTML={{ __html: lesson.content || '' }} /> {lesson.exerciseFilesInfo && ( <Card className="mt-6 bg-secondary"><CardHeader><CardTitle className="text-lg flex items-center gap-2"><FileText className="h-5 w-5" /> Exercise Files</CardTitle></CardHeader> <CardContent><ul className="list-disc pl-5 space-y-1 text-sm">{lesson.exerciseFilesInfo.split('\n').map((file, index) => {const trimmedFile = file.trim(); if (!trimmedFile) return null; const isUrl = trimmedFile.startsWith('http://') || trimmedFile.startsWith('https://'); return (<li key={index}>{isUrl ? (<a href={trimmedFile} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">{trimmedFile.split('/').pop() || trimmedFile}</a>) : (<span className="text-muted-foreground">{trimmedFile}</span>)}</li>);})}</ul></CardContent></Card>)} </div> );
+            if (lesson.lessonType === 'scorm') {
+                return (
+                    <div className="p-4 md:p-6 lg:p-8 space-y-6">
+                        <h2 className="text-2xl md:text-3xl font-bold text-primary">{lesson.title}</h2>
+                        {lesson.scormPackage ? (
+                            <ScormPlayer key={`${currentContentItem.id}-${lesson.scormPackage.id}`} scormPackage={lesson.scormPackage} learner={{ id: currentUser.id, name: currentUser.name }} initialData={userProgressData?.scormData?.[currentContentItem.id]} onCommit={handleScormCommit} />
+                        ) : (
+                            <p className="text-muted-foreground">This lesson's SCORM package is missing.</p>
+                        )}
+                        {!isScormCompleted && !isCourseCompleted && !isCurrentItemCompletedForDisplay && !isCurrentUserOnTrial && (
+                            <div className="p-3 bg-yellow-100 border border-yellow-300 text-yellow-700 rounded-md text-sm flex items-center gap-2"> <Package className="h-5 w-5" /> Please complete the module to enable completion. </div>
+                        )}
+                        <div className="prose prose-lg max-w-none text-foreground dark:prose-invert" dangerouslySetInnerHTML={{ __html: lesson.content || '' }} />
+                    </div>
+                );
+            }
+            return ( <div className="p-4 md:p-6 lg:p-8 space-y-6"> {lesson.featuredImageUrl && ( <div className="relative aspect-video mb-6"> <Image src={lesson.featuredImageUrl} alt={`Featured image for ${lesson.title}`} fill style={{ objectFit: 'cover' }} className="rounded-lg shadow-md" priority data-ai-hint="lesson image"/> </div> )} <h2 className="text-2xl md:text-3xl font-bold text-primary">{lesson.title}</h2> {lesson.videoUrl && ( <div className="aspect-video bg-muted rounded-lg flex items-center justify-center text-muted-foreground mb-6 shadow overflow-hidden"> {lesson.videoUrl.includes('youtube.com') || lesson.videoUrl.includes('youtu.be') ? ( <iframe width="100%" height="100%" src={`https://www.youtube.com/embed/${lesson.videoUrl.split('v=')[1]?.split('&')[0] || lesson.videoUrl.split('/').pop()}`} title="YouTube video player" frameBorder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share" referrerPolicy="strict-origin-when-cross-origin" allowFullScreen></iframe> ) : lesson.videoUrl.includes('vimeo.com') ? ( <iframe src={`https://player.vimeo.com/video/${lesson.videoUrl.split('/').pop()}`} width="100%" height="100%" frameBorder="0" allow="autoplay; fullscreen; picture-in-picture" allowFullScreen></iframe> ) : ( <video ref={videoRef} controls src={lesson.videoAsset?.hlsUrl ? undefined : lesson.videoUrl} poster={lesson.videoAsset?.posterUrl || undefined} className="w-full h-full object-contain" preload="metadata" onContextMenu={(e) => e.preventDefault()}> {captionTracks.map(track => <track key={track.src} kind="captions" src={track.src} srcLang={track.locale} label={track.label} />)} Your browser does not support the video tag. </video> )} </div> )} {lesson.videoUrl && !/youtube\.com|youtu\.be|vimeo\.com/.test(lesson.videoUrl) && <VideoCaptionsPanel videoRef={videoRef} tracks={captionTracks} defaultLocale={userLocale} />} {!!lesson.videoUrl && !isVideoWatched && !isCourseCompleted && !isCurrentItemCompletedForDisplay && !isCurrentUserOnTrial && ( <div className="p-3 bg-yellow-100 border border-yellow-300 text-yellow-700 rounded-md text-sm flex items-center gap-2"> <VideoIcon className="h-5 w-5" /> Please watch the video to the end to enable completion. </div> )} <div className="prose prose-lg max-w-none text-foreground dark:prose-invert" dangerouslySetInnerHTML={{ __html: lesson.content || '' }} /> {lesson.exerciseFilesInfo && ( <Card className="mt-6 bg-secondary"><CardHeader><CardTitle className="text-lg flex items-center gap-2"><FileText className="h-5 w-5" /> Exercise Files</CardTitle></CardHeader> <CardContent><ul className="list-disc pl-5 space-y-1 text-sm">{lesson.exerciseFilesInfo.split('\n').map((file, index) => {const trimmedFile = file.trim(); if (!trimmedFile) return null; const isUrl = trimmedFile.startsWith('http://') || trimmedFile.startsWith('https://'); return (<li key={index}>{isUrl ? (<a href={trimmedFile} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">{trimmedFile.split('/').pop() || trimmedFile}</a>) : (<span className="text-muted-foreground">{trimmedFile}</span>)}</li>);})}</ul></CardContent></Card>)} </div> );
         }
         if (type === 'quiz' || type === 'brandQuiz') {
             const quiz = itemData as (Quiz | BrandQuiz);
-             return ( <div className="p-4 md:p-6 lg:p-8"> <QuizTaking quiz={quiz} onComplete={handleQuizComplete} isCompleted={isCurrentItemCompletedForDisplay || isCourseCompleted} /> </div> );
+             return ( <div className="p-4 md:p-6 lg:p-8"> <QuizTaking quiz={quiz} onComplete={handleQuizComplete} onStart={handleQuizStart} onSubmit={handleQuizSubmit} locale={userLocale} isCompleted={isCurrentItemCompletedForDisplay || isCourseCompleted} /> </div> );
         }
         return null;
     };
 
-    const sidebarContent = ( <div className="p-4 space-y-4"> <Link href="/courses/my-courses" className="inline-flex items-center text-sm text-muted-foreground hover:text-primary mb-4"> <ChevronLeft className="h-4 w-4 mr-1" /> Back to My Learning </Link> <h3 className="text-lg font-semibold">{course?.title}</h3> <div className="space-y-1"> <div className="flex justify-between text-xs text-muted-foreground mb-1"> <span>Overall Progress</span> <span>{userProgressData?.progress || 0}%</span> </div> <Progress value={userProgressData?.progress || 0} aria-label={`${course?.title || 'Course'} overall progress ${userProgressData?.progress || 0}%`} className="h-2"/> </div> {(isCourseCompleted || (userProgressData?.status === "Completed" && userProgressData.progress === 100)) && ( <Button onClick={() => {setShowCertificateDialog(true); setHasShownInitialCertificate(true);}} variant="outline" className="w-full mt-2 flex items-center gap-2"> <Award className="h-4 w-4" /> View Certificate </Button> )} <h4 className="text-md font-semibold pt-2 border-t mt-4">Curriculum</h4> <ScrollArea className="h-[calc(100vh-320px)]"> <ul className="space-y-1 mt-2"> {curriculumItems.map((item, index) => { const Icon = (item.type === 'lesson' || item.type === 'brandLesson') ? FileText : HelpCircle; const isCompleted = completedItemIds.includes(item.id); const isCurrent = currentContentItem?.id === item.id; const locked = isItemLocked(index); const itemIsClickable = isCourseCompleted || isCompleted || isCurrent || !locked || isCurrentUserOnTrial; return ( <li key={item.id}> <Button variant={isCurrent ? "secondary" : "ghost"} className={cn( "w-full justify-start h-auto py-2 px-2 text-left", isCompleted && !isCurrent && 'text-green-600 hover:text-green-700', locked && !isCompleted && !isCurrent && !isCourseCompleted && !isCurrentUserOnTrial && 'text-muted-foreground opacity-60 cursor-not-allowed', isCurrent && 'font-semibold' )} onClick={() => itemIsClickable && handleContentSelection(item, index)} disabled={!itemIsClickable} title={locked && !isCompleted && !isCourseCompleted && !isCurrentUserOnTrial ? "Complete previous items to unlock" : item.data.title} > <div className="flex items-center w-full"> {isCompleted ? <CheckCircle className="h-4 w-4 mr-2 flex-shrink-0 text-green-500" /> : locked && !isCurrent && !isCourseCompleted && !isCurrentUserOnTrial ? <Lock className="h-4 w-4 mr-2 flex-shrink-0 text-muted-foreground" /> : <Icon className="h-4 w-4 mr-2 flex-shrink-0 text-muted-foreground" /> } <span className="flex-1 text-sm truncate">{item.data.title}</span> </div> </Button> </li> ); })} </ul> </ScrollArea> </div> );
+    // Sidebar sections follow the course modules. Items keep their position in the full list for locking and navigation
+    const sidebarModules = course ? getCourseModules(course) : [];
+    const sidebarModuleProgress = getModuleProgress(sidebarModules, completedItemIds);
+    const toggleModule = (moduleId: string, open: boolean) => setCollapsedModuleIds(prev => open ? prev.filter(id => id !== moduleId) : [...prev, moduleId]);
+    const renderSidebarItem = (item: CurriculumDisplayItem, index: number) => { const Icon = (item.type === 'lesson' || item.type === 'brandLesson') ? FileText : HelpCircle; const isCompleted = completedItemIds.includes(item.id); const isCurrent = currentContentItem?.id === item.id; const locked = isItemLocked(index); const opensAt = getItemOpensAt(item.id); const itemIsClickable = isCurrent || (!opensAt && (isCourseCompleted || isCompleted || !locked || isCurrentUserOnTrial)); return ( <li key={item.id}> <Button variant={isCurrent ? "secondary" : "ghost"} className={cn( "w-full justify-start h-auto py-2 px-2 text-left", isCompleted && !isCurrent && 'text-green-600 hover:text-green-700', locked && !isCompleted && !isCurrent && !isCourseCompleted && (!isCurrentUserOnTrial || opensAt) && 'text-muted-foreground opacity-60 cursor-not-allowed', isCurrent && 'font-semibold' )} onClick={() => itemIsClickable && handleContentSelection(item, index)} disabled={!itemIsClickable} title={opensAt ? `Opens ${opensAt.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}` : locked && !isCompleted && !isCourseCompleted && !isCurrentUserOnTrial ? "Complete previous items to unlock" : item.data.title} > <div className="flex items-center w-full"> {isCompleted ? <CheckCircle className="h-4 w-4 mr-2 flex-shrink-0 text-green-500" /> : opensAt ? <Clock className="h-4 w-4 mr-2 flex-shrink-0 text-muted-foreground" /> : locked && !isCurrent && !isCourseCompleted && !isCurrentUserOnTrial ? <Lock className="h-4 w-4 mr-2 flex-shrink-0 text-muted-foreground" /> : <Icon className="h-4 w-4 mr-2 flex-shrink-0 text-muted-foreground" /> } <span className="flex-1 text-sm truncate">{item.data.title}</span> {opensAt && <span className="ml-2 text-xs text-muted-foreground whitespace-nowrap">in {formatTimeUntil(opensAt, now)}</span>} </div> </Button> </li> ); };
+    const sidebarContent = ( <div className="p-4 space-y-4"> <Link href="/courses/my-courses" className="inline-flex items-center text-sm text-muted-foreground hover:text-primary mb-4"> <ChevronLeft className="h-4 w-4 mr-1" /> Back to My Learning </Link> <h3 className="text-lg font-semibold">{course?.title}</h3> <div className="space-y-1"> <div className="flex justify-between text-xs text-muted-foreground mb-1"> <span>Overall Progress</span> <span>{userProgressData?.progress || 0}%</span> </div> <Progress value={userProgressData?.progress || 0} aria-label={`${course?.title || 'Course'} overall progress ${userProgressData?.progress || 0}%`} className="h-2"/> </div> {(isCourseCompleted || (userProgressData?.status === "Completed" && userProgressData.progress === 100)) && ( <Button onClick={() => {setShowCertificateDialog(true); setHasShownInitialCertificate(true);}} variant="outline" className="w-full mt-2 flex items-center gap-2"> <Award className="h-4 w-4" /> View Certificate </Button> )} <h4 className="text-md font-semibold pt-2 border-t mt-4">Curriculum</h4> <ScrollArea className="h-[calc(100vh-320px)]"> <div className="space-y-3 mt-2"> {sidebarModules.map(module => { const moduleItems = module.itemIds.map(itemId => curriculumItems.findIndex(item => item.id === itemId)).filter(index => index !== -1); const moduleProgress = sidebarModuleProgress[module.id]; const isOpen = !collapsedModuleIds.includes(module.id); return ( <Collapsible key={module.id} open={isOpen} onOpenChange={(open) => toggleModule(module.id, open)}> <CollapsibleTrigger asChild> <button type="button" className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left hover:bg-muted"> <ChevronDown className={cn("h-4 w-4 flex-shrink-0 text-muted-foreground transition-transform", !isOpen && "-rotate-90")} /> <span className="flex-1 text-sm font-semibold truncate">{module.title}</span> <span className={cn("text-xs whitespace-nowrap", moduleProgress.total > 0 && moduleProgress.completed === moduleProgress.total ? "text-green-600" : "text-muted-foreground")}>{moduleProgress.completed}/{moduleProgress.total}</span> </button> </CollapsibleTrigger> <Progress value={moduleProgress.total > 0 ? Math.round((moduleProgress.completed / moduleProgress.total) * 100) : 0} aria-label={`${module.title} progress`} className="h-1 mx-2 mt-1 w-auto"/> <CollapsibleContent> <ul className="space-y-1 mt-1 pl-2"> {moduleItems.map(index => renderSidebarItem(curriculumItems[index], index))} </ul> </CollapsibleContent> </Collapsible> ); })} </div> </ScrollArea> </div> );
 
     if (!isMounted || isLoading || !currentUser) return ( <div className="flex h-screen bg-secondary"> <aside className="hidden md:flex md:flex-col w-72 lg:w-80 border-r bg-background p-4 space-y-4"><Skeleton className="h-5 w-3/4" /> <Skeleton className="h-6 w-full" /><div className="space-y-1"><div className="flex justify-between"><Skeleton className="h-3 w-1/4" /><Skeleton className="h-3 w-1/4" /></div><Skeleton className="h-2 w-full" /></div><Skeleton className="h-10 w-full" /> <Skeleton className="h-10 w-full" /> <Skeleton className="h-10 w-full" /> </aside> <main className="flex-1 flex flex-col overflow-hidden"><header className="flex items-center justify-between p-4 border-b bg-background md:justify-end"><Skeleton className="h-8 w-8 rounded md:hidden mr-4" /> <Skeleton className="h-6 w-1/3 md:hidden" /> <div className="flex items-center gap-4"><Skeleton className="h-6 w-24" /> </div></header><div className="flex-1 overflow-y-auto bg-background p-6 text-center"><Skeleton className="h-8 w-1/2 mx-auto mb-4" /><Skeleton className="aspect-video w-full my-6 rounded-lg" /><Skeleton className="h-4 w-full my-2" /><Skeleton className="h-4 w-5/6 my-2" /></div></main> </div>);
     if (!course) return <div className="flex h-screen items-center justify-center">Course data not found.</div>;
+    if (courseLock) return ( <div className="flex h-screen items-center justify-center bg-secondary p-4"> <Card className="max-w-md w-full text-center"> <CardHeader> <Lock className="h-12 w-12 mx-auto text-muted-foreground mb-2" /> <CardTitle>{course.title} is locked</CardTitle> </CardHeader> <CardContent className="space-y-4"> <p className="text-muted-foreground">{courseLock.reason}</p> <p className="text-xs text-muted-foreground">Part of the "{courseLock.programTitle}" learning path.</p> <Button asChild><Link href="/courses/my-courses">Back to My Learning</Link></Button> </CardContent> </Card> </div> );
 
     return ( <> <div className="flex h-screen bg-secondary"> <aside className="hidden md:flex md:flex-col w-72 lg:w-80 border-r bg-background overflow-y-auto">{sidebarContent}</aside> <main className="flex-1 flex flex-col overflow-hidden"> <header className="flex items-center justify-between p-4 border-b bg-background md:justify-end"> <Sheet open={isSidebarOpen} onOpenChange={setIsSidebarOpen}> <SheetTrigger asChild><Button variant="outline" size="icon" className="md:hidden mr-4"><Menu className="h-5 w-5" /><span className="sr-only">Toggle Course Menu</span></Button></SheetTrigger> <SheetContent side="left" className="w-72 p-0 overflow-y-auto">{sidebarContent}</SheetContent> </Sheet> <h1 className="text-lg font-semibold truncate md:hidden">{course.title}</h1> <div className="flex items-center gap-4"><span className="text-sm font-medium">Welcome, {currentUser.name}!</span></div> </header> <div className="flex-1 overflow-y-auto bg-background relative"> {renderContent()} <div className="sticky bottom-0 left-0 right-0 bg-background/80 backdrop-blur-sm border-t p-4 flex justify-between items-center z-10"> <Button variant="outline" onClick={handlePrevious} disabled={currentIndex === 0}> <ChevronLeft className="mr-2 h-4 w-4" /> Previous </Button> <Button onClick={handleMainActionClick} disabled={isButtonDisabled || isLoadingTimedQuiz} className={cn(buttonVariant === 'default' ? "bg-primary hover:bg-primary/90" : "bg-secondary hover:bg-secondary/80 text-secondary-foreground")} title={buttonTitle} > {isLoadingTimedQuiz ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null} {buttonText} {!(buttonText.includes("Certificate") || (currentIndex === curriculumItems.length -1 && (completedItemIds.includes(currentContentItem?.id || '') || isCourseCompleted))) && !isLoadingTimedQuiz && <ChevronRight className="ml-2 h-4 w-4" />} </Button> </div> </div> </main> </div>
-      {isMounted && showCertificateDialog && course && currentUser && userProgressData && ( <Dialog open={showCertificateDialog} onOpenChange={setShowCertificateDialog}> <DialogHeader className="p-6 print-hide"> <DialogUITitle>Course Certificate</DialogUITitle> <DialogUIDescription> Congratulations on completing {course.title}! </DialogUIDescription> </DialogHeader> <DialogContent className="max-w-3xl p-0 overflow-hidden print-content"> <CourseCertificate courseName={course.title} userName={currentUser.name} completionDate={userProgressData.lastUpdated ? (userProgressData.lastUpdated instanceof Date ? userProgressData.lastUpdated : new Date(userProgressData.lastUpdated as string)) : new Date() } brandName={certificateBrandDetails?.name} brandLogoUrl={certificateBrandDetails?.logoUrl} /> </DialogContent> </Dialog> )}
+      {isMounted && showCertificateDialog && course && currentUser && userProgressData && ( <Dialog open={showCertificateDialog} onOpenChange={setShowCertificateDialog}> <DialogHeader className="p-6 print-hide"> <DialogUITitle>Course Certificate</DialogUITitle> <DialogUIDescription> Congratulations on completing {course.title}! </DialogUIDescription> </DialogHeader> <DialogContent className="max-w-3xl p-0 overflow-hidden print-content"> <CourseCertificate courseName={course.title} userName={currentUser.name} completionDate={userProgressData.lastUpdated ? (userProgressData.lastUpdated instanceof Date ? userProgressData.lastUpdated : new Date(userProgressData.lastUpdated as string)) : new Date() } brandName={certificateBrandDetails?.name} brandLogoUrl={certificateBrandDetails?.logoUrl} expiresAt={getCompletionExpiry(userProgressData, course)?.expiresAt ?? null} userId={currentUser.id} courseId={course.id} template={certificateTemplate} timeSpentSeconds={userProgressData.timeSpentSeconds} /> </DialogContent> </Dialog> )}
       {/* Timed Quiz Modal */}
       {isMounted && showTimedQuizModal && currentTimedQuizData && (
         <Dialog open={showTimedQuizModal} onOpenChange={(isOpen) => {
-            if (!isOpen) { // Only allow closing if not forced open or if user explicitly closes
+            if (!isOpen && !currentTimedEvent?.requireCorrect) { // Blocking checkpoints stay open until answered correctly
                 setShowTimedQuizModal(false);
                 setCurrentTimedQuizData(null);
+                setCurrentTimedEvent(null);
                 if (videoRef.current && videoRef.current.paused && !isLoadingTimedQuiz) {
                     videoRef.current.play().catch(err => console.warn("Failed to auto-resume video:", err));
                 }
@@ -579,12 +779,17 @@ export default function LearnCoursePage() {
         }}>
             <DialogContent className="sm:max-w-xl">
                 <DialogHeader>
-                    <DialogUITitle>Pop-up Quiz: {currentTimedQuizData.title}</DialogUITitle>
-                    <DialogUIDescription>Please complete this short quiz before continuing the video.</DialogUIDescription>
+                    <DialogUITitle>{currentTimedEvent?.type === 'question' ? currentTimedQuizData.title : `Pop-up Quiz: ${currentTimedQuizData.title}`}</DialogUITitle>
+                    <DialogUIDescription>
+                        {currentTimedEvent?.requireCorrect
+                            ? 'Answer correctly to continue the video.'
+                            : 'Please complete this short quiz before continuing the video.'}
+                    </DialogUIDescription>
                 </DialogHeader>
                 <div className="py-4">
                     <QuizTaking
                         quiz={currentTimedQuizData}
+                        locale={userLocale}
                         onComplete={(quizId, score, passed) => handleTimedQuizComplete(quizId, score, passed)}
                         // isCompleted prop for QuizTaking might need adjustment based on how you want to handle re-takes of timed quizzes
                     />
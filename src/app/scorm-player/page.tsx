@@ -0,0 +1,76 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { createScormRuntime, type ScormApi } from '@/lib/scorm-runtime';
+import { SCORM_CONTENT_ORIGIN, getScormLaunchUrl } from '@/lib/scorm';
+import type { ScormPlayerMessage } from '@/types/course';
+
+type StartMessage = Extract<ScormPlayerMessage, { type: 'scorm:start' }>;
+
+/**
+ * Runs on the SCORM content origin, framed by the learn page. It installs the SCORM API on this window,
+ * where the package's frames (same origin) find it, and reports commits to the learn page by postMessage.
+ * The package never shares an origin with the app, so it can't reach the learner's session.
+ */
+export default function ScormPlayerPage() {
+  const [start, setStart] = useState<{ message: StartMessage; origin: string } | null>(null);
+  const [launchUrl, setLaunchUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (window.location.origin !== SCORM_CONTENT_ORIGIN || window.parent === window) {
+      setError('SCORM content can only be played from a lesson.');
+      return;
+    }
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data as ScormPlayerMessage | null;
+      if (event.source !== window.parent || message?.type !== 'scorm:start') return;
+      setStart(current => current ?? { message, origin: event.origin }); // One package per page load
+    };
+    window.addEventListener('message', handleMessage);
+    window.parent.postMessage({ type: 'scorm:ready' } satisfies ScormPlayerMessage, '*'); // Carries no data, so any origin may see it
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  useEffect(() => {
+    if (!start) return;
+    const { message, origin } = start;
+    const post = (reply: ScormPlayerMessage) => window.parent.postMessage(reply, origin);
+    const runtime = createScormRuntime({
+      version: message.scormPackage.version,
+      learner: message.learner,
+      masteryScore: message.scormPackage.masteryScore,
+      initialData: message.initialData,
+      onCommit: (data, sessionEnded) => post({ type: 'scorm:commit', data, sessionEnded }),
+    });
+
+    // After every call that can change the data, tell the learn page what ending the session now would store,
+    // so it can end it when the learner leaves without the package doing so
+    const api: ScormApi = Object.fromEntries(Object.entries(runtime.api).map(([name, call]) => [
+      name,
+      (...args: string[]) => {
+        const result = call(...args);
+        if (!/Get|Error|Diagnostic/.test(name)) {
+          const endData = runtime.getEndOfSessionData();
+          if (endData) post({ type: 'scorm:progress', data: endData });
+        }
+        return result;
+      },
+    ]));
+    const scormWindow = window as unknown as Record<string, unknown>;
+    scormWindow[runtime.apiName] = api;
+    setLaunchUrl(getScormLaunchUrl(message.scormPackage));
+  }, [start]);
+
+  if (error) {
+    return <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-white p-4 text-sm text-muted-foreground">{error}</div>;
+  }
+
+  // Covers the app layout, which renders around every page
+  return launchUrl ? (
+    <iframe src={launchUrl} title="SCORM content" className="fixed inset-0 z-[9999] h-full w-full border-0 bg-white" allow="autoplay; fullscreen" allowFullScreen />
+  ) : (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-white"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+  );
+}
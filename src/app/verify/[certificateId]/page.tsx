@@ -0,0 +1,89 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { BadgeCheck, ShieldAlert, ShieldX } from 'lucide-react';
+import { getCertificateById, getCertificateStatus } from '@/lib/certificate-data';
+
+export const dynamic = 'force-dynamic';
+
+function formatLongDate(iso: string): string {
+    return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Public page linked from the QR code on every PDF certificate, so anyone can check that a certificate is genuine.
+ */
+export default async function VerifyCertificatePage({ params }: { params: Promise<{ certificateId: string }> }) {
+    const { certificateId } = await params;
+    const certificate = await getCertificateById(certificateId).catch((error) => {
+        console.error(`Error loading certificate ${certificateId} for verification:`, error);
+        return null;
+    });
+
+    if (!certificate) {
+        return (
+            <div className="container mx-auto max-w-xl py-12">
+                <Card className="text-center">
+                    <CardHeader>
+                        <ShieldX className="h-12 w-12 text-destructive mx-auto mb-2" />
+                        <CardTitle>Certificate Not Found</CardTitle>
+                        <CardDescription>We could not find a certificate with this ID. Check that the link or QR code was copied in full.</CardDescription>
+                    </CardHeader>
+                </Card>
+            </div>
+        );
+    }
+
+    const isValid = getCertificateStatus(certificate) === 'valid';
+
+    return (
+        <div className="container mx-auto max-w-xl py-12">
+            <Card>
+                <CardHeader className="text-center">
+                    {isValid
+                        ? <BadgeCheck className="h-12 w-12 text-green-600 mx-auto mb-2" />
+                        : <ShieldAlert className="h-12 w-12 text-destructive mx-auto mb-2" />}
+                    <CardTitle>{isValid ? 'Valid Certificate' : 'Expired Certificate'}</CardTitle>
+                    <CardDescription>
+                        {isValid
+                            ? 'This certificate was issued by Gymramp and is currently valid.'
+                            : 'This certificate was issued by Gymramp but is no longer valid. The holder needs to recertify.'}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <dl className="divide-y text-sm">
+                        <div className="flex justify-between gap-4 py-2">
+                            <dt className="text-muted-foreground">Holder</dt>
+                            <dd className="font-medium text-right">{certificate.holderName}</dd>
+                        </div>
+                        <div className="flex justify-between gap-4 py-2">
+                            <dt className="text-muted-foreground">Course</dt>
+                            <dd className="font-medium text-right">{certificate.courseTitle}</dd>
+                        </div>
+                        <div className="flex justify-between gap-4 py-2">
+                            <dt className="text-muted-foreground">Issued By</dt>
+                            <dd className="font-medium text-right">{certificate.brandName || 'Gymramp'}</dd>
+                        </div>
+                        <div className="flex justify-between gap-4 py-2">
+                            <dt className="text-muted-foreground">Completed</dt>
+                            <dd className="font-medium text-right">{formatLongDate(certificate.completedAt)}</dd>
+                        </div>
+                        <div className="flex justify-between gap-4 py-2">
+                            <dt className="text-muted-foreground">Status</dt>
+                            <dd className="text-right">
+                                <Badge variant={isValid ? 'default' : 'destructive'}>
+                                    {certificate.expiresAt
+                                        ? `${isValid ? 'Valid until' : 'Expired on'} ${formatLongDate(certificate.expiresAt)}`
+                                        : 'Valid (does not expire)'}
+                                </Badge>
+                            </dd>
+                        </div>
+                        <div className="flex justify-between gap-4 py-2">
+                            <dt className="text-muted-foreground">Certificate No.</dt>
+                            <dd className="font-mono text-right">{certificate.serialNumber}</dd>
+                        </div>
+                    </dl>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -32,6 +32,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -41,8 +42,10 @@ import type { Course, CourseFormData, CourseTranslation } from '@/types/course';
 import { addCourse, updateCourseMetadata, getCourseById } from '@/lib/firestore-data';
 import { useToast } from '@/hooks/use-toast';
 import { uploadImage, STORAGE_PATHS } from '@/lib/storage';
+import { getPlatformCertificateTemplates } from '@/lib/certificate-template-data';
+import type { CertificateTemplate } from '@/types/certificate';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, Upload, ImageIcon, Trash2, Award, Globe, Languages, Wand2 } from 'lucide-react';
+import { Loader2, Upload, ImageIcon, Trash2, Award, Globe, Languages, Wand2, RefreshCw } from 'lucide-react';
 import { translateContent } from '@/ai/flows/translate-content';
 import { Alert, AlertDescription } from '../ui/alert';
 
@@ -73,6 +76,7 @@ const courseFormSchema = z.object({
   duration: z.string().min(3, { message: 'Please enter an approximate duration.' }),
   category: z.string().min(2, { message: 'Category must be at least 2 characters.' }).optional().nullable(),
   certificateTemplateId: z.string().optional().nullable(),
+  validityMonths: z.string().regex(/^\d{0,3}$/, { message: 'Enter a whole number of months.' }).optional(),
   translations: z.record(courseTranslationSchema).optional(),
 });
 
@@ -86,13 +90,6 @@ interface AddEditCourseDialogProps {
   initialData: Course | null;
 }
 
-const CERTIFICATE_TEMPLATES = [
-    { value: 'template-a', label: 'Template A - Modern Blue' },
-    { value: 'template-b', label: 'Template B - Classic Gold' },
-    { value: 'template-c', label: 'Template C - Formal Silver' },
-    { value: 'template-d', label: 'Template D - Creative Green' },
-];
-
 export function AddEditCourseDialog({ isOpen, setIsOpen, onSave, initialData }: AddEditCourseDialogProps) {
   const isEditing = !!initialData;
   const { toast } = useToast();
@@ -101,6 +98,17 @@ export function AddEditCourseDialog({ isOpen, setIsOpen, onSave, initialData }:
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [isTranslating, setIsTranslating] = useState<Record<string, boolean>>({});
+  const [certificateTemplates, setCertificateTemplates] = useState<CertificateTemplate[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getPlatformCertificateTemplates()
+      .then(setCertificateTemplates)
+      .catch(error => {
+        console.error("Failed to fetch certificate templates:", error);
+        setCertificateTemplates([]);
+      });
+  }, [isOpen]);
 
   const form = useForm<CourseFormValues>({
     resolver: zodResolver(courseFormSchema),
@@ -114,6 +122,7 @@ export function AddEditCourseDialog({ isOpen, setIsOpen, onSave, initialData }:
       duration: '',
       category: '',
       certificateTemplateId: null,
+      validityMonths: '',
       translations: {},
     },
   });
@@ -133,6 +142,7 @@ export function AddEditCourseDialog({ isOpen, setIsOpen, onSave, initialData }:
             duration: initialData.duration,
             category: initialData.category,
             certificateTemplateId: initialData.certificateTemplateId || null,
+            validityMonths: initialData.validityMonths ? String(initialData.validityMonths) : '',
             translations: initialData.translations || {},
           });
         } else {
@@ -146,6 +156,7 @@ export function AddEditCourseDialog({ isOpen, setIsOpen, onSave, initialData }:
             duration: '',
             category: '',
             certificateTemplateId: null,
+            validityMonths: '',
             translations: {},
           });
         }
@@ -255,6 +266,7 @@ export function AddEditCourseDialog({ isOpen, setIsOpen, onSave, initialData }:
          duration: data.duration,
          category: data.category,
          certificateTemplateId: data.certificateTemplateId || null,
+         validityMonths: data.validityMonths ? parseInt(data.validityMonths, 10) || null : null,
          translations: data.translations,
      };
 
@@ -264,7 +276,7 @@ export function AddEditCourseDialog({ isOpen, setIsOpen, onSave, initialData }:
         if (isEditing && initialData) {
             savedCourse = await updateCourseMetadata(initialData.id, formData);
             if (savedCourse) {
-                toast({ title: 'Course Updated', description: `"${data.title}" has been successfully updated.` });
+                toast({ title: 'Draft Saved', description: `Changes to "${data.title}" were saved as a draft. Publish them to make them live.` });
                 onSave(savedCourse);
             } else {
                  throw new Error("Failed to update course.");
@@ -333,7 +345,8 @@ export function AddEditCourseDialog({ isOpen, setIsOpen, onSave, initialData }:
                   <FormField control={form.control} name="level" render={({ field }) => ( <FormItem><FormLabel>Difficulty Level</FormLabel><Select onValueChange={field.onChange} value={field.value} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select a level" /></SelectTrigger></FormControl><SelectContent><SelectItem value="Beginner">Beginner</SelectItem><SelectItem value="Intermediate">Intermediate</SelectItem><SelectItem value="Advanced">Advanced</SelectItem></SelectContent></Select><FormMessage /></FormItem> )}/>
                 </div>
                 <FormField control={form.control} name="duration" render={({ field }) => ( <FormItem><FormLabel>Approximate Duration</FormLabel><FormControl><Input placeholder="e.g., 3h 0m" {...field} /></FormControl><FormMessage /></FormItem> )}/>
-                <FormField control={form.control} name="certificateTemplateId" render={({ field }) => ( <FormItem><FormLabel className="flex items-center gap-1"><Award className="h-4 w-4"/> Certificate Template</FormLabel><Select onValueChange={(value) => field.onChange(value === 'none' ? null : value)} value={field.value || 'none'}><FormControl><SelectTrigger><SelectValue placeholder="Select a certificate template" /></SelectTrigger></FormControl><SelectContent><SelectItem value="none">None (Default)</SelectItem>{CERTIFICATE_TEMPLATES.map(template => ( <SelectItem key={template.value} value={template.value}>{template.label}</SelectItem> ))}</SelectContent></Select><FormMessage /></FormItem> )}/>
+                <FormField control={form.control} name="certificateTemplateId" render={({ field }) => ( <FormItem><FormLabel className="flex items-center gap-1"><Award className="h-4 w-4"/> Certificate Template</FormLabel><Select onValueChange={(value) => field.onChange(value === 'none' ? null : value)} value={field.value || 'none'}><FormControl><SelectTrigger><SelectValue placeholder="Select a certificate template" /></SelectTrigger></FormControl><SelectContent><SelectItem value="none">None (Default)</SelectItem>{certificateTemplates.map(template => ( <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem> ))}</SelectContent></Select><FormMessage /></FormItem> )}/>
+                <FormField control={form.control} name="validityMonths" render={({ field }) => ( <FormItem><FormLabel className="flex items-center gap-1"><RefreshCw className="h-4 w-4"/> Recertify Every (Months)</FormLabel><FormControl><Input type="number" min={1} placeholder="Never expires" {...field} value={field.value ?? ''} /></FormControl><FormDescription>For training that must be redone, such as CPR or equipment safety. When a completion expires, the course is reset and the learner is asked to take it again.</FormDescription><FormMessage /></FormItem> )}/>
               </TabsContent>
               <TabsContent value="translations" className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
                 <Alert><AlertDescription>Provide translations for the course title and descriptions. If a translation is not provided, the main English content will be used.</AlertDescription></Alert>
@@ -17,6 +17,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 import {
   Form,
@@ -27,11 +28,17 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
-import { createLesson, updateLesson } from '@/lib/firestore-data';
+import { createLesson, updateLesson, getAllQuizzes } from '@/lib/firestore-data';
 import { uploadImage, STORAGE_PATHS } from '@/lib/storage';
-import type { Lesson, LessonFormData, LessonTranslation } from '@/types/course';
-import { Upload, PlaySquare, FileUp, Image as ImageIconLucide, Trash2, Loader2, Video, Globe, Languages, Wand2 } from 'lucide-react';
+import type { Lesson, LessonFormData, LessonTranslation, LessonTimedEvent, LessonCaptionTrack, LessonType, ScormPackage, Quiz } from '@/types/course';
+import { Upload, PlaySquare, Image as ImageIconLucide, Trash2, Loader2, Globe, Languages, Wand2, Flag, Copy, Captions, Package } from 'lucide-react';
 import RichTextEditor from '@/components/ui/RichTextEditor';
+import { VideoCheckpointsEditor } from '@/components/lessons/VideoCheckpointsEditor';
+import { LessonVideoUploader } from '@/components/lessons/LessonVideoUploader';
+import { ScormPackageUploader } from '@/components/lessons/ScormPackageUploader';
+import { refreshLessonVideoAsset } from '@/lib/video-asset-data';
+import type { LessonVideoAsset } from '@/types/video';
+import { LessonCaptionsEditor } from '@/components/lessons/LessonCaptionsEditor';
 import { translateContent } from '@/ai/flows/translate-content';
 
 // Supported languages for translation UI
@@ -45,6 +52,9 @@ const SUPPORTED_LOCALES = [
   { value: 'zh', label: 'Chinese' },
 ];
 
+// Captions can be added in English as well as the translated languages
+const CAPTION_LOCALES = [{ value: 'en', label: 'English' }, ...SUPPORTED_LOCALES];
+
 const lessonTranslationSchema = z.object({
   title: z.string().optional().or(z.literal('')),
   content: z.string().optional().or(z.literal('')),
@@ -85,16 +95,25 @@ export function AddEditLessonDialog({
   const [isSaving, setIsSaving] = useState(false);
   
   const [isVideoUploading, setIsVideoUploading] = useState(false);
-  const [videoUploadProgress, setVideoUploadProgress] = useState(0);
-  const [videoUploadError, setVideoUploadError] = useState<string | null>(null);
+  const [videoAsset, setVideoAsset] = useState<LessonVideoAsset | null>(null);
+  const [lessonType, setLessonType] = useState<LessonType>('standard');
+  const [scormPackage, setScormPackage] = useState<ScormPackage | null>(null);
+  const [isScormUploading, setIsScormUploading] = useState(false);
   
   const [isImageUploading, setIsImageUploading] = useState(false);
   const [imageUploadProgress, setImageUploadProgress] = useState(0);
   const [imageUploadError, setImageUploadError] = useState<string | null>(null);
 
-  const [translationVideoUploadState, setTranslationVideoUploadState] = useState<Record<string, { progress: number; error: string | null; uploading: boolean }>>({});
+  const [translationVideoUploading, setTranslationVideoUploading] = useState<Record<string, boolean>>({});
+  const [translationVideoAssets, setTranslationVideoAssets] = useState<Record<string, LessonVideoAsset | null>>({});
   const [isTranslating, setIsTranslating] = useState<Record<string, boolean>>({});
 
+  const [timedEvents, setTimedEvents] = useState<LessonTimedEvent[]>([]);
+  const [translationTimedEvents, setTranslationTimedEvents] = useState<Record<string, LessonTimedEvent[]>>({}); // Checkpoints per translated video
+  const [captions, setCaptions] = useState<LessonCaptionTrack[]>([]);
+  const [translationCaptions, setTranslationCaptions] = useState<Record<string, LessonCaptionTrack[]>>({}); // Captions per translated video
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+
 
   const form = useForm<LessonFormValues>({
     resolver: zodResolver(lessonFormSchema),
@@ -154,48 +173,48 @@ export function AddEditLessonDialog({
           });
         }
         setIsVideoUploading(false);
-        setVideoUploadProgress(0);
-        setVideoUploadError(null);
+        setVideoAsset(initialData?.videoAsset || null);
+        setLessonType(initialData?.lessonType === 'scorm' ? 'scorm' : 'standard');
+        setScormPackage(initialData?.scormPackage || null);
+        setIsScormUploading(false);
         setIsImageUploading(false);
         setImageUploadProgress(0);
         setImageUploadError(null);
-        setTranslationVideoUploadState({});
+        setTranslationVideoUploading({});
+        setTranslationVideoAssets(Object.fromEntries(Object.entries(initialData?.translations || {}).map(([locale, translation]) => [locale, translation.videoAsset || null])));
         setIsSaving(false);
         setIsTranslating({});
+        setTimedEvents(initialData?.timedEvents || []);
+        setTranslationTimedEvents(Object.fromEntries(Object.entries(initialData?.translations || {}).map(([locale, translation]) => [locale, translation.timedEvents || []])));
+        setCaptions(initialData?.captions || []);
+        setTranslationCaptions(Object.fromEntries(Object.entries(initialData?.translations || {}).map(([locale, translation]) => [locale, translation.captions || []])));
     }
   }, [initialData, form, isOpen]);
 
-
-    const handleVideoFileChange = async (event: React.ChangeEvent<HTMLInputElement>, locale?: string) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
-
-        const uploaderStateSetter = locale ? (state: any) => setTranslationVideoUploadState(prev => ({...prev, [locale]: {...(prev[locale] || {}), ...state}})) : setIsVideoUploading;
-        const progressSetter = locale ? (progress: number) => setTranslationVideoUploadState(prev => ({...prev, [locale]: {...(prev[locale] || {}), progress}})) : setVideoUploadProgress;
-        const errorSetter = locale ? (error: string | null) => setTranslationVideoUploadState(prev => ({...prev, [locale]: {...(prev[locale] || {}), error}})) : setVideoUploadError;
-
-        uploaderStateSetter({ uploading: true, progress: 0, error: null });
-
-        try {
-            const uniqueFileName = isEditing && initialData?.id
-                ? `${initialData.id}${locale ? `-${locale}` : ''}-video-${file.name}`
-                : `${Date.now()}${locale ? `-${locale}` : ''}-video-${file.name}`;
-            const storagePath = `${STORAGE_PATHS.LESSON_VIDEOS}/${uniqueFileName}`;
-            const downloadURL = await uploadImage(file, storagePath, progressSetter);
-
-            const fieldName = locale ? `translations.${locale}.videoUrl` as const : 'videoUrl' as const;
-            form.setValue(fieldName, downloadURL, { shouldValidate: true });
-
-            toast({ title: "Video Uploaded", description: `Video for ${locale || 'main language'} successfully uploaded.` });
-
-        } catch (error: any) {
-            errorSetter(error.message || "Failed to upload video.");
-            toast({ title: "Video Upload Failed", description: error.message || "Could not upload the video.", variant: "destructive" });
-        } finally {
-            uploaderStateSetter({ uploading: false });
+  useEffect(() => {
+    if (!isOpen) return;
+    getAllQuizzes()
+      .then(setQuizzes)
+      .catch(error => console.error("Failed to load quizzes for checkpoints:", error));
+  }, [isOpen]);
+
+
+    const handleVideoChange = (videoUrl: string, asset: LessonVideoAsset | null) => {
+        form.setValue('videoUrl', videoUrl, { shouldValidate: true });
+        setVideoAsset(asset);
+        if (asset?.status === 'ready' && asset.durationSeconds) { // Playback time comes from the processed video
+            const totalSeconds = Math.round(asset.durationSeconds);
+            form.setValue('playbackHours', Math.floor(totalSeconds / 3600));
+            form.setValue('playbackMinutes', Math.floor((totalSeconds % 3600) / 60));
+            form.setValue('playbackSeconds', totalSeconds % 60);
         }
     };
 
+    const handleTranslationVideoChange = (locale: string, videoUrl: string, asset: LessonVideoAsset | null) => {
+        form.setValue(`translations.${locale}.videoUrl`, videoUrl, { shouldValidate: true });
+        setTranslationVideoAssets(prev => ({ ...prev, [locale]: asset }));
+    };
+
       const handleImageFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
          const file = event.target.files?.[0];
          if (!file) return;
@@ -272,14 +291,19 @@ export function AddEditLessonDialog({
 
 
   const onSubmit = async (data: LessonFormValues) => {
-    if (isSaving || isVideoUploading || isImageUploading) return; 
+    if (isSaving || isVideoUploading || isImageUploading || isScormUploading) return; 
+    const isScorm = lessonType === 'scorm';
+    if (isScorm && !scormPackage) {
+      toast({ title: "SCORM Package Required", description: "Upload a SCORM package for this lesson, or change the lesson type.", variant: "destructive" });
+      return;
+    }
     setIsSaving(true);
 
     try {
       let savedLesson: Lesson | null = null;
 
        const featuredImageUrl = data.featuredImageUrl?.trim() === '' ? null : data.featuredImageUrl;
-       const videoUrl = data.videoUrl?.trim() === '' ? null : data.videoUrl;
+       const videoUrl = isScorm || data.videoUrl?.trim() === '' ? null : data.videoUrl;
        const exerciseFilesInfo = data.exerciseFilesInfo?.trim() === '' ? null : data.exerciseFilesInfo;
 
 
@@ -290,6 +314,15 @@ export function AddEditLessonDialog({
         ? `${hours}h ${minutes}m ${seconds}s`
         : null;
 
+      const translations: { [key: string]: LessonTranslation } = Object.fromEntries(await Promise.all(
+        Object.entries(data.translations || {}).map(async ([locale, translation]) => [locale, {
+          ...translation,
+          timedEvents: translationTimedEvents[locale] || [],
+          captions: translationCaptions[locale] || [],
+          videoAsset: translation.videoUrl ? await refreshLessonVideoAsset(translationVideoAssets[locale]) : null,
+        }])
+      ));
+
       const lessonData: LessonFormData = {
         title: data.title,
         content: data.content,
@@ -298,7 +331,12 @@ export function AddEditLessonDialog({
         exerciseFilesInfo: exerciseFilesInfo,
         isPreviewAvailable: data.isPreviewAvailable,
         playbackTime: playbackTime,
-        translations: data.translations,
+        timedEvents: isScorm ? [] : timedEvents, // Checkpoints and captions belong to the video
+        captions: isScorm ? [] : captions,
+        videoAsset: videoUrl ? await refreshLessonVideoAsset(videoAsset) : null,
+        lessonType: lessonType,
+        scormPackage: isScorm ? scormPackage : null,
+        translations: translations,
       };
 
       if (isEditing && initialData) {
@@ -309,8 +347,10 @@ export function AddEditLessonDialog({
 
       if (savedLesson) {
         toast({
-          title: isEditing ? 'Lesson Updated' : 'Lesson Added',
-          description: `"${data.title}" has been successfully saved.`,
+          title: isEditing ? 'Draft Saved' : 'Lesson Added',
+          description: isEditing
+            ? `Changes to "${data.title}" were saved as a draft. Publish them to make them live.`
+            : `"${data.title}" has been successfully saved.`,
         });
         onLessonSaved(savedLesson);
         handleClose();
@@ -351,6 +391,8 @@ export function AddEditLessonDialog({
                 <Tabs defaultValue="main" className="h-full flex flex-col">
                   <TabsList className="mx-6">
                     <TabsTrigger value="main" className="flex items-center gap-1"><Globe className="h-4 w-4"/> Main Content (English)</TabsTrigger>
+                    <TabsTrigger value="checkpoints" className="flex items-center gap-1" disabled={lessonType === 'scorm'}><Flag className="h-4 w-4"/> Video Checkpoints</TabsTrigger>
+                    <TabsTrigger value="captions" className="flex items-center gap-1" disabled={lessonType === 'scorm'}><Captions className="h-4 w-4"/> Captions</TabsTrigger>
                     <TabsTrigger value="translations" className="flex items-center gap-1"><Languages className="h-4 w-4"/> Translations</TabsTrigger>
                   </TabsList>
                   
@@ -362,7 +404,12 @@ export function AddEditLessonDialog({
                         </div>
                         <div className="md:col-span-1 space-y-6">
                             <FormField control={form.control} name="featuredImageUrl" render={({ field }) => (<FormItem><FormLabel>Featured Image</FormLabel><FormControl><div className="border border-dashed rounded-lg p-4 text-center cursor-pointer hover:border-primary">{field.value && !isImageUploading ? (<div className="relative aspect-video bg-muted rounded-md"><Image src={field.value ?? ''} alt="Preview" fill style={{ objectFit: 'contain' }} className="rounded-md" data-ai-hint="lesson image" onError={() => field.onChange('')} /><Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6" onClick={() => field.onChange('')}><Trash2 className="h-4 w-4" /></Button></div>) : isImageUploading ? (<div className="py-8"><Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-2" /><Progress value={imageUploadProgress} className="w-full h-2" />{imageUploadError && <p className="text-xs text-destructive mt-2">{imageUploadError}</p>}</div>) : (<Label htmlFor="lesson-image-upload" className="cursor-pointer block"><ImageIconLucide className="h-10 w-10 mx-auto text-muted-foreground mb-2" /><p className="text-sm text-muted-foreground">Upload image</p><Input id="lesson-image-upload" type="file" accept="image/*" className="hidden" onChange={handleImageFileChange} disabled={isImageUploading} /></Label>)}</div></FormControl><FormMessage /></FormItem>)} />
-                            <FormField control={form.control} name="videoUrl" render={({ field }) => (<FormItem><FormLabel>Lesson Video</FormLabel><FormControl><div className="border border-dashed rounded-lg p-4 text-center cursor-pointer hover:border-primary">{field.value && !isVideoUploading ? (<div className="relative aspect-video bg-muted rounded-md flex items-center justify-center"><Video className="h-10 w-10 text-muted-foreground" /><p className="text-xs text-muted-foreground mt-1 truncate w-full px-2">{field.value}</p><Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6" onClick={() => field.onChange('')}><Trash2 className="h-4 w-4" /></Button></div>) : isVideoUploading ? (<div className="py-8"><Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-2" /><Progress value={videoUploadProgress} className="w-full h-2" />{videoUploadError && <p className="text-xs text-destructive mt-2">{videoUploadError}</p>}</div>) : (<Label htmlFor="lesson-video-upload" className="cursor-pointer block"><FileUp className="h-10 w-10 mx-auto text-muted-foreground mb-2" /><p className="text-sm text-muted-foreground">Upload video</p><Input id="lesson-video-upload" type="file" accept="video/*" className="hidden" onChange={(e) => handleVideoFileChange(e, undefined)} disabled={isVideoUploading} /></Label>)}</div></FormControl><FormMessage /></FormItem>)} />
+                            <div className="space-y-2"><Label htmlFor="lesson-type">Lesson Type</Label><Select value={lessonType} onValueChange={(value) => setLessonType(value as LessonType)}><SelectTrigger id="lesson-type"><SelectValue /></SelectTrigger><SelectContent><SelectItem value="standard">Standard (Video & Content)</SelectItem><SelectItem value="scorm">SCORM Package</SelectItem></SelectContent></Select></div>
+                            {lessonType === 'scorm' ? (
+                              <div className="space-y-2"><Label className="flex items-center gap-1"><Package className="h-4 w-4" /> SCORM Package</Label><ScormPackageUploader inputId="lesson-scorm-upload" value={scormPackage} onChange={setScormPackage} onUploadingChange={setIsScormUploading} /><p className="text-xs text-muted-foreground">Learners complete this lesson when the package reports it as completed or passed.</p></div>
+                            ) : (
+                              <FormField control={form.control} name="videoUrl" render={({ field }) => (<FormItem><FormLabel>Lesson Video</FormLabel><FormControl><LessonVideoUploader inputId="lesson-video-upload" videoUrl={field.value} videoAsset={videoAsset} onChange={handleVideoChange} onUploadingChange={setIsVideoUploading} /></FormControl><FormMessage /></FormItem>)} />
+                            )}
                             <div className="space-y-2"><Label>Playback Time</Label><div className="flex items-center space-x-2"><FormField control={form.control} name="playbackHours" render={({ field }) => (<FormItem className="flex-1"><FormControl><Input type="number" min="0" {...field} value={field.value ?? 0} /></FormControl><FormLabel className="text-xs text-muted-foreground block text-center">h</FormLabel></FormItem>)} /><FormField control={form.control} name="playbackMinutes" render={({ field }) => (<FormItem className="flex-1"><FormControl><Input type="number" min="0" max="59" {...field} value={field.value ?? 0} /></FormControl><FormLabel className="text-xs text-muted-foreground block text-center">m</FormLabel></FormItem>)} /><FormField control={form.control} name="playbackSeconds" render={({ field }) => (<FormItem className="flex-1"><FormControl><Input type="number" min="0" max="59" {...field} value={field.value ?? 0} /></FormControl><FormLabel className="text-xs text-muted-foreground block text-center">s</FormLabel></FormItem>)} /></div></div>
                             <FormField control={form.control} name="exerciseFilesInfo" render={({ field }) => (<FormItem><FormLabel>Exercise Files</FormLabel><FormControl><Textarea rows={3} placeholder="File URLs/Names (one per line)" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>)} />
                             <FormField control={form.control} name="isPreviewAvailable" render={({ field }) => (<FormItem className="flex items-center justify-between rounded-lg border p-4"><FormLabel>Enable Preview</FormLabel><FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl></FormItem>)} />
@@ -370,6 +417,27 @@ export function AddEditLessonDialog({
                     </div>
                   </TabsContent>
 
+                  <TabsContent value="checkpoints" className="flex-1 overflow-y-auto px-6 py-4">
+                     <VideoCheckpointsEditor
+                        videoUrl={form.watch('videoUrl')}
+                        events={timedEvents}
+                        onChange={setTimedEvents}
+                        quizzes={quizzes}
+                        idPrefix="main"
+                     />
+                  </TabsContent>
+
+                  <TabsContent value="captions" className="flex-1 overflow-y-auto px-6 py-4">
+                     <LessonCaptionsEditor
+                        videoUrl={form.watch('videoUrl')}
+                        tracks={captions}
+                        onChange={setCaptions}
+                        locales={CAPTION_LOCALES}
+                        idPrefix="main"
+                        fileNamePrefix={initialData?.id || 'new-lesson'}
+                     />
+                  </TabsContent>
+
                   <TabsContent value="translations" className="flex-1 overflow-y-auto px-6 py-4">
                      <div className="space-y-6">
                         <Alert>
@@ -378,7 +446,6 @@ export function AddEditLessonDialog({
                             </AlertDescription>
                         </Alert>
                         {SUPPORTED_LOCALES.map(locale => {
-                           const uploadState = translationVideoUploadState[locale.value] || { progress: 0, error: null, uploading: false };
                            const translatedVideoUrl = form.watch(`translations.${locale.value}.videoUrl`);
 
                            return (
@@ -419,32 +486,45 @@ export function AddEditLessonDialog({
                                       <FormItem>
                                           <FormLabel>Translated Video</FormLabel>
                                           <FormControl>
-                                            <div className="border border-dashed rounded-lg p-4 text-center cursor-pointer hover:border-primary">
-                                              {field.value && !uploadState.uploading ? (
-                                                  <div className="relative aspect-video bg-muted rounded-md flex items-center justify-center">
-                                                      <Video className="h-10 w-10 text-muted-foreground" />
-                                                      <p className="text-xs text-muted-foreground mt-1 truncate w-full px-2">{field.value}</p>
-                                                      <Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6" onClick={() => field.onChange('')}><Trash2 className="h-4 w-4" /></Button>
-                                                  </div>
-                                              ) : uploadState.uploading ? (
-                                                  <div className="py-8">
-                                                      <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-2" />
-                                                      <Progress value={uploadState.progress} className="w-full h-2" />
-                                                      {uploadState.error && <p className="text-xs text-destructive mt-2">{uploadState.error}</p>}
-                                                  </div>
-                                              ) : (
-                                                  <Label htmlFor={`lesson-video-upload-${locale.value}`} className="cursor-pointer block">
-                                                      <FileUp className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
-                                                      <p className="text-sm text-muted-foreground">Upload video for {locale.label}</p>
-                                                      <Input id={`lesson-video-upload-${locale.value}`} type="file" accept="video/*" className="hidden" onChange={(e) => handleVideoFileChange(e, locale.value)} disabled={uploadState.uploading} />
-                                                  </Label>
-                                              )}
-                                            </div>
+                                            <LessonVideoUploader
+                                              inputId={`lesson-video-upload-${locale.value}`}
+                                              videoUrl={field.value}
+                                              videoAsset={translationVideoAssets[locale.value]}
+                                              onChange={(videoUrl, asset) => handleTranslationVideoChange(locale.value, videoUrl, asset)}
+                                              onUploadingChange={(uploading) => setTranslationVideoUploading(prev => ({ ...prev, [locale.value]: uploading }))}
+                                              uploadLabel={`Upload video for ${locale.label}`}
+                                            />
                                           </FormControl>
                                           <FormMessage />
                                       </FormItem>
                                     )}
                                 />
+                                {translatedVideoUrl && (
+                                  <div className="space-y-3 border-t pt-4">
+                                    <div className="flex justify-between items-center">
+                                      <Label className="flex items-center gap-1"><Flag className="h-4 w-4" /> Checkpoints for the {locale.label} Video</Label>
+                                      <Button type="button" variant="outline" size="sm" onClick={() => setTranslationTimedEvents(prev => ({ ...prev, [locale.value]: timedEvents.map(event => ({ ...event, eventId: `${event.eventId}-${locale.value}` })) }))} disabled={timedEvents.length === 0}>
+                                        <Copy className="mr-2 h-4 w-4" /> Copy Main Checkpoints
+                                      </Button>
+                                    </div>
+                                    <VideoCheckpointsEditor
+                                      videoUrl={translatedVideoUrl}
+                                      events={translationTimedEvents[locale.value] || []}
+                                      onChange={(events) => setTranslationTimedEvents(prev => ({ ...prev, [locale.value]: events }))}
+                                      quizzes={quizzes}
+                                      idPrefix={locale.value}
+                                    />
+                                    <Label className="flex items-center gap-1 pt-2"><Captions className="h-4 w-4" /> Captions for the {locale.label} Video</Label>
+                                    <LessonCaptionsEditor
+                                      videoUrl={translatedVideoUrl}
+                                      tracks={translationCaptions[locale.value] || []}
+                                      onChange={(tracks) => setTranslationCaptions(prev => ({ ...prev, [locale.value]: tracks }))}
+                                      locales={CAPTION_LOCALES}
+                                      idPrefix={locale.value}
+                                      fileNamePrefix={`${initialData?.id || 'new-lesson'}-${locale.value}`}
+                                    />
+                                  </div>
+                                )}
                             </div>
                            )
                         })}
@@ -459,8 +539,8 @@ export function AddEditLessonDialog({
              <DialogClose asChild>
                <Button type="button" variant="outline">Cancel</Button>
              </DialogClose>
-            <Button type="submit" onClick={form.handleSubmit(onSubmit)} className="bg-primary hover:bg-primary/90" disabled={isSaving || isImageUploading || isVideoUploading || Object.values(translationVideoUploadState).some(s => s.uploading)}>
-              {(isSaving || isImageUploading || isVideoUploading) ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            <Button type="submit" onClick={form.handleSubmit(onSubmit)} className="bg-primary hover:bg-primary/90" disabled={isSaving || isImageUploading || isVideoUploading || isScormUploading || Object.values(translationVideoUploading).some(Boolean)}>
+              {(isSaving || isImageUploading || isVideoUploading || isScormUploading) ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
               {isEditing ? 'Save Changes' : 'Create Lesson'}
             </Button>
           </DialogFooter>
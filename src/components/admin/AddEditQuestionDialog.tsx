@@ -2,6 +2,7 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
 import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -19,9 +20,12 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -30,12 +34,14 @@ import {
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from '@/hooks/use-toast';
 import type { Question, QuestionFormData, QuestionType } from '@/types/course';
-import { PlusCircle, Trash2 } from 'lucide-react';
+import { PlusCircle, Trash2, ArrowUp, ArrowDown, Loader2, Image as ImageIconLucide } from 'lucide-react';
 import { addQuestionToQuiz } from '@/lib/firestore-data';
+import { uploadImage, STORAGE_PATHS } from '@/lib/storage';
 
 // Zod schema using discriminated union for question types
 const baseSchema = z.object({
   text: z.string().min(5, { message: 'Question text must be at least 5 characters.' }),
+  tag: z.string().max(50).optional().nullable(),
 });
 
 const multipleChoiceOptionSchema = z.object({
@@ -65,13 +71,54 @@ const multipleSelectSchema = baseSchema.extend({
   correctAnswers: z.array(z.string()).min(1, { message: "At least one correct answer must be selected for multiple select."}),
 });
 
+const shortAnswerSchema = baseSchema.extend({
+  type: z.literal('short-answer'),
+  options: z.array(multipleChoiceOptionSchema).optional(), // Not used by this specific type
+  correctAnswer: z.string().optional(), // Not used by this specific type
+  correctAnswers: z.array(z.string()).optional(), // Not used by this specific type
+  acceptedAnswers: z.array(z.object({ text: z.string().min(1, "Accepted answer cannot be empty.") }))
+    .min(1, "At least one accepted answer is required."),
+  caseSensitive: z.boolean().optional(),
+});
+
+const matchingSchema = baseSchema.extend({
+  type: z.literal('matching'),
+  options: z.array(multipleChoiceOptionSchema).optional(), // Derived from the pairs when saved
+  correctAnswer: z.string().optional(), // Not used by this specific type
+  correctAnswers: z.array(z.string()).optional(), // Not used by this specific type
+  matchingPairs: z.array(z.object({
+    prompt: z.string().min(1, "Prompt cannot be empty."),
+    match: z.string().min(1, "Match cannot be empty."),
+  })).min(2, "At least two pairs are required for matching."),
+});
+
+const orderingSchema = baseSchema.extend({
+  type: z.literal('ordering'),
+  options: z.array(multipleChoiceOptionSchema)
+    .min(2, "At least two items are required for ordering."), // Entered in the correct order
+  correctAnswer: z.string().optional(), // Not used by this specific type
+  correctAnswers: z.array(z.string()).optional(), // Taken from the option order when saved
+});
+
+const imageChoiceSchema = baseSchema.extend({
+  type: z.literal('image-choice'),
+  options: z.array(multipleChoiceOptionSchema.extend({ imageUrl: z.string().min(1, "Please upload an image.") }))
+    .min(2, "At least two options are required for image choice."),
+  correctAnswer: z.string().min(1, { message: 'Please select the correct image.' }),
+  correctAnswers: z.array(z.string()).optional(), // Not used by this specific type
+});
+
 const questionFormSchema = z.discriminatedUnion("type", [
   multipleChoiceSchema,
   trueFalseSchema,
   multipleSelectSchema,
+  shortAnswerSchema,
+  matchingSchema,
+  orderingSchema,
+  imageChoiceSchema,
 ])
-.refine(data => { // Uniqueness for options in MC and MS
-    if (data.type === 'multiple-choice' || data.type === 'multiple-select') {
+.refine(data => { // Uniqueness for options in MC, MS, ordering and image choice
+    if (data.type === 'multiple-choice' || data.type === 'multiple-select' || data.type === 'ordering' || data.type === 'image-choice') {
         const providedOptions = data.options.map(opt => opt.text.trim()).filter(Boolean);
         const uniqueOptions = new Set(providedOptions);
         return providedOptions.length === uniqueOptions.size;
@@ -81,8 +128,18 @@ const questionFormSchema = z.discriminatedUnion("type", [
     message: "Answer options must be unique.",
     path: ["options"],
 })
+.refine(data => { // Each prompt may appear only once in matching
+    if (data.type === 'matching') {
+        const prompts = data.matchingPairs.map(pair => pair.prompt.trim());
+        return prompts.length === new Set(prompts).size;
+    }
+    return true;
+}, {
+    message: "Matching prompts must be unique.",
+    path: ["matchingPairs"],
+})
 .refine(data => { // Correct answer(s) must be among provided options
-    if (data.type === 'multiple-choice') {
+    if (data.type === 'multiple-choice' || data.type === 'image-choice') {
         const providedOptionTexts = data.options.map(opt => opt.text.trim()).filter(Boolean);
         return data.correctAnswer && providedOptionTexts.includes(data.correctAnswer);
     }
@@ -99,6 +156,16 @@ const questionFormSchema = z.discriminatedUnion("type", [
 
 type QuestionFormValues = z.infer<typeof questionFormSchema>;
 
+const QUESTION_TYPE_LABELS: { value: QuestionType; label: string }[] = [
+  { value: 'multiple-choice', label: 'MC (Single)' },
+  { value: 'true-false', label: 'T/F' },
+  { value: 'multiple-select', label: 'MC (Multi)' },
+  { value: 'short-answer', label: 'Short Answer' },
+  { value: 'matching', label: 'Matching' },
+  { value: 'ordering', label: 'Ordering' },
+  { value: 'image-choice', label: 'Image Choice' },
+];
+
 interface AddEditQuestionDialogProps {
   isOpen: boolean;
   setIsOpen: (open: boolean) => void;
@@ -125,13 +192,24 @@ export function AddEditQuestionDialog({
       options: [{ text: '' }, { text: '' }],
       correctAnswer: '',
       correctAnswers: [],
+      tag: '',
     },
   });
 
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, move } = useFieldArray({
     control: form.control,
     name: "options" as any,
   });
+  const { fields: acceptedAnswerFields, append: appendAcceptedAnswer, remove: removeAcceptedAnswer } = useFieldArray({
+    control: form.control,
+    name: "acceptedAnswers" as any,
+  });
+  const { fields: matchingPairFields, append: appendMatchingPair, remove: removeMatchingPair } = useFieldArray({
+    control: form.control,
+    name: "matchingPairs" as any,
+  });
+  const [uploadingOptionIndex, setUploadingOptionIndex] = useState<number | null>(null);
+  const [optionImageUploadProgress, setOptionImageUploadProgress] = useState(0);
 
   const questionType = form.watch('type');
   const watchedOptions = form.watch('options' as any) || [];
@@ -144,14 +222,33 @@ export function AddEditQuestionDialog({
         options: [{ text: '' }, { text: '' }],
         correctAnswer: '',
         correctAnswers: [],
+        tag: '',
       });
     }
   }, [form, isOpen]);
 
+  const handleOptionImageFileChange = async (index: number, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setUploadingOptionIndex(index);
+    setOptionImageUploadProgress(0);
+    try {
+      const storagePath = `${STORAGE_PATHS.QUIZ_OPTION_IMAGES}/${quizId}-${Date.now()}-${file.name}`;
+      const downloadURL = await uploadImage(file, storagePath, setOptionImageUploadProgress);
+      form.setValue(`options.${index}.imageUrl` as any, downloadURL, { shouldValidate: true });
+      toast({ title: "Image Uploaded", description: `Image for option ${index + 1} successfully uploaded.` });
+    } catch (error: any) {
+      toast({ title: "Upload Failed", description: error.message || "Could not upload the option image.", variant: "destructive" });
+    } finally {
+      setUploadingOptionIndex(null);
+    }
+  };
+
   const onSubmit = async (data: QuestionFormValues) => {
     try {
       let optionsForStorage: string[] = [];
-      if (data.type === 'multiple-choice' || data.type === 'multiple-select') {
+      if (data.type === 'multiple-choice' || data.type === 'multiple-select' || data.type === 'ordering' || data.type === 'image-choice') {
         optionsForStorage = data.options.map(opt => opt.text.trim()).filter(Boolean);
       } else if (data.type === 'true-false') {
         optionsForStorage = ["True", "False"];
@@ -161,14 +258,19 @@ export function AddEditQuestionDialog({
         type: data.type,
         text: data.text,
         options: optionsForStorage,
-        correctAnswer: (data.type === 'multiple-choice' || data.type === 'true-false') ? data.correctAnswer : undefined,
-        correctAnswers: data.type === 'multiple-select' ? data.correctAnswers : undefined,
+        correctAnswer: (data.type === 'multiple-choice' || data.type === 'true-false' || data.type === 'image-choice') ? data.correctAnswer : undefined,
+        correctAnswers: data.type === 'multiple-select' ? data.correctAnswers : data.type === 'ordering' ? optionsForStorage : undefined,
+        acceptedAnswers: data.type === 'short-answer' ? data.acceptedAnswers.map(answer => answer.text.trim()).filter(Boolean) : undefined,
+        caseSensitive: data.type === 'short-answer' ? !!data.caseSensitive : undefined,
+        matchingPairs: data.type === 'matching' ? data.matchingPairs.map(pair => ({ prompt: pair.prompt.trim(), match: pair.match.trim() })) : undefined,
+        optionImages: data.type === 'image-choice' ? data.options.map(opt => opt.imageUrl) : undefined,
+        tag: data.tag || null,
       };
 
       const savedQuestion = await addQuestionToQuiz(quizId, questionPayload);
 
       if (savedQuestion) {
-        toast({ title: 'Question Added', description: `The question has been successfully saved.` });
+        toast({ title: 'Question Added', description: `The question was added to the quiz draft. Publish the quiz to make it live.` });
         onQuestionSaved(savedQuestion);
         handleClose();
       } else {
@@ -184,7 +286,8 @@ export function AddEditQuestionDialog({
     setIsOpen(false);
   };
 
-  const currentOptionsForDisplay = (questionType === 'multiple-choice' || questionType === 'multiple-select')
+  const usesOptionList = questionType === 'multiple-choice' || questionType === 'multiple-select' || questionType === 'ordering' || questionType === 'image-choice';
+  const currentOptionsForDisplay: { text: string; imageUrl?: string }[] = usesOptionList
     ? watchedOptions
     : [{ text: 'True' }, { text: 'False' }];
 
@@ -208,6 +311,9 @@ export function AddEditQuestionDialog({
                     <RadioGroup
                       onValueChange={(value) => {
                         field.onChange(value as QuestionType);
+                        form.setValue('acceptedAnswers' as any, value === 'short-answer' ? [{ text: '' }] : []);
+                        form.setValue('caseSensitive' as any, false);
+                        form.setValue('matchingPairs' as any, value === 'matching' ? [{ prompt: '', match: '' }, { prompt: '', match: '' }] : []);
                         if (value === 'multiple-choice') {
                           form.setValue('options' as any, [{ text: '' }, { text: '' }]);
                           form.setValue('correctAnswers', []);
@@ -216,18 +322,26 @@ export function AddEditQuestionDialog({
                           form.setValue('options' as any, []);
                           form.setValue('correctAnswers', []);
                           form.setValue('correctAnswer', '');
-                        } else if (value === 'multiple-select') {
+                        } else if (value === 'multiple-select' || value === 'ordering') {
                           form.setValue('options' as any, [{ text: '' }, { text: '' }]);
                           form.setValue('correctAnswer', '');
                           form.setValue('correctAnswers', []);
+                        } else if (value === 'image-choice') {
+                          form.setValue('options' as any, [{ text: '', imageUrl: '' }, { text: '', imageUrl: '' }]);
+                          form.setValue('correctAnswer', '');
+                          form.setValue('correctAnswers', []);
+                        } else {
+                          form.setValue('options' as any, []);
+                          form.setValue('correctAnswer', '');
+                          form.setValue('correctAnswers', []);
                         }
                       }}
                       value={field.value}
-                      className="flex space-x-4"
+                      className="flex flex-wrap gap-x-4 gap-y-2"
                     >
-                      <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="multiple-choice" /></FormControl><FormLabel className="font-normal">MC (Single)</FormLabel></FormItem>
-                      <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="true-false" /></FormControl><FormLabel className="font-normal">T/F</FormLabel></FormItem>
-                      <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="multiple-select" /></FormControl><FormLabel className="font-normal">MC (Multi)</FormLabel></FormItem>
+                      {QUESTION_TYPE_LABELS.map(({ value, label }) => (
+                        <FormItem key={value} className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value={value} /></FormControl><FormLabel className="font-normal">{label}</FormLabel></FormItem>
+                      ))}
                     </RadioGroup>
                   </FormControl>
                   <FormMessage />
@@ -236,22 +350,76 @@ export function AddEditQuestionDialog({
             />
 
             <FormField control={form.control} name="text" render={({ field }) => (<FormItem><FormLabel>Question Text</FormLabel><FormControl><Textarea rows={3} placeholder="Enter the question text..." {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="tag" render={({ field }) => (<FormItem><FormLabel>Tag (Optional)</FormLabel><FormControl><Input placeholder="e.g., Safety" {...field} value={field.value ?? ''} /></FormControl><FormDescription>Used to balance random question draws across topics.</FormDescription><FormMessage /></FormItem>)} />
             
-            {(questionType === 'multiple-choice' || questionType === 'multiple-select') && (
+            {usesOptionList && (
               <div className="space-y-3">
-                <FormLabel>Answer Options</FormLabel>
+                <FormLabel>{questionType === 'ordering' ? 'Items (In Correct Order)' : 'Answer Options'}</FormLabel>
+                {questionType === 'ordering' && <FormDescription>Learners see these items shuffled and must put them back in this order.</FormDescription>}
                 {fields.map((item, index) => (
                   <FormField key={item.id} control={form.control} name={`options.${index}.text` as any} render={({ field }) => (
-                    <FormItem><div className="flex items-center gap-2"><FormControl><Input placeholder={`Option ${index + 1}`} {...field} /></FormControl>{fields.length > 2 && (<Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} className="text-destructive hover:bg-destructive/10"><Trash2 className="h-4 w-4" /></Button>)}</div><FormMessage /></FormItem>
+                    <FormItem>
+                      <div className="flex items-center gap-2">
+                        {questionType === 'image-choice' && (
+                          <div className="relative h-16 w-16 shrink-0 border border-dashed rounded-md bg-muted flex items-center justify-center overflow-hidden">
+                            {uploadingOptionIndex === index ? (
+                              <div className="w-full px-1"><Loader2 className="h-4 w-4 animate-spin text-primary mx-auto mb-1" /><Progress value={optionImageUploadProgress} className="w-full h-1" /></div>
+                            ) : currentOptionsForDisplay[index]?.imageUrl ? (
+                              <Image src={currentOptionsForDisplay[index].imageUrl as string} alt={`Option ${index + 1}`} fill style={{ objectFit: 'cover' }} />
+                            ) : (
+                              <Label htmlFor={`option-image-upload-${index}`} className="cursor-pointer"><ImageIconLucide className="h-6 w-6 text-muted-foreground" /><Input id={`option-image-upload-${index}`} type="file" accept="image/*" className="hidden" onChange={(e) => handleOptionImageFileChange(index, e)} disabled={uploadingOptionIndex !== null} /></Label>
+                            )}
+                          </div>
+                        )}
+                        <FormControl><Input placeholder={questionType === 'image-choice' ? `Label for image ${index + 1}` : `Option ${index + 1}`} {...field} /></FormControl>
+                        {questionType === 'image-choice' && currentOptionsForDisplay[index]?.imageUrl && (<Button type="button" variant="ghost" size="icon" onClick={() => form.setValue(`options.${index}.imageUrl` as any, '')} title="Replace image"><ImageIconLucide className="h-4 w-4" /></Button>)}
+                        {questionType === 'ordering' && (<><Button type="button" variant="ghost" size="icon" onClick={() => move(index, index - 1)} disabled={index === 0}><ArrowUp className="h-4 w-4" /></Button><Button type="button" variant="ghost" size="icon" onClick={() => move(index, index + 1)} disabled={index === fields.length - 1}><ArrowDown className="h-4 w-4" /></Button></>)}
+                        {fields.length > 2 && (<Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} className="text-destructive hover:bg-destructive/10"><Trash2 className="h-4 w-4" /></Button>)}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
                   )}/>
                 ))}
-                <Button type="button" variant="outline" size="sm" onClick={() => append({ text: '' })} className="mt-2"><PlusCircle className="mr-2 h-4 w-4"/>Add Option</Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => append(questionType === 'image-choice' ? { text: '', imageUrl: '' } : { text: '' })} className="mt-2"><PlusCircle className="mr-2 h-4 w-4"/>{questionType === 'ordering' ? 'Add Item' : 'Add Option'}</Button>
                 {form.formState.errors.options && !Array.isArray(form.formState.errors.options) && form.formState.errors.options.message && (<p className="text-sm font-medium text-destructive">{form.formState.errors.options.message}</p>)}
-                {Array.isArray(form.formState.errors.options) && form.formState.errors.options.map((error: any, index: number) => (error && error.text && <p key={index} className="text-sm font-medium text-destructive">Option {index+1}: {error.text.message}</p>))}
+                {Array.isArray(form.formState.errors.options) && form.formState.errors.options.map((error: any, index: number) => (error && (error.text || error.imageUrl) && <p key={index} className="text-sm font-medium text-destructive">Option {index+1}: {(error.text || error.imageUrl).message}</p>))}
+              </div>
+            )}
+
+            {questionType === 'short-answer' && (
+              <div className="space-y-3">
+                <FormLabel>Accepted Answers</FormLabel>
+                <FormDescription>Any of these counts as correct. Leading, trailing and repeated spaces are ignored.</FormDescription>
+                {acceptedAnswerFields.map((item, index) => (
+                  <FormField key={item.id} control={form.control} name={`acceptedAnswers.${index}.text` as any} render={({ field }) => (
+                    <FormItem><div className="flex items-center gap-2"><FormControl><Input placeholder={`Accepted answer ${index + 1}`} {...field} /></FormControl>{acceptedAnswerFields.length > 1 && (<Button type="button" variant="ghost" size="icon" onClick={() => removeAcceptedAnswer(index)} className="text-destructive hover:bg-destructive/10"><Trash2 className="h-4 w-4" /></Button>)}</div><FormMessage /></FormItem>
+                  )}/>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={() => appendAcceptedAnswer({ text: '' })} className="mt-2"><PlusCircle className="mr-2 h-4 w-4"/>Add Variant</Button>
+                <FormField control={form.control} name={"caseSensitive" as any} render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3"><div className="space-y-0.5"><FormLabel>Case Sensitive</FormLabel><FormDescription>Require the exact capitalization of an accepted answer.</FormDescription></div><FormControl><Switch checked={!!field.value} onCheckedChange={field.onChange} /></FormControl></FormItem>
+                )}/>
+                {(form.formState.errors as any).acceptedAnswers?.message && (<p className="text-sm font-medium text-destructive">{(form.formState.errors as any).acceptedAnswers.message}</p>)}
+              </div>
+            )}
+
+            {questionType === 'matching' && (
+              <div className="space-y-3">
+                <FormLabel>Matching Pairs</FormLabel>
+                <FormDescription>Learners choose the matching item for each prompt. Matches may repeat.</FormDescription>
+                {matchingPairFields.map((item, index) => (
+                  <div key={item.id} className="flex items-start gap-2">
+                    <FormField control={form.control} name={`matchingPairs.${index}.prompt` as any} render={({ field }) => (<FormItem className="flex-1"><FormControl><Input placeholder={`Prompt ${index + 1}`} {...field} /></FormControl><FormMessage /></FormItem>)}/>
+                    <FormField control={form.control} name={`matchingPairs.${index}.match` as any} render={({ field }) => (<FormItem className="flex-1"><FormControl><Input placeholder={`Match ${index + 1}`} {...field} /></FormControl><FormMessage /></FormItem>)}/>
+                    {matchingPairFields.length > 2 && (<Button type="button" variant="ghost" size="icon" onClick={() => removeMatchingPair(index)} className="text-destructive hover:bg-destructive/10"><Trash2 className="h-4 w-4" /></Button>)}
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={() => appendMatchingPair({ prompt: '', match: '' })} className="mt-2"><PlusCircle className="mr-2 h-4 w-4"/>Add Pair</Button>
+                {(form.formState.errors as any).matchingPairs?.message && (<p className="text-sm font-medium text-destructive">{(form.formState.errors as any).matchingPairs.message}</p>)}
               </div>
             )}
 
-            {questionType === 'multiple-choice' && (
+            {(questionType === 'multiple-choice' || questionType === 'image-choice') && (
               <FormField control={form.control} name="correctAnswer" render={({ field }) => (
                 <FormItem className="space-y-3"><FormLabel>Correct Answer (Pick One)</FormLabel><FormControl><RadioGroup onValueChange={field.onChange} value={field.value} className="flex flex-col space-y-1">
                   {currentOptionsForDisplay.filter(option => option.text.trim() !== '').map((option, index) => (<FormItem key={`mc-correct-${index}`} className="flex items-center space-x-3"><FormControl><RadioGroupItem value={option.text} id={`mc-correct-${index}-${option.text}`} /></FormControl><Label htmlFor={`mc-correct-${index}-${option.text}`} className="font-normal">{option.text}</Label></FormItem>))}
@@ -283,7 +451,7 @@ export function AddEditQuestionDialog({
             
             <DialogFooter>
               <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
-              <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={(questionType === 'multiple-choice' || questionType === 'multiple-select') && currentOptionsForDisplay.filter(opt => opt.text.trim() !== '').length < 2}>Add Question</Button>
+              <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={uploadingOptionIndex !== null || (usesOptionList && currentOptionsForDisplay.filter(opt => opt.text.trim() !== '').length < 2)}>Add Question</Button>
             </DialogFooter>
           </form>
         </Form>
@@ -0,0 +1,227 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Database, Loader2, PlugZap, RotateCcw } from 'lucide-react';
+import { getBrandLrsSettings, getXapiQueueSummary } from '@/lib/xapi-data';
+import { retryFailedXapiStatements, saveLrsSettings, testLrsConnection } from '@/actions/xapi';
+import { auth } from '@/lib/firebase';
+import type { XapiQueueSummary } from '@/types/xapi';
+
+const lrsSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  endpoint: z.string().url({ message: 'Enter the full endpoint URL, e.g. https://lrs.example.com/xapi' }).or(z.literal('')),
+  username: z.string().optional(),
+  password: z.string().optional(),
+}).refine(values => !values.enabled || !!values.endpoint, { message: 'An endpoint is required to send statements.', path: ['endpoint'] });
+
+type LrsSettingsFormValues = z.infer<typeof lrsSettingsSchema>;
+
+interface BrandLrsSettingsCardProps {
+  brandId: string;
+}
+
+// The server actions check who is calling with the signed-in user's ID token
+const getIdToken = async () => (await auth.currentUser?.getIdToken()) || '';
+
+/**
+ * Where a brand's xAPI statements are sent, and how delivery is going.
+ * Child brands without their own LRS use their parent brand's. The secret is write-only: the form only shows whether one is saved.
+ */
+export function BrandLrsSettingsCard({ brandId }: BrandLrsSettingsCardProps) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [summary, setSummary] = useState<XapiQueueSummary | null>(null);
+  const [hasPassword, setHasPassword] = useState(false);
+  const [removePassword, setRemovePassword] = useState(false);
+
+  const form = useForm<LrsSettingsFormValues>({
+    resolver: zodResolver(lrsSettingsSchema),
+    defaultValues: { enabled: false, endpoint: '', username: '', password: '' },
+  });
+
+  const loadSettings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [settings, queueSummary] = await Promise.all([getBrandLrsSettings(brandId), getXapiQueueSummary(brandId).catch(() => null)]);
+      form.reset({
+        enabled: settings?.enabled ?? false,
+        endpoint: settings?.endpoint ?? '',
+        username: settings?.username ?? '',
+        password: '',
+      });
+      setHasPassword(!!settings?.hasPassword);
+      setRemovePassword(false);
+      setSummary(queueSummary);
+    } catch (error) {
+      console.error("Failed to load LRS settings:", error);
+      toast({ title: "Error", description: "Could not load the LRS settings.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [brandId, form, toast]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const onSubmit = async (values: LrsSettingsFormValues) => {
+    setIsSaving(true);
+    try {
+      const result = await saveLrsSettings(await getIdToken(), brandId, {
+        enabled: values.enabled,
+        endpoint: values.endpoint,
+        username: values.username || '',
+        password: values.password || '',
+        removePassword,
+      });
+      if (!result.success || !result.settings) throw new Error(result.error || "The settings could not be saved.");
+      const saved = result.settings;
+      form.reset({ enabled: saved.enabled, endpoint: saved.endpoint, username: saved.username, password: '' });
+      setHasPassword(saved.hasPassword);
+      setRemovePassword(false);
+      toast({ title: "LRS Settings Saved", description: saved.enabled ? "Learning statements will be sent to this LRS." : "Statement delivery is turned off." });
+    } catch (error: any) {
+      toast({ title: "Save Failed", description: error.message || "Could not save the LRS settings.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Tests what is saved, so unsaved changes have to be saved first
+  const handleTestConnection = async () => {
+    if (form.formState.isDirty || removePassword) {
+      toast({ title: "Save First", description: "Save your changes, then test the connection.", variant: "destructive" });
+      return;
+    }
+    setIsTesting(true);
+    try {
+      const result = await testLrsConnection(await getIdToken(), brandId);
+      if (result.success) {
+        toast({ title: "Connection Successful", description: result.message });
+      } else {
+        toast({ title: "Connection Failed", description: result.error, variant: "destructive" });
+      }
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    setIsRetrying(true);
+    try {
+      const result = await retryFailedXapiStatements(await getIdToken(), brandId);
+      if (!result.success) throw new Error(result.error);
+      toast({ title: "Statements Requeued", description: `${result.requeued} statement${result.requeued === 1 ? '' : 's'} will be sent again.` });
+      setSummary(await getXapiQueueSummary(brandId).catch(() => summary));
+    } catch (error: any) {
+      toast({ title: "Retry Failed", description: error.message || "Could not requeue the statements.", variant: "destructive" });
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-3xl mx-auto mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl"><Database className="h-5 w-5" /> Learning Record Store (xAPI)</CardTitle>
+        <CardDescription>
+          Send learners' activity to your LRS as xAPI statements: courses launched, lessons viewed, quiz answers and results, and course completions.
+          Brands without their own LRS use their parent account's.
+        </CardDescription>
+      </CardHeader>
+      {isLoading ? (
+        <CardContent className="py-8"><Loader2 className="h-6 w-6 animate-spin mx-auto text-primary" /></CardContent>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <CardContent className="space-y-4">
+              <FormField control={form.control} name="enabled" render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                  <div className="space-y-0.5">
+                    <FormLabel>Send Statements</FormLabel>
+                    <FormDescription className="text-xs">Statements that can't be delivered are retried with increasing delays for about a day.</FormDescription>
+                  </div>
+                  <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="endpoint" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Endpoint</FormLabel>
+                  <FormControl><Input placeholder="https://lrs.example.com/xapi" {...field} /></FormControl>
+                  <FormDescription className="text-xs">The xAPI base URL; statements are posted to its /statements resource.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField control={form.control} name="username" render={({ field }) => (
+                  <FormItem><FormLabel>Key</FormLabel><FormControl><Input autoComplete="off" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="password" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Secret</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder={hasPassword && !removePassword ? 'Saved. Enter a new secret to replace it' : 'Not set'}
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(event) => { field.onChange(event); setRemovePassword(false); }}
+                      />
+                    </FormControl>
+                    {hasPassword && !field.value && (
+                      <FormDescription className="text-xs">
+                        {removePassword ? 'The saved secret will be removed when you save. ' : 'A secret is saved. It is never shown. '}
+                        <button type="button" className="underline" onClick={() => setRemovePassword(!removePassword)}>{removePassword ? 'Keep it' : 'Remove it'}</button>
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              </div>
+              {summary && (summary.sent > 0 || summary.pending > 0 || summary.failed > 0) && (
+                <div className="rounded-lg border p-3 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="secondary">{summary.sent} sent</Badge>
+                    <Badge variant="outline">{summary.pending} waiting</Badge>
+                    {summary.failed > 0 && <Badge variant="destructive">{summary.failed} failed</Badge>}
+                    {summary.failed > 0 && (
+                      <Button type="button" variant="outline" size="sm" className="ml-auto" onClick={handleRetryFailed} disabled={isRetrying}>
+                        {isRetrying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />} Retry Failed
+                      </Button>
+                    )}
+                  </div>
+                  {summary.lastError && (
+                    <Alert variant="destructive"><AlertDescription className="text-xs break-words">Last error: {summary.lastError}</AlertDescription></Alert>
+                  )}
+                </div>
+              )}
+            </CardContent>
+            <CardFooter className="flex justify-between gap-2">
+              <Button type="button" variant="outline" onClick={handleTestConnection} disabled={isTesting || isSaving}>
+                {isTesting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlugZap className="mr-2 h-4 w-4" />} Test Connection
+              </Button>
+              <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save LRS Settings
+              </Button>
+            </CardFooter>
+          </form>
+        </Form>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Loader2 } from 'lucide-react';
+import { copyCourseToLibrary } from '@/lib/course-package';
+import { CoursePackageImportSummary } from '@/components/course-packages/CoursePackageImportSummary';
+import type { Course, CoursePackageImportReport } from '@/types/course';
+import type { Company } from '@/types/user';
+
+interface CopyCourseToBrandDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  course: Course | null;
+  brands: Company[];
+}
+
+/**
+ * Copies a global course, with its lessons and quizzes, into a brand's library as a brand course the brand can edit.
+ */
+export function CopyCourseToBrandDialog({ isOpen, setIsOpen, course, brands }: CopyCourseToBrandDialogProps) {
+  const { toast } = useToast();
+  const [brandId, setBrandId] = useState('');
+  const [progress, setProgress] = useState<{ message: string; percent: number } | null>(null);
+  const [report, setReport] = useState<CoursePackageImportReport | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setBrandId('');
+      setProgress(null);
+      setReport(null);
+    }
+  }, [isOpen]);
+
+  const selectedBrand = brands.find(brand => brand.id === brandId);
+  const isCopying = progress !== null;
+
+  const handleCopy = async () => {
+    if (!course || !brandId) return;
+    setProgress({ message: "Starting...", percent: 0 });
+    try {
+      const result = await copyCourseToLibrary({ type: 'global' }, course.id, { type: 'brand', brandId }, (message, percent) => setProgress({ message, percent }));
+      toast({ title: "Course Copied", description: `"${course.title}" is now in ${selectedBrand?.name || 'the brand'}'s library.` });
+      if (result.warnings.length > 0) {
+        setReport(result);
+      } else {
+        setIsOpen(false);
+      }
+    } catch (error: any) {
+      toast({ title: "Copy Failed", description: error.message || "The course could not be copied.", variant: "destructive" });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isCopying && setIsOpen(open)}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Copy Course to Brand</DialogTitle>
+          <DialogDescription>
+            Adds a copy of &quot;{course?.title}&quot; and its lessons and quizzes to a brand&apos;s library. The brand can edit the copy;
+            changes to the global course are not carried over.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="py-2"><CoursePackageImportSummary report={report} /></div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-1">
+              <Label htmlFor="copy-course-brand">Brand</Label>
+              <Select value={brandId} onValueChange={setBrandId} disabled={isCopying}>
+                <SelectTrigger id="copy-course-brand"><SelectValue placeholder="Select a brand" /></SelectTrigger>
+                <SelectContent>
+                  {brands.map(brand => <SelectItem key={brand.id} value={brand.id}>{brand.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              {selectedBrand && !selectedBrand.canManageCourses && (
+                <p className="text-xs text-muted-foreground">This brand can&apos;t manage courses yet. Turn on course management for it to edit the copy.</p>
+              )}
+            </div>
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={progress.percent} className="h-2" />
+                <p className="text-xs text-muted-foreground">{progress.message}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <DialogClose asChild><Button type="button">Done</Button></DialogClose>
+          ) : (
+            <>
+              <DialogClose asChild><Button type="button" variant="outline" disabled={isCopying}>Cancel</Button></DialogClose>
+              <Button type="button" onClick={handleCopy} disabled={!course || !brandId || isCopying} className="bg-primary hover:bg-primary/90">
+                {isCopying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Copy className="mr-2 h-4 w-4" />}
+                Copy Course
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
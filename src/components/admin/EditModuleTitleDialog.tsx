@@ -1,3 +1,84 @@
+'use client';
 
-// This file is intentionally left empty to indicate deletion.
-// The build system or file management process should remove this file.
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface EditModuleTitleDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  isNewModule: boolean;
+  initialTitle: string;
+  onSave: (title: string) => Promise<void>;
+}
+
+export function EditModuleTitleDialog({
+  isOpen,
+  setIsOpen,
+  isNewModule,
+  initialTitle,
+  onSave,
+}: EditModuleTitleDialogProps) {
+  const [title, setTitle] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) setTitle(initialTitle);
+  }, [isOpen, initialTitle]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!title.trim()) {
+      toast({ title: "Title Required", description: "Please enter a module title.", variant: "destructive" });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave(title.trim());
+      setIsOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{isNewModule ? 'Add Module' : 'Rename Module'}</DialogTitle>
+            <DialogDescription>
+              Modules group the lessons and quizzes of a course into sections.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-2">
+            <Label htmlFor="module-title">Module Title</Label>
+            <Input id="module-title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g., Getting Started" autoFocus />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button type="submit" disabled={isSaving} className="bg-primary hover:bg-primary/90">
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isNewModule ? 'Add Module' : 'Save Title'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -32,6 +32,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -41,7 +42,9 @@ import type { BrandCourse, BrandCourseFormData, CourseTranslation } from '@/type
 import { createBrandCourse, updateBrandCourseMetadata } from '@/lib/brand-content-data';
 import { useToast } from '@/hooks/use-toast';
 import { uploadImage, STORAGE_PATHS } from '@/lib/storage';
-import { Loader2, Upload, ImageIcon, Trash2, Award, Globe, Languages, Wand2 } from 'lucide-react';
+import { getCertificateTemplatesByBrandId, getPlatformCertificateTemplates } from '@/lib/certificate-template-data';
+import type { CertificateTemplate } from '@/types/certificate';
+import { Loader2, Upload, ImageIcon, Trash2, Award, Globe, Languages, Wand2, RefreshCw } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { translateContent } from '@/ai/flows/translate-content';
 import { Alert, AlertDescription } from '../ui/alert';
@@ -74,6 +77,7 @@ const brandCourseFormSchema = z.object({
   level: z.enum(['Beginner', 'Intermediate', 'Advanced'], { required_error: 'Please select a difficulty level.' }),
   duration: z.string().min(3, { message: 'Please enter an approximate duration.' }),
   certificateTemplateId: z.string().optional().nullable(),
+  validityMonths: z.string().regex(/^\d{0,3}$/, { message: 'Enter a whole number of months.' }).optional(),
   translations: z.record(courseTranslationSchema).optional(),
 });
 
@@ -87,13 +91,6 @@ interface AddEditBrandCourseDialogProps {
   initialData: BrandCourse | null;
 }
 
-const CERTIFICATE_TEMPLATES = [
-    { value: 'template-a', label: 'Template A - Modern Blue' },
-    { value: 'template-b', label: 'Template B - Classic Gold' },
-    { value: 'template-c', label: 'Template C - Formal Silver' },
-    { value: 'template-d', label: 'Template D - Creative Green' },
-];
-
 export function AddEditBrandCourseDialog({ isOpen, setIsOpen, brandId, onCourseSaved, initialData }: AddEditBrandCourseDialogProps) {
   const isEditing = !!initialData;
   const { toast } = useToast();
@@ -102,6 +99,17 @@ export function AddEditBrandCourseDialog({ isOpen, setIsOpen, brandId, onCourseS
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [isTranslating, setIsTranslating] = useState<Record<string, boolean>>({});
+  const [certificateTemplates, setCertificateTemplates] = useState<CertificateTemplate[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    Promise.all([getCertificateTemplatesByBrandId(brandId), getPlatformCertificateTemplates()]).then(([brandTemplates, platformTemplates]) => [...brandTemplates, ...platformTemplates])
+      .then(setCertificateTemplates)
+      .catch(error => {
+        console.error("Failed to fetch certificate templates:", error);
+        setCertificateTemplates([]);
+      });
+  }, [isOpen, brandId]);
 
   const form = useForm<BrandCourseFormValues>({
     resolver: zodResolver(brandCourseFormSchema),
@@ -114,6 +122,7 @@ export function AddEditBrandCourseDialog({ isOpen, setIsOpen, brandId, onCourseS
       level: undefined, // Let placeholder show
       duration: '',
       certificateTemplateId: null,
+      validityMonths: '',
       translations: {},
     },
   });
@@ -132,6 +141,7 @@ export function AddEditBrandCourseDialog({ isOpen, setIsOpen, brandId, onCourseS
             level: initialData.level,
             duration: initialData.duration || '',
             certificateTemplateId: initialData.certificateTemplateId || null,
+            validityMonths: initialData.validityMonths ? String(initialData.validityMonths) : '',
             translations: initialData.translations || {},
           });
         } else {
@@ -144,6 +154,7 @@ export function AddEditBrandCourseDialog({ isOpen, setIsOpen, brandId, onCourseS
             level: undefined,
             duration: '',
             certificateTemplateId: null,
+            validityMonths: '',
             translations: {},
           });
         }
@@ -253,6 +264,7 @@ export function AddEditBrandCourseDialog({ isOpen, setIsOpen, brandId, onCourseS
         level: data.level,
         duration: data.duration,
         certificateTemplateId: data.certificateTemplateId || null,
+        validityMonths: data.validityMonths ? parseInt(data.validityMonths, 10) || null : null,
         translations: data.translations,
     };
 
@@ -265,7 +277,7 @@ export function AddEditBrandCourseDialog({ isOpen, setIsOpen, brandId, onCourseS
         }
 
         if (savedCourse) {
-            toast({ title: isEditing ? 'Course Updated' : 'Course Created', description: `"${savedCourse.title}" has been successfully saved.` });
+            toast({ title: isEditing ? 'Draft Saved' : 'Course Created', description: isEditing ? `Changes to "${savedCourse.title}" were saved as a draft. Publish them to make them live.` : `"${savedCourse.title}" has been successfully saved.` });
             onCourseSaved(savedCourse);
             handleClose(); // Close dialog on success
         } else {
@@ -322,7 +334,8 @@ export function AddEditBrandCourseDialog({ isOpen, setIsOpen, brandId, onCourseS
                  </FormItem>
                  <FormField control={form.control} name="level" render={({ field }) => ( <FormItem><FormLabel>Difficulty Level</FormLabel><Select onValueChange={field.onChange} value={field.value} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select a level" /></SelectTrigger></FormControl><SelectContent><SelectItem value="Beginner">Beginner</SelectItem><SelectItem value="Intermediate">Intermediate</SelectItem><SelectItem value="Advanced">Advanced</SelectItem></SelectContent></Select><FormMessage /></FormItem> )}/>
                  <FormField control={form.control} name="duration" render={({ field }) => ( <FormItem><FormLabel>Approximate Duration</FormLabel><FormControl><Input placeholder="e.g., Approx. 2 hours" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem> )}/>
-                 <FormField control={form.control} name="certificateTemplateId" render={({ field }) => ( <FormItem><FormLabel className="flex items-center gap-1"><Award className="h-4 w-4"/> Certificate Template</FormLabel><Select onValueChange={(value) => field.onChange(value === 'none' ? null : value)} value={field.value || 'none'}><FormControl><SelectTrigger><SelectValue placeholder="Select a certificate template" /></SelectTrigger></FormControl><SelectContent><SelectItem value="none">None (Default)</SelectItem>{CERTIFICATE_TEMPLATES.map(template => ( <SelectItem key={template.value} value={template.value}>{template.label}</SelectItem> ))}</SelectContent></Select><FormMessage /></FormItem> )}/>
+                 <FormField control={form.control} name="certificateTemplateId" render={({ field }) => ( <FormItem><FormLabel className="flex items-center gap-1"><Award className="h-4 w-4"/> Certificate Template</FormLabel><Select onValueChange={(value) => field.onChange(value === 'none' ? null : value)} value={field.value || 'none'}><FormControl><SelectTrigger><SelectValue placeholder="Select a certificate template" /></SelectTrigger></FormControl><SelectContent><SelectItem value="none">None (Default)</SelectItem>{certificateTemplates.map(template => ( <SelectItem key={template.id} value={template.id}>{template.name}{template.brandId ? '' : ' (Platform)'}</SelectItem> ))}</SelectContent></Select><FormMessage /></FormItem> )}/>
+                 <FormField control={form.control} name="validityMonths" render={({ field }) => ( <FormItem><FormLabel className="flex items-center gap-1"><RefreshCw className="h-4 w-4"/> Recertify Every (Months)</FormLabel><FormControl><Input type="number" min={1} placeholder="Never expires" {...field} value={field.value ?? ''} /></FormControl><FormDescription>For training that must be redone, such as CPR or equipment safety. When a completion expires, the course is reset and the learner is asked to take it again.</FormDescription><FormMessage /></FormItem> )}/>
               </TabsContent>
                <TabsContent value="translations" className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
                 <Alert><AlertDescription>Provide translations for the course title and descriptions. If a translation is not provided, the main English content will be used.</AlertDescription></Alert>
@@ -22,14 +22,27 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
-import { createBrandLesson, updateBrandLesson } from '@/lib/brand-content-data';
+import { createBrandLesson, updateBrandLesson, getBrandQuizzesByBrandId } from '@/lib/brand-content-data';
 import { uploadImage, STORAGE_PATHS } from '@/lib/storage';
-import type { BrandLesson, BrandLessonFormData, LessonTranslation } from '@/types/course';
-import { Upload, PlaySquare, FileUp, Image as ImageIconLucide, Trash2, Loader2, Video, Globe, Languages, Wand2 } from 'lucide-react';
+import type { BrandLesson, BrandLessonFormData, BrandQuiz, LessonTranslation, LessonTimedEvent, LessonCaptionTrack, LessonType, ScormPackage } from '@/types/course';
+import { Upload, PlaySquare, Image as ImageIconLucide, Trash2, Loader2, Globe, Languages, Wand2, Flag, Copy, Captions, Package } from 'lucide-react';
 import RichTextEditor from '@/components/ui/RichTextEditor';
+import { VideoCheckpointsEditor } from '@/components/lessons/VideoCheckpointsEditor';
+import { LessonCaptionsEditor } from '@/components/lessons/LessonCaptionsEditor';
+import { LessonVideoUploader } from '@/components/lessons/LessonVideoUploader';
+import { ScormPackageUploader } from '@/components/lessons/ScormPackageUploader';
+import { refreshLessonVideoAsset } from '@/lib/video-asset-data';
+import type { LessonVideoAsset } from '@/types/video';
 import { translateContent } from '@/ai/flows/translate-content';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from '../ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 const SUPPORTED_LOCALES = [
   { value: 'es', label: 'Spanish' },
@@ -41,6 +54,9 @@ const SUPPORTED_LOCALES = [
   { value: 'zh', label: 'Chinese' },
 ];
 
+// Captions can be added in English as well as the translated languages
+const CAPTION_LOCALES = [{ value: 'en', label: 'English' }, ...SUPPORTED_LOCALES];
+
 const lessonTranslationSchema = z.object({
   title: z.string().optional().or(z.literal('')),
   content: z.string().optional().or(z.literal('')),
@@ -81,15 +97,24 @@ export function AddEditBrandLessonDialog({
   const { toast } = useToast();
   const [isSaving, setIsSaving] = useState(false);
   const [isVideoUploading, setIsVideoUploading] = useState(false);
-  const [videoUploadProgress, setVideoUploadProgress] = useState(0);
-  const [videoUploadError, setVideoUploadError] = useState<string | null>(null);
+  const [videoAsset, setVideoAsset] = useState<LessonVideoAsset | null>(null);
+  const [lessonType, setLessonType] = useState<LessonType>('standard');
+  const [scormPackage, setScormPackage] = useState<ScormPackage | null>(null);
+  const [isScormUploading, setIsScormUploading] = useState(false);
   const [isImageUploading, setIsImageUploading] = useState(false);
   const [imageUploadProgress, setImageUploadProgress] = useState(0);
   const [imageUploadError, setImageUploadError] = useState<string | null>(null);
   
-  const [translationVideoUploadState, setTranslationVideoUploadState] = useState<Record<string, { progress: number; error: string | null; uploading: boolean }>>({});
+  const [translationVideoUploading, setTranslationVideoUploading] = useState<Record<string, boolean>>({});
+  const [translationVideoAssets, setTranslationVideoAssets] = useState<Record<string, LessonVideoAsset | null>>({});
   const [isTranslating, setIsTranslating] = useState<Record<string, boolean>>({});
 
+  const [timedEvents, setTimedEvents] = useState<LessonTimedEvent[]>([]);
+  const [translationTimedEvents, setTranslationTimedEvents] = useState<Record<string, LessonTimedEvent[]>>({}); // Checkpoints per translated video
+  const [captions, setCaptions] = useState<LessonCaptionTrack[]>([]);
+  const [translationCaptions, setTranslationCaptions] = useState<Record<string, LessonCaptionTrack[]>>({}); // Captions per translated video
+  const [quizzes, setQuizzes] = useState<BrandQuiz[]>([]);
+
   const form = useForm<BrandLessonFormValues>({
     resolver: zodResolver(brandLessonFormSchema),
     defaultValues: {
@@ -136,11 +161,26 @@ export function AddEditBrandLessonDialog({
                 playbackHours: 0, playbackMinutes: 0, playbackSeconds: 0, exerciseFilesInfo: '', translations: {}
             });
         }
-        setIsVideoUploading(false); setVideoUploadProgress(0); setVideoUploadError(null);
+        setIsVideoUploading(false); setVideoAsset(initialData?.videoAsset || null);
+        setLessonType(initialData?.lessonType === 'scorm' ? 'scorm' : 'standard');
+        setScormPackage(initialData?.scormPackage || null); setIsScormUploading(false);
+        setTranslationVideoUploading({});
+        setTranslationVideoAssets(Object.fromEntries(Object.entries(initialData?.translations || {}).map(([locale, translation]) => [locale, translation.videoAsset || null])));
         setIsImageUploading(false); setImageUploadProgress(0); setImageUploadError(null);
         setIsSaving(false);
+        setTimedEvents(initialData?.timedEvents || []);
+        setTranslationTimedEvents(Object.fromEntries(Object.entries(initialData?.translations || {}).map(([locale, translation]) => [locale, translation.timedEvents || []])));
+        setCaptions(initialData?.captions || []);
+        setTranslationCaptions(Object.fromEntries(Object.entries(initialData?.translations || {}).map(([locale, translation]) => [locale, translation.captions || []])));
     }
   }, [initialData, form, isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !brandId) return;
+    getBrandQuizzesByBrandId(brandId)
+      .then(setQuizzes)
+      .catch(error => console.error("Failed to load brand quizzes for checkpoints:", error));
+  }, [isOpen, brandId]);
   
   const handleAutoTranslate = async (targetLocale: string) => {
     const { title, content } = form.getValues();
@@ -183,34 +223,21 @@ export function AddEditBrandLessonDialog({
  };
 
 
-  const handleVideoFileChange = async (event: React.ChangeEvent<HTMLInputElement>, locale?: string) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const uploaderStateSetter = locale ? (state: any) => setTranslationVideoUploadState(prev => ({...prev, [locale]: {...(prev[locale] || {}), ...state}})) : setIsVideoUploading;
-    const progressSetter = locale ? (progress: number) => setTranslationVideoUploadState(prev => ({...prev, [locale]: {...(prev[locale] || {}), progress}})) : setVideoUploadProgress;
-    const errorSetter = locale ? (error: string | null) => setTranslationVideoUploadState(prev => ({...prev, [locale]: {...(prev[locale] || {}), error}})) : setVideoUploadError;
-
-    uploaderStateSetter({ uploading: true, progress: 0, error: null });
-
-    try {
-        const uniqueFileName = `${brandId}-${isEditing && initialData?.id ? initialData.id : Date.now()}${locale ? `-${locale}` : ''}-lessonvideo-${file.name}`;
-        const storagePath = `${STORAGE_PATHS.LESSON_VIDEOS}/${uniqueFileName}`;
-        const downloadURL = await uploadImage(file, storagePath, progressSetter);
-
-        const fieldName = locale ? `translations.${locale}.videoUrl` as const : 'videoUrl' as const;
-        form.setValue(fieldName, downloadURL, { shouldValidate: true });
-
-        toast({ title: "Video Uploaded", description: `Video for ${locale || 'main language'} successfully uploaded.` });
-
-    } catch (error: any) {
-        errorSetter(error.message || "Failed to upload video.");
-        toast({ title: "Video Upload Failed", description: error.message || "Could not upload the video.", variant: "destructive" });
-    } finally {
-        uploaderStateSetter({ uploading: false });
+  const handleVideoChange = (videoUrl: string, asset: LessonVideoAsset | null) => {
+    form.setValue('videoUrl', videoUrl, { shouldValidate: true });
+    setVideoAsset(asset);
+    if (asset?.status === 'ready' && asset.durationSeconds) { // Playback time comes from the processed video
+      const totalSeconds = Math.round(asset.durationSeconds);
+      form.setValue('playbackHours', Math.floor(totalSeconds / 3600));
+      form.setValue('playbackMinutes', Math.floor((totalSeconds % 3600) / 60));
+      form.setValue('playbackSeconds', totalSeconds % 60);
     }
   };
-  
+
+  const handleTranslationVideoChange = (locale: string, videoUrl: string, asset: LessonVideoAsset | null) => {
+    form.setValue(`translations.${locale}.videoUrl`, videoUrl, { shouldValidate: true });
+    setTranslationVideoAssets(prev => ({ ...prev, [locale]: asset }));
+  };
 
   const handleImageFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -231,7 +258,12 @@ export function AddEditBrandLessonDialog({
   };
 
   const onSubmit = async (data: BrandLessonFormValues) => {
-    if (isSaving || isVideoUploading || isImageUploading) return;
+    if (isSaving || isVideoUploading || isImageUploading || isScormUploading) return;
+    const isScorm = lessonType === 'scorm';
+    if (isScorm && !scormPackage) {
+      toast({ title: "SCORM Package Required", description: "Upload a SCORM package for this lesson, or change the lesson type.", variant: "destructive" });
+      return;
+    }
     setIsSaving(true);
     try {
       const hours = data.playbackHours || 0;
@@ -241,15 +273,29 @@ export function AddEditBrandLessonDialog({
         ? `${hours}h ${minutes}m ${seconds}s`
         : null;
 
+      const translations: { [key: string]: LessonTranslation } = Object.fromEntries(await Promise.all(
+        Object.entries(data.translations || {}).map(async ([locale, translation]) => [locale, {
+          ...translation,
+          timedEvents: translationTimedEvents[locale] || [],
+          captions: translationCaptions[locale] || [],
+          videoAsset: translation.videoUrl ? await refreshLessonVideoAsset(translationVideoAssets[locale]) : null,
+        }])
+      ));
+
       const lessonPayload: BrandLessonFormData = {
         brandId: brandId,
         title: data.title,
         content: data.content,
         featuredImageUrl: data.featuredImageUrl?.trim() === '' ? null : data.featuredImageUrl,
-        videoUrl: data.videoUrl?.trim() === '' ? null : data.videoUrl,
+        videoUrl: isScorm || data.videoUrl?.trim() === '' ? null : data.videoUrl,
         exerciseFilesInfo: data.exerciseFilesInfo?.trim() === '' ? null : data.exerciseFilesInfo,
         playbackTime: playbackTime,
-        translations: data.translations,
+        timedEvents: isScorm ? [] : timedEvents, // Checkpoints and captions belong to the video
+        captions: isScorm ? [] : captions,
+        videoAsset: !isScorm && data.videoUrl?.trim() ? await refreshLessonVideoAsset(videoAsset) : null,
+        lessonType: lessonType,
+        scormPackage: isScorm ? scormPackage : null,
+        translations: translations,
       };
 
       let savedLesson: BrandLesson | null = null;
@@ -260,7 +306,7 @@ export function AddEditBrandLessonDialog({
       }
 
       if (savedLesson) {
-        toast({ title: isEditing ? 'Lesson Updated' : 'Lesson Created', description: `"${savedLesson.title}" saved.` });
+        toast({ title: isEditing ? 'Draft Saved' : 'Lesson Created', description: isEditing ? `Changes to "${savedLesson.title}" were saved as a draft. Publish them to make them live.` : `"${savedLesson.title}" saved.` });
         onLessonSaved(savedLesson);
         handleClose();
       } else {
@@ -294,6 +340,8 @@ export function AddEditBrandLessonDialog({
                  <Tabs defaultValue="main" className="h-full flex flex-col">
                     <TabsList className="mx-6">
                         <TabsTrigger value="main" className="flex items-center gap-1"><Globe className="h-4 w-4" /> Main Content (English)</TabsTrigger>
+                        <TabsTrigger value="checkpoints" className="flex items-center gap-1" disabled={lessonType === 'scorm'}><Flag className="h-4 w-4" /> Video Checkpoints</TabsTrigger>
+                        <TabsTrigger value="captions" className="flex items-center gap-1" disabled={lessonType === 'scorm'}><Captions className="h-4 w-4" /> Captions</TabsTrigger>
                         <TabsTrigger value="translations" className="flex items-center gap-1"><Languages className="h-4 w-4" /> Translations</TabsTrigger>
                     </TabsList>
                     <TabsContent value="main" className="flex-1 overflow-y-auto px-6 py-4">
@@ -304,28 +352,83 @@ export function AddEditBrandLessonDialog({
                             </div>
                             <div className="md:col-span-1 space-y-6">
                                 <FormField control={form.control} name="featuredImageUrl" render={({ field }) => ( <FormItem><FormLabel>Featured Image</FormLabel><FormControl><div className="border border-dashed rounded-lg p-4 text-center cursor-pointer hover:border-primary">{field.value && !isImageUploading ? (<div className="relative aspect-video bg-muted rounded-md"><Image src={field.value ?? ''} alt="Preview" fill style={{ objectFit: 'contain' }} className="rounded-md" data-ai-hint="lesson image" onError={() => field.onChange('')} /><Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6" onClick={() => field.onChange('')}><Trash2 className="h-4 w-4" /></Button></div>) : isImageUploading ? (<div className="py-8"><Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-2" /><Progress value={imageUploadProgress} className="w-full h-2" />{imageUploadError && <p className="text-xs text-destructive mt-2">{imageUploadError}</p>}</div>) : (<Label htmlFor="brand-lesson-image-upload" className="cursor-pointer block"><ImageIconLucide className="h-10 w-10 mx-auto text-muted-foreground mb-2" /><p className="text-sm text-muted-foreground">Upload image</p><Input id="brand-lesson-image-upload" type="file" accept="image/*" className="hidden" onChange={handleImageFileChange} disabled={isImageUploading} /></Label>)}</div></FormControl><FormMessage /></FormItem> )} />
-                                <FormField control={form.control} name="videoUrl" render={({ field }) => ( <FormItem><FormLabel>Lesson Video</FormLabel><FormControl><div className="border border-dashed rounded-lg p-4 text-center cursor-pointer hover:border-primary">{field.value && !isVideoUploading ? (<div className="relative aspect-video bg-muted rounded-md flex items-center justify-center"><Video className="h-10 w-10 text-muted-foreground" /><p className="text-xs text-muted-foreground mt-1 truncate w-full px-2">{field.value}</p><Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6" onClick={() => field.onChange('')}><Trash2 className="h-4 w-4" /></Button></div>) : isVideoUploading ? (<div className="py-8"><Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-2" /><Progress value={videoUploadProgress} className="w-full h-2" />{videoUploadError && <p className="text-xs text-destructive mt-2">{videoUploadError}</p>}</div>) : (<Label htmlFor="brand-lesson-video-upload" className="cursor-pointer block"><FileUp className="h-10 w-10 mx-auto text-muted-foreground mb-2" /><p className="text-sm text-muted-foreground">Upload video</p><Input id="brand-lesson-video-upload" type="file" accept="video/*" className="hidden" onChange={(e) => handleVideoFileChange(e)} disabled={isVideoUploading} /></Label>)}</div></FormControl><FormMessage /></FormItem> )} />
+                                <div className="space-y-2"><Label htmlFor="brand-lesson-type">Lesson Type</Label><Select value={lessonType} onValueChange={(value) => setLessonType(value as LessonType)}><SelectTrigger id="brand-lesson-type"><SelectValue /></SelectTrigger><SelectContent><SelectItem value="standard">Standard (Video & Content)</SelectItem><SelectItem value="scorm">SCORM Package</SelectItem></SelectContent></Select></div>
+                                {lessonType === 'scorm' ? (
+                                  <div className="space-y-2"><Label className="flex items-center gap-1"><Package className="h-4 w-4" /> SCORM Package</Label><ScormPackageUploader inputId="brand-lesson-scorm-upload" value={scormPackage} onChange={setScormPackage} onUploadingChange={setIsScormUploading} /><p className="text-xs text-muted-foreground">Learners complete this lesson when the package reports it as completed or passed.</p></div>
+                                ) : (
+                                  <FormField control={form.control} name="videoUrl" render={({ field }) => ( <FormItem><FormLabel>Lesson Video</FormLabel><FormControl><LessonVideoUploader inputId="brand-lesson-video-upload" videoUrl={field.value} videoAsset={videoAsset} onChange={handleVideoChange} onUploadingChange={setIsVideoUploading} /></FormControl><FormMessage /></FormItem> )} />
+                                )}
                                 <div className="space-y-2"><Label>Playback Time</Label><div className="flex items-center space-x-2"><FormField control={form.control} name="playbackHours" render={({ field }) => (<FormItem className="flex-1"><FormControl><Input type="number" min="0" {...field} value={field.value ?? 0} onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)} /></FormControl><FormLabel className="text-xs text-muted-foreground block text-center">h</FormLabel></FormItem>)} /><FormField control={form.control} name="playbackMinutes" render={({ field }) => (<FormItem className="flex-1"><FormControl><Input type="number" min="0" max="59" {...field} value={field.value ?? 0} onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)} /></FormControl><FormLabel className="text-xs text-muted-foreground block text-center">m</FormLabel></FormItem>)} /><FormField control={form.control} name="playbackSeconds" render={({ field }) => (<FormItem className="flex-1"><FormControl><Input type="number" min="0" max="59" {...field} value={field.value ?? 0} onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)} /></FormControl><FormLabel className="text-xs text-muted-foreground block text-center">s</FormLabel></FormItem>)} /></div></div>
                                 <FormField control={form.control} name="exerciseFilesInfo" render={({ field }) => ( <FormItem><FormLabel>Exercise Files</FormLabel><FormControl><Textarea rows={3} placeholder="File URLs/Names (one per line)" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem> )} />
                             </div>
                         </div>
                     </TabsContent>
+                    <TabsContent value="checkpoints" className="flex-1 overflow-y-auto px-6 py-4">
+                        <VideoCheckpointsEditor
+                            videoUrl={videoUrlValue}
+                            events={timedEvents}
+                            onChange={setTimedEvents}
+                            quizzes={quizzes}
+                            idPrefix="brand-main"
+                        />
+                    </TabsContent>
+                    <TabsContent value="captions" className="flex-1 overflow-y-auto px-6 py-4">
+                        <LessonCaptionsEditor
+                            videoUrl={videoUrlValue}
+                            tracks={captions}
+                            onChange={setCaptions}
+                            locales={CAPTION_LOCALES}
+                            idPrefix="brand-main"
+                            fileNamePrefix={`${brandId}-${initialData?.id || 'new-lesson'}`}
+                        />
+                    </TabsContent>
                     <TabsContent value="translations" className="flex-1 overflow-y-auto px-6 py-4">
                      <div className="space-y-6">
                         {SUPPORTED_LOCALES.map(locale => {
-                           const uploadState = translationVideoUploadState[locale.value] || { progress: 0, error: null, uploading: false };
+                           const translatedVideoUrl = form.watch(`translations.${locale.value}.videoUrl`);
                            return (
                             <div key={locale.value} className="p-4 border rounded-md space-y-4">
                                 <div className="flex justify-between items-center"><h3 className="font-semibold text-lg">{locale.label}</h3><Button type="button" variant="outline" size="sm" onClick={() => handleAutoTranslate(locale.value)} disabled={isTranslating[locale.value]}><Wand2 className="mr-2 h-4 w-4" />Auto-Translate</Button></div>
                                 <FormField control={form.control} name={`translations.${locale.value}.title`} render={({ field }) => ( <FormItem><FormLabel>Translated Title</FormLabel><FormControl><Input {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem> )}/>
                                 <FormField control={form.control} name={`translations.${locale.value}.content`} render={({ field }) => ( <FormItem><FormLabel>Translated Content</FormLabel><FormControl><RichTextEditor value={field.value ?? ''} onChange={field.onChange} /></FormControl><FormMessage /></FormItem> )}/>
                                 <FormField control={form.control} name={`translations.${locale.value}.videoUrl`} render={({ field }) => (
-                                  <FormItem><FormLabel>Translated Video</FormLabel><FormControl><div className="border border-dashed rounded-lg p-4 text-center cursor-pointer hover:border-primary">
-                                    {field.value && !uploadState.uploading ? ( <div className="relative aspect-video bg-muted rounded-md flex items-center justify-center"><Video className="h-10 w-10 text-muted-foreground" /><p className="text-xs text-muted-foreground mt-1 truncate w-full px-2">{field.value}</p><Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6" onClick={() => field.onChange('')}><Trash2 className="h-4 w-4" /></Button></div> )
-                                    : uploadState.uploading ? ( <div className="py-8"><Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-2" /><Progress value={uploadState.progress} className="w-full h-2" />{uploadState.error && <p className="text-xs text-destructive mt-2">{uploadState.error}</p>}</div> )
-                                    : ( <Label htmlFor={`brand-lesson-video-upload-${locale.value}`} className="cursor-pointer block"><FileUp className="h-10 w-10 mx-auto text-muted-foreground mb-2" /><p className="text-sm text-muted-foreground">Upload video for {locale.label}</p><Input id={`brand-lesson-video-upload-${locale.value}`} type="file" accept="video/*" className="hidden" onChange={(e) => handleVideoFileChange(e, locale.value)} disabled={uploadState.uploading} /></Label> )}
-                                  </div></FormControl><FormMessage /></FormItem>
+                                  <FormItem><FormLabel>Translated Video</FormLabel><FormControl>
+                                    <LessonVideoUploader
+                                      inputId={`brand-lesson-video-upload-${locale.value}`}
+                                      videoUrl={field.value}
+                                      videoAsset={translationVideoAssets[locale.value]}
+                                      onChange={(videoUrl, asset) => handleTranslationVideoChange(locale.value, videoUrl, asset)}
+                                      onUploadingChange={(uploading) => setTranslationVideoUploading(prev => ({ ...prev, [locale.value]: uploading }))}
+                                      uploadLabel={`Upload video for ${locale.label}`}
+                                    />
+                                  </FormControl><FormMessage /></FormItem>
                                 )}/>
+                                {translatedVideoUrl && (
+                                  <div className="space-y-3 border-t pt-4">
+                                    <div className="flex justify-between items-center">
+                                      <Label className="flex items-center gap-1"><Flag className="h-4 w-4" /> Checkpoints for the {locale.label} Video</Label>
+                                      <Button type="button" variant="outline" size="sm" onClick={() => setTranslationTimedEvents(prev => ({ ...prev, [locale.value]: timedEvents.map(event => ({ ...event, eventId: `${event.eventId}-${locale.value}` })) }))} disabled={timedEvents.length === 0}>
+                                        <Copy className="mr-2 h-4 w-4" /> Copy Main Checkpoints
+                                      </Button>
+                                    </div>
+                                    <VideoCheckpointsEditor
+                                      videoUrl={translatedVideoUrl}
+                                      events={translationTimedEvents[locale.value] || []}
+                                      onChange={(events) => setTranslationTimedEvents(prev => ({ ...prev, [locale.value]: events }))}
+                                      quizzes={quizzes}
+                                      idPrefix={`brand-${locale.value}`}
+                                    />
+                                    <Label className="flex items-center gap-1 pt-2"><Captions className="h-4 w-4" /> Captions for the {locale.label} Video</Label>
+                                    <LessonCaptionsEditor
+                                      videoUrl={translatedVideoUrl}
+                                      tracks={translationCaptions[locale.value] || []}
+                                      onChange={(tracks) => setTranslationCaptions(prev => ({ ...prev, [locale.value]: tracks }))}
+                                      locales={CAPTION_LOCALES}
+                                      idPrefix={`brand-${locale.value}`}
+                                      fileNamePrefix={`${brandId}-${initialData?.id || 'new-lesson'}-${locale.value}`}
+                                    />
+                                  </div>
+                                )}
                             </div>
                            )
                         })}
@@ -337,8 +440,8 @@ export function AddEditBrandLessonDialog({
           </div>
           <DialogFooter className="px-6 pb-6 pt-4 border-t bg-background z-10 shrink-0">
             <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
-            <Button type="submit" onClick={form.handleSubmit(onSubmit)} className="bg-primary hover:bg-primary/90" disabled={isSaving || isVideoUploading || isImageUploading || Object.values(translationVideoUploadState).some(s => s.uploading)}>
-              {(isSaving || isVideoUploading || isImageUploading) && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            <Button type="submit" onClick={form.handleSubmit(onSubmit)} className="bg-primary hover:bg-primary/90" disabled={isSaving || isVideoUploading || isImageUploading || isScormUploading || Object.values(translationVideoUploading).some(Boolean)}>
+              {(isSaving || isVideoUploading || isImageUploading || isScormUploading) && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               {isEditing ? 'Save Changes' : 'Create Lesson'}
             </Button>
           </DialogFooter>
@@ -2,6 +2,7 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
 import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -20,15 +21,19 @@ import { Label }
 from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from '@/hooks/use-toast';
 import type { BrandQuestion, BrandQuestionFormData, QuestionType } from '@/types/course';
-import { PlusCircle, Trash2, Loader2 } from 'lucide-react';
+import { PlusCircle, Trash2, Loader2, ArrowUp, ArrowDown, Image as ImageIconLucide } from 'lucide-react';
 import { addBrandQuestionToBrandQuiz, updateBrandQuestionInBrandQuiz } from '@/lib/brand-content-data';
+import { uploadImage, STORAGE_PATHS } from '@/lib/storage';
 
 const baseSchema = z.object({
   text: z.string().min(5, { message: 'Question text must be at least 5 characters.' }),
+  tag: z.string().max(50).optional().nullable(),
 });
 const multipleChoiceOptionSchema = z.object({ text: z.string().min(1, "Option text cannot be empty.") });
 
@@ -51,9 +56,37 @@ const multipleSelectSchema = baseSchema.extend({
   correctAnswers: z.array(z.string()).min(1, { message: "At least one correct answer must be selected."}),
 });
 
-const brandQuestionFormSchema = z.discriminatedUnion("type", [multipleChoiceSchema, trueFalseSchema, multipleSelectSchema])
+const shortAnswerSchema = baseSchema.extend({
+  type: z.literal('short-answer'),
+  options: z.array(multipleChoiceOptionSchema).optional(), // Not used for this type
+  correctAnswer: z.string().optional(), // Not used for this type
+  correctAnswers: z.array(z.string()).optional(), // Not used for this type
+  acceptedAnswers: z.array(z.object({ text: z.string().min(1, "Accepted answer cannot be empty.") })).min(1, "At least one accepted answer is required."),
+  caseSensitive: z.boolean().optional(),
+});
+const matchingSchema = baseSchema.extend({
+  type: z.literal('matching'),
+  options: z.array(multipleChoiceOptionSchema).optional(), // Derived from the pairs when saved
+  correctAnswer: z.string().optional(), // Not used for this type
+  correctAnswers: z.array(z.string()).optional(), // Not used for this type
+  matchingPairs: z.array(z.object({ prompt: z.string().min(1, "Prompt cannot be empty."), match: z.string().min(1, "Match cannot be empty.") })).min(2, "At least two pairs are required."),
+});
+const orderingSchema = baseSchema.extend({
+  type: z.literal('ordering'),
+  options: z.array(multipleChoiceOptionSchema).min(2, "At least two items are required."), // Entered in the correct order
+  correctAnswer: z.string().optional(), // Not used for this type
+  correctAnswers: z.array(z.string()).optional(), // Taken from the option order when saved
+});
+const imageChoiceSchema = baseSchema.extend({
+  type: z.literal('image-choice'),
+  options: z.array(multipleChoiceOptionSchema.extend({ imageUrl: z.string().min(1, "Please upload an image.") })).min(2, "At least two options are required."),
+  correctAnswer: z.string().min(1, { message: 'Please select the correct image.' }),
+  correctAnswers: z.array(z.string()).optional(), // Not used for this type
+});
+
+const brandQuestionFormSchema = z.discriminatedUnion("type", [multipleChoiceSchema, trueFalseSchema, multipleSelectSchema, shortAnswerSchema, matchingSchema, orderingSchema, imageChoiceSchema])
 .refine(data => {
-    if (data.type === 'multiple-choice' || data.type === 'multiple-select') {
+    if (data.type === 'multiple-choice' || data.type === 'multiple-select' || data.type === 'ordering' || data.type === 'image-choice') {
         const providedOptions = data.options.map(opt => opt.text.trim()).filter(Boolean);
         const uniqueOptions = new Set(providedOptions);
         return providedOptions.length === uniqueOptions.size;
@@ -61,7 +94,14 @@ const brandQuestionFormSchema = z.discriminatedUnion("type", [multipleChoiceSche
     return true;
 }, { message: "Answer options must be unique.", path: ["options"] })
 .refine(data => {
-    if (data.type === 'multiple-choice' && data.correctAnswer) {
+    if (data.type === 'matching') {
+        const prompts = data.matchingPairs.map(pair => pair.prompt.trim());
+        return prompts.length === new Set(prompts).size;
+    }
+    return true;
+}, { message: "Matching prompts must be unique.", path: ["matchingPairs"] })
+.refine(data => {
+    if ((data.type === 'multiple-choice' || data.type === 'image-choice') && data.correctAnswer) {
         // Check if correctAnswer is one of the provided, non-empty options
         return data.options.map(opt => opt.text.trim()).filter(Boolean).includes(data.correctAnswer.trim());
     }
@@ -76,6 +116,16 @@ const brandQuestionFormSchema = z.discriminatedUnion("type", [multipleChoiceSche
 
 type BrandQuestionFormValues = z.infer<typeof brandQuestionFormSchema>;
 
+const QUESTION_TYPE_LABELS: { value: QuestionType; label: string }[] = [
+  { value: 'multiple-choice', label: 'MC (Single)' },
+  { value: 'true-false', label: 'T/F' },
+  { value: 'multiple-select', label: 'MC (Multi)' },
+  { value: 'short-answer', label: 'Short Answer' },
+  { value: 'matching', label: 'Matching' },
+  { value: 'ordering', label: 'Ordering' },
+  { value: 'image-choice', label: 'Image Choice' },
+];
+
 interface AddEditBrandQuestionDialogProps {
   isOpen: boolean;
   setIsOpen: (open: boolean) => void;
@@ -94,27 +144,56 @@ export function AddEditBrandQuestionDialog({ isOpen, setIsOpen, brandQuizId, ini
     defaultValues: { type: 'multiple-choice', text: '', options: [{ text: '' }, { text: '' }], correctAnswer: '', correctAnswers: [] },
   });
 
-  const { fields, append, remove } = useFieldArray({ control: form.control, name: "options" as any }); // Cast for discriminated union
+  const { fields, append, remove, move } = useFieldArray({ control: form.control, name: "options" as any }); // Cast for discriminated union
+  const { fields: acceptedAnswerFields, append: appendAcceptedAnswer, remove: removeAcceptedAnswer } = useFieldArray({ control: form.control, name: "acceptedAnswers" as any });
+  const { fields: matchingPairFields, append: appendMatchingPair, remove: removeMatchingPair } = useFieldArray({ control: form.control, name: "matchingPairs" as any });
+  const [uploadingOptionIndex, setUploadingOptionIndex] = useState<number | null>(null);
+  const [optionImageUploadProgress, setOptionImageUploadProgress] = useState(0);
   const questionType = form.watch('type');
-  const watchedOptions = form.watch('options' as any) || []; // Cast for discriminated union
+  const watchedOptions: { text: string; imageUrl?: string }[] = form.watch('options' as any) || []; // Cast for discriminated union
 
   useEffect(() => {
     if (isOpen) {
       if (initialData) {
+        const optionTexts = initialData.type === 'ordering' && initialData.correctAnswers?.length ? initialData.correctAnswers : initialData.options || [];
         form.reset({
           type: initialData.type, text: initialData.text,
-          options: (initialData.type === 'multiple-choice' || initialData.type === 'multiple-select') 
-                    ? (initialData.options || []).map(opt => ({ text: opt })) 
-                    : [], // True/False doesn't use dynamic options array in form state
-          correctAnswer: (initialData.type === 'multiple-choice' || initialData.type === 'true-false') ? initialData.correctAnswer || '' : '',
+          options: initialData.type === 'image-choice'
+                    ? optionTexts.map((opt, index) => ({ text: opt, imageUrl: initialData.optionImages?.[index] || '' }))
+                    : (initialData.type === 'multiple-choice' || initialData.type === 'multiple-select' || initialData.type === 'ordering')
+                    ? optionTexts.map(opt => ({ text: opt }))
+                    : [], // True/False, short answer and matching don't use the dynamic options array in form state
+          correctAnswer: (initialData.type === 'multiple-choice' || initialData.type === 'true-false' || initialData.type === 'image-choice') ? initialData.correctAnswer || '' : '',
           correctAnswers: initialData.type === 'multiple-select' ? initialData.correctAnswers || [] : [],
-        });
+          acceptedAnswers: (initialData.acceptedAnswers || []).map(answer => ({ text: answer })),
+          caseSensitive: !!initialData.caseSensitive,
+          matchingPairs: initialData.matchingPairs || [],
+          tag: initialData.tag || '',
+        } as BrandQuestionFormValues);
       } else {
-        form.reset({ type: 'multiple-choice', text: '', options: [{ text: '' }, { text: '' }], correctAnswer: '', correctAnswers: [] });
+        form.reset({ type: 'multiple-choice', text: '', options: [{ text: '' }, { text: '' }], correctAnswer: '', correctAnswers: [], tag: '' });
       }
     }
   }, [initialData, form, isOpen]);
 
+  const handleOptionImageFileChange = async (index: number, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setUploadingOptionIndex(index);
+    setOptionImageUploadProgress(0);
+    try {
+      const storagePath = `${STORAGE_PATHS.QUIZ_OPTION_IMAGES}/${brandQuizId}-${Date.now()}-${file.name}`;
+      const downloadURL = await uploadImage(file, storagePath, setOptionImageUploadProgress);
+      form.setValue(`options.${index}.imageUrl` as any, downloadURL, { shouldValidate: true });
+      toast({ title: "Image Uploaded", description: `Image for option ${index + 1} successfully uploaded.` });
+    } catch (error: any) {
+      toast({ title: "Upload Failed", description: error.message || "Could not upload the option image.", variant: "destructive" });
+    } finally {
+      setUploadingOptionIndex(null);
+    }
+  };
+
   const onSubmit = async (data: BrandQuestionFormValues) => {
     setIsSaving(true);
     try {
@@ -123,22 +202,27 @@ export function AddEditBrandQuestionDialog({ isOpen, setIsOpen, brandQuizId, ini
       let finalCorrectAnswer: string | undefined = undefined;
       let finalCorrectAnswers: string[] | undefined = undefined;
 
-      if (data.type === 'multiple-choice' || data.type === 'multiple-select') {
+      if (data.type === 'multiple-choice' || data.type === 'multiple-select' || data.type === 'ordering' || data.type === 'image-choice') {
         optionsForStorage = data.options.map(opt => opt.text.trim()).filter(Boolean);
       } else if (data.type === 'true-false') {
         optionsForStorage = ["True", "False"]; // Options for TF are implicit
       }
 
-      if (data.type === 'multiple-choice' || data.type === 'true-false') {
+      if (data.type === 'multiple-choice' || data.type === 'true-false' || data.type === 'image-choice') {
         finalCorrectAnswer = data.correctAnswer;
       } else if (data.type === 'multiple-select') {
         finalCorrectAnswers = data.correctAnswers;
+      } else if (data.type === 'ordering') {
+        finalCorrectAnswers = optionsForStorage; // Items are entered in the correct order
       }
       
       const questionPayload: BrandQuestionFormData = {
-        type: data.type, text: data.text, options: optionsForStorage,
+        type: data.type, text: data.text, options: optionsForStorage, tag: data.tag || null,
         ...(finalCorrectAnswer !== undefined && { correctAnswer: finalCorrectAnswer }),
-        ...(finalCorrectAnswers !== undefined && { correctAnswers: finalCorrectAnswers })
+        ...(finalCorrectAnswers !== undefined && { correctAnswers: finalCorrectAnswers }),
+        ...(data.type === 'short-answer' && { acceptedAnswers: data.acceptedAnswers.map(answer => answer.text.trim()).filter(Boolean), caseSensitive: !!data.caseSensitive }),
+        ...(data.type === 'matching' && { matchingPairs: data.matchingPairs.map(pair => ({ prompt: pair.prompt.trim(), match: pair.match.trim() })) }),
+        ...(data.type === 'image-choice' && { optionImages: data.options.map(opt => opt.imageUrl) }),
       };
 
       if (isEditing && initialData) {
@@ -148,7 +232,7 @@ export function AddEditBrandQuestionDialog({ isOpen, setIsOpen, brandQuizId, ini
       }
 
       if (savedQuestion) {
-        toast({ title: isEditing ? 'Question Updated' : 'Question Added', description: `The question has been successfully saved.` });
+        toast({ title: isEditing ? 'Question Updated' : 'Question Added', description: `The question was saved to the quiz draft. Publish the quiz to make it live.` });
         onQuestionSaved(savedQuestion); handleClose();
       } else { throw new Error("Failed to save question."); }
     } catch (error: any) {
@@ -160,7 +244,8 @@ export function AddEditBrandQuestionDialog({ isOpen, setIsOpen, brandQuizId, ini
 
   const handleClose = () => setIsOpen(false);
   
-  const currentOptionsForDisplay = (questionType === 'multiple-choice' || questionType === 'multiple-select') 
+  const usesOptionList = questionType === 'multiple-choice' || questionType === 'multiple-select' || questionType === 'ordering' || questionType === 'image-choice';
+  const currentOptionsForDisplay: { text: string; imageUrl?: string }[] = usesOptionList
     ? watchedOptions 
     : [{ text: 'True' }, { text: 'False' }]; // For TF radio group rendering
 
@@ -175,39 +260,90 @@ export function AddEditBrandQuestionDialog({ isOpen, setIsOpen, brandQuizId, ini
                 onValueChange={(newType) => {
                   const currentText = form.getValues('text');
                   field.onChange(newType as QuestionType);
-                  let newDefaults: Partial<BrandQuestionFormValues> = { type: newType as QuestionType, text: currentText };
+                  let newDefaults: Record<string, unknown> = { type: newType as QuestionType, text: currentText };
 
-                  if (newType === 'multiple-choice') {
+                  if (newType === 'multiple-choice' || newType === 'multiple-select' || newType === 'ordering') {
                     newDefaults = { ...newDefaults, options: [{ text: '' }, { text: '' }], correctAnswer: '', correctAnswers: [] };
+                  } else if (newType === 'image-choice') {
+                    newDefaults = { ...newDefaults, options: [{ text: '', imageUrl: '' }, { text: '', imageUrl: '' }], correctAnswer: '', correctAnswers: [] };
                   } else if (newType === 'true-false') {
                     newDefaults = { ...newDefaults, options: [], correctAnswer: '', correctAnswers: [] };
-                  } else if (newType === 'multiple-select') {
-                    newDefaults = { ...newDefaults, options: [{ text: '' }, { text: '' }], correctAnswer: '', correctAnswers: [] };
+                  } else if (newType === 'short-answer') {
+                    newDefaults = { ...newDefaults, options: [], correctAnswer: '', correctAnswers: [], acceptedAnswers: [{ text: '' }], caseSensitive: false };
+                  } else if (newType === 'matching') {
+                    newDefaults = { ...newDefaults, options: [], correctAnswer: '', correctAnswers: [], matchingPairs: [{ prompt: '', match: '' }, { prompt: '', match: '' }] };
                   }
                   // Reset the form with the new structure, preserving existing text.
                   // The spread of form.getValues() first ensures all fields are present, then specific type defaults override.
-                  form.reset({ ...form.getValues(), ...newDefaults }); 
+                  form.reset({ ...form.getValues(), ...newDefaults } as BrandQuestionFormValues); 
                 }} 
-                value={field.value} className="flex space-x-4">
-                <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="multiple-choice" /></FormControl><FormLabel className="font-normal">MC (Single)</FormLabel></FormItem>
-                <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="true-false" /></FormControl><FormLabel className="font-normal">T/F</FormLabel></FormItem>
-                <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="multiple-select" /></FormControl><FormLabel className="font-normal">MC (Multi)</FormLabel></FormItem>
+                value={field.value} className="flex flex-wrap gap-x-4 gap-y-2">
+                {QUESTION_TYPE_LABELS.map(({ value, label }) => (
+                  <FormItem key={value} className="flex items-center space-x-2"><FormControl><RadioGroupItem value={value} /></FormControl><FormLabel className="font-normal">{label}</FormLabel></FormItem>
+                ))}
               </RadioGroup></FormControl><FormMessage /></FormItem>
             )} />
             <FormField control={form.control} name="text" render={({ field }) => (<FormItem><FormLabel>Question Text</FormLabel><FormControl><Textarea rows={3} placeholder="Enter question..." {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="tag" render={({ field }) => (<FormItem><FormLabel>Tag (Optional)</FormLabel><FormControl><Input placeholder="e.g., Safety" {...field} value={field.value ?? ''} /></FormControl><FormDescription>Used to balance random question draws across topics.</FormDescription><FormMessage /></FormItem>)} />
             
-            {(questionType === 'multiple-choice' || questionType === 'multiple-select') && (
-              <div className="space-y-3"><FormLabel>Answer Options</FormLabel>
+            {usesOptionList && (
+              <div className="space-y-3"><FormLabel>{questionType === 'ordering' ? 'Items (In Correct Order)' : 'Answer Options'}</FormLabel>
+                {questionType === 'ordering' && <FormDescription>Learners see these items shuffled and must put them back in this order.</FormDescription>}
                 {fields.map((item, index) => (<FormField key={item.id} control={form.control} name={`options.${index}.text` as any} render={({ field }) => (
-                  <FormItem><div className="flex items-center gap-2"><FormControl><Input placeholder={`Option ${index + 1}`} {...field} /></FormControl>{fields.length > 2 && <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} className="text-destructive hover:bg-destructive/10"><Trash2 className="h-4 w-4" /></Button>}</div><FormMessage /></FormItem>
+                  <FormItem><div className="flex items-center gap-2">
+                    {questionType === 'image-choice' && (
+                      <div className="relative h-16 w-16 shrink-0 border border-dashed rounded-md bg-muted flex items-center justify-center overflow-hidden">
+                        {uploadingOptionIndex === index ? (
+                          <div className="w-full px-1"><Loader2 className="h-4 w-4 animate-spin text-primary mx-auto mb-1" /><Progress value={optionImageUploadProgress} className="w-full h-1" /></div>
+                        ) : currentOptionsForDisplay[index]?.imageUrl ? (
+                          <Image src={currentOptionsForDisplay[index].imageUrl as string} alt={`Option ${index + 1}`} fill style={{ objectFit: 'cover' }} />
+                        ) : (
+                          <Label htmlFor={`brand-option-image-upload-${index}`} className="cursor-pointer"><ImageIconLucide className="h-6 w-6 text-muted-foreground" /><Input id={`brand-option-image-upload-${index}`} type="file" accept="image/*" className="hidden" onChange={(e) => handleOptionImageFileChange(index, e)} disabled={uploadingOptionIndex !== null} /></Label>
+                        )}
+                      </div>
+                    )}
+                    <FormControl><Input placeholder={questionType === 'image-choice' ? `Label for image ${index + 1}` : `Option ${index + 1}`} {...field} /></FormControl>
+                    {questionType === 'image-choice' && currentOptionsForDisplay[index]?.imageUrl && <Button type="button" variant="ghost" size="icon" onClick={() => form.setValue(`options.${index}.imageUrl` as any, '')} title="Replace image"><ImageIconLucide className="h-4 w-4" /></Button>}
+                    {questionType === 'ordering' && <><Button type="button" variant="ghost" size="icon" onClick={() => move(index, index - 1)} disabled={index === 0}><ArrowUp className="h-4 w-4" /></Button><Button type="button" variant="ghost" size="icon" onClick={() => move(index, index + 1)} disabled={index === fields.length - 1}><ArrowDown className="h-4 w-4" /></Button></>}
+                    {fields.length > 2 && <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} className="text-destructive hover:bg-destructive/10"><Trash2 className="h-4 w-4" /></Button>}
+                  </div><FormMessage /></FormItem>
                 )} />))}
-                <Button type="button" variant="outline" size="sm" onClick={() => append({ text: '' })}><PlusCircle className="mr-2 h-4 w-4" /> Add Option</Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => append(questionType === 'image-choice' ? { text: '', imageUrl: '' } : { text: '' })}><PlusCircle className="mr-2 h-4 w-4" /> {questionType === 'ordering' ? 'Add Item' : 'Add Option'}</Button>
                 {form.formState.errors.options && !Array.isArray(form.formState.errors.options) && form.formState.errors.options.message && <p className="text-sm font-medium text-destructive">{form.formState.errors.options.message}</p>}
-                {Array.isArray(form.formState.errors.options) && form.formState.errors.options.map((e:any, i:number) => e?.text && <p key={i} className="text-sm font-medium text-destructive">Option {i+1}: {e.text.message}</p>)}
+                {Array.isArray(form.formState.errors.options) && form.formState.errors.options.map((e:any, i:number) => (e?.text || e?.imageUrl) && <p key={i} className="text-sm font-medium text-destructive">Option {i+1}: {(e.text || e.imageUrl).message}</p>)}
+              </div>
+            )}
+
+            {questionType === 'short-answer' && (
+              <div className="space-y-3"><FormLabel>Accepted Answers</FormLabel>
+                <FormDescription>Any of these counts as correct. Leading, trailing and repeated spaces are ignored.</FormDescription>
+                {acceptedAnswerFields.map((item, index) => (<FormField key={item.id} control={form.control} name={`acceptedAnswers.${index}.text` as any} render={({ field }) => (
+                  <FormItem><div className="flex items-center gap-2"><FormControl><Input placeholder={`Accepted answer ${index + 1}`} {...field} /></FormControl>{acceptedAnswerFields.length > 1 && <Button type="button" variant="ghost" size="icon" onClick={() => removeAcceptedAnswer(index)} className="text-destructive hover:bg-destructive/10"><Trash2 className="h-4 w-4" /></Button>}</div><FormMessage /></FormItem>
+                )} />))}
+                <Button type="button" variant="outline" size="sm" onClick={() => appendAcceptedAnswer({ text: '' })}><PlusCircle className="mr-2 h-4 w-4" /> Add Variant</Button>
+                <FormField control={form.control} name={"caseSensitive" as any} render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3"><div className="space-y-0.5"><FormLabel>Case Sensitive</FormLabel><FormDescription>Require the exact capitalization of an accepted answer.</FormDescription></div><FormControl><Switch checked={!!field.value} onCheckedChange={field.onChange} /></FormControl></FormItem>
+                )} />
+                {(form.formState.errors as any).acceptedAnswers?.message && <p className="text-sm font-medium text-destructive">{(form.formState.errors as any).acceptedAnswers.message}</p>}
+              </div>
+            )}
+
+            {questionType === 'matching' && (
+              <div className="space-y-3"><FormLabel>Matching Pairs</FormLabel>
+                <FormDescription>Learners choose the matching item for each prompt. Matches may repeat.</FormDescription>
+                {matchingPairFields.map((item, index) => (
+                  <div key={item.id} className="flex items-start gap-2">
+                    <FormField control={form.control} name={`matchingPairs.${index}.prompt` as any} render={({ field }) => (<FormItem className="flex-1"><FormControl><Input placeholder={`Prompt ${index + 1}`} {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    <FormField control={form.control} name={`matchingPairs.${index}.match` as any} render={({ field }) => (<FormItem className="flex-1"><FormControl><Input placeholder={`Match ${index + 1}`} {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    {matchingPairFields.length > 2 && <Button type="button" variant="ghost" size="icon" onClick={() => removeMatchingPair(index)} className="text-destructive hover:bg-destructive/10"><Trash2 className="h-4 w-4" /></Button>}
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={() => appendMatchingPair({ prompt: '', match: '' })}><PlusCircle className="mr-2 h-4 w-4" /> Add Pair</Button>
+                {(form.formState.errors as any).matchingPairs?.message && <p className="text-sm font-medium text-destructive">{(form.formState.errors as any).matchingPairs.message}</p>}
               </div>
             )}
 
-            {questionType === 'multiple-choice' && ( <FormField control={form.control} name="correctAnswer" render={({ field }) => (<FormItem className="space-y-3"><FormLabel>Correct Answer (Pick One)</FormLabel><FormControl><RadioGroup onValueChange={field.onChange} value={field.value || ''} className="flex flex-col space-y-1">
+            {(questionType === 'multiple-choice' || questionType === 'image-choice') && ( <FormField control={form.control} name="correctAnswer" render={({ field }) => (<FormItem className="space-y-3"><FormLabel>Correct Answer (Pick One)</FormLabel><FormControl><RadioGroup onValueChange={field.onChange} value={field.value || ''} className="flex flex-col space-y-1">
               {/* Filter out empty options for display in RadioGroup */}
               {watchedOptions.filter(opt => opt.text.trim() !== '').map((opt, i) => (<FormItem key={`mc-c-${i}`} className="flex items-center space-x-3"><FormControl><RadioGroupItem value={opt.text} id={`mc-c-${i}-${opt.text}`} /></FormControl><Label htmlFor={`mc-c-${i}-${opt.text}`} className="font-normal">{opt.text}</Label></FormItem>))}
             </RadioGroup></FormControl>{watchedOptions.filter(opt=>opt.text.trim()!=='').length<2 && <p className="text-xs font-medium text-muted-foreground">Fill at least two options above to select a correct answer.</p>}<FormMessage /></FormItem>)} /> )}
@@ -227,7 +363,7 @@ export function AddEditBrandQuestionDialog({ isOpen, setIsOpen, brandQuizId, ini
             )} />)}
 
             <DialogFooter><DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose><Button type="submit" className="bg-primary hover:bg-primary/90" 
-              disabled={isSaving || ((questionType === 'multiple-choice' || questionType === 'multiple-select') && watchedOptions.filter(opt=>opt.text.trim()!=='').length<2)}>
+              disabled={isSaving || uploadingOptionIndex !== null || (usesOptionList && watchedOptions.filter(opt=>opt.text.trim()!=='').length<2)}>
               {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>} {isEditing ? 'Save Changes' : 'Add Question'}
             </Button></DialogFooter>
           </form>
@@ -17,23 +17,45 @@ import {
   DialogClose,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Switch } from '@/components/ui/switch';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
-import type { BrandQuiz, BrandQuizFormData } from '@/types/course';
-import { createBrandQuiz } from '@/lib/brand-content-data';
+import type { BrandQuiz, BrandQuizFormData, QuizSettings } from '@/types/course';
+import { createBrandQuiz, updateBrandQuiz } from '@/lib/brand-content-data';
+import { getQuizSettings } from '@/lib/quiz-attempt-data';
 import { Loader2 } from 'lucide-react';
 
 const brandQuizFormSchema = z.object({
   title: z.string().min(3, { message: 'Quiz title must be at least 3 characters.' }),
+  passingScore: z.coerce.number().int().min(0, { message: 'Must be between 0 and 100.' }).max(100, { message: 'Must be between 0 and 100.' }),
+  maxAttempts: z.coerce.number().int().min(1).optional().nullable(),
+  attemptCooldownMinutes: z.coerce.number().int().min(1).optional().nullable(),
+  timeLimitMinutes: z.coerce.number().int().min(1).optional().nullable(),
+  showCorrectAnswers: z.boolean(),
+  questionsToDraw: z.coerce.number().int().min(1).optional().nullable(),
+  stratifyByTag: z.boolean(),
+  shuffleQuestions: z.boolean(),
+  shuffleOptions: z.boolean(),
 });
 
 type BrandQuizFormValues = z.infer<typeof brandQuizFormSchema>;
 
+const getFormDefaults = (quiz: BrandQuiz | null): BrandQuizFormValues => {
+  const settings = getQuizSettings(quiz);
+  return {
+    title: quiz?.title || '',
+    ...settings,
+    stratifyByTag: !!settings.stratifyByTag,
+    shuffleQuestions: !!settings.shuffleQuestions,
+    shuffleOptions: !!settings.shuffleOptions,
+  };
+};
+
 interface AddEditBrandQuizDialogProps {
   isOpen: boolean;
   setIsOpen: (open: boolean) => void;
   brandId: string;
-  initialData: BrandQuiz | null; // Always null for creation
+  initialData: BrandQuiz | null; // null when creating a new quiz
   onQuizSaved: (quiz: BrandQuiz) => void;
 }
 
@@ -41,23 +63,23 @@ export function AddEditBrandQuizDialog({
   isOpen,
   setIsOpen,
   brandId,
-  initialData, // Kept for prop signature consistency
+  initialData,
   onQuizSaved,
 }: AddEditBrandQuizDialogProps) {
-  const isEditing = false; // This dialog is only for adding
+  const isEditing = !!initialData;
   const { toast } = useToast();
   const [isSaving, setIsSaving] = React.useState(false);
 
   const form = useForm<BrandQuizFormValues>({
     resolver: zodResolver(brandQuizFormSchema),
-    defaultValues: { title: '' },
+    defaultValues: getFormDefaults(null),
   });
 
   useEffect(() => {
     if (isOpen) {
-      form.reset({ title: '' });
+      form.reset(getFormDefaults(initialData));
     }
-  }, [form, isOpen]);
+  }, [form, isOpen, initialData]);
 
   const onSubmit = async (data: BrandQuizFormValues) => {
     if (!brandId) {
@@ -66,18 +88,37 @@ export function AddEditBrandQuizDialog({
     }
     setIsSaving(true);
     try {
-      const quizPayload: BrandQuizFormData = { 
-        title: data.title, 
-        brandId, 
-        translations: {} 
+      const settings: QuizSettings = {
+        passingScore: data.passingScore,
+        maxAttempts: data.maxAttempts || null,
+        attemptCooldownMinutes: data.attemptCooldownMinutes || null,
+        timeLimitMinutes: data.timeLimitMinutes || null,
+        showCorrectAnswers: data.showCorrectAnswers,
+        questionsToDraw: data.questionsToDraw || null,
+        stratifyByTag: data.stratifyByTag,
+        shuffleQuestions: data.shuffleQuestions,
+        shuffleOptions: data.shuffleOptions,
       };
 
-      const savedQuiz = await createBrandQuiz(brandId, quizPayload);
+      let savedQuiz: BrandQuiz | null;
+      if (isEditing && initialData) {
+        savedQuiz = await updateBrandQuiz(initialData.id, { title: data.title, settings });
+      } else {
+        const quizPayload: BrandQuizFormData = { 
+          title: data.title, 
+          brandId, 
+          settings,
+          translations: {} 
+        };
+        savedQuiz = await createBrandQuiz(brandId, quizPayload);
+      }
 
       if (savedQuiz) {
         toast({
-          title: 'Quiz Created',
-          description: `Quiz "${savedQuiz.title}" has been successfully saved. You can now add questions to it.`,
+          title: isEditing ? 'Draft Saved' : 'Quiz Created',
+          description: isEditing
+            ? `Changes to quiz "${savedQuiz.title}" were saved as a draft. Publish them to make them live.`
+            : `Quiz "${savedQuiz.title}" has been successfully saved. You can now add questions to it.`,
         });
         onQuizSaved(savedQuiz);
         handleClose();
@@ -101,11 +142,13 @@ export function AddEditBrandQuizDialog({
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-xl">
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Add New Quiz</DialogTitle>
+          <DialogTitle>{isEditing ? 'Edit Quiz Settings' : 'Add New Quiz'}</DialogTitle>
           <DialogDescription>
-            Enter the title for the new quiz. Questions are managed separately after creation.
+            {isEditing
+              ? 'Update the quiz title and how the quiz is taken.'
+              : 'Enter the title and settings for the new quiz. Questions are managed separately after creation.'}
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
@@ -123,13 +166,84 @@ export function AddEditBrandQuizDialog({
                 </FormItem>
               )}
             />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField control={form.control} name="passingScore" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Passing Score (%)</FormLabel>
+                  <FormControl><Input type="number" min="0" max="100" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="maxAttempts" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Max Attempts</FormLabel>
+                  <FormControl><Input type="number" min="1" placeholder="Unlimited" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? null : Number(e.target.value))} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="attemptCooldownMinutes" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cooldown Between Attempts (min)</FormLabel>
+                  <FormControl><Input type="number" min="1" placeholder="None" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? null : Number(e.target.value))} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="timeLimitMinutes" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Time Limit (min)</FormLabel>
+                  <FormControl><Input type="number" min="1" placeholder="Untimed" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? null : Number(e.target.value))} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+            </div>
+            <FormField control={form.control} name="showCorrectAnswers" render={({ field }) => (
+              <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                <div className="space-y-0.5">
+                  <FormLabel>Show Correct Answers</FormLabel>
+                  <FormDescription>Reveal the correct answers after each submission.</FormDescription>
+                </div>
+                <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+              </FormItem>
+            )} />
+            <div className="space-y-4 rounded-lg border p-4">
+              <h4 className="text-sm font-medium">Randomization</h4>
+              <FormField control={form.control} name="questionsToDraw" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Questions Per Attempt</FormLabel>
+                  <FormControl><Input type="number" min="1" placeholder="All questions" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? null : Number(e.target.value))} /></FormControl>
+                  <FormDescription>Draw this many questions at random from the quiz's question pool.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="stratifyByTag" render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <FormLabel>Balance Draw by Tag</FormLabel>
+                    <FormDescription>Draw from each question tag in proportion to its share of the pool.</FormDescription>
+                  </div>
+                  <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="shuffleQuestions" render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <FormLabel>Shuffle Question Order</FormLabel>
+                  <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="shuffleOptions" render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <FormLabel>Shuffle Answer Options</FormLabel>
+                  <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                </FormItem>
+              )} />
+            </div>
             <DialogFooter>
               <DialogClose asChild>
                 <Button type="button" variant="outline">Cancel</Button>
               </DialogClose>
               <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={isSaving}>
                 {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Create Quiz
+                {isEditing ? 'Save Changes' : 'Create Quiz'}
               </Button>
             </DialogFooter>
           </form>
@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import type { CurriculumAvailability } from '@/types/course';
+import { useToast } from '@/hooks/use-toast';
+
+type AvailabilityMode = 'immediate' | CurriculumAvailability['type'];
+
+interface BrandCurriculumAvailabilityDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  itemTitle: string;
+  availability: CurriculumAvailability | null;
+  onSave: (availability: CurriculumAvailability | null) => Promise<void>;
+}
+
+export function BrandCurriculumAvailabilityDialog({
+  isOpen,
+  setIsOpen,
+  itemTitle,
+  availability,
+  onSave,
+}: BrandCurriculumAvailabilityDialogProps) {
+  const [mode, setMode] = useState<AvailabilityMode>('immediate');
+  const [days, setDays] = useState('7');
+  const [date, setDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode(availability?.type ?? 'immediate');
+      setDays(availability?.type === 'days-after-assignment' ? String(availability.days) : '7');
+      setDate(availability?.type === 'date' ? availability.date : '');
+    }
+  }, [isOpen, availability]);
+
+  const handleSubmit = async () => {
+    let rule: CurriculumAvailability | null = null;
+    if (mode === 'days-after-assignment') {
+      const dayCount = parseInt(days, 10);
+      if (!Number.isInteger(dayCount) || dayCount < 1) {
+        toast({ title: "Invalid Delay", description: "Enter a whole number of days, 1 or more.", variant: "destructive" });
+        return;
+      }
+      rule = { type: 'days-after-assignment', days: dayCount };
+    } else if (mode === 'date') {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        toast({ title: "No Date Selected", description: "Please choose the date this item opens.", variant: "destructive" });
+        return;
+      }
+      rule = { type: 'date', date };
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(rule);
+      setIsOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Schedule Availability</DialogTitle>
+          <DialogDescription>
+            Choose when "{itemTitle}" opens for learners.
+          </DialogDescription>
+        </DialogHeader>
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as AvailabilityMode)} className="py-4 space-y-3">
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="immediate" id="brand-availability-immediate" />
+            <Label htmlFor="brand-availability-immediate" className="font-normal">As soon as the course is assigned</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="days-after-assignment" id="brand-availability-days" />
+            <Label htmlFor="brand-availability-days" className="font-normal flex items-center gap-2">
+              <Input type="number" min={1} value={days} onChange={(e) => setDays(e.target.value)} onFocus={() => setMode('days-after-assignment')} className="w-20 h-8" aria-label="Days after assignment" />
+              days after the course is assigned
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="date" id="brand-availability-date" />
+            <Label htmlFor="brand-availability-date" className="font-normal flex items-center gap-2">
+              On
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} onFocus={() => setMode('date')} className="w-44 h-8" aria-label="Opening date" />
+            </Label>
+          </div>
+        </RadioGroup>
+        <p className="text-xs text-muted-foreground">Learners who were assigned the course through a program count from the day their account was created.</p>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleSubmit} disabled={isSaving} className="bg-primary hover:bg-primary/90">
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import type { QuestionImportRow, QuestionInterchangeFormat } from '@/types/course';
+import { CheckCircle, XCircle, FileUp, Loader2 } from 'lucide-react';
+import { addBrandQuestionsToBrandQuiz } from '@/lib/brand-content-data';
+import { parseQuestionFile, QUESTION_FORMAT_LABELS } from '@/lib/question-interchange';
+
+interface ImportBrandQuestionsDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  brandQuizId: string;
+  onQuestionsImported: () => void;
+}
+
+export function ImportBrandQuestionsDialog({ isOpen, setIsOpen, brandQuizId, onQuestionsImported }: ImportBrandQuestionsDialogProps) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [format, setFormat] = useState<QuestionInterchangeFormat | null>(null);
+  const [rows, setRows] = useState<QuestionImportRow[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName(null);
+      setFormat(null);
+      setRows([]);
+    }
+  }, [isOpen]);
+
+  const validRows = rows.filter(row => row.question && row.errors.length === 0);
+  const invalidRows = rows.filter(row => !row.question || row.errors.length > 0);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow choosing the same file again after fixing it
+    if (!file) return;
+
+    setIsParsing(true);
+    try {
+      const result = await parseQuestionFile(file);
+      setFileName(file.name);
+      setFormat(result.format);
+      setRows(result.rows);
+    } catch (error: any) {
+      setFileName(null);
+      setRows([]);
+      toast({ title: "Could Not Read File", description: error.message || "The file could not be read.", variant: "destructive" });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+    setIsImporting(true);
+    try {
+      const added = await addBrandQuestionsToBrandQuiz(brandQuizId, validRows.map(row => row.question!));
+      toast({ title: 'Questions Imported', description: `${added.length} question${added.length === 1 ? '' : 's'} added to the quiz draft.` });
+      onQuestionsImported();
+      setIsOpen(false);
+    } catch (error: any) {
+      toast({ title: 'Import Failed', description: error.message || 'No questions were imported.', variant: 'destructive' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>Upload a CSV, Moodle GIFT (.gift or .txt) or IMS QTI 2.1 (.xml or .zip package) file. You can review every question before it is added.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <Label htmlFor="brand-question-import-file" className="block border border-dashed rounded-lg p-6 text-center cursor-pointer hover:border-primary">
+            {isParsing ? <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-2" /> : <FileUp className="h-8 w-8 mx-auto text-muted-foreground mb-2" />}
+            <span className="text-sm text-muted-foreground">{fileName ? `${fileName} (${format ? QUESTION_FORMAT_LABELS[format] : ''}) — choose another file` : 'Choose a file'}</span>
+            <Input id="brand-question-import-file" type="file" accept=".csv,.gift,.txt,.xml,.zip" className="hidden" onChange={handleFileChange} disabled={isParsing || isImporting} />
+          </Label>
+
+          {!fileName && (
+            <p className="text-xs text-muted-foreground">
+              CSV files need a header row with the columns <code>type</code>, <code>text</code>, <code>options</code>, <code>correct</code> and optionally <code>images</code>, <code>case_sensitive</code> and <code>tag</code>.
+              Separate list items with <code>|</code>. For matching questions, list the pairs in <code>options</code> as <code>prompt=match</code>; for ordering questions, list the options in the correct order. Add translations with columns such as <code>text:es</code>, <code>options:es</code> and <code>correct:es</code>.
+            </p>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{validRows.length} ready to import</Badge>
+                {invalidRows.length > 0 && <Badge variant="destructive">{invalidRows.length} with errors</Badge>}
+              </div>
+              {invalidRows.length > 0 && validRows.length > 0 && (
+                <Alert><AlertDescription>Questions with errors will be skipped. Fix them in the file and import it again, or import the valid questions now.</AlertDescription></Alert>
+              )}
+              <ScrollArea className="h-[360px] rounded-md border">
+                <Table>
+                  <TableHeader><TableRow><TableHead className="w-[110px]">Source</TableHead><TableHead className="w-[130px]">Type</TableHead><TableHead>Question</TableHead><TableHead className="w-[60px] text-right">Status</TableHead></TableRow></TableHeader>
+                  <TableBody>
+                    {rows.map((row, index) => (
+                      <TableRow key={`${row.location}-${index}`}>
+                        <TableCell className="text-xs text-muted-foreground align-top">{row.location}</TableCell>
+                        <TableCell className="align-top">{row.question && <Badge variant="outline" className="capitalize">{row.question.type.replace('-', ' ')}</Badge>}</TableCell>
+                        <TableCell className="align-top">
+                          <p className="text-sm line-clamp-2">{row.question?.text || '—'}</p>
+                          {row.question?.translations && Object.keys(row.question.translations).length > 0 && (
+                            <p className="text-xs text-muted-foreground">Translations: {Object.keys(row.question.translations).join(', ')}</p>
+                          )}
+                          {row.errors.map((error, errorIndex) => <p key={errorIndex} className="text-xs font-medium text-destructive">{error}</p>)}
+                        </TableCell>
+                        <TableCell className="text-right align-top">
+                          {row.question && row.errors.length === 0
+                            ? <CheckCircle className="h-4 w-4 text-green-600 inline" />
+                            : <XCircle className="h-4 w-4 text-destructive inline" />}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+          <Button type="button" onClick={handleImport} disabled={validRows.length === 0 || isImporting || isParsing} className="bg-primary hover:bg-primary/90">
+            {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import {validRows.length > 0 ? validRows.length : ''} Question{validRows.length === 1 ? '' : 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,355 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2, ImageIcon, AlignLeft, AlignCenter, AlignRight } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { uploadImage, STORAGE_PATHS } from '@/lib/storage';
+import { createCertificateTemplate, updateCertificateTemplate } from '@/lib/certificate-template-data';
+import {
+  CERTIFICATE_FIELD_LABELS,
+  CERTIFICATE_FONT_LABELS,
+  SAMPLE_MERGE_VALUES,
+  createCertificateField,
+  createDefaultTemplateData,
+  isImageField,
+} from '@/lib/certificate-template';
+import { CertificateTemplateView } from './CertificateTemplateView';
+import type {
+  CertificateTemplate,
+  CertificateTemplateField,
+  CertificateTemplateFormData,
+  CertificateFieldKey,
+  CertificateFontFamily,
+  CertificateFieldAlign,
+} from '@/types/certificate';
+
+type ImageTarget = 'backgroundImageUrl' | 'signatureImageUrl';
+
+interface CertificateTemplateEditorDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  brandId: string | null; // Owning brand, or null for a platform template
+  initialData: CertificateTemplate | null;
+  onSave: (template: CertificateTemplate) => void;
+}
+
+const toFormData = (template: CertificateTemplate): CertificateTemplateFormData => ({
+  name: template.name,
+  orientation: template.orientation,
+  backgroundColor: template.backgroundColor,
+  backgroundImageUrl: template.backgroundImageUrl,
+  signatoryName: template.signatoryName,
+  signatoryTitle: template.signatoryTitle,
+  signatureImageUrl: template.signatureImageUrl,
+  fields: template.fields || [],
+});
+
+export function CertificateTemplateEditorDialog({ isOpen, setIsOpen, brandId, initialData, onSave }: CertificateTemplateEditorDialogProps) {
+  const isEditing = !!initialData;
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<CertificateTemplateFormData>(createDefaultTemplateData);
+  const [selectedFieldId, setSelectedFieldId] = useState<string | null>(null);
+  const [newFieldKey, setNewFieldKey] = useState<CertificateFieldKey>('staticText');
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploadingTarget, setUploadingTarget] = useState<ImageTarget | null>(null);
+  const [uploadProgress, setUploadProgress] = useState(0);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(initialData ? toFormData(initialData) : createDefaultTemplateData());
+      setSelectedFieldId(null);
+      setUploadingTarget(null);
+      setUploadProgress(0);
+    }
+  }, [isOpen, initialData]);
+
+  const selectedField = draft.fields.find(field => field.id === selectedFieldId) || null;
+
+  const updateDraft = (changes: Partial<CertificateTemplateFormData>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateField = (fieldId: string, changes: Partial<CertificateTemplateField>) => {
+    setDraft(prev => ({ ...prev, fields: prev.fields.map(field => field.id === fieldId ? { ...field, ...changes } : field) }));
+  };
+
+  const handleAddField = () => {
+    const field = createCertificateField(newFieldKey);
+    setDraft(prev => ({ ...prev, fields: [...prev.fields, field] }));
+    setSelectedFieldId(field.id);
+  };
+
+  const handleRemoveField = (fieldId: string) => {
+    setDraft(prev => ({ ...prev, fields: prev.fields.filter(field => field.id !== fieldId) }));
+    setSelectedFieldId(null);
+  };
+
+  const handleNumberChange = (fieldId: string, key: 'x' | 'y' | 'width' | 'fontSize', value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed)) updateField(fieldId, { [key]: parsed });
+  };
+
+  const handleImageFileChange = async (event: React.ChangeEvent<HTMLInputElement>, target: ImageTarget) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      toast({ title: "Unsupported Image", description: "Please upload a PNG or JPEG image so it can be included in the PDF.", variant: "destructive" });
+      return;
+    }
+
+    setUploadingTarget(target);
+    setUploadProgress(0);
+    try {
+      const folder = target === 'backgroundImageUrl' ? STORAGE_PATHS.CERTIFICATE_BACKGROUNDS : STORAGE_PATHS.CERTIFICATE_SIGNATURES;
+      const uniqueFileName = `${brandId || 'platform'}-${initialData?.id || Date.now()}-${file.name}`;
+      const downloadURL = await uploadImage(file, `${folder}/${uniqueFileName}`, setUploadProgress);
+      updateDraft({ [target]: downloadURL });
+      toast({ title: "Image Uploaded", description: target === 'backgroundImageUrl' ? "Background image uploaded." : "Signature image uploaded." });
+    } catch (error: any) {
+      toast({ title: "Upload Failed", description: error.message || "Could not upload the image.", variant: "destructive" });
+    } finally {
+      setUploadingTarget(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      toast({ title: "Name Required", description: "Please give the template a name.", variant: "destructive" });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const templateData = { ...draft, name: draft.name.trim() };
+      const saved = isEditing && initialData
+        ? await updateCertificateTemplate(initialData.id, templateData)
+        : await createCertificateTemplate(brandId, templateData);
+      if (!saved) throw new Error("Failed to save the template.");
+      toast({ title: isEditing ? "Template Updated" : "Template Created", description: `"${saved.name}" has been saved.` });
+      onSave(saved);
+      setIsOpen(false);
+    } catch (error: any) {
+      console.error("Error saving certificate template:", error);
+      toast({ title: "Error", description: error.message || "Could not save the template.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderImagePicker = (target: ImageTarget, label: string) => {
+    const url = draft[target];
+    return (
+      <div className="space-y-1">
+        <Label>{label}</Label>
+        {uploadingTarget === target ? (
+          <Progress value={uploadProgress} className="h-2" />
+        ) : url ? (
+          <div className="flex items-center gap-2">
+            <img src={url} alt={label} className="h-10 w-16 rounded border object-contain bg-muted" />
+            <Button type="button" variant="ghost" size="sm" className="text-destructive" onClick={() => updateDraft({ [target]: null })}>
+              <Trash2 className="mr-1 h-4 w-4" /> Remove
+            </Button>
+          </div>
+        ) : (
+          <Label htmlFor={`certificate-${target}-upload`} className="flex cursor-pointer items-center gap-2 rounded-md border border-dashed p-2 text-sm font-normal text-muted-foreground hover:border-primary">
+            <ImageIcon className="h-4 w-4" /> Upload PNG or JPEG
+            <Input id={`certificate-${target}-upload`} type="file" accept="image/png,image/jpeg" className="hidden" onChange={(event) => handleImageFileChange(event, target)} disabled={!!uploadingTarget} />
+          </Label>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-6xl w-full max-h-[90vh] flex flex-col p-0">
+        <DialogHeader className="px-6 pt-6 pb-4 border-b">
+          <DialogTitle>{isEditing ? 'Edit Certificate Template' : 'New Certificate Template'}</DialogTitle>
+          <DialogDescription>Drag fields on the preview to position them, then fine-tune them on the right. The preview uses sample learner details.</DialogDescription>
+        </DialogHeader>
+        <div className="flex-1 overflow-y-auto grid gap-6 px-6 py-4 lg:grid-cols-[minmax(0,1fr)_340px]">
+          <div className="space-y-4">
+            <div className="rounded-md border shadow-sm overflow-hidden">
+              <CertificateTemplateView
+                template={draft}
+                values={SAMPLE_MERGE_VALUES}
+                selectedFieldId={selectedFieldId}
+                onSelectField={setSelectedFieldId}
+                onMoveField={(fieldId, x, y) => updateField(fieldId, { x, y })}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {draft.fields.map(field => (
+                <Badge
+                  key={field.id}
+                  variant={field.id === selectedFieldId ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => setSelectedFieldId(field.id)}
+                >
+                  {field.key === 'staticText' ? (field.text || CERTIFICATE_FIELD_LABELS.staticText).slice(0, 24) : CERTIFICATE_FIELD_LABELS[field.key]}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="certificate-template-name">Template Name</Label>
+              <Input id="certificate-template-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="e.g., Gold Border - Landscape" />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Orientation</Label>
+                <Select value={draft.orientation} onValueChange={(value) => updateDraft({ orientation: value as CertificateTemplateFormData['orientation'] })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="landscape">Landscape</SelectItem>
+                    <SelectItem value="portrait">Portrait</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="certificate-background-color">Background</Label>
+                <Input id="certificate-background-color" type="color" className="h-10 p-1" value={draft.backgroundColor} onChange={(e) => updateDraft({ backgroundColor: e.target.value })} />
+              </div>
+            </div>
+            {renderImagePicker('backgroundImageUrl', 'Background Image')}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="certificate-signatory-name">Signatory Name</Label>
+                <Input id="certificate-signatory-name" value={draft.signatoryName ?? ''} onChange={(e) => updateDraft({ signatoryName: e.target.value })} placeholder="e.g., Alex Morgan" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="certificate-signatory-title">Signatory Title</Label>
+                <Input id="certificate-signatory-title" value={draft.signatoryTitle ?? ''} onChange={(e) => updateDraft({ signatoryTitle: e.target.value })} placeholder="e.g., Head of Training" />
+              </div>
+            </div>
+            {renderImagePicker('signatureImageUrl', 'Signature Image')}
+
+            <Separator />
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label>Add Field</Label>
+                <Select value={newFieldKey} onValueChange={(value) => setNewFieldKey(value as CertificateFieldKey)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CERTIFICATE_FIELD_LABELS) as CertificateFieldKey[]).map(key => (
+                      <SelectItem key={key} value={key}>{CERTIFICATE_FIELD_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="button" variant="outline" onClick={handleAddField}><Plus className="mr-1 h-4 w-4" /> Add</Button>
+            </div>
+
+            {selectedField ? (
+              <div className="space-y-3 rounded-md border p-3">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-sm">{CERTIFICATE_FIELD_LABELS[selectedField.key]}</p>
+                  <Button type="button" variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => handleRemoveField(selectedField.id)} aria-label="Remove field">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {selectedField.key === 'staticText' && (
+                  <div className="space-y-1">
+                    <Label htmlFor="certificate-field-text">Text</Label>
+                    <Textarea id="certificate-field-text" rows={2} value={selectedField.text ?? ''} onChange={(e) => updateField(selectedField.id, { text: e.target.value })} />
+                  </div>
+                )}
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="certificate-field-x" className="text-xs">X (%)</Label>
+                    <Input id="certificate-field-x" type="number" min={0} max={100} step={0.5} value={selectedField.x} onChange={(e) => handleNumberChange(selectedField.id, 'x', e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="certificate-field-y" className="text-xs">Y (%)</Label>
+                    <Input id="certificate-field-y" type="number" min={0} max={100} step={0.5} value={selectedField.y} onChange={(e) => handleNumberChange(selectedField.id, 'y', e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="certificate-field-width" className="text-xs">Width (%)</Label>
+                    <Input id="certificate-field-width" type="number" min={1} max={100} step={0.5} value={selectedField.width} onChange={(e) => handleNumberChange(selectedField.id, 'width', e.target.value)} />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Alignment</Label>
+                  <div className="flex gap-1">
+                    {([['left', AlignLeft], ['center', AlignCenter], ['right', AlignRight]] as [CertificateFieldAlign, typeof AlignLeft][]).map(([align, Icon]) => (
+                      <Button key={align} type="button" size="icon" variant={selectedField.align === align ? 'default' : 'outline'} className="h-8 w-8" onClick={() => updateField(selectedField.id, { align })} aria-label={`Align ${align}`}>
+                        <Icon className="h-4 w-4" />
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                {!isImageField(selectedField) && (
+                  <>
+                    <div className="grid grid-cols-[minmax(0,1fr)_80px] gap-2">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Font</Label>
+                        <Select value={selectedField.fontFamily} onValueChange={(value) => updateField(selectedField.id, { fontFamily: value as CertificateFontFamily })}>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(CERTIFICATE_FONT_LABELS) as CertificateFontFamily[]).map(font => (
+                              <SelectItem key={font} value={font}>{CERTIFICATE_FONT_LABELS[font]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="certificate-field-size" className="text-xs">Size (pt)</Label>
+                        <Input id="certificate-field-size" type="number" min={6} max={96} value={selectedField.fontSize} onChange={(e) => handleNumberChange(selectedField.id, 'fontSize', e.target.value)} />
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Switch id="certificate-field-bold" checked={selectedField.bold} onCheckedChange={(checked) => updateField(selectedField.id, { bold: checked })} />
+                        <Label htmlFor="certificate-field-bold" className="text-sm font-normal">Bold</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="certificate-field-color" className="text-sm font-normal">Color</Label>
+                        <Input id="certificate-field-color" type="color" className="h-8 w-14 p-1" value={selectedField.color} onChange={(e) => updateField(selectedField.id, { color: e.target.value })} />
+                      </div>
+                    </div>
+                  </>
+                )}
+                {selectedField.key === 'signatureImage' && !draft.signatureImageUrl && (
+                  <p className="text-xs text-muted-foreground">Upload a signature image above for this field to appear on certificates.</p>
+                )}
+                {selectedField.key === 'signatoryName' && !draft.signatoryName && (
+                  <p className="text-xs text-muted-foreground">Enter a signatory name above for this field to appear on certificates.</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground italic">Select a field on the preview to edit it.</p>
+            )}
+          </div>
+        </div>
+        <DialogFooter className="px-6 pb-6 pt-4 border-t">
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleSave} disabled={isSaving || !!uploadingTarget}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isEditing ? 'Save Changes' : 'Create Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
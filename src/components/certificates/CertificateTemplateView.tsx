@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+import { QrCode, Signature } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { CertificateTemplate, CertificateTemplateField, CertificateTemplateFormData } from '@/types/certificate';
+import {
+    CERTIFICATE_PAGE_SIZES,
+    CERTIFICATE_FONT_STACKS,
+    CERTIFICATE_LINE_HEIGHT,
+    resolveFieldText,
+    type CertificateMergeValues,
+} from '@/lib/certificate-template';
+
+interface CertificateTemplateViewProps {
+    template: CertificateTemplate | CertificateTemplateFormData;
+    values: CertificateMergeValues;
+    selectedFieldId?: string | null; // Highlights a field in the designer
+    onSelectField?: (fieldId: string) => void;
+    onMoveField?: (fieldId: string, x: number, y: number) => void; // Enables dragging fields in the designer
+    className?: string;
+}
+
+function getFieldLeft(field: CertificateTemplateField): number {
+    if (field.align === 'center') return field.x - field.width / 2;
+    if (field.align === 'right') return field.x - field.width;
+    return field.x;
+}
+
+/**
+ * Renders a certificate template at any size. Font sizes scale with the container width
+ * so the layout matches the PDF page exactly.
+ */
+export function CertificateTemplateView({ template, values, selectedFieldId, onSelectField, onMoveField, className }: CertificateTemplateViewProps) {
+    const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ fieldId: string; pointerX: number; pointerY: number; fieldX: number; fieldY: number } | null>(null);
+    const page = CERTIFICATE_PAGE_SIZES[template.orientation] || CERTIFICATE_PAGE_SIZES.landscape;
+    const hasQrField = template.fields.some(field => field.key === 'qrCode');
+
+    useEffect(() => {
+        let isMounted = true;
+        if (hasQrField && values.verifyUrl) {
+            QRCode.toDataURL(values.verifyUrl, { margin: 1, width: 240, errorCorrectionLevel: 'M' })
+                .then(url => { if (isMounted) setQrDataUrl(url); })
+                .catch(error => console.error("Failed to generate certificate QR code:", error));
+        } else {
+            setQrDataUrl(null);
+        }
+        return () => { isMounted = false; };
+    }, [hasQrField, values.verifyUrl]);
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>, field: CertificateTemplateField) => {
+        onSelectField?.(field.id);
+        if (!onMoveField) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragRef.current = { fieldId: field.id, pointerX: event.clientX, pointerY: event.clientY, fieldX: field.x, fieldY: field.y };
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!drag || !rect || !onMoveField) return;
+        const x = drag.fieldX + ((event.clientX - drag.pointerX) / rect.width) * 100;
+        const y = drag.fieldY + ((event.clientY - drag.pointerY) / rect.height) * 100;
+        onMoveField(drag.fieldId, Math.round(Math.min(100, Math.max(0, x)) * 10) / 10, Math.round(Math.min(100, Math.max(0, y)) * 10) / 10);
+    };
+
+    const handlePointerUp = () => { dragRef.current = null; };
+
+    const renderFieldContent = (field: CertificateTemplateField) => {
+        if (field.key === 'signatureImage') {
+            return template.signatureImageUrl
+                ? <img src={template.signatureImageUrl} alt="Signature" className="w-full h-auto" />
+                : onSelectField ? <div className="flex aspect-[3/1] w-full items-center justify-center border border-dashed text-muted-foreground"><Signature className="h-1/2 w-1/2" /></div> : null;
+        }
+        if (field.key === 'qrCode') {
+            return qrDataUrl
+                ? <img src={qrDataUrl} alt="Verification QR code" className="w-full h-auto" />
+                : onSelectField ? <div className="flex aspect-square w-full items-center justify-center border border-dashed text-muted-foreground"><QrCode className="h-1/2 w-1/2" /></div> : null;
+        }
+        return resolveFieldText(field, template, values);
+    };
+
+    return (
+        <div
+            ref={containerRef}
+            className={cn("relative w-full overflow-hidden", className)}
+            style={{
+                aspectRatio: `${page.width} / ${page.height}`,
+                containerType: 'inline-size',
+                backgroundColor: template.backgroundColor || '#ffffff',
+                backgroundImage: template.backgroundImageUrl ? `url("${template.backgroundImageUrl}")` : undefined,
+                backgroundSize: '100% 100%',
+            }}
+        >
+            {template.fields.map(field => (
+                <div
+                    key={field.id}
+                    onPointerDown={onSelectField || onMoveField ? (event) => handlePointerDown(event, field) : undefined}
+                    onPointerMove={onMoveField ? handlePointerMove : undefined}
+                    onPointerUp={onMoveField ? handlePointerUp : undefined}
+                    className={cn(
+                        "absolute",
+                        onSelectField && "cursor-pointer hover:outline hover:outline-1 hover:outline-primary/50",
+                        onMoveField && "cursor-move touch-none select-none",
+                        selectedFieldId === field.id && "outline outline-2 outline-primary"
+                    )}
+                    style={{
+                        left: `${getFieldLeft(field)}%`,
+                        top: `${field.y}%`,
+                        width: `${field.width}%`,
+                        fontFamily: CERTIFICATE_FONT_STACKS[field.fontFamily],
+                        fontSize: `${(field.fontSize / page.width) * 100}cqw`,
+                        fontWeight: field.bold ? 700 : 400,
+                        lineHeight: CERTIFICATE_LINE_HEIGHT,
+                        color: field.color,
+                        textAlign: field.align,
+                        whiteSpace: 'pre-wrap',
+                        overflowWrap: 'break-word',
+                    }}
+                >
+                    {renderFieldContent(field)}
+                </div>
+            ))}
+        </div>
+    );
+}
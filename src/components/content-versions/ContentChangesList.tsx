@@ -0,0 +1,50 @@
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import type { ContentChange } from '@/types/course';
+
+const KIND_LABELS: Record<ContentChange['kind'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+interface ContentChangesListProps {
+  changes: ContentChange[];
+  emptyMessage?: string;
+  renderChangeFooter?: (change: ContentChange) => React.ReactNode; // e.g. review comments on the change
+}
+
+/**
+ * Shows field-by-field changes between two snapshots, with the old and new values side by side.
+ */
+export function ContentChangesList({ changes, emptyMessage = 'No content changes.', renderChangeFooter }: ContentChangesListProps) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {changes.map((change, index) => (
+        <li key={`${change.label}-${index}`} className="rounded-md border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">{change.label}</span>
+            <Badge variant={change.kind === 'removed' ? 'destructive' : change.kind === 'added' ? 'default' : 'secondary'}>{KIND_LABELS[change.kind]}</Badge>
+          </div>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div>
+              <p className="text-xs text-muted-foreground mb-1">Before</p>
+              <pre className="text-xs whitespace-pre-wrap break-words rounded bg-red-50 dark:bg-red-950/30 p-2 max-h-48 overflow-auto">{change.before ?? '—'}</pre>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground mb-1">After</p>
+              <pre className="text-xs whitespace-pre-wrap break-words rounded bg-green-50 dark:bg-green-950/30 p-2 max-h-48 overflow-auto">{change.after ?? '—'}</pre>
+            </div>
+          </div>
+          {renderChangeFooter?.(change)}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,337 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { ChevronDown, ChevronRight, ClipboardCheck, History, Loader2, Send, Trash2, Undo } from 'lucide-react';
+import { getCurrentUserSummary } from '@/lib/user-data';
+import { diffContent, discardDraft, getContentVersions, getPublishingState, publishDraft, rollbackToVersion } from '@/lib/content-versions';
+import { getBrandCourseSubmission, getOpenCourseReview, submitBrandCourseForReview } from '@/lib/course-review-data';
+import { ContentChangesList } from './ContentChangesList';
+import { CourseReviewComments } from '@/components/course-reviews/CourseReviewComments';
+import type { ContentPublishingState, ContentVersion, CourseReview, VersionedItemType } from '@/types/course';
+
+interface VersionHistoryDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  itemType: VersionedItemType;
+  item: { id: string; title: string; isApproved?: boolean } | null;
+  onChanged?: () => void; // Called after a publish, rollback or discard so the page can reload
+  requiresApproval?: boolean; // Under course approval brand courses are submitted for review, and their lessons and quizzes with them
+}
+
+const ITEM_LABELS: Record<VersionedItemType, string> = {
+  course: 'course',
+  lesson: 'lesson',
+  quiz: 'quiz',
+  brandCourse: 'course',
+  brandLesson: 'lesson',
+  brandQuiz: 'quiz',
+};
+
+type PendingAction = { type: 'publish' } | { type: 'submit' } | { type: 'discard' } | { type: 'rollback'; version: number };
+
+const REVIEW_STATUS_LABELS: Record<CourseReview['status'], string> = {
+  pending: 'Waiting for review',
+  changes_requested: 'Changes requested',
+  approved: 'Approved',
+};
+
+const formatWhen = (value: string | null) => (value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : 'Unknown date');
+
+/**
+ * Publishes or discards an item's draft, and lists its published versions with what changed in each
+ * so an earlier one can be rolled back to.
+ */
+export function VersionHistoryDialog({ isOpen, setIsOpen, itemType, item, onChanged, requiresApproval = false }: VersionHistoryDialogProps) {
+  const { toast } = useToast();
+  const [state, setState] = useState<ContentPublishingState | null>(null);
+  const [versions, setVersions] = useState<ContentVersion[]>([]);
+  const [review, setReview] = useState<CourseReview | null>(null);
+  const [submission, setSubmission] = useState<Pick<CourseReview, 'items' | 'itemTitles'> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [note, setNote] = useState('');
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const itemLabel = ITEM_LABELS[itemType];
+  const isReviewedCourse = requiresApproval && itemType === 'brandCourse';
+
+  const load = useCallback(async () => {
+    if (!item) return;
+    setIsLoading(true);
+    try {
+      const [publishingState, versionList, openReview, nextSubmission] = await Promise.all([
+        getPublishingState(itemType, item.id),
+        getContentVersions(itemType, item.id),
+        isReviewedCourse ? getOpenCourseReview(item.id) : Promise.resolve(null),
+        isReviewedCourse ? getBrandCourseSubmission(item.id) : Promise.resolve(null),
+      ]);
+      setState(publishingState);
+      setVersions(versionList);
+      setReview(openReview);
+      setSubmission(nextSubmission);
+    } catch (error) {
+      console.error("Failed to load version history:", error);
+      toast({ title: "Error", description: "Could not load the version history.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [item, itemType, isReviewedCourse, toast]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setNote('');
+      setExpandedVersion(null);
+      setPendingAction(null);
+      load();
+    } else {
+      setState(null);
+      setVersions([]);
+      setReview(null);
+      setSubmission(null);
+    }
+  }, [isOpen, load]);
+
+  const draftChanges = useMemo(() => (state?.draft ? diffContent(state.published, state.draft, submission?.itemTitles) : []), [state, submission]);
+
+  const handleConfirm = async () => {
+    if (!item || !pendingAction) return;
+    setIsWorking(true);
+    try {
+      if (pendingAction.type === 'discard') {
+        await discardDraft(itemType, item.id);
+        toast({ title: "Draft Discarded", description: `Unpublished changes to "${item.title}" were thrown away.` });
+      } else if (pendingAction.type === 'submit') {
+        await submitBrandCourseForReview(item.id, await getCurrentUserSummary(), note);
+        toast({ title: "Submitted for Review", description: `A reviewer was notified about "${item.title}".` });
+      } else {
+        const author = await getCurrentUserSummary();
+        const version = pendingAction.type === 'publish'
+          ? await publishDraft(itemType, item.id, author, note)
+          : await rollbackToVersion(itemType, item.id, pendingAction.version, author);
+        if (version) {
+          toast({
+            title: pendingAction.type === 'publish' ? "Changes Published" : "Rolled Back",
+            description: pendingAction.type === 'publish'
+              ? `"${item.title}" is now at version ${version.version}.`
+              : `Version ${pendingAction.version} of "${item.title}" was republished as version ${version.version}.`,
+          });
+        } else {
+          toast({ title: "Nothing to Publish", description: "There are no unpublished changes." });
+        }
+      }
+      setNote('');
+      onChanged?.();
+      await load();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "The action could not be completed.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+      setPendingAction(null);
+    }
+  };
+
+  const confirmText = !pendingAction ? null
+    : pendingAction.type === 'publish'
+      ? { title: 'Publish changes?', description: `Learners will see the new content of this ${itemLabel} from their next visit. Quiz attempts already in progress finish on the version they started.`, action: 'Publish' }
+      : pendingAction.type === 'submit'
+      ? { title: 'Submit for review?', description: `A reviewer is notified. Learners see the changes once the reviewer approves them.${review ? ' This replaces what is currently submitted.' : ''}`, action: 'Submit' }
+      : pendingAction.type === 'discard'
+        ? { title: 'Discard draft?', description: `All unpublished changes to this ${itemLabel} will be lost. This cannot be undone.`, action: 'Discard' }
+        : { title: `Roll back to version ${pendingAction.version}?`, description: `The content of version ${pendingAction.version} will be published as a new version. Your unpublished draft is kept.`, action: 'Roll Back' };
+
+  const currentVersion = state?.publishedVersion ?? null;
+  const awaitingFirstApproval = isReviewedCourse && item?.isApproved === false;
+  const reviewedItems = submission?.items ?? [];
+  const hasChanges = !!state?.draft || reviewedItems.length > 0;
+  const canSubmit = hasChanges || (awaitingFirstApproval && review?.status !== 'pending');
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !isWorking && setIsOpen(open)}>
+        <DialogContent className="sm:max-w-[800px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2"><History className="h-5 w-5" /> Publishing &amp; History</DialogTitle>
+            <DialogDescription>
+              Edits to &quot;{item?.title}&quot; are saved as a draft. Learners keep seeing the published version until the draft is published.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading && !state ? (
+            <div className="space-y-3 py-2">
+              <Skeleton className="h-24 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : (
+            <ScrollArea className="max-h-[65vh] pr-3">
+              <div className="space-y-6 py-2">
+                <section className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold">Draft</h3>
+                    {currentVersion !== null && <Badge variant="outline">Published: version {currentVersion}</Badge>}
+                  </div>
+                  {hasChanges ? (
+                    <>
+                      {state?.draft && (
+                        <>
+                          <p className="text-xs text-muted-foreground">Last edited {formatWhen(state.draftUpdatedAt)}. Changes compared with the published version:</p>
+                          <ContentChangesList changes={draftChanges} />
+                        </>
+                      )}
+                      {reviewedItems.length > 0 && (
+                        <div className="space-y-1">
+                          <p className="text-xs text-muted-foreground">Lessons and quizzes reviewed with this course:</p>
+                          <ul className="list-disc pl-5 text-sm">
+                            {reviewedItems.map(reviewedItem => (
+                              <li key={`${reviewedItem.itemType}-${reviewedItem.itemId}`}>
+                                {reviewedItem.title || 'Untitled'} <span className="text-muted-foreground">({ITEM_LABELS[reviewedItem.itemType]}, {reviewedItem.publishedContent ? 'changed' : 'new to this course'})</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {awaitingFirstApproval ? `No unpublished changes. Learners can't see this ${itemLabel} until a reviewer approves it.` : 'No unpublished changes. Learners see the latest content.'}
+                    </p>
+                  )}
+                  {requiresApproval && !isReviewedCourse && state?.draft && (
+                    <p className="text-sm text-muted-foreground">Learners see these changes once a course that uses this {itemLabel} is submitted for review and approved.</p>
+                  )}
+                  {(state?.draft || canSubmit) && (
+                    <>
+                      {(!requiresApproval || isReviewedCourse) && (
+                        <div className="space-y-1">
+                          <Label htmlFor="version-note">{requiresApproval ? 'Note for the Reviewer (Optional)' : 'Change Note (Optional)'}</Label>
+                          <Textarea id="version-note" value={note} onChange={(event) => setNote(event.target.value)} placeholder="What changed and why" rows={2} disabled={isWorking} />
+                        </div>
+                      )}
+                      <div className="flex justify-end gap-2">
+                        {state?.draft && (
+                          <Button type="button" variant="outline" onClick={() => setPendingAction({ type: 'discard' })} disabled={isWorking}>
+                            <Trash2 className="mr-2 h-4 w-4" /> Discard Draft
+                          </Button>
+                        )}
+                        {isReviewedCourse ? (
+                          <Button type="button" onClick={() => setPendingAction({ type: 'submit' })} disabled={isWorking || !canSubmit} className="bg-primary hover:bg-primary/90">
+                            <ClipboardCheck className="mr-2 h-4 w-4" /> {review ? 'Resubmit for Review' : 'Submit for Review'}
+                          </Button>
+                        ) : !requiresApproval && (
+                          <Button type="button" onClick={() => setPendingAction({ type: 'publish' })} disabled={isWorking} className="bg-primary hover:bg-primary/90">
+                            <Send className="mr-2 h-4 w-4" /> Publish
+                          </Button>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </section>
+
+                {isReviewedCourse && review && (
+                  <section className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-semibold">Review</h3>
+                      <Badge variant={review.status === 'changes_requested' ? 'destructive' : 'secondary'}>{REVIEW_STATUS_LABELS[review.status]}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Submitted {formatWhen(review.submittedAt)}{review.submittedBy ? ` by ${review.submittedBy.name}` : ''}.
+                      {review.reviewedBy && ` ${review.status === 'changes_requested' ? 'Sent back' : 'Reviewed'} ${formatWhen(review.reviewedAt)} by ${review.reviewedBy.name}.`}
+                    </p>
+                    {review.comments.length > 0
+                      ? <CourseReviewComments comments={review.comments} showChangeLabel />
+                      : <p className="text-sm text-muted-foreground">No reviewer comments yet.</p>}
+                  </section>
+                )}
+
+                <section className="space-y-3">
+                  <h3 className="font-semibold">Published Versions</h3>
+                  <ul className="space-y-2">
+                    {versions.map((version, index) => {
+                      const previous = versions[index + 1];
+                      const isCurrent = version.version === currentVersion;
+                      const isExpanded = expandedVersion === version.version;
+                      return (
+                        <li key={version.id} className="rounded-md border p-3 space-y-2">
+                          <div className="flex flex-wrap items-center justify-between gap-2">
+                            <div className="space-y-1">
+                              <p className="text-sm font-medium flex items-center gap-2">
+                                Version {version.version}
+                                {isCurrent && <Badge>Current</Badge>}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {formatWhen(version.publishedAt)}{version.publishedBy ? ` by ${version.publishedBy.name}` : ''}
+                              </p>
+                              {version.note && <p className="text-xs">{version.note}</p>}
+                            </div>
+                            <div className="flex gap-2">
+                              <Button type="button" variant="ghost" size="sm" onClick={() => setExpandedVersion(isExpanded ? null : version.version)}>
+                                {isExpanded ? <ChevronDown className="mr-1 h-4 w-4" /> : <ChevronRight className="mr-1 h-4 w-4" />} Changes
+                              </Button>
+                              {!isCurrent && !requiresApproval && (
+                                <Button type="button" variant="outline" size="sm" onClick={() => setPendingAction({ type: 'rollback', version: version.version })} disabled={isWorking}>
+                                  <Undo className="mr-1 h-4 w-4" /> Roll Back
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                          {isExpanded && (
+                            previous
+                              ? <ContentChangesList changes={diffContent(previous.content, version.content)} emptyMessage={`Same content as version ${previous.version}.`} />
+                              : <p className="text-sm text-muted-foreground">The first version of this {itemLabel}.</p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+              </div>
+            </ScrollArea>
+          )}
+
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline" disabled={isWorking}>Close</Button></DialogClose>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && !isWorking && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirmText?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{confirmText?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWorking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => { event.preventDefault(); handleConfirm(); }}
+              disabled={isWorking}
+              className={pendingAction?.type === 'discard' ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90' : undefined}
+            >
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {confirmText?.action}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
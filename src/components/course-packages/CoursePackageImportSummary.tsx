@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import type { CoursePackageImportReport } from '@/types/course';
+
+const plural = (count: number, noun: string, pluralNoun = `${noun}s`) => `${count} ${count === 1 ? noun : pluralNoun}`;
+
+/**
+ * What an import or copy created, and what it could not carry over.
+ */
+export function CoursePackageImportSummary({ report }: { report: CoursePackageImportReport }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm flex items-center gap-2">
+        <CheckCircle className="h-4 w-4 text-green-600" /> &quot;{report.courseTitle}&quot; was created.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="secondary">{plural(report.lessonsCreated, 'lesson')} created</Badge>
+        <Badge variant="secondary">{plural(report.quizzesCreated, 'quiz', 'quizzes')} created</Badge>
+        {report.lessonsReused > 0 && <Badge variant="outline">{plural(report.lessonsReused, 'existing lesson')} used</Badge>}
+        {report.quizzesReused > 0 && <Badge variant="outline">{plural(report.quizzesReused, 'existing quiz', 'existing quizzes')} used</Badge>}
+        {report.filesUploaded > 0 && <Badge variant="outline">{plural(report.filesUploaded, 'file')} uploaded</Badge>}
+        {report.videosQueued > 0 && <Badge variant="outline">{plural(report.videosQueued, 'video')} processing</Badge>}
+      </div>
+      {report.warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Check these items</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 text-xs space-y-1">
+              {report.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Download, Loader2 } from 'lucide-react';
+import { exportCoursePackage } from '@/lib/course-package';
+import type { CourseLibrary } from '@/types/course';
+
+interface ExportCoursePackageDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  library: CourseLibrary;
+  course: { id: string; title: string } | null;
+}
+
+/**
+ * Downloads a course as a zip package that can be imported into another environment or library.
+ */
+export function ExportCoursePackageDialog({ isOpen, setIsOpen, library, course }: ExportCoursePackageDialogProps) {
+  const { toast } = useToast();
+  const [includeVideos, setIncludeVideos] = useState(true);
+  const [progress, setProgress] = useState<{ message: string; percent: number } | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setProgress(null);
+      setWarnings([]);
+    }
+  }, [isOpen]);
+
+  const handleExport = async () => {
+    if (!course) return;
+    setWarnings([]);
+    setProgress({ message: "Starting...", percent: 0 });
+    try {
+      const result = await exportCoursePackage(library, course.id, { includeVideos }, (message, percent) => setProgress({ message, percent }));
+      const url = URL.createObjectURL(result.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast({ title: "Course Exported", description: `"${course.title}" was saved as ${result.fileName}.` });
+      if (result.warnings.length > 0) {
+        setWarnings(result.warnings);
+      } else {
+        setIsOpen(false);
+      }
+    } catch (error: any) {
+      toast({ title: "Export Failed", description: error.message || "Could not export the course.", variant: "destructive" });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const isExporting = progress !== null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isExporting && setIsOpen(open)}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Export Course Package</DialogTitle>
+          <DialogDescription>
+            Download &quot;{course?.title}&quot; with its lessons, quizzes, questions, translations and images as a zip file.
+            Import it on the Courses page of another environment or brand.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-start space-x-2">
+            <Checkbox id="course-package-include-videos" checked={includeVideos} onCheckedChange={(checked) => setIncludeVideos(checked === true)} disabled={isExporting} />
+            <div className="grid gap-1 leading-none">
+              <Label htmlFor="course-package-include-videos">Include uploaded videos</Label>
+              <p className="text-xs text-muted-foreground">Videos can make the package very large. Without them, imported lessons keep playing the videos from this environment.</p>
+            </div>
+          </div>
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={progress.percent} className="h-2" />
+              <p className="text-xs text-muted-foreground">{progress.message}</p>
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Exported with warnings</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4 text-xs space-y-1">
+                  {warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild><Button type="button" variant="outline" disabled={isExporting}>{warnings.length > 0 ? 'Close' : 'Cancel'}</Button></DialogClose>
+          <Button type="button" onClick={handleExport} disabled={!course || isExporting} className="bg-primary hover:bg-primary/90">
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
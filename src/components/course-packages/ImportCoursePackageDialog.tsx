@@ -0,0 +1,250 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, FileUp, Loader2 } from 'lucide-react';
+import { findCoursePackageConflicts, importCoursePackage, readCoursePackage, type CoursePackage } from '@/lib/course-package';
+import { CoursePackageImportSummary } from './CoursePackageImportSummary';
+import type { CourseLibrary, CoursePackageConflict, CoursePackageImportReport } from '@/types/course';
+
+export interface CoursePackageTarget {
+  library: CourseLibrary;
+  label: string; // e.g. 'Global library' or the brand name
+}
+
+interface ImportCoursePackageDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  targets: CoursePackageTarget[]; // The first one is selected by default
+  manageCourseHref?: (courseId: string, library: CourseLibrary) => string | null; // Where to edit the imported course, if anywhere
+  onImported: (report: CoursePackageImportReport) => void;
+}
+
+const targetKey = (library: CourseLibrary) => (library.type === 'brand' ? `brand:${library.brandId}` : 'global');
+
+const CONFLICT_LABELS: Record<CoursePackageConflict['itemType'], string> = {
+  course: 'Course',
+  lesson: 'Lesson',
+  quiz: 'Quiz',
+  certificateTemplate: 'Certificate',
+  checkpoint: 'Checkpoint',
+};
+
+/**
+ * Reads a course package, shows what clashes with the target library, and imports it as a new course.
+ */
+export function ImportCoursePackageDialog({ isOpen, setIsOpen, targets, manageCourseHref, onImported }: ImportCoursePackageDialogProps) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [coursePackage, setCoursePackage] = useState<CoursePackage | null>(null);
+  const [selectedTargetKey, setSelectedTargetKey] = useState('');
+  const [conflicts, setConflicts] = useState<CoursePackageConflict[] | null>(null);
+  const [reuseExisting, setReuseExisting] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState<{ message: string; percent: number } | null>(null);
+  const [report, setReport] = useState<CoursePackageImportReport | null>(null);
+
+  const target = targets.find(item => targetKey(item.library) === selectedTargetKey) ?? null;
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName(null);
+      setCoursePackage(null);
+      setConflicts(null);
+      setReuseExisting(false);
+      setProgress(null);
+      setReport(null);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen && !targets.some(item => targetKey(item.library) === selectedTargetKey)) {
+      setSelectedTargetKey(targets[0] ? targetKey(targets[0].library) : '');
+    }
+  }, [isOpen, targets, selectedTargetKey]);
+
+  // Conflicts depend on the target library, so they are checked again when it changes
+  useEffect(() => {
+    const library = targets.find(item => targetKey(item.library) === selectedTargetKey)?.library;
+    if (!coursePackage || !library) return;
+    let isActive = true;
+    setConflicts(null);
+    findCoursePackageConflicts(coursePackage, library)
+      .then(result => { if (isActive) setConflicts(result); })
+      .catch(error => {
+        console.error("Failed to check course package conflicts:", error);
+        if (isActive) setConflicts([]);
+      });
+    return () => { isActive = false; };
+  }, [coursePackage, selectedTargetKey]); // A key always stands for the same library, so targets is left out
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      setCoursePackage(await readCoursePackage(file));
+      setFileName(file.name);
+    } catch (error: any) {
+      setCoursePackage(null);
+      setFileName(null);
+      toast({ title: "Could Not Read Package", description: error.message || "The file could not be read.", variant: "destructive" });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!coursePackage || !target) return;
+    setProgress({ message: "Starting...", percent: 0 });
+    try {
+      const result = await importCoursePackage(coursePackage, { target: target.library, reuseExisting }, (message, percent) => setProgress({ message, percent }));
+      setReport(result);
+      onImported(result);
+      toast({ title: "Course Imported", description: `"${result.courseTitle}" was added to ${target.label}.` });
+    } catch (error: any) {
+      toast({ title: "Import Failed", description: error.message || "The course could not be imported.", variant: "destructive" });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const isImporting = progress !== null;
+  const manifest = coursePackage?.manifest;
+  const hasDuplicateItems = (conflicts || []).some(conflict => conflict.itemType === 'lesson' || conflict.itemType === 'quiz');
+  const manageHref = report && manageCourseHref ? manageCourseHref(report.courseId, report.target) : null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isImporting && setIsOpen(open)}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Import Course Package</DialogTitle>
+          <DialogDescription>Upload a course package (.zip) exported from this or another environment. It is added as a new course with its own lessons and quizzes.</DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="py-2"><CoursePackageImportSummary report={report} /></div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <Label htmlFor="course-package-file" className="block border border-dashed rounded-lg p-6 text-center cursor-pointer hover:border-primary">
+              {isReading ? <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-2" /> : <FileUp className="h-8 w-8 mx-auto text-muted-foreground mb-2" />}
+              <span className="text-sm text-muted-foreground">{fileName ? `${fileName} — choose another file` : 'Choose a course package'}</span>
+              <Input id="course-package-file" type="file" accept=".zip,application/zip" className="hidden" onChange={handleFileChange} disabled={isReading || isImporting} />
+            </Label>
+
+            {targets.length > 1 && (
+              <div className="space-y-1">
+                <Label htmlFor="course-package-target">Import Into</Label>
+                <Select value={selectedTargetKey} onValueChange={setSelectedTargetKey} disabled={isImporting}>
+                  <SelectTrigger id="course-package-target"><SelectValue placeholder="Choose a library" /></SelectTrigger>
+                  <SelectContent>
+                    {targets.map(item => <SelectItem key={targetKey(item.library)} value={targetKey(item.library)}>{item.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {manifest && (
+              <div className="rounded-lg border p-3 space-y-2">
+                <p className="font-semibold">{manifest.course.title}</p>
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="secondary">{manifest.lessons.length} lesson{manifest.lessons.length === 1 ? '' : 's'}</Badge>
+                  <Badge variant="secondary">{manifest.quizzes.length} quiz{manifest.quizzes.length === 1 ? '' : 'zes'}</Badge>
+                  <Badge variant="outline">{manifest.media.length} media file{manifest.media.length === 1 ? '' : 's'}</Badge>
+                  {manifest.scormPackages.length > 0 && <Badge variant="outline">{manifest.scormPackages.length} SCORM package{manifest.scormPackages.length === 1 ? '' : 's'}</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Exported {new Date(manifest.exportedAt).toLocaleString()} from {manifest.source.library === 'brand' ? 'a brand library' : 'the global library'}
+                  {manifest.source.projectId ? ` (${manifest.source.projectId})` : ''}.
+                </p>
+                {manifest.warnings.length > 0 && (
+                  <Alert><AlertDescription className="text-xs">Exported with warnings: {manifest.warnings.join(' ')}</AlertDescription></Alert>
+                )}
+              </div>
+            )}
+
+            {manifest && target && (
+              conflicts === null ? (
+                <p className="text-sm text-muted-foreground flex items-center gap-2"><Loader2 className="h-4 w-4 animate-spin" /> Checking {target.label} for conflicts...</p>
+              ) : conflicts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No conflicts with {target.label}.</p>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium flex items-center gap-2"><AlertTriangle className="h-4 w-4 text-yellow-600" /> {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'} with {target.label}</p>
+                  <ScrollArea className="max-h-[180px] rounded-md border">
+                    <ul className="divide-y">
+                      {conflicts.map((conflict, index) => (
+                        <li key={`${conflict.itemType}-${index}`} className="p-2 text-sm">
+                          <Badge variant="outline" className="mr-2">{CONFLICT_LABELS[conflict.itemType]}</Badge>
+                          <span className="font-medium">{conflict.title}</span>
+                          <p className="text-xs text-muted-foreground">{conflict.message}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                  {hasDuplicateItems && (
+                    <RadioGroup value={reuseExisting ? 'reuse' : 'copy'} onValueChange={(value) => setReuseExisting(value === 'reuse')} disabled={isImporting}>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="copy" id="course-package-duplicates-copy" />
+                        <Label htmlFor="course-package-duplicates-copy" className="font-normal">Create copies of lessons and quizzes that have the same title</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="reuse" id="course-package-duplicates-reuse" />
+                        <Label htmlFor="course-package-duplicates-reuse" className="font-normal">Use the existing lessons and quizzes in the course instead</Label>
+                      </div>
+                    </RadioGroup>
+                  )}
+                </div>
+              )
+            )}
+
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={progress.percent} className="h-2" />
+                <p className="text-xs text-muted-foreground">{progress.message}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <>
+              {manageHref && <Button variant="outline" asChild><Link href={manageHref}>Manage Curriculum</Link></Button>}
+              <DialogClose asChild><Button type="button">Done</Button></DialogClose>
+            </>
+          ) : (
+            <>
+              <DialogClose asChild><Button type="button" variant="outline" disabled={isImporting}>Cancel</Button></DialogClose>
+              <Button type="button" onClick={handleImport} disabled={!coursePackage || !target || conflicts === null || isImporting || isReading} className="bg-primary hover:bg-primary/90">
+                {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import Course
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { MessageSquare } from 'lucide-react';
+import type { CourseReviewComment } from '@/types/course';
+
+/**
+ * Lists review comments, oldest first, with who wrote them and when.
+ */
+export function CourseReviewComments({ comments, showChangeLabel = false }: { comments: CourseReviewComment[]; showChangeLabel?: boolean }) {
+  if (comments.length === 0) return null;
+
+  return (
+    <ul className="space-y-2">
+      {comments.map(comment => (
+        <li key={comment.id} className="rounded-md bg-muted/60 p-2 text-sm">
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <MessageSquare className="h-3 w-3" />
+            {comment.author?.name || 'Reviewer'} · {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+            {showChangeLabel && comment.changeLabel && <> · on <span className="font-medium">{comment.changeLabel}</span></>}
+          </p>
+          <p className="whitespace-pre-wrap">{comment.text}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
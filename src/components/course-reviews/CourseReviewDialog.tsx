@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle, Loader2, MessageSquarePlus, Undo } from 'lucide-react';
+import { getCurrentUserSummary } from '@/lib/user-data';
+import { diffContent } from '@/lib/content-versions';
+import { addCourseReviewComment, approveCourseReview, requestCourseReviewChanges } from '@/lib/course-review-data';
+import { ContentChangesList } from '@/components/content-versions/ContentChangesList';
+import { CourseReviewComments } from './CourseReviewComments';
+import type { CourseReview, CourseReviewItem } from '@/types/course';
+
+interface CourseReviewDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  review: CourseReview | null;
+  onChanged?: () => void; // Called after the review is approved or sent back
+}
+
+const ITEM_LABELS: Record<CourseReviewItem['itemType'], string> = {
+  brandLesson: 'Lesson',
+  brandQuiz: 'Quiz',
+};
+
+/**
+ * Shows what a brand submitted for review, lets the reviewer comment on each change or on the
+ * submission as a whole, and approve it or send it back with the comments.
+ */
+export function CourseReviewDialog({ isOpen, setIsOpen, review, onChanged }: CourseReviewDialogProps) {
+  const { toast } = useToast();
+  const [comments, setComments] = useState<CourseReview['comments']>([]);
+  const [commentingOn, setCommentingOn] = useState<string | null>(null);
+  const [changeComment, setChangeComment] = useState('');
+  const [generalComment, setGeneralComment] = useState('');
+  const [pendingDecision, setPendingDecision] = useState<'approve' | 'request_changes' | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && review) {
+      setComments(review.comments);
+      setCommentingOn(null);
+      setChangeComment('');
+      setGeneralComment('');
+      setPendingDecision(null);
+    }
+  }, [isOpen, review]);
+
+  // The course's own changes and curriculum first, then each lesson and quiz, labelled with its title so comments stay attached to it
+  const changes = useMemo(() => (review ? [
+    ...diffContent(review.publishedContent, review.content, review.itemTitles),
+    ...review.items.flatMap(item => diffContent(item.publishedContent, item.content)
+      .map(change => ({ ...change, label: `${ITEM_LABELS[item.itemType]} "${item.title || 'Untitled'}": ${change.label}` }))),
+  ] : []), [review]);
+  const generalComments = comments.filter(comment => !comment.changeLabel);
+
+  const addComment = async (changeLabel: string | null, text: string) => {
+    if (!review) return false;
+    try {
+      const comment = await addCourseReviewComment(review.id, changeLabel, text, await getCurrentUserSummary());
+      setComments(current => [...current, comment]);
+      return true;
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not add the comment.", variant: "destructive" });
+      return false;
+    }
+  };
+
+  const handleAddChangeComment = async (changeLabel: string) => {
+    setIsWorking(true);
+    if (await addComment(changeLabel, changeComment)) {
+      setChangeComment('');
+      setCommentingOn(null);
+    }
+    setIsWorking(false);
+  };
+
+  const handleDecision = async () => {
+    if (!review || !pendingDecision) return;
+    setIsWorking(true);
+    try {
+      if (generalComment.trim()) {
+        if (!(await addComment(null, generalComment))) return;
+        setGeneralComment('');
+      }
+      const reviewer = await getCurrentUserSummary();
+      if (pendingDecision === 'approve') {
+        await approveCourseReview(review, reviewer);
+        toast({ title: "Course Approved", description: `"${review.courseTitle}" is now live for learners.` });
+      } else {
+        await requestCourseReviewChanges(review, reviewer);
+        toast({ title: "Changes Requested", description: `The author of "${review.courseTitle}" was notified.` });
+      }
+      onChanged?.();
+      setIsOpen(false);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "The review could not be completed.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+      setPendingDecision(null);
+    }
+  };
+
+  const requestChanges = () => {
+    if (comments.length === 0 && !generalComment.trim()) {
+      toast({ title: "Add a Comment", description: "Leave at least one comment so the author knows what to change.", variant: "destructive" });
+      return;
+    }
+    setPendingDecision('request_changes');
+  };
+
+  const isPending = review?.status === 'pending';
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !isWorking && setIsOpen(open)}>
+        <DialogContent className="sm:max-w-[800px]">
+          <DialogHeader>
+            <DialogTitle>Review: {review?.courseTitle}</DialogTitle>
+            <DialogDescription>
+              {review?.publishedContent ? 'Changes compared with what learners see now.' : 'A new course. Learners will see it once it is approved.'}
+              {review?.submittedAt && ` Submitted ${formatDistanceToNow(new Date(review.submittedAt), { addSuffix: true })}${review.submittedBy ? ` by ${review.submittedBy.name}` : ''}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="max-h-[65vh] pr-3">
+            <div className="space-y-6 py-2">
+              {review?.note && (
+                <section className="space-y-1">
+                  <h3 className="font-semibold">Author&apos;s Note</h3>
+                  <p className="text-sm whitespace-pre-wrap">{review.note}</p>
+                </section>
+              )}
+
+              {!isPending && <Badge variant="secondary">Waiting for the author&apos;s changes</Badge>}
+
+              <section className="space-y-3">
+                <h3 className="font-semibold">Changes</h3>
+                <ContentChangesList
+                  changes={changes}
+                  emptyMessage="No changes to the course, its curriculum, or its lessons and quizzes."
+                  renderChangeFooter={(change) => (
+                    <div className="space-y-2">
+                      <CourseReviewComments comments={comments.filter(comment => comment.changeLabel === change.label)} />
+                      {commentingOn === change.label ? (
+                        <div className="space-y-2">
+                          <Textarea value={changeComment} onChange={(event) => setChangeComment(event.target.value)} placeholder={`Comment on ${change.label}`} rows={2} disabled={isWorking} />
+                          <div className="flex justify-end gap-2">
+                            <Button type="button" variant="ghost" size="sm" onClick={() => setCommentingOn(null)} disabled={isWorking}>Cancel</Button>
+                            <Button type="button" size="sm" onClick={() => handleAddChangeComment(change.label)} disabled={isWorking || !changeComment.trim()}>Add Comment</Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <Button type="button" variant="ghost" size="sm" onClick={() => { setCommentingOn(change.label); setChangeComment(''); }} disabled={isWorking}>
+                          <MessageSquarePlus className="mr-1 h-4 w-4" /> Comment
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                />
+              </section>
+
+              <section className="space-y-3">
+                <h3 className="font-semibold">General Comments</h3>
+                <CourseReviewComments comments={generalComments} />
+                <div className="space-y-1">
+                  <Label htmlFor="course-review-comment">Comment on the Whole Submission (Optional)</Label>
+                  <Textarea id="course-review-comment" value={generalComment} onChange={(event) => setGeneralComment(event.target.value)} placeholder="Added when you approve or request changes" rows={2} disabled={isWorking} />
+                </div>
+              </section>
+            </div>
+          </ScrollArea>
+
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline" disabled={isWorking}>Close</Button></DialogClose>
+            {isPending && (
+              <>
+                <Button type="button" variant="outline" onClick={requestChanges} disabled={isWorking}>
+                  <Undo className="mr-2 h-4 w-4" /> Request Changes
+                </Button>
+                <Button type="button" onClick={() => setPendingDecision('approve')} disabled={isWorking} className="bg-primary hover:bg-primary/90">
+                  <CheckCircle className="mr-2 h-4 w-4" /> Approve
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDecision !== null} onOpenChange={(open) => !open && !isWorking && setPendingDecision(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingDecision === 'approve' ? 'Approve this course?' : 'Request changes?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDecision === 'approve'
+                ? 'The submitted content is published and learners see it from their next visit.'
+                : 'The author is notified and can resubmit after addressing your comments.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWorking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={(event) => { event.preventDefault(); handleDecision(); }} disabled={isWorking}>
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingDecision === 'approve' ? 'Approve' : 'Request Changes'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { GitFork, Loader2 } from 'lucide-react';
+import { forkSharedBrandCourse } from '@/lib/course-sharing-data';
+import { CoursePackageImportSummary } from '@/components/course-packages/CoursePackageImportSummary';
+import type { BrandCourse, CoursePackageImportReport } from '@/types/course';
+
+interface ForkSharedCourseDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  course: BrandCourse | null;
+  brandId: string;
+  onForked?: () => void; // Called once the copy is in the brand's library
+}
+
+/**
+ * Copies a course shared by the parent brand into the child brand's library so the child brand can edit it.
+ */
+export function ForkSharedCourseDialog({ isOpen, setIsOpen, course, brandId, onForked }: ForkSharedCourseDialogProps) {
+  const { toast } = useToast();
+  const [progress, setProgress] = useState<{ message: string; percent: number } | null>(null);
+  const [report, setReport] = useState<CoursePackageImportReport | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setProgress(null);
+      setReport(null);
+    }
+  }, [isOpen]);
+
+  const isCopying = progress !== null;
+
+  const handleFork = async () => {
+    if (!course) return;
+    setProgress({ message: "Starting...", percent: 0 });
+    try {
+      const result = await forkSharedBrandCourse(course, brandId, (message, percent) => setProgress({ message, percent }));
+      toast({ title: "Editable Copy Created", description: `"${result.courseTitle}" is now in your courses.` });
+      onForked?.();
+      if (result.warnings.length > 0) {
+        setReport(result);
+      } else {
+        setIsOpen(false);
+      }
+    } catch (error: any) {
+      toast({ title: "Copy Failed", description: error.message || "The course could not be copied.", variant: "destructive" });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isCopying && setIsOpen(open)}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Make an Editable Copy</DialogTitle>
+          <DialogDescription>
+            Adds a copy of &quot;{course?.title}&quot; and its lessons and quizzes to your courses. You can edit the copy,
+            but it no longer receives updates from the parent brand, and users assigned the shared course keep it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="py-2"><CoursePackageImportSummary report={report} /></div>
+        ) : progress && (
+          <div className="space-y-1 py-2">
+            <Progress value={progress.percent} className="h-2" />
+            <p className="text-xs text-muted-foreground">{progress.message}</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <DialogClose asChild><Button type="button">Done</Button></DialogClose>
+          ) : (
+            <>
+              <DialogClose asChild><Button type="button" variant="outline" disabled={isCopying}>Cancel</Button></DialogClose>
+              <Button type="button" onClick={handleFork} disabled={!course || isCopying} className="bg-primary hover:bg-primary/90">
+                {isCopying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitFork className="mr-2 h-4 w-4" />}
+                Make Copy
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Share2 } from 'lucide-react';
+import { getSharedCourseCompletions, updateBrandCourseSharing } from '@/lib/course-sharing-data';
+import type { BrandCourse, SharedCourseCompletion } from '@/types/course';
+import type { Company } from '@/types/user';
+
+type SharingMode = 'none' | 'all' | 'selected';
+
+interface ShareBrandCourseDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  course: BrandCourse | null;
+  childBrands: Company[];
+  onChanged?: () => void; // Called after the sharing settings are saved
+}
+
+/**
+ * Shares a parent brand's course with its child brands and shows how each child brand's users are doing on it.
+ */
+export function ShareBrandCourseDialog({ isOpen, setIsOpen, course, childBrands, onChanged }: ShareBrandCourseDialogProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<SharingMode>('none');
+  const [selectedBrandIds, setSelectedBrandIds] = useState<string[]>([]);
+  const [completions, setCompletions] = useState<SharedCourseCompletion[]>([]);
+  const [isLoadingCompletions, setIsLoadingCompletions] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !course) return;
+    setMode(course.sharing?.scope || 'none');
+    setSelectedBrandIds(course.sharing?.brandIds || []);
+    setCompletions([]);
+    if (!course.sharing) return;
+    setIsLoadingCompletions(true);
+    getSharedCourseCompletions(course)
+      .then(setCompletions)
+      .catch(error => {
+        console.error("Failed to load shared course completions:", error);
+        toast({ title: "Error", description: "Could not load completions for child brands.", variant: "destructive" });
+      })
+      .finally(() => setIsLoadingCompletions(false));
+  }, [isOpen, course, toast]);
+
+  const toggleBrand = (brandId: string, checked: boolean) => {
+    setSelectedBrandIds(current => checked ? [...current, brandId] : current.filter(id => id !== brandId));
+  };
+
+  const handleSave = async () => {
+    if (!course) return;
+    setIsSaving(true);
+    try {
+      await updateBrandCourseSharing(course.id, mode === 'none' ? null : { scope: mode, brandIds: selectedBrandIds });
+      toast({
+        title: "Sharing Updated",
+        description: mode === 'none' || (mode === 'selected' && selectedBrandIds.length === 0)
+          ? `"${course.title}" is no longer shared.`
+          : `"${course.title}" is shared with ${mode === 'all' ? 'all child brands' : `${selectedBrandIds.length} child brand(s)`}.`,
+      });
+      onChanged?.();
+      setIsOpen(false);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not update sharing.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isSaving && setIsOpen(open)}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Share with Child Brands</DialogTitle>
+          <DialogDescription>
+            Child brands can assign &quot;{course?.title}&quot; to their users but can&apos;t edit it. Your published changes reach them automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          {childBrands.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Your brand has no child brands to share with yet.</p>
+          ) : (
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as SharingMode)} className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="none" id="sharing-none" />
+                <Label htmlFor="sharing-none" className="font-normal">Not shared</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="all" id="sharing-all" />
+                <Label htmlFor="sharing-all" className="font-normal">All child brands, including ones added later</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="selected" id="sharing-selected" />
+                <Label htmlFor="sharing-selected" className="font-normal">Selected child brands</Label>
+              </div>
+              {mode === 'selected' && (
+                <div className="ml-6 space-y-2">
+                  {childBrands.map(brand => (
+                    <div key={brand.id} className="flex items-center space-x-2">
+                      <Checkbox id={`sharing-brand-${brand.id}`} checked={selectedBrandIds.includes(brand.id)} onCheckedChange={(checked) => toggleBrand(brand.id, checked === true)} disabled={isSaving} />
+                      <Label htmlFor={`sharing-brand-${brand.id}`} className="font-normal">{brand.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </RadioGroup>
+          )}
+
+          {course?.sharing && (
+            <section className="space-y-2">
+              <h3 className="font-semibold">Progress in Child Brands</h3>
+              {isLoadingCompletions ? <Skeleton className="h-20 w-full" /> : completions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No child brands have this course yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader><TableRow><TableHead>Brand</TableHead><TableHead className="text-right">Assigned</TableHead><TableHead className="text-right">In Progress</TableHead><TableHead className="text-right">Completed</TableHead></TableRow></TableHeader>
+                  <TableBody>
+                    {completions.map(completion => (
+                      <TableRow key={completion.brandId}>
+                        <TableCell>{completion.brandName}</TableCell>
+                        <TableCell className="text-right">{completion.assigned}</TableCell>
+                        <TableCell className="text-right">{completion.inProgress}</TableCell>
+                        <TableCell className="text-right">{completion.completed}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </section>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild><Button type="button" variant="outline" disabled={isSaving}>Cancel</Button></DialogClose>
+          <Button type="button" onClick={handleSave} disabled={!course || isSaving || childBrands.length === 0} className="bg-primary hover:bg-primary/90">
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Share2 className="mr-2 h-4 w-4" />}
+            Save Sharing
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,10 +22,13 @@ import {
   SelectLabel
 } from "@/components/ui/select";
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import type { User, Company } from '@/types/user';
 import type { Course, BrandCourse, Program } from '@/types/course';
 import { Check, Loader2 } from 'lucide-react';
 import { getBrandCoursesByBrandId } from '@/lib/brand-content-data';
+import { isBrandCourseVisibleToLearners } from '@/lib/course-review-data';
+import { getCoursesSharedWithBrand } from '@/lib/course-sharing-data';
 import { getAllPrograms as fetchAllGlobalPrograms, getCourseById as fetchGlobalCourseById } from '@/lib/firestore-data'; // Renamed to avoid conflict
 import { useToast } from '@/hooks/use-toast';
 
@@ -34,15 +37,17 @@ interface AssignCourseDialogProps {
   setIsOpen: (open: boolean) => void;
   employee: User;
   company: Company | null;
-  onAssignCourse: (courseId: string, action: 'assign' | 'unassign') => void;
+  onAssignCourse: (courseId: string, action: 'assign' | 'unassign', dueDate?: string | null) => void;
 }
 
 export function AssignCourseDialog({ isOpen, setIsOpen, employee, company, onAssignCourse }: AssignCourseDialogProps) {
   const [selectedCourseId, setSelectedCourseId] = useState<string | undefined>(undefined);
   const [isCourseAssigned, setIsCourseAssigned] = useState(false);
+  const [dueDate, setDueDate] = useState(''); // YYYY-MM-DD, empty for no deadline
   
   const [availableGlobalCourses, setAvailableGlobalCourses] = useState<Course[]>([]);
   const [brandSpecificCourses, setBrandSpecificCourses] = useState<BrandCourse[]>([]);
+  const [sharedCourses, setSharedCourses] = useState<BrandCourse[]>([]);
   
   const [isLoadingGlobalCourses, setIsLoadingGlobalCourses] = useState(false);
   const [isLoadingBrandCourses, setIsLoadingBrandCourses] = useState(false);
@@ -83,21 +88,21 @@ export function AssignCourseDialog({ isOpen, setIsOpen, employee, company, onAss
         setIsLoadingGlobalCourses(false);
       }
 
-      // Fetch brand-specific courses if the brand can manage them
-      if (company.canManageCourses && company.id) {
-        try {
-          const fetchedBrandCourses = await getBrandCoursesByBrandId(company.id);
-          setBrandSpecificCourses(fetchedBrandCourses.filter(bc => !bc.isDeleted));
-        } catch (error) {
-          console.error("Error fetching brand specific courses:", error);
-          toast({ title: "Error", description: "Could not load brand-specific courses.", variant: "destructive" });
-          setBrandSpecificCourses([]);
-        } finally {
-          setIsLoadingBrandCourses(false);
-        }
-      } else {
+      // Fetch brand-specific courses if the brand can manage them, and the courses its parent brand shares with it
+      try {
+        const [fetchedBrandCourses, fetchedSharedCourses] = await Promise.all([
+          company.canManageCourses && company.id ? getBrandCoursesByBrandId(company.id) : Promise.resolve([]),
+          getCoursesSharedWithBrand(company),
+        ]);
+        setBrandSpecificCourses(fetchedBrandCourses.filter(bc => !bc.isDeleted && isBrandCourseVisibleToLearners(bc)));
+        setSharedCourses(fetchedSharedCourses);
+      } catch (error) {
+        console.error("Error fetching brand specific courses:", error);
+        toast({ title: "Error", description: "Could not load brand-specific courses.", variant: "destructive" });
         setBrandSpecificCourses([]);
-        setIsLoadingBrandCourses(false); // Ensure this is set if no fetch attempt
+        setSharedCourses([]);
+      } finally {
+        setIsLoadingBrandCourses(false);
       }
     };
 
@@ -116,7 +121,7 @@ export function AssignCourseDialog({ isOpen, setIsOpen, employee, company, onAss
   const handleSubmit = () => {
     if (!selectedCourseId) return;
     const action = isCourseAssigned ? 'unassign' : 'assign';
-    onAssignCourse(selectedCourseId, action);
+    onAssignCourse(selectedCourseId, action, action === 'assign' ? dueDate || null : undefined);
     // Dialog closure and state reset handled by parent via onAssignCourse callback
   };
 
@@ -125,12 +130,14 @@ export function AssignCourseDialog({ isOpen, setIsOpen, employee, company, onAss
     // Reset local states when dialog is explicitly closed
     setSelectedCourseId(undefined);
     setIsCourseAssigned(false);
+    setDueDate('');
   };
 
   const combinedCourses = useMemo(() => [
     ...availableGlobalCourses.map(c => ({ ...c, type: 'global' as const })),
-    ...brandSpecificCourses.map(bc => ({ ...bc, type: 'brand' as const }))
-  ], [availableGlobalCourses, brandSpecificCourses]);
+    ...brandSpecificCourses.map(bc => ({ ...bc, type: 'brand' as const })),
+    ...sharedCourses.map(sc => ({ ...sc, type: 'brand' as const }))
+  ], [availableGlobalCourses, brandSpecificCourses, sharedCourses]);
 
   const isLoadingAnyCourses = isLoadingGlobalCourses || isLoadingBrandCourses;
 
@@ -192,6 +199,21 @@ export function AssignCourseDialog({ isOpen, setIsOpen, employee, company, onAss
                         ))}
                       </SelectGroup>
                     )}
+                    {sharedCourses.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Shared by Parent Brand</SelectLabel>
+                        {sharedCourses.map((course) => (
+                          <SelectItem key={`shared-${course.id}`} value={course.id}>
+                            <div className="flex items-center justify-between w-full">
+                              <span>{course.title} ({course.level})</span>
+                              {employee.assignedCourseIds?.includes(course.id) && (
+                                <Check className="h-4 w-4 text-green-500 ml-2" />
+                              )}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
                     {combinedCourses.length === 0 && (
                       <div className="px-2 py-1.5 text-sm text-muted-foreground italic text-center">
                         No courses available for assignment to this brand's users.
@@ -202,6 +224,13 @@ export function AssignCourseDialog({ isOpen, setIsOpen, employee, company, onAss
               </SelectContent>
             </Select>
           </div>
+          {selectedCourseId && !isCourseAssigned && (
+            <div className="space-y-2">
+              <Label htmlFor="course-due-date">Due Date (Optional)</Label>
+              <Input id="course-due-date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+              <p className="text-xs text-muted-foreground">Reminders are sent before the due date and once the course is overdue.</p>
+            </div>
+          )}
         </div>
         <DialogFooter>
           <DialogClose asChild>
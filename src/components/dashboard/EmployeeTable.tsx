@@ -23,13 +23,14 @@ import {
     DropdownMenuSeparator,
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Edit, Archive, Undo, BookCopy, MapPin, Loader2, ShieldCheck, MoreHorizontal, Trash2, Send, ChevronsUpDown, ArrowUp, ArrowDown } from "lucide-react";
+import { Edit, Archive, Undo, BookCopy, MapPin, Loader2, ShieldCheck, MoreHorizontal, Trash2, Send, ChevronsUpDown, ArrowUp, ArrowDown, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { User, UserRole, Location, Company } from '@/types/user';
 import type { Course, BrandCourse } from '@/types/course';
 import { cn } from '@/lib/utils';
 import { getCourseById as fetchGlobalCourseById } from '@/lib/firestore-data';
 import { getBrandCourseById } from '@/lib/brand-content-data';
+import { getOverdueCourseIds } from '@/lib/due-dates';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { SendNotificationDialog } from './SendNotificationDialog'; // Import the new dialog
 
@@ -247,6 +248,7 @@ export function EmployeeTable({ employees, onToggleEmployeeStatus, currentUser,
           }
 
            const displayableLocationNames = getAccessibleLocationNames(employee.assignedLocationIds);
+           const overdueCourseIds = getOverdueCourseIds(employee);
 
           return (
           <TableRow key={employee.id} className={cn(!employee.isActive && "opacity-50")}>
@@ -260,6 +262,16 @@ export function EmployeeTable({ employees, onToggleEmployeeStatus, currentUser,
             </TableCell>
             <TableCell>
                  {courseDisplay}
+                 {overdueCourseIds.length > 0 && (
+                     <Badge
+                        variant="destructive"
+                        className="mt-1 flex w-fit items-center gap-1 text-xs"
+                        title={overdueCourseIds.map(courseId => assignedCourseTitles[courseId] || courseId).join(', ')}
+                     >
+                        <AlertTriangle className="h-3 w-3" />
+                        {overdueCourseIds.length} Overdue
+                     </Badge>
+                 )}
             </TableCell>
              <TableCell className="text-center">
                 <div className="flex flex-wrap gap-1 max-w-xs justify-center">
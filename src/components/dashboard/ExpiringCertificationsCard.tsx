@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, RefreshCw } from 'lucide-react';
+import type { User } from '@/types/user';
+import type { Course, BrandCourse } from '@/types/course';
+import { getCourseById } from '@/lib/firestore-data';
+import { getBrandCourseById } from '@/lib/brand-content-data';
+import { getCompletionExpiry, EXPIRING_SOON_DAYS, type CompletionExpiry } from '@/lib/recertification';
+
+interface ExpiringCertificationsCardProps {
+  employees: User[];
+  baseEditPath: "/admin/users" | "/dashboard/users";
+}
+
+type ExpiringCertification = CompletionExpiry & {
+  employee: User;
+  courseId: string;
+  courseTitle: string;
+};
+
+export function ExpiringCertificationsCard({ employees, baseEditPath }: ExpiringCertificationsCardProps) {
+  const [courses, setCourses] = useState<Record<string, Course | BrandCourse | null>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const completedCourseIds = useMemo(() => Array.from(new Set(employees.flatMap(employee =>
+    Object.entries(employee.courseProgress || {})
+      .filter(([, progress]) => progress?.status === 'Completed')
+      .map(([courseId]) => courseId)
+  ))), [employees]);
+
+  useEffect(() => {
+    let isMounted = true;
+    const fetchCourses = async () => {
+      setIsLoading(true);
+      const fetched = await Promise.all(completedCourseIds.map(async courseId => {
+        try {
+          return [courseId, (await getCourseById(courseId)) || (await getBrandCourseById(courseId))] as const;
+        } catch (error) {
+          console.error(`Error fetching course ${courseId} for expiry check:`, error);
+          return [courseId, null] as const;
+        }
+      }));
+      if (isMounted) {
+        setCourses(Object.fromEntries(fetched));
+        setIsLoading(false);
+      }
+    };
+    if (completedCourseIds.length > 0) fetchCourses();
+    else setCourses({});
+    return () => { isMounted = false; };
+  }, [completedCourseIds]);
+
+  const expiring = useMemo(() => {
+    const rows: ExpiringCertification[] = [];
+    employees.forEach(employee => {
+      Object.entries(employee.courseProgress || {}).forEach(([courseId, progress]) => {
+        const course = courses[courseId];
+        const expiry = getCompletionExpiry(progress, course);
+        if (course && expiry && expiry.daysUntilExpiry <= EXPIRING_SOON_DAYS) {
+          rows.push({ ...expiry, employee, courseId, courseTitle: course.title });
+        }
+      });
+    });
+    return rows.sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+  }, [employees, courses]);
+
+  return (
+    <Card className="card-lift-hover">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><RefreshCw className="h-5 w-5" /> Expiring Certifications</CardTitle>
+        <CardDescription>Completions that expire in the next {EXPIRING_SOON_DAYS} days. Expired courses are reset automatically so the team member can recertify.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center p-4"><Loader2 className="h-6 w-6 animate-spin mx-auto" /></div>
+        ) : expiring.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No certifications expire in the next {EXPIRING_SOON_DAYS} days.</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Team Member</TableHead>
+                  <TableHead>Course</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead className="text-right">Expires</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {expiring.map(row => (
+                  <TableRow key={`${row.employee.id}-${row.courseId}`}>
+                    <TableCell>
+                      <Link href={`${baseEditPath}/${row.employee.id}/edit`} className="font-medium hover:underline">{row.employee.name}</Link>
+                      <div className="text-xs text-muted-foreground">{row.employee.email}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{row.courseTitle}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{row.completedAt.toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="text-sm">{row.expiresAt.toLocaleDateString()}</div>
+                      <Badge variant={row.isExpired || row.daysUntilExpiry <= 7 ? 'destructive' : 'secondary'} className="text-xs">
+                        {row.isExpired ? 'Expired' : `In ${row.daysUntilExpiry} day${row.daysUntilExpiry === 1 ? '' : 's'}`}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
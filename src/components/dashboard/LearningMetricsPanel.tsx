@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { BookOpen, Clock, GraduationCap, Loader2, UserCheck } from 'lucide-react';
+import { StatCard } from './StatCard';
+import { useToast } from '@/hooks/use-toast';
+import type { DailyLearningMetrics, LearningMetricsScope, LearningMetricsSummary } from '@/types/analytics';
+import { addDaysToDateKey, getDailyLearningMetrics, getDateKeysBetween, getPercentChange, summarizeLearningMetrics, toMetricsDateKey } from '@/lib/learning-metrics-data';
+
+type RangePreset = '7' | '30' | '90' | 'custom';
+type ComparisonMode = 'none' | 'previous' | 'year' | 'custom';
+type ChartMetric = keyof LearningMetricsSummary;
+
+const MAX_RANGE_DAYS = 366;
+
+const CHART_METRICS: { value: ChartMetric; label: string }[] = [
+  { value: 'activeLearners', label: 'Active Learners' },
+  { value: 'lessonsCompleted', label: 'Lessons Completed' },
+  { value: 'coursesCompleted', label: 'Courses Completed' },
+  { value: 'quizzesPassed', label: 'Quizzes Passed' },
+  { value: 'quizzesFailed', label: 'Quizzes Failed' },
+  { value: 'minutesLearned', label: 'Minutes Learned' },
+];
+
+const chartConfig = {
+  current: { label: 'Selected period', color: 'hsl(var(--chart-1))' },
+  comparison: { label: 'Comparison period', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+const getDayValue = (day: DailyLearningMetrics, metric: ChartMetric): number => {
+  if (metric === 'activeLearners') return day.activeLearnerIds.length;
+  if (metric === 'minutesLearned') return Math.round(day.secondsLearned / 60);
+  return day[metric];
+};
+
+const formatDateKey = (dateKey: string) => format(parseISO(dateKey), 'MMM d');
+
+interface LearningMetricsPanelProps {
+  scopes: LearningMetricsScope[]; // Brands or a location whose activity is charted. Must not overlap
+  activeTeamMembers: number;
+  avgCompletion: number;
+}
+
+/**
+ * Charts the daily learning aggregates for the dashboard's brand or location filter over a chosen range,
+ * optionally against a comparison period of the same length.
+ */
+export function LearningMetricsPanel({ scopes, activeTeamMembers, avgCompletion }: LearningMetricsPanelProps) {
+  const today = toMetricsDateKey(new Date());
+  const [rangePreset, setRangePreset] = useState<RangePreset>('30');
+  const [customFrom, setCustomFrom] = useState(addDaysToDateKey(today, -29));
+  const [customTo, setCustomTo] = useState(today);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('previous');
+  const [comparisonFrom, setComparisonFrom] = useState(addDaysToDateKey(today, -59));
+  const [chartMetric, setChartMetric] = useState<ChartMetric>('activeLearners');
+  const [currentDays, setCurrentDays] = useState<DailyLearningMetrics[]>([]);
+  const [comparisonDays, setComparisonDays] = useState<DailyLearningMetrics[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const range = rangePreset === 'custom'
+    ? { from: customFrom, to: customTo }
+    : { from: addDaysToDateKey(today, -(Number(rangePreset) - 1)), to: today };
+  const rangeLength = range.from && range.to && range.from <= range.to ? getDateKeysBetween(range.from, range.to).length : 0;
+  const rangeError = rangeLength === 0
+    ? 'Choose a start date on or before the end date.'
+    : rangeLength > MAX_RANGE_DAYS ? `Choose a range of at most ${MAX_RANGE_DAYS} days.` : null;
+
+  // The comparison period always has the same number of days as the selected one
+  let comparison: { from: string; to: string } | null = null;
+  if (!rangeError && comparisonMode !== 'none') {
+    const comparisonStart = comparisonMode === 'previous' ? addDaysToDateKey(range.from, -rangeLength)
+      : comparisonMode === 'year' ? addDaysToDateKey(range.from, -364) // 52 weeks, so weekdays line up
+      : comparisonFrom;
+    if (comparisonStart) comparison = { from: comparisonStart, to: addDaysToDateKey(comparisonStart, rangeLength - 1) };
+  }
+
+  const scopesKey = scopes.map(scope => `${scope.type}_${scope.id}`).join(',');
+
+  useEffect(() => {
+    if (rangeError) return;
+    let isCancelled = false;
+    setIsLoading(true);
+    Promise.all([
+      getDailyLearningMetrics(scopes, range.from, range.to),
+      comparison ? getDailyLearningMetrics(scopes, comparison.from, comparison.to) : Promise.resolve([]),
+    ])
+      .then(([current, previous]) => {
+        if (isCancelled) return;
+        setCurrentDays(current);
+        setComparisonDays(previous);
+      })
+      .catch(error => {
+        console.error("Failed to load learning metrics:", error);
+        if (!isCancelled) toast({ title: "Error", description: "Could not load learning metrics.", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+    return () => { isCancelled = true; };
+    // Keyed by IDs so an equal scopes array from the parent doesn't trigger a refetch
+  }, [scopesKey, range.from, range.to, comparison?.from, comparison?.to, rangeError, toast]);
+
+  const summary = useMemo(() => summarizeLearningMetrics(currentDays), [currentDays]);
+  const hasComparison = !!comparison;
+  const comparisonSummary = useMemo(() => (hasComparison ? summarizeLearningMetrics(comparisonDays) : null), [hasComparison, comparisonDays]);
+
+  const getChange = (metric: keyof LearningMetricsSummary) => {
+    if (!comparisonSummary) return {};
+    const change = getPercentChange(summary[metric], comparisonSummary[metric]);
+    if (change === null) return {};
+    return { change: `${change > 0 ? '+' : ''}${change}%`, changeVariant: change < 0 ? 'destructive' as const : 'default' as const };
+  };
+
+  const toSparkline = (metric: ChartMetric) => currentDays.map(day => ({ date: formatDateKey(day.date), value: getDayValue(day, metric) }));
+
+  const chartData = currentDays.map((day, index) => ({
+    date: formatDateKey(day.date),
+    current: getDayValue(day, chartMetric),
+    ...(comparisonDays[index] ? { comparison: getDayValue(comparisonDays[index], chartMetric) } : {}),
+  }));
+
+  const loadingValue = <Loader2 className="h-6 w-6 animate-spin" />;
+  const comparisonLabel = comparison ? `${formatDateKey(comparison.from)} – ${formatDateKey(comparison.to)}` : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col space-y-1">
+          <Label htmlFor="metrics-range" className="text-sm text-muted-foreground">Period</Label>
+          <Select value={rangePreset} onValueChange={(value) => setRangePreset(value as RangePreset)}>
+            <SelectTrigger id="metrics-range" className="w-[180px] h-10"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {rangePreset === 'custom' && (
+          <>
+            <div className="flex flex-col space-y-1">
+              <Label htmlFor="metrics-from" className="text-sm text-muted-foreground">From</Label>
+              <Input id="metrics-from" type="date" value={customFrom} max={today} onChange={(e) => setCustomFrom(e.target.value)} className="w-44 h-10" />
+            </div>
+            <div className="flex flex-col space-y-1">
+              <Label htmlFor="metrics-to" className="text-sm text-muted-foreground">To</Label>
+              <Input id="metrics-to" type="date" value={customTo} max={today} onChange={(e) => setCustomTo(e.target.value)} className="w-44 h-10" />
+            </div>
+          </>
+        )}
+        <div className="flex flex-col space-y-1">
+          <Label htmlFor="metrics-comparison" className="text-sm text-muted-foreground">Compare With</Label>
+          <Select value={comparisonMode} onValueChange={(value) => setComparisonMode(value as ComparisonMode)}>
+            <SelectTrigger id="metrics-comparison" className="w-[200px] h-10"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No comparison</SelectItem>
+              <SelectItem value="previous">Previous period</SelectItem>
+              <SelectItem value="year">Same period last year</SelectItem>
+              <SelectItem value="custom">Period starting on...</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {comparisonMode === 'custom' && (
+          <div className="flex flex-col space-y-1">
+            <Label htmlFor="metrics-comparison-from" className="text-sm text-muted-foreground">Comparison Start</Label>
+            <Input id="metrics-comparison-from" type="date" value={comparisonFrom} max={today} onChange={(e) => setComparisonFrom(e.target.value)} className="w-44 h-10" />
+          </div>
+        )}
+        {comparisonLabel && !rangeError && <p className="text-sm text-muted-foreground self-center">Comparing with {comparisonLabel}</p>}
+      </div>
+      {rangeError && <p className="text-sm text-destructive">{rangeError}</p>}
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          title="Active Learners"
+          value={isLoading ? loadingValue : summary.activeLearners}
+          description={`Of ${activeTeamMembers} active team members`}
+          icon={UserCheck}
+          chartData={toSparkline('activeLearners')}
+          chartColor="hsl(var(--chart-1))"
+          {...getChange('activeLearners')}
+        />
+        <StatCard
+          title="Lessons Completed"
+          value={isLoading ? loadingValue : summary.lessonsCompleted}
+          description={`${summary.quizzesPassed} quizzes passed, ${summary.quizzesFailed} failed`}
+          icon={BookOpen}
+          chartData={toSparkline('lessonsCompleted')}
+          chartColor="hsl(var(--chart-2))"
+          {...getChange('lessonsCompleted')}
+        />
+        <StatCard
+          title="Courses Completed"
+          value={isLoading ? loadingValue : summary.coursesCompleted}
+          description={`Avg. completion ${avgCompletion}% for active team members`}
+          icon={GraduationCap}
+          chartData={toSparkline('coursesCompleted')}
+          chartColor="hsl(var(--chart-3))"
+          {...getChange('coursesCompleted')}
+        />
+        <StatCard
+          title="Minutes Learned"
+          value={isLoading ? loadingValue : summary.minutesLearned.toLocaleString()}
+          description="Time spent in courses"
+          icon={Clock}
+          chartData={toSparkline('minutesLearned')}
+          chartColor="hsl(var(--chart-5))"
+          {...getChange('minutesLearned')}
+        />
+      </div>
+
+      <Card className="card-lift-hover">
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>Learning Activity</CardTitle>
+            <CardDescription>Daily totals{comparisonLabel ? ', with the comparison period overlaid day by day' : ''}. Days are in UTC.</CardDescription>
+          </div>
+          <Select value={chartMetric} onValueChange={(value) => setChartMetric(value as ChartMetric)}>
+            <SelectTrigger className="w-[200px]" aria-label="Metric to chart"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {CHART_METRICS.map(metric => <SelectItem key={metric.value} value={metric.value}>{metric.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-[260px] w-full" />
+          ) : (
+            <ChartContainer config={chartConfig} className="h-[260px] w-full">
+              <LineChart data={chartData} margin={{ top: 5, right: 12, left: 0, bottom: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="current" type="monotone" stroke="var(--color-current)" strokeWidth={2} dot={false} />
+                {comparison && <Line dataKey="comparison" type="monotone" stroke="var(--color-comparison)" strokeWidth={2} strokeDasharray="4 4" dot={false} />}
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, CheckCircle, ClipboardList, Users } from 'lucide-react';
+import { getAverageQuizScore, getCompletionRate } from '@/lib/hierarchy-analytics';
+import type { AnalyticsMetrics } from '@/types/analytics';
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value}%`);
+
+/**
+ * The four headline numbers of the hierarchy report for whatever is selected: the group, a brand or a location.
+ */
+export function HierarchyMetricCards({ metrics }: { metrics: AnalyticsMetrics }) {
+  const cards = [
+    { title: 'Active Users', value: String(metrics.activeUsers), description: `${metrics.totalUsers - metrics.activeUsers} inactive`, icon: Users },
+    { title: 'Completion Rate', value: formatPercent(getCompletionRate(metrics)), description: `${metrics.completedAssignments} of ${metrics.assignments} assigned courses`, icon: CheckCircle },
+    { title: 'Overdue Assignments', value: String(metrics.overdueAssignments), description: 'Past their due date and not completed', icon: AlertTriangle },
+    { title: 'Average Quiz Score', value: formatPercent(getAverageQuizScore(metrics)), description: `Across ${metrics.quizAttempts} submitted attempt(s)`, icon: ClipboardList },
+  ];
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      {cards.map(card => (
+        <Card key={card.title}>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+            <card.icon className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{card.value}</div>
+            <p className="text-xs text-muted-foreground">{card.description}</p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getAverageQuizScore, getCompletionRate } from '@/lib/hierarchy-analytics';
+import type { AnalyticsMetrics } from '@/types/analytics';
+
+export interface HierarchyMetricsRow {
+  id: string;
+  name: React.ReactNode;
+  description?: string;
+  metrics: AnalyticsMetrics;
+  isHighlighted?: boolean; // e.g. the brand being viewed among its siblings
+  warnings?: string[]; // Shown under the name, e.g. why a location is falling behind
+}
+
+interface HierarchyMetricsTableProps {
+  nameHeader: string;
+  rows: HierarchyMetricsRow[];
+  onSelect?: (id: string) => void; // Rows become clickable to drill down
+  emptyMessage?: string;
+}
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value}%`);
+
+/**
+ * Lists brands, locations or users side by side with the same columns as the report's headline numbers.
+ */
+export function HierarchyMetricsTable({ nameHeader, rows, onSelect, emptyMessage = 'Nothing to show.' }: HierarchyMetricsTableProps) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4 text-center">{emptyMessage}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{nameHeader}</TableHead>
+          <TableHead className="text-right">Active Users</TableHead>
+          <TableHead className="text-right">Completion</TableHead>
+          <TableHead className="text-right">Overdue</TableHead>
+          <TableHead className="text-right">Avg. Quiz Score</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => (
+          <TableRow
+            key={row.id}
+            onClick={onSelect ? () => onSelect(row.id) : undefined}
+            className={cn(onSelect && 'cursor-pointer', row.isHighlighted && 'bg-muted/60 font-medium')}
+          >
+            <TableCell>
+              <div className="flex flex-col">
+                <span className={cn(onSelect && 'text-primary hover:underline')}>{row.name}</span>
+                {row.description && <span className="text-xs text-muted-foreground">{row.description}</span>}
+                {row.warnings?.map(warning => (
+                  <span key={warning} className="text-xs text-destructive flex items-center gap-1"><AlertTriangle className="h-3 w-3" />{warning}</span>
+                ))}
+              </div>
+            </TableCell>
+            <TableCell className="text-right">{row.metrics.activeUsers} / {row.metrics.totalUsers}</TableCell>
+            <TableCell className="text-right">{formatPercent(getCompletionRate(row.metrics))}</TableCell>
+            <TableCell className={cn('text-right', row.metrics.overdueAssignments > 0 && 'text-destructive')}>{row.metrics.overdueAssignments}</TableCell>
+            <TableCell className="text-right">{formatPercent(getAverageQuizScore(row.metrics))}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
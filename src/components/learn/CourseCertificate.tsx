@@ -1,12 +1,16 @@
 
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Award } from 'lucide-react';
+import { Award, Download, Loader2 } from 'lucide-react';
 import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { issueCertificateAction } from '@/actions/certificates';
+import { CertificateTemplateView } from '@/components/certificates/CertificateTemplateView';
+import type { CertificateTemplate } from '@/types/certificate';
 
 interface CourseCertificateProps {
     courseName: string;
@@ -14,6 +18,11 @@ interface CourseCertificateProps {
     completionDate: Date;
     brandName?: string | null;
     brandLogoUrl?: string | null;
+    expiresAt?: Date | null; // Set for courses that require recertification
+    userId?: string; // With courseId, enables the PDF download for the current completion
+    courseId?: string;
+    template?: CertificateTemplate | null; // The course's certificate template; the built-in layout is used without one
+    timeSpentSeconds?: number;
 }
 
 const CertificateSeal = () => (
@@ -50,21 +59,64 @@ const CertificateSeal = () => (
 );
 
 
-export function CourseCertificate({ courseName, userName, completionDate, brandName, brandLogoUrl }: CourseCertificateProps) {
+export function CourseCertificate({ courseName, userName, completionDate, brandName, brandLogoUrl, expiresAt, userId, courseId, template, timeSpentSeconds }: CourseCertificateProps) {
+    const [isDownloading, setIsDownloading] = useState(false);
+    const { toast } = useToast();
     const formattedDate = completionDate.toLocaleDateString('en-US', {
         year: 'numeric',
         month: 'long',
         day: 'numeric',
     });
+    const formattedExpiryDate = expiresAt?.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    const isExpired = !!expiresAt && expiresAt.getTime() <= Date.now();
+
+    const expiredStamp = isExpired && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none">
+            <span className="-rotate-12 border-4 border-destructive px-6 py-2 font-sans text-5xl font-bold uppercase tracking-widest text-destructive opacity-80">Expired</span>
+        </div>
+    );
 
     const handlePrint = () => {
         window.print();
     };
 
+    const handleDownloadPdf = async () => {
+        if (!userId || !courseId) return;
+        setIsDownloading(true);
+        try {
+            const result = await issueCertificateAction(userId, courseId);
+            if (!result.success || !result.certificateId) throw new Error(result.error || "Could not issue the certificate.");
+            window.location.href = `/api/certificates/${result.certificateId}/pdf`;
+        } catch (error: any) {
+            toast({ title: "Download Failed", description: error.message, variant: "destructive" });
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
     return (
         <div className="certificate-container p-4 bg-secondary/30 print:bg-white print:p-0">
             <div className="w-full max-w-4xl mx-auto bg-background shadow-2xl print:shadow-none font-serif">
-                <div className="relative border-4 border-primary p-8">
+                {template ? (
+                <div className={cn("relative", isExpired && "grayscale")}>
+                    {expiredStamp}
+                    <CertificateTemplateView
+                        template={template}
+                        values={{
+                            learnerName: userName,
+                            courseTitle: courseName,
+                            completedAt: completionDate,
+                            expiresAt: expiresAt ?? null,
+                            timeSpentSeconds: timeSpentSeconds ?? 0,
+                            brandName: brandName ?? null,
+                            serialNumber: null, // Assigned when the PDF is downloaded
+                            verifyUrl: null,
+                        }}
+                    />
+                </div>
+                ) : (
+                <div className={cn("relative border-4 border-primary p-8", isExpired && "grayscale")}>
+                    {expiredStamp}
                      {/* Decorative Borders */}
                     <div className="absolute top-0 left-0 w-16 h-16 border-t-4 border-l-4 border-accent"></div>
                     <div className="absolute top-0 right-0 w-16 h-16 border-t-4 border-r-4 border-accent"></div>
@@ -102,6 +154,11 @@ export function CourseCertificate({ courseName, userName, completionDate, brandN
                         <p className="text-base text-foreground">for successfully completing the course</p>
                         <h2 className="text-3xl font-semibold text-accent" style={{fontFamily: "'Garamond', serif"}}>{courseName}</h2>
                         <p className="text-base text-muted-foreground pt-4">Awarded on this day, {formattedDate}</p>
+                        {formattedExpiryDate && (
+                            <p className={cn("text-sm", isExpired ? "font-semibold text-destructive" : "text-muted-foreground")}>
+                                {isExpired ? `Expired on ${formattedExpiryDate}` : `Valid until ${formattedExpiryDate}`}
+                            </p>
+                        )}
 
                         <div className="pt-12 flex justify-around items-center">
                             <div className="text-center">
@@ -116,9 +173,16 @@ export function CourseCertificate({ courseName, userName, completionDate, brandN
                         </div>
                     </div>
                 </div>
+                )}
             </div>
-            <div className="text-center mt-6 print-hide">
+            <div className="flex justify-center gap-2 mt-6 print-hide">
                 <Button onClick={handlePrint}>Print Certificate</Button>
+                {userId && courseId && (
+                    <Button variant="outline" onClick={handleDownloadPdf} disabled={isDownloading}>
+                        {isDownloading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                        Download PDF
+                    </Button>
+                )}
             </div>
         </div>
     );
@@ -1,38 +1,106 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import type { Quiz, Question, QuestionType } from '@/types/course';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import Image from 'next/image';
+import type { Quiz, Question, QuestionType, QuizAnswerValue, QuizAttemptAnswer, QuizSettings } from '@/types/course';
 import { Button } from '@/components/ui/button';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Checkbox } from '@/components/ui/checkbox'; // Import Checkbox
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { AlertCircle, CheckCircle, XCircle } from 'lucide-react';
+import { AlertCircle, CheckCircle, XCircle, Loader2, Clock, Play, ArrowUp, ArrowDown } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
+import { gradeQuizAnswers, getQuizSettings, drawQuizQuestions, applyQuestionDraw, type QuestionDraw } from '@/lib/quiz-attempt-data';
+
+// An attempt started on the server. Its settings and deadline are authoritative.
+export interface QuizAttemptSession {
+  attemptId: string;
+  attemptNumber: number;
+  expiresAt: string | null; // ISO string when the quiz is timed
+  settings: QuizSettings;
+  questionIds?: string[] | null; // Questions drawn for this attempt, in display order
+  optionOrder?: Record<string, number[]> | null;
+  questions?: Question[] | null; // The quiz version the attempt is pinned to, when it differs from the quiz passed in
+}
+
+// Authoritative result returned by the parent after grading a submission on the server
+export interface QuizGradedResult {
+  score: number;
+  passed: boolean;
+  incorrectQuestionNumbers: number[];
+  timedOut?: boolean;
+  attemptsRemaining?: number | null; // null = unlimited
+  retryAvailableAt?: string | null; // ISO string when a cooldown applies
+  answers?: QuizAttemptAnswer[]; // Present only when correct answers may be shown
+}
+
+const formatCountdown = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const formatAnswer = (answer: QuizAnswerValue | null | undefined): string => {
+  if (Array.isArray(answer)) return answer.length > 0 ? answer.join(', ') : 'No answer';
+  return answer || 'No answer';
+};
 
 interface QuizTakingProps {
   quiz: Quiz;
   onComplete: (quizId: string, score: number, passed: boolean) => void;
+  // When provided, the quiz shows a start screen and the attempt is opened on the server. Returning null keeps the start screen.
+  onStart?: (quizId: string) => Promise<QuizAttemptSession | null>;
+  // Fired on every submission, pass or fail. When provided, the returned result replaces local grading;
+  // returning null leaves the quiz open so the user can submit again.
+  onSubmit?: (quizId: string, answers: Record<string, QuizAnswerValue>, attemptId: string | null) => Promise<QuizGradedResult | null>;
   isCompleted?: boolean;
+  locale?: string; // Shows question and option translations when available
 }
 
-export function QuizTaking({ quiz, onComplete, isCompleted = false }: QuizTakingProps) {
+export function QuizTaking({ quiz, onComplete, onStart, onSubmit, isCompleted = false, locale = 'en' }: QuizTakingProps) {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [userAnswers, setUserAnswers] = useState<Record<string, string | string[]>>({}); // Can be string or array
   const [selectedRadioAnswer, setSelectedRadioAnswer] = useState<string | undefined>(undefined);
   const [selectedCheckboxAnswers, setSelectedCheckboxAnswers] = useState<string[]>([]);
+  const [selectedTextAnswer, setSelectedTextAnswer] = useState('');
+  const [selectedSequenceAnswers, setSelectedSequenceAnswers] = useState<string[]>([]); // Match per prompt, or items in the chosen order
   const [quizSubmitted, setQuizSubmitted] = useState(isCompleted);
   const [score, setScore] = useState(0);
   const [passed, setPassed] = useState(false);
   const [incorrectQuestionNumbers, setIncorrectQuestionNumbers] = useState<number[]>([]);
-
-  const totalQuestions = quiz.questions?.length || 0;
-  const currentQuestion = totalQuestions > 0 ? quiz.questions[currentQuestionIndex] : null;
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [session, setSession] = useState<QuizAttemptSession | null>(null);
+  const [localDeadline, setLocalDeadline] = useState<Date | null>(null); // Timer for quizzes taken without onStart
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [gradedResult, setGradedResult] = useState<QuizGradedResult | null>(null);
+  const [localDraw, setLocalDraw] = useState<QuestionDraw | null>(null); // Draw for quizzes taken without onStart
+  const [autoSubmitFailed, setAutoSubmitFailed] = useState(false); // Time ran out and the automatic submission did not go through
+  const submitRef = useRef<() => Promise<boolean>>(async () => false);
+  const autoSubmitAttemptedRef = useRef(false); // The deadline submits once; after that the learner retries by hand
+
+  const settings = session?.settings ?? getQuizSettings(quiz);
+  const hasStarted = !onStart || !!session;
+  const deadline = session?.expiresAt ? new Date(session.expiresAt) : localDeadline;
+
+  // The questions for this attempt, in display order, with options in display order
+  const questions = useMemo(() => applyQuestionDraw(session?.questions ?? quiz.questions ?? [], session ?? localDraw), [quiz, session, localDraw]);
+  const poolSize = quiz.questions?.length || 0;
+  const totalQuestions = questions.length;
+  const currentQuestion = totalQuestions > 0 ? questions[currentQuestionIndex] ?? null : null;
+
+  const startLocalAttempt = () => {
+    const quizSettings = getQuizSettings(quiz);
+    setLocalDraw(onStart ? null : drawQuizQuestions(quiz.questions || [], quizSettings));
+    setLocalDeadline(!onStart && quizSettings.timeLimitMinutes ? new Date(Date.now() + quizSettings.timeLimitMinutes * 60000) : null);
+  };
 
   useEffect(() => {
-    if (isCompleted && totalQuestions > 0) {
+    if (isCompleted && poolSize > 0) {
       // If the quiz is already marked as completed (e.g., on page load for a finished course)
       // We should simulate a passed state for display purposes if needed.
       // However, the primary logic for handling this is in the parent LearnCoursePage.
@@ -47,12 +115,17 @@ export function QuizTaking({ quiz, onComplete, isCompleted = false }: QuizTaking
       setUserAnswers({});
       setSelectedRadioAnswer(undefined);
       setSelectedCheckboxAnswers([]);
+      setSelectedTextAnswer('');
+      setSelectedSequenceAnswers([]);
       setQuizSubmitted(false);
       setScore(0);
       setPassed(false);
       setIncorrectQuestionNumbers([]);
+      setGradedResult(null);
+      setSession(null);
+      startLocalAttempt();
     }
-  }, [isCompleted, quiz, totalQuestions]); // Rerun if isCompleted or quiz changes
+  }, [isCompleted, quiz, poolSize]); // Rerun if isCompleted or quiz changes
 
   // This useEffect was removed as the reset logic is now in handleNextQuestion
   // useEffect(() => {
@@ -73,12 +146,39 @@ export function QuizTaking({ quiz, onComplete, isCompleted = false }: QuizTaking
     );
   };
 
+  const handleMatchSelect = (pairIndex: number, value: string) => {
+    if (quizSubmitted || !currentQuestion) return;
+    setSelectedSequenceAnswers(prev => {
+      const next = (currentQuestion.matchingPairs || []).map((_, index) => prev[index] || '');
+      next[pairIndex] = value;
+      return next;
+    });
+  };
+
+  // Until the user moves an item, the ordering is the shuffled order it was shown in
+  const getCurrentSequence = (): string[] =>
+    selectedSequenceAnswers.length > 0 ? selectedSequenceAnswers : currentQuestion?.options || [];
+
+  const handleMoveItem = (fromIndex: number, toIndex: number) => {
+    if (quizSubmitted) return;
+    const sequence = [...getCurrentSequence()];
+    if (toIndex < 0 || toIndex >= sequence.length) return;
+    [sequence[fromIndex], sequence[toIndex]] = [sequence[toIndex], sequence[fromIndex]];
+    setSelectedSequenceAnswers(sequence);
+  };
+
   const recordCurrentAnswer = (): Record<string, string | string[]> => {
     if (!currentQuestion || quizSubmitted) return userAnswers; // Return existing if no current question or submitted
 
     let answerToStore: string | string[];
     if (currentQuestion.type === 'multiple-select') {
       answerToStore = [...selectedCheckboxAnswers].sort();
+    } else if (currentQuestion.type === 'short-answer') {
+      answerToStore = selectedTextAnswer.trim();
+    } else if (currentQuestion.type === 'matching') {
+      answerToStore = (currentQuestion.matchingPairs || []).map((_, index) => selectedSequenceAnswers[index] || '');
+    } else if (currentQuestion.type === 'ordering') {
+      answerToStore = getCurrentSequence();
     } else {
       answerToStore = selectedRadioAnswer || "";
     }
@@ -96,53 +196,88 @@ export function QuizTaking({ quiz, onComplete, isCompleted = false }: QuizTaking
     // Reset selections for the *next* question BEFORE index changes
     setSelectedRadioAnswer(undefined);
     setSelectedCheckboxAnswers([]);
+    setSelectedTextAnswer('');
+    setSelectedSequenceAnswers([]);
 
     setCurrentQuestionIndex((prev) => prev + 1);
   };
 
-  const handleSubmitQuiz = () => {
+  const handleStartQuiz = async () => {
+    if (!onStart) return;
+    setIsStarting(true);
+    try {
+      const startedSession = await onStart(quiz.id);
+      if (startedSession) setSession(startedSession);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  // Resolves to whether the quiz ended up submitted
+  const handleSubmitQuiz = async (): Promise<boolean> => {
+    if (quizSubmitted || isSubmitting) return false;
     const finalAnswers = recordCurrentAnswer();
     setUserAnswers(finalAnswers);
 
-    let correctCount = 0;
-    const incorrectNumbers: number[] = [];
-    quiz.questions?.forEach((q, index) => {
-      const userAnswer = finalAnswers[q.id];
-      let isCorrect = false;
-      if (q.type === 'multiple-select') {
-        const userAnsArray = Array.isArray(userAnswer) ? userAnswer.sort() : [];
-        const correctAnsArray = (q.correctAnswers || []).sort();
-        isCorrect = userAnsArray.length === correctAnsArray.length &&
-                    userAnsArray.every((val, idx) => val === correctAnsArray[idx]);
-      } else {
-        isCorrect = userAnswer === q.correctAnswer;
-      }
-
-      if (isCorrect) {
-        correctCount++;
-      } else {
-        incorrectNumbers.push(index + 1);
+    let result: QuizGradedResult | null;
+    if (onSubmit) {
+      setIsSubmitting(true);
+      try {
+        result = await onSubmit(quiz.id, finalAnswers, session?.attemptId ?? null);
+      } finally {
+        setIsSubmitting(false);
       }
-    });
-
-    const calculatedScore = totalQuestions > 0 ? Math.round((correctCount / totalQuestions) * 100) : 100;
-    const didPass = correctCount === totalQuestions;
+      if (!result) return false;
+    } else {
+      const localResult = gradeQuizAnswers(questions, finalAnswers, settings.passingScore, locale);
+      result = { ...localResult, answers: settings.showCorrectAnswers ? localResult.answers : undefined };
+    }
 
-    setScore(calculatedScore);
-    setPassed(didPass);
-    setIncorrectQuestionNumbers(didPass ? [] : incorrectNumbers);
+    setScore(result.score);
+    setPassed(result.passed);
+    setIncorrectQuestionNumbers(result.passed ? [] : result.incorrectQuestionNumbers);
+    setGradedResult(result);
     setQuizSubmitted(true);
+    setAutoSubmitFailed(false);
+    return true;
   };
+  submitRef.current = handleSubmitQuiz;
+
+  // Countdown for timed quizzes. Submits whatever has been answered when time runs out.
+  useEffect(() => {
+    if (!deadline || quizSubmitted || !hasStarted) {
+      setSecondsLeft(null);
+      return;
+    }
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((deadline.getTime() - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0 && !autoSubmitAttemptedRef.current) {
+        autoSubmitAttemptedRef.current = true;
+        submitRef.current().then(submitted => { if (!submitted) setAutoSubmitFailed(true); }, () => setAutoSubmitFailed(true));
+      }
+    };
+    tick();
+    const intervalId = setInterval(tick, 1000);
+    return () => clearInterval(intervalId);
+  }, [deadline?.getTime(), quizSubmitted, hasStarted]);
 
   const handleRetry = () => {
     setCurrentQuestionIndex(0);
     setUserAnswers({});
     setSelectedRadioAnswer(undefined);
     setSelectedCheckboxAnswers([]);
+    setSelectedTextAnswer('');
+    setSelectedSequenceAnswers([]);
     setQuizSubmitted(false);
     setScore(0);
     setPassed(false);
     setIncorrectQuestionNumbers([]);
+    setGradedResult(null);
+    setAutoSubmitFailed(false);
+    autoSubmitAttemptedRef.current = false;
+    setSession(null); // A new attempt must be started on the server
+    startLocalAttempt();
   };
 
   const handleContinue = () => {
@@ -155,7 +290,7 @@ export function QuizTaking({ quiz, onComplete, isCompleted = false }: QuizTaking
     }
   };
 
-  if (totalQuestions === 0) {
+  if (poolSize === 0) {
     return (
       <Alert variant="default" className="my-6">
         <AlertCircle className="h-4 w-4" />
@@ -166,7 +301,35 @@ export function QuizTaking({ quiz, onComplete, isCompleted = false }: QuizTaking
     );
   }
 
+  if (!hasStarted && !isCompleted) {
+    const introQuestionCount = Math.min(poolSize, settings.questionsToDraw ?? poolSize);
+    return (
+      <Card className="my-6 shadow-lg">
+        <CardHeader>
+          <CardTitle>Quiz: {quiz.title}</CardTitle>
+          <CardDescription>{introQuestionCount} question{introQuestionCount === 1 ? '' : 's'}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="space-y-1 text-sm text-muted-foreground list-disc pl-5">
+            <li>Passing score: {settings.passingScore}%</li>
+            <li>Attempts allowed: {settings.maxAttempts ?? 'Unlimited'}</li>
+            {settings.attemptCooldownMinutes && <li>Wait between attempts: {settings.attemptCooldownMinutes} minutes</li>}
+            <li>Time limit: {settings.timeLimitMinutes ? `${settings.timeLimitMinutes} minutes` : 'None'}</li>
+          </ul>
+        </CardContent>
+        <CardFooter className="flex justify-end">
+          <Button onClick={handleStartQuiz} disabled={isStarting}>
+            {isStarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            Start Quiz
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
   if (quizSubmitted) {
+    const noAttemptsLeft = gradedResult?.attemptsRemaining === 0;
+    const retryAvailableAt = gradedResult?.retryAvailableAt ? new Date(gradedResult.retryAvailableAt) : null;
     let incorrectMessagePart = "";
     if (!passed && incorrectQuestionNumbers.length > 0) {
       incorrectMessagePart = ` You answered the following questions incorrectly: ${incorrectQuestionNumbers.map(n => `#${n}`).join(', ')}.`;
@@ -192,17 +355,44 @@ export function QuizTaking({ quiz, onComplete, isCompleted = false }: QuizTaking
               <XCircle className="h-4 w-4" />
               <AlertTitle>Quiz Failed</AlertTitle>
               <AlertDescription>
-                Your score: {score}%.{incorrectMessagePart} You must score 100% to pass. Please review the material and try again.
+                {gradedResult?.timedOut && 'Time ran out before the quiz was submitted. '}
+                Your score: {score}%.{incorrectMessagePart} You must score {settings.passingScore}% to pass.{' '}
+                {noAttemptsLeft
+                  ? 'You have no attempts remaining for this quiz.'
+                  : 'Please review the material and try again.'}
+                {!noAttemptsLeft && gradedResult?.attemptsRemaining != null && ` Attempts remaining: ${gradedResult.attemptsRemaining}.`}
+                {!noAttemptsLeft && retryAvailableAt && ` You can retry after ${retryAvailableAt.toLocaleTimeString()}.`}
               </AlertDescription>
             </Alert>
           )}
+          {gradedResult?.answers && gradedResult.answers.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold">Review Answers</h3>
+              {gradedResult.answers.map((answer, index) => (
+                <div key={answer.questionId} className="rounded-md border p-3 text-sm space-y-1">
+                  <p className="font-medium flex items-start gap-2">
+                    {answer.isCorrect
+                      ? <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                      : <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />}
+                    <span>{index + 1}. {answer.questionText}</span>
+                  </p>
+                  <p className="text-muted-foreground">Your answer: {formatAnswer(answer.answer)}</p>
+                  {!answer.isCorrect && (
+                    <p className="text-green-700 dark:text-green-400">
+                      Correct answer: {formatAnswer(answer.correctAnswers ?? answer.correctAnswer)}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
         <CardFooter className="flex justify-end gap-2">
           {passed ? (
             <Button onClick={handleContinue}>Continue Course</Button>
           ) : (
-            // Only allow retry if the quiz wasn't pre-completed
-            !isCompleted && <Button onClick={handleRetry} variant="outline">Retry Quiz</Button>
+            // Only allow retry if the quiz wasn't pre-completed and attempts remain
+            !isCompleted && !noAttemptsLeft && <Button onClick={handleRetry} variant="outline">Retry Quiz</Button>
           )}
         </CardFooter>
       </Card>
@@ -213,26 +403,116 @@ export function QuizTaking({ quiz, onComplete, isCompleted = false }: QuizTaking
     return <p>Loading question...</p>;
   }
 
+  const translation = currentQuestion.translations?.[locale];
+  const getOptionLabel = (option: string, index: number) => translation?.options?.[index] || option;
+
   const progressValue = totalQuestions > 0 ? Math.round(((currentQuestionIndex + 1) / totalQuestions) * 100) : 0;
 
-  const isCurrentQuestionAnswered = currentQuestion.type === 'multiple-select'
-    ? selectedCheckboxAnswers.length > 0 
-    : !!selectedRadioAnswer;
+  const matchingPairs = currentQuestion.matchingPairs || [];
+  const getMatchLabel = (match: string) => {
+    const pairIndex = matchingPairs.findIndex(pair => pair.match === match);
+    return translation?.matchingPairs?.[pairIndex]?.match || match;
+  };
+
+  let isCurrentQuestionAnswered: boolean;
+  switch (currentQuestion.type) {
+    case 'multiple-select':
+      isCurrentQuestionAnswered = selectedCheckboxAnswers.length > 0;
+      break;
+    case 'short-answer':
+      isCurrentQuestionAnswered = selectedTextAnswer.trim() !== '';
+      break;
+    case 'matching':
+      isCurrentQuestionAnswered = matchingPairs.every((_, index) => !!selectedSequenceAnswers[index]);
+      break;
+    case 'ordering':
+      isCurrentQuestionAnswered = true; // Any order is an answer
+      break;
+    default:
+      isCurrentQuestionAnswered = !!selectedRadioAnswer;
+  }
 
   return (
     <Card className="my-6 shadow-lg">
       <CardHeader>
-        <CardTitle>Quiz: {quiz.title}</CardTitle>
+        <div className="flex items-start justify-between gap-4">
+          <CardTitle>Quiz: {quiz.title}</CardTitle>
+          {secondsLeft !== null && (
+            <span className={`flex items-center gap-1 text-sm font-mono ${secondsLeft <= 60 ? 'text-destructive' : 'text-muted-foreground'}`} aria-live="polite">
+              <Clock className="h-4 w-4" /> {formatCountdown(secondsLeft)}
+            </span>
+          )}
+        </div>
         <CardDescription>
           Question {currentQuestionIndex + 1} of {totalQuestions}
           {currentQuestion.type === 'multiple-select' && <span className="text-xs text-muted-foreground ml-2">(Select all that apply)</span>}
+          {currentQuestion.type === 'matching' && <span className="text-xs text-muted-foreground ml-2">(Match each item)</span>}
+          {currentQuestion.type === 'ordering' && <span className="text-xs text-muted-foreground ml-2">(Put the items in the correct order)</span>}
         </CardDescription>
         <Progress value={progressValue} aria-label={`Quiz progress ${progressValue}%`} className="mt-2 h-2" />
       </CardHeader>
       <CardContent className="space-y-6">
-        <p className="text-lg font-medium">{currentQuestion.text}</p>
-
-        {currentQuestion.type === 'multiple-select' ? (
+        <p className="text-lg font-medium">{translation?.text || currentQuestion.text}</p>
+
+        {currentQuestion.type === 'short-answer' ? (
+          <Input
+            key={currentQuestion.id}
+            value={selectedTextAnswer}
+            onChange={(e) => setSelectedTextAnswer(e.target.value)}
+            placeholder="Type your answer"
+            disabled={quizSubmitted}
+            aria-label="Your answer"
+          />
+        ) : currentQuestion.type === 'matching' ? (
+          <div className="space-y-3">
+            {matchingPairs.map((pair, pairIndex) => (
+              <div key={`${currentQuestion.id}-pair-${pairIndex}`} className="flex flex-col sm:flex-row sm:items-center gap-2 rounded-md border border-input p-3">
+                <span className="flex-1">{translation?.matchingPairs?.[pairIndex]?.prompt || pair.prompt}</span>
+                <Select value={selectedSequenceAnswers[pairIndex] || ''} onValueChange={(value) => handleMatchSelect(pairIndex, value)} disabled={quizSubmitted}>
+                  <SelectTrigger className="sm:w-[240px]"><SelectValue placeholder="Choose a match" /></SelectTrigger>
+                  <SelectContent>
+                    {currentQuestion.options.map((option, index) => (
+                      <SelectItem key={`${currentQuestion.id}-match-${index}`} value={option}>{getMatchLabel(option)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        ) : currentQuestion.type === 'ordering' ? (
+          <ol className="space-y-2">
+            {getCurrentSequence().map((item, position, sequence) => (
+              <li key={`${currentQuestion.id}-order-${item}`} className="flex items-center gap-3 rounded-md border border-input p-3">
+                <span className="text-sm font-mono text-muted-foreground w-6">{position + 1}.</span>
+                <span className="flex-1">{getOptionLabel(item, currentQuestion.options.indexOf(item))}</span>
+                <Button type="button" variant="ghost" size="icon" onClick={() => handleMoveItem(position, position - 1)} disabled={quizSubmitted || position === 0} aria-label="Move up"><ArrowUp className="h-4 w-4" /></Button>
+                <Button type="button" variant="ghost" size="icon" onClick={() => handleMoveItem(position, position + 1)} disabled={quizSubmitted || position === sequence.length - 1} aria-label="Move down"><ArrowDown className="h-4 w-4" /></Button>
+              </li>
+            ))}
+          </ol>
+        ) : currentQuestion.type === 'image-choice' ? (
+          <RadioGroup
+            key={currentQuestion.id}
+            onValueChange={handleRadioAnswerSelect}
+            value={selectedRadioAnswer}
+            className="grid grid-cols-2 gap-3"
+            disabled={quizSubmitted}
+          >
+            {currentQuestion.options.map((option, index) => (
+              <Label key={`${currentQuestion.id}-img-option-${index}`} htmlFor={`${currentQuestion.id}-option-${index}`} className="cursor-pointer rounded-md border border-input p-2 space-y-2 hover:bg-muted/50 transition-colors has-[:checked]:bg-primary/10 has-[:checked]:border-primary">
+                <div className="relative aspect-square bg-muted rounded-md overflow-hidden">
+                  {currentQuestion.optionImages?.[index] && (
+                    <Image src={currentQuestion.optionImages[index]} alt={getOptionLabel(option, index)} fill style={{ objectFit: 'contain' }} />
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value={option} id={`${currentQuestion.id}-option-${index}`} disabled={quizSubmitted} />
+                  <span className="font-normal">{getOptionLabel(option, index)}</span>
+                </div>
+              </Label>
+            ))}
+          </RadioGroup>
+        ) : currentQuestion.type === 'multiple-select' ? (
           <div className="space-y-3">
             {currentQuestion.options.map((option, index) => (
               <div key={`${currentQuestion.id}-ms-option-${index}`} className="flex items-center space-x-3 rounded-md border border-input p-3 hover:bg-muted/50 transition-colors has-[:checked]:bg-primary/10 has-[:checked]:border-primary">
@@ -243,7 +523,7 @@ export function QuizTaking({ quiz, onComplete, isCompleted = false }: QuizTaking
                   disabled={quizSubmitted}
                 />
                 <Label htmlFor={`${currentQuestion.id}-option-${index}`} className="font-normal flex-1 cursor-pointer">
-                  {option}
+                  {getOptionLabel(option, index)}
                 </Label>
               </div>
             ))}
@@ -260,20 +540,30 @@ export function QuizTaking({ quiz, onComplete, isCompleted = false }: QuizTaking
               <div key={`${currentQuestion.id}-mc-option-${index}`} className="flex items-center space-x-3 rounded-md border border-input p-3 hover:bg-muted/50 transition-colors has-[:checked]:bg-primary/10 has-[:checked]:border-primary">
                 <RadioGroupItem value={option} id={`${currentQuestion.id}-option-${index}`} disabled={quizSubmitted} />
                 <Label htmlFor={`${currentQuestion.id}-option-${index}`} className="font-normal flex-1 cursor-pointer">
-                  {option}
+                  {getOptionLabel(option, index)}
                 </Label>
               </div>
             ))}
           </RadioGroup>
         )}
       </CardContent>
-      <CardFooter className="flex justify-end">
+      <CardFooter className="flex flex-wrap items-center justify-end gap-2">
+        {autoSubmitFailed && !quizSubmitted && (
+          <>
+            <p className="text-sm text-destructive flex-1">Time is up, but your answers could not be submitted.</p>
+            <Button variant="outline" onClick={handleSubmitQuiz} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Try Submitting Again
+            </Button>
+          </>
+        )}
         {currentQuestionIndex < totalQuestions - 1 ? (
           <Button onClick={handleNextQuestion} disabled={!isCurrentQuestionAnswered || quizSubmitted}>
             Next Question
           </Button>
         ) : (
-          <Button onClick={handleSubmitQuiz} disabled={!isCurrentQuestionAnswered || quizSubmitted}>
+          <Button onClick={handleSubmitQuiz} disabled={!isCurrentQuestionAnswered || quizSubmitted || isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             Submit Quiz
           </Button>
         )}
@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { SCORM_CONTENT_ORIGIN, SCORM_PLAYER_PATH } from '@/lib/scorm';
+import type { ScormPackage, ScormPlayerMessage, ScormRuntimeData } from '@/types/course';
+
+// allow-same-origin keeps the player on the content origin, which is never the app's. Packages can't navigate the learn page away
+const PLAYER_SANDBOX = 'allow-scripts allow-same-origin allow-forms allow-popups allow-modals allow-downloads';
+
+interface ScormPlayerProps {
+    scormPackage: ScormPackage;
+    learner: { id: string; name: string };
+    initialData: ScormRuntimeData | null | undefined; // Read when a session starts
+    onCommit: (data: ScormRuntimeData, sessionEnded: boolean, sessionStartedAt: string) => void;
+}
+
+/**
+ * Plays a SCORM package through the player page on the content origin, which hosts the SCORM API and
+ * reports back by postMessage. Leaving the lesson ends the session, so the package's bookmark and time are saved.
+ */
+export function ScormPlayer({ scormPackage, learner, initialData, onCommit }: ScormPlayerProps) {
+    const [sessionNumber, setSessionNumber] = useState(0);
+    const [isReady, setIsReady] = useState(false);
+    const [hasSessionEnded, setHasSessionEnded] = useState(false);
+    const latestRef = useRef({ onCommit, learner });
+    latestRef.current = { onCommit, learner };
+    const latestDataRef = useRef(initialData);
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    const isIsolated = typeof window === 'undefined' || window.location.origin !== SCORM_CONTENT_ORIGIN;
+
+    useEffect(() => {
+        if (!isIsolated) return;
+        const sessionStartedAt = new Date().toISOString();
+        let endOfSessionData: ScormRuntimeData | null = null; // Latest from the player, while the session runs
+        let sessionEnded = false;
+
+        const commit = (data: ScormRuntimeData, isEnd: boolean) => {
+            if (sessionEnded) return;
+            latestDataRef.current = data; // A relaunch continues from here
+            if (isEnd) {
+                sessionEnded = true;
+                setHasSessionEnded(true);
+            }
+            latestRef.current.onCommit(data, isEnd, sessionStartedAt);
+        };
+        const endSession = () => {
+            if (endOfSessionData) commit(endOfSessionData, true);
+        };
+
+        const handleMessage = (event: MessageEvent) => {
+            const playerWindow = iframeRef.current?.contentWindow;
+            if (event.origin !== SCORM_CONTENT_ORIGIN || !playerWindow || event.source !== playerWindow) return;
+            const message = event.data as ScormPlayerMessage | null;
+            if (message?.type === 'scorm:ready') {
+                const start: ScormPlayerMessage = {
+                    type: 'scorm:start',
+                    scormPackage: { id: scormPackage.id, version: scormPackage.version, launchPath: scormPackage.launchPath, masteryScore: scormPackage.masteryScore },
+                    learner: latestRef.current.learner,
+                    initialData: latestDataRef.current ?? null,
+                };
+                playerWindow.postMessage(start, SCORM_CONTENT_ORIGIN);
+            } else if (message?.type === 'scorm:progress') {
+                endOfSessionData = message.data;
+            } else if (message?.type === 'scorm:commit') {
+                commit(message.data, message.sessionEnded);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        window.addEventListener('pagehide', endSession);
+        setHasSessionEnded(false);
+        setIsReady(true);
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            window.removeEventListener('pagehide', endSession);
+            endSession();
+            setIsReady(false);
+        };
+    }, [scormPackage.id, scormPackage.version, scormPackage.launchPath, scormPackage.masteryScore, sessionNumber, isIsolated]);
+
+    if (!isIsolated) {
+        return <p className="text-sm text-destructive">SCORM content can&apos;t be played here: the app and NEXT_PUBLIC_SCORM_CONTENT_ORIGIN must be different origins.</p>;
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="relative w-full h-[70vh] min-h-[480px] bg-muted rounded-lg overflow-hidden shadow">
+                {isReady ? (
+                    <iframe
+                        key={sessionNumber}
+                        ref={iframeRef}
+                        src={`${SCORM_CONTENT_ORIGIN}${SCORM_PLAYER_PATH}`}
+                        sandbox={PLAYER_SANDBOX}
+                        title={scormPackage.title}
+                        className="w-full h-full border-0 bg-white"
+                        allow="autoplay; fullscreen"
+                        allowFullScreen
+                    />
+                ) : (
+                    <div className="flex h-full items-center justify-center"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+                )}
+            </div>
+            {hasSessionEnded && (
+                <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                    <span>This session has ended and your progress is saved.</span>
+                    <Button type="button" variant="outline" size="sm" onClick={() => setSessionNumber(number => number + 1)}>
+                        <RotateCcw className="mr-2 h-4 w-4" /> Launch Again
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Captions, ScrollText } from 'lucide-react';
+import type { LoadedCaptionTrack } from '@/hooks/use-caption-tracks';
+import { findActiveCueIndex } from '@/lib/captions';
+import { formatVideoTimestamp } from '@/lib/timed-events';
+import { cn } from '@/lib/utils';
+
+interface VideoCaptionsPanelProps {
+    videoRef: React.RefObject<HTMLVideoElement | null>;
+    tracks: LoadedCaptionTrack[]; // Must match the <track> elements rendered inside the video
+    defaultLocale: string; // Captions in this language are switched on when available
+}
+
+/**
+ * Caption selection and an interactive transcript for a lesson video.
+ * Clicking a line in the transcript jumps the video to it.
+ */
+export function VideoCaptionsPanel({ videoRef, tracks, defaultLocale }: VideoCaptionsPanelProps) {
+    const [selectedLocale, setSelectedLocale] = useState<string>('off');
+    const [showTranscript, setShowTranscript] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const transcriptRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        setSelectedLocale(tracks.some(track => track.locale === defaultLocale) ? defaultLocale : 'off');
+    }, [tracks, defaultLocale]);
+
+    // Shows the selected track and keeps the selection in sync when the browser's own caption menu is used
+    useEffect(() => {
+        const textTracks = videoRef.current?.textTracks;
+        if (!textTracks) return;
+        for (let index = 0; index < textTracks.length; index++) {
+            textTracks[index].mode = textTracks[index].language === selectedLocale ? 'showing' : 'disabled';
+        }
+        const handleChange = () => {
+            const showing = Array.from(textTracks).find(track => track.mode === 'showing');
+            setSelectedLocale(showing?.language || 'off');
+        };
+        textTracks.addEventListener('change', handleChange);
+        return () => textTracks.removeEventListener('change', handleChange);
+    }, [videoRef, tracks, selectedLocale]);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video || !showTranscript) return;
+        const handleTimeUpdate = () => setCurrentTime(video.currentTime);
+        handleTimeUpdate();
+        video.addEventListener('timeupdate', handleTimeUpdate);
+        return () => video.removeEventListener('timeupdate', handleTimeUpdate);
+    }, [videoRef, showTranscript]);
+
+    const transcriptTrack = tracks.find(track => track.locale === selectedLocale)
+        || tracks.find(track => track.locale === defaultLocale)
+        || tracks[0];
+    const cues = transcriptTrack?.cues || [];
+    const activeCueIndex = findActiveCueIndex(cues, currentTime);
+
+    useEffect(() => {
+        const container = transcriptRef.current;
+        const activeLine = container?.querySelector<HTMLElement>('[data-active="true"]');
+        if (!container || !activeLine) return;
+        if (activeLine.offsetTop < container.scrollTop || activeLine.offsetTop + activeLine.offsetHeight > container.scrollTop + container.clientHeight) {
+            container.scrollTo({ top: activeLine.offsetTop - container.clientHeight / 3, behavior: 'smooth' });
+        }
+    }, [activeCueIndex]);
+
+    const jumpTo = (seconds: number) => {
+        if (!videoRef.current) return;
+        videoRef.current.currentTime = seconds;
+        setCurrentTime(seconds);
+    };
+
+    if (tracks.length === 0) return null;
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <Captions className="h-4 w-4 text-muted-foreground" />
+                <Select value={selectedLocale} onValueChange={setSelectedLocale}>
+                    <SelectTrigger className="h-8 w-44" aria-label="Captions"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="off">Captions off</SelectItem>
+                        {tracks.map(track => <SelectItem key={track.locale} value={track.locale}>{track.label}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+                <Button type="button" variant={showTranscript ? 'secondary' : 'outline'} size="sm" onClick={() => setShowTranscript(prev => !prev)} aria-expanded={showTranscript}>
+                    <ScrollText className="mr-2 h-4 w-4" /> {showTranscript ? 'Hide Transcript' : 'Show Transcript'}
+                </Button>
+            </div>
+            {showTranscript && (
+                <div ref={transcriptRef} className="relative max-h-64 overflow-y-auto rounded-md border bg-background p-2" role="list" aria-label={`${transcriptTrack?.label} transcript`}>
+                    {cues.map((cue, index) => (
+                        <button
+                            key={`${cue.start}-${index}`}
+                            type="button"
+                            role="listitem"
+                            data-active={index === activeCueIndex}
+                            onClick={() => jumpTo(cue.start)}
+                            className={cn(
+                                "flex w-full gap-3 rounded px-2 py-1 text-left text-sm hover:bg-muted",
+                                index === activeCueIndex && "bg-primary/10 font-medium text-primary"
+                            )}
+                        >
+                            <span className="shrink-0 tabular-nums text-xs text-muted-foreground pt-0.5">{formatVideoTimestamp(cue.start)}</span>
+                            <span className="whitespace-pre-line">{cue.text}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Captions, FileUp, Loader2, Trash2, ExternalLink } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { uploadImage, STORAGE_PATHS } from '@/lib/storage';
+import { convertCaptionFileToWebVtt, MAX_CAPTION_FILE_BYTES } from '@/lib/captions';
+import type { LessonCaptionTrack } from '@/types/course';
+
+interface LessonCaptionsEditorProps {
+    videoUrl: string | null | undefined;
+    tracks: LessonCaptionTrack[];
+    onChange: (tracks: LessonCaptionTrack[]) => void;
+    locales: Array<{ value: string; label: string }>; // Languages a track can be added for
+    idPrefix: string; // Keeps input IDs unique when the editor is shown once per locale
+    fileNamePrefix: string; // Prepended to uploaded file names, e.g. the lesson ID
+}
+
+/**
+ * Uploads WebVTT or SRT caption files for a lesson video, one per language.
+ * Files are validated and stored as WebVTT.
+ */
+export function LessonCaptionsEditor({ videoUrl, tracks, onChange, locales, idPrefix, fileNamePrefix }: LessonCaptionsEditorProps) {
+    const { toast } = useToast();
+    const [newTrackLocale, setNewTrackLocale] = useState('');
+    const [uploadingLocale, setUploadingLocale] = useState<string | null>(null);
+    const [uploadProgress, setUploadProgress] = useState(0);
+    const tracksRef = useRef(tracks);
+    tracksRef.current = tracks; // Uploads finish after re-renders, so they read the latest tracks from here
+
+    const isEmbeddedVideo = !!videoUrl && /youtube\.com|youtu\.be|vimeo\.com/.test(videoUrl);
+    const availableLocales = locales.filter(locale => !tracks.some(track => track.locale === locale.value));
+    const getLocaleLabel = (value: string) => locales.find(locale => locale.value === value)?.label || value;
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>, locale: string) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Lets the same file be picked again after fixing it
+        if (!file || !locale) return;
+
+        if (!/\.(vtt|srt)$/i.test(file.name)) {
+            toast({ title: "Unsupported File", description: "Caption files must be WebVTT (.vtt) or SubRip (.srt).", variant: "destructive" });
+            return;
+        }
+        if (file.size > MAX_CAPTION_FILE_BYTES) {
+            toast({ title: "File Too Large", description: "Caption files must be 2 MB or smaller.", variant: "destructive" });
+            return;
+        }
+
+        let webVtt: string;
+        try {
+            webVtt = convertCaptionFileToWebVtt(await file.text());
+        } catch (error: any) {
+            toast({ title: "Invalid Caption File", description: error.message || "The file could not be read.", variant: "destructive" });
+            return;
+        }
+
+        setUploadingLocale(locale);
+        setUploadProgress(0);
+        try {
+            const vttFile = new File([webVtt], `${file.name.replace(/\.(vtt|srt)$/i, '')}.vtt`, { type: 'text/vtt' });
+            const storagePath = `${STORAGE_PATHS.LESSON_CAPTIONS}/${fileNamePrefix}-${locale}-${Date.now()}.vtt`;
+            const url = await uploadImage(vttFile, storagePath, setUploadProgress);
+            const current = tracksRef.current;
+            const existing = current.find(track => track.locale === locale);
+            onChange(existing
+                ? current.map(track => track.locale === locale ? { ...track, url } : track)
+                : [...current, { locale, label: getLocaleLabel(locale), url }]);
+            setNewTrackLocale('');
+            toast({ title: "Captions Uploaded", description: `${getLocaleLabel(locale)} captions are ready.` });
+        } catch (error: any) {
+            toast({ title: "Upload Failed", description: error.message || "Could not upload the caption file.", variant: "destructive" });
+        } finally {
+            setUploadingLocale(null);
+        }
+    };
+
+    const updateLabel = (locale: string, label: string) => {
+        onChange(tracks.map(track => track.locale === locale ? { ...track, label } : track));
+    };
+
+    const removeTrack = (locale: string) => {
+        onChange(tracks.filter(track => track.locale !== locale));
+    };
+
+    if (!videoUrl) {
+        return <p className="text-sm text-muted-foreground text-center py-8">Add a video to the lesson to attach captions.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {isEmbeddedVideo && (
+                <p className="text-sm text-muted-foreground">YouTube and Vimeo videos use the captions set up on those sites. Captions added here only play with uploaded videos.</p>
+            )}
+
+            {tracks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No captions yet. Upload a WebVTT or SRT file for each language.</p>
+            ) : (
+                <div className="space-y-2">
+                    {tracks.map(track => {
+                        const inputId = `${idPrefix}-captions-replace-${track.locale}`;
+                        const isUploading = uploadingLocale === track.locale;
+                        return (
+                            <div key={track.locale} className="flex flex-wrap items-center gap-2 rounded-md border p-3">
+                                <Badge variant="secondary" className="uppercase">{track.locale}</Badge>
+                                <Input
+                                    aria-label={`Caption label for ${getLocaleLabel(track.locale)}`}
+                                    value={track.label}
+                                    onChange={(e) => updateLabel(track.locale, e.target.value)}
+                                    className="h-8 w-48"
+                                />
+                                <a href={track.url} target="_blank" rel="noopener noreferrer" className="text-xs text-primary hover:underline inline-flex items-center gap-1">
+                                    View file <ExternalLink className="h-3 w-3" />
+                                </a>
+                                <div className="ml-auto flex items-center gap-1">
+                                    {isUploading ? (
+                                        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                                    ) : (
+                                        <Label htmlFor={inputId} className="cursor-pointer text-xs inline-flex items-center gap-1 rounded-md border px-2 py-1 hover:bg-muted">
+                                            <FileUp className="h-3 w-3" /> Replace
+                                            <Input id={inputId} type="file" accept=".vtt,.srt,text/vtt" className="hidden" onChange={(e) => handleFileChange(e, track.locale)} disabled={!!uploadingLocale} />
+                                        </Label>
+                                    )}
+                                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => removeTrack(track.locale)} disabled={isUploading} aria-label={`Remove ${getLocaleLabel(track.locale)} captions`}>
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {availableLocales.length > 0 && (
+                <div className="flex flex-wrap items-end gap-2 rounded-md border border-dashed p-3">
+                    <div className="space-y-1">
+                        <Label htmlFor={`${idPrefix}-captions-locale`} className="text-xs">Language</Label>
+                        <Select value={newTrackLocale} onValueChange={setNewTrackLocale}>
+                            <SelectTrigger id={`${idPrefix}-captions-locale`} className="h-8 w-40"><SelectValue placeholder="Choose language" /></SelectTrigger>
+                            <SelectContent>
+                                {availableLocales.map(locale => <SelectItem key={locale.value} value={locale.value}>{locale.label}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <Label
+                        htmlFor={`${idPrefix}-captions-upload`}
+                        className={`inline-flex h-8 items-center gap-1 rounded-md border px-3 text-sm ${newTrackLocale && !uploadingLocale ? 'cursor-pointer hover:bg-muted' : 'opacity-50 cursor-not-allowed'}`}
+                    >
+                        <Captions className="h-4 w-4" /> Upload .vtt or .srt
+                        <Input id={`${idPrefix}-captions-upload`} type="file" accept=".vtt,.srt,text/vtt" className="hidden" onChange={(e) => handleFileChange(e, newTrackLocale)} disabled={!newTrackLocale || !!uploadingLocale} />
+                    </Label>
+                </div>
+            )}
+
+            {uploadingLocale && <Progress value={uploadProgress} className="h-2" />}
+        </div>
+    );
+}
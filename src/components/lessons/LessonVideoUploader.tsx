@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, CheckCircle, FileUp, Loader2, Pause, Play, RotateCcw, Trash2, Video, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { startResumableUpload, STORAGE_PATHS, type ResumableUpload } from '@/lib/storage';
+import { createVideoAsset, getVideoAssetById, newVideoAssetId } from '@/lib/video-asset-data';
+import { isVideoAssetPending, toLessonVideoAsset } from '@/lib/video-assets';
+import { formatVideoTimestamp } from '@/lib/timed-events';
+import { startVideoProcessingAction } from '@/actions/video';
+import type { LessonVideoAsset } from '@/types/video';
+
+const STATUS_POLL_INTERVAL_MS = 5000;
+
+interface LessonVideoUploaderProps {
+    inputId: string;
+    videoUrl: string | null | undefined;
+    videoAsset: LessonVideoAsset | null | undefined;
+    onChange: (videoUrl: string, videoAsset: LessonVideoAsset | null) => void;
+    onUploadingChange?: (isUploading: boolean) => void; // Lets the dialog block saving mid-upload
+    uploadLabel?: string;
+}
+
+/**
+ * Uploads a lesson video and follows its processing into HLS renditions. The uploaded file plays
+ * as-is until processing finishes, so a lesson can be saved straight after the upload.
+ */
+export function LessonVideoUploader({ inputId, videoUrl, videoAsset, onChange, onUploadingChange, uploadLabel = 'Upload video' }: LessonVideoUploaderProps) {
+    const { toast } = useToast();
+    const [upload, setUpload] = useState<ResumableUpload | null>(null);
+    const [progress, setProgress] = useState(0);
+    const [isPaused, setIsPaused] = useState(false);
+    const [isRetrying, setIsRetrying] = useState(false);
+    const latestRef = useRef({ videoUrl, onChange });
+    latestRef.current = { videoUrl, onChange };
+    const uploadRef = useRef<ResumableUpload | null>(null);
+
+    useEffect(() => () => { uploadRef.current?.cancel(); }, []); // Closing the dialog abandons the upload
+
+    // Follows the processing job until the asset is ready or has failed
+    const pendingAssetId = isVideoAssetPending(videoAsset) ? videoAsset?.id : null;
+    const pendingStatus = videoAsset?.status;
+    useEffect(() => {
+        if (!pendingAssetId) return;
+        const interval = setInterval(async () => {
+            try {
+                const asset = await getVideoAssetById(pendingAssetId);
+                if (asset && asset.status !== pendingStatus) {
+                    latestRef.current.onChange(latestRef.current.videoUrl || asset.sourceUrl, toLessonVideoAsset(asset));
+                }
+            } catch (error) {
+                console.warn("Could not check video processing status:", error);
+            }
+        }, STATUS_POLL_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [pendingAssetId, pendingStatus]);
+
+    const setUploading = (value: ResumableUpload | null) => {
+        uploadRef.current = value;
+        setUpload(value);
+        onUploadingChange?.(!!value);
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        if (!file.type.startsWith('video/')) {
+            toast({ title: "Unsupported File", description: "Please choose a video file.", variant: "destructive" });
+            return;
+        }
+
+        const assetId = newVideoAssetId();
+        const sourcePath = `${STORAGE_PATHS.LESSON_VIDEOS}/${assetId}/source/${file.name}`;
+        const resumableUpload = startResumableUpload(file, sourcePath, (percent, paused) => {
+            setProgress(percent);
+            setIsPaused(paused);
+        });
+        setProgress(0);
+        setIsPaused(false);
+        setUploading(resumableUpload);
+
+        try {
+            const sourceUrl = await resumableUpload.promise;
+            const asset = await createVideoAsset(assetId, { fileName: file.name, sourcePath, sourceUrl });
+            latestRef.current.onChange(sourceUrl, asset ? toLessonVideoAsset(asset) : null);
+            if (asset) {
+                const result = await startVideoProcessingAction(assetId);
+                if (!result.success) console.warn(`Processing for video asset ${assetId} was not started: ${result.error}`); // The cron job will pick it up
+            }
+            toast({ title: "Video Uploaded", description: "The video is being prepared for adaptive streaming. You can save the lesson now." });
+        } catch (error: any) {
+            if (error.message !== "Upload canceled.") {
+                toast({ title: "Video Upload Failed", description: error.message || "Could not upload the video.", variant: "destructive" });
+            }
+        } finally {
+            setUploading(null);
+        }
+    };
+
+    const handleRetry = async () => {
+        if (!videoAsset) return;
+        setIsRetrying(true);
+        const result = await startVideoProcessingAction(videoAsset.id, true);
+        setIsRetrying(false);
+        if (result.success) {
+            onChange(videoUrl || '', { ...videoAsset, status: 'queued' });
+        } else {
+            toast({ title: "Retry Failed", description: result.error || "Could not restart processing.", variant: "destructive" });
+        }
+    };
+
+    const renderStatus = () => {
+        if (!videoAsset) return null;
+        switch (videoAsset.status) {
+            case 'queued':
+            case 'processing':
+                return (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        {videoAsset.status === 'queued' ? 'Waiting to be prepared for adaptive streaming' : 'Preparing adaptive streaming…'}
+                    </p>
+                );
+            case 'ready':
+                return (
+                    <p className="flex items-center gap-1 text-xs text-green-700">
+                        <CheckCircle className="h-3 w-3" /> Adaptive streaming ready
+                        {videoAsset.durationSeconds ? ` · ${formatVideoTimestamp(videoAsset.durationSeconds)}` : ''}
+                    </p>
+                );
+            case 'failed':
+                return (
+                    <div className="flex items-center justify-between gap-2 text-xs text-destructive">
+                        <span className="flex items-center gap-1"><AlertTriangle className="h-3 w-3" /> Processing failed. The original file will play.</span>
+                        <Button type="button" variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={handleRetry} disabled={isRetrying}>
+                            {isRetrying ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <RotateCcw className="mr-1 h-3 w-3" />} Retry
+                        </Button>
+                    </div>
+                );
+        }
+    };
+
+    if (upload) {
+        return (
+            <div className="border border-dashed rounded-lg p-4 text-center space-y-2">
+                <Loader2 className={`h-8 w-8 mx-auto text-primary ${isPaused ? '' : 'animate-spin'}`} />
+                <Progress value={progress} className="w-full h-2" />
+                <p className="text-xs text-muted-foreground">{isPaused ? 'Paused' : 'Uploading'} · {Math.round(progress)}%</p>
+                <div className="flex justify-center gap-2">
+                    {isPaused ? (
+                        <Button type="button" variant="outline" size="sm" onClick={() => upload.resume()}><Play className="mr-1 h-3 w-3" /> Resume</Button>
+                    ) : (
+                        <Button type="button" variant="outline" size="sm" onClick={() => upload.pause()}><Pause className="mr-1 h-3 w-3" /> Pause</Button>
+                    )}
+                    <Button type="button" variant="ghost" size="sm" className="text-destructive" onClick={() => upload.cancel()}><X className="mr-1 h-3 w-3" /> Cancel</Button>
+                </div>
+            </div>
+        );
+    }
+
+    if (videoUrl) {
+        return (
+            <div className="space-y-2">
+                <div className="relative aspect-video bg-muted rounded-md flex flex-col items-center justify-center overflow-hidden">
+                    {videoAsset?.posterUrl ? (
+                        <Image src={videoAsset.posterUrl} alt="Video thumbnail" fill style={{ objectFit: 'cover' }} />
+                    ) : (
+                        <>
+                            <Video className="h-10 w-10 text-muted-foreground" />
+                            <p className="text-xs text-muted-foreground mt-1 truncate w-full px-2">{videoUrl}</p>
+                        </>
+                    )}
+                    <Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6" onClick={() => onChange('', null)} aria-label="Remove video">
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+                {renderStatus()}
+            </div>
+        );
+    }
+
+    return (
+        <div className="border border-dashed rounded-lg p-4 text-center cursor-pointer hover:border-primary">
+            <Label htmlFor={inputId} className="cursor-pointer block">
+                <FileUp className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+                <p className="text-sm text-muted-foreground">{uploadLabel}</p>
+                <Input id={inputId} type="file" accept="video/*" className="hidden" onChange={handleFileChange} />
+            </Label>
+        </div>
+    );
+}
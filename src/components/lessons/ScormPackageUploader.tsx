@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Package, Loader2, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { readZip } from '@/lib/zip';
+import { MAX_SCORM_PACKAGE_BYTES, getScormFileContentType, parseScormPackage } from '@/lib/scorm';
+import { uploadFileData, STORAGE_PATHS } from '@/lib/storage';
+import type { ScormPackage } from '@/types/course';
+
+const UPLOAD_CONCURRENCY = 4;
+
+interface ScormPackageUploaderProps {
+    inputId: string;
+    value: ScormPackage | null;
+    onChange: (scormPackage: ScormPackage | null) => void;
+    onUploadingChange?: (isUploading: boolean) => void; // Lets the dialog block saving mid-upload
+}
+
+/**
+ * Reads a SCORM zip in the browser, checks its manifest, and uploads the unpacked files
+ * so the package can be served from the app.
+ */
+export function ScormPackageUploader({ inputId, value, onChange, onUploadingChange }: ScormPackageUploaderProps) {
+    const { toast } = useToast();
+    const [progress, setProgress] = useState<number | null>(null);
+
+    const setUploading = (isUploading: boolean) => {
+        setProgress(isUploading ? 0 : null);
+        onUploadingChange?.(isUploading);
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        if (!/\.zip$/i.test(file.name)) {
+            toast({ title: "Unsupported File", description: "Please choose a SCORM package (.zip).", variant: "destructive" });
+            return;
+        }
+        if (file.size > MAX_SCORM_PACKAGE_BYTES) {
+            toast({ title: "Package Too Large", description: `SCORM packages can be up to ${MAX_SCORM_PACKAGE_BYTES / (1024 * 1024)} MB.`, variant: "destructive" });
+            return;
+        }
+
+        setUploading(true);
+        try {
+            const parsed = parseScormPackage(await readZip(new Uint8Array(await file.arrayBuffer())), file.name.replace(/\.zip$/i, ''));
+            const packageId = crypto.randomUUID();
+            const totalBytes = parsed.files.reduce((total, entry) => total + entry.data.length, 0) || 1;
+            let uploadedBytes = 0;
+            let nextIndex = 0;
+
+            const uploadNext = async () => {
+                while (nextIndex < parsed.files.length) {
+                    const entry = parsed.files[nextIndex++];
+                    await uploadFileData(entry.data, `${STORAGE_PATHS.LESSON_SCORM}/${packageId}/${entry.name}`, getScormFileContentType(entry.name));
+                    uploadedBytes += entry.data.length;
+                    setProgress((uploadedBytes / totalBytes) * 100);
+                }
+            };
+            await Promise.all(Array.from({ length: UPLOAD_CONCURRENCY }, uploadNext));
+
+            onChange({
+                id: packageId,
+                version: parsed.version,
+                title: parsed.title,
+                launchPath: parsed.launchPath,
+                masteryScore: parsed.masteryScore,
+                fileName: file.name,
+                fileCount: parsed.files.length,
+            });
+            toast({ title: "SCORM Package Uploaded", description: `"${parsed.title}" (SCORM ${parsed.version}) is ready.` });
+        } catch (error: any) {
+            toast({ title: "SCORM Upload Failed", description: error.message || "Could not read the package.", variant: "destructive" });
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    if (progress !== null) {
+        return (
+            <div className="border border-dashed rounded-lg p-4 text-center space-y-2">
+                <Loader2 className="h-8 w-8 mx-auto text-primary animate-spin" />
+                <Progress value={progress} className="w-full h-2" />
+                <p className="text-xs text-muted-foreground">Uploading package · {Math.round(progress)}%</p>
+            </div>
+        );
+    }
+
+    if (value) {
+        return (
+            <div className="border rounded-lg p-3 space-y-1 relative">
+                <Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6" onClick={() => onChange(null)} aria-label="Remove package">
+                    <Trash2 className="h-4 w-4" />
+                </Button>
+                <p className="text-sm font-medium flex items-center gap-2 pr-8"><Package className="h-4 w-4 text-primary" /> {value.title}</p>
+                <div className="flex flex-wrap gap-1">
+                    <Badge variant="secondary">SCORM {value.version}</Badge>
+                    {value.masteryScore !== null && <Badge variant="outline">Pass mark {value.masteryScore}%</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{value.fileName} · {value.fileCount} files · launches {value.launchPath}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="border border-dashed rounded-lg p-4 text-center cursor-pointer hover:border-primary">
+            <Label htmlFor={inputId} className="cursor-pointer block">
+                <Package className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+                <p className="text-sm text-muted-foreground">Upload SCORM 1.2 or 2004 package (.zip)</p>
+                <Input id={inputId} type="file" accept=".zip,application/zip" className="hidden" onChange={handleFileChange} />
+            </Label>
+        </div>
+    );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { PlusCircle, Trash2, Eye, Crosshair, Play, HelpCircle, ListChecks, AlertTriangle } from 'lucide-react';
+import type { BrandQuiz, LessonTimedEvent, Question, Quiz } from '@/types/course';
+import { QuizTaking } from '@/components/learn/QuizTaking';
+import {
+    buildCheckpointQuiz,
+    createTimedEvent,
+    formatVideoTimestamp,
+    isTimedEventComplete,
+    parseVideoTimestamp,
+} from '@/lib/timed-events';
+import { cn } from '@/lib/utils';
+
+interface VideoCheckpointsEditorProps {
+    videoUrl: string | null | undefined;
+    events: LessonTimedEvent[];
+    onChange: (events: LessonTimedEvent[]) => void;
+    quizzes: Array<Quiz | BrandQuiz>; // Quizzes a checkpoint can ask, from the same library as the lesson
+    idPrefix: string; // Keeps input IDs unique when the editor is shown once per locale
+}
+
+/**
+ * Lets authors scrub the lesson video and place quiz or question checkpoints at specific times.
+ */
+export function VideoCheckpointsEditor({ videoUrl, events, onChange, quizzes, idPrefix }: VideoCheckpointsEditorProps) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+    const [previewEvent, setPreviewEvent] = useState<LessonTimedEvent | null>(null);
+
+    const sortedEvents = [...events].sort((a, b) => a.timestamp - b.timestamp);
+
+    const updateEvent = (eventId: string, changes: Partial<LessonTimedEvent>) => {
+        onChange(events.map(event => event.eventId === eventId ? { ...event, ...changes } : event));
+    };
+
+    const updateQuestion = (event: LessonTimedEvent, changes: Partial<Question>) => {
+        if (!event.question) return;
+        updateEvent(event.eventId, { question: { ...event.question, ...changes } });
+    };
+
+    const seekTo = (seconds: number) => {
+        if (!videoRef.current) return;
+        videoRef.current.pause();
+        videoRef.current.currentTime = seconds;
+    };
+
+    const addEvent = (type: LessonTimedEvent['type']) => {
+        videoRef.current?.pause();
+        onChange([...events, createTimedEvent(type, videoRef.current?.currentTime ?? currentTime)]);
+    };
+
+    const previewQuiz = previewEvent
+        ? previewEvent.type === 'quiz' ? quizzes.find(quiz => quiz.id === previewEvent.quizId) ?? null : buildCheckpointQuiz(previewEvent)
+        : null;
+
+    if (!videoUrl) {
+        return <p className="text-sm text-muted-foreground">Add a video to this lesson to place checkpoints.</p>;
+    }
+
+    const renderQuestionEditor = (event: LessonTimedEvent, question: Question) => (
+        <div className="space-y-3">
+            <div className="grid gap-3 sm:grid-cols-[1fr_180px]">
+                <Input value={question.text} onChange={(e) => updateQuestion(event, { text: e.target.value })} placeholder="Question text" aria-label="Question text" />
+                <Select
+                    value={question.type}
+                    onValueChange={(type) => updateQuestion(event, type === 'true-false'
+                        ? { type: 'true-false', options: ['True', 'False'], correctAnswer: '' }
+                        : { type: 'multiple-choice', options: ['', ''], correctAnswer: '' })}
+                >
+                    <SelectTrigger aria-label="Question type"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="multiple-choice">Multiple Choice</SelectItem>
+                        <SelectItem value="true-false">True / False</SelectItem>
+                    </SelectContent>
+                </Select>
+            </div>
+            <RadioGroup value={question.correctAnswer || ''} onValueChange={(value) => updateQuestion(event, { correctAnswer: value })} className="space-y-2">
+                {question.options.map((option, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                        <RadioGroupItem value={option} id={`${idPrefix}-${event.eventId}-option-${index}`} disabled={!option.trim()} aria-label="Mark as correct answer" />
+                        {question.type === 'true-false' ? (
+                            <Label htmlFor={`${idPrefix}-${event.eventId}-option-${index}`} className="font-normal">{option}</Label>
+                        ) : (
+                            <>
+                                <Input
+                                    value={option}
+                                    onChange={(e) => {
+                                        const options = question.options.map((current, i) => i === index ? e.target.value : current);
+                                        updateQuestion(event, { options, correctAnswer: question.correctAnswer === option ? e.target.value : question.correctAnswer });
+                                    }}
+                                    placeholder={`Option ${index + 1}`}
+                                    className="h-8"
+                                />
+                                <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => updateQuestion(event, { options: question.options.filter((_, i) => i !== index), correctAnswer: question.correctAnswer === option ? '' : question.correctAnswer })} disabled={question.options.length <= 2} aria-label="Remove option">
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </>
+                        )}
+                    </div>
+                ))}
+            </RadioGroup>
+            {question.type === 'multiple-choice' && (
+                <Button type="button" variant="outline" size="sm" onClick={() => updateQuestion(event, { options: [...question.options, ''] })}>
+                    <PlusCircle className="mr-2 h-4 w-4" /> Add Option
+                </Button>
+            )}
+            <p className="text-xs text-muted-foreground">Select the correct answer with the radio button.</p>
+        </div>
+    );
+
+    return (
+        <div className="space-y-4">
+            <video
+                ref={videoRef}
+                src={videoUrl}
+                controls
+                preload="metadata"
+                className="w-full aspect-video rounded-md bg-black"
+                onTimeUpdate={() => setCurrentTime(videoRef.current?.currentTime ?? 0)}
+                onLoadedMetadata={() => setDuration(videoRef.current?.duration || 0)}
+            />
+            {duration > 0 && (
+                <div className="relative h-3 rounded-full bg-muted" aria-label="Checkpoint timeline">
+                    <div className="absolute inset-y-0 left-0 rounded-full bg-primary/30" style={{ width: `${Math.min(100, (currentTime / duration) * 100)}%` }} />
+                    {sortedEvents.map(event => (
+                        <button
+                            key={event.eventId}
+                            type="button"
+                            onClick={() => seekTo(event.timestamp)}
+                            className={cn("absolute top-1/2 h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-background", event.requireCorrect ? "bg-destructive" : "bg-primary")}
+                            style={{ left: `${Math.min(100, (event.timestamp / duration) * 100)}%` }}
+                            title={`${formatVideoTimestamp(event.timestamp)} - ${event.type === 'quiz' ? 'Quiz' : 'Question'}`}
+                            aria-label={`Go to checkpoint at ${formatVideoTimestamp(event.timestamp)}`}
+                        />
+                    ))}
+                </div>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => addEvent('quiz')} disabled={quizzes.length === 0} title={quizzes.length === 0 ? "Create a quiz first" : undefined}>
+                    <ListChecks className="mr-2 h-4 w-4" /> Add Quiz at {formatVideoTimestamp(currentTime)}
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => addEvent('question')}>
+                    <HelpCircle className="mr-2 h-4 w-4" /> Add Question at {formatVideoTimestamp(currentTime)}
+                </Button>
+            </div>
+
+            {sortedEvents.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No checkpoints yet. Play or scrub the video, then add a checkpoint at the current time.</p>
+            ) : (
+                <div className="space-y-3">
+                    {sortedEvents.map(event => (
+                        <div key={event.eventId} className="rounded-md border p-3 space-y-3">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <Input
+                                    key={`${event.eventId}-${event.timestamp}`}
+                                    defaultValue={formatVideoTimestamp(event.timestamp)}
+                                    onBlur={(e) => {
+                                        const seconds = parseVideoTimestamp(e.target.value);
+                                        if (seconds === null) e.target.value = formatVideoTimestamp(event.timestamp);
+                                        else updateEvent(event.eventId, { timestamp: seconds });
+                                    }}
+                                    className="h-8 w-24 font-mono"
+                                    aria-label="Checkpoint time"
+                                />
+                                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => updateEvent(event.eventId, { timestamp: Math.round((videoRef.current?.currentTime ?? currentTime) * 10) / 10 })} title="Move to the current video time" aria-label="Move to the current video time">
+                                    <Crosshair className="h-4 w-4" />
+                                </Button>
+                                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => seekTo(event.timestamp)} title="Go to this time in the video" aria-label="Go to this time in the video">
+                                    <Play className="h-4 w-4" />
+                                </Button>
+                                <Badge variant={event.type === 'quiz' ? 'secondary' : 'outline'}>{event.type === 'quiz' ? 'Quiz' : 'Question'}</Badge>
+                                <div className="ml-auto flex items-center gap-1">
+                                    <Button type="button" variant="ghost" size="sm" className="h-8" onClick={() => setPreviewEvent(event)} disabled={!isTimedEventComplete(event)}>
+                                        <Eye className="mr-1 h-4 w-4" /> Preview
+                                    </Button>
+                                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => onChange(events.filter(e => e.eventId !== event.eventId))} aria-label="Delete checkpoint">
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </div>
+
+                            {event.type === 'quiz' ? (
+                                <Select value={event.quizId || ''} onValueChange={(quizId) => updateEvent(event.eventId, { quizId })}>
+                                    <SelectTrigger aria-label="Checkpoint quiz"><SelectValue placeholder="Choose a quiz" /></SelectTrigger>
+                                    <SelectContent>
+                                        {quizzes.map(quiz => (
+                                            <SelectItem key={quiz.id} value={quiz.id}>{quiz.title} ({quiz.questions?.length || 0} questions)</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            ) : event.question ? renderQuestionEditor(event, event.question) : null}
+
+                            <div className="flex items-center gap-2">
+                                <Switch id={`${idPrefix}-${event.eventId}-require`} checked={event.requireCorrect} onCheckedChange={(checked) => updateEvent(event.eventId, { requireCorrect: checked })} />
+                                <Label htmlFor={`${idPrefix}-${event.eventId}-require`} className="font-normal">Keep the video paused until the learner answers correctly</Label>
+                            </div>
+                            {!isTimedEventComplete(event) && (
+                                <p className="flex items-center gap-1 text-xs text-destructive"><AlertTriangle className="h-3 w-3" /> Incomplete checkpoints are not saved.</p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <Dialog open={!!previewEvent} onOpenChange={(open) => { if (!open) setPreviewEvent(null); }}>
+                <DialogContent className="sm:max-w-xl">
+                    <DialogHeader>
+                        <DialogTitle>Checkpoint Preview at {previewEvent ? formatVideoTimestamp(previewEvent.timestamp) : ''}</DialogTitle>
+                        <DialogDescription>
+                            {previewEvent?.requireCorrect ? 'Learners must answer correctly before the video continues.' : 'Learners can close this and continue the video.'}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {previewQuiz ? (
+                        <QuizTaking key={previewEvent?.eventId} quiz={previewQuiz} onComplete={() => setPreviewEvent(null)} />
+                    ) : (
+                        <p className="text-sm text-muted-foreground">The quiz for this checkpoint could not be found.</p>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import * as React from "react"
+
+import type { LessonCaptionTrack } from "@/types/course"
+import { parseCaptionFile, type CaptionCue } from "@/lib/captions"
+
+export interface LoadedCaptionTrack {
+  locale: string
+  label: string
+  src: string // Object URL of the WebVTT file, so <track> doesn't need CORS on the video
+  cues: CaptionCue[]
+}
+
+/**
+ * Downloads a lesson's caption files for the player and transcript.
+ * Tracks that fail to load are skipped.
+ */
+export function useCaptionTracks(tracks: LessonCaptionTrack[] | null | undefined) {
+  const [loadedTracks, setLoadedTracks] = React.useState<LoadedCaptionTrack[]>([])
+  const tracksKey = JSON.stringify((tracks || []).map((track) => [track.locale, track.label, track.url]))
+
+  React.useEffect(() => {
+    const sourceTracks: LessonCaptionTrack[] = (JSON.parse(tracksKey) as string[][]).map(([locale, label, url]) => ({ locale, label, url }))
+    const objectUrls: string[] = []
+    let isActive = true
+
+    setLoadedTracks([])
+    if (sourceTracks.length === 0) return
+
+    Promise.all(
+      sourceTracks.map(async (track): Promise<LoadedCaptionTrack | null> => {
+        try {
+          const response = await fetch(track.url)
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+          const content = await response.text()
+          const cues = parseCaptionFile(content)
+          const src = URL.createObjectURL(new Blob([content], { type: "text/vtt" }))
+          objectUrls.push(src)
+          return { locale: track.locale, label: track.label, src, cues }
+        } catch (error) {
+          console.warn(`Failed to load ${track.locale} captions:`, error)
+          return null
+        }
+      })
+    ).then((results) => {
+      if (isActive) setLoadedTracks(results.filter((track): track is LoadedCaptionTrack => !!track))
+      else objectUrls.forEach((url) => URL.revokeObjectURL(url)) // Finished after the lesson changed
+    })
+
+    return () => {
+      isActive = false
+      objectUrls.forEach((url) => URL.revokeObjectURL(url))
+    }
+  }, [tracksKey])
+
+  return loadedTracks
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import * as React from "react"
+
+const HLS_MIME_TYPE = "application/vnd.apple.mpegurl"
+
+/**
+ * Plays a lesson's HLS package in a <video>, switching quality with the connection.
+ * Safari plays HLS natively; other browsers use hls.js, loaded only when needed.
+ * The <video> should only get a src of its own when there is no HLS package; if HLS
+ * isn't supported or fails, the uploaded file is played instead.
+ */
+export function useHlsPlayback(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  hlsUrl: string | null | undefined,
+  fallbackUrl: string | null | undefined
+) {
+  React.useEffect(() => {
+    const video = videoRef.current
+    if (!video || !hlsUrl) return
+    let isActive = true
+    let destroyHls: (() => void) | null = null
+
+    const playFallback = () => {
+      if (fallbackUrl) video.src = fallbackUrl
+      else video.removeAttribute("src")
+    }
+
+    if (video.canPlayType(HLS_MIME_TYPE)) {
+      video.src = hlsUrl
+    } else {
+      import("hls.js")
+        .then(({ default: Hls }) => {
+          if (!isActive) return
+          if (!Hls.isSupported()) {
+            playFallback()
+            return
+          }
+          const hls = new Hls({ capLevelToPlayerSize: true })
+          hls.on(Hls.Events.ERROR, (_event, data) => {
+            if (!data.fatal) return
+            console.warn("HLS playback failed, playing the original video:", data.details)
+            hls.destroy()
+            destroyHls = null
+            playFallback()
+          })
+          hls.loadSource(hlsUrl)
+          hls.attachMedia(video)
+          destroyHls = () => hls.destroy()
+        })
+        .catch((error) => {
+          console.warn("Could not load the HLS player:", error)
+          if (isActive) playFallback()
+        })
+    }
+
+    return () => {
+      isActive = false
+      destroyHls?.()
+    }
+  }, [videoRef, hlsUrl, fallbackUrl])
+}
@@ -0,0 +1,132 @@
+// This is a server-only file. It is run by the assignment reminder cron route.
+
+import type { User } from '@/types/user';
+import { getAllUsers, markCourseRemindersSent } from './user-data';
+import { getCourseById } from './firestore-data';
+import { getBrandCourseById } from './brand-content-data';
+import { createNotification } from './notifications-data';
+import { sendAssignmentReminderEmail } from './email';
+import { getCourseDueState, formatDueDate, describeDueState } from './due-dates';
+
+export const DEFAULT_REMINDER_OFFSETS = [-7, 0, 3];
+
+export interface AssignmentReminderResult {
+    usersChecked: number;
+    remindersSent: number;
+    managerCopies: number;
+    emailFailures: number;
+}
+
+/**
+ * Reads the reminder schedule from ASSIGNMENT_REMINDER_OFFSETS, a comma-separated list of days relative
+ * to the due date (negative = before, 0 = on the day, positive = overdue). Defaults to "-7,0,3".
+ */
+export function getReminderOffsets(): number[] {
+    const configured = (process.env.ASSIGNMENT_REMINDER_OFFSETS || '')
+        .split(',')
+        .map(value => value.trim())
+        .filter(value => /^-?\d+$/.test(value))
+        .map(Number);
+    const offsets = configured.length > 0 ? configured : DEFAULT_REMINDER_OFFSETS;
+    return Array.from(new Set(offsets)).sort((a, b) => a - b);
+}
+
+/**
+ * Picks the reminder to send for a course today. If the job missed a run, only the most
+ * urgent pending reminder goes out and the skipped ones are recorded alongside it.
+ * @returns The offset to send and every offset to mark as sent, or null if nothing is due.
+ */
+export function selectReminder(offsets: number[], daysPastDue: number, sentOffsets: number[]): { offset: number; offsetsToMark: number[] } | null {
+    const pending = offsets.filter(offset => offset <= daysPastDue && !sentOffsets.includes(offset));
+    if (pending.length === 0) return null;
+    return { offset: pending[pending.length - 1], offsetsToMark: pending };
+}
+
+/**
+ * The people to copy on a final reminder: active Managers who share a location with the learner,
+ * or the brand's Owners if no such manager exists.
+ */
+function findManagers(learner: User, allUsers: User[]): User[] {
+    const colleagues = allUsers.filter(u => u.companyId === learner.companyId && u.id !== learner.id && u.isActive);
+    const learnerLocations = learner.assignedLocationIds || [];
+    const managers = colleagues.filter(u => u.role === 'Manager' && (u.assignedLocationIds || []).some(id => learnerLocations.includes(id)));
+    return managers.length > 0 ? managers : colleagues.filter(u => u.role === 'Owner');
+}
+
+/**
+ * Sends due date reminders for every assigned, unfinished course with a due date.
+ * Each reminder goes out as an in-app notification and an email; the last configured reminder is also copied to the learner's managers.
+ */
+export async function sendAssignmentReminders(now: Date = new Date()): Promise<AssignmentReminderResult> {
+    const offsets = getReminderOffsets();
+    const finalOffset = offsets[offsets.length - 1];
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002';
+    const result: AssignmentReminderResult = { usersChecked: 0, remindersSent: 0, managerCopies: 0, emailFailures: 0 };
+    const courseTitles = new Map<string, string>();
+
+    const getCourseTitle = async (courseId: string): Promise<string> => {
+        if (!courseTitles.has(courseId)) {
+            const course = (await getCourseById(courseId)) || (await getBrandCourseById(courseId));
+            courseTitles.set(courseId, course?.title || 'your assigned course');
+        }
+        return courseTitles.get(courseId)!;
+    };
+
+    const allUsers = await getAllUsers();
+    for (const user of allUsers) {
+        if (!user.isActive || !user.courseDueDates) continue;
+        result.usersChecked++;
+
+        for (const courseId of user.assignedCourseIds || []) {
+            const dueState = getCourseDueState(user, courseId, now);
+            if (!dueState) continue;
+            const reminder = selectReminder(offsets, -dueState.daysUntilDue, user.courseRemindersSent?.[courseId] || []);
+            if (!reminder) continue;
+
+            const courseTitle = await getCourseTitle(courseId);
+            const dueDateLabel = formatDueDate(dueState.dueDate);
+            const statusLabel = describeDueState(dueState);
+            const courseHref = `/learn/${courseId}`;
+            const managers = reminder.offset === finalOffset ? findManagers(user, allUsers) : [];
+
+            await createNotification({
+                recipientId: user.id,
+                senderId: 'SYSTEM',
+                senderName: 'System',
+                type: 'reminder',
+                content: dueState.isOverdue
+                    ? `"${courseTitle}" was due on ${dueDateLabel} and is ${statusLabel.toLowerCase()}.`
+                    : `"${courseTitle}" is due on ${dueDateLabel} (${statusLabel.toLowerCase()}).`,
+                href: courseHref,
+            });
+            for (const manager of managers) {
+                await createNotification({
+                    recipientId: manager.id,
+                    senderId: 'SYSTEM',
+                    senderName: 'System',
+                    type: 'reminder',
+                    content: `${user.name} has not completed "${courseTitle}" (due ${dueDateLabel}, ${statusLabel.toLowerCase()}).`,
+                    href: `/dashboard/users/${user.id}/edit`,
+                });
+            }
+
+            const emailSent = await sendAssignmentReminderEmail({
+                to: user.email,
+                cc: managers.map(manager => manager.email).filter(Boolean),
+                name: user.name,
+                courseTitle,
+                dueDateLabel,
+                statusLabel,
+                isOverdue: dueState.isOverdue,
+                courseUrl: `${appUrl}${courseHref}`,
+            });
+            if (!emailSent) result.emailFailures++;
+
+            // Recorded even if the email failed; the in-app notification has already gone out
+            await markCourseRemindersSent(user.id, courseId, reminder.offsetsToMark);
+            result.remindersSent++;
+            result.managerCopies += managers.length;
+        }
+    }
+    return result;
+}
@@ -13,12 +13,19 @@ import {
     where,
     writeBatch,
     serverTimestamp,
-    arrayUnion,
     arrayRemove,
-    Timestamp
+    deleteField
 } from 'firebase/firestore';
-import type { BrandCourse, BrandCourseFormData, BrandLesson, BrandLessonFormData, BrandQuiz, BrandQuizFormData, BrandQuestion, BrandQuestionFormData, QuestionType, QuizTranslation, CourseTranslation, LessonTranslation, QuestionTranslation } from '@/types/course';
+import type { CurriculumAvailability, CurriculumModule, BrandCourse, BrandCourseFormData, BrandLesson, BrandLessonFormData, BrandQuiz, BrandQuizFormData, BrandQuestion, BrandQuestionFormData, QuestionType, QuizTranslation, CourseTranslation, LessonTranslation, QuestionTranslation } from '@/types/course';
+import type { LessonVideoAsset } from '@/types/video';
+import type { TrashActor, TrashCurriculumPlacement } from '@/types/trash';
 import { getLessonById, getQuizById } from './firestore-data';
+import { flattenModules, removeItemFromModules, sanitizeModules } from './curriculum-modules';
+import { getTimedEventsForLocale, sanitizeTimedEvents } from './timed-events';
+import { getCaptionTracksForLocale, sanitizeCaptionTracks } from './captions';
+import { collectVideoAssetIds, formatPlaybackTime, sanitizeLessonVideoAsset } from './video-assets';
+import { sanitizeScormPackage } from './scorm';
+import { buildCurriculumDraftUpdate, buildDraftUpdate, getDraftContent, withDraft } from './content-versions';
 
 const BRAND_COURSES_COLLECTION = 'brandCourses';
 const BRAND_LESSONS_COLLECTION = 'brandLessons';
@@ -65,6 +72,12 @@ const sanitizeCourseTranslations = (translations?: { [key: string]: CourseTransl
 };
 
 
+// Whether a brand's course changes reach learners only once a reviewer approves them
+async function brandRequiresCourseApproval(brandId: string): Promise<boolean> {
+    const brandSnap = await getDoc(doc(db, 'companies', brandId));
+    return brandSnap.exists() && brandSnap.data().requiresCourseApproval === true;
+}
+
 // --- BrandCourse Functions ---
 
 export async function createBrandCourse(brandId: string, courseData: BrandCourseFormData): Promise<BrandCourse | null> {
@@ -74,13 +87,17 @@ export async function createBrandCourse(brandId: string, courseData: BrandCourse
     }
     return retryOperation(async () => {
         const coursesRef = collection(db, BRAND_COURSES_COLLECTION);
+        // Under course approval, learners don't see a new course until a reviewer approves it
+        const requiresApproval = await brandRequiresCourseApproval(brandId);
         const newCourseDoc = {
             ...courseData,
             brandId: brandId,
             imageUrl: courseData.imageUrl || `https://placehold.co/600x350.png?text=${encodeURIComponent(courseData.title)}`,
             featuredImageUrl: courseData.featuredImageUrl || null,
             certificateTemplateId: courseData.certificateTemplateId || null, // Save certificate template
+            validityMonths: courseData.validityMonths || null,
             curriculum: [], // Initialize with empty curriculum
+            isApproved: !requiresApproval,
             isDeleted: false,
             deletedAt: null,
             createdAt: serverTimestamp(),
@@ -124,6 +141,7 @@ export async function getBrandCourseById(courseId: string): Promise<BrandCourse
     });
 }
 
+// Saves course details into the brand course's draft and returns the course with the draft applied
 export async function updateBrandCourseMetadata(courseId: string, courseData: Partial<BrandCourseFormData>): Promise<BrandCourse | null> {
     if (!courseId) return null;
     return retryOperation(async () => {
@@ -133,7 +151,7 @@ export async function updateBrandCourseMetadata(courseId: string, courseData: Pa
             throw new Error("Brand course not found or is soft-deleted for update.");
         }
         
-        const dataToUpdate: Partial<BrandCourseFormData & { updatedAt: Timestamp }> = { ...courseData, updatedAt: serverTimestamp() as Timestamp };
+        const dataToUpdate: Partial<BrandCourseFormData> = { ...courseData };
         if (courseData.imageUrl === '') dataToUpdate.imageUrl = `https://placehold.co/600x350.png?text=${encodeURIComponent(courseData.title || currentDocSnap.data().title)}`;
         if (courseData.featuredImageUrl === '') dataToUpdate.featuredImageUrl = null;
         if (courseData.certificateTemplateId === '') dataToUpdate.certificateTemplateId = null;
@@ -141,30 +159,66 @@ export async function updateBrandCourseMetadata(courseId: string, courseData: Pa
             dataToUpdate.translations = sanitizeCourseTranslations(courseData.translations);
         }
 
-        await updateDoc(courseRef, dataToUpdate);
+        await updateDoc(courseRef, buildDraftUpdate('brandCourse', currentDocSnap.data(), dataToUpdate));
         const updatedDocSnap = await getDoc(courseRef);
-        return updatedDocSnap.exists() ? { id: courseId, ...updatedDocSnap.data() } as BrandCourse : null;
+        return updatedDocSnap.exists() ? withDraft({ id: courseId, ...updatedDocSnap.data() } as BrandCourse) : null;
     });
 }
 
-export async function deleteBrandCourse(courseId: string): Promise<boolean> {
+export async function deleteBrandCourse(courseId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
     if (!courseId) return false;
     return retryOperation(async () => {
         const courseRef = doc(db, BRAND_COURSES_COLLECTION, courseId);
-        await updateDoc(courseRef, { isDeleted: true, deletedAt: serverTimestamp() });
+        await updateDoc(courseRef, { isDeleted: true, deletedAt: serverTimestamp(), deletedBy });
         return true;
     }, 3);
 }
 
-export const updateBrandCourseCurriculum = async (brandCourseId: string, curriculum: string[]): Promise<boolean> => {
+/**
+ * Saves the curriculum modules and rewrites the flat curriculum array in module order.
+ * Under course approval both are held in the course's draft until a reviewer approves them.
+ */
+export const updateBrandCourseModules = async (brandCourseId: string, modules: CurriculumModule[]): Promise<boolean> => {
     if (!brandCourseId) return false;
     return retryOperation(async () => {
         const courseRef = doc(db, BRAND_COURSES_COLLECTION, brandCourseId);
         const courseSnap = await getDoc(courseRef);
         if (!courseSnap.exists() || courseSnap.data().isDeleted === true) return false;
 
+        const sanitizedModules = sanitizeModules(modules);
+        const curriculum = flattenModules(sanitizedModules);
+
+        if (await brandRequiresCourseApproval(courseSnap.data().brandId)) {
+            await updateDoc(courseRef, buildCurriculumDraftUpdate(courseSnap.data(), sanitizedModules, curriculum));
+            return true;
+        }
+
+        // Drop drip rules for items that are no longer in the curriculum
+        const currentAvailability: { [itemId: string]: CurriculumAvailability } = courseSnap.data().curriculumAvailability || {};
+        const curriculumAvailability = Object.fromEntries(Object.entries(currentAvailability).filter(([itemId]) => curriculum.includes(itemId)));
+
         await updateDoc(courseRef, {
+            modules: sanitizedModules,
             curriculum: curriculum,
+            curriculumAvailability,
+            updatedAt: serverTimestamp(),
+        });
+        return true;
+    });
+};
+
+// Sets or clears (with null) the drip rule of one curriculum item
+export const updateBrandCourseCurriculumAvailability = async (brandCourseId: string, itemId: string, availability: CurriculumAvailability | null): Promise<boolean> => {
+    if (!brandCourseId || !itemId) return false;
+    return retryOperation(async () => {
+        const courseRef = doc(db, BRAND_COURSES_COLLECTION, brandCourseId);
+        const courseSnap = await getDoc(courseRef);
+        if (!courseSnap.exists() || courseSnap.data().isDeleted === true) return false;
+        const course = courseSnap.data();
+        if (![...(course.curriculum || []), ...(course.draft?.curriculum || [])].includes(itemId)) return false;
+
+        await updateDoc(courseRef, {
+            [`curriculumAvailability.${itemId}`]: availability ?? deleteField(),
             updatedAt: serverTimestamp(),
         });
         return true;
@@ -184,6 +238,9 @@ const sanitizeLessonTranslations = (translations?: { [key: string]: LessonTransl
               title: translation.title || null,
               content: translation.content || null,
               videoUrl: translation.videoUrl || null,
+              timedEvents: translation.videoUrl ? sanitizeTimedEvents(translation.timedEvents) : [],
+              captions: translation.videoUrl ? sanitizeCaptionTracks(translation.captions) : [],
+              videoAsset: translation.videoUrl ? sanitizeLessonVideoAsset(translation.videoAsset) : null,
           };
       }
     }
@@ -205,6 +262,12 @@ export async function createBrandLesson(brandId: string, lessonData: BrandLesson
             featuredImageUrl: lessonData.featuredImageUrl?.trim() || null,
             exerciseFilesInfo: lessonData.exerciseFilesInfo?.trim() || null,
             playbackTime: lessonData.playbackTime?.trim() || null,
+            timedEvents: sanitizeTimedEvents(lessonData.timedEvents),
+            captions: sanitizeCaptionTracks(lessonData.captions),
+            videoAsset: sanitizeLessonVideoAsset(lessonData.videoAsset),
+            videoAssetIds: collectVideoAssetIds({ videoAsset: lessonData.videoAsset, translations: sanitizeLessonTranslations(lessonData.translations) }),
+            lessonType: lessonData.lessonType === 'scorm' ? 'scorm' : 'standard',
+            scormPackage: lessonData.lessonType === 'scorm' ? sanitizeScormPackage(lessonData.scormPackage) : null,
             translations: sanitizeLessonTranslations(lessonData.translations),
             isDeleted: false,
             deletedAt: null,
@@ -231,19 +294,36 @@ export async function getBrandLessonsByBrandId(brandId: string): Promise<BrandLe
     });
 }
 
-export async function getBrandLessonById(lessonId: string): Promise<BrandLesson | null> {
+/**
+ * Fetches a brand lesson. With a locale, translated text is merged in, and a translated video
+ * replaces the main one together with its own checkpoints and captions.
+ */
+export async function getBrandLessonById(lessonId: string, locale?: string): Promise<BrandLesson | null> {
     if (!lessonId) return null;
     return retryOperation(async () => {
         const lessonRef = doc(db, BRAND_LESSONS_COLLECTION, lessonId);
         const docSnap = await getDoc(lessonRef);
         if (docSnap.exists() && docSnap.data().isDeleted !== true) {
-            return { id: docSnap.id, ...docSnap.data() } as BrandLesson;
+            const lessonData = { id: docSnap.id, ...docSnap.data() } as BrandLesson;
+            const translation = locale && locale !== 'en' ? lessonData.translations?.[locale] : undefined;
+            if (translation) {
+                if (translation.title) lessonData.title = translation.title;
+                if (translation.content) lessonData.content = translation.content;
+                if (translation.videoUrl) {
+                    lessonData.videoUrl = translation.videoUrl;
+                    lessonData.videoAsset = translation.videoAsset || null;
+                }
+                lessonData.timedEvents = getTimedEventsForLocale(lessonData, locale);
+                lessonData.captions = getCaptionTracksForLocale(lessonData, locale);
+            }
+            return lessonData;
         } else {
             return null;
         }
     });
 }
 
+// Saves lesson edits into the brand lesson's draft and returns the lesson with the draft applied
 export async function updateBrandLesson(lessonId: string, lessonData: Partial<BrandLessonFormData>): Promise<BrandLesson | null> {
     if (!lessonId) return null;
     return retryOperation(async () => {
@@ -251,7 +331,7 @@ export async function updateBrandLesson(lessonId: string, lessonData: Partial<Br
         const lessonSnap = await getDoc(lessonRef);
         if (!lessonSnap.exists() || lessonSnap.data().isDeleted === true) return null;
 
-        const dataToUpdate: Partial<Omit<BrandLessonFormData, 'translations' | 'brandId'>> & { translations?: { [key: string]: LessonTranslation; }; updatedAt?: Timestamp } = { updatedAt: serverTimestamp() as Timestamp };
+        const dataToUpdate: Partial<Omit<BrandLessonFormData, 'translations' | 'brandId'>> & { translations?: { [key: string]: LessonTranslation; } } = {};
         
         if (lessonData.translations) {
             dataToUpdate.translations = sanitizeLessonTranslations(lessonData.translations);
@@ -262,47 +342,111 @@ export async function updateBrandLesson(lessonId: string, lessonData: Partial<Br
                 const value = lessonData[key as keyof typeof lessonData];
                 if (key === 'videoUrl' || key === 'featuredImageUrl' || key === 'exerciseFilesInfo' || key === 'playbackTime') {
                     (dataToUpdate as any)[key] = (value as string)?.trim() || null;
+                } else if (key === 'timedEvents') {
+                    (dataToUpdate as any)[key] = sanitizeTimedEvents(lessonData.timedEvents);
+                } else if (key === 'captions') {
+                    (dataToUpdate as any)[key] = sanitizeCaptionTracks(lessonData.captions);
+                } else if (key === 'videoAsset') {
+                    (dataToUpdate as any)[key] = sanitizeLessonVideoAsset(lessonData.videoAsset);
+                } else if (key === 'lessonType') {
+                    (dataToUpdate as any)[key] = value === 'scorm' ? 'scorm' : 'standard';
+                } else if (key === 'scormPackage') {
+                    (dataToUpdate as any)[key] = sanitizeScormPackage(lessonData.scormPackage);
                 } else {
                     (dataToUpdate as any)[key] = value;
                 }
             }
         }
 
-        await updateDoc(lessonRef, dataToUpdate);
+        await updateDoc(lessonRef, buildDraftUpdate('brandLesson', lessonSnap.data(), dataToUpdate));
         const updatedDocSnap = await getDoc(lessonRef);
-        return updatedDocSnap.exists() ? { id: lessonId, ...updatedDocSnap.data() } as BrandLesson : null;
+        return updatedDocSnap.exists() ? withDraft({ id: lessonId, ...updatedDocSnap.data() } as BrandLesson) : null;
+    });
+}
+
+/**
+ * Copies a video asset's processing output onto every brand lesson that uses it, whether as the
+ * main video or a translation's video, in the published lesson or its draft. The main video's
+ * duration also becomes the lesson's playback time.
+ * @returns The number of brand lessons updated.
+ */
+export async function updateBrandLessonsForVideoAsset(videoAsset: LessonVideoAsset): Promise<number> {
+    if (!videoAsset?.id) return 0;
+    return retryOperation(async () => {
+        const q = query(collection(db, BRAND_LESSONS_COLLECTION), where('videoAssetIds', 'array-contains', videoAsset.id));
+        const snapshot = await getDocs(q);
+        const sanitized = sanitizeLessonVideoAsset(videoAsset);
+        let updatedCount = 0;
+        for (const lessonDoc of snapshot.docs) {
+            const lesson = lessonDoc.data() as BrandLesson;
+            const changes: Record<string, any> = {};
+            for (const [prefix, content] of [['', lesson], ['draft.', lesson.draft]] as const) {
+                if (!content) continue;
+                if (content.videoAsset?.id === videoAsset.id) {
+                    changes[`${prefix}videoAsset`] = sanitized;
+                    if (videoAsset.durationSeconds) changes[`${prefix}playbackTime`] = formatPlaybackTime(videoAsset.durationSeconds);
+                }
+                for (const [locale, translation] of Object.entries<LessonTranslation>(content.translations || {})) {
+                    if (translation?.videoAsset?.id === videoAsset.id) changes[`${prefix}translations.${locale}.videoAsset`] = sanitized;
+                }
+            }
+            if (Object.keys(changes).length === 0) continue;
+            await updateDoc(lessonDoc.ref, { ...changes, updatedAt: serverTimestamp() });
+            updatedCount++;
+        }
+        return updatedCount;
     });
 }
 
-async function removeBrandItemFromBrandCourseCurriculums(brandId: string, prefixedItemId: string): Promise<void> {
+// Takes an item out of the brand's course curriculums, drafts included, and returns where it was live
+async function removeBrandItemFromBrandCourseCurriculums(brandId: string, prefixedItemId: string): Promise<TrashCurriculumPlacement[]> {
    return retryOperation(async () => {
        const coursesRef = collection(db, BRAND_COURSES_COLLECTION);
-       const q = query(coursesRef,
+       const [liveSnapshot, draftSnapshot] = await Promise.all(["curriculum", "draft.curriculum"].map(field => getDocs(query(coursesRef,
                        where("brandId", "==", brandId),
-                       where("curriculum", "array-contains", prefixedItemId),
-                       where("isDeleted", "==", false));
-       const snapshot = await getDocs(q);
+                       where(field, "array-contains", prefixedItemId),
+                       where("isDeleted", "==", false)))));
+       const courseDocs = new Map([...liveSnapshot.docs, ...draftSnapshot.docs].map(courseDoc => [courseDoc.id, courseDoc]));
 
-       if (snapshot.empty) return;
+       if (courseDocs.size === 0) return [];
 
        const batch = writeBatch(db);
-       snapshot.forEach(courseDoc => {
+       const placements: TrashCurriculumPlacement[] = [];
+       courseDocs.forEach(courseDoc => {
            const courseRef = courseDoc.ref;
-           batch.update(courseRef, { curriculum: arrayRemove(prefixedItemId), updatedAt: serverTimestamp() });
+           const course = courseDoc.data();
+           const update: Record<string, any> = { updatedAt: serverTimestamp() };
+           if ((course.curriculum || []).includes(prefixedItemId)) {
+               const modules: CurriculumModule[] | undefined = course.modules;
+               placements.push({ courseId: courseDoc.id, moduleId: modules?.find(module => module.itemIds.includes(prefixedItemId))?.id ?? null });
+               update.curriculum = arrayRemove(prefixedItemId);
+               if (modules) update.modules = removeItemFromModules(modules, prefixedItemId);
+           }
+           // A curriculum held for review (see buildCurriculumDraftUpdate) loses the item too
+           if ((course.draft?.curriculum || []).includes(prefixedItemId)) {
+               update['draft.curriculum'] = arrayRemove(prefixedItemId);
+               if (course.draft.modules) update['draft.modules'] = removeItemFromModules(course.draft.modules, prefixedItemId);
+           }
+           batch.update(courseRef, update);
        });
        await batch.commit();
-       console.log(`Removed brand item ${prefixedItemId} from ${snapshot.size} brand course curriculums for brand ${brandId}.`);
+       console.log(`Removed brand item ${prefixedItemId} from ${courseDocs.size} brand course curriculums for brand ${brandId}.`);
+       return placements;
    });
 }
 
-export async function deleteBrandLessonAndCleanUp(lessonId: string, brandId: string): Promise<boolean> {
+/**
+ * Soft-deletes a brand lesson and takes it out of the brand's course curriculums.
+ * Where it was is kept on the lesson, so restoring it from the trash puts it back.
+ */
+export async function deleteBrandLessonAndCleanUp(lessonId: string, brandId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
     if (!lessonId || !brandId) return false;
     return retryOperation(async () => {
         const prefixedLessonId = `brandLesson-${lessonId}`;
-        await removeBrandItemFromBrandCourseCurriculums(brandId, prefixedLessonId);
+        const removedFromCourses = await removeBrandItemFromBrandCourseCurriculums(brandId, prefixedLessonId);
 
         const lessonRef = doc(db, BRAND_LESSONS_COLLECTION, lessonId);
-        await updateDoc(lessonRef, { isDeleted: true, deletedAt: serverTimestamp() });
+        await updateDoc(lessonRef, { isDeleted: true, deletedAt: serverTimestamp(), deletedBy, removedFromCourses });
         return true;
     }, 3);
 }
@@ -394,6 +538,7 @@ export async function getBrandQuizById(quizId: string, locale?: string): Promise
     });
 }
 
+// Saves the brand quiz title, translations and settings into the quiz's draft
 export async function updateBrandQuiz(quizId: string, quizData: Partial<BrandQuizFormData>): Promise<BrandQuiz | null> {
     if (!quizId) return null;
     return retryOperation(async () => {
@@ -401,33 +546,35 @@ export async function updateBrandQuiz(quizId: string, quizData: Partial<BrandQui
         const quizSnap = await getDoc(quizRef);
         if (!quizSnap.exists() || quizSnap.data().isDeleted === true) return null;
         
-        const dataToUpdate: Partial<BrandQuizFormData & { updatedAt: Timestamp }> = { updatedAt: serverTimestamp() as Timestamp };
+        const dataToUpdate: Partial<BrandQuizFormData> = {};
         if (quizData.title !== undefined) dataToUpdate.title = quizData.title;
         if (quizData.translations !== undefined) dataToUpdate.translations = sanitizeQuizTranslations(quizData.translations);
+        if (quizData.settings !== undefined) dataToUpdate.settings = quizData.settings;
 
-        await updateDoc(quizRef, dataToUpdate);
+        await updateDoc(quizRef, buildDraftUpdate('brandQuiz', quizSnap.data(), dataToUpdate));
         const updatedDocSnap = await getDoc(quizRef);
         if (updatedDocSnap.exists()) {
             const data = updatedDocSnap.data();
-            return {
+            return withDraft({
                 id: quizId,
                 ...data,
                 questions: data.questions || [] // Ensure questions is always an array
-            } as BrandQuiz;
+            } as BrandQuiz);
         } else {
             return null;
         }
     });
 }
 
-export async function deleteBrandQuizAndCleanUp(quizId: string, brandId: string): Promise<boolean> {
+// Soft-deletes a brand quiz and takes it out of the brand's course curriculums, remembering where it was
+export async function deleteBrandQuizAndCleanUp(quizId: string, brandId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
     if (!quizId || !brandId) return false;
     return retryOperation(async () => {
         const prefixedQuizId = `brandQuiz-${quizId}`;
-        await removeBrandItemFromBrandCourseCurriculums(brandId, prefixedQuizId);
+        const removedFromCourses = await removeBrandItemFromBrandCourseCurriculums(brandId, prefixedQuizId);
 
         const quizRef = doc(db, BRAND_QUIZZES_COLLECTION, quizId);
-        await updateDoc(quizRef, { isDeleted: true, deletedAt: serverTimestamp() });
+        await updateDoc(quizRef, { isDeleted: true, deletedAt: serverTimestamp(), deletedBy, removedFromCourses });
         return true;
     }, 3);
 }
@@ -439,17 +586,73 @@ const sanitizeBrandQuestionTranslations = (translations?: { [key: string]: Quest
     for (const locale in translations) {
         if (Object.prototype.hasOwnProperty.call(translations, locale)) {
             const translation = translations[locale];
-            if (translation && (translation.text || translation.options)) {
+            if (translation && (translation.text || translation.options || translation.acceptedAnswers || translation.matchingPairs)) {
                 sanitized[locale] = {
                     text: translation.text || null,
                     options: (translation.options || []).map(opt => opt || null)
                 };
+                if (translation.acceptedAnswers) {
+                    sanitized[locale].acceptedAnswers = translation.acceptedAnswers.map(answer => (answer || '').trim()).filter(Boolean);
+                }
+                if (translation.matchingPairs) {
+                    sanitized[locale].matchingPairs = translation.matchingPairs.map(pair => ({ prompt: pair?.prompt || '', match: pair?.match || '' }));
+                }
             }
         }
     }
     return sanitized;
 };
 
+// Sets the answer fields used by the question's type and removes those of other types
+const applyBrandQuestionAnswerFields = (question: BrandQuestion, source: Partial<Omit<BrandQuestion, 'id'>>): BrandQuestion => {
+    delete question.correctAnswer;
+    delete question.correctAnswers;
+    delete question.acceptedAnswers;
+    delete question.caseSensitive;
+    delete question.matchingPairs;
+    delete question.optionImages;
+    switch (question.type) {
+        case 'multiple-select':
+            question.correctAnswers = source.correctAnswers || [];
+            break;
+        case 'ordering':
+            // Options are authored in the correct sequence
+            question.correctAnswers = source.correctAnswers?.length ? source.correctAnswers : question.options;
+            break;
+        case 'short-answer':
+            question.options = [];
+            question.acceptedAnswers = (source.acceptedAnswers || []).map(answer => answer.trim()).filter(Boolean);
+            question.caseSensitive = !!source.caseSensitive;
+            break;
+        case 'matching':
+            question.matchingPairs = (source.matchingPairs || []).map(pair => ({ prompt: pair.prompt.trim(), match: pair.match.trim() }));
+            question.options = Array.from(new Set(question.matchingPairs.map(pair => pair.match)));
+            break;
+        case 'image-choice':
+            question.optionImages = question.options.map((_, index) => source.optionImages?.[index] || '');
+            question.correctAnswer = source.correctAnswer || '';
+            break;
+        default:
+            question.correctAnswer = source.correctAnswer || '';
+    }
+    return question;
+};
+
+// Question changes are made to the quiz's draft, so learners keep the published questions until the draft is published
+const getDraftBrandQuestions = (quizData: any): BrandQuestion[] => getDraftContent('brandQuiz', quizData).questions || [];
+
+const toBrandQuestionForFirestore = (questionData: BrandQuestionFormData): BrandQuestion => {
+    const questionForFirestore: BrandQuestion = {
+        id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        type: questionData.type,
+        text: questionData.text,
+        options: questionData.options || [],
+        translations: sanitizeBrandQuestionTranslations(questionData.translations),
+        tag: questionData.tag?.trim() || null,
+    };
+    return applyBrandQuestionAnswerFields(questionForFirestore, questionData);
+};
+
 
 export async function addBrandQuestionToBrandQuiz(brandQuizId: string, questionData: BrandQuestionFormData): Promise<BrandQuestion | null> {
     if (!brandQuizId) return null;
@@ -460,34 +663,37 @@ export async function addBrandQuestionToBrandQuiz(brandQuizId: string, questionD
             throw new Error(`Brand Quiz with ID ${brandQuizId} not found or is soft-deleted.`);
         }
 
-        const questionId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+        const questionForFirestore = toBrandQuestionForFirestore(questionData);
+        const questionId = questionForFirestore.id;
 
-        const questionForFirestore: BrandQuestion = {
-            id: questionId,
-            type: questionData.type,
-            text: questionData.text,
-            options: questionData.options || [],
-            translations: sanitizeBrandQuestionTranslations(questionData.translations),
-        };
-
-        if (questionData.type === 'multiple-select') {
-            questionForFirestore.correctAnswers = questionData.correctAnswers || [];
-        } else {
-            questionForFirestore.correctAnswer = questionData.correctAnswer || '';
-        }
-
-        await updateDoc(quizRef, {
-            questions: arrayUnion(questionForFirestore),
-            updatedAt: serverTimestamp(),
-        });
+        await updateDoc(quizRef, buildDraftUpdate('brandQuiz', quizSnap.data(), {
+            questions: [...getDraftBrandQuestions(quizSnap.data()), questionForFirestore],
+        }));
 
         const updatedQuizSnap = await getDoc(quizRef);
-        const updatedQuiz = updatedQuizSnap.data() as BrandQuiz;
-        const addedQuestion = updatedQuiz?.questions?.find(q => q.id === questionId);
+        const addedQuestion = getDraftBrandQuestions(updatedQuizSnap.data()).find(q => q.id === questionId);
         return addedQuestion || null;
     });
 }
 
+// Adds several questions in a single write, so an import either lands completely or not at all
+export async function addBrandQuestionsToBrandQuiz(brandQuizId: string, questionsData: BrandQuestionFormData[]): Promise<BrandQuestion[]> {
+    if (!brandQuizId || questionsData.length === 0) return [];
+    return retryOperation(async () => {
+        const quizRef = doc(db, BRAND_QUIZZES_COLLECTION, brandQuizId);
+        const quizSnap = await getDoc(quizRef);
+        if (!quizSnap.exists() || quizSnap.data().isDeleted === true) {
+            throw new Error(`Brand Quiz with ID ${brandQuizId} not found or is soft-deleted.`);
+        }
+
+        const questionsForFirestore = questionsData.map(toBrandQuestionForFirestore);
+        await updateDoc(quizRef, buildDraftUpdate('brandQuiz', quizSnap.data(), {
+            questions: [...getDraftBrandQuestions(quizSnap.data()), ...questionsForFirestore],
+        }));
+        return questionsForFirestore;
+    });
+}
+
 export async function updateBrandQuestionInBrandQuiz(brandQuizId: string, questionId: string, questionData: Partial<BrandQuestionFormData>): Promise<BrandQuestion | null> {
     if (!brandQuizId || !questionId) return null;
     return retryOperation(async () => {
@@ -497,7 +703,7 @@ export async function updateBrandQuestionInBrandQuiz(brandQuizId: string, questi
             throw new Error(`Brand Quiz with ID ${brandQuizId} not found or is soft-deleted.`);
         }
 
-        const currentQuestions: BrandQuestion[] = quizSnap.data().questions || [];
+        const currentQuestions = getDraftBrandQuestions(quizSnap.data());
         let questionFound = false;
         const newQuestionsArray = currentQuestions.map(q => {
             if (q.id === questionId) {
@@ -508,14 +714,10 @@ export async function updateBrandQuestionInBrandQuiz(brandQuizId: string, questi
                     text: questionData.text !== undefined ? questionData.text : q.text,
                     options: questionData.options !== undefined ? questionData.options : q.options,
                     translations: questionData.translations !== undefined ? sanitizeBrandQuestionTranslations(questionData.translations) : q.translations,
+                    tag: questionData.tag !== undefined ? (questionData.tag?.trim() || null) : (q.tag ?? null),
                 };
-                if (updatedQuestionData.type === 'multiple-select') {
-                    updatedQuestionData.correctAnswers = questionData.correctAnswers !== undefined ? questionData.correctAnswers : q.correctAnswers;
-                    delete updatedQuestionData.correctAnswer; // Ensure only one correct answer field
-                } else {
-                    updatedQuestionData.correctAnswer = questionData.correctAnswer !== undefined ? questionData.correctAnswer : q.correctAnswer;
-                    delete updatedQuestionData.correctAnswers; // Ensure only one correct answer field
-                }
+                const definedData = Object.fromEntries(Object.entries(questionData).filter(([, value]) => value !== undefined));
+                applyBrandQuestionAnswerFields(updatedQuestionData, { ...q, ...definedData });
                 return updatedQuestionData;
             }
             return q;
@@ -525,11 +727,10 @@ export async function updateBrandQuestionInBrandQuiz(brandQuizId: string, questi
              throw new Error(`Brand Question with ID ${questionId} not found in brand quiz ${brandQuizId}.`);
         }
 
-        await updateDoc(quizRef, { questions: newQuestionsArray, updatedAt: serverTimestamp() });
+        await updateDoc(quizRef, buildDraftUpdate('brandQuiz', quizSnap.data(), { questions: newQuestionsArray }));
 
         const updatedQuizSnap = await getDoc(quizRef);
-        const updatedQuiz = updatedQuizSnap.data() as BrandQuiz;
-        const updatedQuestion = updatedQuiz?.questions?.find(q => q.id === questionId);
+        const updatedQuestion = getDraftBrandQuestions(updatedQuizSnap.data()).find(q => q.id === questionId);
         return updatedQuestion || null;
     });
 }
@@ -543,14 +744,14 @@ export async function deleteBrandQuestionFromBrandQuiz(brandQuizId: string, ques
              throw new Error(`Brand Quiz with ID ${brandQuizId} not found or is soft-deleted.`);
         }
 
-        const currentQuestions: BrandQuestion[] = quizSnap.data().questions || [];
+        const currentQuestions = getDraftBrandQuestions(quizSnap.data());
         const questionToRemove = currentQuestions.find(q => q.id === questionId);
         if (!questionToRemove) {
             console.warn(`Brand Question with ID ${questionId} not found in brand quiz ${brandQuizId} for deletion.`);
             return false;
         }
         const newQuestionsArray = currentQuestions.filter(q => q.id !== questionId);
-        await updateDoc(quizRef, { questions: newQuestionsArray, updatedAt: serverTimestamp() });
+        await updateDoc(quizRef, buildDraftUpdate('brandQuiz', quizSnap.data(), { questions: newQuestionsArray }));
         return true;
     }, 3);
 }
@@ -0,0 +1,117 @@
+import type { LessonCaptionTrack, LessonTranslation } from '@/types/course';
+
+// Largest caption file accepted for upload
+export const MAX_CAPTION_FILE_BYTES = 2 * 1024 * 1024;
+
+export interface CaptionCue {
+    start: number; // Seconds
+    end: number; // Seconds
+    text: string; // Cue text with markup removed, lines joined by newlines
+}
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/**
+ * Parses a cue timestamp in WebVTT ("01:02.500", "00:01:02.500") or SRT ("00:01:02,500") form.
+ * @returns The number of seconds, or null if the timestamp is malformed.
+ */
+export function parseCaptionTimestamp(text: string): number | null {
+    const match = text.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/);
+    if (!match) return null;
+    const [, hours, minutes, seconds, fraction] = match;
+    if (Number(minutes) > 59 || Number(seconds) > 59) return null;
+    return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+export function formatCaptionTimestamp(totalSeconds: number): string {
+    const totalMs = Math.max(0, Math.round(totalSeconds * 1000));
+    const hours = Math.floor(totalMs / 3600000).toString().padStart(2, '0');
+    const minutes = Math.floor((totalMs % 3600000) / 60000).toString().padStart(2, '0');
+    const seconds = Math.floor((totalMs % 60000) / 1000).toString().padStart(2, '0');
+    const ms = (totalMs % 1000).toString().padStart(3, '0');
+    return `${hours}:${minutes}:${seconds}.${ms}`;
+}
+
+// Removes WebVTT/SRT markup such as <v Speaker>, <i> or {\an8} for plain text display
+const stripCueMarkup = (text: string) => text.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '').trim();
+
+/**
+ * Parses a WebVTT or SRT caption file into cues.
+ * Throws an error describing the problem if the file isn't a valid caption file.
+ */
+export function parseCaptionFile(content: string): CaptionCue[] {
+    const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+    if (!normalized) throw new Error("The caption file is empty.");
+
+    const blocks = normalized.split(/\n\s*\n/);
+    const isWebVtt = /^WEBVTT(?:[ \t].*)?$/.test(blocks[0].split('\n')[0]);
+    if (isWebVtt) blocks.shift(); // The header block holds no cues
+
+    const cues: CaptionCue[] = [];
+    blocks.forEach((block, blockIndex) => {
+        const lines = block.split('\n');
+        if (isWebVtt && /^(NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex === -1 || timingIndex > 1) {
+            throw new Error(`Caption ${blockIndex + 1} has no timing line (e.g. "00:00:01.000 --> 00:00:04.000").`);
+        }
+        const timing = lines[timingIndex].match(TIMING_LINE);
+        const start = timing ? parseCaptionTimestamp(timing[1]) : null;
+        const end = timing ? parseCaptionTimestamp(timing[2]) : null;
+        if (start === null || end === null) {
+            throw new Error(`Caption ${blockIndex + 1} has an invalid timing line: "${lines[timingIndex].trim()}".`);
+        }
+        if (end <= start) {
+            throw new Error(`Caption ${blockIndex + 1} ends before it starts.`);
+        }
+
+        const text = lines.slice(timingIndex + 1).map(stripCueMarkup).filter(Boolean).join('\n');
+        if (text) cues.push({ start, end, text });
+    });
+
+    if (cues.length === 0) throw new Error("The caption file contains no captions.");
+    return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Validates a WebVTT or SRT file and returns it as WebVTT, the only format browsers play.
+ */
+export function convertCaptionFileToWebVtt(content: string): string {
+    const cues = parseCaptionFile(content);
+    const body = cues.map(cue => `${formatCaptionTimestamp(cue.start)} --> ${formatCaptionTimestamp(cue.end)}\n${cue.text}`).join('\n\n');
+    return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * The cue showing at a time, or -1 between cues.
+ */
+export function findActiveCueIndex(cues: CaptionCue[], time: number): number {
+    for (let index = cues.length - 1; index >= 0; index--) {
+        if (time >= cues[index].start) return time < cues[index].end ? index : -1;
+    }
+    return -1;
+}
+
+/**
+ * Drops tracks without a file or language and keeps one track per language.
+ */
+export function sanitizeCaptionTracks(tracks: LessonCaptionTrack[] | null | undefined): LessonCaptionTrack[] {
+    const seen = new Set<string>();
+    return (tracks || [])
+        .filter(track => track.url && track.locale && !seen.has(track.locale) && !!seen.add(track.locale))
+        .map(track => ({ locale: track.locale, label: track.label?.trim() || track.locale, url: track.url }));
+}
+
+/**
+ * The caption tracks to use for a locale. A translation with its own video has its own captions,
+ * since captions for the main video don't line up with it.
+ */
+export function getCaptionTracksForLocale(
+    lesson: { captions?: LessonCaptionTrack[]; translations?: { [key: string]: LessonTranslation } },
+    locale?: string
+): LessonCaptionTrack[] {
+    const translation = locale && locale !== 'en' ? lesson.translations?.[locale] : undefined;
+    if (translation?.videoUrl) return translation.captions || [];
+    return lesson.captions || [];
+}
@@ -0,0 +1,150 @@
+// src/lib/certificate-data.ts
+import { db } from './firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    addDoc,
+    query,
+    where,
+    serverTimestamp,
+    Timestamp,
+} from 'firebase/firestore';
+import type { IssuedCertificate, CertificateStatus } from '@/types/certificate';
+import type { Course, BrandCourse } from '@/types/course';
+import { getUserById } from './user-data';
+import { getCourseById } from './firestore-data';
+import { getBrandCourseById } from './brand-content-data';
+import { getCompanyById } from './company-data';
+import { getCompletionExpiry } from './recertification';
+
+const CERTIFICATES_COLLECTION = 'certificates';
+const SERIAL_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'; // No 0/O or 1/I, so serials can be read out over the phone
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for certificate op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`Certificate op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+function serializeCertificateData(data: any): any {
+    const serialized = { ...data };
+    if (data.issuedAt instanceof Timestamp) serialized.issuedAt = data.issuedAt.toDate().toISOString();
+    return serialized;
+}
+
+/**
+ * Generates a serial number such as "GR-2026-7K3M-9Q2P".
+ */
+function generateSerialNumber(issuedAt: Date = new Date()): string {
+    const bytes = new Uint8Array(8);
+    crypto.getRandomValues(bytes);
+    const code = Array.from(bytes, byte => SERIAL_ALPHABET[byte % SERIAL_ALPHABET.length]).join('');
+    return `GR-${issuedAt.getFullYear()}-${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * Whether a certificate can still be relied on.
+ */
+export function getCertificateStatus(certificate: Pick<IssuedCertificate, 'expiresAt'>, now: Date = new Date()): CertificateStatus {
+    return certificate.expiresAt && new Date(certificate.expiresAt).getTime() <= now.getTime() ? 'expired' : 'valid';
+}
+
+/**
+ * Fetches a certificate by its verification ID.
+ * @returns The certificate, or null if there is no such certificate.
+ */
+export async function getCertificateById(certificateId: string): Promise<IssuedCertificate | null> {
+    if (!certificateId) return null;
+    return retryOperation(async () => {
+        const docSnap = await getDoc(doc(db, CERTIFICATES_COLLECTION, certificateId));
+        return docSnap.exists() ? { id: docSnap.id, ...serializeCertificateData(docSnap.data()) } as IssuedCertificate : null;
+    });
+}
+
+/**
+ * Fetches the certificates issued to a user, optionally for one course, most recent completion first.
+ */
+export async function getCertificatesForUser(userId: string, courseId?: string): Promise<IssuedCertificate[]> {
+    if (!userId) return [];
+    return retryOperation(async () => {
+        const constraints = [where("userId", "==", userId)];
+        if (courseId) constraints.push(where("courseId", "==", courseId));
+        const snapshot = await getDocs(query(collection(db, CERTIFICATES_COLLECTION), ...constraints));
+        const certificates: IssuedCertificate[] = [];
+        snapshot.forEach((docSnap) => {
+            certificates.push({ id: docSnap.id, ...serializeCertificateData(docSnap.data()) } as IssuedCertificate);
+        });
+        // Sorted in memory to avoid requiring a composite index
+        return certificates.sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
+    });
+}
+
+/**
+ * Returns the certificate for the user's current completion of a course, issuing it on first request.
+ * Each completion gets exactly one certificate, so downloading it again keeps the same serial number;
+ * a recertification is a new completion and gets a new certificate.
+ * @throws If the user has not completed the course.
+ */
+export async function issueCertificate(userId: string, courseId: string): Promise<IssuedCertificate> {
+    const user = await getUserById(userId);
+    if (!user || user.isDeleted) throw new Error("User not found.");
+
+    const progress = user.courseProgress?.[courseId];
+    if (progress?.status !== 'Completed') throw new Error("A certificate is only available once the course is completed.");
+
+    let course: Course | BrandCourse | null = await getCourseById(courseId);
+    const isBrandCourse = !course;
+    if (!course) course = await getBrandCourseById(courseId);
+    if (!course) throw new Error("Course not found.");
+
+    const expiry = getCompletionExpiry(progress, course);
+    const rawCompletedAt = progress.completedAt ?? progress.lastUpdated;
+    const completedAt = expiry?.completedAt
+        ?? (rawCompletedAt instanceof Timestamp ? rawCompletedAt.toDate() : rawCompletedAt ? new Date(rawCompletedAt as string | Date) : new Date());
+
+    const existing = (await getCertificatesForUser(userId, courseId))
+        .find(certificate => new Date(certificate.completedAt).getTime() === completedAt.getTime());
+    if (existing) return existing;
+
+    // Same issuer as the on-screen certificate: the brand that owns the course, otherwise the learner's brand
+    const brandId = isBrandCourse ? (course as BrandCourse).brandId : user.companyId;
+    const brand = brandId ? await getCompanyById(brandId) : null;
+
+    return retryOperation(async () => {
+        const certificateData = {
+            serialNumber: generateSerialNumber(),
+            userId,
+            holderName: user.name,
+            courseId,
+            courseTitle: course.title,
+            brandId: brand?.id ?? null,
+            brandName: brand?.name ?? null,
+            completedAt: completedAt.toISOString(),
+            expiresAt: expiry?.expiresAt.toISOString() ?? null,
+            timeSpentSeconds: progress.timeSpentSeconds ?? 0,
+            issuedAt: serverTimestamp(),
+        };
+        const docRef = await addDoc(collection(db, CERTIFICATES_COLLECTION), certificateData);
+        const newDocSnap = await getDoc(docRef);
+        if (!newDocSnap.exists()) throw new Error("Failed to issue certificate.");
+        return { id: docRef.id, ...serializeCertificateData(newDocSnap.data()) } as IssuedCertificate;
+    });
+}
@@ -0,0 +1,200 @@
+// This is a server-only file. It renders certificates for the /api/certificates route.
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib';
+import QRCode from 'qrcode';
+import type { IssuedCertificate, CertificateTemplate, CertificateTemplateField, CertificateFontFamily } from '@/types/certificate';
+import { CERTIFICATE_PAGE_SIZES, CERTIFICATE_LINE_HEIGHT, isImageField, resolveFieldText, type CertificateMergeValues } from './certificate-template';
+
+const PAGE_WIDTH = 842; // A4 landscape, in points
+const PAGE_HEIGHT = 595;
+const INK = rgb(0.07, 0.07, 0.07);
+const MUTED = rgb(0.42, 0.42, 0.42);
+const ACCENT = rgb(0.72, 0.56, 0.18);
+
+/**
+ * The built-in PDF fonts only cover Latin-1, so accents are stripped where possible
+ * (e.g. "José" stays readable as "Jose") and anything else becomes "?".
+ */
+function toPdfText(text: string): string {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function formatLongDate(iso: string): string {
+    return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function drawCentered(page: PDFPage, text: string, y: number, font: PDFFont, size: number, color = INK, maxWidth = PAGE_WIDTH - 160) {
+    const safeText = toPdfText(text);
+    let fontSize = size;
+    while (fontSize > 10 && font.widthOfTextAtSize(safeText, fontSize) > maxWidth) fontSize -= 1; // Shrink long names and titles to fit
+    const width = font.widthOfTextAtSize(safeText, fontSize);
+    page.drawText(safeText, { x: (PAGE_WIDTH - width) / 2, y, size: fontSize, font, color });
+}
+
+function hexToRgb(hex: string) {
+    const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+    if (!match) return INK;
+    const value = parseInt(match[1], 16);
+    return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+}
+
+/**
+ * Breaks text into lines that fit the width, keeping explicit line breaks.
+ */
+function wrapText(text: string, font: PDFFont, fontSize: number, maxWidth: number): string[] {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(' ').forEach(word => {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && font.widthOfTextAtSize(candidate, fontSize) > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        });
+        lines.push(line);
+    });
+    return lines;
+}
+
+/**
+ * Downloads and embeds a template image. A missing or unsupported image is skipped rather than failing the certificate.
+ */
+async function embedRemoteImage(pdf: PDFDocument, url: string): Promise<PDFImage | null> {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdf.embedPng(bytes);
+        if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdf.embedJpg(bytes);
+        throw new Error("Only PNG and JPEG images can be embedded.");
+    } catch (error: any) {
+        console.warn(`Skipping certificate image ${url}: ${error.message}`);
+        return null;
+    }
+}
+
+async function renderTemplatePage(pdf: PDFDocument, template: CertificateTemplate, values: CertificateMergeValues) {
+    const { width: pageWidth, height: pageHeight } = CERTIFICATE_PAGE_SIZES[template.orientation] || CERTIFICATE_PAGE_SIZES.landscape;
+    const page = pdf.addPage([pageWidth, pageHeight]);
+    const fonts: Record<CertificateFontFamily, [PDFFont, PDFFont]> = {
+        serif: [await pdf.embedFont(StandardFonts.TimesRoman), await pdf.embedFont(StandardFonts.TimesRomanBold)],
+        sans: [await pdf.embedFont(StandardFonts.Helvetica), await pdf.embedFont(StandardFonts.HelveticaBold)],
+        mono: [await pdf.embedFont(StandardFonts.Courier), await pdf.embedFont(StandardFonts.CourierBold)],
+    };
+
+    page.drawRectangle({ x: 0, y: 0, width: pageWidth, height: pageHeight, color: hexToRgb(template.backgroundColor || '#ffffff') });
+    if (template.backgroundImageUrl) {
+        const background = await embedRemoteImage(pdf, template.backgroundImageUrl);
+        if (background) page.drawImage(background, { x: 0, y: 0, width: pageWidth, height: pageHeight });
+    }
+
+    const signature = template.signatureImageUrl && template.fields.some(field => field.key === 'signatureImage')
+        ? await embedRemoteImage(pdf, template.signatureImageUrl)
+        : null;
+    const qrCode = values.verifyUrl && template.fields.some(field => field.key === 'qrCode')
+        ? await pdf.embedPng(await QRCode.toBuffer(values.verifyUrl, { type: 'png', margin: 1, width: 240, errorCorrectionLevel: 'M' }))
+        : null;
+
+    const drawField = (field: CertificateTemplateField) => {
+        // Same box model as CertificateTemplateView: x is the anchor, y the top edge, both in percent
+        const boxWidth = (field.width / 100) * pageWidth;
+        const anchorX = (field.x / 100) * pageWidth;
+        const boxLeft = field.align === 'center' ? anchorX - boxWidth / 2 : field.align === 'right' ? anchorX - boxWidth : anchorX;
+        const boxTop = pageHeight - (field.y / 100) * pageHeight;
+
+        if (isImageField(field)) {
+            const image = field.key === 'qrCode' ? qrCode : signature;
+            if (!image) return;
+            const imageHeight = boxWidth * (image.height / image.width);
+            page.drawImage(image, { x: boxLeft, y: boxTop - imageHeight, width: boxWidth, height: imageHeight });
+            return;
+        }
+
+        const text = toPdfText(resolveFieldText(field, template, values));
+        if (!text) return;
+        const font = fonts[field.fontFamily]?.[field.bold ? 1 : 0] ?? fonts.serif[0];
+        const lineHeight = field.fontSize * CERTIFICATE_LINE_HEIGHT;
+        let baseline = boxTop - (lineHeight - field.fontSize) / 2 - font.heightAtSize(field.fontSize, { descender: false });
+        wrapText(text, font, field.fontSize, boxWidth).forEach(line => {
+            const lineWidth = font.widthOfTextAtSize(line, field.fontSize);
+            const x = field.align === 'center' ? boxLeft + (boxWidth - lineWidth) / 2 : field.align === 'right' ? boxLeft + boxWidth - lineWidth : boxLeft;
+            page.drawText(line, { x, y: baseline, size: field.fontSize, font, color: hexToRgb(field.color) });
+            baseline -= lineHeight;
+        });
+    };
+    template.fields.forEach(drawField);
+}
+
+/**
+ * Renders a one-page certificate with its serial number and a QR code that links to the verification page.
+ * @param certificate - The issued certificate record.
+ * @param verifyUrl - Absolute URL of the certificate's public verification page.
+ * @param template - The course's certificate template. Without one, the built-in layout is used.
+ */
+export async function renderCertificatePdf(certificate: IssuedCertificate, verifyUrl: string, template?: CertificateTemplate | null): Promise<Uint8Array> {
+    const appName = process.env.NEXT_PUBLIC_APP_NAME || 'Gymramp';
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(toPdfText(`${certificate.courseTitle} - Certificate of Completion`));
+    pdf.setAuthor(toPdfText(certificate.brandName || appName));
+    pdf.setSubject(toPdfText(`Certificate ${certificate.serialNumber} issued to ${certificate.holderName}`));
+
+    if (template) {
+        await renderTemplatePage(pdf, template, {
+            learnerName: certificate.holderName,
+            courseTitle: certificate.courseTitle,
+            completedAt: new Date(certificate.completedAt),
+            expiresAt: certificate.expiresAt ? new Date(certificate.expiresAt) : null,
+            timeSpentSeconds: certificate.timeSpentSeconds ?? 0,
+            brandName: certificate.brandName,
+            serialNumber: certificate.serialNumber,
+            verifyUrl,
+        });
+        return pdf.save();
+    }
+
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    const serif = await pdf.embedFont(StandardFonts.TimesRoman);
+    const serifBold = await pdf.embedFont(StandardFonts.TimesRomanBold);
+    const sans = await pdf.embedFont(StandardFonts.Helvetica);
+    const sansBold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+    page.drawRectangle({ x: 20, y: 20, width: PAGE_WIDTH - 40, height: PAGE_HEIGHT - 40, borderColor: INK, borderWidth: 4 });
+    page.drawRectangle({ x: 32, y: 32, width: PAGE_WIDTH - 64, height: PAGE_HEIGHT - 64, borderColor: ACCENT, borderWidth: 1.5 });
+
+    drawCentered(page, (certificate.brandName || appName).toUpperCase(), 510, sansBold, 16);
+    drawCentered(page, 'CERTIFICATE OF COMPLETION', 470, sans, 14, MUTED);
+    drawCentered(page, 'This certificate is proudly presented to', 415, serif, 14);
+    drawCentered(page, certificate.holderName, 365, serifBold, 40);
+    drawCentered(page, 'for successfully completing the course', 325, serif, 14);
+    drawCentered(page, certificate.courseTitle, 285, serifBold, 26, ACCENT);
+    drawCentered(page, `Awarded on ${formatLongDate(certificate.completedAt)}`, 240, serif, 13, MUTED);
+    if (certificate.expiresAt) {
+        drawCentered(page, `Valid until ${formatLongDate(certificate.expiresAt)}`, 220, serif, 13, MUTED);
+    }
+
+    // Issuer, bottom left
+    page.drawLine({ start: { x: 80, y: 120 }, end: { x: 300, y: 120 }, thickness: 0.75, color: MUTED });
+    page.drawText(toPdfText(certificate.brandName || appName), { x: 80, y: 128, size: 13, font: sansBold, color: INK });
+    page.drawText('Issuing Organization', { x: 80, y: 104, size: 10, font: sans, color: MUTED });
+
+    // Verification, bottom right
+    const qrPng = await QRCode.toBuffer(verifyUrl, { type: 'png', margin: 1, width: 240, errorCorrectionLevel: 'M' });
+    const qrImage = await pdf.embedPng(qrPng);
+    const qrSize = 90;
+    const qrX = PAGE_WIDTH - 80 - qrSize;
+    page.drawImage(qrImage, { x: qrX, y: 70, width: qrSize, height: qrSize });
+    const serialText = `Certificate No. ${certificate.serialNumber}`;
+    page.drawText(serialText, { x: qrX - 16 - sansBold.widthOfTextAtSize(serialText, 10), y: 128, size: 10, font: sansBold, color: INK });
+    const verifyText = 'Scan the code or visit the link below to verify';
+    page.drawText(verifyText, { x: qrX - 16 - sans.widthOfTextAtSize(verifyText, 8), y: 112, size: 8, font: sans, color: MUTED });
+    const urlText = toPdfText(verifyUrl);
+    page.drawText(urlText, { x: qrX - 16 - sans.widthOfTextAtSize(urlText, 7), y: 100, size: 7, font: sans, color: MUTED });
+
+    return pdf.save();
+}
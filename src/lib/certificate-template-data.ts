@@ -0,0 +1,151 @@
+// src/lib/certificate-template-data.ts
+import { db } from './firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    addDoc,
+    updateDoc,
+    query,
+    where,
+    serverTimestamp,
+} from 'firebase/firestore';
+import type { CertificateTemplate, CertificateTemplateField, CertificateTemplateFormData } from '@/types/certificate';
+import type { TrashActor } from '@/types/trash';
+
+const CERTIFICATE_TEMPLATES_COLLECTION = 'certificateTemplates';
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for certificate template op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`Certificate template op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+const sanitizeFields = (fields: CertificateTemplateField[] = []): CertificateTemplateField[] =>
+    fields.map(field => ({
+        id: field.id,
+        key: field.key,
+        text: field.key === 'staticText' ? (field.text || '') : null,
+        x: Number(field.x) || 0,
+        y: Number(field.y) || 0,
+        width: Number(field.width) || 10,
+        align: field.align || 'center',
+        fontFamily: field.fontFamily || 'serif',
+        fontSize: Number(field.fontSize) || 12,
+        bold: !!field.bold,
+        color: field.color || '#000000',
+    }));
+
+const sanitizeTemplateData = (templateData: Partial<CertificateTemplateFormData>): Partial<CertificateTemplateFormData> => {
+    const sanitized: Partial<CertificateTemplateFormData> = { ...templateData };
+    if (templateData.backgroundImageUrl !== undefined) sanitized.backgroundImageUrl = templateData.backgroundImageUrl || null;
+    if (templateData.signatoryName !== undefined) sanitized.signatoryName = templateData.signatoryName?.trim() || null;
+    if (templateData.signatoryTitle !== undefined) sanitized.signatoryTitle = templateData.signatoryTitle?.trim() || null;
+    if (templateData.signatureImageUrl !== undefined) sanitized.signatureImageUrl = templateData.signatureImageUrl || null;
+    if (templateData.fields !== undefined) sanitized.fields = sanitizeFields(templateData.fields);
+    return sanitized;
+};
+
+/**
+ * Creates a certificate template.
+ * @param brandId - The owning brand, or null for a platform template available to every course.
+ */
+export async function createCertificateTemplate(brandId: string | null, templateData: CertificateTemplateFormData): Promise<CertificateTemplate | null> {
+    return retryOperation(async () => {
+        const newTemplateDoc = {
+            ...sanitizeTemplateData(templateData),
+            brandId: brandId || null,
+            isDeleted: false,
+            deletedAt: null,
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+        };
+        const docRef = await addDoc(collection(db, CERTIFICATE_TEMPLATES_COLLECTION), newTemplateDoc);
+        const newDocSnap = await getDoc(docRef);
+        return newDocSnap.exists() ? { id: docRef.id, ...newDocSnap.data() } as CertificateTemplate : null;
+    });
+}
+
+export async function getCertificateTemplateById(templateId: string | null | undefined): Promise<CertificateTemplate | null> {
+    if (!templateId) return null;
+    return retryOperation(async () => {
+        const docSnap = await getDoc(doc(db, CERTIFICATE_TEMPLATES_COLLECTION, templateId));
+        if (docSnap.exists() && docSnap.data().isDeleted !== true) {
+            return { id: docSnap.id, ...docSnap.data() } as CertificateTemplate;
+        }
+        return null;
+    });
+}
+
+/**
+ * Fetches the platform templates (brandId null).
+ */
+export async function getPlatformCertificateTemplates(): Promise<CertificateTemplate[]> {
+    return retryOperation(async () => {
+        const q = query(collection(db, CERTIFICATE_TEMPLATES_COLLECTION), where("brandId", "==", null), where("isDeleted", "==", false));
+        const querySnapshot = await getDocs(q);
+        const templates: CertificateTemplate[] = [];
+        querySnapshot.forEach((doc) => {
+            templates.push({ id: doc.id, ...doc.data() } as CertificateTemplate);
+        });
+        return templates.sort((a, b) => a.name.localeCompare(b.name));
+    });
+}
+
+/**
+ * Fetches the templates owned by a brand.
+ */
+export async function getCertificateTemplatesByBrandId(brandId: string): Promise<CertificateTemplate[]> {
+    if (!brandId) return [];
+    return retryOperation(async () => {
+        const q = query(collection(db, CERTIFICATE_TEMPLATES_COLLECTION), where("brandId", "==", brandId), where("isDeleted", "==", false));
+        const querySnapshot = await getDocs(q);
+        const templates: CertificateTemplate[] = [];
+        querySnapshot.forEach((doc) => {
+            templates.push({ id: doc.id, ...doc.data() } as CertificateTemplate);
+        });
+        return templates.sort((a, b) => a.name.localeCompare(b.name));
+    });
+}
+
+export async function updateCertificateTemplate(templateId: string, templateData: Partial<CertificateTemplateFormData>): Promise<CertificateTemplate | null> {
+    if (!templateId) return null;
+    return retryOperation(async () => {
+        const templateRef = doc(db, CERTIFICATE_TEMPLATES_COLLECTION, templateId);
+        const currentDocSnap = await getDoc(templateRef);
+        if (!currentDocSnap.exists() || currentDocSnap.data().isDeleted === true) {
+            throw new Error("Certificate template not found or is soft-deleted for update.");
+        }
+        await updateDoc(templateRef, { ...sanitizeTemplateData(templateData), updatedAt: serverTimestamp() });
+        const updatedDocSnap = await getDoc(templateRef);
+        return updatedDocSnap.exists() ? { id: templateId, ...updatedDocSnap.data() } as CertificateTemplate : null;
+    });
+}
+
+/**
+ * Soft-deletes a template. Courses still pointing at it fall back to the default certificate.
+ */
+export async function deleteCertificateTemplate(templateId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
+    if (!templateId) return false;
+    return retryOperation(async () => {
+        await updateDoc(doc(db, CERTIFICATE_TEMPLATES_COLLECTION, templateId), { isDeleted: true, deletedAt: serverTimestamp(), deletedBy });
+        return true;
+    });
+}
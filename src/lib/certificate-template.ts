@@ -0,0 +1,151 @@
+import type {
+    CertificateTemplate,
+    CertificateTemplateField,
+    CertificateTemplateFormData,
+    CertificateFieldKey,
+    CertificateFontFamily,
+    CertificateOrientation,
+} from '@/types/certificate';
+
+// Page sizes in PDF points (A4). Field font sizes are in the same units.
+export const CERTIFICATE_PAGE_SIZES: Record<CertificateOrientation, { width: number; height: number }> = {
+    landscape: { width: 842, height: 595 },
+    portrait: { width: 595, height: 842 },
+};
+
+export const CERTIFICATE_LINE_HEIGHT = 1.2;
+
+export const CERTIFICATE_FIELD_LABELS: Record<CertificateFieldKey, string> = {
+    learnerName: 'Learner Name',
+    courseTitle: 'Course Title',
+    completionDate: 'Completion Date',
+    expiryDate: 'Valid Until',
+    hours: 'Hours Spent',
+    brandName: 'Brand Name',
+    signatoryName: 'Signatory Name',
+    signatureImage: 'Signature Image',
+    serialNumber: 'Certificate Number',
+    qrCode: 'Verification QR Code',
+    staticText: 'Custom Text',
+};
+
+export const CERTIFICATE_FONT_LABELS: Record<CertificateFontFamily, string> = {
+    serif: 'Serif (Times)',
+    sans: 'Sans-serif (Helvetica)',
+    mono: 'Monospace (Courier)',
+};
+
+// CSS stacks that match the standard PDF fonts, so the preview lines up with the download
+export const CERTIFICATE_FONT_STACKS: Record<CertificateFontFamily, string> = {
+    serif: "'Times New Roman', Times, serif",
+    sans: 'Helvetica, Arial, sans-serif',
+    mono: "'Courier New', Courier, monospace",
+};
+
+export interface CertificateMergeValues {
+    learnerName: string;
+    courseTitle: string;
+    completedAt: Date;
+    expiresAt: Date | null;
+    timeSpentSeconds: number;
+    brandName: string | null;
+    serialNumber: string | null; // Only known once the certificate has been issued
+    verifyUrl: string | null;
+}
+
+export const SAMPLE_MERGE_VALUES: CertificateMergeValues = {
+    learnerName: 'Jordan Rivera',
+    courseTitle: 'Front Desk Fundamentals',
+    completedAt: new Date(2026, 0, 15),
+    expiresAt: new Date(2027, 0, 15),
+    timeSpentSeconds: 9000,
+    brandName: 'Your Brand',
+    serialNumber: 'GR-2026-7K3M-9Q2P',
+    verifyUrl: 'https://example.com/verify/sample',
+};
+
+export function isImageField(field: Pick<CertificateTemplateField, 'key'>): boolean {
+    return field.key === 'signatureImage' || field.key === 'qrCode';
+}
+
+export function formatCertificateDate(date: Date): string {
+    return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Formats time spent for the "hours" merge field, e.g. "2.5 hours". Rounded to the nearest tenth.
+ */
+export function formatCertificateHours(timeSpentSeconds: number): string {
+    const hours = Math.round((timeSpentSeconds / 3600) * 10) / 10;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+/**
+ * The text a field prints for the given learner. Image fields and fields with nothing to show return ''.
+ */
+export function resolveFieldText(
+    field: CertificateTemplateField,
+    template: Pick<CertificateTemplate, 'signatoryName' | 'signatoryTitle'>,
+    values: CertificateMergeValues
+): string {
+    switch (field.key) {
+        case 'learnerName': return values.learnerName;
+        case 'courseTitle': return values.courseTitle;
+        case 'completionDate': return formatCertificateDate(values.completedAt);
+        case 'expiryDate': return values.expiresAt ? `Valid until ${formatCertificateDate(values.expiresAt)}` : '';
+        case 'hours': return formatCertificateHours(values.timeSpentSeconds);
+        case 'brandName': return values.brandName || 'Gymramp';
+        case 'signatoryName': return [template.signatoryName, template.signatoryTitle].filter(Boolean).join(', ');
+        case 'serialNumber': return values.serialNumber ? `Certificate No. ${values.serialNumber}` : '';
+        case 'staticText': return field.text || '';
+        default: return '';
+    }
+}
+
+/**
+ * Creates a field with sensible defaults, placed in the middle of the page.
+ */
+export function createCertificateField(key: CertificateFieldKey, overrides: Partial<CertificateTemplateField> = {}): CertificateTemplateField {
+    return {
+        id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        key,
+        text: key === 'staticText' ? 'Certificate of Completion' : null,
+        x: 50,
+        y: 45,
+        width: isImageField({ key }) ? (key === 'qrCode' ? 11 : 20) : 80,
+        align: 'center',
+        fontFamily: 'serif',
+        fontSize: 18,
+        bold: false,
+        color: '#1f2937',
+        ...overrides,
+    };
+}
+
+/**
+ * Starting point for a new template, laid out like the built-in certificate.
+ */
+export function createDefaultTemplateData(): CertificateTemplateFormData {
+    return {
+        name: '',
+        orientation: 'landscape',
+        backgroundColor: '#ffffff',
+        backgroundImageUrl: null,
+        signatoryName: null,
+        signatoryTitle: null,
+        signatureImageUrl: null,
+        fields: [
+            createCertificateField('brandName', { y: 9, fontFamily: 'sans', fontSize: 16, bold: true }),
+            createCertificateField('staticText', { y: 17, fontFamily: 'sans', fontSize: 14, color: '#6b7280', text: 'CERTIFICATE OF COMPLETION' }),
+            createCertificateField('staticText', { y: 27, fontSize: 14, text: 'This certificate is proudly presented to' }),
+            createCertificateField('learnerName', { y: 33, fontSize: 40, bold: true }),
+            createCertificateField('staticText', { y: 45, fontSize: 14, text: 'for successfully completing the course' }),
+            createCertificateField('courseTitle', { y: 51, fontSize: 26, bold: true, color: '#b78f2e' }),
+            createCertificateField('completionDate', { y: 61, fontSize: 13, color: '#6b7280' }),
+            createCertificateField('signatureImage', { x: 23, y: 70, width: 20 }),
+            createCertificateField('signatoryName', { x: 23, y: 82, width: 30, fontFamily: 'sans', fontSize: 12, bold: true }),
+            createCertificateField('qrCode', { x: 84, y: 70, width: 11 }),
+            createCertificateField('serialNumber', { x: 72, y: 82, width: 30, align: 'right', fontFamily: 'sans', fontSize: 9, color: '#6b7280' }),
+        ],
+    };
+}
@@ -21,6 +21,7 @@ import {
     getCountFromServer
 } from 'firebase/firestore';
 import type { Company, Location, CompanyFormData, LocationFormData, User } from '@/types/user';
+import type { TrashActor, TrashCascade } from '@/types/trash';
 import { getUsersWithoutCompany, deleteUser as softDeleteUser } from './user-data'; // Assuming this is for soft-deleting users
 
 const COMPANIES_COLLECTION = 'companies';
@@ -335,6 +336,7 @@ export async function updateCompany(companyId: string, companyData: Partial<Comp
         if (companyData.brandBackgroundColor !== undefined) dataToUpdate.brandBackgroundColor = companyData.brandBackgroundColor?.trim() || null;
         if (companyData.brandForegroundColor !== undefined) dataToUpdate.brandForegroundColor = companyData.brandForegroundColor?.trim() || null;
         if (companyData.canManageCourses !== undefined) dataToUpdate.canManageCourses = companyData.canManageCourses;
+        if (companyData.requiresCourseApproval !== undefined) dataToUpdate.requiresCourseApproval = companyData.requiresCourseApproval;
         if (companyData.stripeCustomerId !== undefined) dataToUpdate.stripeCustomerId = companyData.stripeCustomerId || null;
         if (companyData.stripeSubscriptionId !== undefined) dataToUpdate.stripeSubscriptionId = companyData.stripeSubscriptionId || null;
         if (companyData.parentBrandId !== undefined) dataToUpdate.parentBrandId = companyData.parentBrandId || null;
@@ -381,29 +383,41 @@ export async function updateCompany(companyId: string, companyData: Partial<Comp
     });
 }
 
-export async function deleteCompany(companyId: string): Promise<boolean> {
+/**
+ * Soft-deletes a brand with its locations and users. They are marked as deleted with the brand,
+ * so restoring the brand from the trash brings them back.
+ */
+export async function deleteCompany(companyId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
      if (!companyId) {
          console.warn("deleteCompany (soft delete) called with empty ID.");
          return false;
      }
     return retryOperation(async () => {
         const batch = writeBatch(db);
+        const deletedWith: TrashCascade = { type: 'company', id: companyId };
 
         const companyRef = doc(db, COMPANIES_COLLECTION, companyId);
-        batch.update(companyRef, { isDeleted: true, deletedAt: serverTimestamp() });
+        batch.update(companyRef, { isDeleted: true, deletedAt: serverTimestamp(), deletedBy });
 
         const locationsRef = collection(db, LOCATIONS_COLLECTION);
         const locationsQuery = query(locationsRef, where("companyId", "==", companyId), where("isDeleted", "==", false));
         const locationsSnapshot = await getDocs(locationsQuery);
         locationsSnapshot.forEach((locationDoc) => {
-            batch.update(locationDoc.ref, { isDeleted: true, deletedAt: serverTimestamp() });
+            batch.update(locationDoc.ref, { isDeleted: true, deletedAt: serverTimestamp(), deletedBy, deletedWith });
         });
 
         const usersRef = collection(db, 'users');
         const usersQuery = query(usersRef, where("companyId", "==", companyId), where("isDeleted", "==", false));
         const usersSnapshot = await getDocs(usersQuery);
         usersSnapshot.forEach((userDoc) => {
-             batch.update(userDoc.ref, { isDeleted: true, deletedAt: serverTimestamp(), isActive: false });
+             batch.update(userDoc.ref, {
+                 isDeleted: true,
+                 deletedAt: serverTimestamp(),
+                 deletedBy,
+                 deletedWith,
+                 activeBeforeDelete: userDoc.data().isActive !== false,
+                 isActive: false,
+             });
         });
 
         await batch.commit();
@@ -504,7 +518,11 @@ export async function updateLocation(locationId: string, locationData: Partial<L
     });
 }
 
-export async function deleteLocation(locationId: string): Promise<boolean> {
+/**
+ * Soft-deletes a location and unassigns it from its users. The users are remembered on the location
+ * so restoring it from the trash assigns them again.
+ */
+export async function deleteLocation(locationId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
      if (!locationId) {
          console.warn("deleteLocation (soft delete) called with empty ID.");
          return false;
@@ -513,7 +531,6 @@ export async function deleteLocation(locationId: string): Promise<boolean> {
         const batch = writeBatch(db);
 
         const locationRef = doc(db, LOCATIONS_COLLECTION, locationId);
-        batch.update(locationRef, { isDeleted: true, deletedAt: serverTimestamp() });
 
         const usersRef = collection(db, 'users');
         const usersQuery = query(
@@ -528,6 +545,12 @@ export async function deleteLocation(locationId: string): Promise<boolean> {
             const updatedLocations = (userData.assignedLocationIds || []).filter((id: string) => id !== locationId);
             batch.update(userDoc.ref, { assignedLocationIds: updatedLocations, updatedAt: serverTimestamp() });
         });
+        batch.update(locationRef, {
+            isDeleted: true,
+            deletedAt: serverTimestamp(),
+            deletedBy,
+            removedFromUserIds: usersSnapshot.docs.map(userDoc => userDoc.id),
+        });
 
         await batch.commit();
         return true;
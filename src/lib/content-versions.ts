@@ -0,0 +1,510 @@
+// src/lib/content-versions.ts
+import { db } from './firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    updateDoc,
+    query,
+    orderBy,
+    runTransaction,
+    serverTimestamp,
+    deleteField,
+    Timestamp,
+    type DocumentData,
+    type DocumentReference,
+    type Transaction,
+} from 'firebase/firestore';
+import type { ContentChange, ContentPublishingState, ContentSnapshot, ContentVersion, ContentVersionAuthor, CurriculumModule, Question, VersionedContent, VersionedItemType } from '@/types/course';
+import { collectVideoAssetIds } from './video-assets';
+import { getCourseModules } from './curriculum-modules';
+
+const VERSIONS_SUBCOLLECTION = 'versions';
+
+export const VERSIONED_COLLECTIONS: Record<VersionedItemType, string> = {
+    course: 'courses',
+    lesson: 'lessons',
+    quiz: 'quizzes',
+    brandCourse: 'brandCourses',
+    brandLesson: 'brandLessons',
+    brandQuiz: 'brandQuizzes',
+};
+
+const COURSE_FIELDS = ['title', 'description', 'longDescription', 'imageUrl', 'featuredImageUrl', 'level', 'duration', 'category', 'certificateTemplateId', 'validityMonths', 'translations'];
+const LESSON_FIELDS = ['title', 'content', 'videoUrl', 'featuredImageUrl', 'exerciseFilesInfo', 'isPreviewAvailable', 'playbackTime', 'timedEvents', 'captions', 'videoAsset', 'lessonType', 'scormPackage', 'translations'];
+const QUIZ_FIELDS = ['title', 'settings', 'questions', 'translations'];
+
+// The fields that make up a draft and a version. Curriculum structure, drip rules and bookkeeping fields are not versioned.
+export const VERSIONED_FIELDS: Record<VersionedItemType, string[]> = {
+    course: COURSE_FIELDS,
+    lesson: LESSON_FIELDS,
+    quiz: QUIZ_FIELDS,
+    brandCourse: COURSE_FIELDS,
+    brandLesson: LESSON_FIELDS,
+    brandQuiz: QUIZ_FIELDS,
+};
+
+// Under course approval a brand course's curriculum is held in its draft until a reviewer approves it.
+// It goes live with the approved content but is not part of a version, so rollbacks leave it alone.
+export const CURRICULUM_FIELDS = ['modules', 'curriculum'];
+
+const BRAND_ITEM_TYPES: VersionedItemType[] = ['brandCourse', 'brandLesson', 'brandQuiz'];
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for content version op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`Content version op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+const isLessonType = (itemType: VersionedItemType) => itemType === 'lesson' || itemType === 'brandLesson';
+
+const hasCurriculum = (snapshot: ContentSnapshot | null | undefined): boolean => !!snapshot && CURRICULUM_FIELDS.some(field => snapshot[field] !== undefined);
+
+const liveCurriculum = (data: DocumentData): ContentSnapshot => ({ modules: getCourseModules(data), curriculum: data.curriculum || [] });
+
+const toIsoString = (value: unknown): string | null => {
+    if (value instanceof Timestamp) return value.toDate().toISOString();
+    return typeof value === 'string' ? value : null;
+};
+
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
+
+export const isSameContent = (a: unknown, b: unknown): boolean => stableStringify(a) === stableStringify(b);
+
+// The published version number of an item. Items created before versioning, or never republished, are version 1.
+export const getPublishedVersion = (item: VersionedContent | null | undefined): number => item?.publishedVersion || 1;
+
+/**
+ * Picks the versioned fields out of a stored item.
+ * @param itemType - Decides which fields are versioned.
+ * @param data - A course, lesson or quiz document (or a snapshot).
+ */
+export function pickContent(itemType: VersionedItemType, data: DocumentData): ContentSnapshot {
+    const content: ContentSnapshot = {};
+    for (const field of VERSIONED_FIELDS[itemType]) {
+        if (data[field] !== undefined) content[field] = data[field];
+    }
+    return content;
+}
+
+// The content authors are editing: the draft if there is one, otherwise the published content
+export const getDraftContent = (itemType: VersionedItemType, data: DocumentData): ContentSnapshot =>
+    (data.draft ? { ...pickContent(itemType, data), ...data.draft } : pickContent(itemType, data));
+
+/**
+ * The published content to compare a draft with. When the draft holds a curriculum, the live curriculum is included.
+ * @param draft - The draft being compared. Defaults to the item's own draft.
+ */
+export const getPublishedContent = (itemType: VersionedItemType, data: DocumentData, draft: ContentSnapshot | null | undefined = data.draft): ContentSnapshot =>
+    (hasCurriculum(draft) ? { ...pickContent(itemType, data), ...liveCurriculum(data) } : pickContent(itemType, data));
+
+/**
+ * The item as its authors see it, with any unpublished edits laid over the published fields.
+ * Learner-facing code uses the item as stored.
+ */
+export function withDraft<T extends VersionedContent>(item: T): T;
+export function withDraft<T extends VersionedContent>(item: T | null): T | null;
+export function withDraft<T extends VersionedContent>(item: T | null): T | null {
+    return item?.draft ? { ...item, ...item.draft } : item;
+}
+
+const videoAssetIdsFor = (published: ContentSnapshot, draft: ContentSnapshot | null | undefined): string[] =>
+    Array.from(new Set([...collectVideoAssetIds(published), ...(draft ? collectVideoAssetIds(draft) : [])]));
+
+/**
+ * Builds the update that saves edits into an item's draft, leaving the published fields untouched.
+ * The draft is cleared when the edits bring it back to the published content.
+ * @param itemType - The kind of item being edited.
+ * @param data - The item document as currently stored.
+ * @param changes - Sanitized values for the edited fields. Fields that are not versioned are ignored.
+ */
+export function buildDraftUpdate(itemType: VersionedItemType, data: DocumentData, changes: Record<string, any>): Record<string, any> {
+    return draftUpdateFor(itemType, data, { ...getDraftContent(itemType, data), ...pickContent(itemType, changes) });
+}
+
+/**
+ * Builds the update that holds a brand course's curriculum in its draft, for brands under course approval.
+ * @param data - The course document as currently stored.
+ * @param modules - The sanitized modules. The flat curriculum is saved alongside them.
+ * @param curriculum - The curriculum item IDs in module order.
+ */
+export function buildCurriculumDraftUpdate(data: DocumentData, modules: CurriculumModule[], curriculum: string[]): Record<string, any> {
+    return draftUpdateFor('brandCourse', data, { ...getDraftContent('brandCourse', data), modules, curriculum });
+}
+
+function draftUpdateFor(itemType: VersionedItemType, data: DocumentData, draft: ContentSnapshot): Record<string, any> {
+    const published = getPublishedContent(itemType, data, draft);
+    const hasChanges = !isSameContent(draft, published);
+    const update: Record<string, any> = {
+        draft: hasChanges ? draft : null,
+        draftUpdatedAt: hasChanges ? serverTimestamp() : null,
+        updatedAt: serverTimestamp(),
+    };
+    // Keeps video processing able to find assets that are only used by the draft so far
+    if (isLessonType(itemType)) update.videoAssetIds = videoAssetIdsFor(published, hasChanges ? draft : null);
+    return update;
+}
+
+const itemRefFor = (itemType: VersionedItemType, itemId: string) => doc(db, VERSIONED_COLLECTIONS[itemType], itemId);
+const versionRefFor = (itemRef: DocumentReference, version: number) => doc(itemRef, VERSIONS_SUBCOLLECTION, String(version));
+
+const toContentVersion = (id: string, data: DocumentData): ContentVersion => ({
+    id,
+    version: data.version,
+    content: data.content || {},
+    publishedAt: toIsoString(data.publishedAt),
+    publishedBy: data.publishedBy ?? null,
+    note: data.note ?? null,
+    restoredFromVersion: data.restoredFromVersion ?? null,
+});
+
+// The published content of an item as a version, for items whose current version has not been stored yet
+const currentContentVersion = (itemType: VersionedItemType, data: DocumentData): ContentVersion => toContentVersion(String(getPublishedVersion(data)), {
+    version: getPublishedVersion(data),
+    content: pickContent(itemType, data),
+    publishedAt: data.publishedAt ?? data.createdAt ?? null,
+    publishedBy: data.publishedBy ?? null,
+});
+
+// Brands under course approval publish through reviews only (see src/lib/course-review-data.ts)
+async function assertPublishableWithoutReview(transaction: Transaction, itemType: VersionedItemType, data: DocumentData): Promise<void> {
+    if (!BRAND_ITEM_TYPES.includes(itemType) || !data.brandId) return;
+    const brandSnap = await transaction.get(doc(db, 'companies', data.brandId));
+    if (brandSnap.exists() && brandSnap.data().requiresCourseApproval === true) {
+        throw new Error("Your brand's changes reach learners once a reviewer approves them. Submit the course for review instead.");
+    }
+}
+
+/**
+ * Makes `content` the published content of an item as the next version. The version being replaced is
+ * stored first if it never was (content as first created), so every published version can be rolled back to.
+ * Must run before any other writes of the transaction, as it reads.
+ */
+async function publishContent(
+    transaction: Transaction,
+    itemType: VersionedItemType,
+    itemRef: DocumentReference,
+    data: DocumentData,
+    content: ContentSnapshot,
+    publishedBy: ContentVersionAuthor | null,
+    note: string | null,
+    restoredFromVersion: number | null,
+    keepDraft: boolean,
+): Promise<ContentVersion> {
+    const currentVersion = getPublishedVersion(data);
+    const currentVersionRef = versionRefFor(itemRef, currentVersion);
+    const currentVersionSnap = await transaction.get(currentVersionRef);
+    if (!currentVersionSnap.exists()) {
+        transaction.set(currentVersionRef, {
+            version: currentVersion,
+            content: pickContent(itemType, data),
+            publishedAt: data.publishedAt ?? data.createdAt ?? null,
+            publishedBy: data.publishedBy ?? null,
+            note: null,
+            restoredFromVersion: null,
+        });
+    }
+
+    const version = currentVersion + 1;
+    const versionData = { version, content: pickContent(itemType, content), publishedBy, note, restoredFromVersion };
+    transaction.set(versionRefFor(itemRef, version), { ...versionData, publishedAt: serverTimestamp() });
+
+    const itemUpdate: Record<string, any> = {
+        publishedVersion: version,
+        publishedAt: serverTimestamp(),
+        publishedBy,
+        updatedAt: serverTimestamp(),
+    };
+    for (const field of VERSIONED_FIELDS[itemType]) {
+        // Fields the version does not have are removed rather than left at their current value
+        itemUpdate[field] = content[field] !== undefined ? content[field] : deleteField();
+    }
+    if (hasCurriculum(content)) {
+        itemUpdate.modules = content.modules;
+        itemUpdate.curriculum = content.curriculum;
+        // Drip rules of items that left the curriculum are dropped
+        const curriculum: string[] = content.curriculum || [];
+        itemUpdate.curriculumAvailability = Object.fromEntries(Object.entries(data.curriculumAvailability || {}).filter(([itemId]) => curriculum.includes(itemId)));
+    }
+    if (!keepDraft) {
+        itemUpdate.draft = null;
+        itemUpdate.draftUpdatedAt = null;
+    }
+    if (isLessonType(itemType)) itemUpdate.videoAssetIds = videoAssetIdsFor(content, keepDraft ? data.draft : null);
+    transaction.update(itemRef, itemUpdate);
+
+    return { id: String(version), ...versionData, publishedAt: new Date().toISOString() };
+}
+
+/**
+ * Publishes an item's draft as a new version. Learners see the new content from their next visit;
+ * quiz attempts already in progress stay on the version they started.
+ * @param itemType - The kind of item.
+ * @param itemId - The item's ID.
+ * @param publishedBy - The author publishing the draft.
+ * @param note - Optional description of the changes.
+ * @returns The new version, or null if there was no draft to publish.
+ */
+export async function publishDraft(itemType: VersionedItemType, itemId: string, publishedBy: ContentVersionAuthor | null, note?: string | null): Promise<ContentVersion | null> {
+    if (!itemId) return null;
+    return retryOperation(() => runTransaction(db, async (transaction) => {
+        const itemRef = itemRefFor(itemType, itemId);
+        const itemSnap = await transaction.get(itemRef);
+        if (!itemSnap.exists() || itemSnap.data().isDeleted === true) {
+            throw new Error("Item not found or is soft-deleted.");
+        }
+        const data = itemSnap.data();
+        if (!data.draft) return null;
+        await assertPublishableWithoutReview(transaction, itemType, data);
+        return publishContent(transaction, itemType, itemRef, data, getDraftContent(itemType, data), publishedBy, note?.trim() || null, null, false);
+    }));
+}
+
+/**
+ * Publishes content that was approved in a review as a new version, along with its curriculum if it holds one.
+ * The draft is cleared unless it was edited after the content was submitted, so later work is not lost.
+ * @returns The new version, or null if the content is already what is published.
+ */
+export async function publishReviewedContent(itemType: VersionedItemType, itemId: string, content: ContentSnapshot, publishedBy: ContentVersionAuthor | null, note?: string | null): Promise<ContentVersion | null> {
+    if (!itemId) return null;
+    return retryOperation(() => runTransaction(db, async (transaction) => {
+        const itemRef = itemRefFor(itemType, itemId);
+        const itemSnap = await transaction.get(itemRef);
+        if (!itemSnap.exists() || itemSnap.data().isDeleted === true) {
+            throw new Error("Item not found or is soft-deleted.");
+        }
+        const data = itemSnap.data();
+        if (isSameContent(content, getPublishedContent(itemType, data, content))) return null;
+        const keepDraft = !!data.draft && !isSameContent(getDraftContent(itemType, data), content);
+        return publishContent(transaction, itemType, itemRef, data, content, publishedBy, note?.trim() || null, null, keepDraft);
+    }));
+}
+
+/**
+ * Rolls an item back by publishing the content of an earlier version as a new version.
+ * Any unpublished draft is kept, so work in progress is not lost.
+ * @returns The new version.
+ */
+export async function rollbackToVersion(itemType: VersionedItemType, itemId: string, version: number, publishedBy: ContentVersionAuthor | null): Promise<ContentVersion> {
+    return retryOperation(() => runTransaction(db, async (transaction) => {
+        const itemRef = itemRefFor(itemType, itemId);
+        const itemSnap = await transaction.get(itemRef);
+        if (!itemSnap.exists() || itemSnap.data().isDeleted === true) {
+            throw new Error("Item not found or is soft-deleted.");
+        }
+        const data = itemSnap.data();
+        if (version === getPublishedVersion(data)) {
+            throw new Error(`Version ${version} is already published.`);
+        }
+        await assertPublishableWithoutReview(transaction, itemType, data);
+        const versionSnap = await transaction.get(versionRefFor(itemRef, version));
+        if (!versionSnap.exists()) {
+            throw new Error(`Version ${version} not found.`);
+        }
+        return publishContent(transaction, itemType, itemRef, data, versionSnap.data().content || {}, publishedBy, `Rolled back to version ${version}`, version, true);
+    }));
+}
+
+// Throws away an item's unpublished edits
+export async function discardDraft(itemType: VersionedItemType, itemId: string): Promise<boolean> {
+    if (!itemId) return false;
+    return retryOperation(async () => {
+        const itemRef = itemRefFor(itemType, itemId);
+        const itemSnap = await getDoc(itemRef);
+        if (!itemSnap.exists() || itemSnap.data().isDeleted === true) return false;
+        const update: Record<string, any> = { draft: null, draftUpdatedAt: null, updatedAt: serverTimestamp() };
+        if (isLessonType(itemType)) update.videoAssetIds = videoAssetIdsFor(pickContent(itemType, itemSnap.data()), null);
+        await updateDoc(itemRef, update);
+        return true;
+    });
+}
+
+// Reads an item's published content and draft, or null if the item does not exist
+export async function getPublishingState(itemType: VersionedItemType, itemId: string): Promise<ContentPublishingState | null> {
+    if (!itemId) return null;
+    return retryOperation(async () => {
+        const itemSnap = await getDoc(itemRefFor(itemType, itemId));
+        if (!itemSnap.exists() || itemSnap.data().isDeleted === true) return null;
+        const data = itemSnap.data();
+        return {
+            publishedVersion: getPublishedVersion(data),
+            published: getPublishedContent(itemType, data),
+            draft: data.draft ? getDraftContent(itemType, data) : null,
+            draftUpdatedAt: toIsoString(data.draftUpdatedAt),
+        };
+    });
+}
+
+/**
+ * Lists an item's published versions, newest first. The current version is included even if it has not been stored yet.
+ */
+export async function getContentVersions(itemType: VersionedItemType, itemId: string): Promise<ContentVersion[]> {
+    if (!itemId) return [];
+    return retryOperation(async () => {
+        const itemRef = itemRefFor(itemType, itemId);
+        const itemSnap = await getDoc(itemRef);
+        if (!itemSnap.exists()) return [];
+        const snapshot = await getDocs(query(collection(itemRef, VERSIONS_SUBCOLLECTION), orderBy('version', 'desc')));
+        const versions = snapshot.docs.map(versionDoc => toContentVersion(versionDoc.id, versionDoc.data()));
+        const currentVersion = getPublishedVersion(itemSnap.data());
+        if (!versions.some(version => version.version === currentVersion)) {
+            versions.unshift(currentContentVersion(itemType, itemSnap.data()));
+        }
+        return versions;
+    });
+}
+
+// Fetches one published version of an item, or null if it does not exist
+export async function getContentVersion(itemType: VersionedItemType, itemId: string, version: number): Promise<ContentVersion | null> {
+    if (!itemId || !version) return null;
+    return retryOperation(async () => {
+        const itemRef = itemRefFor(itemType, itemId);
+        const versionSnap = await getDoc(versionRefFor(itemRef, version));
+        if (versionSnap.exists()) return toContentVersion(versionSnap.id, versionSnap.data());
+        const itemSnap = await getDoc(itemRef);
+        return itemSnap.exists() && getPublishedVersion(itemSnap.data()) === version ? currentContentVersion(itemType, itemSnap.data()) : null;
+    });
+}
+
+// --- Diffs ---
+
+const FIELD_LABELS: Record<string, string> = {
+    imageUrl: 'Image',
+    featuredImageUrl: 'Featured Image',
+    certificateTemplateId: 'Certificate Template',
+    validityMonths: 'Validity (Months)',
+    videoUrl: 'Video URL',
+    exerciseFilesInfo: 'Exercise Files',
+    isPreviewAvailable: 'Preview Available',
+    timedEvents: 'Video Checkpoints',
+    videoAsset: 'Uploaded Video',
+    scormPackage: 'SCORM Package',
+    settings: 'Quiz Settings',
+};
+
+const fieldLabel = (field: string) => FIELD_LABELS[field] ?? field.replace(/([A-Z])/g, ' $1').replace(/^./, first => first.toUpperCase());
+
+const isEmptyValue = (value: unknown) => value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+function formatValue(value: unknown): string | null {
+    if (isEmptyValue(value)) return null;
+    if (typeof value === 'string') return value;
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'number') return String(value);
+    return JSON.stringify(value, null, 2);
+}
+
+function formatQuestion(question: Question): string {
+    const lines = [question.text, `Type: ${question.type}`];
+    if (question.options?.length) lines.push(`Options: ${question.options.join(' | ')}`);
+    if (question.matchingPairs?.length) lines.push(`Pairs: ${question.matchingPairs.map(pair => `${pair.prompt} → ${pair.match}`).join(' | ')}`);
+    const answer = question.correctAnswers?.length ? question.correctAnswers.join(', ') : question.acceptedAnswers?.length ? question.acceptedAnswers.join(', ') : question.correctAnswer;
+    if (answer) lines.push(`Answer: ${answer}`);
+    if (question.tag) lines.push(`Tag: ${question.tag}`);
+    return lines.join('\n');
+}
+
+const toChange = (label: string, before: unknown, after: unknown): ContentChange => ({
+    label,
+    kind: isEmptyValue(before) ? 'added' : isEmptyValue(after) ? 'removed' : 'changed',
+    before: formatValue(before),
+    after: formatValue(after),
+});
+
+function diffFields(before: Record<string, any>, after: Record<string, any>, label: (field: string) => string): ContentChange[] {
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return fields
+        .filter(field => !(isEmptyValue(before[field]) && isEmptyValue(after[field])) && !isSameContent(before[field], after[field]))
+        .map(field => toChange(label(field), before[field], after[field]));
+}
+
+function formatCurriculum(modules: CurriculumModule[], itemTitles: Record<string, string>): string {
+    return modules.map(module => [module.title, ...module.itemIds.map((itemId, index) => `  ${index + 1}. ${itemTitles[itemId] ?? itemId}`)].join('\n')).join('\n');
+}
+
+function diffQuestions(before: Question[], after: Question[]): ContentChange[] {
+    const changes: ContentChange[] = [];
+    const beforeById = new Map(before.map(question => [question.id, question]));
+    const afterIds = new Set(after.map(question => question.id));
+
+    after.forEach((question, index) => {
+        const previous = beforeById.get(question.id);
+        if (!previous) {
+            changes.push({ label: `Question ${index + 1}`, kind: 'added', before: null, after: formatQuestion(question) });
+        } else if (!isSameContent(previous, question)) {
+            // Falls back to the full question when only fields not in the summary (e.g. translations) changed
+            const summaryChanged = formatQuestion(previous) !== formatQuestion(question);
+            changes.push({
+                label: `Question ${index + 1}`,
+                kind: 'changed',
+                before: summaryChanged ? formatQuestion(previous) : formatValue(previous),
+                after: summaryChanged ? formatQuestion(question) : formatValue(question),
+            });
+        }
+    });
+    before.forEach((question, index) => {
+        if (!afterIds.has(question.id)) {
+            changes.push({ label: `Question ${index + 1} (earlier version)`, kind: 'removed', before: formatQuestion(question), after: null });
+        }
+    });
+
+    const keptBefore = before.filter(question => afterIds.has(question.id));
+    const keptAfter = after.filter(question => beforeById.has(question.id));
+    if (keptBefore.map(question => question.id).join() !== keptAfter.map(question => question.id).join()) {
+        const listTexts = (questions: Question[]) => questions.map((question, index) => `${index + 1}. ${question.text}`).join('\n');
+        changes.push({ label: 'Question Order', kind: 'changed', before: listTexts(keptBefore), after: listTexts(keptAfter) });
+    }
+    return changes;
+}
+
+/**
+ * Lists what changed between two snapshots of the same item, field by field.
+ * Questions are compared by ID, and translations and quiz settings field by field.
+ * @param before - The earlier snapshot, or null when comparing against nothing.
+ * @param after - The later snapshot.
+ * @param itemTitles - Titles of curriculum items by ID, for snapshots that hold a curriculum.
+ */
+export function diffContent(before: ContentSnapshot | null, after: ContentSnapshot, itemTitles: Record<string, string> = {}): ContentChange[] {
+    const earlier = before || {};
+    const fields = Array.from(new Set([...Object.keys(earlier), ...Object.keys(after)]));
+    return fields.flatMap((field): ContentChange[] => {
+        const previous = earlier[field];
+        const current = after[field];
+        if ((isEmptyValue(previous) && isEmptyValue(current)) || isSameContent(previous, current)) return [];
+        if (field === 'questions') return diffQuestions(previous || [], current || []);
+        if (field === 'curriculum') return []; // Follows the modules
+        if (field === 'modules') return [toChange('Curriculum', formatCurriculum(previous || [], itemTitles), formatCurriculum(current || [], itemTitles))];
+        if (field === 'settings') return diffFields(previous || {}, current || {}, fieldLabel);
+        if (field === 'translations') {
+            const locales = Array.from(new Set([...Object.keys(previous || {}), ...Object.keys(current || {})]));
+            return locales.flatMap(locale => diffFields(previous?.[locale] || {}, current?.[locale] || {}, key => `${fieldLabel(key)} (${locale})`));
+        }
+        return [toChange(fieldLabel(field), previous, current)];
+    });
+}
@@ -0,0 +1,706 @@
+// Course packages: a course with its lessons, quizzes, questions, translations and media in one zip,
+// for moving content between environments (e.g. staging to production) and between libraries.
+// The zip holds course.json (the manifest) and the media files it refers to. Everything runs in the
+// browser with the signed-in admin's access, like question import and SCORM uploads.
+
+import { getBytes, ref } from 'firebase/storage';
+import { storage } from './firebase';
+import { createZip, readZip } from './zip';
+import { STORAGE_PATHS, listStorageFiles, uploadFileData, uploadFileDataWithUrl } from './storage';
+import { getScormFileContentType } from './scorm';
+import { getCourseModules } from './curriculum-modules';
+import { createVideoAsset, newVideoAssetId } from './video-asset-data';
+import { toLessonVideoAsset } from './video-assets';
+import { getCertificateTemplateById } from './certificate-template-data';
+import {
+    addCourse,
+    addQuestionsToQuiz,
+    createLesson,
+    createQuiz,
+    getAllCourses,
+    getAllLessons,
+    getAllQuizzes,
+    getCourseById,
+    getLessonById,
+    getQuizById,
+    updateCourseCurriculumAvailability,
+    updateCourseModules,
+} from './firestore-data';
+import {
+    addBrandQuestionsToBrandQuiz,
+    createBrandCourse,
+    createBrandLesson,
+    createBrandQuiz,
+    getBrandCourseById,
+    getBrandCoursesByBrandId,
+    getBrandLessonById,
+    getBrandLessonsByBrandId,
+    getBrandQuizById,
+    getBrandQuizzesByBrandId,
+    updateBrandCourseCurriculumAvailability,
+    updateBrandCourseModules,
+} from './brand-content-data';
+import { publishDraft } from './content-versions';
+import { startVideoProcessingAction } from '@/actions/video';
+import type {
+    Course,
+    CourseFormData,
+    CourseLibrary,
+    CoursePackageConflict,
+    CoursePackageImportOptions,
+    CoursePackageImportReport,
+    CoursePackageManifest,
+    CoursePackageMedia,
+    CoursePackageMediaKind,
+    CoursePackageScormFiles,
+    CurriculumAvailability,
+    CurriculumModule,
+    Lesson,
+    LessonFormData,
+    LessonTimedEvent,
+    LessonTranslation,
+    PackagedLesson,
+    PackagedQuiz,
+    Quiz,
+    QuizFormData,
+    QuestionFormData,
+} from '@/types/course';
+import type { LessonVideoAsset } from '@/types/video';
+
+export const COURSE_PACKAGE_FORMAT = 'gymramp-course-package';
+export const COURSE_PACKAGE_VERSION = 1;
+
+const MANIFEST_FILE = 'course.json';
+const TRANSFER_CONCURRENCY = 4;
+const IMPORT_VERSION_NOTE = 'Imported from a course package';
+
+const MEDIA_FOLDERS: Record<CoursePackageMediaKind, string> = {
+    courseImage: STORAGE_PATHS.COURSE_IMAGES,
+    lessonImage: STORAGE_PATHS.LESSON_IMAGES,
+    questionImage: STORAGE_PATHS.QUIZ_OPTION_IMAGES,
+    caption: STORAGE_PATHS.LESSON_CAPTIONS,
+    video: STORAGE_PATHS.LESSON_VIDEOS,
+};
+
+// A package in memory: the manifest and the files it refers to, keyed by path within the zip
+export interface CoursePackage {
+    manifest: CoursePackageManifest;
+    files: Map<string, Uint8Array>;
+}
+
+export interface CoursePackageExportOptions {
+    includeMedia: boolean; // Copy images, captions and SCORM files into the package; otherwise they stay linked
+    includeVideos: boolean; // Also copy uploaded lesson videos, which can make the package very large
+}
+
+export type CoursePackageProgress = (message: string, percent: number) => void;
+
+// --- Libraries ---
+
+interface LibraryItem {
+    id: string;
+    title: string;
+}
+
+// The same operations on the global library or a brand's library
+interface LibraryContent {
+    getCourse: (courseId: string) => Promise<(Course & { brandId?: string }) | null>;
+    getLesson: (lessonId: string) => Promise<(Lesson & { brandId?: string }) | null>;
+    getQuiz: (quizId: string) => Promise<(Quiz & { brandId?: string }) | null>;
+    listCourses: () => Promise<LibraryItem[]>;
+    listLessons: () => Promise<LibraryItem[]>;
+    listQuizzes: () => Promise<LibraryItem[]>;
+    createCourse: (data: CourseFormData) => Promise<LibraryItem | null>;
+    createLesson: (data: LessonFormData) => Promise<LibraryItem | null>;
+    createQuiz: (data: QuizFormData) => Promise<LibraryItem | null>;
+    addQuestions: (quizId: string, questions: QuestionFormData[]) => Promise<unknown>;
+    publishQuiz: (quizId: string) => Promise<unknown>; // Questions are added to the quiz's draft
+    updateModules: (courseId: string, modules: CurriculumModule[]) => Promise<boolean>;
+    updateAvailability: (courseId: string, itemId: string, availability: CurriculumAvailability | null) => Promise<boolean>;
+}
+
+function getLibraryContent(library: CourseLibrary): LibraryContent {
+    if (library.type === 'global') {
+        return {
+            getCourse: getCourseById,
+            getLesson: lessonId => getLessonById(lessonId),
+            getQuiz: quizId => getQuizById(quizId),
+            listCourses: getAllCourses,
+            listLessons: getAllLessons,
+            listQuizzes: getAllQuizzes,
+            createCourse: addCourse,
+            createLesson,
+            createQuiz,
+            addQuestions: addQuestionsToQuiz,
+            publishQuiz: quizId => publishDraft('quiz', quizId, null, IMPORT_VERSION_NOTE),
+            updateModules: updateCourseModules,
+            updateAvailability: updateCourseCurriculumAvailability,
+        };
+    }
+    const { brandId } = library;
+    const ownedByBrand = <T extends { brandId: string }>(item: T | null) => (item && item.brandId === brandId ? item : null);
+    return {
+        getCourse: async courseId => ownedByBrand(await getBrandCourseById(courseId)),
+        getLesson: async lessonId => ownedByBrand(await getBrandLessonById(lessonId)),
+        getQuiz: async quizId => ownedByBrand(await getBrandQuizById(quizId)),
+        listCourses: () => getBrandCoursesByBrandId(brandId),
+        listLessons: () => getBrandLessonsByBrandId(brandId),
+        listQuizzes: () => getBrandQuizzesByBrandId(brandId),
+        createCourse: data => createBrandCourse(brandId, data),
+        createLesson: ({ isPreviewAvailable, ...data }) => createBrandLesson(brandId, { ...data, brandId }),
+        createQuiz: data => createBrandQuiz(brandId, { ...data, brandId }),
+        addQuestions: addBrandQuestionsToBrandQuiz,
+        publishQuiz: quizId => publishDraft('brandQuiz', quizId, null, IMPORT_VERSION_NOTE),
+        updateModules: updateBrandCourseModules,
+        updateAvailability: updateBrandCourseCurriculumAvailability,
+    };
+}
+
+/**
+ * Splits a curriculum item ID such as 'lesson-abc' or 'brandQuiz-abc' into its type and library ID.
+ * @returns null for IDs that are not lesson or quiz items.
+ */
+export function parseCurriculumItemId(itemId: string): { type: 'lesson' | 'quiz'; id: string } | null {
+    const separatorIndex = itemId.indexOf('-');
+    const prefix = itemId.slice(0, separatorIndex);
+    const id = itemId.slice(separatorIndex + 1);
+    if (separatorIndex < 0 || !id) return null;
+    if (prefix === 'lesson' || prefix === 'brandLesson') return { type: 'lesson', id };
+    if (prefix === 'quiz' || prefix === 'brandQuiz') return { type: 'quiz', id };
+    return null;
+}
+
+/**
+ * The curriculum item ID of a lesson or quiz in the given library, e.g. 'brandLesson-abc' for a brand lesson.
+ */
+export function toCurriculumItemId(library: CourseLibrary, type: 'lesson' | 'quiz', id: string): string {
+    if (library.type === 'global') return `${type}-${id}`;
+    return `${type === 'lesson' ? 'brandLesson' : 'brandQuiz'}-${id}`;
+}
+
+// --- Helpers ---
+
+const titleKey = (title: string | null | undefined) => (title || '').trim().toLowerCase();
+
+const isStorageUrl = (url: string | null | undefined): url is string =>
+    !!url && /^https:\/\/(firebasestorage|storage)\.googleapis\.com\//.test(url);
+
+// Library bookkeeping and publishing state. Packages carry the published content only.
+const UNPACKAGED_FIELDS = ['brandId', 'isApproved', 'approvalStatus', 'sharing', 'isDeleted', 'deletedAt', 'createdAt', 'updatedAt', 'draft', 'draftUpdatedAt', 'publishedVersion', 'publishedAt', 'publishedBy'];
+
+const withoutFields = <T extends object>(value: T, fields: string[]): any =>
+    Object.fromEntries(Object.entries(value).filter(([key]) => !fields.includes(key)));
+
+function fileNameFromUrl(url: string): string {
+    let name = '';
+    try {
+        name = decodeURIComponent(new URL(url).pathname).split('/').pop() || '';
+    } catch {
+        // Fall back to a generic name below
+    }
+    return name.replace(/[^\w.-]+/g, '_').slice(-100) || 'file';
+}
+
+// Replaces every string that is a key of the map, anywhere in the value
+function replaceStrings<T>(value: T, replacements: Map<string, string>): T {
+    if (typeof value === 'string') return (replacements.get(value) ?? value) as T;
+    if (Array.isArray(value)) return value.map(item => replaceStrings(item, replacements)) as T;
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceStrings(item, replacements)])) as T;
+    }
+    return value;
+}
+
+function collectStrings(value: unknown, strings: Set<string>): Set<string> {
+    if (typeof value === 'string') strings.add(value);
+    else if (Array.isArray(value)) value.forEach(item => collectStrings(item, strings));
+    else if (value && typeof value === 'object') Object.values(value).forEach(item => collectStrings(item, strings));
+    return strings;
+}
+
+async function runWithConcurrency<T>(items: T[], worker: (item: T) => Promise<void>): Promise<void> {
+    let nextIndex = 0;
+    const runNext = async () => {
+        while (nextIndex < items.length) {
+            await worker(items[nextIndex++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(TRANSFER_CONCURRENCY, items.length) }, runNext));
+}
+
+// Checkpoints of a lesson and of its translated videos
+const getAllTimedEvents = (lesson: Pick<Lesson, 'timedEvents' | 'translations'>): LessonTimedEvent[] => [
+    ...(lesson.timedEvents || []),
+    ...Object.values(lesson.translations || {}).flatMap(translation => translation.timedEvents || []),
+];
+
+// --- Export ---
+
+interface MediaReference {
+    url: string;
+    kind: CoursePackageMediaKind;
+    videoAssetId?: string | null;
+}
+
+function collectMediaReferences(manifest: Pick<CoursePackageManifest, 'course' | 'lessons' | 'quizzes'>): MediaReference[] {
+    const references: MediaReference[] = [];
+    const add = (url: string | null | undefined, kind: CoursePackageMediaKind, videoAssetId?: string | null) => {
+        if (isStorageUrl(url) && !references.some(reference => reference.url === url)) references.push({ url, kind, videoAssetId: videoAssetId || null });
+    };
+    const addQuestionImages = (optionImages: string[] | undefined) => (optionImages || []).forEach(url => add(url, 'questionImage'));
+    const addVideo = (video: Pick<LessonTranslation, 'videoUrl' | 'videoAsset' | 'captions' | 'timedEvents'>) => {
+        add(video.videoUrl, 'video', video.videoAsset?.id);
+        (video.captions || []).forEach(track => add(track.url, 'caption'));
+        (video.timedEvents || []).forEach(event => addQuestionImages(event.question?.optionImages));
+    };
+
+    add(manifest.course.imageUrl, 'courseImage');
+    add(manifest.course.featuredImageUrl, 'courseImage');
+    manifest.lessons.forEach(lesson => {
+        add(lesson.featuredImageUrl, 'lessonImage');
+        addVideo(lesson);
+        Object.values(lesson.translations || {}).forEach(addVideo);
+    });
+    manifest.quizzes.forEach(quiz => quiz.questions.forEach(question => addQuestionImages(question.optionImages)));
+    return references;
+}
+
+/**
+ * Gathers a course, its lessons and quizzes (including quizzes used by lesson checkpoints) and,
+ * optionally, their media into a package.
+ * @param source - The library the course is in.
+ * @param courseId - The course to package.
+ * @throws If the course cannot be found in the library.
+ */
+export async function buildCoursePackage(
+    source: CourseLibrary,
+    courseId: string,
+    options: CoursePackageExportOptions,
+    onProgress?: CoursePackageProgress
+): Promise<CoursePackage> {
+    const library = getLibraryContent(source);
+    const warnings: string[] = [];
+    const files = new Map<string, Uint8Array>();
+
+    onProgress?.("Reading the course...", 0);
+    const course = await library.getCourse(courseId);
+    if (!course) throw new Error("The course could not be found.");
+
+    const lessons: PackagedLesson[] = [];
+    const quizzes: PackagedQuiz[] = [];
+    const addQuiz = async (quizId: string, missingMessage: string) => {
+        if (quizzes.some(quiz => quiz.id === quizId)) return;
+        const quiz = await library.getQuiz(quizId);
+        if (quiz) quizzes.push(withoutFields(quiz, [...UNPACKAGED_FIELDS, 'questionCount']));
+        else warnings.push(missingMessage);
+    };
+
+    for (const itemId of course.curriculum || []) {
+        const item = parseCurriculumItemId(itemId);
+        if (item?.type === 'lesson') {
+            const lesson = await library.getLesson(item.id);
+            if (lesson) lessons.push(withoutFields(lesson, [...UNPACKAGED_FIELDS, 'videoAssetIds']));
+            else warnings.push(`Curriculum lesson ${item.id} no longer exists and was left out.`);
+        } else if (item?.type === 'quiz') {
+            await addQuiz(item.id, `Curriculum quiz ${item.id} no longer exists and was left out.`);
+        }
+    }
+    for (const lesson of lessons) {
+        for (const event of getAllTimedEvents(lesson)) {
+            if (event.type === 'quiz' && event.quizId) {
+                await addQuiz(event.quizId, `The checkpoint quiz ${event.quizId} in "${lesson.title}" no longer exists.`);
+            }
+        }
+    }
+
+    const media: CoursePackageMedia[] = [];
+    const scormPackages: CoursePackageScormFiles[] = [];
+    if (options.includeMedia) {
+        const references = collectMediaReferences({ course, lessons, quizzes })
+            .filter(reference => options.includeVideos || reference.kind !== 'video');
+        if (!options.includeVideos && collectMediaReferences({ course, lessons, quizzes }).some(reference => reference.kind === 'video')) {
+            warnings.push("Uploaded videos were not included. Imported lessons play them from the original environment.");
+        }
+        const scormLessons = lessons.filter(lesson => lesson.lessonType === 'scorm' && lesson.scormPackage);
+        const totalSteps = references.length + scormLessons.length || 1;
+        let completedSteps = 0;
+        const stepDone = (message: string) => onProgress?.(message, 5 + (++completedSteps / totalSteps) * 85);
+
+        await runWithConcurrency(references, async reference => {
+            try {
+                const response = await fetch(reference.url);
+                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                const path = `media/${references.indexOf(reference) + 1}-${fileNameFromUrl(reference.url)}`;
+                files.set(path, new Uint8Array(await response.arrayBuffer()));
+                media.push({ ...reference, path, contentType: response.headers.get('content-type') || 'application/octet-stream' });
+            } catch (error: any) {
+                warnings.push(`Could not download ${fileNameFromUrl(reference.url)} (${error.message}); the package links to it instead.`);
+            }
+            stepDone("Downloading media...");
+        });
+
+        for (const lesson of scormLessons) {
+            const packageId = lesson.scormPackage!.id;
+            try {
+                const folder = ref(storage, `${STORAGE_PATHS.LESSON_SCORM}/${packageId}`);
+                const packageFiles = await listStorageFiles(folder);
+                if (packageFiles.length === 0) throw new Error("no files found");
+                const paths: string[] = [];
+                await runWithConcurrency(packageFiles, async fileRef => {
+                    const path = fileRef.fullPath.slice(folder.fullPath.length + 1);
+                    files.set(`scorm/${packageId}/${path}`, new Uint8Array(await getBytes(fileRef)));
+                    paths.push(path);
+                });
+                scormPackages.push({ packageId, files: paths });
+            } catch (error: any) {
+                warnings.push(`The SCORM package of "${lesson.title}" could not be exported (${error.message}).`);
+            }
+            stepDone("Downloading SCORM packages...");
+        }
+    }
+
+    onProgress?.("Packaging...", 95);
+    return {
+        manifest: {
+            format: COURSE_PACKAGE_FORMAT,
+            version: COURSE_PACKAGE_VERSION,
+            exportedAt: new Date().toISOString(),
+            source: {
+                library: source.type,
+                brandId: source.type === 'brand' ? source.brandId : null,
+                projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || null,
+            },
+            course: withoutFields(course, UNPACKAGED_FIELDS),
+            lessons,
+            quizzes,
+            media,
+            scormPackages,
+            warnings,
+        },
+        files,
+    };
+}
+
+/**
+ * Exports a course as a self-contained zip package.
+ * @returns The file to download, and anything that could not be packaged.
+ */
+export async function exportCoursePackage(
+    source: CourseLibrary,
+    courseId: string,
+    options: Pick<CoursePackageExportOptions, 'includeVideos'>,
+    onProgress?: CoursePackageProgress
+): Promise<{ fileName: string; blob: Blob; warnings: string[] }> {
+    const { manifest, files } = await buildCoursePackage(source, courseId, { includeMedia: true, includeVideos: options.includeVideos }, onProgress);
+    const archive = createZip([
+        { name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) },
+        ...Array.from(files, ([name, data]) => ({ name, data })),
+    ]);
+    const baseName = manifest.course.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'course';
+    onProgress?.("Done", 100);
+    return { fileName: `${baseName}-package.zip`, blob: new Blob([archive], { type: 'application/zip' }), warnings: manifest.warnings };
+}
+
+// --- Import ---
+
+function validateManifest(value: any): CoursePackageManifest {
+    if (!value || value.format !== COURSE_PACKAGE_FORMAT) {
+        throw new Error("This zip is not a course package.");
+    }
+    if (typeof value.version !== 'number' || value.version > COURSE_PACKAGE_VERSION) {
+        throw new Error("This course package was made by a newer version of the platform and cannot be imported.");
+    }
+    if (!value.course?.title || !Array.isArray(value.course.curriculum) || !Array.isArray(value.lessons) || !Array.isArray(value.quizzes)) {
+        throw new Error("The course package is incomplete.");
+    }
+    return {
+        ...value,
+        quizzes: value.quizzes.map((quiz: any) => ({ ...quiz, questions: Array.isArray(quiz.questions) ? quiz.questions : [] })),
+        media: Array.isArray(value.media) ? value.media : [],
+        scormPackages: Array.isArray(value.scormPackages) ? value.scormPackages : [],
+        warnings: Array.isArray(value.warnings) ? value.warnings : [],
+    };
+}
+
+/**
+ * Reads a course package zip.
+ * @throws If the file is not a valid course package.
+ */
+export async function readCoursePackage(file: File): Promise<CoursePackage> {
+    const entries = await readZip(new Uint8Array(await file.arrayBuffer()));
+    const manifestEntry = entries.find(entry => entry.name === MANIFEST_FILE);
+    if (!manifestEntry) throw new Error("This zip is not a course package: course.json is missing.");
+
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(new TextDecoder().decode(manifestEntry.data));
+    } catch {
+        throw new Error("The course package's course.json is not valid JSON.");
+    }
+    return {
+        manifest: validateManifest(manifest),
+        files: new Map(entries.filter(entry => entry !== manifestEntry).map(entry => [entry.name, entry.data])),
+    };
+}
+
+async function isCertificateTemplateAvailable(templateId: string, target: CourseLibrary): Promise<boolean> {
+    const template = await getCertificateTemplateById(templateId).catch(() => null);
+    if (!template) return false;
+    return !template.brandId || (target.type === 'brand' && template.brandId === target.brandId);
+}
+
+/**
+ * Compares a package with the library it is about to be imported into.
+ * @returns Items with the same title as library items, and references that won't carry over.
+ */
+export async function findCoursePackageConflicts(pkg: CoursePackage, target: CourseLibrary): Promise<CoursePackageConflict[]> {
+    const { course, lessons, quizzes } = pkg.manifest;
+    const library = getLibraryContent(target);
+    const [existingCourses, existingLessons, existingQuizzes] = await Promise.all([library.listCourses(), library.listLessons(), library.listQuizzes()]);
+    const findByTitle = (items: LibraryItem[], title: string) => items.find(item => titleKey(item.title) === titleKey(title));
+    const conflicts: CoursePackageConflict[] = [];
+
+    const sameCourse = findByTitle(existingCourses, course.title);
+    if (sameCourse) {
+        conflicts.push({ itemType: 'course', title: course.title, existingId: sameCourse.id, message: "A course with this title already exists. The import adds a second course." });
+    }
+    lessons.forEach(lesson => {
+        const existing = findByTitle(existingLessons, lesson.title);
+        if (existing) conflicts.push({ itemType: 'lesson', title: lesson.title, existingId: existing.id, message: "A lesson with this title is already in the library." });
+    });
+    quizzes.forEach(quiz => {
+        const existing = findByTitle(existingQuizzes, quiz.title);
+        if (existing) conflicts.push({ itemType: 'quiz', title: quiz.title, existingId: existing.id, message: "A quiz with this title is already in the library." });
+    });
+    if (course.certificateTemplateId && !(await isCertificateTemplateAvailable(course.certificateTemplateId, target))) {
+        conflicts.push({ itemType: 'certificateTemplate', title: course.title, message: "The course's certificate template isn't available here. The default certificate is used instead." });
+    }
+    const packagedQuizIds = new Set(quizzes.map(quiz => quiz.id));
+    lessons.forEach(lesson => {
+        if (getAllTimedEvents(lesson).some(event => event.type === 'quiz' && (!event.quizId || !packagedQuizIds.has(event.quizId)))) {
+            conflicts.push({ itemType: 'checkpoint', title: lesson.title, message: "A checkpoint quiz is missing from the package. That checkpoint is removed." });
+        }
+    });
+    return conflicts;
+}
+
+/**
+ * Creates the packaged course, lessons and quizzes in the target library. Every item gets a new ID,
+ * curriculum items get the target library's prefixes, and packaged media is uploaded again.
+ * @returns What was created, and anything that could not be carried over.
+ * @throws If an item cannot be created. Items created before the failure are kept.
+ */
+export async function importCoursePackage(
+    pkg: CoursePackage,
+    options: CoursePackageImportOptions,
+    onProgress?: CoursePackageProgress
+): Promise<CoursePackageImportReport> {
+    const { manifest, files } = pkg;
+    const { target } = options;
+    const library = getLibraryContent(target);
+    const warnings: string[] = [];
+    const lessonIdMap = new Map<string, string>();
+    const quizIdMap = new Map<string, string>();
+
+    onProgress?.("Checking the library...", 0);
+    if (options.reuseExisting) {
+        const [existingLessons, existingQuizzes] = await Promise.all([library.listLessons(), library.listQuizzes()]);
+        manifest.lessons.forEach(lesson => {
+            const existing = existingLessons.find(item => titleKey(item.title) === titleKey(lesson.title));
+            if (existing) lessonIdMap.set(lesson.id, existing.id);
+        });
+        manifest.quizzes.forEach(quiz => {
+            const existing = existingQuizzes.find(item => titleKey(item.title) === titleKey(quiz.title));
+            if (existing) quizIdMap.set(quiz.id, existing.id);
+        });
+    }
+    const lessonsReused = lessonIdMap.size;
+    const quizzesReused = quizIdMap.size;
+    const lessonsToCreate = manifest.lessons.filter(lesson => !lessonIdMap.has(lesson.id));
+    const quizzesToCreate = manifest.quizzes.filter(quiz => !quizIdMap.has(quiz.id));
+
+    // Only media used by the items being created is uploaded
+    const usedStrings = collectStrings([manifest.course, lessonsToCreate, quizzesToCreate], new Set());
+    const mediaToUpload = manifest.media.filter(item => usedStrings.has(item.url));
+    const scormToUpload = lessonsToCreate
+        .map(lesson => lesson.lessonType === 'scorm' && lesson.scormPackage
+            ? manifest.scormPackages.find(scormFiles => scormFiles.packageId === lesson.scormPackage!.id)
+            : undefined)
+        .filter((scormFiles): scormFiles is CoursePackageScormFiles => !!scormFiles);
+    const totalSteps = mediaToUpload.length + scormToUpload.reduce((total, scormFiles) => total + scormFiles.files.length, 0)
+        + quizzesToCreate.length + lessonsToCreate.length + 1;
+    let completedSteps = 0;
+    const stepDone = (message: string) => onProgress?.(message, (++completedSteps / totalSteps) * 100);
+
+    // 1. Media
+    const urlMap = new Map<string, string>();
+    const videoAssetMap = new Map<string, LessonVideoAsset>();
+    let filesUploaded = 0;
+    let videosQueued = 0;
+    await runWithConcurrency(mediaToUpload, async item => {
+        const data = files.get(item.path);
+        const fileName = item.path.split('/').pop()!.replace(/^\d+-/, '');
+        if (!data) {
+            warnings.push(`${fileName} is missing from the package; the original link is kept.`);
+        } else if (item.kind === 'video') {
+            const assetId = newVideoAssetId();
+            const sourcePath = `${MEDIA_FOLDERS.video}/${assetId}/source/${fileName}`;
+            const sourceUrl = await uploadFileDataWithUrl(data, sourcePath, item.contentType);
+            const asset = await createVideoAsset(assetId, { fileName, sourcePath, sourceUrl });
+            urlMap.set(item.url, sourceUrl);
+            if (asset) {
+                if (item.videoAssetId) videoAssetMap.set(item.videoAssetId, toLessonVideoAsset(asset));
+                const result = await startVideoProcessingAction(assetId);
+                if (!result.success) console.warn(`Processing for video asset ${assetId} was not started: ${result.error}`); // The cron job will pick it up
+                videosQueued++;
+            }
+            filesUploaded++;
+        } else {
+            const path = `${MEDIA_FOLDERS[item.kind]}/imported-${Date.now()}-${fileName}`;
+            urlMap.set(item.url, await uploadFileDataWithUrl(data, path, item.contentType));
+            filesUploaded++;
+        }
+        stepDone("Uploading media...");
+    });
+
+    // 2. SCORM packages get a new ID, like a fresh upload
+    const scormIdMap = new Map<string, string>();
+    for (const scormFiles of scormToUpload) {
+        if (scormIdMap.has(scormFiles.packageId)) continue;
+        const packageId = crypto.randomUUID();
+        await runWithConcurrency(scormFiles.files, async path => {
+            const data = files.get(`scorm/${scormFiles.packageId}/${path}`);
+            if (data) {
+                await uploadFileData(data, `${STORAGE_PATHS.LESSON_SCORM}/${packageId}/${path}`, getScormFileContentType(path));
+                filesUploaded++;
+            }
+            stepDone("Uploading SCORM packages...");
+        });
+        scormIdMap.set(scormFiles.packageId, packageId);
+    }
+    const isSameProject = manifest.source.projectId === (process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || null);
+
+    // 3. Quizzes, with their questions
+    for (const packagedQuiz of quizzesToCreate) {
+        const quiz = replaceStrings(packagedQuiz, urlMap);
+        const created = await library.createQuiz({ title: quiz.title, settings: quiz.settings ?? null, translations: quiz.translations || {} });
+        if (!created) throw new Error(`Could not create the quiz "${quiz.title}".`);
+        quizIdMap.set(quiz.id, created.id);
+        if (quiz.questions.length > 0) {
+            await library.addQuestions(created.id, quiz.questions.map(({ id, ...question }) => question));
+            await library.publishQuiz(created.id);
+        }
+        stepDone("Creating quizzes...");
+    }
+
+    // 4. Lessons, with checkpoints pointing at the new quizzes and videos at the re-uploaded assets
+    const remapTimedEvents = (events: LessonTimedEvent[] | null | undefined, lessonTitle: string) => (events || []).flatMap(event => {
+        if (event.type !== 'quiz') return [event];
+        const quizId = event.quizId ? quizIdMap.get(event.quizId) : undefined;
+        if (!quizId) {
+            warnings.push(`A checkpoint in "${lessonTitle}" was removed because its quiz is not in the package.`);
+            return [];
+        }
+        return [{ ...event, quizId }];
+    });
+    const remapVideoAsset = (videoAsset: LessonVideoAsset | null | undefined) => (videoAsset ? videoAssetMap.get(videoAsset.id) ?? videoAsset : null);
+
+    for (const packagedLesson of lessonsToCreate) {
+        const lesson = replaceStrings(packagedLesson, urlMap);
+        let scormPackage = lesson.lessonType === 'scorm' ? lesson.scormPackage ?? null : null;
+        if (scormPackage) {
+            const newPackageId = scormIdMap.get(scormPackage.id);
+            if (newPackageId) scormPackage = { ...scormPackage, id: newPackageId };
+            else if (!isSameProject) warnings.push(`The SCORM package of "${lesson.title}" is not in the package. Upload it again before learners open the lesson.`);
+        }
+        const translations = Object.fromEntries(Object.entries(lesson.translations || {}).map(([locale, translation]) => [locale, {
+            ...translation,
+            timedEvents: remapTimedEvents(translation.timedEvents, lesson.title),
+            videoAsset: remapVideoAsset(translation.videoAsset),
+        }]));
+        const created = await library.createLesson({
+            title: lesson.title,
+            content: lesson.content || '',
+            videoUrl: lesson.videoUrl ?? null,
+            featuredImageUrl: lesson.featuredImageUrl ?? null,
+            exerciseFilesInfo: lesson.exerciseFilesInfo ?? null,
+            isPreviewAvailable: lesson.isPreviewAvailable ?? false,
+            playbackTime: lesson.playbackTime ?? null,
+            timedEvents: remapTimedEvents(lesson.timedEvents, lesson.title),
+            captions: lesson.captions || [],
+            videoAsset: remapVideoAsset(lesson.videoAsset),
+            lessonType: lesson.lessonType === 'scorm' ? 'scorm' : 'standard',
+            scormPackage,
+            translations,
+        });
+        if (!created) throw new Error(`Could not create the lesson "${lesson.title}".`);
+        lessonIdMap.set(lesson.id, created.id);
+        stepDone("Creating lessons...");
+    }
+
+    // 5. The course, with its modules and drip schedule rewritten for the target library
+    const course = replaceStrings(manifest.course, urlMap);
+    let certificateTemplateId = course.certificateTemplateId || null;
+    if (certificateTemplateId && !(await isCertificateTemplateAvailable(certificateTemplateId, target))) {
+        warnings.push("The certificate template isn't available here, so the course uses the default certificate.");
+        certificateTemplateId = null;
+    }
+    const createdCourse = await library.createCourse({
+        title: course.title,
+        description: course.description || '',
+        longDescription: course.longDescription || '',
+        imageUrl: course.imageUrl || '',
+        featuredImageUrl: course.featuredImageUrl ?? null,
+        level: course.level,
+        duration: course.duration || '',
+        category: course.category ?? null,
+        certificateTemplateId,
+        validityMonths: course.validityMonths ?? null,
+        translations: course.translations || {},
+    });
+    if (!createdCourse) throw new Error(`Could not create the course "${course.title}".`);
+
+    const remapItemId = (itemId: string) => {
+        const item = parseCurriculumItemId(itemId);
+        const newId = item && (item.type === 'lesson' ? lessonIdMap : quizIdMap).get(item.id);
+        return item && newId ? toCurriculumItemId(target, item.type, newId) : null;
+    };
+    const modules = getCourseModules(course).map(module => ({
+        ...module,
+        itemIds: module.itemIds.map(remapItemId).filter((itemId): itemId is string => !!itemId),
+    }));
+    await library.updateModules(createdCourse.id, modules);
+    for (const [itemId, availability] of Object.entries(course.curriculumAvailability || {})) {
+        const newItemId = remapItemId(itemId);
+        if (newItemId) await library.updateAvailability(createdCourse.id, newItemId, availability);
+    }
+    stepDone("Done");
+
+    return {
+        courseId: createdCourse.id,
+        courseTitle: course.title,
+        target,
+        lessonsCreated: lessonsToCreate.length,
+        lessonsReused,
+        quizzesCreated: quizzesToCreate.length,
+        quizzesReused,
+        filesUploaded,
+        videosQueued,
+        warnings: Array.from(new Set(warnings)),
+    };
+}
+
+/**
+ * Copies a course with its lessons and quizzes into another library of the same environment,
+ * e.g. a global course into a brand as an editable brand course. Media stays where it is.
+ */
+export async function copyCourseToLibrary(
+    source: CourseLibrary,
+    courseId: string,
+    target: CourseLibrary,
+    onProgress?: CoursePackageProgress
+): Promise<CoursePackageImportReport> {
+    const pkg = await buildCoursePackage(source, courseId, { includeMedia: false, includeVideos: false }, (message, percent) => onProgress?.(message, percent * 0.2));
+    const report = await importCoursePackage(pkg, { target, reuseExisting: false }, (message, percent) => onProgress?.(message, 20 + percent * 0.8));
+    return { ...report, warnings: [...pkg.manifest.warnings, ...report.warnings] };
+}
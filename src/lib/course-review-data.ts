@@ -0,0 +1,313 @@
+// src/lib/course-review-data.ts
+import { db } from './firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    addDoc,
+    updateDoc,
+    query,
+    where,
+    limit,
+    arrayUnion,
+    serverTimestamp,
+    Timestamp,
+    type DocumentData,
+} from 'firebase/firestore';
+import type { BrandCourse, ContentVersionAuthor, CourseReview, CourseReviewComment, CourseReviewItem, CourseReviewStatus } from '@/types/course';
+import type { Company, User } from '@/types/user';
+import { VERSIONED_COLLECTIONS, getDraftContent, getPublishedContent, getPublishingState, pickContent, publishReviewedContent } from './content-versions';
+import { createNotification } from './notifications-data';
+import { getUsersByCompanyId, getUsersByRole } from './user-data';
+
+const COURSE_REVIEWS_COLLECTION = 'courseReviews';
+const BRAND_COURSES_COLLECTION = 'brandCourses';
+const COMPANIES_COLLECTION = 'companies';
+
+const CURRICULUM_ITEM_ID = /^(brandLesson|brandQuiz)-(.+)$/;
+
+const OPEN_REVIEW_STATUSES: CourseReviewStatus[] = ['pending', 'changes_requested'];
+const REVIEWS_HREF = '/admin/course-reviews';
+const AUTHOR_HREF = '/brand-admin/courses';
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for course review op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`Course review op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+const toIsoString = (value: unknown): string | null => (value instanceof Timestamp ? value.toDate().toISOString() : null);
+
+const toCourseReview = (id: string, data: any): CourseReview => ({
+    id,
+    courseId: data.courseId,
+    courseTitle: data.courseTitle || '',
+    brandId: data.brandId,
+    reviewerBrandId: data.reviewerBrandId ?? null,
+    status: data.status,
+    content: data.content || {},
+    publishedContent: data.publishedContent ?? null,
+    items: data.items || [],
+    itemTitles: data.itemTitles || {},
+    note: data.note ?? null,
+    submittedBy: data.submittedBy ?? null,
+    submittedAt: toIsoString(data.submittedAt),
+    reviewedBy: data.reviewedBy ?? null,
+    reviewedAt: toIsoString(data.reviewedAt),
+    comments: data.comments || [],
+});
+
+type CourseSubmission = Pick<CourseReview, 'content' | 'publishedContent' | 'items' | 'itemTitles'>;
+
+// Learners see a brand course unless it is still waiting for its first approval
+export const isBrandCourseVisibleToLearners = (course: Pick<BrandCourse, 'isApproved'>): boolean => course.isApproved !== false;
+
+/**
+ * Whether a user may review a submission: Super Admins review everything, and a parent brand's
+ * Admins and Owners review what their child brands submit.
+ */
+export function canReviewCourse(user: User | null, review: Pick<CourseReview, 'reviewerBrandId'>): boolean {
+    if (!user) return false;
+    if (user.role === 'Super Admin') return true;
+    return (user.role === 'Admin' || user.role === 'Owner') && !!user.companyId && user.companyId === review.reviewerBrandId;
+}
+
+// The parent brand's admins review a child brand's courses. Brands without a parent, or whose parent has no admins, go to Super Admins.
+async function getReviewers(reviewerBrandId: string | null): Promise<User[]> {
+    if (reviewerBrandId) {
+        const parentAdmins = (await getUsersByCompanyId(reviewerBrandId)).filter(user => (user.role === 'Admin' || user.role === 'Owner') && user.isActive !== false);
+        if (parentAdmins.length > 0) return parentAdmins;
+    }
+    return (await getUsersByRole('Super Admin')).filter(user => user.isActive !== false);
+}
+
+async function notify(recipientIds: string[], sender: ContentVersionAuthor | null, content: string, href: string): Promise<void> {
+    for (const recipientId of Array.from(new Set(recipientIds))) {
+        if (recipientId === sender?.id) continue;
+        await createNotification({
+            recipientId,
+            senderId: sender?.id || 'SYSTEM',
+            senderName: sender?.name || 'System',
+            type: 'content_review',
+            content,
+            href,
+        });
+    }
+}
+
+// The submission of a course that is waiting for a reviewer or for the author's changes, if any
+export async function getOpenCourseReview(courseId: string): Promise<CourseReview | null> {
+    if (!courseId) return null;
+    return retryOperation(async () => {
+        const q = query(collection(db, COURSE_REVIEWS_COLLECTION), where('courseId', '==', courseId), where('status', 'in', OPEN_REVIEW_STATUSES), limit(1));
+        const snapshot = await getDocs(q);
+        return snapshot.empty ? null : toCourseReview(snapshot.docs[0].id, snapshot.docs[0].data());
+    });
+}
+
+export async function getCourseReviewById(reviewId: string): Promise<CourseReview | null> {
+    if (!reviewId) return null;
+    return retryOperation(async () => {
+        const reviewSnap = await getDoc(doc(db, COURSE_REVIEWS_COLLECTION, reviewId));
+        return reviewSnap.exists() ? toCourseReview(reviewSnap.id, reviewSnap.data()) : null;
+    });
+}
+
+/**
+ * Lists the open submissions a user can review, oldest first so the longest-waiting come first.
+ */
+export async function getCourseReviewsForReviewer(user: User): Promise<CourseReview[]> {
+    if (user.role !== 'Super Admin' && !user.companyId) return [];
+    return retryOperation(async () => {
+        const reviewsRef = collection(db, COURSE_REVIEWS_COLLECTION);
+        const q = user.role === 'Super Admin'
+            ? query(reviewsRef, where('status', 'in', OPEN_REVIEW_STATUSES))
+            : query(reviewsRef, where('reviewerBrandId', '==', user.companyId), where('status', 'in', OPEN_REVIEW_STATUSES));
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+            .map(reviewDoc => toCourseReview(reviewDoc.id, reviewDoc.data()))
+            .filter(review => canReviewCourse(user, review))
+            .sort((a, b) => (a.submittedAt || '').localeCompare(b.submittedAt || ''));
+    });
+}
+
+/**
+ * Collects what a submission of a course holds: its content and curriculum as drafted, and the lessons and
+ * quizzes of that curriculum that have unpublished changes or are new to the course.
+ */
+async function buildSubmission(course: DocumentData): Promise<CourseSubmission> {
+    const content = getDraftContent('brandCourse', course);
+    const liveItemIds = new Set<string>(course.isApproved === false ? [] : course.curriculum || []);
+    const submittedItemIds: string[] = content.curriculum ?? course.curriculum ?? [];
+
+    const curriculumItems = await Promise.all(submittedItemIds.map(async (curriculumItemId) => {
+        const match = curriculumItemId.match(CURRICULUM_ITEM_ID);
+        if (!match) return null;
+        const itemType = match[1] as CourseReviewItem['itemType'];
+        const itemSnap = await getDoc(doc(db, VERSIONED_COLLECTIONS[itemType], match[2]));
+        if (!itemSnap.exists() || itemSnap.data().isDeleted === true) return null;
+        const data = itemSnap.data();
+        const itemContent = getDraftContent(itemType, data);
+        const isNewToCourse = !liveItemIds.has(curriculumItemId);
+        const item: CourseReviewItem = {
+            itemType,
+            itemId: itemSnap.id,
+            title: itemContent.title || '',
+            content: itemContent,
+            publishedContent: isNewToCourse ? null : pickContent(itemType, data),
+        };
+        return { curriculumItemId, item, isReviewed: isNewToCourse || !!data.draft };
+    }));
+
+    const itemTitles: CourseSubmission['itemTitles'] = {};
+    const items: CourseReviewItem[] = [];
+    curriculumItems.forEach(entry => {
+        if (!entry) return;
+        itemTitles[entry.curriculumItemId] = entry.item.title;
+        if (entry.isReviewed) items.push(entry.item);
+    });
+
+    return {
+        content,
+        publishedContent: course.isApproved === false ? null : getPublishedContent('brandCourse', course, content),
+        items,
+        itemTitles,
+    };
+}
+
+// What submitting a brand course now would send to the reviewer, or null if the course does not exist
+export async function getBrandCourseSubmission(courseId: string): Promise<CourseSubmission | null> {
+    if (!courseId) return null;
+    return retryOperation(async () => {
+        const courseSnap = await getDoc(doc(db, BRAND_COURSES_COLLECTION, courseId));
+        if (!courseSnap.exists() || courseSnap.data().isDeleted === true) return null;
+        return buildSubmission(courseSnap.data());
+    });
+}
+
+/**
+ * Submits a brand course's current content for review and notifies the reviewers. The submission holds the
+ * course's draft, curriculum included, and its lessons and quizzes that changed or are new to it.
+ * Resubmitting a course whose review is still open replaces the submitted content and keeps the comments.
+ * @param note - Optional description of the changes for the reviewer.
+ */
+export async function submitBrandCourseForReview(courseId: string, submittedBy: ContentVersionAuthor | null, note?: string | null): Promise<CourseReview> {
+    const review = await retryOperation(async () => {
+        const courseRef = doc(db, BRAND_COURSES_COLLECTION, courseId);
+        const courseSnap = await getDoc(courseRef);
+        if (!courseSnap.exists() || courseSnap.data().isDeleted === true) throw new Error("Course not found or is soft-deleted.");
+        const course = courseSnap.data();
+        const brandSnap = await getDoc(doc(db, COMPANIES_COLLECTION, course.brandId));
+        const brand = brandSnap.exists() ? (brandSnap.data() as Company) : null;
+
+        const reviewed = await buildSubmission(course);
+        const submission = {
+            ...reviewed,
+            courseTitle: reviewed.content.title || course.title || '',
+            status: 'pending' as const,
+            note: note?.trim() || null,
+            submittedBy,
+            submittedAt: serverTimestamp(),
+        };
+
+        const openReview = await getOpenCourseReview(courseId);
+        let reviewId: string;
+        if (openReview) {
+            await updateDoc(doc(db, COURSE_REVIEWS_COLLECTION, openReview.id), submission);
+            reviewId = openReview.id;
+        } else {
+            const reviewRef = await addDoc(collection(db, COURSE_REVIEWS_COLLECTION), {
+                ...submission,
+                courseId,
+                brandId: course.brandId,
+                reviewerBrandId: brand?.parentBrandId || null,
+                reviewedBy: null,
+                reviewedAt: null,
+                comments: [],
+            });
+            reviewId = reviewRef.id;
+        }
+        await updateDoc(courseRef, { approvalStatus: 'pending', updatedAt: serverTimestamp() });
+        return (await getCourseReviewById(reviewId))!;
+    });
+
+    const reviewers = await getReviewers(review.reviewerBrandId);
+    await notify(reviewers.map(user => user.id), submittedBy, `"${review.courseTitle}" was submitted for review.`, REVIEWS_HREF);
+    return review;
+}
+
+/**
+ * Adds a reviewer comment to a submission.
+ * @param changeLabel - The label of the change the comment is about, or null for a general comment.
+ */
+export async function addCourseReviewComment(reviewId: string, changeLabel: string | null, text: string, author: ContentVersionAuthor | null): Promise<CourseReviewComment> {
+    const trimmed = text.trim();
+    if (!trimmed) throw new Error("A comment can't be empty.");
+    const comment: CourseReviewComment = {
+        id: `comment-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        changeLabel,
+        text: trimmed,
+        author,
+        createdAt: new Date().toISOString(),
+    };
+    return retryOperation(async () => {
+        await updateDoc(doc(db, COURSE_REVIEWS_COLLECTION, reviewId), { comments: arrayUnion(comment) });
+        return comment;
+    });
+}
+
+async function closeReviewRound(review: CourseReview, status: CourseReviewStatus, reviewer: ContentVersionAuthor | null): Promise<void> {
+    await updateDoc(doc(db, COURSE_REVIEWS_COLLECTION, review.id), { status, reviewedBy: reviewer, reviewedAt: serverTimestamp() });
+}
+
+/**
+ * Sends a submission back to its author, who is notified to look at the comments and resubmit.
+ */
+export async function requestCourseReviewChanges(review: CourseReview, reviewer: ContentVersionAuthor | null): Promise<void> {
+    if (review.status !== 'pending') throw new Error("Only submissions waiting for review can be sent back.");
+    await retryOperation(async () => {
+        await closeReviewRound(review, 'changes_requested', reviewer);
+        await updateDoc(doc(db, BRAND_COURSES_COLLECTION, review.courseId), { approvalStatus: 'changes_requested', updatedAt: serverTimestamp() });
+    });
+    if (review.submittedBy) {
+        await notify([review.submittedBy.id], reviewer, `Changes were requested on "${review.courseTitle}". See the reviewer's comments under Publishing & History.`, AUTHOR_HREF);
+    }
+}
+
+/**
+ * Approves a submission: its lessons and quizzes, then the course with its curriculum, are published as new versions
+ * and the course becomes visible to learners. A lesson or quiz used by other courses changes there too.
+ */
+export async function approveCourseReview(review: CourseReview, reviewer: ContentVersionAuthor | null): Promise<void> {
+    if (review.status !== 'pending') throw new Error("Only submissions waiting for review can be approved.");
+    const note = review.note || `Approved by ${reviewer?.name || 'a reviewer'}`;
+    for (const item of review.items) {
+        if (!(await getPublishingState(item.itemType, item.itemId))) continue; // Deleted since it was submitted
+        await publishReviewedContent(item.itemType, item.itemId, item.content, reviewer, note);
+    }
+    await publishReviewedContent('brandCourse', review.courseId, review.content, reviewer, note);
+    await retryOperation(async () => {
+        await closeReviewRound(review, 'approved', reviewer);
+        await updateDoc(doc(db, BRAND_COURSES_COLLECTION, review.courseId), { isApproved: true, approvalStatus: 'approved', updatedAt: serverTimestamp() });
+    });
+    if (review.submittedBy) {
+        await notify([review.submittedBy.id], reviewer, `"${review.courseTitle}" was approved and is now live for learners.`, AUTHOR_HREF);
+    }
+}
@@ -0,0 +1,91 @@
+// src/lib/course-sharing-data.ts
+import { db } from './firebase';
+import { doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import type { BrandCourse, BrandCourseSharing, CoursePackageImportReport, SharedCourseCompletion } from '@/types/course';
+import type { Company } from '@/types/user';
+import { getBrandCoursesByBrandId } from './brand-content-data';
+import { getChildBrandsByParentId } from './company-data';
+import { getUsersByCompanyId } from './user-data';
+import { isBrandCourseVisibleToLearners } from './course-review-data';
+import { copyCourseToLibrary, type CoursePackageProgress } from './course-package';
+
+const BRAND_COURSES_COLLECTION = 'brandCourses';
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for course sharing op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`Course sharing op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+export const isBrandCourseSharedWith = (course: Pick<BrandCourse, 'sharing'>, brandId: string): boolean =>
+    !!course.sharing && (course.sharing.scope === 'all' || course.sharing.brandIds.includes(brandId));
+
+/**
+ * Lists the parent brand's courses shared with a child brand. Courses still waiting for their first approval are left out.
+ */
+export async function getCoursesSharedWithBrand(brand: Pick<Company, 'id' | 'parentBrandId'> | null): Promise<BrandCourse[]> {
+    if (!brand?.parentBrandId) return [];
+    const parentCourses = await getBrandCoursesByBrandId(brand.parentBrandId);
+    return parentCourses.filter(course => isBrandCourseSharedWith(course, brand.id) && isBrandCourseVisibleToLearners(course));
+}
+
+/**
+ * Shares a brand course with all or some of the brand's child brands, or stops sharing it when `sharing` is null.
+ * Users who were already assigned the course keep it when sharing stops.
+ */
+export async function updateBrandCourseSharing(courseId: string, sharing: BrandCourseSharing | null): Promise<void> {
+    if (sharing?.scope === 'selected' && sharing.brandIds.length === 0) sharing = null;
+    await retryOperation(async () => {
+        const courseRef = doc(db, BRAND_COURSES_COLLECTION, courseId);
+        const courseSnap = await getDoc(courseRef);
+        if (!courseSnap.exists() || courseSnap.data().isDeleted === true) throw new Error("Course not found or is soft-deleted.");
+        await updateDoc(courseRef, {
+            sharing: sharing ? { scope: sharing.scope, brandIds: sharing.scope === 'selected' ? Array.from(new Set(sharing.brandIds)) : [] } : null,
+            updatedAt: serverTimestamp(),
+        });
+    });
+}
+
+/**
+ * Rolls up a shared course's assignments and completions in each child brand it is shared with.
+ */
+export async function getSharedCourseCompletions(course: BrandCourse): Promise<SharedCourseCompletion[]> {
+    const childBrands = (await getChildBrandsByParentId(course.brandId)).filter(brand => isBrandCourseSharedWith(course, brand.id));
+    return Promise.all(childBrands.map(async (brand) => {
+        const users = await getUsersByCompanyId(brand.id);
+        const completion: SharedCourseCompletion = { brandId: brand.id, brandName: brand.name, assigned: 0, inProgress: 0, completed: 0 };
+        users.forEach(user => {
+            const progress = user.courseProgress?.[course.id];
+            if (!user.assignedCourseIds?.includes(course.id) && !progress) return;
+            completion.assigned++;
+            if (progress?.status === 'Completed') completion.completed++;
+            else if (progress?.status === 'Started' || progress?.status === 'In Progress') completion.inProgress++;
+        });
+        return completion;
+    }));
+}
+
+/**
+ * Copies a course shared with a child brand into that brand's own library, with its lessons and quizzes,
+ * as a course the child brand can edit. Later changes to the shared course are not carried over.
+ */
+export async function forkSharedBrandCourse(course: BrandCourse, brandId: string, onProgress?: CoursePackageProgress): Promise<CoursePackageImportReport> {
+    if (!isBrandCourseSharedWith(course, brandId)) throw new Error("This course isn't shared with your brand.");
+    return copyCourseToLibrary({ type: 'brand', brandId: course.brandId }, course.id, { type: 'brand', brandId }, onProgress);
+}
@@ -0,0 +1,18 @@
+// This is a server-only file, shared by the routes under /api/cron.
+import { NextResponse } from 'next/server';
+
+/**
+ * Checks that a cron request carries the shared secret as `Authorization: Bearer $CRON_SECRET`.
+ * @returns An error response to send back, or null if the request may run the job.
+ */
+export function authorizeCronRequest(request: Request, jobName: string): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error(`${jobName} not run: CRON_SECRET is not configured.`);
+    return NextResponse.json({ error: 'Scheduled jobs are not configured.' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,69 @@
+import type { CurriculumModule } from '@/types/course';
+
+export const DEFAULT_MODULE_TITLE = 'Module 1';
+
+type CourseWithModules = { curriculum?: string[]; modules?: CurriculumModule[] | null };
+
+export function createCurriculumModule(title: string, itemIds: string[] = []): CurriculumModule {
+    return { id: `module-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, title, itemIds };
+}
+
+/**
+ * Wraps a flat curriculum in a single module. Used by the migration and for courses that were never migrated.
+ */
+export function buildModulesFromCurriculum(curriculum: string[] = []): CurriculumModule[] {
+    return [{ id: 'module-1', title: DEFAULT_MODULE_TITLE, itemIds: [...curriculum] }];
+}
+
+/**
+ * The modules of a course. Courses without modules are shown as one module holding the whole curriculum.
+ */
+export function getCourseModules(course: CourseWithModules): CurriculumModule[] {
+    if (course.modules && course.modules.length > 0) return course.modules;
+    return buildModulesFromCurriculum(course.curriculum);
+}
+
+/**
+ * The curriculum item IDs in learning order (module by module). Duplicates are dropped.
+ */
+export function flattenModules(modules: CurriculumModule[]): string[] {
+    return Array.from(new Set(modules.flatMap(module => module.itemIds)));
+}
+
+export function getCourseItemIds(course: CourseWithModules): string[] {
+    return flattenModules(getCourseModules(course));
+}
+
+/**
+ * Counts completed items per module, keyed by module ID.
+ */
+export function getModuleProgress(modules: CurriculumModule[], completedItems: string[] = []): Record<string, { completed: number; total: number }> {
+    const completed = new Set(completedItems);
+    return Object.fromEntries(modules.map(module => [
+        module.id,
+        { completed: module.itemIds.filter(itemId => completed.has(itemId)).length, total: module.itemIds.length },
+    ]));
+}
+
+/**
+ * Drops an item from every module, e.g. when the lesson or quiz is deleted.
+ */
+export function removeItemFromModules(modules: CurriculumModule[], itemId: string): CurriculumModule[] {
+    return modules.map(module => ({ ...module, itemIds: module.itemIds.filter(id => id !== itemId) }));
+}
+
+/**
+ * Trims titles and drops items listed in an earlier module, so each item appears once.
+ */
+export function sanitizeModules(modules: CurriculumModule[]): CurriculumModule[] {
+    const seen = new Set<string>();
+    return modules.map((module, index) => ({
+        id: module.id,
+        title: module.title?.trim() || `Module ${index + 1}`,
+        itemIds: module.itemIds.filter(itemId => {
+            if (seen.has(itemId)) return false;
+            seen.add(itemId);
+            return true;
+        }),
+    }));
+}
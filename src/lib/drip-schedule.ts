@@ -0,0 +1,60 @@
+import type { CurriculumAvailability } from '@/types/course';
+import type { User } from '@/types/user';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(value: unknown): Date | null {
+    if (!value) return null;
+    if (value instanceof Date) return value;
+    if (typeof value === 'string') {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date;
+    }
+    if (typeof (value as { toDate?: () => Date }).toDate === 'function') return (value as { toDate: () => Date }).toDate();
+    return null;
+}
+
+/**
+ * When a user got access to a course. Courses assigned directly use the assignment time;
+ * courses that reach the user through a program or their brand count from when the account was created.
+ */
+export function getCourseAssignedAt(user: User, courseId: string): Date | null {
+    return toDate(user.courseAssignedAt?.[courseId]) ?? toDate(user.createdAt);
+}
+
+/**
+ * Works out when a curriculum item opens.
+ * @returns The opening time, or null if the item has no rule (or a relative rule without a known assignment date).
+ */
+export function getCurriculumItemAvailableAt(rule: CurriculumAvailability | null | undefined, assignedAt: Date | null): Date | null {
+    if (!rule) return null;
+    if (rule.type === 'days-after-assignment') {
+        return assignedAt && rule.days > 0 ? new Date(assignedAt.getTime() + rule.days * DAY_MS) : null;
+    }
+    const [year, month, day] = rule.date.split('-').map(Number);
+    if (!year || !month || !day) return null;
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Short label for admins, e.g. "Day 7 after assignment" or "From Mar 3, 2025".
+ */
+export function describeCurriculumAvailability(rule: CurriculumAvailability | null | undefined): string {
+    if (!rule) return 'Immediately';
+    if (rule.type === 'days-after-assignment') return `Day ${rule.days} after assignment`;
+    const opensAt = getCurriculumItemAvailableAt(rule, null);
+    return opensAt ? `From ${opensAt.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}` : 'Immediately';
+}
+
+/**
+ * Compact countdown such as "3d 4h", "5h 20m" or "12m".
+ */
+export function formatTimeUntil(target: Date, now: number = Date.now()): string {
+    const totalMinutes = Math.max(1, Math.ceil((target.getTime() - now) / 60000));
+    const days = Math.floor(totalMinutes / (24 * 60));
+    const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+    const minutes = totalMinutes % 60;
+    if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+    if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+    return `${minutes}m`;
+}
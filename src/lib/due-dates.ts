@@ -0,0 +1,60 @@
+import type { User } from '@/types/user';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CourseDueState {
+    dueDate: string; // YYYY-MM-DD
+    daysUntilDue: number; // Negative once overdue, 0 on the due date
+    isOverdue: boolean;
+}
+
+function parseDueDay(dueDate: string): Date | null {
+    const [year, month, day] = dueDate.split('-').map(Number);
+    if (!year || !month || !day) return null;
+    return new Date(year, month - 1, day);
+}
+
+function startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Works out how a user stands against the due date of a course.
+ * Courses are due by the end of the due date, so a course only becomes overdue the day after.
+ * @returns The due state, or null if the course has no due date or is already completed.
+ */
+export function getCourseDueState(user: User, courseId: string, now: Date = new Date()): CourseDueState | null {
+    const dueDate = user.courseDueDates?.[courseId];
+    if (!dueDate || user.courseProgress?.[courseId]?.status === 'Completed') return null;
+    const dueDay = parseDueDay(dueDate);
+    if (!dueDay) return null;
+
+    const daysUntilDue = Math.round((dueDay.getTime() - startOfDay(now).getTime()) / DAY_MS);
+    return { dueDate, daysUntilDue, isOverdue: daysUntilDue < 0 };
+}
+
+/**
+ * The assigned courses a user has not finished by their due date.
+ */
+export function getOverdueCourseIds(user: User, now: Date = new Date()): string[] {
+    return (user.assignedCourseIds || []).filter(courseId => getCourseDueState(user, courseId, now)?.isOverdue);
+}
+
+/**
+ * Human-readable due date, e.g. "Mar 3, 2025".
+ */
+export function formatDueDate(dueDate: string): string {
+    const dueDay = parseDueDay(dueDate);
+    return dueDay ? dueDay.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' }) : dueDate;
+}
+
+/**
+ * Short status label such as "Due in 5 days", "Due today" or "2 days overdue".
+ */
+export function describeDueState(state: CourseDueState): string {
+    if (state.daysUntilDue === 0) return 'Due today';
+    if (state.daysUntilDue === 1) return 'Due tomorrow';
+    if (state.daysUntilDue > 1) return `Due in ${state.daysUntilDue} days`;
+    const daysLate = -state.daysUntilDue;
+    return `${daysLate} day${daysLate === 1 ? '' : 's'} overdue`;
+}
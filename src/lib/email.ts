@@ -37,6 +37,7 @@ async function createTransporter(): Promise<Transporter | null> {
 
 interface EmailOptions {
   to: string;
+  cc?: string | string[];
   subject: string;
   html: string;
   text?: string;
@@ -52,6 +53,7 @@ export async function sendEmail(options: EmailOptions): Promise<boolean> {
   const mailOptions = {
     from: process.env.SMTP_FROM || `"Your App Name" <${process.env.SMTP_USER}>`, // Fallback if SMTP_FROM is not explicitly set
     to: options.to,
+    cc: options.cc,
     subject: options.subject,
     html: options.html,
     text: options.text || options.html.replace(/<[^>]*>?/gm, ''), // Basic text version
@@ -139,3 +141,63 @@ export async function sendNewUserWelcomeEmail(to: string, name: string, temporar
 
   return sendEmail({ to, subject, html });
 }
+
+export async function sendAssignmentReminderEmail(options: {
+  to: string;
+  cc?: string[];
+  name: string;
+  courseTitle: string;
+  dueDateLabel: string;
+  statusLabel: string;
+  isOverdue: boolean;
+  courseUrl: string;
+}): Promise<boolean> {
+  const appName = process.env.NEXT_PUBLIC_APP_NAME || 'GYMRAMP';
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002';
+  const appLogoUrlEmail = process.env.NEXT_PUBLIC_APP_LOGO_URL_EMAIL || `${appUrl}/images/newlogo.png`;
+  const accentColor = options.isOverdue ? '#b91c1c' : '#000000'; // Red once the course is overdue
+  const subject = options.isOverdue
+    ? `Overdue: ${options.courseTitle}`
+    : `Reminder: ${options.courseTitle} is due ${options.dueDateLabel}`;
+  const intro = options.isOverdue
+    ? `Your course <strong>${options.courseTitle}</strong> was due on ${options.dueDateLabel} and is now ${options.statusLabel.toLowerCase()}. Please complete it as soon as possible.`
+    : `This is a reminder that your course <strong>${options.courseTitle}</strong> is due on ${options.dueDateLabel} (${options.statusLabel.toLowerCase()}).`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${subject}</title>
+    </head>
+    <body style="margin: 0; padding: 0; width: 100% !important; background-color: #f3f4f6; font-family: 'Inter', Arial, sans-serif; color: #000000;">
+        <table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%">
+            <tr>
+                <td align="center" style="padding: 20px 0;">
+                    <div style="width: 100%; max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+                        <div style="padding: 40px 30px; text-align: center;">
+                            <a href="${appUrl}" style="text-decoration: none;">
+                                <img src="${appLogoUrlEmail}" alt="${appName} Logo" style="max-height: 45px; width: auto; border: 0;" />
+                            </a>
+                        </div>
+                        <div style="padding: 20px 30px 40px;">
+                            <h1 style="font-size: 24px; font-weight: 700; color: ${accentColor}; margin: 0 0 10px; text-align: center;">Hi ${options.name},</h1>
+                            <p style="font-size: 16px; line-height: 1.6; color: #333333; margin-bottom: 20px; text-align: center;">${intro}</p>
+                            <div style="text-align: center;">
+                                <a href="${options.courseUrl}" style="display: inline-block; background-color: ${accentColor}; color: #ffffff !important; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px; margin: 20px 0;">Continue Course</a>
+                            </div>
+                        </div>
+                        <div style="padding: 20px 30px; text-align: center; font-size: 12px; color: #999999; background-color: #f8f8f8; border-top: 1px solid #eeeeee;">
+                            <p>${options.cc && options.cc.length > 0 ? 'Your manager has been copied on this reminder. <br> ' : ''}&copy; ${new Date().getFullYear()} ${appName}. All rights reserved.</p>
+                        </div>
+                    </div>
+                </td>
+            </tr>
+        </table>
+    </body>
+    </html>
+  `;
+
+  return sendEmail({ to: options.to, cc: options.cc, subject, html });
+}
@@ -13,12 +13,21 @@ import {
     where,
     writeBatch,
     serverTimestamp,
-    arrayUnion,
     arrayRemove,
+    deleteField,
     Timestamp,
     documentId
 } from 'firebase/firestore';
-import type { Course, Lesson, Quiz, Question, CourseFormData, LessonFormData, QuizFormData, QuestionFormData, QuestionType, Program, ProgramFormData, LessonTranslation, QuizTranslation, CourseTranslation, QuestionTranslation } from '@/types/course';
+import type { CurriculumAvailability, CurriculumModule, Course, Lesson, Quiz, Question, CourseFormData, LessonFormData, QuizFormData, QuestionFormData, QuestionType, Program, ProgramFormData, LessonTranslation, QuizTranslation, CourseTranslation, QuestionTranslation } from '@/types/course';
+import type { LessonVideoAsset } from '@/types/video';
+import type { TrashActor, TrashCurriculumPlacement } from '@/types/trash';
+
+import { flattenModules, removeItemFromModules, sanitizeModules } from './curriculum-modules';
+import { getTimedEventsForLocale, sanitizeTimedEvents } from './timed-events';
+import { getCaptionTracksForLocale, sanitizeCaptionTracks } from './captions';
+import { collectVideoAssetIds, formatPlaybackTime, sanitizeLessonVideoAsset } from './video-assets';
+import { sanitizeScormPackage } from './scorm';
+import { buildDraftUpdate, getDraftContent, withDraft } from './content-versions';
 
 const COURSES_COLLECTION = 'courses';
 const LESSONS_COLLECTION = 'lessons';
@@ -113,6 +122,7 @@ export async function addCourse(courseData: CourseFormData): Promise<Course | nu
             duration: courseData.duration,
             category: courseData.category || null,
             certificateTemplateId: courseData.certificateTemplateId || null, // Save certificate template
+            validityMonths: courseData.validityMonths || null,
             curriculum: [],
             isDeleted: false,
             deletedAt: null,
@@ -130,6 +140,10 @@ export async function addCourse(courseData: CourseFormData): Promise<Course | nu
     });
 }
 
+/**
+ * Saves course details into the course's draft. Learners keep seeing the published details until the draft is published.
+ * @returns The course with the draft applied.
+ */
 export async function updateCourseMetadata(courseId: string, courseData: Partial<CourseFormData>): Promise<Course | null> {
      if (!courseId) return null;
     return retryOperation(async () => {
@@ -139,7 +153,7 @@ export async function updateCourseMetadata(courseId: string, courseData: Partial
              throw new Error("Course not found or is soft-deleted for update.");
         }
 
-        const dataToUpdate: Partial<CourseFormData & {updatedAt: Timestamp}> = { updatedAt: serverTimestamp() as Timestamp };
+        const dataToUpdate: Partial<CourseFormData> = {};
 
         // Explicitly check for each field to handle empty strings vs. undefined
         if (courseData.title !== undefined) dataToUpdate.title = courseData.title;
@@ -151,39 +165,70 @@ export async function updateCourseMetadata(courseId: string, courseData: Partial
         if (courseData.duration !== undefined) dataToUpdate.duration = courseData.duration;
         if (courseData.category !== undefined) dataToUpdate.category = courseData.category || null;
         if (courseData.certificateTemplateId !== undefined) dataToUpdate.certificateTemplateId = courseData.certificateTemplateId || null;
+        if (courseData.validityMonths !== undefined) dataToUpdate.validityMonths = courseData.validityMonths || null;
         if (courseData.translations !== undefined) dataToUpdate.translations = sanitizeCourseTranslations(courseData.translations);
 
 
-        await updateDoc(courseRef, dataToUpdate);
+        await updateDoc(courseRef, buildDraftUpdate('course', currentDocSnap.data(), dataToUpdate));
         const updatedDocSnap = await getDoc(courseRef);
         if (updatedDocSnap.exists()) {
-            return { id: courseId, ...updatedDocSnap.data() } as Course;
+            return withDraft({ id: courseId, ...updatedDocSnap.data() } as Course);
         } else {
             return null;
         }
     });
 }
 
-export const updateCourseCurriculum = async (courseId: string, curriculum: string[]): Promise<boolean> => {
+/**
+ * Saves the curriculum modules. The flat curriculum array is rewritten in module order so
+ * progress, locking and cleanup queries keep working on it.
+ */
+export const updateCourseModules = async (courseId: string, modules: CurriculumModule[]): Promise<boolean> => {
     if (!courseId) return false;
     return retryOperation(async () => {
         const courseRef = doc(db, COURSES_COLLECTION, courseId);
         const courseSnap = await getDoc(courseRef);
         if (!courseSnap.exists() || courseSnap.data().isDeleted === true) return false;
 
+        const sanitizedModules = sanitizeModules(modules);
+        const curriculum = flattenModules(sanitizedModules);
+
+        // Drop drip rules for items that are no longer in the curriculum
+        const currentAvailability: { [itemId: string]: CurriculumAvailability } = courseSnap.data().curriculumAvailability || {};
+        const curriculumAvailability = Object.fromEntries(Object.entries(currentAvailability).filter(([itemId]) => curriculum.includes(itemId)));
+
         await updateDoc(courseRef, {
+            modules: sanitizedModules,
             curriculum: curriculum,
+            curriculumAvailability,
+            updatedAt: serverTimestamp(),
+        });
+        return true;
+    });
+};
+
+// Sets or clears (with null) the drip rule of one curriculum item
+export const updateCourseCurriculumAvailability = async (courseId: string, itemId: string, availability: CurriculumAvailability | null): Promise<boolean> => {
+    if (!courseId || !itemId) return false;
+    return retryOperation(async () => {
+        const courseRef = doc(db, COURSES_COLLECTION, courseId);
+        const courseSnap = await getDoc(courseRef);
+        if (!courseSnap.exists() || courseSnap.data().isDeleted === true) return false;
+        if (!(courseSnap.data().curriculum || []).includes(itemId)) return false;
+
+        await updateDoc(courseRef, {
+            [`curriculumAvailability.${itemId}`]: availability ?? deleteField(),
             updatedAt: serverTimestamp(),
         });
         return true;
     });
 };
 
-export async function deleteCourse(courseId: string): Promise<boolean> {
+export async function deleteCourse(courseId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
      if (!courseId) return false;
     return retryOperation(async () => {
         const courseRef = doc(db, COURSES_COLLECTION, courseId);
-        await updateDoc(courseRef, { isDeleted: true, deletedAt: serverTimestamp() });
+        await updateDoc(courseRef, { isDeleted: true, deletedAt: serverTimestamp(), deletedBy });
         return true;
     }, 3);
 }
@@ -203,6 +248,9 @@ const sanitizeLessonTranslations = (translations?: { [key: string]: LessonTransl
               title: translation.title || null,
               content: translation.content || null,
               videoUrl: translation.videoUrl || null,
+              timedEvents: translation.videoUrl ? sanitizeTimedEvents(translation.timedEvents) : [],
+              captions: translation.videoUrl ? sanitizeCaptionTracks(translation.captions) : [],
+              videoAsset: translation.videoUrl ? sanitizeLessonVideoAsset(translation.videoAsset) : null,
           };
       }
     }
@@ -221,6 +269,12 @@ export async function createLesson(lessonData: LessonFormData): Promise<Lesson |
             exerciseFilesInfo: lessonData.exerciseFilesInfo?.trim() || null,
             playbackTime: lessonData.playbackTime?.trim() || null,
             isPreviewAvailable: lessonData.isPreviewAvailable || false,
+            timedEvents: sanitizeTimedEvents(lessonData.timedEvents),
+            captions: sanitizeCaptionTracks(lessonData.captions),
+            videoAsset: sanitizeLessonVideoAsset(lessonData.videoAsset),
+            videoAssetIds: collectVideoAssetIds({ videoAsset: lessonData.videoAsset, translations: sanitizeLessonTranslations(lessonData.translations) }),
+            lessonType: lessonData.lessonType === 'scorm' ? 'scorm' : 'standard',
+            scormPackage: lessonData.lessonType === 'scorm' ? sanitizeScormPackage(lessonData.scormPackage) : null,
             translations: sanitizeLessonTranslations(lessonData.translations), // Sanitize before saving
             isDeleted: false,
             deletedAt: null,
@@ -269,7 +323,10 @@ export async function getLessonById(lessonId: string, locale?: string): Promise<
                 // If it's a string, it's a URL. If undefined, we keep the default video.
                 if (translation.videoUrl !== undefined) {
                     lessonData.videoUrl = translation.videoUrl;
+                    lessonData.videoAsset = translation.videoAsset || null;
                 }
+                lessonData.timedEvents = getTimedEventsForLocale(lessonData, locale);
+                lessonData.captions = getCaptionTracksForLocale(lessonData, locale);
             }
             return lessonData;
         } else {
@@ -278,6 +335,10 @@ export async function getLessonById(lessonId: string, locale?: string): Promise<
     });
 }
 
+/**
+ * Saves lesson edits into the lesson's draft. Learners keep seeing the published lesson until the draft is published.
+ * @returns The lesson with the draft applied.
+ */
 export async function updateLesson(lessonId: string, lessonData: Partial<LessonFormData>): Promise<Lesson | null> {
      if (!lessonId) return null;
     return retryOperation(async () => {
@@ -285,7 +346,7 @@ export async function updateLesson(lessonId: string, lessonData: Partial<LessonF
         const lessonSnap = await getDoc(lessonRef);
         if (!lessonSnap.exists() || lessonSnap.data().isDeleted === true) return null;
 
-        const dataToUpdate: Partial<Omit<LessonFormData, 'translations'>> & { translations?: { [key: string]: LessonTranslation; }; updatedAt?: Timestamp } = { updatedAt: serverTimestamp() as Timestamp };
+        const dataToUpdate: Partial<Omit<LessonFormData, 'translations'>> & { translations?: { [key: string]: LessonTranslation; } } = {};
          
         if (lessonData.translations) {
             dataToUpdate.translations = sanitizeLessonTranslations(lessonData.translations);
@@ -298,27 +359,75 @@ export async function updateLesson(lessonId: string, lessonData: Partial<LessonF
                      (dataToUpdate as any)[key] = (value as string)?.trim() || null;
                  } else if (key === 'isPreviewAvailable') {
                      (dataToUpdate as any)[key] = !!value;
+                 } else if (key === 'timedEvents') {
+                     (dataToUpdate as any)[key] = sanitizeTimedEvents(lessonData.timedEvents);
+                 } else if (key === 'captions') {
+                     (dataToUpdate as any)[key] = sanitizeCaptionTracks(lessonData.captions);
+                 } else if (key === 'videoAsset') {
+                     (dataToUpdate as any)[key] = sanitizeLessonVideoAsset(lessonData.videoAsset);
+                 } else if (key === 'lessonType') {
+                     (dataToUpdate as any)[key] = value === 'scorm' ? 'scorm' : 'standard';
+                 } else if (key === 'scormPackage') {
+                     (dataToUpdate as any)[key] = sanitizeScormPackage(lessonData.scormPackage);
                  } else {
                      (dataToUpdate as any)[key as keyof LessonFormData] = value;
                  }
              }
          }
 
-        await updateDoc(lessonRef, dataToUpdate);
+        await updateDoc(lessonRef, buildDraftUpdate('lesson', lessonSnap.data(), dataToUpdate));
         const updatedDocSnap = await getDoc(lessonRef);
         if (updatedDocSnap.exists()) {
-            return { id: lessonId, ...updatedDocSnap.data() } as Lesson;
+            return withDraft({ id: lessonId, ...updatedDocSnap.data() } as Lesson);
         } else {
             return null;
         }
     });
 }
 
-export async function deleteLesson(lessonId: string): Promise<boolean> {
+/**
+ * Copies a video asset's processing output onto every lesson that uses it, whether as the
+ * main video or a translation's video, in the published lesson or its draft. The main video's
+ * duration also becomes the lesson's playback time.
+ * @returns The number of lessons updated.
+ */
+export async function updateLessonsForVideoAsset(videoAsset: LessonVideoAsset): Promise<number> {
+    if (!videoAsset?.id) return 0;
+    return retryOperation(async () => {
+        const q = query(collection(db, LESSONS_COLLECTION), where('videoAssetIds', 'array-contains', videoAsset.id));
+        const snapshot = await getDocs(q);
+        const sanitized = sanitizeLessonVideoAsset(videoAsset);
+        let updatedCount = 0;
+        for (const lessonDoc of snapshot.docs) {
+            const lesson = lessonDoc.data() as Lesson;
+            const changes: Record<string, any> = {};
+            for (const [prefix, content] of [['', lesson], ['draft.', lesson.draft]] as const) {
+                if (!content) continue;
+                if (content.videoAsset?.id === videoAsset.id) {
+                    changes[`${prefix}videoAsset`] = sanitized;
+                    if (videoAsset.durationSeconds) changes[`${prefix}playbackTime`] = formatPlaybackTime(videoAsset.durationSeconds);
+                }
+                for (const [locale, translation] of Object.entries<LessonTranslation>(content.translations || {})) {
+                    if (translation?.videoAsset?.id === videoAsset.id) changes[`${prefix}translations.${locale}.videoAsset`] = sanitized;
+                }
+            }
+            if (Object.keys(changes).length === 0) continue;
+            await updateDoc(lessonDoc.ref, { ...changes, updatedAt: serverTimestamp() });
+            updatedCount++;
+        }
+        return updatedCount;
+    });
+}
+
+/**
+ * Soft-deletes a lesson. Use deleteLessonAndCleanUp to also take it out of course curriculums.
+ * @param removedFromCourses - Where the lesson was in curriculums, so restoring it from the trash puts it back.
+ */
+export async function deleteLesson(lessonId: string, deletedBy: TrashActor | null = null, removedFromCourses: TrashCurriculumPlacement[] = []): Promise<boolean> {
      if (!lessonId) return false;
     return retryOperation(async () => {
         const lessonRef = doc(db, LESSONS_COLLECTION, lessonId);
-        await updateDoc(lessonRef, { isDeleted: true, deletedAt: serverTimestamp() });
+        await updateDoc(lessonRef, { isDeleted: true, deletedAt: serverTimestamp(), deletedBy, removedFromCourses });
         return true;
     }, 3);
 }
@@ -398,6 +507,7 @@ export async function getQuizById(quizId: string, locale?: string): Promise<Quiz
     });
 }
 
+// Saves the quiz title, translations and settings into the quiz's draft
 export async function updateQuiz(quizId: string, quizData: Partial<QuizFormData>): Promise<Quiz | null> {
      if (!quizId) return null;
     return retryOperation(async () => {
@@ -405,25 +515,27 @@ export async function updateQuiz(quizId: string, quizData: Partial<QuizFormData>
         const quizSnap = await getDoc(quizRef);
         if (!quizSnap.exists() || quizSnap.data().isDeleted === true) return null;
         
-        const dataToUpdate: Partial<QuizFormData & { updatedAt: Timestamp }> = { updatedAt: serverTimestamp() as Timestamp };
+        const dataToUpdate: Partial<QuizFormData> = {};
         if (quizData.title !== undefined) dataToUpdate.title = quizData.title;
         if (quizData.translations !== undefined) dataToUpdate.translations = sanitizeQuizTranslations(quizData.translations);
+        if (quizData.settings !== undefined) dataToUpdate.settings = quizData.settings;
 
-        await updateDoc(quizRef, dataToUpdate);
+        await updateDoc(quizRef, buildDraftUpdate('quiz', quizSnap.data(), dataToUpdate));
         const updatedDocSnap = await getDoc(quizRef);
         if (updatedDocSnap.exists()) {
-            return { id: quizId, ...updatedDocSnap.data() } as Quiz;
+            return withDraft({ id: quizId, ...updatedDocSnap.data() } as Quiz);
         } else {
             return null;
         }
     });
 }
 
-export async function deleteQuiz(quizId: string): Promise<boolean> {
+// Soft-deletes a quiz. Use deleteQuizAndCleanUp to also take it out of course curriculums.
+export async function deleteQuiz(quizId: string, deletedBy: TrashActor | null = null, removedFromCourses: TrashCurriculumPlacement[] = []): Promise<boolean> {
      if (!quizId) return false;
     return retryOperation(async () => {
         const quizRef = doc(db, QUIZZES_COLLECTION, quizId);
-        await updateDoc(quizRef, { isDeleted: true, deletedAt: serverTimestamp() });
+        await updateDoc(quizRef, { isDeleted: true, deletedAt: serverTimestamp(), deletedBy, removedFromCourses });
         return true;
     }, 3);
 }
@@ -435,20 +547,76 @@ const sanitizeQuestionTranslations = (translations?: { [key: string]: QuestionTr
     for (const locale in translations) {
         if (Object.prototype.hasOwnProperty.call(translations, locale)) {
             const translation = translations[locale];
-            if (translation && (translation.text || translation.options)) {
+            if (translation && (translation.text || translation.options || translation.acceptedAnswers || translation.matchingPairs)) {
                 sanitized[locale] = {
                     text: translation.text || null,
                     options: (translation.options || []).map(opt => opt || null) // Ensure individual options can be null
                 };
+                if (translation.acceptedAnswers) {
+                    sanitized[locale].acceptedAnswers = translation.acceptedAnswers.map(answer => (answer || '').trim()).filter(Boolean);
+                }
+                if (translation.matchingPairs) {
+                    sanitized[locale].matchingPairs = translation.matchingPairs.map(pair => ({ prompt: pair?.prompt || '', match: pair?.match || '' }));
+                }
             }
         }
     }
     return sanitized;
 };
 
+// Sets the answer fields used by the question's type and removes those of other types
+const applyQuestionAnswerFields = (question: Question, source: Partial<Omit<Question, 'id'>>): Question => {
+    delete question.correctAnswer;
+    delete question.correctAnswers;
+    delete question.acceptedAnswers;
+    delete question.caseSensitive;
+    delete question.matchingPairs;
+    delete question.optionImages;
+    switch (question.type) {
+        case 'multiple-select':
+            question.correctAnswers = source.correctAnswers || [];
+            break;
+        case 'ordering':
+            // Options are authored in the correct sequence
+            question.correctAnswers = source.correctAnswers?.length ? source.correctAnswers : question.options;
+            break;
+        case 'short-answer':
+            question.options = [];
+            question.acceptedAnswers = (source.acceptedAnswers || []).map(answer => answer.trim()).filter(Boolean);
+            question.caseSensitive = !!source.caseSensitive;
+            break;
+        case 'matching':
+            question.matchingPairs = (source.matchingPairs || []).map(pair => ({ prompt: pair.prompt.trim(), match: pair.match.trim() }));
+            question.options = Array.from(new Set(question.matchingPairs.map(pair => pair.match)));
+            break;
+        case 'image-choice':
+            question.optionImages = question.options.map((_, index) => source.optionImages?.[index] || '');
+            question.correctAnswer = source.correctAnswer || '';
+            break;
+        default:
+            question.correctAnswer = source.correctAnswer || '';
+    }
+    return question;
+};
+
+const toQuestionForFirestore = (questionData: QuestionPayload): Question => {
+    const questionForFirestore: Question = {
+        id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        type: questionData.type,
+        text: questionData.text,
+        options: questionData.options || [],
+        translations: sanitizeQuestionTranslations(questionData.translations),
+        tag: questionData.tag?.trim() || null,
+    };
+    return applyQuestionAnswerFields(questionForFirestore, questionData);
+};
+
 
 export type QuestionPayload = Omit<Question, 'id'>;
 
+// Question changes are made to the quiz's draft, so learners keep the published questions until the draft is published
+const getDraftQuestions = (quizData: any): Question[] => getDraftContent('quiz', quizData).questions || [];
+
 
 export async function addQuestionToQuiz(quizId: string, questionData: QuestionPayload): Promise<Question | null> {
     if (!quizId) return null;
@@ -459,36 +627,39 @@ export async function addQuestionToQuiz(quizId: string, questionData: QuestionPa
             throw new Error(`Quiz with ID ${quizId} not found or is soft-deleted.`);
         }
 
-        const questionId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+        const questionForFirestore = toQuestionForFirestore(questionData);
+        const questionId = questionForFirestore.id;
 
-        const questionForFirestore: Question = {
-            id: questionId,
-            type: questionData.type,
-            text: questionData.text,
-            options: questionData.options || [],
-            translations: sanitizeQuestionTranslations(questionData.translations),
-        };
+        console.log("[addQuestionToQuiz] Object to be written:", JSON.stringify(questionForFirestore, null, 2));
 
-        if (questionData.type === 'multiple-select') {
-            questionForFirestore.correctAnswers = questionData.correctAnswers || [];
-        } else {
-            questionForFirestore.correctAnswer = questionData.correctAnswer || '';
-        }
-
-        console.log("[addQuestionToQuiz] Object to be written/unioned:", JSON.stringify(questionForFirestore, null, 2));
-
-        await updateDoc(quizRef, {
-            questions: arrayUnion(questionForFirestore),
-            updatedAt: serverTimestamp(),
-        });
+        await updateDoc(quizRef, buildDraftUpdate('quiz', quizSnap.data(), {
+            questions: [...getDraftQuestions(quizSnap.data()), questionForFirestore],
+        }));
 
         const updatedQuizSnap = await getDoc(quizRef);
-        const updatedQuiz = updatedQuizSnap.data() as Quiz;
-        const addedQuestion = updatedQuiz?.questions?.find(q => q.id === questionId);
+        const addedQuestion = getDraftQuestions(updatedQuizSnap.data()).find(q => q.id === questionId);
         return addedQuestion || null;
     });
 }
 
+// Adds several questions in a single write, so an import either lands completely or not at all
+export async function addQuestionsToQuiz(quizId: string, questionsData: QuestionPayload[]): Promise<Question[]> {
+    if (!quizId || questionsData.length === 0) return [];
+    return retryOperation(async () => {
+        const quizRef = doc(db, QUIZZES_COLLECTION, quizId);
+        const quizSnap = await getDoc(quizRef);
+        if (!quizSnap.exists() || quizSnap.data().isDeleted === true) {
+            throw new Error(`Quiz with ID ${quizId} not found or is soft-deleted.`);
+        }
+
+        const questionsForFirestore = questionsData.map(toQuestionForFirestore);
+        await updateDoc(quizRef, buildDraftUpdate('quiz', quizSnap.data(), {
+            questions: [...getDraftQuestions(quizSnap.data()), ...questionsForFirestore],
+        }));
+        return questionsForFirestore;
+    });
+}
+
 export async function updateQuestion(quizId: string, questionId: string, questionData: Partial<QuestionPayload>): Promise<Question | null> {
      if (!quizId || !questionId) return null;
     return retryOperation(async () => {
@@ -498,7 +669,7 @@ export async function updateQuestion(quizId: string, questionId: string, questio
             throw new Error(`Quiz with ID ${quizId} not found or is soft-deleted.`);
         }
 
-        const currentQuestions: Question[] = quizSnap.data().questions || [];
+        const currentQuestions = getDraftQuestions(quizSnap.data());
         let questionFound = false;
         const newQuestionsArray = currentQuestions.map(q => {
             if (q.id === questionId) {
@@ -509,14 +680,10 @@ export async function updateQuestion(quizId: string, questionId: string, questio
                     text: questionData.text !== undefined ? questionData.text : q.text,
                     options: questionData.options !== undefined ? questionData.options : q.options,
                     translations: questionData.translations !== undefined ? sanitizeQuestionTranslations(questionData.translations) : q.translations,
+                    tag: questionData.tag !== undefined ? (questionData.tag?.trim() || null) : (q.tag ?? null),
                 };
-                if (updatedQuestionData.type === 'multiple-select') {
-                    updatedQuestionData.correctAnswers = questionData.correctAnswers !== undefined ? questionData.correctAnswers : q.correctAnswers;
-                    delete updatedQuestionData.correctAnswer; // Ensure only one correct answer field
-                } else {
-                    updatedQuestionData.correctAnswer = questionData.correctAnswer !== undefined ? questionData.correctAnswer : q.correctAnswer;
-                    delete updatedQuestionData.correctAnswers; // Ensure only one correct answer field
-                }
+                const definedData = Object.fromEntries(Object.entries(questionData).filter(([, value]) => value !== undefined));
+                applyQuestionAnswerFields(updatedQuestionData, { ...q, ...definedData });
                  console.log("[updateQuestion] Object to replace item in array:", JSON.stringify(updatedQuestionData, null, 2));
                 return updatedQuestionData;
             }
@@ -527,12 +694,11 @@ export async function updateQuestion(quizId: string, questionId: string, questio
              throw new Error(`Question with ID ${questionId} not found in quiz ${quizId}.`);
         }
 
-        await updateDoc(quizRef, { questions: newQuestionsArray, updatedAt: serverTimestamp() });
+        await updateDoc(quizRef, buildDraftUpdate('quiz', quizSnap.data(), { questions: newQuestionsArray }));
 
         // Fetch the updated question from the array to return it
         const updatedQuizSnap = await getDoc(quizRef);
-        const updatedQuiz = updatedQuizSnap.data() as Quiz;
-        const updatedQuestion = updatedQuiz?.questions?.find(q => q.id === questionId);
+        const updatedQuestion = getDraftQuestions(updatedQuizSnap.data()).find(q => q.id === questionId);
         return updatedQuestion || null;
     });
 }
@@ -546,48 +712,56 @@ export async function deleteQuestion(quizId: string, questionId: string): Promis
              throw new Error(`Quiz with ID ${quizId} not found or is soft-deleted.`);
         }
 
-        const currentQuestions: Question[] = quizSnap.data().questions || [];
+        const currentQuestions = getDraftQuestions(quizSnap.data());
         const questionToRemove = currentQuestions.find(q => q.id === questionId);
         if (!questionToRemove) {
             console.warn(`Question with ID ${questionId} not found in quiz ${quizId} for deletion.`);
             return false;
         }
         const newQuestionsArray = currentQuestions.filter(q => q.id !== questionId);
-        await updateDoc(quizRef, { questions: newQuestionsArray, updatedAt: serverTimestamp() });
+        await updateDoc(quizRef, buildDraftUpdate('quiz', quizSnap.data(), { questions: newQuestionsArray }));
         return true;
     }, 3);
 }
 
-async function removeItemFromAllCurriculums(prefixedItemId: string): Promise<void> {
+// Takes an item out of every course curriculum and returns where it was
+async function removeItemFromAllCurriculums(prefixedItemId: string): Promise<TrashCurriculumPlacement[]> {
    return retryOperation(async () => {
        const coursesRef = collection(db, COURSES_COLLECTION);
        const q = query(coursesRef, where("curriculum", "array-contains", prefixedItemId), where("isDeleted", "==", false));
        const snapshot = await getDocs(q);
 
-       if (snapshot.empty) return;
+       if (snapshot.empty) return [];
 
        const batch = writeBatch(db);
+       const placements: TrashCurriculumPlacement[] = [];
        snapshot.forEach(courseDoc => {
            const courseRef = courseDoc.ref;
-           batch.update(courseRef, { curriculum: arrayRemove(prefixedItemId) });
+           const modules: CurriculumModule[] | undefined = courseDoc.data().modules;
+           placements.push({ courseId: courseDoc.id, moduleId: modules?.find(module => module.itemIds.includes(prefixedItemId))?.id ?? null });
+           batch.update(courseRef, {
+               curriculum: arrayRemove(prefixedItemId),
+               ...(modules ? { modules: removeItemFromModules(modules, prefixedItemId) } : {}),
+           });
        });
        await batch.commit();
        console.log(`Removed item ${prefixedItemId} from ${snapshot.size} course curriculums.`);
+       return placements;
    });
 }
 
-export async function deleteLessonAndCleanUp(lessonId: string): Promise<boolean> {
+export async function deleteLessonAndCleanUp(lessonId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
     if (!lessonId) return false;
     const prefixedLessonId = `lesson-${lessonId}`;
-    await removeItemFromAllCurriculums(prefixedLessonId);
-    return deleteLesson(lessonId);
+    const placements = await removeItemFromAllCurriculums(prefixedLessonId);
+    return deleteLesson(lessonId, deletedBy, placements);
 }
 
-export async function deleteQuizAndCleanUp(quizId: string): Promise<boolean> {
+export async function deleteQuizAndCleanUp(quizId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
      if (!quizId) return false;
      const prefixedQuizId = `quiz-${quizId}`;
-     await removeItemFromAllCurriculums(prefixedQuizId);
-     return deleteQuiz(quizId);
+     const placements = await removeItemFromAllCurriculums(prefixedQuizId);
+     return deleteQuiz(quizId, deletedBy, placements);
 }
 
 // --- Program Functions ---
@@ -607,6 +781,8 @@ export async function createProgram(programData: ProgramFormData): Promise<Progr
             secondSubscriptionPrice: programData.secondSubscriptionPrice || null,
             stripeSecondPriceId: programData.stripeSecondPriceId || null,
             courseIds: programData.courseIds || [],
+            isSequential: programData.isSequential ?? false,
+            coursePrerequisites: programData.coursePrerequisites || {},
             isDeleted: false,
             deletedAt: null,
             createdAt: serverTimestamp(),
@@ -688,26 +864,40 @@ export async function updateProgram(programId: string, programData: Partial<Prog
     });
 }
 
-export const updateProgramCourseAssignments = async (programId: string, courseIds: string[]): Promise<boolean> => {
+// courseIds is saved in path order. Prerequisites pointing at courses outside the program are dropped.
+export const updateProgramCourseAssignments = async (
+    programId: string,
+    courseIds: string[],
+    path?: Pick<Program, 'isSequential' | 'coursePrerequisites'>
+): Promise<boolean> => {
     if (!programId) return false;
     return retryOperation(async () => {
         const programRef = doc(db, PROGRAMS_COLLECTION, programId);
         const programSnap = await getDoc(programRef);
         if (!programSnap.exists() || programSnap.data().isDeleted === true) return false;
 
+        const sourcePrerequisites = path?.coursePrerequisites ?? (programSnap.data().coursePrerequisites || {});
+        const coursePrerequisites: { [courseId: string]: string[] } = {};
+        courseIds.forEach(courseId => {
+            const prerequisites = (sourcePrerequisites[courseId] || []).filter((id: string) => id !== courseId && courseIds.includes(id));
+            if (prerequisites.length > 0) coursePrerequisites[courseId] = prerequisites;
+        });
+
         await updateDoc(programRef, {
             courseIds: courseIds,
+            isSequential: path?.isSequential ?? programSnap.data().isSequential ?? false,
+            coursePrerequisites,
             updatedAt: serverTimestamp()
         });
         return true;
     });
 };
 
-export async function deleteProgram(programId: string): Promise<boolean> {
+export async function deleteProgram(programId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
     if (!programId) return false;
     return retryOperation(async () => {
         const programRef = doc(db, PROGRAMS_COLLECTION, programId);
-        await updateDoc(programRef, { isDeleted: true, deletedAt: serverTimestamp() });
+        await updateDoc(programRef, { isDeleted: true, deletedAt: serverTimestamp(), deletedBy });
         return true;
     }, 3);
 }
@@ -1,199 +1,389 @@
 
-import type { User } from '@/types/user';
+import { db } from './firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    setDoc,
+    query,
+    where,
+    writeBatch,
+    serverTimestamp,
+    Timestamp,
+} from 'firebase/firestore';
+import type { User, UserCourseProgressData } from '@/types/user';
+import type { Course, BrandCourse, Program } from '@/types/course';
+import type { BadgeDefinition, BadgeDefinitionFormData, BadgeCriteria, BadgeEventType, BadgeEventData, UserBadge } from '@/types/gamification';
 import type { BadgeInfo } from '@/components/gamification/BadgeCard';
+import type { LucideIcon } from 'lucide-react';
 import { BookOpen, Flame, Zap, Rocket, Star, Trophy, Award, Crown, Target, Heart, CalendarDays } from 'lucide-react';
-import { getCourseById } from './firestore-data';
+import { getAllCourses, getProgramById, getProgramsByIds } from './firestore-data';
+import { getBrandCoursesByBrandId } from './brand-content-data';
+import { getCompanyById } from './company-data';
+import { getUserById } from './user-data';
+import { createNotification } from './notifications-data';
+
+const BADGES_COLLECTION = 'badges';
+const USER_BADGES_COLLECTION = 'userBadges';
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for gamification op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`Gamification op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+// Icons a badge definition can reference by name
+export const BADGE_ICONS: Record<string, LucideIcon> = {
+    BookOpen, Flame, Zap, Rocket, Star, Trophy, Award, Crown, Target, Heart, CalendarDays,
+};
+
+// Seeded into the badges collection the first time definitions are requested and none exist.
+export const DEFAULT_BADGE_DEFINITIONS: Array<BadgeDefinitionFormData & { id: string }> = [
+    {
+        id: 'first-course',
+        name: "First Finish",
+        description: "Awarded for completing your very first course.",
+        icon: 'BookOpen',
+        color: 'text-green-500',
+        criteria: { type: 'courses_completed', count: 1 },
+        isActive: true,
+    },
+    {
+        id: 'five-courses',
+        name: "Five Course Finisher",
+        description: "Awarded for successfully completing five different courses.",
+        icon: 'Zap',
+        color: 'text-blue-500',
+        criteria: { type: 'courses_completed', count: 5 },
+        isActive: true,
+    },
+    {
+        id: 'ten-courses',
+        name: "Learning Leader",
+        description: "Awarded for successfully completing ten different courses.",
+        icon: 'Trophy',
+        color: 'text-amber-600',
+        criteria: { type: 'courses_completed', count: 10 },
+        isActive: true,
+    },
+    {
+        id: 'quiz-whiz',
+        name: "Quiz Whiz",
+        description: "Get a perfect score on a quiz on your first attempt.",
+        icon: 'Star',
+        color: 'text-yellow-500',
+        criteria: { type: 'perfect_quiz_first_attempt' },
+        isActive: true,
+    },
+    {
+        id: 'program-prodigy',
+        name: "Program Prodigy",
+        description: "Complete all courses within a single Program.",
+        icon: 'Award',
+        color: 'text-indigo-500',
+        criteria: { type: 'program_completed' },
+        isActive: true,
+    },
+    {
+        id: 'category-captain',
+        name: "Category Captain",
+        description: "Finish all available courses within a specific category.",
+        icon: 'Crown',
+        color: 'text-purple-500',
+        criteria: { type: 'category_completed' },
+        isActive: true,
+    },
+    {
+        id: 'rapid-learner',
+        name: "Rapid Learner",
+        description: "Finish an entire course within 48 hours of starting it.",
+        icon: 'Rocket',
+        color: 'text-cyan-500',
+        criteria: { type: 'course_completed_within_hours', hours: 48 },
+        isActive: true,
+    },
+    {
+        id: 'daily-dedication',
+        name: "Daily Dedication",
+        description: "Complete at least one lesson every day for a full week.",
+        icon: 'Flame',
+        color: 'text-orange-500',
+        criteria: { type: 'daily_lesson_streak', days: 7 },
+        isActive: true,
+    },
+];
+
+// --- Badge Definition Functions ---
 
 /**
- * Checks a user's data against various criteria to determine which badges they have earned.
- * @param user - The full User object to check achievements for.
- * @returns A promise that resolves to an array of BadgeInfo objects for earned badges.
+ * Writes the default badge definitions to Firestore. Existing definitions with the same ID are overwritten.
+ * @returns The number of definitions written.
  */
-export async function getBadgesForUser(user: User): Promise<BadgeInfo[]> {
-    const earnedBadges: BadgeInfo[] = [];
-
-    const courseProgressValues = Object.values(user.courseProgress || {});
-    const quizAttempts = courseProgressValues.flatMap(p => Object.entries(p.quizAttempts || {}));
-
-    // Badge: First Course Started
-    if (courseProgressValues.some(p => p.status !== 'Not Started')) {
-        earnedBadges.push({
-            name: "First Step",
-            description: "Awarded for starting your very first course.",
-            Icon: BookOpen,
-            color: 'text-green-500',
-            dateAwarded: new Date() // Placeholder
+export async function seedDefaultBadgeDefinitions(): Promise<number> {
+    return retryOperation(async () => {
+        const batch = writeBatch(db);
+        DEFAULT_BADGE_DEFINITIONS.forEach(({ id, ...definition }) => {
+            batch.set(doc(db, BADGES_COLLECTION, id), {
+                ...definition,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp(),
+            });
         });
-    }
+        await batch.commit();
+        console.log(`Seeded ${DEFAULT_BADGE_DEFINITIONS.length} default badge definitions.`);
+        return DEFAULT_BADGE_DEFINITIONS.length;
+    });
+}
 
-    // Badge: Five Courses Completed
-    if (courseProgressValues.filter(p => p.status === 'Completed').length >= 5) {
-        earnedBadges.push({
-            name: "Five Course Finisher",
-            description: "Awarded for successfully completing five different courses.",
-            Icon: Zap,
-            color: 'text-blue-500',
-            dateAwarded: new Date() // Placeholder
+/**
+ * Fetches all active badge definitions, seeding the defaults if the collection is empty.
+ * @returns A promise that resolves to an array of active badge definitions.
+ */
+export async function getBadgeDefinitions(): Promise<BadgeDefinition[]> {
+    return retryOperation(async () => {
+        const badgesRef = collection(db, BADGES_COLLECTION);
+        const snapshot = await getDocs(badgesRef);
+        if (snapshot.empty) {
+            await seedDefaultBadgeDefinitions();
+            return DEFAULT_BADGE_DEFINITIONS.map(definition => ({ ...definition } as BadgeDefinition));
+        }
+        const definitions: BadgeDefinition[] = [];
+        snapshot.forEach((docSnap) => {
+            const data = docSnap.data();
+            if (data.isActive !== false) {
+                definitions.push({ id: docSnap.id, ...data } as BadgeDefinition);
+            }
         });
-    }
+        return definitions;
+    });
+}
 
-    // Badge: Quiz Whiz (Perfect score on first attempt)
-    // Simplified: Check if any quiz was passed with only 1 attempt.
-    if (quizAttempts.some(([, attempts]) => attempts === 1)) {
-        earnedBadges.push({
-            name: "Quiz Whiz",
-            description: "Get a perfect score on a quiz on your first attempt.",
-            Icon: Star,
-            color: 'text-yellow-500',
-            dateAwarded: new Date() // Placeholder
-        });
-    }
-    
-    // Badge: Program Prodigy (Placeholder logic)
-    // This would require fetching program data and checking if all courses in a program are complete.
-    // For now, let's assume if they completed 3 specific courses, they get the badge.
-    const completedCourseIds = new Set(
-        Object.entries(user.courseProgress || {})
-            .filter(([, progress]) => progress.status === 'Completed')
-            .map(([courseId]) => courseId)
-    );
-    if (completedCourseIds.has('courseId1') && completedCourseIds.has('courseId2') && completedCourseIds.has('courseId3')) {
-        earnedBadges.push({
-            name: "Program Prodigy",
-            description: "Complete all courses within a single Program.",
-            Icon: Award,
-            color: 'text-indigo-500',
-            dateAwarded: new Date() // Placeholder
-        });
-    }
+// --- Awarded Badge Functions ---
 
-    // Badge: Category Captain (Placeholder logic)
-    // This is complex and requires course metadata. We'll simulate it.
-    // Let's say completing 4 courses grants a "Sales" category badge.
-    if (completedCourseIds.size >= 4) {
-        earnedBadges.push({
-            name: "Category Captain",
-            description: "Finish all available courses within a specific category.",
-            Icon: Crown,
-            color: 'text-purple-500',
-            dateAwarded: new Date() // Placeholder
-        });
-    }
-    
-    // Badge: Learning Leader (Placeholder logic)
-    // In a real app, this would involve a leaderboard or ranking system.
-    // We'll award it if the user has completed more than 10 courses.
-    if (completedCourseIds.size > 10) {
-        earnedBadges.push({
-            name: "Learning Leader",
-            description: "Be in the top 10% of users for total courses completed.",
-            Icon: Trophy,
-            color: 'text-amber-600',
-            dateAwarded: new Date() // Placeholder
+/**
+ * Fetches the badges a user has been awarded.
+ * @param userId - The ID of the user.
+ * @returns A promise that resolves to the user's awarded badge records.
+ */
+export async function getUserBadges(userId: string): Promise<UserBadge[]> {
+    if (!userId) return [];
+    return retryOperation(async () => {
+        const userBadgesRef = collection(db, USER_BADGES_COLLECTION);
+        const q = query(userBadgesRef, where("userId", "==", userId));
+        const snapshot = await getDocs(q);
+        const awards: UserBadge[] = [];
+        snapshot.forEach((docSnap) => {
+            const data = docSnap.data();
+            awards.push({
+                id: docSnap.id,
+                ...data,
+                awardedAt: data.awardedAt instanceof Timestamp ? data.awardedAt.toDate().toISOString() : data.awardedAt,
+            } as UserBadge);
         });
-    }
+        return awards;
+    });
+}
 
-    // Badge: Daily Dedication (Placeholder logic)
-    // Requires tracking daily login/activity. We'll award it if the user was created within the last 7 days.
-    const userCreatedAt = user.createdAt ? (user.createdAt as any).toDate() : new Date();
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    if (userCreatedAt > sevenDaysAgo) {
-         earnedBadges.push({
-            name: "Daily Dedication",
-            description: "Complete at least one lesson every day for a full week.",
-            Icon: Flame,
-            color: 'text-orange-500',
-            dateAwarded: new Date() // Placeholder
-        });
-    }
+/**
+ * Returns the badges a user has actually been awarded, with the date each was awarded.
+ * @param user - The User to fetch badges for.
+ * @returns A promise that resolves to an array of BadgeInfo objects, most recent first.
+ */
+export async function getBadgesForUser(user: User): Promise<BadgeInfo[]> {
+    if (!user?.id) return [];
+    const [definitions, awards] = await Promise.all([getBadgeDefinitions(), getUserBadges(user.id)]);
+    const definitionsById = new Map(definitions.map(definition => [definition.id, definition]));
 
-    // Badge: Weekend Warrior (Placeholder logic)
-    // Requires tracking login day. Let's award it if today is a weekend.
-    const today = new Date().getDay();
-    if (today === 0 || today === 6) {
-        earnedBadges.push({
-            name: "Weekend Warrior",
-            description: "Log in and complete a lesson on a Saturday or Sunday.",
-            Icon: CalendarDays,
-            color: 'text-rose-500',
-            dateAwarded: new Date() // Placeholder
-        });
-    }
+    return awards
+        .map((award) => {
+            const definition = definitionsById.get(award.badgeId);
+            if (!definition) return null;
+            return {
+                name: definition.name,
+                description: definition.description,
+                Icon: BADGE_ICONS[definition.icon] || Award,
+                color: definition.color,
+                dateAwarded: toDate(award.awardedAt),
+            } as BadgeInfo;
+        })
+        .filter((badge): badge is BadgeInfo => badge !== null)
+        .sort((a, b) => (b.dateAwarded?.getTime() ?? 0) - (a.dateAwarded?.getTime() ?? 0));
+}
 
-    // Badge: Rapid Learner (Placeholder logic)
-    // Requires tracking start and end dates. We'll award it if they have at least one completion.
-    if (completedCourseIds.size > 0) {
-        earnedBadges.push({
-            name: "Rapid Learner",
-            description: "Finish an entire course within 48 hours of starting it.",
-            Icon: Rocket,
-            color: 'text-cyan-500',
-            dateAwarded: new Date() // Placeholder
-        });
-    }
-    
-    // Badge: Upsell Expert (Placeholder)
-    if (completedCourseIds.has('courseId_upsell1') || completedCourseIds.size > 2) {
-        earnedBadges.push({
-            name: "Upsell Expert",
-            description: "Complete a specific set of courses related to upselling techniques.",
-            Icon: Zap,
-            color: 'text-lime-500',
-            dateAwarded: new Date() // Placeholder
-        });
+// --- Badge Engine ---
+
+interface BadgeEvaluationContext {
+    user: User;
+    eventType: BadgeEventType;
+    eventData: BadgeEventData;
+    completedCourseIds: Set<string>;
+    // Loaded on demand, only when a definition needs them
+    brandPrograms?: Program[];
+    brandCourses?: Array<Course | BrandCourse>;
+}
+
+async function loadBrandPrograms(context: BadgeEvaluationContext): Promise<Program[]> {
+    if (!context.brandPrograms) {
+        const company = context.user.companyId ? await getCompanyById(context.user.companyId) : null;
+        context.brandPrograms = await getProgramsByIds(company?.assignedProgramIds || []);
     }
+    return context.brandPrograms;
+}
 
-    // Badge: Client Retention Rockstar (Placeholder)
-    if (completedCourseIds.has('courseId_retention1') || completedCourseIds.size > 3) {
-        earnedBadges.push({
-            name: "Client Retention Rockstar",
-            description: "Finish all courses focused on customer service and retention.",
-            Icon: Heart,
-            color: 'text-pink-500',
-            dateAwarded: new Date() // Placeholder
-        });
+async function loadBrandCourses(context: BadgeEvaluationContext): Promise<Array<Course | BrandCourse>> {
+    if (!context.brandCourses) {
+        const programs = await loadBrandPrograms(context);
+        const programCourseIds = new Set(programs.flatMap(program => program.courseIds || []));
+        const globalCourses = programCourseIds.size > 0
+            ? (await getAllCourses()).filter(course => programCourseIds.has(course.id))
+            : [];
+        const brandCourses = context.user.companyId ? await getBrandCoursesByBrandId(context.user.companyId) : [];
+        context.brandCourses = [...globalCourses, ...brandCourses];
     }
+    return context.brandCourses;
+}
 
-    // Badge: Closer (Placeholder)
-     if (completedCourseIds.has('courseId_advanced_sales') || completedCourseIds.size > 6) {
-        earnedBadges.push({
-            name: "Closer",
-            description: "Successfully complete the final, most advanced sales course.",
-            Icon: Target,
-            color: 'text-red-500',
-            dateAwarded: new Date() // Placeholder
-        });
+async function isCriteriaMet(criteria: BadgeCriteria, context: BadgeEvaluationContext): Promise<boolean> {
+    const { user, eventType, eventData, completedCourseIds } = context;
+    switch (criteria.type) {
+        case 'courses_completed':
+            return completedCourseIds.size >= criteria.count;
+
+        case 'program_completed': {
+            const programs = criteria.programId
+                ? [await getProgramById(criteria.programId)].filter((p): p is Program => p !== null)
+                : await loadBrandPrograms(context);
+            return programs.some(program =>
+                (program.courseIds || []).length > 0 && program.courseIds.every(id => completedCourseIds.has(id))
+            );
+        }
+
+        case 'category_completed': {
+            const courses = await loadBrandCourses(context);
+            const coursesByCategory = new Map<string, string[]>();
+            courses.forEach(course => {
+                if (!course.category) return;
+                if (criteria.category && course.category !== criteria.category) return;
+                coursesByCategory.set(course.category, [...(coursesByCategory.get(course.category) || []), course.id]);
+            });
+            return Array.from(coursesByCategory.values()).some(ids => ids.every(id => completedCourseIds.has(id)));
+        }
+
+        case 'perfect_quiz_first_attempt':
+            return eventType === 'QUIZ_SUBMITTED' && eventData.score === 100 && eventData.attemptNumber === 1;
+
+        case 'course_completed_within_hours': {
+            const limitMs = criteria.hours * 60 * 60 * 1000;
+            return Object.values(user.courseProgress || {}).some((progress: UserCourseProgressData) => {
+                if (progress.status !== 'Completed') return false;
+                const startedAt = toDate(progress.startedAt);
+                const completedAt = toDate(progress.completedAt);
+                return !!startedAt && !!completedAt && completedAt.getTime() - startedAt.getTime() <= limitMs;
+            });
+        }
+
+        case 'daily_lesson_streak':
+            return (user.learningStreak?.longestStreak || 0) >= criteria.days;
+
+        default:
+            return false;
     }
-    
-    return earnedBadges;
 }
 
 /**
- * A placeholder for a more complex function that would be triggered
- * by specific events (e.g., course completion, quiz submission) to
- * check for and award new badges.
- * 
+ * Evaluates every badge the user has not yet earned against their current data and the triggering event.
+ * New badges are saved once with the real award date and announced with a 'badge' notification.
+ * Called after course progress updates and quiz submissions.
+ *
  * @param userId The ID of the user who performed an action.
- * @param eventType The type of event that occurred (e.g., 'COURSE_COMPLETED', 'QUIZ_PASSED').
+ * @param eventType The type of event that occurred.
  * @param eventData Additional data related to the event.
+ * @returns A promise that resolves to the badge definitions newly awarded by this event.
  */
-export async function checkForAndAwardBadges(userId: string, eventType: string, eventData: any): Promise<void> {
-    // In a real application, this function would:
-    // 1. Fetch the user's data.
-    // 2. Fetch the user's currently awarded badges.
-    // 3. Based on the eventType, check if they now qualify for any new badges.
-    // 4. If they do, and they don't already have it, award the new badge by updating their user profile.
-    // 5. Potentially send a notification about the new badge.
-    
-    console.log(`Checking for badges for user ${userId} due to event: ${eventType}`, eventData);
-    
-    // Example pseudo-logic:
-    // if (eventType === 'COURSE_COMPLETED') {
-    //   const user = await getUserById(userId);
-    //   const completedCount = Object.values(user.courseProgress).filter(p => p.status === 'Completed').length;
-    //   if (completedCount === 5 && !user.badges.includes('five-courses-badge')) {
-    //     // award a new badge
-    //   }
-    // }
+export async function checkForAndAwardBadges(userId: string, eventType: BadgeEventType, eventData: BadgeEventData = {}): Promise<BadgeDefinition[]> {
+    if (!userId) return [];
+
+    const user = await getUserById(userId);
+    if (!user) {
+        console.warn(`[checkForAndAwardBadges] User ${userId} not found or is soft-deleted.`);
+        return [];
+    }
+
+    const [definitions, awards] = await Promise.all([getBadgeDefinitions(), getUserBadges(userId)]);
+    const awardedBadgeIds = new Set(awards.map(award => award.badgeId));
+    const candidates = definitions.filter(definition => !awardedBadgeIds.has(definition.id));
+    if (candidates.length === 0) return [];
+
+    const context: BadgeEvaluationContext = {
+        user,
+        eventType,
+        eventData,
+        completedCourseIds: new Set(
+            Object.entries(user.courseProgress || {})
+                .filter(([, progress]) => progress.status === 'Completed')
+                .map(([courseId]) => courseId)
+        ),
+    };
+
+    const newlyAwarded: BadgeDefinition[] = [];
+    for (const definition of candidates) {
+        try {
+            if (!(await isCriteriaMet(definition.criteria, context))) continue;
+
+            const awardRef = doc(db, USER_BADGES_COLLECTION, `${userId}_${definition.id}`);
+            const alreadyAwarded = await retryOperation(async () => (await getDoc(awardRef)).exists());
+            if (alreadyAwarded) continue;
+
+            await retryOperation(() => setDoc(awardRef, {
+                userId,
+                badgeId: definition.id,
+                awardedAt: serverTimestamp(),
+                triggeringEvent: eventType,
+                eventData: eventData || null,
+            }));
+            newlyAwarded.push(definition);
+
+            createNotification({
+                recipientId: userId,
+                senderId: 'SYSTEM',
+                senderName: 'Gymramp',
+                type: 'badge',
+                content: `You earned a new badge: ${definition.name}!`,
+                href: '/achievements',
+            }).catch(error => console.error(`[checkForAndAwardBadges] Failed to notify user ${userId} about badge ${definition.id}:`, error));
+        } catch (error) {
+            console.error(`[checkForAndAwardBadges] Error evaluating badge ${definition.id} for user ${userId}:`, error);
+        }
+    }
+
+    if (newlyAwarded.length > 0) {
+        console.log(`Awarded ${newlyAwarded.length} badge(s) to user ${userId} after ${eventType}:`, newlyAwarded.map(b => b.id));
+    }
+    return newlyAwarded;
+}
+
+// --- Helper Functions ---
+function toDate(value: Timestamp | Date | string | null | undefined): Date | null {
+    if (!value) return null;
+    if (value instanceof Timestamp) return value.toDate();
+    if (value instanceof Date) return value;
+    const parsed = new Date(value);
+    return isNaN(parsed.valueOf()) ? null : parsed;
 }
@@ -4,7 +4,7 @@ import type { LucideIcon } from 'lucide-react';
 import {
     BarChartBig, Building, Layers, CreditCard, BookOpen, FileText,
     ListChecks, UserPlus, ShoppingCart, Gift,
-    TestTube2, Percent, HelpCircle, LayoutDashboard, Users, MapPin, Settings, Award, Cog, Package, Handshake, KeyRound, Bell
+    TestTube2, Percent, HelpCircle, LayoutDashboard, Users, MapPin, Settings, Award, Cog, Package, Handshake, KeyRound, Bell, Trash2, ClipboardCheck, Share2, Network, TrendingUp
 } from 'lucide-react';
 
 export interface HelpTopic {
@@ -25,8 +25,14 @@ As a Super Admin, you can create, edit, and manage all brands (companies) on the
 *   Use the **Add New Brand** button to create new client accounts. These are considered "Parent Brands".
 *   From the brand list, you can **Edit Brand & Settings** to modify details like name, logo, user limits, and trial status. This is also where you manage which Programs are assigned to a brand.
 *   You can also manage specific **Locations** and **Users** for each brand directly from the brand list actions.
+*   To send a brand's learning activity to its corporate Learning Record Store, open **Edit Brand & Settings** and fill in the **Learning Record Store (xAPI)** card with the LRS endpoint, key and secret. Course launches, lesson views, quiz answers and results, and course completions are sent as xAPI statements, and undelivered statements are retried automatically. Child brands without their own LRS use their parent's.
       `,
     },
+    {
+      title: "Group Report",
+      icon: Network,
+      content: "The [**Group Report**](/admin/hierarchy-report) rolls up active users, completion rate, overdue assignments and average quiz score for a Parent Brand and all of its Child Brands. Pick the Parent Brand, then drill down to a Child Brand, a location and its users. Locations trailing the group are listed under **Locations Falling Behind**.",
+    },
     {
         title: "Partners & Revenue Share",
         icon: Handshake,
@@ -56,9 +62,12 @@ You have full control over all user accounts across the platform.
 Manage the master library of Programs, Courses, Lessons, and Quizzes. Access these via the **Admin** section in the main sidebar.
 
 *   **Programs:** Create and manage Programs, which are collections of courses. Define pricing and assign courses to each Program. You can find this under [**Admin > Programs**](/admin/programs).
-*   **Courses:** Create new global courses, define details, and build the curriculum by adding lessons and quizzes. Find this at [**Admin > Course Admin > Courses**](/admin/courses).
-*   **Lessons:** Build individual lesson content with text, videos, and images. Find this at [**Admin > Course Admin > Lessons**](/admin/lessons).
+*   **Courses:** Create new global courses, define details, and build the curriculum by grouping lessons and quizzes into modules that can be reordered by drag and drop. Use **Export** on a course to download it with its lessons, quizzes and media as a course package, and **Import Course** to add a package to the global library or a brand's library, for example to move a course from staging to production. **Copy to Brand** gives a brand its own editable copy of a global course. Find this at [**Admin > Course Admin > Courses**](/admin/courses).
+*   **Lessons:** Build individual lesson content with text, videos, and images. Use the **Video Checkpoints** tab to pause the video at set times with a quiz or a single question, optionally requiring a correct answer before the video continues. Upload WebVTT or SRT caption files per language on the **Captions** tab; learners can switch captions on and follow along in an interactive transcript. Uploaded videos can be paused and resumed, and are then converted in the background into adaptive-quality streams with a poster thumbnail; the lesson's playback time is filled in from the video automatically. Translated videos get their own checkpoints, captions and processing. To use content built in an authoring tool, set the **Lesson Type** to **SCORM Package** and upload a SCORM 1.2 or 2004 zip; learners play it inside the course, their bookmark and score are saved, and the lesson counts as complete once the package reports it completed or passed. Find this at [**Admin > Course Admin > Lessons**](/admin/lessons).
 *   **Quizzes:** Create quizzes and manage their questions. Find this at [**Admin > Course Admin > Quizzes**](/admin/quizzes).
+*   **Certificates:** Design certificate templates with a background, fonts and positioned fields, then choose one per course. Find this at [**Admin > Course Admin > Certificates**](/admin/certificate-templates).
+
+Edits to courses, lessons and quizzes are saved as a **draft**; learners keep seeing the published version, and items with a draft show **Unpublished changes**. Open **Publishing & History** to review the changes and publish them as a new version, or to see earlier versions, what changed in each, and roll back. Quiz attempts already in progress finish on the version they started. Curriculum order and schedules apply right away.
 
 Programs are then assigned to Brands to grant them access to the courses within.
       `,
@@ -82,6 +91,29 @@ Configure system-wide settings.
 *   [**System Settings**](/admin/settings): Configure email sending (primarily Google OAuth 2.0 via environment variables) for application emails like new user welcomes. You can also send test emails from this page to verify your configuration.
       `,
     },
+    {
+      title: "Restoring Deleted Items",
+      icon: Trash2,
+      content: `
+Deleted brands, users, content and other records go to the [**Trash**](/admin/trash) instead of disappearing.
+
+*   **Restore:** Brings an item back with what was deleted along with it. A brand comes back with its locations and users, a location is reassigned to its users, and a lesson or quiz returns to the courses it was in.
+*   **Retention:** Set how many days deleted items are kept. After that, the daily purge job deletes them permanently, along with files nothing else uses.
+*   **Delete Now:** Permanently deletes an item right away. This cannot be undone.
+      `,
+    },
+    {
+      title: "Reviewing Brand Courses",
+      icon: ClipboardCheck,
+      content: `
+Turn on **Require Course Approval** when editing a brand to review its courses before learners see them. Child brands' courses go to their parent account's admins; everything else comes to you.
+
+*   **Course Reviews:** [**Course Reviews**](/admin/course-reviews) lists the open submissions, oldest first.
+*   **Comment:** Leave a comment on any changed field or on the submission as a whole.
+*   **Request Changes:** Sends the submission back to its author with your comments.
+*   **Approve:** Publishes the submitted content, including its curriculum and changed lessons and quizzes. A new course becomes visible to learners at this point.
+      `,
+    },
     {
         title: "Using Notifications",
         icon: Bell,
@@ -114,10 +146,30 @@ As a Super Admin, you can also force a password reset by setting a new temporary
       icon: LayoutDashboard,
       content: "Your dashboard provides a snapshot of your Brand's learning activity, employee progress, and active courses. Use the Brand and Location filters to scope your view if you manage Child Brands or multiple locations. Access this via the [**Dashboard**](/dashboard) link in your sidebar.",
     },
+    {
+      title: "Learning Activity Charts",
+      icon: TrendingUp,
+      content: "The charts at the top of your [**Dashboard**](/dashboard) show daily active learners, lessons completed, courses completed, quizzes passed and failed, and minutes learned. Pick the last 7, 30 or 90 days or a custom range, and compare it with the previous period, the same period last year or a period of your choosing. The percentage on each card is the change from the comparison period. Figures follow the Brand and Location filters and are counted from the day this tracking began.",
+    },
+    {
+      title: "Group Report",
+      icon: Network,
+      content: "The [**Group Report**](/admin/hierarchy-report) totals active users, completion rate, overdue assignments and average quiz score for your Brand and all of its Child Brands. Select a Child Brand to compare it with its siblings, then a location to see each user. Locations trailing the group are listed under **Locations Falling Behind**.",
+    },
     {
       title: "Managing Your Brands & Locations",
       icon: Building,
-      content: "Navigate to [**Brands**](/admin/companies) from your sidebar to manage your primary Brand and any Child Brands you create. From the Brand list, you can edit details and manage a brand's specific **Locations**.",
+      content: "Navigate to [**Brands**](/admin/companies) from your sidebar to manage your primary Brand and any Child Brands you create. From the Brand list, you can edit details, connect a Learning Record Store (xAPI) to receive your learners' activity, and manage a brand's specific **Locations**.",
+    },
+    {
+      title: "Restoring Deleted Items",
+      icon: Trash2,
+      content: "Deleted Child Brands, locations, users and brand content are kept in the [**Trash**](/admin/trash) for a while before they are removed for good. Restoring a Child Brand also brings back its locations and users.",
+    },
+    {
+      title: "Course Approval",
+      icon: ClipboardCheck,
+      content: "If your Brand requires course approval, open **Publishing & History** on a course and choose **Submit for Review** instead of publishing. Curriculum changes and edits to the course's lessons and quizzes are submitted with it. Learners see new courses and changes once a reviewer approves them. Reviewer comments appear in the same place. If you manage Child Brands that require approval, review their submissions under [**Course Reviews**](/admin/course-reviews).",
     },
     {
       title: "Managing Your Users",
@@ -130,9 +182,23 @@ As a Super Admin, you can also force a password reset by setting a new temporary
       content: `
 If course management is enabled for your Brand, you will see a **My Content** section in your sidebar. This allows you to create courses, lessons, and quizzes that are exclusive to your organization.
 
-*   [**My Courses**](/brand-admin/courses): Create courses specific to your brand.
-*   [**My Lessons**](/brand-admin/lessons): Create and manage lessons unique to your brand.
+*   [**My Courses**](/brand-admin/courses): Create courses specific to your brand. Export a course as a package, or use **Import Course** to add a package you received.
+*   [**My Lessons**](/brand-admin/lessons): Create and manage lessons unique to your brand, including SCORM 1.2 and 2004 packages.
 *   [**My Quizzes**](/brand-admin/quizzes): Develop quizzes and manage their questions.
+*   [**My Certificates**](/brand-admin/certificate-templates): Design certificate templates and pick one for each course.
+
+Edits to your courses, lessons and quizzes are saved as a draft until you publish them from **Publishing & History**, where you can also review earlier versions and roll back.
+      `,
+    },
+    {
+      title: "Sharing Courses with Child Brands",
+      icon: Share2,
+      content: `
+A parent brand can offer its courses to its Child Brands instead of recreating them in each one.
+
+*   **Share:** In [**My Courses**](/brand-admin/courses), choose **Share with Child Brands** on a course and pick all Child Brands or only some. The same dialog shows how many users in each Child Brand were assigned the course and completed it.
+*   **Assign:** Child Brands see shared courses under **Shared by Parent Brand** when assigning courses. They can't edit them, and your published changes reach them automatically.
+*   **Copy:** A Child Brand that manages its own courses can use **Make Editable Copy** to customize a shared course. The copy no longer receives your updates.
       `,
     },
     {
@@ -166,10 +232,30 @@ Currently, only Super Admins can manually set temporary passwords for users.
       icon: LayoutDashboard,
       content: "Your dashboard shows your Brand's learning progress, active users, course completion rates, and issued certificates. Use the Brand and Location filters to scope your view if you manage Child Brands or multiple locations. Access via [**Dashboard**](/dashboard) in your sidebar.",
     },
+    {
+      title: "Learning Activity Charts",
+      icon: TrendingUp,
+      content: "The charts at the top of your [**Dashboard**](/dashboard) show daily active learners, lessons completed, courses completed, quizzes passed and failed, and minutes learned. Pick the last 7, 30 or 90 days or a custom range, and compare it with the previous period, the same period last year or a period of your choosing. The percentage on each card is the change from the comparison period. Figures follow the Brand and Location filters and are counted from the day this tracking began.",
+    },
+    {
+      title: "Group Report",
+      icon: Network,
+      content: "The [**Group Report**](/admin/hierarchy-report) totals active users, completion rate, overdue assignments and average quiz score for your Brand and all of its Child Brands. Select a Child Brand to compare it with its siblings, then a location to see each user. Locations trailing the group are listed under **Locations Falling Behind**.",
+    },
     {
       title: "Managing Your Brands & Locations",
       icon: Building,
-      content: "Navigate to [**Brands**](/admin/companies) from your sidebar to manage your primary Brand and any Child Brands you create. From the Brand list, you can edit details and manage a brand's specific **Locations**.",
+      content: "Navigate to [**Brands**](/admin/companies) from your sidebar to manage your primary Brand and any Child Brands you create. From the Brand list, you can edit details, connect a Learning Record Store (xAPI) to receive your learners' activity, and manage a brand's specific **Locations**.",
+    },
+    {
+      title: "Restoring Deleted Items",
+      icon: Trash2,
+      content: "Deleted Child Brands, locations, users and brand content are kept in the [**Trash**](/admin/trash) for a while before they are removed for good. Restoring a Child Brand also brings back its locations and users.",
+    },
+    {
+      title: "Course Approval",
+      icon: ClipboardCheck,
+      content: "If your Brand requires course approval, open **Publishing & History** on a course and choose **Submit for Review** instead of publishing. Curriculum changes and edits to the course's lessons and quizzes are submitted with it. Learners see new courses and changes once a reviewer approves them. Reviewer comments appear in the same place. If you manage Child Brands that require approval, review their submissions under [**Course Reviews**](/admin/course-reviews).",
     },
     {
       title: "Managing Your Users",
@@ -182,9 +268,23 @@ Currently, only Super Admins can manually set temporary passwords for users.
       content: `
 If course management is enabled for your Brand, you will see a **My Content** section in your sidebar. This allows you to create courses, lessons, and quizzes that are exclusive to your organization.
 
-*   [**My Courses**](/brand-admin/courses): Create courses specific to your brand.
-*   [**My Lessons**](/brand-admin/lessons): Create and manage lessons unique to your brand.
+*   [**My Courses**](/brand-admin/courses): Create courses specific to your brand. Export a course as a package, or use **Import Course** to add a package you received.
+*   [**My Lessons**](/brand-admin/lessons): Create and manage lessons unique to your brand, including SCORM 1.2 and 2004 packages.
 *   [**My Quizzes**](/brand-admin/quizzes): Develop quizzes and manage their questions.
+*   [**My Certificates**](/brand-admin/certificate-templates): Design certificate templates and pick one for each course.
+
+Edits to your courses, lessons and quizzes are saved as a draft until you publish them from **Publishing & History**, where you can also review earlier versions and roll back.
+      `,
+    },
+    {
+      title: "Sharing Courses with Child Brands",
+      icon: Share2,
+      content: `
+A parent brand can offer its courses to its Child Brands instead of recreating them in each one.
+
+*   **Share:** In [**My Courses**](/brand-admin/courses), choose **Share with Child Brands** on a course and pick all Child Brands or only some. The same dialog shows how many users in each Child Brand were assigned the course and completed it.
+*   **Assign:** Child Brands see shared courses under **Shared by Parent Brand** when assigning courses. They can't edit them, and your published changes reach them automatically.
+*   **Copy:** A Child Brand that manages its own courses can use **Make Editable Copy** to customize a shared course. The copy no longer receives your updates.
       `,
     },
     {
@@ -218,6 +318,11 @@ Currently, only Super Admins can manually set temporary passwords for users.
       icon: LayoutDashboard,
       content: "Your dashboard focuses on your team's progress within your assigned location(s) and brand. Track completion rates for assigned courses and view issued certificates. Access via [**Dashboard**](/dashboard) in your sidebar.",
     },
+    {
+      title: "Learning Activity Charts",
+      icon: TrendingUp,
+      content: "The charts at the top of your [**Dashboard**](/dashboard) show daily active learners, lessons completed, courses completed, quizzes passed and failed, and minutes learned for your brand. Select one of your locations to see just its learners. Pick the last 7, 30 or 90 days or a custom range, and compare it with an earlier period to see the percentage change on each card.",
+    },
     {
       title: "Managing Your Team",
       icon: Users,
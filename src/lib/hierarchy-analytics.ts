@@ -0,0 +1,143 @@
+// src/lib/hierarchy-analytics.ts
+import type { AnalyticsMetrics, BrandAnalytics, LocationAnalytics, UserAnalytics } from '@/types/analytics';
+import type { QuizAttempt } from '@/types/course';
+import type { Company, Location, User } from '@/types/user';
+import { getChildBrandsByParentId, getCompanyById, getLocationsByCompanyId } from './company-data';
+import { getUsersByCompanyId } from './user-data';
+import { getSubmittedQuizAttemptsForUsers } from './quiz-attempt-data';
+import { getOverdueCourseIds } from './due-dates';
+
+// A location is falling behind when it trails the group by this many percentage points
+export const FALLING_BEHIND_MARGIN = 15;
+
+export const emptyMetrics = (): AnalyticsMetrics => ({
+    totalUsers: 0,
+    activeUsers: 0,
+    assignments: 0,
+    completedAssignments: 0,
+    overdueAssignments: 0,
+    quizAttempts: 0,
+    quizScoreTotal: 0,
+});
+
+export function addMetrics(...metrics: AnalyticsMetrics[]): AnalyticsMetrics {
+    return metrics.reduce((total, m) => ({
+        totalUsers: total.totalUsers + m.totalUsers,
+        activeUsers: total.activeUsers + m.activeUsers,
+        assignments: total.assignments + m.assignments,
+        completedAssignments: total.completedAssignments + m.completedAssignments,
+        overdueAssignments: total.overdueAssignments + m.overdueAssignments,
+        quizAttempts: total.quizAttempts + m.quizAttempts,
+        quizScoreTotal: total.quizScoreTotal + m.quizScoreTotal,
+    }), emptyMetrics());
+}
+
+// Percentage of assigned courses completed, or null when nothing is assigned
+export const getCompletionRate = (m: AnalyticsMetrics): number | null =>
+    m.assignments > 0 ? Math.round((m.completedAssignments / m.assignments) * 100) : null;
+
+// Percentage of assigned courses past their due date, or null when nothing is assigned
+export const getOverdueRate = (m: AnalyticsMetrics): number | null =>
+    m.assignments > 0 ? Math.round((m.overdueAssignments / m.assignments) * 100) : null;
+
+export const getAverageQuizScore = (m: AnalyticsMetrics): number | null =>
+    m.quizAttempts > 0 ? Math.round(m.quizScoreTotal / m.quizAttempts) : null;
+
+function getUserMetrics(user: User, attempts: QuizAttempt[], now: Date): AnalyticsMetrics {
+    const assignedCourseIds = user.assignedCourseIds || [];
+    return {
+        totalUsers: 1,
+        activeUsers: user.isActive !== false ? 1 : 0,
+        assignments: assignedCourseIds.length,
+        completedAssignments: assignedCourseIds.filter(courseId => user.courseProgress?.[courseId]?.status === 'Completed').length,
+        overdueAssignments: getOverdueCourseIds(user, now).length,
+        quizAttempts: attempts.length,
+        quizScoreTotal: attempts.reduce((sum, attempt) => sum + (attempt.score || 0), 0),
+    };
+}
+
+function buildLocations(brandId: string, locations: Location[], users: UserAnalytics[], userLocationIds: Map<string, string[]>): LocationAnalytics[] {
+    const rows: LocationAnalytics[] = locations.map(location => {
+        const locationUsers = users.filter(user => userLocationIds.get(user.userId)?.includes(location.id));
+        return { locationId: location.id, name: location.name, brandId, metrics: addMetrics(...locationUsers.map(user => user.metrics)), users: locationUsers, fallingBehind: [] };
+    });
+    const knownLocationIds = new Set(locations.map(location => location.id));
+    const unassigned = users.filter(user => !(userLocationIds.get(user.userId) || []).some(id => knownLocationIds.has(id)));
+    if (unassigned.length > 0) {
+        rows.push({ locationId: null, name: 'No location', brandId, metrics: addMetrics(...unassigned.map(user => user.metrics)), users: unassigned, fallingBehind: [] });
+    }
+    return rows;
+}
+
+// Compares every location with the group as a whole and records why it trails, if it does
+function markLocationsFallingBehind(brand: BrandAnalytics, group: AnalyticsMetrics): void {
+    const groupCompletion = getCompletionRate(group);
+    const groupOverdue = getOverdueRate(group);
+    const groupQuizScore = getAverageQuizScore(group);
+    brand.locations.forEach(location => {
+        const reasons: string[] = [];
+        const completion = getCompletionRate(location.metrics);
+        const overdue = getOverdueRate(location.metrics);
+        const quizScore = getAverageQuizScore(location.metrics);
+        if (completion !== null && groupCompletion !== null && completion <= groupCompletion - FALLING_BEHIND_MARGIN) {
+            reasons.push(`Completion ${completion}% vs. ${groupCompletion}% for the group`);
+        }
+        if (overdue !== null && groupOverdue !== null && overdue >= groupOverdue + FALLING_BEHIND_MARGIN) {
+            reasons.push(`${overdue}% of assignments overdue vs. ${groupOverdue}% for the group`);
+        }
+        if (quizScore !== null && groupQuizScore !== null && quizScore <= groupQuizScore - FALLING_BEHIND_MARGIN) {
+            reasons.push(`Average quiz score ${quizScore}% vs. ${groupQuizScore}% for the group`);
+        }
+        location.fallingBehind = reasons;
+    });
+    brand.children.forEach(child => markLocationsFallingBehind(child, group));
+}
+
+async function loadBrand(brand: Company, visited: Set<string>, now: Date): Promise<BrandAnalytics> {
+    visited.add(brand.id);
+    const [users, locations, childBrands] = await Promise.all([
+        getUsersByCompanyId(brand.id),
+        getLocationsByCompanyId(brand.id),
+        getChildBrandsByParentId(brand.id),
+    ]);
+    const attempts = await getSubmittedQuizAttemptsForUsers(users.map(user => user.id));
+
+    const userRows: UserAnalytics[] = users.map(user => ({
+        userId: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        isActive: user.isActive !== false,
+        metrics: getUserMetrics(user, attempts.filter(attempt => attempt.userId === user.id), now),
+    }));
+    const userLocationIds = new Map(users.map(user => [user.id, user.assignedLocationIds || []]));
+    const children = await Promise.all(childBrands.filter(child => !visited.has(child.id)).map(child => loadBrand(child, visited, now)));
+    const ownMetrics = addMetrics(...userRows.map(user => user.metrics));
+
+    return {
+        brandId: brand.id,
+        name: brand.name,
+        parentBrandId: brand.parentBrandId || null,
+        metrics: addMetrics(ownMetrics, ...children.map(child => child.metrics)),
+        ownMetrics,
+        locations: buildLocations(brand.id, locations, userRows, userLocationIds),
+        children,
+    };
+}
+
+/**
+ * Builds the hierarchy report for a brand and everything below it: totals for the whole group, each child brand,
+ * each location and each user, with locations that trail the group flagged.
+ */
+export async function getHierarchyAnalytics(rootBrandId: string, now: Date = new Date()): Promise<BrandAnalytics | null> {
+    const rootBrand = await getCompanyById(rootBrandId);
+    if (!rootBrand) return null;
+    const report = await loadBrand(rootBrand, new Set(), now);
+    markLocationsFallingBehind(report, report.metrics);
+    return report;
+}
+
+// Every brand in the report, parent first, for lookups while drilling down
+export function flattenBrandAnalytics(brand: BrandAnalytics): BrandAnalytics[] {
+    return [brand, ...brand.children.flatMap(flattenBrandAnalytics)];
+}
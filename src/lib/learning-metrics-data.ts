@@ -0,0 +1,168 @@
+// src/lib/learning-metrics-data.ts
+import { db } from './firebase';
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    where,
+    writeBatch,
+    increment,
+    arrayUnion,
+    serverTimestamp,
+} from 'firebase/firestore';
+import type { DailyLearningMetrics, LearningActivity, LearningMetricsScope, LearningMetricsSummary } from '@/types/analytics';
+import type { User } from '@/types/user';
+
+const LEARNING_METRICS_COLLECTION = 'learningMetrics';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for learning metrics op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`Learning metrics op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+// Days are bucketed in UTC so every learner's activity lands in the same day whatever their time zone
+export const toMetricsDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const fromMetricsDateKey = (dateKey: string): Date => new Date(`${dateKey}T00:00:00.000Z`);
+
+export const addDaysToDateKey = (dateKey: string, days: number): string =>
+    toMetricsDateKey(new Date(fromMetricsDateKey(dateKey).getTime() + days * DAY_MS));
+
+// Every day from `from` to `to`, inclusive
+export function getDateKeysBetween(from: string, to: string): string[] {
+    const keys: string[] = [];
+    for (let key = from; key <= to && keys.length <= 366 * 5; key = addDaysToDateKey(key, 1)) keys.push(key);
+    return keys;
+}
+
+const getScopeKey = (scope: LearningMetricsScope) => `${scope.type}_${scope.id}`;
+
+const getMetricsDocId = (scope: LearningMetricsScope, dateKey: string) => `${getScopeKey(scope)}_${dateKey}`;
+
+const emptyDay = (date: string): DailyLearningMetrics => ({
+    date,
+    activeLearnerIds: [],
+    lessonsCompleted: 0,
+    coursesCompleted: 0,
+    quizzesPassed: 0,
+    quizzesFailed: 0,
+    secondsLearned: 0,
+});
+
+/**
+ * Adds a learner's progress event to today's aggregates for their brand and each of their locations.
+ * Any event, even one with nothing to count, marks the learner as active for the day.
+ * Metrics are a by-product of progress, so failures are logged rather than thrown.
+ */
+export async function recordLearningActivity(
+    learner: Pick<User, 'id' | 'companyId' | 'assignedLocationIds'>,
+    activity: LearningActivity,
+    at: Date = new Date()
+): Promise<void> {
+    if (!learner.id || !learner.companyId) return; // Super Admins and Partners don't belong to a brand
+    const scopes: LearningMetricsScope[] = [
+        { type: 'brand', id: learner.companyId },
+        ...Array.from(new Set(learner.assignedLocationIds || [])).map(id => ({ type: 'location' as const, id })),
+    ];
+    const dateKey = toMetricsDateKey(at);
+
+    try {
+        await retryOperation(async () => {
+            const batch = writeBatch(db);
+            scopes.forEach(scope => {
+                batch.set(doc(db, LEARNING_METRICS_COLLECTION, getMetricsDocId(scope, dateKey)), {
+                    scopeType: scope.type,
+                    scopeId: scope.id,
+                    scopeKey: getScopeKey(scope),
+                    brandId: learner.companyId,
+                    date: dateKey,
+                    activeLearnerIds: arrayUnion(learner.id),
+                    lessonsCompleted: increment(activity.lessonsCompleted || 0),
+                    coursesCompleted: increment(activity.coursesCompleted || 0),
+                    quizzesPassed: increment(activity.quizzesPassed || 0),
+                    quizzesFailed: increment(activity.quizzesFailed || 0),
+                    secondsLearned: increment(Math.max(0, Math.round(activity.secondsLearned || 0))),
+                    updatedAt: serverTimestamp(),
+                }, { merge: true });
+            });
+            await batch.commit();
+        });
+    } catch (error) {
+        console.error(`Failed to record learning metrics for user ${learner.id}:`, error);
+    }
+}
+
+function mergeDay(total: DailyLearningMetrics, data: Record<string, any>): void {
+    total.activeLearnerIds = Array.from(new Set([...total.activeLearnerIds, ...(data.activeLearnerIds || [])]));
+    total.lessonsCompleted += data.lessonsCompleted || 0;
+    total.coursesCompleted += data.coursesCompleted || 0;
+    total.quizzesPassed += data.quizzesPassed || 0;
+    total.quizzesFailed += data.quizzesFailed || 0;
+    total.secondsLearned += data.secondsLearned || 0;
+}
+
+/**
+ * Fetches the daily aggregates for one or more scopes, merged into a single series with a row for every day in the range.
+ * Counts are added up across scopes, so pass scopes that don't overlap, e.g. several brands, or one location.
+ * @param scopes - The brands and/or locations to include.
+ * @param from - First day, as YYYY-MM-DD.
+ * @param to - Last day, as YYYY-MM-DD.
+ */
+export async function getDailyLearningMetrics(scopes: LearningMetricsScope[], from: string, to: string): Promise<DailyLearningMetrics[]> {
+    const dateKeys = getDateKeysBetween(from, to);
+    const days = new Map(dateKeys.map(dateKey => [dateKey, emptyDay(dateKey)]));
+    if (scopes.length === 0) return dateKeys.map(dateKey => days.get(dateKey)!);
+
+    const scopeKeys = Array.from(new Set(scopes.map(getScopeKey)));
+    const metricsRef = collection(db, LEARNING_METRICS_COLLECTION);
+
+    // Only the requested scopes' documents are read. Needs the (scopeKey, date) index in firestore.indexes.json
+    const docs = await retryOperation(async () => {
+        const chunks: string[][] = [];
+        for (let i = 0; i < scopeKeys.length; i += 30) chunks.push(scopeKeys.slice(i, i + 30));
+        const snapshots = await Promise.all(chunks.map(chunk =>
+            getDocs(query(metricsRef, where('scopeKey', 'in', chunk), where('date', '>=', from), where('date', '<=', to)))
+        ));
+        return snapshots.flatMap(snapshot => snapshot.docs.map(docSnap => docSnap.data()));
+    });
+
+    docs.forEach(data => {
+        const day = days.get(data.date);
+        if (day) mergeDay(day, data);
+    });
+    return dateKeys.map(dateKey => days.get(dateKey)!);
+}
+
+export function summarizeLearningMetrics(days: DailyLearningMetrics[]): LearningMetricsSummary {
+    return {
+        activeLearners: new Set(days.flatMap(day => day.activeLearnerIds)).size,
+        lessonsCompleted: days.reduce((sum, day) => sum + day.lessonsCompleted, 0),
+        coursesCompleted: days.reduce((sum, day) => sum + day.coursesCompleted, 0),
+        quizzesPassed: days.reduce((sum, day) => sum + day.quizzesPassed, 0),
+        quizzesFailed: days.reduce((sum, day) => sum + day.quizzesFailed, 0),
+        minutesLearned: Math.round(days.reduce((sum, day) => sum + day.secondsLearned, 0) / 60),
+    };
+}
+
+// Percentage change from one period to another, or null when there is nothing to compare against
+export const getPercentChange = (current: number, previous: number): number | null =>
+    previous > 0 ? Math.round(((current - previous) / previous) * 1000) / 10 : null;
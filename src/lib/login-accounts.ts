@@ -0,0 +1,31 @@
+// This is a server-only file. It deletes Firebase Auth accounts with the Admin SDK.
+import { getAuth as getAdminAuth } from 'firebase-admin/auth';
+import { adminApp } from './firebase-admin';
+import { hasUserProfileWithEmail } from './user-data';
+
+/**
+ * Deletes the login accounts of users that were permanently deleted. An email that another
+ * user profile still uses, e.g. one still in the trash, keeps its account.
+ * @returns The number of accounts deleted.
+ */
+export async function deleteUnusedLoginAccounts(emails: string[]): Promise<number> {
+  if (emails.length === 0) return 0;
+  if (!adminApp) {
+    console.warn('[deleteUnusedLoginAccounts] Firebase Admin SDK is not initialized. Login accounts were not deleted.');
+    return 0;
+  }
+  const adminAuth = getAdminAuth(adminApp);
+  let deleted = 0;
+  for (const email of emails) {
+    try {
+      if (await hasUserProfileWithEmail(email)) continue;
+      const account = await adminAuth.getUserByEmail(email);
+      await adminAuth.deleteUser(account.uid);
+      deleted++;
+    } catch (error: any) {
+      if (error?.code === 'auth/user-not-found') continue;
+      console.error(`[deleteUnusedLoginAccounts] Failed to delete the login account for ${email}:`, error);
+    }
+  }
+  return deleted;
+}
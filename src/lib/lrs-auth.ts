@@ -0,0 +1,23 @@
+// This is a server-only file, shared by the built-in LRS routes under /api/xapi.
+import { NextResponse } from 'next/server';
+
+/**
+ * Checks a request to the built-in LRS: the xAPI version header, and HTTP Basic credentials
+ * matching XAPI_LRS_KEY and XAPI_LRS_SECRET.
+ * @returns An error response to send back, or null if the request may go ahead.
+ */
+export function authorizeLrsRequest(request: Request): NextResponse | null {
+  const key = process.env.XAPI_LRS_KEY;
+  const secret = process.env.XAPI_LRS_SECRET;
+  if (!key || !secret) {
+    return NextResponse.json({ error: 'The built-in LRS is not configured. Set XAPI_LRS_KEY and XAPI_LRS_SECRET.' }, { status: 503 });
+  }
+  if (!request.headers.get('x-experience-api-version')?.startsWith('1.0')) {
+    return NextResponse.json({ error: 'Missing or unsupported X-Experience-API-Version header.' }, { status: 400 });
+  }
+  const expected = `Basic ${Buffer.from(`${key}:${secret}`).toString('base64')}`;
+  if (request.headers.get('authorization') !== expected) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: { 'WWW-Authenticate': 'Basic realm="LRS"' } });
+  }
+  return null;
+}
@@ -0,0 +1,96 @@
+// src/lib/lrs-data.ts
+// Storage for the built-in LRS, a minimal xAPI endpoint for trying out statement delivery
+// without a corporate LRS. It keeps statements as sent and supports simple queries.
+import { db } from './firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    where,
+    writeBatch,
+    type QueryConstraint,
+} from 'firebase/firestore';
+import type { XapiStatement } from '@/types/xapi';
+
+const LRS_STATEMENTS_COLLECTION = 'lrsStatements';
+
+export const MAX_LRS_QUERY_LIMIT = 500;
+
+export interface LrsStatementQuery {
+    verb?: string | null; // Verb IRI
+    mbox?: string | null; // Actor's 'mailto:' IRI
+    activity?: string | null; // Object activity IRI
+    since?: string | null; // ISO string, compared with `stored`
+    until?: string | null;
+    limit?: number | null;
+}
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for LRS op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`LRS op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+/**
+ * Stores statements that already have IDs, `stored` and `authority`. A statement whose ID is
+ * already stored is left as it was, so re-sent statements aren't duplicated.
+ * @returns The IDs of the statements, in the order given.
+ */
+export async function storeLrsStatements(statements: XapiStatement[]): Promise<string[]> {
+    if (statements.length === 0) return [];
+    return retryOperation(async () => {
+        const existing = await Promise.all(statements.map(statement => getDoc(doc(db, LRS_STATEMENTS_COLLECTION, statement.id))));
+        const batch = writeBatch(db);
+        statements.forEach((statement, index) => {
+            if (!existing[index].exists()) batch.set(doc(db, LRS_STATEMENTS_COLLECTION, statement.id), statement);
+        });
+        await batch.commit();
+        return statements.map(statement => statement.id);
+    });
+}
+
+export async function getLrsStatement(statementId: string): Promise<XapiStatement | null> {
+    if (!statementId) return null;
+    return retryOperation(async () => {
+        const docSnap = await getDoc(doc(db, LRS_STATEMENTS_COLLECTION, statementId));
+        return docSnap.exists() ? docSnap.data() as XapiStatement : null;
+    });
+}
+
+/**
+ * Statements matching the filters, most recently stored first.
+ */
+export async function queryLrsStatements(filters: LrsStatementQuery): Promise<XapiStatement[]> {
+    const constraints: QueryConstraint[] = [];
+    if (filters.verb) constraints.push(where('verb.id', '==', filters.verb));
+    if (filters.mbox) constraints.push(where('actor.mbox', '==', filters.mbox));
+    if (filters.activity) constraints.push(where('object.id', '==', filters.activity));
+    const count = Math.min(Math.max(filters.limit || MAX_LRS_QUERY_LIMIT, 1), MAX_LRS_QUERY_LIMIT);
+
+    return retryOperation(async () => {
+        const snapshot = await getDocs(query(collection(db, LRS_STATEMENTS_COLLECTION), ...constraints));
+        return snapshot.docs
+            .map(docSnap => docSnap.data() as XapiStatement)
+            .filter(statement => (!filters.since || (statement.stored || '') > filters.since) && (!filters.until || (statement.stored || '') <= filters.until))
+            .sort((a, b) => (b.stored || '').localeCompare(a.stored || ''))
+            .slice(0, count);
+    });
+}
@@ -0,0 +1,38 @@
+// This is a server-only file. It encrypts brands' LRS secrets with LRS_SECRET_KEY, which only the server has.
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { getStoredBrandLrsSettings } from './xapi-data';
+import type { BrandLrsSettings, LrsCredentials } from '@/types/xapi';
+
+const CIPHER = 'aes-256-gcm';
+
+function getKey(): Buffer {
+  const secretKey = process.env.LRS_SECRET_KEY;
+  if (!secretKey) throw new Error('LRS_SECRET_KEY is not configured on the server.');
+  return createHash('sha256').update(secretKey).digest();
+}
+
+// Encrypts an LRS secret for storage, as base64 IV, auth tag and ciphertext joined by dots
+export function encryptLrsSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+export function decryptLrsSecret(encryptedSecret: string): string {
+  const [iv, authTag, encrypted] = encryptedSecret.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv(CIPHER, getKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/**
+ * A brand's LRS settings with the secret decrypted, for sending requests to the LRS.
+ * @returns null if the brand has no LRS settings.
+ */
+export async function getBrandLrsCredentials(brandId: string): Promise<(BrandLrsSettings & LrsCredentials) | null> {
+  const stored = await getStoredBrandLrsSettings(brandId);
+  if (!stored) return null;
+  const { encryptedPassword, plainTextPassword, ...settings } = stored;
+  return { ...settings, password: encryptedPassword ? decryptLrsSecret(encryptedPassword) : plainTextPassword || '' };
+}
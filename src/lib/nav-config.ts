@@ -4,7 +4,7 @@ import type { User, UserRole, Company } from '@/types/user';
 import {
     BarChartBig, Building, Layers, CreditCard, BookOpen, FileText,
     ListChecks, UserPlus, ShoppingCart, Gift,
-    TestTube2, Percent, HelpCircle, LayoutDashboard, Users, MapPin, Settings, Award, Cog, Package, Handshake, KeyRound, Briefcase, DatabaseZap, Trophy, Flame, Zap
+    TestTube2, Percent, HelpCircle, LayoutDashboard, Users, MapPin, Settings, Award, Cog, Package, Handshake, KeyRound, Briefcase, DatabaseZap, Trophy, Flame, Zap, Trash2, ClipboardCheck, Network
 } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 import { getCompanyById } from '@/lib/company-data';
@@ -51,6 +51,8 @@ export async function getNavigationStructure(user: User | null): Promise<NavItem
           { href: '/admin/courses', label: 'Courses', icon: BookOpen },
           { href: '/admin/lessons', label: 'Lessons', icon: FileText },
           { href: '/admin/quizzes', label: 'Quizzes', icon: ListChecks },
+          { href: '/admin/certificate-templates', label: 'Certificates', icon: Award },
+          { href: '/admin/course-reviews', label: 'Course Reviews', icon: ClipboardCheck },
         ],
       },
       {
@@ -63,11 +65,14 @@ export async function getNavigationStructure(user: User | null): Promise<NavItem
         ],
       },
       { href: '/admin/revenue-share-report', label: 'Rev Share Report', icon: Percent },
+      { href: '/admin/hierarchy-report', label: 'Group Report', icon: Network },
+      { href: '/admin/trash', label: 'Trash', icon: Trash2 },
       { href: '/admin/migrate-data', label: 'Data Tools', icon: DatabaseZap },
     );
   } else if (user.role === 'Admin' || user.role === 'Owner') {
     roleSpecificItems.push(
       { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
+      { href: '/admin/hierarchy-report', label: 'Group Report', icon: Network, requiresCompanyId: true },
       { href: '/admin/companies', label: 'Brands', icon: Building, requiresCompanyId: true },
       { href: '/admin/users', label: 'Team', icon: Users, requiresCompanyId: true },
       { href: `/admin/companies/${user.companyId}/locations`, label: 'Locations', icon: MapPin, requiresCompanyId: true },
@@ -80,8 +85,11 @@ export async function getNavigationStructure(user: User | null): Promise<NavItem
             { href: '/brand-admin/courses', label: "My Courses", icon: BookOpen },
             { href: '/brand-admin/lessons', label: "My Lessons", icon: FileText },
             { href: '/brand-admin/quizzes', label: "My Quizzes", icon: ListChecks },
+            { href: '/brand-admin/certificate-templates', label: "My Certificates", icon: Award },
         ]
       },
+      { href: '/admin/course-reviews', label: 'Course Reviews', icon: ClipboardCheck, requiresCompanyId: true },
+      { href: '/admin/trash', label: 'Trash', icon: Trash2, requiresCompanyId: true },
       { href: '/courses/my-courses', label: 'My Learning', icon: BookOpen },
       { href: '/achievements', label: 'My Achievements', icon: Trophy },
     );
@@ -14,6 +14,7 @@ import {
     limit
 } from 'firebase/firestore';
 import type { Partner, PartnerFormData } from '@/types/partner';
+import type { TrashActor } from '@/types/trash';
 
 const PARTNERS_COLLECTION = 'partners';
 
@@ -105,10 +106,10 @@ export async function updatePartner(partnerId: string, partnerData: Partial<Part
     });
 }
 
-export async function deletePartner(partnerId: string): Promise<boolean> {
+export async function deletePartner(partnerId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
     return retryOperation(async () => {
         const partnerRef = doc(db, PARTNERS_COLLECTION, partnerId);
-        await updateDoc(partnerRef, { isDeleted: true, deletedAt: serverTimestamp() });
+        await updateDoc(partnerRef, { isDeleted: true, deletedAt: serverTimestamp(), deletedBy });
         return true;
     });
 }
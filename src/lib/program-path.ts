@@ -0,0 +1,105 @@
+import type { User } from '@/types/user';
+import type { Program, CourseLock } from '@/types/course';
+import { getCourseById, getProgramsByIds } from './firestore-data';
+import { getCompanyById } from './company-data';
+
+type ProgramPath = Pick<Program, 'courseIds' | 'isSequential' | 'coursePrerequisites'>;
+
+/**
+ * Returns the courses that must be completed before a course unlocks within a program:
+ * its explicit prerequisites plus, for sequential programs, the course before it in the path.
+ * Prerequisites that are no longer part of the program are ignored.
+ */
+export function getProgramCoursePrerequisites(program: ProgramPath, courseId: string): string[] {
+    const courseIds = program.courseIds || [];
+    const position = courseIds.indexOf(courseId);
+    if (position === -1) return [];
+
+    const prerequisites = new Set((program.coursePrerequisites?.[courseId] || []).filter(id => courseIds.includes(id)));
+    if (program.isSequential && position > 0) prerequisites.add(courseIds[position - 1]);
+    prerequisites.delete(courseId);
+    return courseIds.filter(id => prerequisites.has(id)); // Keep path order for display
+}
+
+/**
+ * Checks whether the prerequisites of a program form a loop, which would leave every course in it locked forever.
+ * @returns The course IDs on the loop, or null if the path can be completed.
+ */
+export function findPrerequisiteCycle(program: ProgramPath): string[] | null {
+    const visiting: string[] = [];
+    const done = new Set<string>();
+
+    const visit = (courseId: string): string[] | null => {
+        const loopStart = visiting.indexOf(courseId);
+        if (loopStart !== -1) return visiting.slice(loopStart);
+        if (done.has(courseId)) return null;
+        visiting.push(courseId);
+        for (const prerequisiteId of getProgramCoursePrerequisites(program, courseId)) {
+            const cycle = visit(prerequisiteId);
+            if (cycle) return cycle;
+        }
+        visiting.pop();
+        done.add(courseId);
+        return null;
+    };
+
+    for (const courseId of program.courseIds || []) {
+        const cycle = visit(courseId);
+        if (cycle) return cycle;
+    }
+    return null;
+}
+
+/**
+ * Finds the first program that keeps a course locked for a learner who has completed the given courses.
+ */
+export function findCourseLock(courseId: string, programs: Program[], completedCourseIds: Set<string>): Omit<CourseLock, 'reason'> | null {
+    for (const program of programs) {
+        const missingCourseIds = getProgramCoursePrerequisites(program, courseId).filter(id => !completedCourseIds.has(id));
+        if (missingCourseIds.length > 0) {
+            return { courseId, programId: program.id, programTitle: program.title, missingCourseIds };
+        }
+    }
+    return null;
+}
+
+function formatTitleList(titles: string[]): string {
+    if (titles.length <= 1) return titles[0] || '';
+    return `${titles.slice(0, -1).join(', ')} and ${titles[titles.length - 1]}`;
+}
+
+/**
+ * Works out which of the given courses are still locked for a user by the programs assigned to their brand.
+ * Super Admins are never locked out, and courses the user already completed stay open.
+ * @returns A map of course ID to lock, containing only locked courses.
+ */
+export async function getCourseLocksForUser(user: User, courseIds: string[]): Promise<Record<string, CourseLock>> {
+    if (!user.companyId || user.role === 'Super Admin' || courseIds.length === 0) return {};
+
+    const company = await getCompanyById(user.companyId);
+    const programs = await getProgramsByIds(company?.assignedProgramIds || []);
+    if (programs.length === 0) return {};
+
+    const completedCourseIds = new Set(
+        Object.entries(user.courseProgress || {})
+            .filter(([, progress]) => progress?.status === 'Completed')
+            .map(([id]) => id)
+    );
+
+    const pendingLocks = courseIds
+        .filter(courseId => !completedCourseIds.has(courseId)) // Finished courses stay open for review
+        .map(courseId => findCourseLock(courseId, programs, completedCourseIds))
+        .filter((lock): lock is Omit<CourseLock, 'reason'> => !!lock);
+    if (pendingLocks.length === 0) return {};
+
+    const missingIds = Array.from(new Set(pendingLocks.flatMap(lock => lock.missingCourseIds)));
+    const missingCourses = await Promise.all(missingIds.map(id => getCourseById(id)));
+    const titles = new Map(missingIds.map((id, index) => [id, missingCourses[index]?.title || 'a previous course']));
+
+    const locks: Record<string, CourseLock> = {};
+    pendingLocks.forEach(lock => {
+        const missingTitles = lock.missingCourseIds.map(id => titles.get(id) || 'a previous course');
+        locks[lock.courseId] = { ...lock, reason: `Complete ${formatTitleList(missingTitles)} first.` };
+    });
+    return locks;
+}
@@ -0,0 +1,743 @@
+// Reading and writing quiz questions in interchange formats: CSV (spreadsheets), Moodle GIFT and IMS QTI 2.1.
+// Parsing never throws for bad content; every question comes back with its own list of errors.
+
+import type { MatchingPair, QuestionBase, QuestionFormData, QuestionImportRow, QuestionInterchangeFormat, QuestionTranslation, QuestionType } from '@/types/course';
+import { createZip, readZip } from '@/lib/zip';
+
+const QUESTION_TYPES: QuestionType[] = ['multiple-choice', 'true-false', 'multiple-select', 'short-answer', 'matching', 'ordering', 'image-choice'];
+const OPTION_LIST_TYPES: QuestionType[] = ['multiple-choice', 'multiple-select', 'ordering', 'image-choice'];
+
+export const QUESTION_FORMAT_LABELS: Record<QuestionInterchangeFormat, string> = {
+    csv: 'CSV (spreadsheet)',
+    gift: 'Moodle GIFT',
+    qti: 'IMS QTI 2.1',
+};
+
+/**
+ * Works out the import format from a file name.
+ * @returns The format, or null when the extension is not recognised.
+ */
+export function getQuestionFormatFromFileName(fileName: string): QuestionInterchangeFormat | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'csv') return 'csv';
+    if (extension === 'gift' || extension === 'txt') return 'gift';
+    if (extension === 'xml' || extension === 'zip') return 'qti';
+    return null;
+}
+
+/**
+ * Checks an imported question against the same rules as the question editors.
+ * @returns The problems found; empty when the question can be saved.
+ */
+export function validateImportedQuestion(question: QuestionFormData): string[] {
+    const errors: string[] = [];
+    if (!QUESTION_TYPES.includes(question.type)) {
+        return [`Unknown question type "${question.type}". Use one of: ${QUESTION_TYPES.join(', ')}.`];
+    }
+    if (!question.text || question.text.trim().length < 5) errors.push("Question text must be at least 5 characters.");
+
+    const options = question.options || [];
+    if (OPTION_LIST_TYPES.includes(question.type)) {
+        if (options.length < 2) errors.push("At least two options are required.");
+        if (options.some(option => !option.trim())) errors.push("Options cannot be empty.");
+        if (new Set(options).size !== options.length) errors.push("Answer options must be unique.");
+    }
+
+    switch (question.type) {
+        case 'multiple-choice':
+        case 'image-choice':
+            if (!question.correctAnswer) errors.push("A correct answer is required.");
+            else if (!options.includes(question.correctAnswer)) errors.push(`Correct answer "${question.correctAnswer}" is not one of the options.`);
+            if (question.type === 'image-choice' && (question.optionImages || []).filter(Boolean).length !== options.length) {
+                errors.push("Every option needs an image URL.");
+            }
+            break;
+        case 'true-false':
+            if (question.correctAnswer !== 'True' && question.correctAnswer !== 'False') errors.push("Correct answer must be True or False.");
+            break;
+        case 'multiple-select': {
+            const correctAnswers = question.correctAnswers || [];
+            if (correctAnswers.length === 0) errors.push("At least one correct answer is required.");
+            const unknown = correctAnswers.filter(answer => !options.includes(answer));
+            if (unknown.length > 0) errors.push(`Correct answers not among the options: ${unknown.join(', ')}.`);
+            break;
+        }
+        case 'short-answer':
+            if ((question.acceptedAnswers || []).length === 0) errors.push("At least one accepted answer is required.");
+            break;
+        case 'matching': {
+            const pairs = question.matchingPairs || [];
+            if (pairs.length < 2) errors.push("At least two matching pairs are required.");
+            if (pairs.some(pair => !pair.prompt || !pair.match)) errors.push("Every pair needs a prompt and a match.");
+            if (new Set(pairs.map(pair => pair.prompt)).size !== pairs.length) errors.push("Matching prompts must be unique.");
+            break;
+        }
+    }
+    return errors;
+}
+
+function toImportRow(location: string, question: QuestionFormData | null, errors: string[] = []): QuestionImportRow {
+    return { location, question, errors: question ? [...errors, ...validateImportedQuestion(question)] : errors };
+}
+
+// The option texts in their stored order; ordering questions are exchanged in their correct sequence
+function getExchangeOptions(question: QuestionBase): string[] {
+    return question.type === 'ordering' && question.correctAnswers?.length ? question.correctAnswers : question.options || [];
+}
+
+// --- CSV ---
+// One question per row. List cells separate items with "|" (write "\|" for a literal bar);
+// matching pairs are written "prompt=match". Translations use columns suffixed with ":<locale>", e.g. "text:es".
+
+const CSV_COLUMNS = ['type', 'text', 'options', 'correct', 'images', 'case_sensitive', 'tag'];
+
+function parseCsvRecords(content: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const text = content.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            record.push(field); field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field); field = '';
+            records.push(record); record = [];
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    return records;
+}
+
+function escapeCsvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function splitList(value: string | undefined): string[] {
+    if (!value) return [];
+    const items: string[] = [];
+    let current = '';
+    for (let i = 0; i < value.length; i++) {
+        if (value[i] === '\\' && value[i + 1] === '|') { current += '|'; i++; }
+        else if (value[i] === '|') { items.push(current.trim()); current = ''; }
+        else current += value[i];
+    }
+    items.push(current.trim());
+    return items.filter(Boolean);
+}
+
+function joinList(values: string[]): string {
+    return values.map(value => value.replace(/\|/g, '\\|')).join(' | ');
+}
+
+function splitPair(value: string): Partial<MatchingPair> {
+    const separator = value.indexOf('=');
+    if (separator < 0) return { prompt: value.trim(), match: '' };
+    return { prompt: value.slice(0, separator).trim(), match: value.slice(separator + 1).trim() };
+}
+
+function parseBoolean(value: string | undefined): boolean {
+    return ['true', 'yes', 'y', '1', 't'].includes((value || '').trim().toLowerCase());
+}
+
+/**
+ * Parses questions from CSV. The first row must be a header naming the columns
+ * (type, text, options, correct, images, case_sensitive, tag, and text:/options:/correct:<locale> for translations).
+ */
+export function parseQuestionsCsv(content: string): QuestionImportRow[] {
+    const records = parseCsvRecords(content);
+    if (records.length === 0) return [{ location: 'File', question: null, errors: ["The file is empty."] }];
+
+    const header = records[0].map(column => column.trim().toLowerCase());
+    if (!header.includes('text')) {
+        return [{ location: 'Row 1', question: null, errors: ["The header row must include a \"text\" column."] }];
+    }
+    const unknownColumns = header.filter(column => column && !CSV_COLUMNS.includes(column) && !/^(text|options|correct):[a-z]{2}(-[a-z]{2})?$/.test(column));
+    const locales = Array.from(new Set(header.map(column => column.match(/^(?:text|options|correct):(.+)$/)?.[1]).filter((locale): locale is string => !!locale)));
+
+    const rows: QuestionImportRow[] = [];
+    if (unknownColumns.length > 0) {
+        rows.push({ location: 'Row 1', question: null, errors: [`Unknown column${unknownColumns.length === 1 ? '' : 's'} ignored: ${unknownColumns.join(', ')}.`] });
+    }
+    records.slice(1).forEach((record, index) => {
+        if (record.every(cell => !cell.trim())) return; // Blank spreadsheet rows
+        const location = `Row ${index + 2}`;
+        const cell = (column: string) => {
+            const columnIndex = header.indexOf(column);
+            return columnIndex >= 0 ? (record[columnIndex] || '').trim() : '';
+        };
+
+        const type = (cell('type') || 'multiple-choice').toLowerCase() as QuestionType;
+        const options = splitList(cell('options'));
+        const question: QuestionFormData = { type, text: cell('text'), options: [], tag: cell('tag') || null };
+
+        switch (type) {
+            case 'true-false': {
+                const correct = cell('correct').toLowerCase();
+                question.options = ['True', 'False'];
+                question.correctAnswer = ['true', 't', 'yes'].includes(correct) ? 'True' : ['false', 'f', 'no'].includes(correct) ? 'False' : cell('correct');
+                break;
+            }
+            case 'multiple-select':
+                question.options = options;
+                question.correctAnswers = splitList(cell('correct'));
+                break;
+            case 'short-answer':
+                question.acceptedAnswers = splitList(cell('correct'));
+                question.caseSensitive = parseBoolean(cell('case_sensitive'));
+                break;
+            case 'matching':
+                question.matchingPairs = options.map(splitPair) as MatchingPair[];
+                question.options = Array.from(new Set(question.matchingPairs.map(pair => pair.match)));
+                break;
+            case 'ordering':
+                question.options = options;
+                question.correctAnswers = options;
+                break;
+            default:
+                question.options = options;
+                question.correctAnswer = cell('correct');
+                if (type === 'image-choice') question.optionImages = splitList(cell('images'));
+        }
+
+        const translations: Record<string, QuestionTranslation> = {};
+        locales.forEach((locale) => {
+            const translation: QuestionTranslation = {};
+            const text = cell(`text:${locale}`);
+            const translatedOptions = splitList(cell(`options:${locale}`));
+            if (text) translation.text = text;
+            if (type === 'matching' && translatedOptions.length > 0) translation.matchingPairs = translatedOptions.map(splitPair);
+            else if (type === 'short-answer') {
+                const accepted = splitList(cell(`correct:${locale}`));
+                if (accepted.length > 0) translation.acceptedAnswers = accepted;
+            } else if (translatedOptions.length > 0) translation.options = translatedOptions;
+            if (Object.keys(translation).length > 0) translations[locale] = translation;
+        });
+        if (Object.keys(translations).length > 0) question.translations = translations;
+
+        const errors: string[] = [];
+        Object.entries(translations).forEach(([locale, translation]) => {
+            const expected = type === 'matching' ? question.matchingPairs?.length : question.options.length;
+            const actual = type === 'matching' ? translation.matchingPairs?.length : translation.options?.length;
+            if (actual !== undefined && actual !== expected) errors.push(`The ${locale} translation has ${actual} options but the question has ${expected}.`);
+        });
+        rows.push(toImportRow(location, question, errors));
+    });
+    return rows;
+}
+
+/**
+ * Writes questions as CSV, including their translations.
+ */
+export function questionsToCsv(questions: QuestionBase[]): string {
+    const locales = Array.from(new Set(questions.flatMap(question => Object.keys(question.translations || {})))).sort();
+    const header = [...CSV_COLUMNS, ...locales.flatMap(locale => [`text:${locale}`, `options:${locale}`, `correct:${locale}`])];
+
+    const lines = questions.map((question) => {
+        const options = question.type === 'matching'
+            ? (question.matchingPairs || []).map(pair => `${pair.prompt}=${pair.match}`)
+            : question.type === 'short-answer' || question.type === 'true-false' ? [] : getExchangeOptions(question);
+        const correct = question.type === 'multiple-select' ? joinList(question.correctAnswers || [])
+            : question.type === 'short-answer' ? joinList(question.acceptedAnswers || [])
+            : question.type === 'matching' || question.type === 'ordering' ? ''
+            : question.correctAnswer || '';
+
+        const cells = [
+            question.type,
+            question.text,
+            joinList(options),
+            correct,
+            question.type === 'image-choice' ? joinList(question.optionImages || []) : '',
+            question.type === 'short-answer' ? String(!!question.caseSensitive) : '',
+            question.tag || '',
+        ];
+        locales.forEach((locale) => {
+            const translation = question.translations?.[locale];
+            cells.push(
+                translation?.text || '',
+                question.type === 'matching'
+                    ? joinList((translation?.matchingPairs || []).map(pair => `${pair?.prompt || ''}=${pair?.match || ''}`))
+                    : joinList((translation?.options || []).map(option => option || '')),
+                question.type === 'short-answer' ? joinList(translation?.acceptedAnswers || []) : '',
+            );
+        });
+        return cells.map(escapeCsvField).join(',');
+    });
+    return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+// --- Moodle GIFT ---
+// Supports multiple choice (including weighted multiple answers), true/false, short answer and matching.
+// "$CATEGORY:" lines set the tag of the questions that follow.
+
+const GIFT_SPECIAL_CHARACTERS = /[~=#{}:\\]/g;
+
+function escapeGift(value: string): string {
+    return value.replace(GIFT_SPECIAL_CHARACTERS, match => `\\${match}`).replace(/\n/g, '\\n');
+}
+
+function unescapeGift(value: string): string {
+    return value.replace(/\\n/g, '\n').replace(/\\([~=#{}:\\])/g, '$1').trim();
+}
+
+function findUnescaped(value: string, character: string, from = 0): number {
+    for (let i = from; i < value.length; i++) {
+        if (value[i] === '\\') { i++; continue; }
+        if (value[i] === character) return i;
+    }
+    return -1;
+}
+
+function stripGiftFormat(value: string): string {
+    return value.replace(/^\s*\[(html|moodle|plain|markdown)\]/i, '');
+}
+
+interface GiftAnswer {
+    marker: '=' | '~';
+    weight: number | null;
+    text: string;
+}
+
+function tokenizeGiftAnswers(section: string): GiftAnswer[] {
+    const answers: GiftAnswer[] = [];
+    let current: GiftAnswer | null = null;
+    let buffer = '';
+    const flush = () => {
+        if (!current) return;
+        // Feedback after an unescaped "#" is not kept
+        const feedbackStart = findUnescaped(buffer, '#');
+        let text = feedbackStart >= 0 ? buffer.slice(0, feedbackStart) : buffer;
+        const weightMatch = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+        if (weightMatch) {
+            current.weight = parseFloat(weightMatch[1]);
+            text = text.slice(weightMatch[0].length);
+        }
+        current.text = text;
+        answers.push(current);
+    };
+    for (let i = 0; i < section.length; i++) {
+        const char = section[i];
+        if (char === '\\') { buffer += char + (section[i + 1] ?? ''); i++; continue; }
+        if (char === '=' || char === '~') {
+            flush();
+            current = { marker: char, weight: null, text: '' };
+            buffer = '';
+            continue;
+        }
+        buffer += char;
+    }
+    flush();
+    return answers;
+}
+
+function parseGiftQuestion(block: string, tag: string | null): { question: QuestionFormData | null; errors: string[] } {
+    let source = block.trim();
+    if (source.startsWith('::')) {
+        const titleEnd = source.indexOf('::', 2);
+        if (titleEnd > 0) source = source.slice(titleEnd + 2);
+    }
+    const open = findUnescaped(source, '{');
+    const close = open >= 0 ? findUnescaped(source, '}', open) : -1;
+    if (open < 0 || close < 0) return { question: null, errors: ["No answer block ({...}) found."] };
+
+    const before = unescapeGift(stripGiftFormat(source.slice(0, open)));
+    const after = unescapeGift(source.slice(close + 1));
+    const text = after ? `${before} ___ ${after}` : before;
+    const section = source.slice(open + 1, close).trim();
+    const question: QuestionFormData = { type: 'multiple-choice', text, options: [], tag };
+
+    if (!section) return { question: null, errors: ["Essay questions are not supported."] };
+    if (section.startsWith('#')) return { question: null, errors: ["Numerical questions are not supported."] };
+
+    const trueFalse = section.match(/^(T|TRUE|F|FALSE)\b/i);
+    if (trueFalse && findUnescaped(section, '=') < 0 && findUnescaped(section, '~') < 0) {
+        question.type = 'true-false';
+        question.options = ['True', 'False'];
+        question.correctAnswer = trueFalse[1].toUpperCase().startsWith('T') ? 'True' : 'False';
+        return { question, errors: [] };
+    }
+
+    const answers = tokenizeGiftAnswers(section);
+    if (answers.length === 0) return { question: null, errors: ["The answer block has no answers."] };
+    const allCorrect = answers.every(answer => answer.marker === '=');
+
+    if (allCorrect && answers.some(answer => answer.text.includes('->'))) {
+        question.type = 'matching';
+        question.matchingPairs = answers.map((answer) => {
+            const [prompt, ...rest] = answer.text.split('->');
+            return { prompt: unescapeGift(prompt), match: unescapeGift(rest.join('->')) };
+        });
+        question.options = Array.from(new Set(question.matchingPairs.map(pair => pair.match)));
+        return { question, errors: [] };
+    }
+    if (allCorrect) {
+        question.type = 'short-answer';
+        question.acceptedAnswers = answers.filter(answer => answer.weight === null || answer.weight > 0).map(answer => unescapeGift(answer.text));
+        return { question, errors: [] };
+    }
+
+    question.options = answers.map(answer => unescapeGift(answer.text));
+    const weighted = answers.some(answer => answer.marker === '~' && answer.weight !== null && answer.weight > 0);
+    const correct = answers.filter(answer => answer.marker === '=' || (answer.weight !== null && answer.weight > 0)).map(answer => unescapeGift(answer.text));
+    if (weighted || correct.length > 1) {
+        question.type = 'multiple-select';
+        question.correctAnswers = correct;
+    } else {
+        question.correctAnswer = correct[0] || '';
+    }
+    return { question, errors: [] };
+}
+
+/**
+ * Parses questions from Moodle GIFT text.
+ */
+export function parseQuestionsGift(content: string): QuestionImportRow[] {
+    const rows: QuestionImportRow[] = [];
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+    let tag: string | null = null;
+    let block: string[] = [];
+    let blockStart = 0;
+
+    const flush = () => {
+        const source = block.join('\n').trim();
+        block = [];
+        if (!source) return;
+        const category = source.match(/^\$CATEGORY:\s*(.*)$/m);
+        if (category) {
+            const path = category[1].trim().replace(/^\$(course|system|module|cat\d+)\$\/?/, '');
+            tag = path.split('/').filter(Boolean).pop() || null;
+            return;
+        }
+        const { question, errors } = parseGiftQuestion(source, tag);
+        rows.push(toImportRow(`Line ${blockStart}`, question, errors));
+    };
+
+    lines.forEach((line, index) => {
+        if (line.trim().startsWith('//')) return;
+        if (!line.trim()) {
+            flush();
+            return;
+        }
+        if (block.length === 0) blockStart = index + 1;
+        block.push(line);
+    });
+    flush();
+    return rows;
+}
+
+/**
+ * Writes questions as Moodle GIFT. Ordering and image-choice questions have no GIFT form and are skipped.
+ * @returns The GIFT text and the number of questions skipped.
+ */
+export function questionsToGift(questions: QuestionBase[]): { content: string; skipped: number } {
+    const blocks: string[] = [];
+    let currentTag: string | null = null;
+    let skipped = 0;
+
+    questions.forEach((question, index) => {
+        if (question.type === 'ordering' || question.type === 'image-choice') {
+            blocks.push(`// Skipped ${question.type} question (not supported by GIFT): ${question.text.replace(/\n/g, ' ')}`);
+            skipped++;
+            return;
+        }
+        const tag = question.tag || null;
+        if (tag && tag !== currentTag) blocks.push(`$CATEGORY: ${tag}`);
+        currentTag = tag;
+
+        let answers: string;
+        switch (question.type) {
+            case 'true-false':
+                answers = question.correctAnswer === 'True' ? 'TRUE' : 'FALSE';
+                break;
+            case 'multiple-select': {
+                const correct = question.correctAnswers || [];
+                const weight = correct.length > 0 ? parseFloat((100 / correct.length).toFixed(5)) : 0;
+                answers = '\n' + (question.options || []).map(option => `\t~%${correct.includes(option) ? weight : -100}%${escapeGift(option)}`).join('\n') + '\n';
+                break;
+            }
+            case 'short-answer':
+                answers = (question.acceptedAnswers || []).map(answer => `=${escapeGift(answer)}`).join(' ');
+                break;
+            case 'matching':
+                answers = '\n' + (question.matchingPairs || []).map(pair => `\t=${escapeGift(pair.prompt)} -> ${escapeGift(pair.match)}`).join('\n') + '\n';
+                break;
+            default:
+                answers = '\n' + (question.options || []).map(option => `\t${option === question.correctAnswer ? '=' : '~'}${escapeGift(option)}`).join('\n') + '\n';
+        }
+        blocks.push(`::Q${index + 1}:: ${escapeGift(question.text)} {${answers}}`);
+    });
+    return { content: blocks.join('\n\n') + '\n', skipped };
+}
+
+// --- IMS QTI 2.1 ---
+// Items are read from a single assessmentItem XML file, an XML file holding several items, or a content package (.zip).
+// Exports are content packages with one item file per question and an imsmanifest.xml.
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function childElements(parent: Element, localName: string): Element[] {
+    return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function elementText(element: Element | null | undefined): string {
+    return (element?.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+function parseQtiItem(item: Element, location: string): QuestionImportRow {
+    const declaration = childElements(item, 'responseDeclaration')[0];
+    const correctValues = declaration ? childElements(declaration, 'correctResponse').flatMap(correct => childElements(correct, 'value').map(value => elementText(value))) : [];
+    const itemBody = childElements(item, 'itemBody')[0];
+    if (!itemBody) return toImportRow(location, null, ["The item has no itemBody."]);
+
+    const interaction = ['choiceInteraction', 'orderInteraction', 'matchInteraction', 'textEntryInteraction', 'extendedTextInteraction']
+        .map(name => childElements(itemBody, name)[0])
+        .find(Boolean);
+    if (!interaction) return toImportRow(location, null, ["The item uses an interaction type that is not supported."]);
+
+    const prompt = childElements(interaction, 'prompt')[0];
+    let text = elementText(prompt);
+    if (!text) {
+        // Text around the interaction, e.g. a paragraph before a text entry box
+        const clone = itemBody.cloneNode(true) as Element;
+        childElements(clone, interaction.localName).forEach(node => node.parentNode?.removeChild(node));
+        text = elementText(clone);
+    }
+    text = text || item.getAttribute('title') || '';
+
+    const question: QuestionFormData = { type: 'multiple-choice', text, options: [], tag: null };
+    switch (interaction.localName) {
+        case 'choiceInteraction':
+        case 'orderInteraction': {
+            const choices = childElements(interaction, 'simpleChoice');
+            const labelFor = (choice: Element) => elementText(choice) || childElements(choice, 'img')[0]?.getAttribute('alt') || '';
+            const byIdentifier = new Map(choices.map(choice => [choice.getAttribute('identifier') || '', labelFor(choice)]));
+            question.options = choices.map(labelFor);
+            const correct = correctValues.map(value => byIdentifier.get(value) || '').filter(Boolean);
+
+            if (interaction.localName === 'orderInteraction') {
+                question.type = 'ordering';
+                question.options = correct.length === question.options.length ? correct : question.options;
+                question.correctAnswers = question.options;
+            } else if (choices.some(choice => childElements(choice, 'img').length > 0)) {
+                question.type = 'image-choice';
+                question.optionImages = choices.map(choice => childElements(choice, 'img')[0]?.getAttribute('src') || '');
+                question.correctAnswer = correct[0] || '';
+            } else if (declaration?.getAttribute('cardinality') === 'multiple') {
+                question.type = 'multiple-select';
+                question.correctAnswers = correct;
+            } else if (question.options.length === 2 && question.options.every(option => /^(true|false)$/i.test(option))) {
+                question.type = 'true-false';
+                question.options = ['True', 'False'];
+                question.correctAnswer = /^true$/i.test(correct[0] || '') ? 'True' : /^false$/i.test(correct[0] || '') ? 'False' : '';
+            } else {
+                question.correctAnswer = correct[0] || '';
+            }
+            break;
+        }
+        case 'matchInteraction': {
+            const [promptSet, matchSet] = childElements(interaction, 'simpleMatchSet');
+            const labels = new Map<string, string>();
+            [promptSet, matchSet].filter(Boolean).forEach(set => childElements(set, 'simpleAssociableChoice').forEach(choice => labels.set(choice.getAttribute('identifier') || '', elementText(choice))));
+            question.type = 'matching';
+            question.matchingPairs = correctValues.map((value) => {
+                const [promptId, matchId] = value.split(/\s+/);
+                return { prompt: labels.get(promptId) || '', match: labels.get(matchId) || '' };
+            });
+            question.options = Array.from(new Set(question.matchingPairs.map(pair => pair.match)));
+            break;
+        }
+        default: {
+            const mapEntries = declaration ? childElements(declaration, 'mapEntry') : [];
+            question.type = 'short-answer';
+            question.acceptedAnswers = Array.from(new Set([
+                ...correctValues,
+                ...mapEntries.filter(entry => parseFloat(entry.getAttribute('mappedValue') || '0') > 0).map(entry => entry.getAttribute('mapKey') || ''),
+            ].map(value => value.trim()).filter(Boolean)));
+            question.caseSensitive = mapEntries.some(entry => entry.getAttribute('caseSensitive') === 'true');
+        }
+    }
+    return toImportRow(location, question);
+}
+
+function parseQtiXml(xml: string, location: string): QuestionImportRow[] {
+    if (typeof DOMParser === 'undefined') throw new Error("QTI files can only be read in the browser.");
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+        return [{ location, question: null, errors: ["The file is not well-formed XML."] }];
+    }
+    const items = Array.from(document.getElementsByTagNameNS('*', 'assessmentItem'));
+    return items.map((item, index) => parseQtiItem(item, items.length > 1 ? `${location} (item ${index + 1})` : location));
+}
+
+/**
+ * Parses questions from QTI 2.1: a single XML file or a content package.
+ * @param data - The file contents.
+ * @param fileName - Used to tell packages from XML files and to label rows.
+ */
+export async function parseQuestionsQti(data: Uint8Array, fileName: string): Promise<QuestionImportRow[]> {
+    const decoder = new TextDecoder();
+    if (!fileName.toLowerCase().endsWith('.zip')) {
+        const rows = parseQtiXml(decoder.decode(data), fileName);
+        return rows.length > 0 ? rows : [{ location: fileName, question: null, errors: ["No assessmentItem elements were found."] }];
+    }
+
+    const entries = (await readZip(data)).filter(entry => entry.name.toLowerCase().endsWith('.xml') && !/(^|\/)imsmanifest\.xml$/i.test(entry.name));
+    const rows = entries.flatMap(entry => parseQtiXml(decoder.decode(entry.data), entry.name));
+    return rows.length > 0 ? rows : [{ location: fileName, question: null, errors: ["The package contains no QTI items."] }];
+}
+
+function qtiItemXml(question: QuestionBase, identifier: string): string {
+    const lines: string[] = [];
+    let interaction = '';
+    let template = 'match_correct';
+    const choiceId = (index: number) => `CHOICE_${index + 1}`;
+    const options = getExchangeOptions(question);
+
+    switch (question.type) {
+        case 'multiple-select':
+        case 'multiple-choice':
+        case 'true-false':
+        case 'image-choice': {
+            const multiple = question.type === 'multiple-select';
+            const correct = multiple ? question.correctAnswers || [] : [question.correctAnswer || ''];
+            lines.push(`  <responseDeclaration identifier="RESPONSE" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">`);
+            lines.push(`    <correctResponse>${correct.map(answer => `<value>${choiceId(options.indexOf(answer))}</value>`).join('')}</correctResponse>`);
+            lines.push(`  </responseDeclaration>`);
+            const choices = options.map((option, index) => {
+                const image = question.type === 'image-choice' && question.optionImages?.[index]
+                    ? `<img src="${escapeXml(question.optionImages[index])}" alt="${escapeXml(option)}"/> `
+                    : '';
+                return `      <simpleChoice identifier="${choiceId(index)}">${image}${escapeXml(option)}</simpleChoice>`;
+            });
+            interaction = `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">\n      <prompt>${escapeXml(question.text)}</prompt>\n${choices.join('\n')}\n    </choiceInteraction>`;
+            break;
+        }
+        case 'ordering': {
+            lines.push(`  <responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier">`);
+            lines.push(`    <correctResponse>${options.map((_, index) => `<value>${choiceId(index)}</value>`).join('')}</correctResponse>`);
+            lines.push(`  </responseDeclaration>`);
+            const choices = options.map((option, index) => `      <simpleChoice identifier="${choiceId(index)}">${escapeXml(option)}</simpleChoice>`);
+            interaction = `    <orderInteraction responseIdentifier="RESPONSE" shuffle="true">\n      <prompt>${escapeXml(question.text)}</prompt>\n${choices.join('\n')}\n    </orderInteraction>`;
+            break;
+        }
+        case 'matching': {
+            const pairs = question.matchingPairs || [];
+            const matches = Array.from(new Set(pairs.map(pair => pair.match)));
+            lines.push(`  <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">`);
+            lines.push(`    <correctResponse>${pairs.map((pair, index) => `<value>PROMPT_${index + 1} MATCH_${matches.indexOf(pair.match) + 1}</value>`).join('')}</correctResponse>`);
+            lines.push(`  </responseDeclaration>`);
+            interaction = [
+                `    <matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${pairs.length}">`,
+                `      <prompt>${escapeXml(question.text)}</prompt>`,
+                `      <simpleMatchSet>`,
+                ...pairs.map((pair, index) => `        <simpleAssociableChoice identifier="PROMPT_${index + 1}" matchMax="1">${escapeXml(pair.prompt)}</simpleAssociableChoice>`),
+                `      </simpleMatchSet>`,
+                `      <simpleMatchSet>`,
+                ...matches.map((match, index) => `        <simpleAssociableChoice identifier="MATCH_${index + 1}" matchMax="0">${escapeXml(match)}</simpleAssociableChoice>`),
+                `      </simpleMatchSet>`,
+                `    </matchInteraction>`,
+            ].join('\n');
+            break;
+        }
+        case 'short-answer': {
+            const accepted = question.acceptedAnswers || [];
+            template = 'map_response';
+            lines.push(`  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">`);
+            lines.push(`    <correctResponse><value>${escapeXml(accepted[0] || '')}</value></correctResponse>`);
+            lines.push(`    <mapping defaultValue="0">`);
+            accepted.forEach(answer => lines.push(`      <mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="${question.caseSensitive ? 'true' : 'false'}"/>`));
+            lines.push(`    </mapping>`);
+            lines.push(`  </responseDeclaration>`);
+            interaction = `    <p>${escapeXml(question.text)}</p>\n    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="20"/></p>`;
+            break;
+        }
+    }
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd" identifier="${identifier}" title="${escapeXml(question.text.slice(0, 80))}" adaptive="false" timeDependent="false">`,
+        ...lines,
+        `  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>`,
+        `  <itemBody>`,
+        interaction,
+        `  </itemBody>`,
+        `  <responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/${template}"/>`,
+        `</assessmentItem>`,
+        '',
+    ].join('\n');
+}
+
+/**
+ * Builds a QTI 2.1 content package with one item per question.
+ * @param questions - The questions to export.
+ * @param title - The quiz title, recorded in the manifest.
+ * @returns The package as ZIP bytes.
+ */
+export function questionsToQtiPackage(questions: QuestionBase[], title: string): Uint8Array {
+    const items = questions.map((question, index) => ({ identifier: `ITEM_${index + 1}`, href: `items/item-${index + 1}.xml`, question }));
+    const manifest = [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST_${Date.now()}">`,
+        `  <metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>`,
+        `  <organizations/>`,
+        `  <resources>`,
+        ...items.map(item => `    <resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.href}"><file href="${item.href}"/></resource>`),
+        `  </resources>`,
+        `  <!-- ${escapeXml(title).replace(/--/g, '- -')} -->`,
+        `</manifest>`,
+        '',
+    ].join('\n');
+    return createZip([
+        { name: 'imsmanifest.xml', data: manifest },
+        ...items.map(item => ({ name: item.href, data: qtiItemXml(item.question, item.identifier) })),
+    ]);
+}
+
+// --- Entry points used by the import and export dialogs ---
+
+/**
+ * Reads an uploaded question file in the format given by its extension.
+ * @throws If the file type is not recognised or the file cannot be read at all.
+ */
+export async function parseQuestionFile(file: File): Promise<{ format: QuestionInterchangeFormat; rows: QuestionImportRow[] }> {
+    const format = getQuestionFormatFromFileName(file.name);
+    if (!format) throw new Error("Unsupported file type. Use .csv, .gift/.txt, .xml or .zip.");
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (format === 'qti') return { format, rows: await parseQuestionsQti(data, file.name) };
+    const content = new TextDecoder().decode(data);
+    return { format, rows: format === 'csv' ? parseQuestionsCsv(content) : parseQuestionsGift(content) };
+}
+
+/**
+ * Exports questions in the given format.
+ * @returns The file to download and the number of questions the format could not represent.
+ */
+export function exportQuestions(format: QuestionInterchangeFormat, questions: QuestionBase[], title: string): { fileName: string; blob: Blob; skipped: number } {
+    const baseName = title.trim().replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'quiz';
+    if (format === 'csv') {
+        return { fileName: `${baseName}.csv`, blob: new Blob(['\uFEFF' + questionsToCsv(questions)], { type: 'text/csv;charset=utf-8' }), skipped: 0 };
+    }
+    if (format === 'gift') {
+        const { content, skipped } = questionsToGift(questions);
+        return { fileName: `${baseName}.gift.txt`, blob: new Blob([content], { type: 'text/plain;charset=utf-8' }), skipped };
+    }
+    return { fileName: `${baseName}-qti.zip`, blob: new Blob([questionsToQtiPackage(questions, title)], { type: 'application/zip' }), skipped: 0 };
+}
@@ -0,0 +1,451 @@
+// src/lib/quiz-attempt-data.ts
+import { db } from './firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    addDoc,
+    updateDoc,
+    query,
+    where,
+    serverTimestamp,
+    Timestamp,
+} from 'firebase/firestore';
+import type { QuestionBase, QuizAttempt, QuizAttemptAnswer, QuizAnswerValue, QuizSettings } from '@/types/course';
+
+const QUIZ_ATTEMPTS_COLLECTION = 'quizAttempts';
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for quiz attempt op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`Quiz attempt op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+// Applied to quizzes created before settings existed. A 100% pass mark preserves the original behaviour.
+export const DEFAULT_QUIZ_SETTINGS: QuizSettings = {
+    passingScore: 100,
+    maxAttempts: null,
+    attemptCooldownMinutes: null,
+    timeLimitMinutes: null,
+    showCorrectAnswers: false,
+    questionsToDraw: null,
+    stratifyByTag: false,
+    shuffleQuestions: false,
+    shuffleOptions: false,
+};
+
+// Allowance for network latency when checking a submission against the time limit
+export const QUIZ_TIME_LIMIT_GRACE_SECONDS = 30;
+
+/**
+ * Returns a quiz's settings with defaults applied to any missing fields.
+ * @param quiz - A Quiz or BrandQuiz (or anything carrying optional settings).
+ */
+export function getQuizSettings(quiz: { settings?: Partial<QuizSettings> | null } | null | undefined): QuizSettings {
+    const settings = { ...DEFAULT_QUIZ_SETTINGS, ...(quiz?.settings || {}) };
+    return {
+        passingScore: Math.min(100, Math.max(0, Number(settings.passingScore) || 0)),
+        maxAttempts: settings.maxAttempts && settings.maxAttempts > 0 ? settings.maxAttempts : null,
+        attemptCooldownMinutes: settings.attemptCooldownMinutes && settings.attemptCooldownMinutes > 0 ? settings.attemptCooldownMinutes : null,
+        timeLimitMinutes: settings.timeLimitMinutes && settings.timeLimitMinutes > 0 ? settings.timeLimitMinutes : null,
+        showCorrectAnswers: !!settings.showCorrectAnswers,
+        questionsToDraw: settings.questionsToDraw && settings.questionsToDraw > 0 ? settings.questionsToDraw : null,
+        stratifyByTag: !!settings.stratifyByTag,
+        shuffleQuestions: !!settings.shuffleQuestions,
+        shuffleOptions: !!settings.shuffleOptions,
+    };
+}
+
+// The questions chosen for one attempt and the order their options are shown in
+export interface QuestionDraw {
+    questionIds: string[];
+    optionOrder: Record<string, number[]>;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+}
+
+function drawStratified<T extends QuestionBase>(questions: T[], drawCount: number, random: () => number): T[] {
+    const groups = new Map<string, T[]>();
+    questions.forEach((question) => {
+        const key = question.tag?.trim() || '';
+        groups.set(key, [...(groups.get(key) || []), question]);
+    });
+
+    // Largest-remainder allocation, proportional to each tag's share of the pool. Shuffled first so ties are broken randomly.
+    const allocations = shuffle([...groups.values()], random).map((group) => {
+        const exact = (drawCount * group.length) / questions.length;
+        return { group, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+    });
+    let remaining = drawCount - allocations.reduce((sum, allocation) => sum + allocation.count, 0);
+    for (const allocation of [...allocations].sort((a, b) => b.remainder - a.remainder)) {
+        if (remaining <= 0) break;
+        if (allocation.count < allocation.group.length) {
+            allocation.count++;
+            remaining--;
+        }
+    }
+    return allocations.flatMap(allocation => shuffle(allocation.group, random).slice(0, allocation.count));
+}
+
+/**
+ * Chooses the questions for a new attempt according to the quiz's randomization settings.
+ * @param questions - The full question pool of the quiz.
+ * @param settings - The quiz settings (see getQuizSettings).
+ * @param random - Random source, injectable for deterministic use.
+ * @returns The drawn question IDs in display order, and the option order for each.
+ */
+export function drawQuizQuestions(questions: QuestionBase[], settings: QuizSettings, random: () => number = Math.random): QuestionDraw {
+    const poolSize = questions.length;
+    const drawCount = settings.questionsToDraw && settings.questionsToDraw < poolSize ? settings.questionsToDraw : poolSize;
+
+    let drawn: QuestionBase[];
+    if (drawCount === poolSize) drawn = [...questions];
+    else if (settings.stratifyByTag) drawn = drawStratified(questions, drawCount, random);
+    else drawn = shuffle(questions, random).slice(0, drawCount);
+
+    if (settings.shuffleQuestions) {
+        drawn = shuffle(drawn, random);
+    } else {
+        const originalIndex = new Map(questions.map((question, index) => [question.id, index]));
+        drawn.sort((a, b) => (originalIndex.get(a.id) ?? 0) - (originalIndex.get(b.id) ?? 0));
+    }
+
+    const optionOrder: Record<string, number[]> = {};
+    drawn.forEach((question) => {
+        const indices = (question.options || []).map((_, index) => index);
+        if (question.type === 'ordering') {
+            // The stored order is the answer, so it is never shown as-is
+            const shuffled = shuffle(indices, random);
+            optionOrder[question.id] = shuffled.length > 1 && shuffled.every((value, idx) => value === idx) ? [...shuffled.slice(1), shuffled[0]] : shuffled;
+        } else if (question.type === 'matching') {
+            optionOrder[question.id] = shuffle(indices, random);
+        } else {
+            // True/false keeps its natural order
+            optionOrder[question.id] = settings.shuffleOptions && question.type !== 'true-false' ? shuffle(indices, random) : indices;
+        }
+    });
+
+    return { questionIds: drawn.map(question => question.id), optionOrder };
+}
+
+/**
+ * Returns the questions of an attempt in display order, with options (and their images and translations) reordered to match.
+ * Answers remain the original option texts, so grading is unaffected by the option order.
+ * @param questions - The full question pool of the quiz.
+ * @param draw - The attempt's draw. When missing, all questions are returned in quiz order.
+ */
+export function applyQuestionDraw<T extends QuestionBase>(questions: T[], draw?: { questionIds?: string[] | null; optionOrder?: Record<string, number[]> | null } | null): T[] {
+    if (!draw?.questionIds) return questions;
+    const questionsById = new Map(questions.map(question => [question.id, question]));
+
+    return draw.questionIds
+        .map(id => questionsById.get(id))
+        .filter((question): question is T => !!question)
+        .map((question) => {
+            const order = draw.optionOrder?.[question.id];
+            if (!order || order.length !== (question.options || []).length) return question;
+            const reorder = (values?: string[]) => (values && values.length === order.length ? order.map(index => values[index]) : values);
+            const translations = question.translations
+                ? Object.fromEntries(Object.entries(question.translations).map(([locale, translation]) => [locale, { ...translation, options: reorder(translation.options) }]))
+                : question.translations;
+            return { ...question, options: order.map(index => question.options[index]), optionImages: reorder(question.optionImages), translations };
+        });
+}
+
+export interface QuizGradeResult {
+    answers: QuizAttemptAnswer[];
+    correctCount: number;
+    totalQuestions: number;
+    score: number; // Percentage (0-100)
+    passed: boolean;
+    incorrectQuestionNumbers: number[]; // 1-based, in quiz order
+}
+
+function normalizeAnswer(question: QuestionBase, rawAnswer: QuizAnswerValue | undefined): QuizAnswerValue | null {
+    if (rawAnswer === undefined || rawAnswer === null) return null;
+    if (question.type === 'multiple-select') {
+        const values = Array.isArray(rawAnswer) ? rawAnswer : [rawAnswer];
+        return values.filter(value => typeof value === 'string' && value !== '').sort();
+    }
+    if (question.type === 'matching' || question.type === 'ordering') {
+        // Position matters: one entry per prompt, or the items in the order given
+        const values = Array.isArray(rawAnswer) ? rawAnswer : [rawAnswer];
+        return values.map(value => (typeof value === 'string' ? value : ''));
+    }
+    const value = Array.isArray(rawAnswer) ? rawAnswer[0] : rawAnswer;
+    if (question.type === 'short-answer') {
+        return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+    }
+    return typeof value === 'string' && value !== '' ? value : null;
+}
+
+/**
+ * Normalizes a typed answer for comparison: trims, collapses whitespace and, unless case sensitive, lowercases.
+ */
+export function normalizeTextAnswer(value: string, caseSensitive: boolean = false): string {
+    const collapsed = value.trim().replace(/\s+/g, ' ');
+    return caseSensitive ? collapsed : collapsed.toLowerCase();
+}
+
+function getAcceptedAnswers(question: QuestionBase, locale?: string): string[] {
+    const localized = locale && locale !== 'en' ? question.translations?.[locale]?.acceptedAnswers || [] : [];
+    return [...(question.acceptedAnswers || []), ...localized].filter(value => typeof value === 'string' && value.trim() !== '');
+}
+
+function isAnswerCorrect(question: QuestionBase, answer: QuizAnswerValue | null, locale?: string): boolean {
+    switch (question.type) {
+        case 'multiple-select': {
+            const given = Array.isArray(answer) ? answer : [];
+            const expected = [...(question.correctAnswers || [])].sort();
+            return given.length === expected.length && given.every((value, idx) => value === expected[idx]);
+        }
+        case 'short-answer': {
+            if (typeof answer !== 'string') return false;
+            const caseSensitive = !!question.caseSensitive;
+            const given = normalizeTextAnswer(answer, caseSensitive);
+            return getAcceptedAnswers(question, locale).some(accepted => normalizeTextAnswer(accepted, caseSensitive) === given);
+        }
+        case 'matching': {
+            const pairs = question.matchingPairs || [];
+            const given = Array.isArray(answer) ? answer : [];
+            return pairs.length > 0 && given.length === pairs.length && pairs.every((pair, idx) => given[idx] === pair.match);
+        }
+        case 'ordering': {
+            const expected = question.correctAnswers?.length ? question.correctAnswers : question.options || [];
+            const given = Array.isArray(answer) ? answer : [];
+            return expected.length > 0 && given.length === expected.length && given.every((value, idx) => value === expected[idx]);
+        }
+        default:
+            return answer !== null && answer === question.correctAnswer;
+    }
+}
+
+function getCorrectAnswersForReview(question: QuestionBase): { correctAnswer: string | null; correctAnswers: string[] | null } {
+    switch (question.type) {
+        case 'multiple-select':
+            return { correctAnswer: null, correctAnswers: question.correctAnswers ?? [] };
+        case 'short-answer':
+            return { correctAnswer: null, correctAnswers: question.acceptedAnswers ?? [] };
+        case 'matching':
+            return { correctAnswer: null, correctAnswers: (question.matchingPairs || []).map(pair => `${pair.prompt} → ${pair.match}`) };
+        case 'ordering':
+            return { correctAnswer: null, correctAnswers: question.correctAnswers?.length ? question.correctAnswers : question.options || [] };
+        default:
+            return { correctAnswer: question.correctAnswer ?? null, correctAnswers: null };
+    }
+}
+
+export function gradeQuizAnswers(questions: QuestionBase[], rawAnswers: Record<string, QuizAnswerValue>, passingScore: number = DEFAULT_QUIZ_SETTINGS.passingScore, locale?: string): QuizGradeResult {
+    const answers: QuizAttemptAnswer[] = [];
+    const incorrectQuestionNumbers: number[] = [];
+    let correctCount = 0;
+
+    questions.forEach((question, index) => {
+        const answer = normalizeAnswer(question, rawAnswers?.[question.id]);
+        const isCorrect = isAnswerCorrect(question, answer, locale);
+
+        if (isCorrect) correctCount++;
+        else incorrectQuestionNumbers.push(index + 1);
+
+        answers.push({
+            questionId: question.id,
+            questionText: question.text,
+            questionType: question.type,
+            answer,
+            ...getCorrectAnswersForReview(question),
+            isCorrect,
+        });
+    });
+
+    const totalQuestions = questions.length;
+    const score = totalQuestions > 0 ? Math.round((correctCount / totalQuestions) * 100) : 100;
+
+    return {
+        answers,
+        correctCount,
+        totalQuestions,
+        score,
+        passed: correctCount * 100 >= passingScore * totalQuestions, // Compared unrounded so e.g. 249/250 never passes a 100% mark
+        incorrectQuestionNumbers,
+    };
+}
+
+function serializeQuizAttemptData(data: any): any {
+    const serialized = { ...data };
+    if (data.startedAt instanceof Timestamp) serialized.startedAt = data.startedAt.toDate().toISOString();
+    if (data.submittedAt instanceof Timestamp) serialized.submittedAt = data.submittedAt.toDate().toISOString();
+    return serialized;
+}
+
+/**
+ * Creates an in-progress quiz attempt. `startedAt` is set by the server so time limits can be enforced.
+ * @param attemptData - The attempt details known when the quiz is started.
+ * @returns A promise that resolves to the new QuizAttempt, or null on failure.
+ */
+export async function addQuizAttempt(
+    attemptData: Pick<QuizAttempt, 'userId' | 'courseId' | 'quizId' | 'quizType' | 'quizTitle' | 'locale' | 'attemptNumber' | 'passingScore' | 'timeLimitMinutes' | 'questionIds' | 'optionOrder' | 'quizVersion'>
+): Promise<QuizAttempt | null> {
+    if (!attemptData.userId || !attemptData.quizId) return null;
+    return retryOperation(async () => {
+        const attemptsRef = collection(db, QUIZ_ATTEMPTS_COLLECTION);
+        const docRef = await addDoc(attemptsRef, {
+            ...attemptData,
+            timeLimitMinutes: attemptData.timeLimitMinutes ?? null,
+            questionIds: attemptData.questionIds ?? null,
+            optionOrder: attemptData.optionOrder ?? null,
+            quizVersion: attemptData.quizVersion ?? null,
+            status: 'in_progress',
+            answers: [],
+            correctCount: 0,
+            totalQuestions: 0,
+            score: 0,
+            passed: false,
+            startedAt: serverTimestamp(),
+            submittedAt: null,
+        });
+        const newDocSnap = await getDoc(docRef);
+        return newDocSnap.exists() ? { id: docRef.id, ...serializeQuizAttemptData(newDocSnap.data()) } as QuizAttempt : null;
+    });
+}
+
+/**
+ * Records the graded result of an in-progress attempt and marks it submitted.
+ * @param attemptId - The ID of the attempt.
+ * @param result - The server-side grading result.
+ * @param timedOut - Whether the submission arrived after the time limit.
+ * @returns A promise that resolves to the updated QuizAttempt, or null if it was not in progress.
+ */
+export async function completeQuizAttempt(attemptId: string, result: QuizGradeResult, timedOut: boolean = false): Promise<QuizAttempt | null> {
+    if (!attemptId) return null;
+    return retryOperation(async () => {
+        const attemptRef = doc(db, QUIZ_ATTEMPTS_COLLECTION, attemptId);
+        const attemptSnap = await getDoc(attemptRef);
+        if (!attemptSnap.exists() || attemptSnap.data().status !== 'in_progress') return null;
+
+        await updateDoc(attemptRef, {
+            status: 'submitted',
+            answers: result.answers,
+            correctCount: result.correctCount,
+            totalQuestions: result.totalQuestions,
+            score: result.score,
+            passed: result.passed && !timedOut,
+            timedOut,
+            submittedAt: serverTimestamp(),
+        });
+        const updatedSnap = await getDoc(attemptRef);
+        return updatedSnap.exists() ? { id: attemptId, ...serializeQuizAttemptData(updatedSnap.data()) } as QuizAttempt : null;
+    });
+}
+
+/**
+ * Records a scored SCORM session as a submitted attempt. The package does its own grading,
+ * so there are no answers, and the session's start time is the one the browser reported.
+ * @param attemptData - The lesson, the package's score and whether it counts as passed.
+ * @returns A promise that resolves to the new QuizAttempt, or null on failure.
+ */
+export async function addScormQuizAttempt(
+    attemptData: Pick<QuizAttempt, 'userId' | 'courseId' | 'quizId' | 'quizType' | 'quizTitle' | 'locale' | 'attemptNumber' | 'passingScore' | 'score' | 'passed'>,
+    startedAt: Date
+): Promise<QuizAttempt | null> {
+    if (!attemptData.userId || !attemptData.quizId) return null;
+    return retryOperation(async () => {
+        const docRef = await addDoc(collection(db, QUIZ_ATTEMPTS_COLLECTION), {
+            ...attemptData,
+            timeLimitMinutes: null,
+            questionIds: null,
+            optionOrder: null,
+            status: 'submitted',
+            answers: [],
+            correctCount: 0,
+            totalQuestions: 0,
+            startedAt: Timestamp.fromDate(startedAt),
+            submittedAt: serverTimestamp(),
+        });
+        const newDocSnap = await getDoc(docRef);
+        return newDocSnap.exists() ? { id: docRef.id, ...serializeQuizAttemptData(newDocSnap.data()) } as QuizAttempt : null;
+    });
+}
+
+/**
+ * Fetches a single quiz attempt.
+ * @param attemptId - The ID of the attempt.
+ * @returns A promise that resolves to the QuizAttempt, or null if not found.
+ */
+export async function getQuizAttemptById(attemptId: string): Promise<QuizAttempt | null> {
+    if (!attemptId) return null;
+    return retryOperation(async () => {
+        const docSnap = await getDoc(doc(db, QUIZ_ATTEMPTS_COLLECTION, attemptId));
+        return docSnap.exists() ? { id: docSnap.id, ...serializeQuizAttemptData(docSnap.data()) } as QuizAttempt : null;
+    });
+}
+
+/**
+ * Fetches a user's quiz attempts, optionally narrowed to one course and/or quiz.
+ * @param userId - The ID of the user.
+ * @param courseId - Optional course ID to filter by.
+ * @param quizId - Optional short quiz ID to filter by.
+ * @returns A promise that resolves to the attempts (in progress and submitted), most recently started first.
+ */
+export async function getQuizAttemptsForUser(userId: string, courseId?: string, quizId?: string): Promise<QuizAttempt[]> {
+    if (!userId) return [];
+    return retryOperation(async () => {
+        const attemptsRef = collection(db, QUIZ_ATTEMPTS_COLLECTION);
+        const constraints = [where("userId", "==", userId)];
+        if (courseId) constraints.push(where("courseId", "==", courseId));
+        if (quizId) constraints.push(where("quizId", "==", quizId));
+        const snapshot = await getDocs(query(attemptsRef, ...constraints));
+        const attempts: QuizAttempt[] = [];
+        snapshot.forEach((docSnap) => {
+            attempts.push({ id: docSnap.id, ...serializeQuizAttemptData(docSnap.data()) } as QuizAttempt);
+        });
+        // Sorted in memory to avoid requiring a composite index
+        return attempts.sort((a, b) => new Date(b.startedAt as string).getTime() - new Date(a.startedAt as string).getTime());
+    });
+}
+
+/**
+ * Fetches the submitted quiz attempts of many users at once, e.g. to report average scores across a brand.
+ * @param userIds - The IDs of the users.
+ * @returns A promise that resolves to the submitted attempts, in no particular order.
+ */
+export async function getSubmittedQuizAttemptsForUsers(userIds: string[]): Promise<QuizAttempt[]> {
+    const uniqueIds = Array.from(new Set(userIds.filter(Boolean)));
+    if (uniqueIds.length === 0) return [];
+    return retryOperation(async () => {
+        const attemptsRef = collection(db, QUIZ_ATTEMPTS_COLLECTION);
+        const attempts: QuizAttempt[] = [];
+        // Firestore 'in' query is limited to 30 elements, so we chunk it.
+        for (let i = 0; i < uniqueIds.length; i += 30) {
+            const chunk = uniqueIds.slice(i, i + 30);
+            const snapshot = await getDocs(query(attemptsRef, where("userId", "in", chunk), where("status", "==", "submitted")));
+            snapshot.forEach((docSnap) => {
+                attempts.push({ id: docSnap.id, ...serializeQuizAttemptData(docSnap.data()) } as QuizAttempt);
+            });
+        }
+        return attempts;
+    });
+}
@@ -0,0 +1,123 @@
+import type { User, UserCourseProgressData } from '@/types/user';
+import type { Course, BrandCourse } from '@/types/course';
+import { getAllUsers, archiveExpiredCourseCompletion } from './user-data';
+import { getCourseById } from './firestore-data';
+import { getBrandCourseById } from './brand-content-data';
+import { createNotification } from './notifications-data';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EXPIRING_SOON_DAYS = 30;
+
+export interface CompletionExpiry {
+    completedAt: Date;
+    expiresAt: Date;
+    isExpired: boolean;
+    daysUntilExpiry: number; // Negative once expired
+}
+
+export interface RecertificationResult {
+    usersChecked: number;
+    completionsExpired: number;
+}
+
+function toDate(value: unknown): Date | null {
+    if (!value) return null;
+    if (value instanceof Date) return value;
+    if (typeof value === 'string') {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date;
+    }
+    if (typeof (value as { toDate?: () => Date }).toDate === 'function') return (value as { toDate: () => Date }).toDate();
+    return null;
+}
+
+/**
+ * Adds calendar months, clamping to the end of shorter months (Jan 31 + 1 month = Feb 28).
+ */
+function addMonths(date: Date, months: number): Date {
+    const result = new Date(date.getFullYear(), date.getMonth() + months, 1, date.getHours(), date.getMinutes(), date.getSeconds());
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(date.getDate(), lastDay));
+    return result;
+}
+
+/**
+ * Works out when a course completion stops being valid.
+ * Completions recorded before completion dates were tracked count from the last progress update.
+ * @returns The expiry, or null if the course is not completed or its completions never expire.
+ */
+export function getCompletionExpiry(
+    progress: UserCourseProgressData | undefined,
+    course: Pick<Course | BrandCourse, 'validityMonths'> | null | undefined,
+    now: Date = new Date()
+): CompletionExpiry | null {
+    if (progress?.status !== 'Completed' || !course?.validityMonths) return null;
+    const completedAt = toDate(progress.completedAt) ?? toDate(progress.lastUpdated);
+    if (!completedAt) return null;
+
+    const expiresAt = addMonths(completedAt, course.validityMonths);
+    return {
+        completedAt,
+        expiresAt,
+        isExpired: expiresAt.getTime() <= now.getTime(),
+        daysUntilExpiry: Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS),
+    };
+}
+
+/**
+ * When the user's current attempt at a recertification course began, i.e. when their last completion expired.
+ * Quiz attempts from before this belong to an earlier certification and no longer count.
+ */
+export function getRecertificationStartedAt(user: User, courseId: string): Date | null {
+    const history = user.courseCompletionHistory?.[courseId] || [];
+    const expiredDates = history.map(entry => toDate(entry.expiredAt)).filter((date): date is Date => !!date);
+    return expiredDates.length > 0 ? new Date(Math.max(...expiredDates.map(date => date.getTime()))) : null;
+}
+
+/**
+ * Archives every expired completion, resets the course and lets the learner know they need to recertify.
+ * Run daily by the recertification cron route.
+ */
+export async function processExpiredCompletions(now: Date = new Date()): Promise<RecertificationResult> {
+    const result: RecertificationResult = { usersChecked: 0, completionsExpired: 0 };
+    const courses = new Map<string, Course | BrandCourse | null>();
+
+    const getCourse = async (courseId: string) => {
+        if (!courses.has(courseId)) {
+            courses.set(courseId, (await getCourseById(courseId)) || (await getBrandCourseById(courseId)));
+        }
+        return courses.get(courseId) ?? null;
+    };
+
+    const allUsers = await getAllUsers();
+    for (const user of allUsers) {
+        const completedCourseIds = Object.entries(user.courseProgress || {})
+            .filter(([, progress]) => progress?.status === 'Completed')
+            .map(([courseId]) => courseId);
+        if (completedCourseIds.length === 0) continue;
+        result.usersChecked++;
+
+        for (const courseId of completedCourseIds) {
+            const course = await getCourse(courseId);
+            const expiry = getCompletionExpiry(user.courseProgress?.[courseId], course, now);
+            if (!course || !expiry?.isExpired) continue;
+
+            const archived = await archiveExpiredCourseCompletion(user.id, courseId, expiry.expiresAt);
+            if (!archived) continue;
+            result.completionsExpired++;
+
+            if (user.isActive) {
+                await createNotification({
+                    recipientId: user.id,
+                    senderId: 'SYSTEM',
+                    senderName: 'System',
+                    type: 'reminder',
+                    content: `Your certification for "${course.title}" expired on ${expiry.expiresAt.toLocaleDateString()}. Please retake the course to recertify.`,
+                    href: `/learn/${courseId}`,
+                });
+            }
+        }
+    }
+    return result;
+}
@@ -0,0 +1,408 @@
+// The SCORM run-time API a package calls from its iframe: window.API for SCORM 1.2 and
+// window.API_1484_11 for SCORM 2004. Only the data model needed for tracking is kept between sessions;
+// interactions, objectives and preferences are accepted for the session but not stored.
+import type { ScormLessonStatus, ScormRuntimeData, ScormVersion } from '@/types/course';
+import { EMPTY_SCORM_RUNTIME_DATA, MAX_SCORM_LOCATION_LENGTH, MAX_SCORM_SUSPEND_DATA_LENGTH, formatScormTime, parseScormTime } from './scorm';
+
+export interface ScormRuntimeOptions {
+    version: ScormVersion;
+    learner: { id: string; name: string };
+    masteryScore: number | null; // 0-100
+    initialData: ScormRuntimeData | null | undefined;
+    onCommit: (data: ScormRuntimeData, sessionEnded: boolean) => void;
+}
+
+export type ScormApi = Record<string, (...args: string[]) => string>;
+
+export interface ScormRuntime {
+    api: ScormApi; // Installed on the window as API or API_1484_11
+    apiName: 'API' | 'API_1484_11';
+    endSession: () => void; // Ends a session the package left open, e.g. when the learner navigates away
+    getEndOfSessionData: () => ScormRuntimeData | null; // What ending the session now would store, or null when it isn't running
+}
+
+type CompletionStatus = 'completed' | 'incomplete' | 'not attempted' | 'unknown';
+type SuccessStatus = 'passed' | 'failed' | 'unknown';
+
+const SCORM_12_ERRORS: Record<number, string> = {
+    0: 'No error', 101: 'General exception', 201: 'Invalid argument error', 202: 'Element cannot have children',
+    203: 'Element not an array - cannot have count', 301: 'Not initialized', 401: 'Not implemented error',
+    402: 'Invalid set value, element is a keyword', 403: 'Element is read only', 404: 'Element is write only', 405: 'Incorrect data type',
+};
+
+const SCORM_2004_ERRORS: Record<number, string> = {
+    0: 'No Error', 101: 'General Exception', 103: 'Already Initialized', 104: 'Content Instance Terminated',
+    112: 'Termination Before Initialization', 113: 'Termination After Termination',
+    122: 'Retrieve Data Before Initialization', 123: 'Retrieve Data After Termination',
+    132: 'Store Data Before Initialization', 133: 'Store Data After Termination',
+    142: 'Commit Before Initialization', 143: 'Commit After Termination',
+    201: 'General Argument Error', 301: 'General Get Failure', 351: 'General Set Failure', 391: 'General Commit Failure',
+    401: 'Undefined Data Model Element', 402: 'Unimplemented Data Model Element', 403: 'Data Model Element Value Not Initialized',
+    404: 'Data Model Element Is Read Only', 405: 'Data Model Element Is Write Only', 406: 'Data Model Element Type Mismatch',
+    407: 'Data Model Element Value Out Of Range',
+};
+
+// The error code each version uses for the same problem
+const ERRORS = {
+    '1.2': { alreadyInitialized: 101, invalidArgument: 201, getFailure: 201, setFailure: 201, undefinedElement: 401, readOnly: 403, writeOnly: 404, typeMismatch: 405, outOfRange: 405, notInitializedValue: 0, keyword: 402, noChildren: 202, notArray: 203 },
+    '2004': { alreadyInitialized: 103, invalidArgument: 201, getFailure: 301, setFailure: 351, undefinedElement: 401, readOnly: 404, writeOnly: 405, typeMismatch: 406, outOfRange: 407, notInitializedValue: 403, keyword: 404, noChildren: 401, notArray: 401 },
+} as const;
+
+// Collections a package may add to during a session, and the fields of each record
+const COLLECTIONS: Record<ScormVersion, Record<string, string>> = {
+    '1.2': {
+        'cmi.objectives': 'id,score,status',
+        'cmi.interactions': 'id,objectives,time,type,correct_responses,weighting,student_response,result,latency',
+    },
+    '2004': {
+        'cmi.objectives': 'id,score,success_status,completion_status,progress_measure,description',
+        'cmi.interactions': 'id,type,objectives,timestamp,correct_responses,weighting,learner_response,result,latency,description',
+        'cmi.comments_from_learner': 'comment,location,timestamp',
+    },
+};
+
+const isDecimal = (value: string) => /^-?\d+(\.\d+)?$/.test(value);
+
+function toCompletionStatus(status: ScormLessonStatus): CompletionStatus {
+    if (status === 'not attempted') return 'not attempted';
+    return status === 'incomplete' || status === 'browsed' ? 'incomplete' : 'completed';
+}
+
+function toSuccessStatus(status: ScormLessonStatus): SuccessStatus {
+    return status === 'passed' || status === 'failed' ? status : 'unknown';
+}
+
+/**
+ * Creates the API object for a package, starting from the learner's saved runtime data.
+ * Each commit, and the end of the session, is passed to onCommit with the data to store.
+ */
+export function createScormRuntime(options: ScormRuntimeOptions): ScormRuntime {
+    const { version, learner, masteryScore, onCommit } = options;
+    const errors = ERRORS[version];
+    const errorStrings = version === '1.2' ? SCORM_12_ERRORS : SCORM_2004_ERRORS;
+    const data: ScormRuntimeData = { ...EMPTY_SCORM_RUNTIME_DATA, ...options.initialData };
+    const entry = data.exit === 'suspend' ? 'resume' : data.lessonStatus === 'not attempted' ? 'ab-initio' : '';
+
+    let state: 'not initialized' | 'running' | 'terminated' = 'not initialized';
+    let lastError = 0;
+    let diagnostic = '';
+    let sessionSeconds = 0;
+    let sessionExit = '';
+    let completionStatus = toCompletionStatus(data.lessonStatus);
+    let successStatus = toSuccessStatus(data.lessonStatus);
+    let progressMeasure = '';
+    const records = new Map<string, string>(); // Collection fields and preferences, by element name
+
+    const fail = (code: number, detail = '') => {
+        lastError = code;
+        diagnostic = detail;
+        return 'false';
+    };
+    const failGet = (code: number, detail = '') => {
+        fail(code, detail);
+        return '';
+    };
+    const succeed = (value = 'true') => {
+        lastError = 0;
+        diagnostic = '';
+        return value;
+    };
+
+    // SCORM 2004: a scaled passing score decides success once the package reports a scaled score
+    const getSuccessStatus = (): SuccessStatus => {
+        if (masteryScore !== null && data.scoreScaled !== null) return data.scoreScaled * 100 >= masteryScore ? 'passed' : 'failed';
+        return successStatus;
+    };
+
+    const getLessonStatus = (): ScormLessonStatus => {
+        if (version === '1.2') return data.lessonStatus;
+        const success = getSuccessStatus();
+        if (success !== 'unknown') return success;
+        return completionStatus === 'unknown' ? 'incomplete' : completionStatus;
+    };
+
+    const snapshot = (): ScormRuntimeData => ({ ...data, lessonStatus: getLessonStatus(), updatedAt: new Date().toISOString() });
+
+    const formatScore = (value: number | null) => (value === null ? '' : String(value));
+
+    // Returns '' and an error code for values that haven't been set, as SCORM 2004 requires
+    const optional = (value: string) => {
+        if (value === '' && errors.notInitializedValue) {
+            lastError = errors.notInitializedValue;
+            return '';
+        }
+        return succeed(value);
+    };
+
+    const setScore = (key: 'scoreRaw' | 'scoreMin' | 'scoreMax', value: string): string => {
+        if (value === '' && version === '1.2') {
+            data[key] = null;
+            return succeed();
+        }
+        if (!isDecimal(value)) return fail(errors.typeMismatch, `${value} is not a number.`);
+        const score = Number(value);
+        if (version === '1.2' && (score < 0 || score > 100)) return fail(errors.outOfRange, 'Scores must be between 0 and 100.');
+        data[key] = score;
+        return succeed();
+    };
+
+    const setText = (key: 'location' | 'suspendData', value: string, maxLength: number): string => {
+        if (value.length > maxLength) return fail(errors.typeMismatch, `The value is longer than ${maxLength} characters.`);
+        data[key] = value;
+        return succeed();
+    };
+
+    const setSessionTime = (value: string): string => {
+        const seconds = parseScormTime(value, version);
+        if (seconds === null) return fail(errors.typeMismatch, `${value} is not a valid time.`);
+        sessionSeconds = seconds;
+        return succeed();
+    };
+
+    const setExit = (value: string, allowed: string[]): string => {
+        if (!allowed.includes(value)) return fail(errors.typeMismatch, `${value} is not a valid exit value.`);
+        sessionExit = value;
+        return succeed();
+    };
+
+    interface ElementHandler {
+        get?: () => string;
+        set?: (value: string) => string;
+    }
+
+    const elements: Record<string, ElementHandler> = version === '1.2' ? {
+        'cmi.core._children': { get: () => succeed('student_id,student_name,lesson_location,credit,lesson_status,entry,score,total_time,lesson_mode,exit,session_time') },
+        'cmi.core.student_id': { get: () => succeed(learner.id) },
+        'cmi.core.student_name': { get: () => succeed(learner.name) },
+        'cmi.core.lesson_location': { get: () => succeed(data.location), set: value => setText('location', value, 255) },
+        'cmi.core.credit': { get: () => succeed('credit') },
+        'cmi.core.lesson_status': {
+            get: () => succeed(data.lessonStatus),
+            set: value => {
+                if (!['passed', 'completed', 'failed', 'incomplete', 'browsed'].includes(value)) return fail(errors.typeMismatch, `${value} is not a valid lesson status.`);
+                data.lessonStatus = value as ScormLessonStatus;
+                return succeed();
+            },
+        },
+        'cmi.core.entry': { get: () => succeed(entry) },
+        'cmi.core.score._children': { get: () => succeed('raw,min,max') },
+        'cmi.core.score.raw': { get: () => succeed(formatScore(data.scoreRaw)), set: value => setScore('scoreRaw', value) },
+        'cmi.core.score.min': { get: () => succeed(formatScore(data.scoreMin)), set: value => setScore('scoreMin', value) },
+        'cmi.core.score.max': { get: () => succeed(formatScore(data.scoreMax)), set: value => setScore('scoreMax', value) },
+        'cmi.core.total_time': { get: () => succeed(formatScormTime(data.totalTimeSeconds, version)) },
+        'cmi.core.lesson_mode': { get: () => succeed('normal') },
+        'cmi.core.exit': { set: value => setExit(value, ['time-out', 'suspend', 'logout', '']) },
+        'cmi.core.session_time': { set: setSessionTime },
+        'cmi.suspend_data': { get: () => succeed(data.suspendData), set: value => setText('suspendData', value, 4096) },
+        'cmi.launch_data': { get: () => succeed('') },
+        'cmi.comments': { get: () => succeed(records.get('cmi.comments') || ''), set: value => { records.set('cmi.comments', (records.get('cmi.comments') || '') + value); return succeed(); } },
+        'cmi.comments_from_lms': { get: () => succeed('') },
+        'cmi.student_data._children': { get: () => succeed('mastery_score,max_time_allowed,time_limit_action') },
+        'cmi.student_data.mastery_score': { get: () => succeed(masteryScore === null ? '' : String(masteryScore)) },
+        'cmi.student_data.max_time_allowed': { get: () => succeed('') },
+        'cmi.student_data.time_limit_action': { get: () => succeed('continue,no message') },
+        'cmi.student_preference._children': { get: () => succeed('audio,language,speed,text') },
+    } : {
+        'cmi._version': { get: () => succeed('1.0') },
+        'cmi.learner_id': { get: () => succeed(learner.id) },
+        'cmi.learner_name': { get: () => succeed(learner.name) },
+        'cmi.location': { get: () => optional(data.location), set: value => setText('location', value, MAX_SCORM_LOCATION_LENGTH) },
+        'cmi.credit': { get: () => succeed('credit') },
+        'cmi.mode': { get: () => succeed('normal') },
+        'cmi.entry': { get: () => succeed(entry) },
+        'cmi.completion_status': {
+            get: () => succeed(completionStatus),
+            set: value => {
+                if (!['completed', 'incomplete', 'not attempted', 'unknown'].includes(value)) return fail(errors.typeMismatch, `${value} is not a valid completion status.`);
+                completionStatus = value as CompletionStatus;
+                return succeed();
+            },
+        },
+        'cmi.success_status': {
+            get: () => succeed(getSuccessStatus()),
+            set: value => {
+                if (!['passed', 'failed', 'unknown'].includes(value)) return fail(errors.typeMismatch, `${value} is not a valid success status.`);
+                successStatus = value as SuccessStatus;
+                return succeed();
+            },
+        },
+        'cmi.completion_threshold': { get: () => optional('') },
+        'cmi.progress_measure': {
+            get: () => optional(progressMeasure),
+            set: value => {
+                if (!isDecimal(value)) return fail(errors.typeMismatch, `${value} is not a number.`);
+                if (Number(value) < 0 || Number(value) > 1) return fail(errors.outOfRange, 'Progress must be between 0 and 1.');
+                progressMeasure = value;
+                return succeed();
+            },
+        },
+        'cmi.scaled_passing_score': { get: () => optional(masteryScore === null ? '' : String(masteryScore / 100)) },
+        'cmi.score._children': { get: () => succeed('scaled,raw,min,max') },
+        'cmi.score.scaled': {
+            get: () => optional(formatScore(data.scoreScaled)),
+            set: value => {
+                if (!isDecimal(value)) return fail(errors.typeMismatch, `${value} is not a number.`);
+                if (Number(value) < -1 || Number(value) > 1) return fail(errors.outOfRange, 'The scaled score must be between -1 and 1.');
+                data.scoreScaled = Number(value);
+                return succeed();
+            },
+        },
+        'cmi.score.raw': { get: () => optional(formatScore(data.scoreRaw)), set: value => setScore('scoreRaw', value) },
+        'cmi.score.min': { get: () => optional(formatScore(data.scoreMin)), set: value => setScore('scoreMin', value) },
+        'cmi.score.max': { get: () => optional(formatScore(data.scoreMax)), set: value => setScore('scoreMax', value) },
+        'cmi.total_time': { get: () => succeed(formatScormTime(data.totalTimeSeconds, version)) },
+        'cmi.exit': { set: value => setExit(value, ['time-out', 'suspend', 'logout', 'normal', '']) },
+        'cmi.session_time': { set: setSessionTime },
+        'cmi.suspend_data': { get: () => optional(data.suspendData), set: value => setText('suspendData', value, MAX_SCORM_SUSPEND_DATA_LENGTH) },
+        'cmi.launch_data': { get: () => optional('') },
+        'cmi.max_time_allowed': { get: () => optional('') },
+        'cmi.time_limit_action': { get: () => succeed('continue,no message') },
+        'cmi.comments_from_lms._count': { get: () => succeed('0') },
+        'cmi.learner_preference._children': { get: () => succeed('audio_level,language,delivery_speed,audio_captioning') },
+        'adl.nav.request': { get: () => succeed(records.get('adl.nav.request') || '_none_'), set: value => { records.set('adl.nav.request', value); return succeed(); } },
+    };
+
+    const preferences: Record<string, string> = version === '1.2'
+        ? { 'cmi.student_preference.audio': '0', 'cmi.student_preference.language': '', 'cmi.student_preference.speed': '0', 'cmi.student_preference.text': '0' }
+        : { 'cmi.learner_preference.audio_level': '1', 'cmi.learner_preference.language': '', 'cmi.learner_preference.delivery_speed': '1', 'cmi.learner_preference.audio_captioning': '0' };
+
+    const recordCount = (collection: string) => {
+        let count = 0;
+        while (Array.from(records.keys()).some(key => key.startsWith(`${collection}.${count}.`))) count++;
+        return count;
+    };
+
+    // Elements of cmi.objectives.n, cmi.interactions.n and so on
+    const collectionElement = (element: string): ElementHandler | null => {
+        const collection = Object.keys(COLLECTIONS[version]).find(name => element.startsWith(`${name}.`));
+        if (!collection) return null;
+        const rest = element.slice(collection.length + 1);
+        if (rest === '_children') return { get: () => succeed(COLLECTIONS[version][collection]) };
+        if (rest === '_count') return { get: () => succeed(String(recordCount(collection))) };
+        const match = /^(\d+)\.(.+)$/.exec(rest);
+        if (!match) return null;
+        const index = Number(match[1]);
+        return {
+            get: () => {
+                if (version === '1.2' && collection === 'cmi.interactions' && !match[2].endsWith('_count')) return failGet(errors.writeOnly, 'Interactions are write-only.');
+                if (index >= recordCount(collection)) return failGet(errors.getFailure, `${collection}.${index} has not been set.`);
+                return records.has(element) ? succeed(records.get(element)!) : optional('');
+            },
+            set: value => {
+                if (index > recordCount(collection)) return fail(errors.setFailure, `${collection} records must be added in order.`);
+                records.set(element, value);
+                return succeed();
+            },
+        };
+    };
+
+    const findElement = (element: string): ElementHandler | null => {
+        if (elements[element]) return elements[element];
+        if (element in preferences) {
+            return { get: () => succeed(records.get(element) ?? preferences[element]), set: value => { records.set(element, value); return succeed(); } };
+        }
+        return collectionElement(element);
+    };
+
+    // SCORM 2004 has a code for each call made before Initialize or after Terminate; SCORM 1.2 uses 301 for all of them
+    const checkState = (beforeInitError: number, afterTerminateError: number) => {
+        if (state === 'not initialized') return fail(version === '1.2' ? 301 : beforeInitError, 'The API has not been initialized.');
+        if (state === 'terminated') return fail(version === '1.2' ? 301 : afterTerminateError, 'The session has ended.');
+        return null;
+    };
+
+    const initialize = (parameter: string) => {
+        if (parameter !== '') return fail(errors.invalidArgument, 'The parameter must be an empty string.');
+        if (state === 'running') return fail(errors.alreadyInitialized, 'The API is already initialized.');
+        if (state === 'terminated') return fail(version === '1.2' ? 101 : 104, 'The session has ended.');
+        state = 'running';
+        return succeed();
+    };
+
+    const getValue = (element: string) => {
+        const stateError = checkState(122, 123);
+        if (stateError) return '';
+        if (!element) return failGet(errors.getFailure, 'No element was given.');
+        const handler = findElement(element);
+        if (!handler) {
+            if (element.endsWith('._children')) return failGet(errors.noChildren, `${element} has no children.`);
+            if (element.endsWith('._count')) return failGet(errors.notArray, `${element} is not a collection.`);
+            return failGet(errors.undefinedElement, `${element} is not supported.`);
+        }
+        if (!handler.get) return failGet(errors.writeOnly, `${element} is write-only.`);
+        return handler.get();
+    };
+
+    const setValue = (element: string, rawValue: string) => {
+        const stateError = checkState(132, 133);
+        if (stateError) return stateError;
+        const value = String(rawValue ?? '');
+        if (!element) return fail(errors.setFailure, 'No element was given.');
+        if (element.endsWith('._children') || element.endsWith('._count') || element.endsWith('._version')) return fail(errors.keyword, `${element} is read-only.`);
+        const handler = findElement(element);
+        if (!handler) return fail(errors.undefinedElement, `${element} is not supported.`);
+        if (!handler.set) return fail(errors.readOnly, `${element} is read-only.`);
+        return handler.set(value);
+    };
+
+    // The data as it stands once the session's time and exit are added, without ending the session
+    const getEndData = (): ScormRuntimeData => {
+        const endData = { ...snapshot(), totalTimeSeconds: data.totalTimeSeconds + sessionSeconds, exit: sessionExit };
+        if (version === '1.2') {
+            // The LMS decides pass or fail when the manifest sets a mastery score (SCORM 1.2 RTE 3.4.4)
+            if (masteryScore !== null && data.scoreRaw !== null && data.lessonStatus === 'completed') {
+                endData.lessonStatus = data.scoreRaw >= masteryScore ? 'passed' : 'failed';
+            }
+            if (endData.lessonStatus === 'not attempted') endData.lessonStatus = 'incomplete';
+        } else if (getSuccessStatus() === 'unknown' && (completionStatus === 'not attempted' || completionStatus === 'unknown')) {
+            endData.lessonStatus = 'incomplete';
+        }
+        return endData;
+    };
+
+    const commit = (parameter: string) => {
+        if (parameter !== '') return fail(errors.invalidArgument, 'The parameter must be an empty string.');
+        const stateError = checkState(142, 143);
+        if (stateError) return stateError;
+        onCommit(snapshot(), false);
+        return succeed();
+    };
+
+    const terminate = (parameter: string) => {
+        if (parameter !== '') return fail(errors.invalidArgument, 'The parameter must be an empty string.');
+        const stateError = checkState(112, 113);
+        if (stateError) return stateError;
+        state = 'terminated';
+
+        const endData = getEndData();
+        data.totalTimeSeconds = endData.totalTimeSeconds;
+        data.exit = endData.exit;
+        if (version === '1.2') data.lessonStatus = endData.lessonStatus;
+        else if (completionStatus === 'not attempted' || completionStatus === 'unknown') completionStatus = 'incomplete';
+        onCommit(endData, true);
+        return succeed();
+    };
+
+    const getLastError = () => String(lastError);
+    const getErrorString = (code: string) => errorStrings[Number(code)] || '';
+    const getDiagnostic = (code: string) => (code === '' || Number(code) === lastError ? diagnostic : errorStrings[Number(code)] || '');
+
+    const api: ScormApi = version === '1.2'
+        ? {
+            LMSInitialize: initialize, LMSFinish: terminate, LMSGetValue: getValue, LMSSetValue: setValue, LMSCommit: commit,
+            LMSGetLastError: getLastError, LMSGetErrorString: getErrorString, LMSGetDiagnostic: getDiagnostic,
+        }
+        : {
+            Initialize: initialize, Terminate: terminate, GetValue: getValue, SetValue: setValue, Commit: commit,
+            GetLastError: getLastError, GetErrorString: getErrorString, GetDiagnostic: getDiagnostic,
+        };
+
+    return {
+        api,
+        apiName: version === '1.2' ? 'API' : 'API_1484_11',
+        endSession: () => {
+            if (state === 'running') terminate('');
+        },
+        getEndOfSessionData: () => (state === 'running' ? getEndData() : null),
+    };
+}
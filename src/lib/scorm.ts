@@ -0,0 +1,260 @@
+// SCORM 1.2 and SCORM 2004 packages: reading the manifest, and the runtime data kept per learner.
+// Manifests are parsed with DOMParser, so packages are read in the browser before upload.
+import type { ScormLessonStatus, ScormPackage, ScormRuntimeData, ScormVersion } from '@/types/course';
+import type { ZipEntry } from '@/lib/zip';
+
+export const MAX_SCORM_PACKAGE_BYTES = 300 * 1024 * 1024;
+export const MAX_SCORM_SUSPEND_DATA_LENGTH = 64000; // SCORM 2004's limit. SCORM 1.2 packages are held to 4096 by the runtime
+export const MAX_SCORM_LOCATION_LENGTH = 1000;
+
+// Packages are played on a separate origin so their scripts can't reach the app's pages or the learner's
+// signed-in session. Point a second hostname at this same deployment. In development, 127.0.0.1 and
+// localhost are different origins, so the app is opened on localhost.
+export const SCORM_CONTENT_ORIGIN = (process.env.NEXT_PUBLIC_SCORM_CONTENT_ORIGIN || 'http://127.0.0.1:9002').replace(/\/+$/, '');
+export const SCORM_PLAYER_PATH = '/scorm-player'; // Hosts the runtime API on the content origin, with the package inside it
+
+export const isScormContentHost = (host: string | null): boolean => !!host && host === new URL(SCORM_CONTENT_ORIGIN).host;
+
+export const EMPTY_SCORM_RUNTIME_DATA: ScormRuntimeData = {
+    lessonStatus: 'not attempted',
+    scoreRaw: null,
+    scoreMin: null,
+    scoreMax: null,
+    scoreScaled: null,
+    location: '',
+    suspendData: '',
+    exit: '',
+    totalTimeSeconds: 0,
+};
+
+const SCORM_LESSON_STATUSES: ScormLessonStatus[] = ['not attempted', 'browsed', 'incomplete', 'completed', 'passed', 'failed'];
+
+const CONTENT_TYPES: Record<string, string> = {
+    html: 'text/html', htm: 'text/html', xhtml: 'application/xhtml+xml',
+    js: 'text/javascript', mjs: 'text/javascript', css: 'text/css', json: 'application/json', xml: 'application/xml', xsd: 'application/xml',
+    txt: 'text/plain', vtt: 'text/vtt', pdf: 'application/pdf',
+    png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', svg: 'image/svg+xml', webp: 'image/webp', ico: 'image/x-icon',
+    mp4: 'video/mp4', webm: 'video/webm', m4v: 'video/mp4', mp3: 'audio/mpeg', m4a: 'audio/mp4', wav: 'audio/wav', ogg: 'audio/ogg',
+    woff: 'font/woff', woff2: 'font/woff2', ttf: 'font/ttf', otf: 'font/otf', eot: 'application/vnd.ms-fontobject',
+    swf: 'application/x-shockwave-flash',
+};
+
+/**
+ * The content type a package file is stored and served with.
+ */
+export function getScormFileContentType(filePath: string): string {
+    const extension = filePath.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+    return CONTENT_TYPES[extension] || 'application/octet-stream';
+}
+
+/**
+ * The path, on the content origin, the package's launch file is served from. Relative links inside the package resolve against it.
+ */
+export function getScormLaunchUrl(scormPackage: Pick<ScormPackage, 'id' | 'launchPath'>): string {
+    const queryStart = scormPackage.launchPath.search(/[?#]/);
+    const filePath = queryStart === -1 ? scormPackage.launchPath : scormPackage.launchPath.slice(0, queryStart);
+    const query = queryStart === -1 ? '' : scormPackage.launchPath.slice(queryStart);
+    return `/api/scorm/${encodeURIComponent(scormPackage.id)}/${filePath.split('/').map(encodeURIComponent).join('/')}${query}`;
+}
+
+// --- Manifest ---
+
+export interface ParsedScormPackage {
+    version: ScormVersion;
+    title: string;
+    launchPath: string;
+    masteryScore: number | null;
+    files: ZipEntry[]; // Package files, with paths relative to the manifest
+}
+
+const childElements = (parent: Element, localName: string) =>
+    Array.from(parent.children).filter(child => child.localName === localName);
+
+const firstChildText = (parent: Element, localName: string) =>
+    childElements(parent, localName)[0]?.textContent?.trim() || '';
+
+// Attributes are matched by local name, since packages use a variety of namespace prefixes
+function getAttribute(element: Element, localName: string): string | null {
+    const attribute = Array.from(element.attributes).find(attr => attr.localName.toLowerCase() === localName.toLowerCase());
+    return attribute ? attribute.value : null;
+}
+
+function detectVersion(manifest: Element): ScormVersion {
+    const metadata = childElements(manifest, 'metadata')[0];
+    const schemaVersion = metadata ? firstChildText(metadata, 'schemaversion') : '';
+    if (/2004|CAM 1\.3/i.test(schemaVersion)) return '2004';
+    if (/1\.2/.test(schemaVersion)) return '1.2';
+    const namespaces = Array.from(manifest.attributes).map(attr => attr.value).join(' ');
+    return /adlcp_v1p3|imsss/.test(namespaces) ? '2004' : '1.2';
+}
+
+function joinPackagePath(...parts: (string | null)[]): string {
+    const segments: string[] = [];
+    parts.filter(Boolean).join('/').split('/').forEach(segment => {
+        if (segment === '' || segment === '.') return;
+        if (segment === '..') segments.pop();
+        else segments.push(segment);
+    });
+    return segments.join('/');
+}
+
+function getMasteryScore(item: Element, version: ScormVersion): number | null {
+    if (version === '1.2') {
+        const value = parseFloat(firstChildText(item, 'masteryscore'));
+        return Number.isFinite(value) ? Math.min(100, Math.max(0, value)) : null;
+    }
+    const objectives = childElements(item, 'sequencing').flatMap(sequencing => childElements(sequencing, 'objectives'));
+    const primaryObjective = objectives.flatMap(element => childElements(element, 'primaryObjective'))[0];
+    if (!primaryObjective || getAttribute(primaryObjective, 'satisfiedByMeasure') !== 'true') return null;
+    const value = parseFloat(firstChildText(primaryObjective, 'minNormalizedMeasure'));
+    return Number.isFinite(value) ? Math.round(Math.min(1, Math.max(0, value)) * 100) : null;
+}
+
+/**
+ * Reads an unpacked SCORM package's imsmanifest.xml and finds the SCO to launch.
+ * Packages with several SCOs launch the first one in the default organization.
+ * @param entries - The files in the package zip. The manifest may be inside a top-level folder.
+ * @throws If there is no usable manifest or launch file.
+ */
+export function parseScormPackage(entries: ZipEntry[], fallbackTitle: string): ParsedScormPackage {
+    if (typeof DOMParser === 'undefined') throw new Error("SCORM packages can only be read in the browser.");
+
+    const manifestEntry = entries
+        .filter(entry => /(^|\/)imsmanifest\.xml$/i.test(entry.name))
+        .sort((a, b) => a.name.length - b.name.length)[0];
+    if (!manifestEntry) throw new Error("This zip is not a SCORM package: imsmanifest.xml is missing.");
+    const rootPrefix = manifestEntry.name.slice(0, manifestEntry.name.length - 'imsmanifest.xml'.length);
+
+    const document = new DOMParser().parseFromString(new TextDecoder().decode(manifestEntry.data).replace(/^\uFEFF/, ''), 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) throw new Error("imsmanifest.xml is not valid XML.");
+    const manifest = document.documentElement;
+    if (manifest.localName !== 'manifest') throw new Error("imsmanifest.xml has no manifest element.");
+    const version = detectVersion(manifest);
+
+    const organizationsElement = childElements(manifest, 'organizations')[0];
+    const organizations = organizationsElement ? childElements(organizationsElement, 'organization') : [];
+    const defaultId = organizationsElement ? getAttribute(organizationsElement, 'default') : null;
+    const organization = organizations.find(org => getAttribute(org, 'identifier') === defaultId) || organizations[0];
+    if (!organization) throw new Error("The package's manifest has no organizations.");
+
+    const resourcesElement = childElements(manifest, 'resources')[0];
+    const resources = resourcesElement ? childElements(resourcesElement, 'resource') : [];
+    const findResource = (item: Element) => {
+        const resourceId = getAttribute(item, 'identifierref');
+        return resourceId ? resources.find(resource => getAttribute(resource, 'identifier') === resourceId && getAttribute(resource, 'href')) : undefined;
+    };
+    const allItems = Array.from(organization.getElementsByTagNameNS('*', 'item'));
+    const launchItem = allItems.find(item => getAttribute(findResource(item) || item, 'scormtype')?.toLowerCase() === 'sco')
+        || allItems.find(item => findResource(item));
+    const resource = launchItem && findResource(launchItem);
+    if (!launchItem || !resource) throw new Error("The package's manifest has no launchable item.");
+
+    const href = joinPackagePath(resourcesElement && getAttribute(resourcesElement, 'base'), getAttribute(resource, 'base'), getAttribute(resource, 'href'));
+    const [launchFile] = href.split(/[?#]/);
+    const files = entries
+        .filter(entry => entry.name.startsWith(rootPrefix) && !entry.name.endsWith('/'))
+        .map(entry => ({ name: entry.name.slice(rootPrefix.length), data: entry.data }));
+    if (!files.some(file => file.name === launchFile)) throw new Error(`The package's launch file "${launchFile}" is missing from the zip.`);
+
+    // Item parameters are appended to the launch URL (IMS CP 1.1.4)
+    const parameters = (getAttribute(launchItem, 'parameters') || '').trim();
+    const launchPath = !parameters ? href
+        : parameters.startsWith('#') ? `${href}${parameters}`
+        : `${href}${href.includes('?') ? '&' : '?'}${parameters.replace(/^[?&]/, '')}`;
+
+    return {
+        version,
+        title: firstChildText(organization, 'title') || firstChildText(launchItem, 'title') || fallbackTitle,
+        launchPath,
+        masteryScore: getMasteryScore(launchItem, version),
+        files,
+    };
+}
+
+/**
+ * Normalizes a lesson's package details so they never contain undefined values.
+ */
+export function sanitizeScormPackage(scormPackage: ScormPackage | null | undefined): ScormPackage | null {
+    if (!scormPackage?.id || !scormPackage.launchPath) return null;
+    return {
+        id: scormPackage.id,
+        version: scormPackage.version === '2004' ? '2004' : '1.2',
+        title: scormPackage.title || '',
+        launchPath: scormPackage.launchPath,
+        masteryScore: typeof scormPackage.masteryScore === 'number' ? scormPackage.masteryScore : null,
+        fileName: scormPackage.fileName || '',
+        fileCount: scormPackage.fileCount || 0,
+    };
+}
+
+// --- Runtime data ---
+
+const toNumberOrNull = (value: unknown): number | null =>
+    typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+/**
+ * Normalizes runtime data reported by the browser before it is stored.
+ */
+export function sanitizeScormRuntimeData(data: Partial<ScormRuntimeData> | null | undefined): ScormRuntimeData {
+    const scoreScaled = toNumberOrNull(data?.scoreScaled);
+    return {
+        lessonStatus: SCORM_LESSON_STATUSES.includes(data?.lessonStatus as ScormLessonStatus) ? data!.lessonStatus! : 'not attempted',
+        scoreRaw: toNumberOrNull(data?.scoreRaw),
+        scoreMin: toNumberOrNull(data?.scoreMin),
+        scoreMax: toNumberOrNull(data?.scoreMax),
+        scoreScaled: scoreScaled === null ? null : Math.min(1, Math.max(-1, scoreScaled)),
+        location: typeof data?.location === 'string' ? data.location.slice(0, MAX_SCORM_LOCATION_LENGTH) : '',
+        suspendData: typeof data?.suspendData === 'string' ? data.suspendData.slice(0, MAX_SCORM_SUSPEND_DATA_LENGTH) : '',
+        exit: typeof data?.exit === 'string' ? data.exit.slice(0, 20) : '',
+        totalTimeSeconds: Math.max(0, toNumberOrNull(data?.totalTimeSeconds) ?? 0),
+    };
+}
+
+export const isScormLessonComplete = (data: Pick<ScormRuntimeData, 'lessonStatus'> | null | undefined) =>
+    data?.lessonStatus === 'completed' || data?.lessonStatus === 'passed';
+
+/**
+ * The package's score as a percentage, or null if it hasn't reported one.
+ * Uses the scaled score when there is one, otherwise the raw score within its min and max (0-100 by default).
+ */
+export function getScormScorePercent(data: ScormRuntimeData): number | null {
+    let percent: number | null = null;
+    if (data.scoreScaled !== null) {
+        percent = data.scoreScaled * 100;
+    } else if (data.scoreRaw !== null) {
+        const min = data.scoreMin ?? 0;
+        const max = data.scoreMax ?? 100;
+        percent = max > min ? ((data.scoreRaw - min) / (max - min)) * 100 : data.scoreRaw;
+    }
+    return percent === null ? null : Math.round(Math.min(100, Math.max(0, percent)));
+}
+
+// --- Time formats ---
+
+/**
+ * Parses a SCORM 1.2 timespan (HHHH:MM:SS.SS) or a SCORM 2004 duration (e.g. PT1H5M30.5S) into seconds.
+ * @returns null if the value is not in the version's format.
+ */
+export function parseScormTime(value: string, version: ScormVersion): number | null {
+    if (version === '1.2') {
+        const match = /^(\d{2,4}):(\d{2}):(\d{2}(?:\.\d{1,2})?)$/.exec(value);
+        if (!match || Number(match[2]) > 59 || Number(match[3]) >= 60) return null;
+        return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+    }
+    const match = /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(value);
+    if (!match || value === 'P' || value.endsWith('T')) return null;
+    const [, years, months, days, hours, minutes, seconds] = match.map(part => Number(part || 0));
+    return ((years * 365 + months * 30 + days) * 24 + hours) * 3600 + minutes * 60 + seconds;
+}
+
+export function formatScormTime(totalSeconds: number, version: ScormVersion): string {
+    const centiseconds = Math.round(Math.max(0, totalSeconds) * 100);
+    const hours = Math.floor(centiseconds / 360000);
+    const minutes = Math.floor((centiseconds % 360000) / 6000);
+    const seconds = (centiseconds % 6000) / 100;
+    if (version === '1.2') {
+        const pad = (value: number) => String(value).padStart(2, '0');
+        return `${pad(Math.min(hours, 9999))}:${pad(minutes)}:${seconds.toFixed(2).padStart(5, '0')}`;
+    }
+    return `PT${hours}H${minutes}M${Number(seconds.toFixed(2))}S`;
+}
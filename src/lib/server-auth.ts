@@ -0,0 +1,33 @@
+// This is a server-only file. It tells server actions who is calling them.
+import { getAuth as getAdminAuth } from 'firebase-admin/auth';
+import { adminApp } from './firebase-admin';
+import { getCompanyById } from './company-data';
+import { getUserByEmail } from './user-data';
+import type { User } from '@/types/user';
+
+/**
+ * The active user whose Firebase ID token was passed to a server action, or null if the token
+ * can't be verified (or the Admin SDK is not set up).
+ * @param idToken - From `auth.currentUser.getIdToken()` in the browser.
+ */
+export async function getVerifiedCaller(idToken: string | null | undefined): Promise<User | null> {
+  if (!idToken || !adminApp) return null;
+  try {
+    const decodedToken = await getAdminAuth(adminApp).verifyIdToken(idToken);
+    const user = decodedToken.email ? await getUserByEmail(decodedToken.email) : null;
+    return user && user.isActive !== false && !user.isDeleted ? user : null;
+  } catch (error) {
+    console.error('Could not verify the caller of a server action:', error);
+    return null;
+  }
+}
+
+// Super Admins manage every brand, and a brand's Admins and Owners manage it and its child brands
+export async function canManageBrand(user: User | null, brandId: string): Promise<boolean> {
+  if (!user || !brandId) return false;
+  if (user.role === 'Super Admin') return true;
+  if ((user.role !== 'Admin' && user.role !== 'Owner') || !user.companyId) return false;
+  if (user.companyId === brandId) return true;
+  const brand = await getCompanyById(brandId);
+  return brand?.parentBrandId === user.companyId;
+}
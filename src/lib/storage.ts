@@ -1,16 +1,21 @@
 
 
-import { ref, uploadBytesResumable, getDownloadURL } from "firebase/storage";
+import { ref, uploadBytes, uploadBytesResumable, getDownloadURL, deleteObject, listAll, type StorageReference, type UploadTaskSnapshot } from "firebase/storage";
 import { storage } from "./firebase"; // Assuming storage is initialized in firebase.ts
 
 // Define storage paths
 const STORAGE_PATHS = {
     LESSON_IMAGES: 'lessons/featured_images',
     LESSON_VIDEOS: 'lessons/videos', // Added path for videos
+    LESSON_CAPTIONS: 'lessons/captions', // WebVTT caption files for lesson videos
+    LESSON_SCORM: 'lessons/scorm', // Unpacked SCORM packages, one folder per package
     COMPANY_LOGOS: 'companies/logos',
     COURSE_IMAGES: 'courses/featured_images', // Added path for course images
     USER_PROFILE_IMAGES: 'users/profile_images', // Added path for user profile images
     PARTNER_LOGOS: 'partners/logos', // Added path for partner logos
+    QUIZ_OPTION_IMAGES: 'quizzes/option_images', // Images for image-choice question options
+    CERTIFICATE_BACKGROUNDS: 'certificates/backgrounds', // Certificate template background images
+    CERTIFICATE_SIGNATURES: 'certificates/signatures', // Signatory signature images
 };
 
 
@@ -86,4 +91,102 @@ export const uploadImage = (
     });
 };
 
+/**
+ * Uploads file contents that aren't a File, e.g. a file extracted from a zip.
+ * @param data - The file contents.
+ * @param path - The path in Firebase Storage.
+ * @param contentType - Stored with the file and used when it is served.
+ */
+export const uploadFileData = async (data: Uint8Array, path: string, contentType: string): Promise<void> => {
+    await uploadBytes(ref(storage, path), data, { contentType });
+};
+
+/**
+ * Like uploadFileData, for files that are linked to directly, e.g. media unpacked from a course package.
+ * @returns The download URL of the uploaded file.
+ */
+export const uploadFileDataWithUrl = async (data: Uint8Array, path: string, contentType: string): Promise<string> => {
+    const storageRef = ref(storage, path);
+    await uploadBytes(storageRef, data, { contentType });
+    return getDownloadURL(storageRef);
+};
+
+export interface ResumableUpload {
+    promise: Promise<string>; // Resolves with the download URL, or rejects if the upload fails or is canceled
+    pause: () => boolean;
+    resume: () => boolean;
+    cancel: () => boolean;
+}
+
+/**
+ * Starts an upload that can be paused and resumed, for large files such as lesson videos.
+ * The SDK retries dropped connections on its own, so a flaky network only slows the upload down.
+ * @param file - The file to upload.
+ * @param path - The desired path in Firebase Storage.
+ * @param onStateChange - Called with the upload percentage and whether the upload is paused.
+ */
+export const startResumableUpload = (
+    file: File,
+    path: string,
+    onStateChange: (progress: number, isPaused: boolean) => void
+): ResumableUpload => {
+    const uploadTask = uploadBytesResumable(ref(storage, path), file, { contentType: file.type || undefined });
+    const promise = new Promise<string>((resolve, reject) => {
+        uploadTask.on('state_changed',
+            (snapshot: UploadTaskSnapshot) => {
+                onStateChange((snapshot.bytesTransferred / snapshot.totalBytes) * 100, snapshot.state === 'paused');
+            },
+            (error) => {
+                console.error(`[startResumableUpload] Upload failed for ${path}:`, error);
+                reject(error.code === 'storage/canceled' ? new Error("Upload canceled.") : error);
+            },
+            () => {
+                getDownloadURL(uploadTask.snapshot.ref).then(resolve).catch(reject);
+            }
+        );
+    });
+    return {
+        promise,
+        pause: () => uploadTask.pause(),
+        resume: () => uploadTask.resume(),
+        cancel: () => uploadTask.cancel(),
+    };
+};
+
+/**
+ * Lists every file under a folder, including subfolders.
+ */
+export async function listStorageFiles(folder: StorageReference): Promise<StorageReference[]> {
+    const result = await listAll(folder);
+    const nested = await Promise.all(result.prefixes.map(listStorageFiles));
+    return [...result.items, ...nested.flat()];
+}
+
+/**
+ * Deletes a file. A file that is already gone counts as deleted.
+ * @param urlOrPath - The file's download URL or its path in Firebase Storage.
+ * @returns false if the file could not be deleted.
+ */
+export const deleteStorageFile = async (urlOrPath: string): Promise<boolean> => {
+    try {
+        await deleteObject(ref(storage, urlOrPath));
+        return true;
+    } catch (error: any) {
+        if (error?.code === 'storage/object-not-found') return true;
+        console.error(`[deleteStorageFile] Failed to delete ${urlOrPath}:`, error);
+        return false;
+    }
+};
+
+/**
+ * Deletes every file under a folder, including subfolders.
+ * @returns The number of files deleted and the number that could not be.
+ */
+export const deleteStorageFolder = async (path: string): Promise<{ deleted: number; failed: number }> => {
+    const files = await listStorageFiles(ref(storage, path));
+    const results = await Promise.all(files.map(file => deleteStorageFile(file.fullPath)));
+    const deleted = results.filter(Boolean).length;
+    return { deleted, failed: results.length - deleted };
+};
+
 export { STORAGE_PATHS };
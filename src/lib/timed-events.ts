@@ -0,0 +1,112 @@
+import type { LessonTimedEvent, LessonTranslation, Question, Quiz } from '@/types/course';
+
+// Question types an inline checkpoint question can use
+export const CHECKPOINT_QUESTION_TYPES = ['multiple-choice', 'true-false'] as const;
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Formats seconds as m:ss, or h:mm:ss for long videos.
+ */
+export function formatVideoTimestamp(totalSeconds: number): string {
+    const seconds = Math.max(0, Math.floor(totalSeconds));
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = (seconds % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Parses "m:ss", "h:mm:ss" or a plain number of seconds.
+ * @returns The number of seconds, or null if the text is not a valid timestamp.
+ */
+export function parseVideoTimestamp(text: string): number | null {
+    const parts = text.trim().split(':');
+    if (parts.length === 0 || parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) return null;
+    return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+export function createTimedEvent(type: LessonTimedEvent['type'], timestamp: number): LessonTimedEvent {
+    return {
+        eventId: newId('checkpoint'),
+        timestamp: Math.max(0, Math.round(timestamp * 10) / 10),
+        type,
+        quizId: null,
+        question: type === 'question'
+            ? { id: newId('question'), text: '', type: 'multiple-choice', options: ['', ''], correctAnswer: '' }
+            : null,
+        requireCorrect: false,
+    };
+}
+
+/**
+ * A checkpoint is usable once its quiz is chosen, or its question has text, options and a correct answer.
+ */
+export function isTimedEventComplete(event: LessonTimedEvent): boolean {
+    if (event.type === 'quiz') return !!event.quizId;
+    const question = event.question;
+    if (!question?.text.trim() || !question.correctAnswer) return false;
+    const options = question.options.filter(option => option.trim());
+    return options.length >= 2 && options.includes(question.correctAnswer);
+}
+
+const sanitizeQuestion = (question: Question): Question => {
+    const options = question.type === 'true-false' ? ['True', 'False'] : question.options.map(option => option.trim()).filter(Boolean);
+    return {
+        id: question.id,
+        text: question.text.trim(),
+        type: question.type,
+        options,
+        correctAnswer: question.correctAnswer?.trim() || '',
+    };
+};
+
+/**
+ * Drops incomplete checkpoints, strips fields that don't apply to the checkpoint type and sorts by time.
+ * The result never contains undefined values, so it can be written to Firestore as is.
+ */
+export function sanitizeTimedEvents(events: LessonTimedEvent[] | null | undefined): LessonTimedEvent[] {
+    return (events || [])
+        .filter(event => Number.isFinite(event.timestamp) && event.timestamp >= 0 && isTimedEventComplete(event))
+        .map(event => ({
+            eventId: event.eventId,
+            timestamp: event.timestamp,
+            type: event.type,
+            quizId: event.type === 'quiz' ? event.quizId || null : null,
+            question: event.type === 'question' && event.question ? sanitizeQuestion(event.question) : null,
+            requireCorrect: !!event.requireCorrect,
+        }))
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * The checkpoints to use for a locale. A translation with its own video has its own checkpoints,
+ * since the main video's timestamps don't line up with it.
+ */
+export function getTimedEventsForLocale(
+    lesson: { timedEvents?: LessonTimedEvent[]; translations?: { [key: string]: LessonTranslation } },
+    locale?: string
+): LessonTimedEvent[] {
+    const translation = locale && locale !== 'en' ? lesson.translations?.[locale] : undefined;
+    if (translation?.videoUrl) return translation.timedEvents || [];
+    return lesson.timedEvents || [];
+}
+
+/**
+ * Wraps a single checkpoint question in a quiz so it can be taken with the regular quiz player.
+ */
+export function buildCheckpointQuiz(event: LessonTimedEvent): Quiz | null {
+    if (event.type !== 'question' || !event.question) return null;
+    return {
+        id: event.eventId,
+        title: 'Checkpoint Question',
+        questions: [event.question],
+        settings: {
+            passingScore: 100,
+            maxAttempts: null,
+            attemptCooldownMinutes: null,
+            timeLimitMinutes: null,
+            showCorrectAnswers: false,
+        },
+    };
+}
@@ -0,0 +1,426 @@
+// src/lib/trash-data.ts
+import { db } from './firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    setDoc,
+    deleteDoc,
+    query,
+    where,
+    limit,
+    writeBatch,
+    arrayUnion,
+    deleteField,
+    serverTimestamp,
+    Timestamp,
+    type DocumentReference,
+} from 'firebase/firestore';
+import { deleteStorageFile, deleteStorageFolder, STORAGE_PATHS } from './storage';
+import { flattenModules, getCourseModules } from './curriculum-modules';
+import type { TrashCurriculumPlacement, TrashItem, TrashItemType, TrashLoginAccountCleanup, TrashPurgeResult, TrashSettings } from '@/types/trash';
+
+const SETTINGS_COLLECTION = 'platformSettings';
+const TRASH_SETTINGS_DOC = 'trash';
+const VIDEO_ASSETS_COLLECTION = 'videoAssets';
+const VERSIONS_SUBCOLLECTION = 'versions';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MAX_TRASH_RETENTION_DAYS = 3650;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_WRITE_SIZE = 400; // Firestore allows 500 writes per batch
+const IN_QUERY_LIMIT = 30; // Firestore allows 30 values in an 'in' filter
+
+interface TrashSource {
+    collection: string;
+    label: string;
+    titleField: 'title' | 'name';
+    brandField: 'brandId' | 'companyId' | 'parentBrandId' | null; // Links the item to a brand, for brand admins' trash
+    mediaFields: string[]; // Top-level fields holding Storage URLs
+    versioned: boolean; // Has a versions subcollection
+}
+
+const TRASH_SOURCES: Record<TrashItemType, TrashSource> = {
+    course: { collection: 'courses', label: 'Course', titleField: 'title', brandField: null, mediaFields: ['imageUrl', 'featuredImageUrl'], versioned: true },
+    lesson: { collection: 'lessons', label: 'Lesson', titleField: 'title', brandField: null, mediaFields: ['featuredImageUrl'], versioned: true },
+    quiz: { collection: 'quizzes', label: 'Quiz', titleField: 'title', brandField: null, mediaFields: [], versioned: true },
+    program: { collection: 'programs', label: 'Program', titleField: 'title', brandField: null, mediaFields: [], versioned: false },
+    partner: { collection: 'partners', label: 'Partner', titleField: 'name', brandField: null, mediaFields: ['logoUrl'], versioned: false },
+    certificateTemplate: { collection: 'certificateTemplates', label: 'Certificate Template', titleField: 'name', brandField: 'brandId', mediaFields: ['backgroundImageUrl', 'signatureImageUrl'], versioned: false },
+    company: { collection: 'companies', label: 'Brand', titleField: 'name', brandField: 'parentBrandId', mediaFields: ['logoUrl'], versioned: false },
+    location: { collection: 'locations', label: 'Location', titleField: 'name', brandField: 'companyId', mediaFields: [], versioned: false },
+    user: { collection: 'users', label: 'User', titleField: 'name', brandField: 'companyId', mediaFields: ['profileImageUrl'], versioned: false },
+    brandCourse: { collection: 'brandCourses', label: 'Brand Course', titleField: 'title', brandField: 'brandId', mediaFields: ['imageUrl', 'featuredImageUrl'], versioned: true },
+    brandLesson: { collection: 'brandLessons', label: 'Brand Lesson', titleField: 'title', brandField: 'brandId', mediaFields: ['featuredImageUrl'], versioned: true },
+    brandQuiz: { collection: 'brandQuizzes', label: 'Brand Quiz', titleField: 'title', brandField: 'brandId', mediaFields: [], versioned: true },
+};
+
+export const TRASH_ITEM_TYPES = Object.keys(TRASH_SOURCES) as TrashItemType[];
+
+// What brand admins see: their child brands and the people and content of their brands
+export const BRAND_TRASH_ITEM_TYPES: TrashItemType[] = ['company', 'location', 'user', 'certificateTemplate', 'brandCourse', 'brandLesson', 'brandQuiz'];
+
+export const getTrashItemLabel = (type: TrashItemType): string => TRASH_SOURCES[type].label;
+
+// Lessons and quizzes are taken out of curriculums when deleted. Their prefix in a curriculum and the courses they belong to.
+const CURRICULUM_ITEMS: Partial<Record<TrashItemType, { prefix: string; coursesCollection: string }>> = {
+    lesson: { prefix: 'lesson', coursesCollection: 'courses' },
+    quiz: { prefix: 'quiz', coursesCollection: 'courses' },
+    brandLesson: { prefix: 'brandLesson', coursesCollection: 'brandCourses' },
+    brandQuiz: { prefix: 'brandQuiz', coursesCollection: 'brandCourses' },
+};
+
+const LESSON_COLLECTIONS = ['lessons', 'brandLessons'];
+
+// Cleared when an item comes back from the trash
+const TRASH_MARKER_FIELDS = ['deletedBy', 'deletedWith', 'removedFromUserIds', 'removedFromCourses', 'activeBeforeDelete'];
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for trash op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`Trash op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+const toIsoString = (value: any): string | null => (value instanceof Timestamp ? value.toDate().toISOString() : null);
+
+async function commitInBatches<T>(items: T[], write: (batch: ReturnType<typeof writeBatch>, item: T) => void): Promise<void> {
+    for (let start = 0; start < items.length; start += BATCH_WRITE_SIZE) {
+        const batch = writeBatch(db);
+        items.slice(start, start + BATCH_WRITE_SIZE).forEach(item => write(batch, item));
+        await batch.commit();
+    }
+}
+
+const restoredFields = (extra: Record<string, any> = {}) => ({
+    isDeleted: false,
+    deletedAt: null,
+    ...Object.fromEntries(TRASH_MARKER_FIELDS.map(field => [field, deleteField()])),
+    ...extra,
+    updatedAt: serverTimestamp(),
+});
+
+const isStorageUrl = (url: unknown): url is string =>
+    typeof url === 'string' && /^https:\/\/(firebasestorage|storage)\.googleapis\.com\//.test(url);
+
+// --- Settings ---
+
+export async function getTrashSettings(): Promise<TrashSettings> {
+    return retryOperation(async () => {
+        const docSnap = await getDoc(doc(db, SETTINGS_COLLECTION, TRASH_SETTINGS_DOC));
+        const data = docSnap.exists() ? docSnap.data() : {};
+        return {
+            retentionDays: typeof data.retentionDays === 'number' ? data.retentionDays : DEFAULT_TRASH_RETENTION_DAYS,
+            updatedAt: toIsoString(data.updatedAt),
+        };
+    });
+}
+
+export async function updateTrashSettings(retentionDays: number): Promise<TrashSettings> {
+    if (!Number.isInteger(retentionDays) || retentionDays < 1 || retentionDays > MAX_TRASH_RETENTION_DAYS) {
+        throw new Error(`Retention must be a whole number of days between 1 and ${MAX_TRASH_RETENTION_DAYS}.`);
+    }
+    return retryOperation(async () => {
+        await setDoc(doc(db, SETTINGS_COLLECTION, TRASH_SETTINGS_DOC), { retentionDays, updatedAt: serverTimestamp() }, { merge: true });
+        return getTrashSettings();
+    });
+}
+
+// --- Listing ---
+
+// A brand and its child brands, deleted ones included
+async function getBrandScopeIds(brandId: string): Promise<string[]> {
+    const snapshot = await getDocs(query(collection(db, TRASH_SOURCES.company.collection), where('parentBrandId', '==', brandId)));
+    return [brandId, ...snapshot.docs.map(brandDoc => brandDoc.id)];
+}
+
+async function getDeletedDocs(type: TrashItemType, scopeIds: string[] | null) {
+    const source = TRASH_SOURCES[type];
+    const deletedRef = collection(db, source.collection);
+    if (!scopeIds) {
+        return (await getDocs(query(deletedRef, where('isDeleted', '==', true)))).docs;
+    }
+    if (!source.brandField) return [];
+    const docs = [];
+    for (let start = 0; start < scopeIds.length; start += IN_QUERY_LIMIT) {
+        const chunk = scopeIds.slice(start, start + IN_QUERY_LIMIT);
+        const snapshot = await getDocs(query(deletedRef, where('isDeleted', '==', true), where(source.brandField, 'in', chunk)));
+        docs.push(...snapshot.docs);
+    }
+    return docs;
+}
+
+/**
+ * Lists deleted items, newest first. Locations and users deleted together with a brand are not listed
+ * on their own; they are counted on the brand and come back with it.
+ * @param brandId - Limits the list to a brand and its child brands, for brand admins. Null lists everything.
+ */
+export async function getTrashItems(brandId: string | null): Promise<TrashItem[]> {
+    return retryOperation(async () => {
+        const [{ retentionDays }, scopeIds] = await Promise.all([getTrashSettings(), brandId ? getBrandScopeIds(brandId) : Promise.resolve(null)]);
+        const types = brandId ? BRAND_TRASH_ITEM_TYPES : TRASH_ITEM_TYPES;
+
+        const items: TrashItem[] = [];
+        const cascadeCounts: Record<string, number> = {};
+        for (const type of types) {
+            const source = TRASH_SOURCES[type];
+            const docs = await getDeletedDocs(type, scopeIds);
+            docs.forEach(itemDoc => {
+                const data = itemDoc.data();
+                if (data.deletedWith?.id) {
+                    cascadeCounts[data.deletedWith.id] = (cascadeCounts[data.deletedWith.id] || 0) + 1;
+                    return;
+                }
+                const deletedAt = toIsoString(data.deletedAt);
+                items.push({
+                    id: itemDoc.id,
+                    type,
+                    title: data[source.titleField] || `Untitled ${source.label.toLowerCase()}`,
+                    brandId: source.brandField ? data[source.brandField] || null : null,
+                    deletedAt,
+                    deletedBy: data.deletedBy || null,
+                    purgeAt: deletedAt ? new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS).toISOString() : null,
+                    cascadeCount: 0,
+                });
+            });
+        }
+
+        return items
+            .map(item => (item.type === 'company' ? { ...item, cascadeCount: cascadeCounts[item.id] || 0 } : item))
+            .sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || ''));
+    });
+}
+
+// --- Restore ---
+
+async function assertBrandNotDeleted(brandId: string | null | undefined, message: string): Promise<void> {
+    if (!brandId) return;
+    const brandSnap = await getDoc(doc(db, TRASH_SOURCES.company.collection, brandId));
+    if (!brandSnap.exists() || brandSnap.data().isDeleted) throw new Error(message);
+}
+
+// Puts a restored lesson or quiz back into the course modules it was taken out of
+async function restoreCurriculumPlacements(type: TrashItemType, itemId: string, placements: TrashCurriculumPlacement[]): Promise<void> {
+    const curriculumItem = CURRICULUM_ITEMS[type];
+    if (!curriculumItem || placements.length === 0) return;
+    const prefixedItemId = `${curriculumItem.prefix}-${itemId}`;
+
+    const batch = writeBatch(db);
+    let hasUpdates = false;
+    for (const placement of placements) {
+        const courseRef = doc(db, curriculumItem.coursesCollection, placement.courseId);
+        const courseSnap = await getDoc(courseRef);
+        if (!courseSnap.exists() || courseSnap.data().isDeleted) continue;
+        const modules = getCourseModules(courseSnap.data()).map(module => ({ ...module, itemIds: [...module.itemIds] }));
+        if (flattenModules(modules).includes(prefixedItemId)) continue;
+        const target = modules.find(module => module.id === placement.moduleId) || modules[modules.length - 1];
+        target.itemIds.push(prefixedItemId);
+        batch.update(courseRef, { modules, curriculum: flattenModules(modules), updatedAt: serverTimestamp() });
+        hasUpdates = true;
+    }
+    if (hasUpdates) await batch.commit();
+}
+
+/**
+ * Brings an item back from the trash and reverses what its deletion did: a brand gets back the locations
+ * and users deleted with it, a location is assigned again to the users it was taken from, and a lesson or
+ * quiz goes back into the courses it was removed from.
+ * Throws if the item can't be restored yet, e.g. because its brand is still deleted.
+ */
+export async function restoreTrashItem(type: TrashItemType, itemId: string): Promise<void> {
+    const source = TRASH_SOURCES[type];
+    return retryOperation(async () => {
+        const itemRef = doc(db, source.collection, itemId);
+        const itemSnap = await getDoc(itemRef);
+        if (!itemSnap.exists() || !itemSnap.data().isDeleted) throw new Error("This item is no longer in the trash.");
+        const data = itemSnap.data();
+
+        switch (type) {
+            case 'company': {
+                await assertBrandNotDeleted(data.parentBrandId, "Restore the parent brand first.");
+                const restored = restoredFields();
+                const [locationsSnap, usersSnap] = await Promise.all([
+                    getDocs(query(collection(db, TRASH_SOURCES.location.collection), where('deletedWith.id', '==', itemId))),
+                    getDocs(query(collection(db, TRASH_SOURCES.user.collection), where('deletedWith.id', '==', itemId))),
+                ]);
+                await commitInBatches([...locationsSnap.docs, ...usersSnap.docs], (batch, cascadedDoc) => {
+                    const isUser = cascadedDoc.ref.parent.id === TRASH_SOURCES.user.collection;
+                    batch.update(cascadedDoc.ref, isUser ? restoredFields({ isActive: cascadedDoc.data().activeBeforeDelete ?? true }) : restored);
+                });
+                await setDoc(itemRef, restored, { merge: true });
+                return;
+            }
+            case 'location': {
+                await assertBrandNotDeleted(data.companyId, "Restore the location's brand first.");
+                const userSnaps = await Promise.all((data.removedFromUserIds || []).map((userId: string) => getDoc(doc(db, TRASH_SOURCES.user.collection, userId))));
+                const remainingUsers = userSnaps.filter(userSnap => userSnap.exists() && !userSnap.data().isDeleted);
+                await commitInBatches(remainingUsers, (batch, userSnap) => {
+                    batch.update(userSnap.ref, { assignedLocationIds: arrayUnion(itemId), updatedAt: serverTimestamp() });
+                });
+                await setDoc(itemRef, restoredFields(), { merge: true });
+                return;
+            }
+            case 'user': {
+                await assertBrandNotDeleted(data.companyId, "Restore the user's brand first.");
+                const sameEmail = await getDocs(query(collection(db, source.collection), where('email', '==', data.email), where('isDeleted', '==', false), limit(1)));
+                if (!sameEmail.empty) throw new Error(`Another user now has the email ${data.email}.`);
+                // Users deleted before this was recorded come back inactive, so an admin decides whether they can sign in
+                await setDoc(itemRef, restoredFields({ isActive: data.activeBeforeDelete ?? false }), { merge: true });
+                return;
+            }
+            default: {
+                if (source.brandField === 'brandId') await assertBrandNotDeleted(data.brandId, "Restore the brand first.");
+                await setDoc(itemRef, restoredFields(), { merge: true });
+                await restoreCurriculumPlacements(type, itemId, data.removedFromCourses || []);
+            }
+        }
+    });
+}
+
+// --- Purge ---
+
+// Whether any document, deleted ones included, still uses the URL. Copied courses share their media.
+async function isMediaUrlInUse(url: string): Promise<boolean> {
+    for (const source of Object.values(TRASH_SOURCES)) {
+        const fields = source.mediaFields.flatMap(field => (source.versioned ? [field, `draft.${field}`] : [field]));
+        for (const field of fields) {
+            const snapshot = await getDocs(query(collection(db, source.collection), where(field, '==', url), limit(1)));
+            if (!snapshot.empty) return true;
+        }
+    }
+    return false;
+}
+
+async function isReferencedByLessons(field: string, op: '==' | 'array-contains', value: string): Promise<boolean> {
+    for (const lessonCollection of LESSON_COLLECTIONS) {
+        const snapshot = await getDocs(query(collection(db, lessonCollection), where(field, op, value), limit(1)));
+        if (!snapshot.empty) return true;
+    }
+    return false;
+}
+
+// Storage files of purged documents that nothing else uses any more
+async function deleteUnusedMedia(type: TrashItemType, purgedData: any[]): Promise<{ deleted: number; failed: number }> {
+    const source = TRASH_SOURCES[type];
+    const urls = new Set<string>();
+    const videoAssetIds = new Set<string>();
+    const scormPackageIds = new Set<string>();
+    purgedData.forEach(data => {
+        [data, data.draft].filter(Boolean).forEach(content => {
+            source.mediaFields.forEach(field => isStorageUrl(content[field]) && urls.add(content[field]));
+            if (content.scormPackage?.id) scormPackageIds.add(content.scormPackage.id);
+        });
+        (data.videoAssetIds || []).forEach((assetId: string) => videoAssetIds.add(assetId));
+    });
+
+    let deleted = 0;
+    let failed = 0;
+    for (const url of Array.from(urls)) {
+        if (await isMediaUrlInUse(url)) continue;
+        if (await deleteStorageFile(url)) deleted++;
+        else failed++;
+    }
+    for (const assetId of Array.from(videoAssetIds)) {
+        if (await isReferencedByLessons('videoAssetIds', 'array-contains', assetId)) continue;
+        const result = await deleteStorageFolder(`${STORAGE_PATHS.LESSON_VIDEOS}/${assetId}`);
+        deleted += result.deleted;
+        failed += result.failed;
+        if (result.failed === 0) await deleteDoc(doc(db, VIDEO_ASSETS_COLLECTION, assetId));
+    }
+    for (const packageId of Array.from(scormPackageIds)) {
+        if (await isReferencedByLessons('scormPackage.id', '==', packageId) || await isReferencedByLessons('draft.scormPackage.id', '==', packageId)) continue;
+        const result = await deleteStorageFolder(`${STORAGE_PATHS.LESSON_SCORM}/${packageId}`);
+        deleted += result.deleted;
+        failed += result.failed;
+    }
+    return { deleted, failed };
+}
+
+/**
+ * Permanently deletes an item in the trash, with the locations and users deleted together with a brand,
+ * its version history, the Storage files nothing else uses and, for users, login accounts no other profile uses.
+ * @param deleteLoginAccounts - Deletes purged users' login accounts. Without it the accounts are left in place.
+ * @returns The number of Storage files deleted and the number that could not be.
+ */
+export async function purgeTrashItem(type: TrashItemType, itemId: string, deleteLoginAccounts: TrashLoginAccountCleanup | null = null): Promise<{ filesDeleted: number; filesFailed: number }> {
+    const source = TRASH_SOURCES[type];
+    const itemRef = doc(db, source.collection, itemId);
+    const itemSnap = await retryOperation(() => getDoc(itemRef));
+    if (!itemSnap.exists()) return { filesDeleted: 0, filesFailed: 0 };
+    if (!itemSnap.data().isDeleted) throw new Error("Only items in the trash can be deleted permanently.");
+
+    const refsToDelete: DocumentReference[] = [itemRef];
+    const purgedUsers: any[] = type === 'user' ? [itemSnap.data()] : [];
+    if (type === 'company') {
+        const [locationsSnap, usersSnap] = await retryOperation(() => Promise.all([
+            getDocs(query(collection(db, TRASH_SOURCES.location.collection), where('deletedWith.id', '==', itemId))),
+            getDocs(query(collection(db, TRASH_SOURCES.user.collection), where('deletedWith.id', '==', itemId))),
+        ]));
+        refsToDelete.push(...locationsSnap.docs.map(locationDoc => locationDoc.ref), ...usersSnap.docs.map(userDoc => userDoc.ref));
+        purgedUsers.push(...usersSnap.docs.map(userDoc => userDoc.data()));
+    }
+    if (source.versioned) {
+        const versionsSnap = await retryOperation(() => getDocs(collection(itemRef, VERSIONS_SUBCOLLECTION)));
+        refsToDelete.push(...versionsSnap.docs.map(versionDoc => versionDoc.ref));
+    }
+    await retryOperation(() => commitInBatches(refsToDelete, (batch, ref) => batch.delete(ref)));
+
+    // Files are checked only once the documents are gone, so they no longer count as using them
+    const media = await deleteUnusedMedia(type, [itemSnap.data()]);
+    const userMedia = purgedUsers.length > 0 && type === 'company' ? await deleteUnusedMedia('user', purgedUsers) : { deleted: 0, failed: 0 };
+    if (purgedUsers.length > 0) {
+        const emails = purgedUsers.map(user => user.email).filter(Boolean);
+        if (deleteLoginAccounts) {
+            // The documents are already gone, so a failure here is logged rather than failing the purge
+            try {
+                const accountsDeleted = await deleteLoginAccounts(emails);
+                console.log(`Deleted ${accountsDeleted} login account(s) of purged users.`);
+            } catch (error) {
+                console.error("Failed to delete the login accounts of purged users:", error);
+            }
+        } else {
+            console.log(`Left the login accounts of ${emails.length} purged user(s) in place.`);
+        }
+    }
+    return { filesDeleted: media.deleted + userMedia.deleted, filesFailed: media.failed + userMedia.failed };
+}
+
+/**
+ * Permanently deletes everything that has been in the trash longer than the retention period.
+ * Items without a deletion date are left for an admin to purge by hand.
+ */
+export async function purgeExpiredTrash(deleteLoginAccounts: TrashLoginAccountCleanup | null, now: Date = new Date()): Promise<TrashPurgeResult> {
+    const { retentionDays } = await getTrashSettings();
+    const cutoff = now.getTime() - retentionDays * DAY_MS;
+    const expired = (await getTrashItems(null)).filter(item => item.deletedAt && new Date(item.deletedAt).getTime() <= cutoff);
+
+    const result: TrashPurgeResult = { purged: 0, filesDeleted: 0, failed: 0 };
+    for (const item of expired) {
+        try {
+            const { filesDeleted, filesFailed } = await purgeTrashItem(item.type, item.id, deleteLoginAccounts);
+            result.purged++;
+            result.filesDeleted += filesDeleted;
+            if (filesFailed > 0) console.warn(`Purged ${item.type} ${item.id}, but ${filesFailed} file(s) could not be deleted.`);
+        } catch (error) {
+            console.error(`Failed to purge ${item.type} ${item.id}:`, error);
+            result.failed++;
+        }
+    }
+    return result;
+}
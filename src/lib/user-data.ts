@@ -19,16 +19,22 @@ import {
     arrayRemove,
     deleteField,
     getCountFromServer,
+    limit,
     increment // Import increment
 } from 'firebase/firestore';
-import type { User, UserFormData, UserRole, UserCourseProgressData, Company } from '@/types/user';
+import type { User, UserFormData, UserRole, UserCourseProgressData, Company, ArchivedCourseCompletion } from '@/types/user';
 import { auth, googleAuthProvider } from './firebase'; // Import googleAuthProvider
 import { signInWithPopup } from 'firebase/auth'; // Import signInWithPopup
 import { createDefaultCompany, getCompanyById as getCompanyDataById, getCompanyBySubdomainSlug, getCompanyByCustomDomain } from './company-data'; // Renamed import
 import { getCourseById } from './firestore-data';
 import { getBrandCourseById } from './brand-content-data'; // Import for brand courses
-import type { Course, BrandCourse } from '@/types/course'; // Import BrandCourse type
+import type { Course, BrandCourse, ScormRuntimeData } from '@/types/course'; // Import BrandCourse type
 import { createNotification } from './notifications-data'; // Import createNotification
+import { checkForAndAwardBadges } from './gamification';
+import { recordLearningActivity } from './learning-metrics-data';
+import type { LearningStreak } from '@/types/gamification';
+import type { TrashActor } from '@/types/trash';
+import { getCourseItemIds, getCourseModules, getModuleProgress } from './curriculum-modules';
 
 const USERS_COLLECTION = 'users';
 
@@ -126,6 +132,24 @@ export async function getUserByEmail(email: string): Promise<User | null> {
     });
 }
 
+// The signed-in user's ID and name, recorded on what they publish or delete
+export async function getCurrentUserSummary(): Promise<TrashActor | null> {
+    const email = auth.currentUser?.email;
+    if (!email) return null;
+    const user = await getUserByEmail(email);
+    return user ? { id: user.id, name: user.name } : null;
+}
+
+// Whether any user profile, including soft-deleted ones, still uses the email
+export async function hasUserProfileWithEmail(email: string): Promise<boolean> {
+    if (!email) return false;
+    return retryOperation(async () => {
+        const q = query(collection(db, USERS_COLLECTION), where("email", "==", email.toLowerCase()), limit(1));
+        const snapshot = await getDocs(q);
+        return !snapshot.empty;
+    });
+}
+
 
 export async function getUsersByCompanyId(companyId: string): Promise<User[]> {
     if (!companyId) {
@@ -144,6 +168,15 @@ export async function getUsersByCompanyId(companyId: string): Promise<User[]> {
     });
 }
 
+// Active and inactive users with a role, e.g. every Super Admin
+export async function getUsersByRole(role: UserRole): Promise<User[]> {
+    return retryOperation(async () => {
+        const q = query(collection(db, USERS_COLLECTION), where("role", "==", role), where("isDeleted", "==", false));
+        const querySnapshot = await getDocs(q);
+        return querySnapshot.docs.map(userDoc => ({ id: userDoc.id, ...serializeUserDocumentData(userDoc.data()) } as User));
+    });
+}
+
 export async function getUserCountByCompanyId(companyId: string): Promise<number> {
     if (!companyId) {
         console.warn("getUserCountByCompanyId called with empty brand ID.");
@@ -266,16 +299,20 @@ export async function toggleUserStatus(userId: string): Promise<User | null> {
 }
 
 
-export async function deleteUser(userId: string): Promise<boolean> {
+export async function deleteUser(userId: string, deletedBy: TrashActor | null = null): Promise<boolean> {
     if (!userId) {
         console.warn("deleteUser (soft delete) called with empty ID.");
         return false;
     }
     return retryOperation(async () => {
         const userRef = doc(db, USERS_COLLECTION, userId);
+        const userSnap = await getDoc(userRef);
+        if (!userSnap.exists()) return false;
         await updateDoc(userRef, {
             isDeleted: true,
             deletedAt: serverTimestamp(),
+            deletedBy,
+            activeBeforeDelete: userSnap.data().isActive !== false, // Restored from the trash
             isActive: false,
             updatedAt: serverTimestamp(),
         });
@@ -283,7 +320,7 @@ export async function deleteUser(userId: string): Promise<boolean> {
     }, 3);
 }
 
-export const toggleUserCourseAssignments = async (userId: string, courseIds: string[], action: 'assign' | 'unassign'): Promise<User | null> => {
+export const toggleUserCourseAssignments = async (userId: string, courseIds: string[], action: 'assign' | 'unassign', dueDate?: string | null): Promise<User | null> => {
     if (!userId || !Array.isArray(courseIds) || courseIds.length === 0) {
         console.warn("toggleUserCourseAssignments called with invalid input.");
         return null;
@@ -306,6 +343,8 @@ export const toggleUserCourseAssignments = async (userId: string, courseIds: str
                 updateData.assignedCourseIds = arrayUnion(...coursesToAdd);
 
                 coursesToAdd.forEach(courseId => {
+                    updateData[`courseAssignedAt.${courseId}`] = serverTimestamp(); // Drip schedules count from here
+                    if (dueDate) updateData[`courseDueDates.${courseId}`] = dueDate;
                     if (!currentProgress[courseId]) {
                         const progressFieldPath = `courseProgress.${courseId}`;
                         updateData[progressFieldPath] = {
@@ -329,6 +368,9 @@ export const toggleUserCourseAssignments = async (userId: string, courseIds: str
                 coursesToRemove.forEach(courseId => {
                     const progressFieldPath = `courseProgress.${courseId}`;
                     updateData[progressFieldPath] = deleteField();
+                    updateData[`courseAssignedAt.${courseId}`] = deleteField();
+                    updateData[`courseDueDates.${courseId}`] = deleteField();
+                    updateData[`courseRemindersSent.${courseId}`] = deleteField();
                 });
             }
         }
@@ -347,6 +389,119 @@ export const toggleUserCourseAssignments = async (userId: string, courseIds: str
     });
 };
 
+/**
+ * Sets or clears the due date of courses already assigned to one or more users.
+ * Courses a user is not assigned are skipped. Changing a due date resets the reminders sent for it.
+ * @returns The number of users that were updated.
+ */
+export async function setCourseDueDates(userIds: string[], courseIds: string[], dueDate: string | null): Promise<number> {
+    if (userIds.length === 0 || courseIds.length === 0) return 0;
+    if (dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+        throw new Error("Due date must be in YYYY-MM-DD format.");
+    }
+    return retryOperation(async () => {
+        const batch = writeBatch(db);
+        let updatedCount = 0;
+        for (const userId of userIds) {
+            const userRef = doc(db, USERS_COLLECTION, userId);
+            const userSnap = await getDoc(userRef);
+            if (!userSnap.exists() || userSnap.data().isDeleted === true) continue;
+
+            const assignedIds: string[] = userSnap.data().assignedCourseIds || [];
+            const targetIds = courseIds.filter(id => assignedIds.includes(id));
+            if (targetIds.length === 0) continue;
+
+            const updateData: { [key: string]: any } = { updatedAt: serverTimestamp() };
+            targetIds.forEach(courseId => {
+                updateData[`courseDueDates.${courseId}`] = dueDate ?? deleteField();
+                updateData[`courseRemindersSent.${courseId}`] = deleteField();
+            });
+            batch.update(userRef, updateData);
+            updatedCount++;
+        }
+        if (updatedCount > 0) await batch.commit();
+        return updatedCount;
+    });
+}
+
+/**
+ * Records that a due date reminder was sent, so the next run of the reminder job does not repeat it.
+ */
+export async function markCourseRemindersSent(userId: string, courseId: string, offsets: number[]): Promise<void> {
+    if (!userId || !courseId || offsets.length === 0) return;
+    return retryOperation(async () => {
+        const userRef = doc(db, USERS_COLLECTION, userId);
+        await updateDoc(userRef, { [`courseRemindersSent.${courseId}`]: arrayUnion(...offsets) });
+    });
+}
+
+/**
+ * Records when the user first opens a course, which is when it counts as started for
+ * "completed within" badges. Opening it again changes nothing.
+ */
+export async function markCourseOpened(userId: string, courseId: string): Promise<void> {
+    if (!userId || !courseId) return;
+    return retryOperation(async () => {
+        const userRef = doc(db, USERS_COLLECTION, userId);
+        const userSnap = await getDoc(userRef);
+        if (!userSnap.exists() || userSnap.data().isDeleted === true) return;
+
+        const progress = userSnap.data().courseProgress?.[courseId];
+        if (progress?.startedAt) return;
+        await updateDoc(userRef, progress
+            ? { [`courseProgress.${courseId}.startedAt`]: serverTimestamp() }
+            : { [`courseProgress.${courseId}`]: { completedItems: [], status: "Not Started", progress: 0, startedAt: serverTimestamp(), lastUpdated: serverTimestamp() } }
+        );
+    });
+}
+
+/**
+ * Archives an expired course completion into the user's completion history and resets the course
+ * so it can be taken again. The drip schedule restarts from the reset and any due date is cleared.
+ * @returns True if the completion was archived, false if the course was not completed.
+ */
+export async function archiveExpiredCourseCompletion(userId: string, courseId: string, expiredAt: Date): Promise<boolean> {
+    if (!userId || !courseId) return false;
+    return retryOperation(async () => {
+        const userRef = doc(db, USERS_COLLECTION, userId);
+        const userSnap = await getDoc(userRef);
+        if (!userSnap.exists() || userSnap.data().isDeleted === true) return false;
+
+        const progress = userSnap.data().courseProgress?.[courseId];
+        if (progress?.status !== 'Completed') return false;
+
+        const toIsoString = (value: any): string | null => {
+            if (value instanceof Timestamp) return value.toDate().toISOString();
+            if (value instanceof Date) return value.toISOString();
+            return typeof value === 'string' ? value : null;
+        };
+        const archived: ArchivedCourseCompletion = {
+            startedAt: toIsoString(progress.startedAt),
+            completedAt: toIsoString(progress.completedAt) ?? toIsoString(progress.lastUpdated),
+            expiredAt: expiredAt.toISOString(),
+            timeSpentSeconds: progress.timeSpentSeconds || 0,
+            quizAttempts: progress.quizAttempts || {},
+        };
+
+        await updateDoc(userRef, {
+            [`courseCompletionHistory.${courseId}`]: arrayUnion(archived),
+            [`courseProgress.${courseId}`]: {
+                completedItems: [],
+                status: "Not Started",
+                progress: 0,
+                videoProgress: {},
+                timeSpentSeconds: 0,
+                quizAttempts: {},
+                lastUpdated: serverTimestamp()
+            },
+            [`courseAssignedAt.${courseId}`]: serverTimestamp(),
+            [`courseDueDates.${courseId}`]: deleteField(),
+            [`courseRemindersSent.${courseId}`]: deleteField(),
+            updatedAt: serverTimestamp(),
+        });
+        return true;
+    });
+}
 
 export async function getUsersWithoutCompany(): Promise<User[]> {
     return retryOperation(async () => {
@@ -414,6 +569,7 @@ export const getUserCourseProgress = async (userId: string, courseId: string): P
         status: "Not Started" as const,
         completedItems: [],
         videoProgress: {},
+        scormData: {},
         timeSpentSeconds: 0,
         quizAttempts: {},
         lastUpdated: null
@@ -433,22 +589,25 @@ export const getUserCourseProgress = async (userId: string, courseId: string): P
 
         const storedProgress = user.courseProgress?.[courseId] as UserCourseProgressData | undefined;
 
-        if (!courseData || !courseData.curriculum || courseData.curriculum.length === 0) {
+        const courseItemIds = courseData ? getCourseItemIds(courseData) : [];
+        if (!courseData || courseItemIds.length === 0) {
             console.warn(`Course ${courseId} (global or brand) not found or has no curriculum. Cannot calculate progress accurately.`);
             return {
                 progress: storedProgress?.progress ?? 0,
                 status: storedProgress?.status ?? "Not Started",
                 completedItems: storedProgress?.completedItems ?? [],
                 videoProgress: storedProgress?.videoProgress ?? {},
+                scormData: storedProgress?.scormData ?? {},
                 timeSpentSeconds: storedProgress?.timeSpentSeconds ?? 0,
                 quizAttempts: storedProgress?.quizAttempts ?? {},
                 lastUpdated: storedProgress?.lastUpdated ?? null
             };
         }
 
-        const totalItems = courseData.curriculum.length;
+        // Only items still in the course count, so removing a lesson doesn't push progress past 100%
+        const totalItems = courseItemIds.length;
         const completedItems = storedProgress?.completedItems || [];
-        const completedCount = completedItems.length;
+        const completedCount = completedItems.filter(itemId => courseItemIds.includes(itemId)).length;
         const calculatedProgress = totalItems > 0 ? Math.round((completedCount / totalItems) * 100) : 0;
 
         let currentStatus = storedProgress?.status || "Not Started";
@@ -466,9 +625,11 @@ export const getUserCourseProgress = async (userId: string, courseId: string): P
             status: currentStatus,
             completedItems,
             videoProgress: storedProgress?.videoProgress ?? {},
+            scormData: storedProgress?.scormData ?? {},
             timeSpentSeconds: storedProgress?.timeSpentSeconds ?? 0,
             quizAttempts: storedProgress?.quizAttempts ?? {},
-            lastUpdated: storedProgress?.lastUpdated ?? null
+            lastUpdated: storedProgress?.lastUpdated ?? null,
+            moduleProgress: getModuleProgress(getCourseModules(courseData), completedItems),
         };
 
     } catch (error) {
@@ -494,12 +655,13 @@ export const getUserOverallProgress = async (userId: string): Promise<number> =>
             courseData = await getBrandCourseById(courseId);
         }
 
-        if (courseData?.curriculum && courseData.curriculum.length > 0) {
-            const courseTotal = courseData.curriculum.length;
+        const courseItemIds = courseData ? getCourseItemIds(courseData) : [];
+        if (courseItemIds.length > 0) {
+            const courseTotal = courseItemIds.length;
             totalCurriculumItems += courseTotal;
 
             const courseProgressData = user.courseProgress?.[courseId];
-            const completedCount = courseProgressData?.completedItems?.length || 0;
+            const completedCount = (courseProgressData?.completedItems || []).filter(itemId => courseItemIds.includes(itemId)).length;
             totalCompletedItems += completedCount;
             const individualProgress = courseTotal > 0 ? Math.round((completedCount / courseTotal) * 100) : 0;
             console.log(`  - Course ${courseId}: ${completedCount}/${courseTotal} items completed (${individualProgress}%)`);
@@ -527,7 +689,7 @@ export const updateEmployeeProgress = async (userId: string, courseId: string, c
 
     console.log(`Updating progress for user ${userId}, course ${courseId}. Completed item index: ${completedItemIndex}`);
 
-    return retryOperation(async () => {
+    const learningEvent = await retryOperation(async () => {
         const userRef = doc(db, USERS_COLLECTION, userId);
 
         let course: Course | BrandCourse | null = await getCourseById(courseId);
@@ -535,18 +697,20 @@ export const updateEmployeeProgress = async (userId: string, courseId: string, c
             course = await getBrandCourseById(courseId);
         }
 
-        if (!course || !course.curriculum || completedItemIndex >= course.curriculum.length) {
+        // Items are indexed in learning order, module by module
+        const courseItemIds = course ? getCourseItemIds(course) : [];
+        if (!course || completedItemIndex >= courseItemIds.length) {
             console.error(`Invalid course data or item index for progress update. Course: ${courseId}, Index: ${completedItemIndex}`);
             throw new Error("Invalid course data or item index.");
         }
 
-        const completedItemId = course.curriculum[completedItemIndex];
+        const completedItemId = courseItemIds[completedItemIndex];
         if (!completedItemId) {
              console.error(`Could not find item ID at index ${completedItemIndex} for course ${courseId}`);
              throw new Error("Could not find item ID.");
         }
         const progressFieldPath = `courseProgress.${courseId}`;
-        const totalItems = course.curriculum.length;
+        const totalItems = courseItemIds.length;
 
         const userSnap = await getDoc(userRef);
         if (!userSnap.exists() || userSnap.data().isDeleted === true) {
@@ -555,8 +719,9 @@ export const updateEmployeeProgress = async (userId: string, courseId: string, c
         }
         const currentProgressData = userSnap.data()?.courseProgress?.[courseId] as UserCourseProgressData | undefined;
 
+        const isNewlyCompletedItem = !(currentProgressData?.completedItems || []).includes(completedItemId);
         const updatedCompletedItems = Array.from(new Set([...(currentProgressData?.completedItems || []), completedItemId]));
-        const completedCount = updatedCompletedItems.length;
+        const completedCount = updatedCompletedItems.filter(itemId => courseItemIds.includes(itemId)).length;
 
         let newStatus: UserCourseProgressData['status'] = "In Progress";
         if (completedCount === totalItems && totalItems > 0) {
@@ -593,7 +758,7 @@ export const updateEmployeeProgress = async (userId: string, courseId: string, c
             });
         }
 
-        await updateDoc(userRef, {
+        const updatePayload: { [key: string]: any } = {
             [`${progressFieldPath}.completedItems`]: updatedCompletedItems,
             [`${progressFieldPath}.status`]: newStatus,
             [`${progressFieldPath}.progress`]: newProgressPercentage,
@@ -602,9 +767,36 @@ export const updateEmployeeProgress = async (userId: string, courseId: string, c
             [quizAttemptsPath]: currentQuizAttempts,
             [`${progressFieldPath}.lastUpdated`]: serverTimestamp(),
             updatedAt: serverTimestamp(),
-        });
+        };
+        if (!currentProgressData?.startedAt) {
+            updatePayload[`${progressFieldPath}.startedAt`] = serverTimestamp();
+        }
+        if (newStatus === "Completed" && currentProgressData?.status !== "Completed") {
+            updatePayload[`${progressFieldPath}.completedAt`] = serverTimestamp();
+        }
+        const isLessonItem = completedItemId.startsWith('lesson-') || completedItemId.startsWith('brandLesson-');
+        if (isLessonItem && isNewlyCompletedItem) {
+            updatePayload.learningStreak = calculateLearningStreak(userSnap.data()?.learningStreak as LearningStreak | undefined);
+        }
+
+        await updateDoc(userRef, updatePayload);
         console.log(`Progress updated successfully for user ${userId}, course ${courseId}. New progress: ${newProgressPercentage}%, Status: ${newStatus}`);
+        return {
+            learner: { id: userId, companyId: userSnap.data().companyId || null, assignedLocationIds: userSnap.data().assignedLocationIds || [] },
+            activity: {
+                lessonsCompleted: isLessonItem && isNewlyCompletedItem ? 1 : 0,
+                coursesCompleted: newStatus === "Completed" && currentProgressData?.status !== "Completed" ? 1 : 0,
+            },
+        };
     });
+
+    await recordLearningActivity(learningEvent.learner, learningEvent.activity);
+
+    try {
+        await checkForAndAwardBadges(userId, 'COURSE_PROGRESS_UPDATED', { courseId });
+    } catch (error) {
+        console.error(`Badge evaluation failed for user ${userId} after progress update:`, error);
+    }
 };
 
 
@@ -642,6 +834,35 @@ export const updateUserVideoProgress = async (
     });
 };
 
+// Stores what a SCORM lesson's package has reported for the user
+export const updateUserScormProgress = async (
+    userId: string,
+    courseId: string,
+    lessonItemId: string, // Prefixed ID like 'lesson-xyz' or 'brandLesson-abc'
+    scormData: ScormRuntimeData
+): Promise<void> => {
+    if (!userId || !courseId || !lessonItemId) {
+        console.error("Invalid input for updateUserScormProgress", { userId, courseId, lessonItemId });
+        return;
+    }
+
+    return retryOperation(async () => {
+        const userRef = doc(db, USERS_COLLECTION, userId);
+        const userSnap = await getDoc(userRef);
+
+        if (!userSnap.exists() || userSnap.data().isDeleted === true) {
+            console.error(`User ${userId} not found or is soft-deleted for SCORM progress update.`);
+            throw new Error("User not found or is soft-deleted.");
+        }
+
+        await updateDoc(userRef, {
+            [`courseProgress.${courseId}.scormData.${lessonItemId}`]: scormData,
+            [`courseProgress.${courseId}.lastUpdated`]: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+        });
+    });
+};
+
 // New function to update time spent on a course
 export async function updateUserTimeSpentOnCourse(userId: string, courseId: string, additionalTimeSpentSeconds: number): Promise<User | null> {
     if (!userId || !courseId || typeof additionalTimeSpentSeconds !== 'number' || additionalTimeSpentSeconds <= 0) {
@@ -667,6 +888,10 @@ export async function updateUserTimeSpentOnCourse(userId: string, courseId: stri
         });
 
         console.log(`Time spent on course ${courseId} for user ${userId} updated to ${newTimeSpent} seconds.`);
+        await recordLearningActivity(
+            { id: userId, companyId: userSnap.data().companyId || null, assignedLocationIds: userSnap.data().assignedLocationIds || [] },
+            { secondsLearned: additionalTimeSpentSeconds }
+        );
         const updatedUserSnap = await getDoc(userRef);
         return updatedUserSnap.exists() ? { id: userId, ...serializeUserDocumentData(updatedUserSnap.data()) } as User : null;
     });
@@ -755,6 +980,27 @@ export async function handleGoogleSignIn(): Promise<void> {
 }
 
 // --- Helper Functions ---
+
+// Extends the streak if the last completed lesson was yesterday (UTC), keeps it if today, otherwise restarts it.
+function calculateLearningStreak(current: LearningStreak | undefined, now: Date = new Date()): LearningStreak {
+    const today = now.toISOString().slice(0, 10);
+    const yesterdayDate = new Date(now);
+    yesterdayDate.setUTCDate(yesterdayDate.getUTCDate() - 1);
+    const yesterday = yesterdayDate.toISOString().slice(0, 10);
+
+    let currentStreak = 1;
+    if (current?.lastActivityDate === today) {
+        currentStreak = current.currentStreak;
+    } else if (current?.lastActivityDate === yesterday) {
+        currentStreak = current.currentStreak + 1;
+    }
+    return {
+        currentStreak,
+        longestStreak: Math.max(current?.longestStreak || 0, currentStreak),
+        lastActivityDate: today,
+    };
+}
+
 function serializeUserDocumentData(data: any): any {
     if (!data) return null;
     const serialized = { ...data };
@@ -762,12 +1008,25 @@ function serializeUserDocumentData(data: any): any {
     if (data.updatedAt instanceof Timestamp) serialized.updatedAt = data.updatedAt.toDate().toISOString();
     if (data.lastLogin instanceof Timestamp) serialized.lastLogin = data.lastLogin.toDate().toISOString();
     if (data.deletedAt instanceof Timestamp) serialized.deletedAt = data.deletedAt.toDate().toISOString();
+    if (data.courseAssignedAt) {
+        serialized.courseAssignedAt = { ...data.courseAssignedAt };
+        Object.keys(data.courseAssignedAt).forEach(courseId => {
+            const assignedAt = data.courseAssignedAt[courseId];
+            if (assignedAt instanceof Timestamp) serialized.courseAssignedAt[courseId] = assignedAt.toDate().toISOString();
+        });
+    }
     if (data.courseProgress) {
         Object.keys(data.courseProgress).forEach(courseId => {
             const progress = data.courseProgress[courseId];
             if (progress && progress.lastUpdated instanceof Timestamp) {
                 serialized.courseProgress[courseId].lastUpdated = progress.lastUpdated.toDate().toISOString();
             }
+            if (progress && progress.startedAt instanceof Timestamp) {
+                serialized.courseProgress[courseId].startedAt = progress.startedAt.toDate().toISOString();
+            }
+            if (progress && progress.completedAt instanceof Timestamp) {
+                serialized.courseProgress[courseId].completedAt = progress.completedAt.toDate().toISOString();
+            }
         });
     }
     return serialized;
@@ -0,0 +1,166 @@
+// src/lib/video-asset-data.ts
+import { db } from './firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    setDoc,
+    updateDoc,
+    query,
+    where,
+    runTransaction,
+    serverTimestamp,
+    Timestamp,
+} from 'firebase/firestore';
+import type { LessonVideoAsset, VideoAsset } from '@/types/video';
+import { isVideoAssetPending, toLessonVideoAsset } from './video-assets';
+
+const VIDEO_ASSETS_COLLECTION = 'videoAssets';
+
+// A job that hasn't finished after this long is assumed to have died and may be picked up again
+export const VIDEO_PROCESSING_STALE_MS = 2 * 60 * 60 * 1000;
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for video asset op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`Video asset op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+function serializeVideoAssetData(data: any): any {
+    const serialized = { ...data };
+    for (const key of ['processingStartedAt', 'createdAt', 'updatedAt']) {
+        if (data[key] instanceof Timestamp) serialized[key] = data[key].toDate().toISOString();
+    }
+    return serialized;
+}
+
+const isStale = (asset: Pick<VideoAsset, 'processingStartedAt'>, now: number) => {
+    const startedAt = asset.processingStartedAt ? new Date(asset.processingStartedAt as string).getTime() : 0;
+    return now - startedAt > VIDEO_PROCESSING_STALE_MS;
+};
+
+/**
+ * Reserves an ID before uploading, so the source file can be stored under the asset's folder.
+ */
+export function newVideoAssetId(): string {
+    return doc(collection(db, VIDEO_ASSETS_COLLECTION)).id;
+}
+
+/**
+ * Records an uploaded video and queues it for processing.
+ */
+export async function createVideoAsset(assetId: string, source: Pick<VideoAsset, 'fileName' | 'sourcePath' | 'sourceUrl'>): Promise<VideoAsset | null> {
+    if (!assetId) return null;
+    return retryOperation(async () => {
+        const assetRef = doc(db, VIDEO_ASSETS_COLLECTION, assetId);
+        await setDoc(assetRef, {
+            fileName: source.fileName,
+            sourcePath: source.sourcePath,
+            sourceUrl: source.sourceUrl,
+            status: 'queued',
+            hlsUrl: null,
+            posterUrl: null,
+            durationSeconds: null,
+            width: null,
+            height: null,
+            renditions: [],
+            error: null,
+            processingStartedAt: null,
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+        });
+        const newDocSnap = await getDoc(assetRef);
+        return newDocSnap.exists() ? { id: newDocSnap.id, ...serializeVideoAssetData(newDocSnap.data()) } as VideoAsset : null;
+    });
+}
+
+export async function getVideoAssetById(assetId: string): Promise<VideoAsset | null> {
+    if (!assetId) return null;
+    return retryOperation(async () => {
+        const docSnap = await getDoc(doc(db, VIDEO_ASSETS_COLLECTION, assetId));
+        return docSnap.exists() ? { id: docSnap.id, ...serializeVideoAssetData(docSnap.data()) } as VideoAsset : null;
+    });
+}
+
+/**
+ * Re-reads a lesson's copy of an asset that was still processing, so a lesson saved
+ * just as processing finishes doesn't keep the stale status.
+ */
+export async function refreshLessonVideoAsset(videoAsset: LessonVideoAsset | null | undefined): Promise<LessonVideoAsset | null> {
+    if (!videoAsset || !isVideoAssetPending(videoAsset)) return videoAsset || null;
+    const asset = await getVideoAssetById(videoAsset.id).catch(() => null);
+    return asset ? toLessonVideoAsset(asset) : videoAsset;
+}
+
+export async function updateVideoAsset(assetId: string, changes: Partial<Omit<VideoAsset, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
+    if (!assetId) return;
+    return retryOperation(async () => {
+        await updateDoc(doc(db, VIDEO_ASSETS_COLLECTION, assetId), { ...changes, updatedAt: serverTimestamp() });
+    });
+}
+
+/**
+ * Marks a queued asset as processing, so only one job works on it.
+ * Assets stuck in processing past VIDEO_PROCESSING_STALE_MS can be claimed again.
+ * @returns The claimed asset, or null if it is missing, done or already being processed.
+ */
+export async function claimVideoAssetForProcessing(assetId: string): Promise<VideoAsset | null> {
+    if (!assetId) return null;
+    return retryOperation(() => runTransaction(db, async (transaction) => {
+        const assetRef = doc(db, VIDEO_ASSETS_COLLECTION, assetId);
+        const assetSnap = await transaction.get(assetRef);
+        if (!assetSnap.exists()) return null;
+        const asset = { id: assetSnap.id, ...serializeVideoAssetData(assetSnap.data()) } as VideoAsset;
+        const canClaim = asset.status === 'queued' || (asset.status === 'processing' && isStale(asset, Date.now()));
+        if (!canClaim) return null;
+        transaction.update(assetRef, { status: 'processing', error: null, processingStartedAt: serverTimestamp(), updatedAt: serverTimestamp() });
+        return { ...asset, status: 'processing' as const, error: null };
+    }));
+}
+
+/**
+ * Puts a failed asset back in the queue.
+ * @returns false if the asset isn't in a failed state.
+ */
+export async function requeueVideoAsset(assetId: string): Promise<boolean> {
+    if (!assetId) return false;
+    return retryOperation(() => runTransaction(db, async (transaction) => {
+        const assetRef = doc(db, VIDEO_ASSETS_COLLECTION, assetId);
+        const assetSnap = await transaction.get(assetRef);
+        if (!assetSnap.exists() || assetSnap.data().status !== 'failed') return false;
+        transaction.update(assetRef, { status: 'queued', error: null, updatedAt: serverTimestamp() });
+        return true;
+    }));
+}
+
+/**
+ * IDs of assets waiting for the processing job: queued ones and ones whose job has gone stale.
+ */
+export async function getPendingVideoAssetIds(): Promise<string[]> {
+    return retryOperation(async () => {
+        const q = query(collection(db, VIDEO_ASSETS_COLLECTION), where('status', 'in', ['queued', 'processing']));
+        const snapshot = await getDocs(q);
+        const now = Date.now();
+        return snapshot.docs
+            .map(docSnap => ({ id: docSnap.id, ...serializeVideoAssetData(docSnap.data()) }) as VideoAsset)
+            .filter(asset => asset.status === 'queued' || isStale(asset, now))
+            .map(asset => asset.id);
+    });
+}
@@ -0,0 +1,118 @@
+import type { LessonVideoAsset, VideoAsset, VideoRendition } from '@/types/video';
+import type { LessonTranslation } from '@/types/course';
+
+// HLS segment length in seconds. Short segments let the player switch quality quickly on patchy Wi-Fi
+export const HLS_SEGMENT_SECONDS = 6;
+
+// Quality levels, by the video's shorter side. Levels above the source resolution are skipped
+export const HLS_RENDITION_LADDER = [
+    { name: '360p', size: 360, videoBitrateKbps: 800, audioBitrateKbps: 96 },
+    { name: '480p', size: 480, videoBitrateKbps: 1400, audioBitrateKbps: 128 },
+    { name: '720p', size: 720, videoBitrateKbps: 2800, audioBitrateKbps: 128 },
+    { name: '1080p', size: 1080, videoBitrateKbps: 5000, audioBitrateKbps: 160 },
+] as const;
+
+export type HlsRenditionSpec = (typeof HLS_RENDITION_LADDER)[number];
+
+export interface PlannedRendition extends VideoRendition {
+    spec: HlsRenditionSpec;
+    scaleFilter: string; // ffmpeg scale filter that produces width x height
+}
+
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Picks the renditions to encode for a source video. Portrait videos are scaled by width,
+ * so a phone recording gets the same ladder as a landscape one.
+ */
+export function planRenditions(sourceWidth: number, sourceHeight: number): PlannedRendition[] {
+    const isPortrait = sourceHeight > sourceWidth;
+    const shortSide = Math.min(sourceWidth, sourceHeight);
+    const longSide = Math.max(sourceWidth, sourceHeight);
+    const specs = HLS_RENDITION_LADDER.filter(spec => spec.size <= shortSide);
+    const selected = specs.length > 0 ? specs : [HLS_RENDITION_LADDER[0]];
+
+    return selected.map(spec => {
+        const size = Math.min(spec.size, toEven(shortSide));
+        const otherSide = toEven((longSide / shortSide) * size);
+        const width = isPortrait ? size : otherSide;
+        const height = isPortrait ? otherSide : size;
+        return {
+            name: spec.name,
+            width,
+            height,
+            bandwidth: Math.round((spec.videoBitrateKbps + spec.audioBitrateKbps) * 1000 * 1.1), // Headroom for peaks
+            spec,
+            scaleFilter: `scale=${width}:${height}`,
+        };
+    });
+}
+
+/**
+ * Builds the master playlist that lists every rendition.
+ * @param playlistUrls - The media playlist URL for each rendition, in the same order.
+ */
+export function buildMasterPlaylist(renditions: VideoRendition[], playlistUrls: string[]): string {
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+    renditions.forEach((rendition, index) => {
+        lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth},RESOLUTION=${rendition.width}x${rendition.height},NAME="${rendition.name}"`);
+        lines.push(playlistUrls[index]);
+    });
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Replaces the segment references in a media playlist, e.g. with absolute download URLs.
+ * Storage download URLs encode the whole path, so relative references can't be resolved by the player.
+ */
+export function rewritePlaylistUris(playlist: string, resolveUri: (uri: string) => string): string {
+    return playlist
+        .split(/\r?\n/)
+        .map(line => (line.trim() && !line.startsWith('#') ? resolveUri(line.trim()) : line))
+        .join('\n');
+}
+
+/**
+ * Formats a duration the way lessons store playbackTime, e.g. "0h 12m 5s".
+ */
+export function formatPlaybackTime(durationSeconds: number): string {
+    const totalSeconds = Math.max(0, Math.round(durationSeconds));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    return `${hours}h ${minutes}m ${totalSeconds % 60}s`;
+}
+
+export function toLessonVideoAsset(asset: VideoAsset): LessonVideoAsset {
+    return {
+        id: asset.id,
+        status: asset.status,
+        hlsUrl: asset.hlsUrl || null,
+        posterUrl: asset.posterUrl || null,
+        durationSeconds: asset.durationSeconds ?? null,
+    };
+}
+
+/**
+ * Normalizes a lesson's copy of an asset so it never contains undefined values.
+ */
+export function sanitizeLessonVideoAsset(videoAsset: LessonVideoAsset | null | undefined): LessonVideoAsset | null {
+    if (!videoAsset?.id) return null;
+    return {
+        id: videoAsset.id,
+        status: videoAsset.status || 'queued',
+        hlsUrl: videoAsset.hlsUrl || null,
+        posterUrl: videoAsset.posterUrl || null,
+        durationSeconds: videoAsset.durationSeconds ?? null,
+    };
+}
+
+export const isVideoAssetPending = (videoAsset: LessonVideoAsset | null | undefined) =>
+    videoAsset?.status === 'queued' || videoAsset?.status === 'processing';
+
+/**
+ * The IDs of every asset a lesson uses, for its videoAssetIds field.
+ */
+export function collectVideoAssetIds(lesson: { videoAsset?: LessonVideoAsset | null; translations?: { [key: string]: LessonTranslation } }): string[] {
+    const ids = [lesson.videoAsset?.id, ...Object.values(lesson.translations || {}).map(translation => translation?.videoUrl ? translation.videoAsset?.id : null)];
+    return Array.from(new Set(ids.filter((id): id is string => !!id)));
+}
@@ -0,0 +1,244 @@
+// This is a server-only file. It runs ffmpeg and ffprobe, which must be installed on the server
+// (or pointed to with FFMPEG_PATH and FFPROBE_PATH).
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getStorage } from 'firebase-admin/storage';
+import { adminApp } from './firebase-admin';
+import { STORAGE_PATHS } from './storage';
+import type { VideoAsset, VideoRendition } from '@/types/video';
+import {
+    HLS_SEGMENT_SECONDS,
+    buildMasterPlaylist,
+    planRenditions,
+    rewritePlaylistUris,
+    toLessonVideoAsset,
+    type PlannedRendition,
+} from './video-assets';
+import { claimVideoAssetForProcessing, getPendingVideoAssetIds, updateVideoAsset } from './video-asset-data';
+import { updateLessonsForVideoAsset } from './firestore-data';
+import { updateBrandLessonsForVideoAsset } from './brand-content-data';
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+const FFMPEG_TIMEOUT_MS = 3 * 60 * 60 * 1000; // Per encode. Long enough for a multi-hour source at 1080p
+const UPLOAD_CONCURRENCY = 6;
+
+export interface VideoProcessingResult {
+    processed: number;
+    failed: number;
+    skipped: number; // Claimed by another job or no longer pending
+}
+
+interface ProbeResult {
+    durationSeconds: number;
+    width: number;
+    height: number;
+}
+
+// Assets currently being processed by this server, so a second trigger doesn't wait on the transaction
+const activeJobs = new Set<string>();
+
+function runCommand(command: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args, { timeout: FFMPEG_TIMEOUT_MS });
+        let stdout = '';
+        let stderr = '';
+        child.stdout.on('data', chunk => { stdout += chunk; });
+        child.stderr.on('data', chunk => { stderr = (stderr + chunk).slice(-4000); }); // Keep the tail for error messages
+        child.on('error', error => reject(new Error(`Could not run ${command}: ${error.message}`)));
+        child.on('close', (code, signal) => {
+            if (code === 0) resolve(stdout);
+            else reject(new Error(`${path.basename(command)} failed (${signal || `exit code ${code}`}): ${stderr.trim().split('\n').slice(-3).join(' ')}`));
+        });
+    });
+}
+
+async function probeVideo(sourceFile: string): Promise<ProbeResult> {
+    const output = await runCommand(FFPROBE_PATH, ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', sourceFile]);
+    const probe = JSON.parse(output);
+    const videoStream = (probe.streams || []).find((stream: any) => stream.codec_type === 'video');
+    if (!videoStream) throw new Error("The uploaded file has no video stream.");
+
+    // Phone recordings are often stored landscape with a rotation flag
+    const rotation = Math.abs(Number(videoStream.tags?.rotate ?? videoStream.side_data_list?.find((data: any) => data.rotation !== undefined)?.rotation ?? 0));
+    const isRotated = rotation === 90 || rotation === 270;
+    const durationSeconds = Number(probe.format?.duration ?? videoStream.duration);
+    if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) throw new Error("Could not read the video's duration.");
+
+    return {
+        durationSeconds,
+        width: isRotated ? videoStream.height : videoStream.width,
+        height: isRotated ? videoStream.width : videoStream.height,
+    };
+}
+
+function encodeRendition(sourceFile: string, rendition: PlannedRendition, outputDir: string): Promise<string> {
+    const { videoBitrateKbps, audioBitrateKbps } = rendition.spec;
+    return runCommand(FFMPEG_PATH, [
+        '-hide_banner', '-loglevel', 'error', '-y',
+        '-i', sourceFile,
+        '-map', '0:v:0', '-map', '0:a:0?',
+        '-vf', rendition.scaleFilter,
+        '-c:v', 'libx264', '-preset', 'veryfast', '-profile:v', 'main', '-pix_fmt', 'yuv420p',
+        '-b:v', `${videoBitrateKbps}k`, '-maxrate', `${Math.round(videoBitrateKbps * 1.07)}k`, '-bufsize', `${videoBitrateKbps * 2}k`,
+        '-force_key_frames', `expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`, // Keyframe at every segment boundary so renditions switch cleanly
+        '-c:a', 'aac', '-b:a', `${audioBitrateKbps}k`, '-ac', '2',
+        '-f', 'hls', '-hls_time', String(HLS_SEGMENT_SECONDS), '-hls_playlist_type', 'vod',
+        '-hls_segment_filename', path.join(outputDir, 'segment_%04d.ts'),
+        path.join(outputDir, 'index.m3u8'),
+    ]);
+}
+
+function extractPoster(sourceFile: string, durationSeconds: number, outputFile: string): Promise<string> {
+    const seekTo = Math.min(3, durationSeconds / 2); // Skip the black first frame most recordings start with
+    return runCommand(FFMPEG_PATH, [
+        '-hide_banner', '-loglevel', 'error', '-y',
+        '-ss', seekTo.toFixed(2), '-i', sourceFile,
+        '-frames:v', '1', '-vf', "scale='min(1280,iw)':-2", '-q:v', '3',
+        outputFile,
+    ]);
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await worker(items[index]);
+        }
+    });
+    await Promise.all(runners);
+    return results;
+}
+
+function getBucket() {
+    if (!adminApp) throw new Error("Video processing needs the Firebase Admin SDK. Set FIREBASE_SERVICE_ACCOUNT_JSON.");
+    return getStorage(adminApp).bucket(process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET);
+}
+
+/**
+ * Packages one asset: downloads the source, encodes the HLS renditions and poster, uploads them,
+ * and writes the results to the asset and the lessons that use it.
+ */
+async function packageVideoAsset(asset: VideoAsset): Promise<Partial<VideoAsset>> {
+    const bucket = getBucket();
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), `video-${asset.id}-`));
+    const outputPrefix = `${STORAGE_PATHS.LESSON_VIDEOS}/${asset.id}/hls`;
+    const downloadToken = randomUUID(); // Shared by every output file, like the tokens Firebase adds to client uploads
+
+    const downloadUrl = (storagePath: string) =>
+        `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(storagePath)}?alt=media&token=${downloadToken}`;
+
+    const uploadFile = async (localFile: string, storagePath: string, contentType: string) => {
+        await bucket.upload(localFile, {
+            destination: storagePath,
+            resumable: false,
+            metadata: {
+                contentType,
+                cacheControl: 'public, max-age=31536000, immutable', // Paths are unique per asset, so files never change
+                metadata: { firebaseStorageDownloadTokens: downloadToken },
+            },
+        });
+        return downloadUrl(storagePath);
+    };
+
+    try {
+        const sourceFile = path.join(workDir, `source${path.extname(asset.fileName) || '.mp4'}`);
+        await bucket.file(asset.sourcePath).download({ destination: sourceFile });
+
+        const probe = await probeVideo(sourceFile);
+        const renditions = planRenditions(probe.width, probe.height);
+        const playlistUrls: string[] = [];
+
+        // One rendition at a time keeps memory and CPU use predictable on a shared server
+        for (const rendition of renditions) {
+            const renditionDir = path.join(workDir, rendition.name);
+            await fs.mkdir(renditionDir);
+            await encodeRendition(sourceFile, rendition, renditionDir);
+
+            const segmentFiles = (await fs.readdir(renditionDir)).filter(file => file.endsWith('.ts'));
+            const segmentUrls = new Map<string, string>();
+            await mapWithConcurrency(segmentFiles, UPLOAD_CONCURRENCY, async (file) => {
+                segmentUrls.set(file, await uploadFile(path.join(renditionDir, file), `${outputPrefix}/${rendition.name}/${file}`, 'video/mp2t'));
+            });
+
+            const playlistFile = path.join(renditionDir, 'index.m3u8');
+            const playlist = rewritePlaylistUris(await fs.readFile(playlistFile, 'utf8'), uri => segmentUrls.get(uri) || uri);
+            await fs.writeFile(playlistFile, playlist);
+            playlistUrls.push(await uploadFile(playlistFile, `${outputPrefix}/${rendition.name}/index.m3u8`, 'application/vnd.apple.mpegurl'));
+        }
+
+        const outputRenditions: VideoRendition[] = renditions.map(({ name, width, height, bandwidth }) => ({ name, width, height, bandwidth }));
+        const masterFile = path.join(workDir, 'master.m3u8');
+        await fs.writeFile(masterFile, buildMasterPlaylist(outputRenditions, playlistUrls));
+        const hlsUrl = await uploadFile(masterFile, `${outputPrefix}/master.m3u8`, 'application/vnd.apple.mpegurl');
+
+        const posterFile = path.join(workDir, 'poster.jpg');
+        await extractPoster(sourceFile, probe.durationSeconds, posterFile);
+        const posterUrl = await uploadFile(posterFile, `${STORAGE_PATHS.LESSON_VIDEOS}/${asset.id}/poster.jpg`, 'image/jpeg');
+
+        return {
+            status: 'ready',
+            hlsUrl,
+            posterUrl,
+            durationSeconds: Math.round(probe.durationSeconds * 10) / 10,
+            width: probe.width,
+            height: probe.height,
+            renditions: outputRenditions,
+            error: null,
+        };
+    } finally {
+        await fs.rm(workDir, { recursive: true, force: true }).catch(error => console.warn(`Could not remove ${workDir}:`, error));
+    }
+}
+
+/**
+ * Processes one asset if it is queued (or its previous job went stale).
+ * Failures are recorded on the asset rather than thrown.
+ * @returns 'processed', 'failed', or 'skipped' if another job has it or it is already done.
+ */
+export async function processVideoAsset(assetId: string): Promise<'processed' | 'failed' | 'skipped'> {
+    if (activeJobs.has(assetId)) return 'skipped';
+    activeJobs.add(assetId);
+    try {
+        const asset = await claimVideoAssetForProcessing(assetId);
+        if (!asset) return 'skipped';
+
+        let changes: Partial<VideoAsset>;
+        try {
+            changes = await packageVideoAsset(asset);
+        } catch (error: any) {
+            console.error(`Video processing failed for asset ${assetId}:`, error);
+            changes = { status: 'failed', error: error.message || 'Video processing failed.' };
+        }
+
+        await updateVideoAsset(assetId, changes);
+        const lessonVideoAsset = toLessonVideoAsset({ ...asset, ...changes });
+        const [lessonsUpdated, brandLessonsUpdated] = await Promise.all([
+            updateLessonsForVideoAsset(lessonVideoAsset),
+            updateBrandLessonsForVideoAsset(lessonVideoAsset),
+        ]);
+        console.log(`Video asset ${assetId} ${changes.status}. Updated ${lessonsUpdated} lessons and ${brandLessonsUpdated} brand lessons.`);
+        return changes.status === 'ready' ? 'processed' : 'failed';
+    } finally {
+        activeJobs.delete(assetId);
+    }
+}
+
+/**
+ * Works through every pending asset, one at a time. Used by the cron route to pick up uploads
+ * whose processing was never started or whose job died.
+ */
+export async function processPendingVideoAssets(): Promise<VideoProcessingResult> {
+    const result: VideoProcessingResult = { processed: 0, failed: 0, skipped: 0 };
+    const assetIds = await getPendingVideoAssetIds();
+    for (const assetId of assetIds) {
+        const outcome = await processVideoAsset(assetId);
+        result[outcome === 'processed' ? 'processed' : outcome === 'failed' ? 'failed' : 'skipped']++;
+    }
+    return result;
+}
@@ -0,0 +1,228 @@
+// src/lib/xapi-data.ts
+import { db } from './firebase';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    setDoc,
+    query,
+    where,
+    limit,
+    writeBatch,
+    serverTimestamp,
+    getCountFromServer,
+    Timestamp,
+} from 'firebase/firestore';
+import type { BrandLrsSettings, BrandLrsSettingsFormData, QueuedXapiStatement, StoredBrandLrsSettings, XapiQueueSummary, XapiStatement } from '@/types/xapi';
+
+const LRS_SETTINGS_COLLECTION = 'brandLrsSettings';
+const XAPI_QUEUE_COLLECTION = 'xapiStatementQueue';
+
+// A statement is given up on after this many failed tries, spread over roughly a day by the backoff below
+export const MAX_XAPI_DELIVERY_ATTEMPTS = 12;
+const FIRST_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const BATCH_WRITE_SIZE = 400; // Firestore allows 500 writes per batch
+
+// --- Retry Logic Helper ---
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+async function retryOperation<T>(operation: () => Promise<T>, maxRetries = MAX_RETRIES, baseDelay = BASE_DELAY_MS): Promise<T> {
+    let attempt = 1;
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (attempt === maxRetries) {
+                console.error(`Max retries (${maxRetries}) for xAPI op. Failed: ${error.message}`);
+                throw error;
+            }
+            const delay = Math.min(Math.pow(2, attempt) * baseDelay, 10000);
+            console.warn(`xAPI op failed (attempt ${attempt}/${maxRetries}): ${error.message}. Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+}
+
+function serializeTimestamps(data: any, keys: string[]): any {
+    const serialized = { ...data };
+    for (const key of keys) {
+        if (data[key] instanceof Timestamp) serialized[key] = data[key].toDate().toISOString();
+    }
+    return serialized;
+}
+
+const toQueuedStatement = (id: string, data: any) =>
+    ({ id, ...serializeTimestamps(data, ['nextAttemptAt', 'createdAt', 'sentAt', 'updatedAt']) }) as QueuedXapiStatement;
+
+async function commitInBatches<T>(items: T[], write: (batch: ReturnType<typeof writeBatch>, item: T) => void): Promise<void> {
+    for (let start = 0; start < items.length; start += BATCH_WRITE_SIZE) {
+        const batch = writeBatch(db);
+        items.slice(start, start + BATCH_WRITE_SIZE).forEach(item => write(batch, item));
+        await batch.commit();
+    }
+}
+
+/**
+ * Normalizes an LRS endpoint: trims it and drops trailing slashes and a trailing "/statements",
+ * which people often paste in.
+ */
+export function normalizeLrsEndpoint(endpoint: string): string {
+    return (endpoint || '').trim().replace(/\/+$/, '').replace(/\/statements$/i, '');
+}
+
+// --- LRS Settings ---
+
+/**
+ * Reads a brand's LRS settings with the secret as stored. Only the server can decrypt it (see src/lib/lrs-secrets.ts).
+ */
+export async function getStoredBrandLrsSettings(brandId: string): Promise<StoredBrandLrsSettings | null> {
+    if (!brandId) return null;
+    return retryOperation(async () => {
+        const docSnap = await getDoc(doc(db, LRS_SETTINGS_COLLECTION, brandId));
+        if (!docSnap.exists()) return null;
+        const data = serializeTimestamps(docSnap.data(), ['updatedAt']);
+        return {
+            brandId,
+            enabled: !!data.enabled,
+            endpoint: data.endpoint || '',
+            username: data.username || '',
+            hasPassword: !!(data.encryptedPassword || data.password),
+            updatedAt: data.updatedAt ?? null,
+            encryptedPassword: data.encryptedPassword || null,
+            plainTextPassword: data.password || null,
+        };
+    });
+}
+
+// A brand's LRS settings without the secret, only whether one is saved
+export async function getBrandLrsSettings(brandId: string): Promise<BrandLrsSettings | null> {
+    const stored = await getStoredBrandLrsSettings(brandId);
+    if (!stored) return null;
+    const { encryptedPassword, plainTextPassword, ...settings } = stored;
+    return settings;
+}
+
+/**
+ * Saves a brand's LRS settings. Called by the saveLrsSettings server action, which encrypts the secret.
+ * @param encryptedPassword - The encrypted secret, or null for none. Any plain-text secret is dropped.
+ */
+export async function saveBrandLrsSettings(brandId: string, settings: Pick<BrandLrsSettingsFormData, 'enabled' | 'endpoint' | 'username'>, encryptedPassword: string | null): Promise<BrandLrsSettings | null> {
+    if (!brandId) return null;
+    return retryOperation(async () => {
+        await setDoc(doc(db, LRS_SETTINGS_COLLECTION, brandId), {
+            enabled: !!settings.enabled,
+            endpoint: normalizeLrsEndpoint(settings.endpoint),
+            username: (settings.username || '').trim(),
+            encryptedPassword,
+            updatedAt: serverTimestamp(),
+        });
+        return getBrandLrsSettings(brandId);
+    });
+}
+
+// --- Statement Queue ---
+
+/**
+ * Queues statements for delivery to a brand's LRS. Statements whose ID is already queued
+ * (events reported twice) are skipped, so a sent statement is never sent again.
+ * @returns The number of statements queued.
+ */
+export async function queueXapiStatements(brandId: string, statements: XapiStatement[]): Promise<number> {
+    if (!brandId || statements.length === 0) return 0;
+    return retryOperation(async () => {
+        const existing = await Promise.all(statements.map(statement => getDoc(doc(db, XAPI_QUEUE_COLLECTION, statement.id))));
+        const newStatements = statements.filter((_, index) => !existing[index].exists());
+        await commitInBatches(newStatements, (batch, statement) => {
+            batch.set(doc(db, XAPI_QUEUE_COLLECTION, statement.id), {
+                brandId,
+                statement,
+                status: 'pending',
+                attempts: 0,
+                nextAttemptAt: serverTimestamp(),
+                lastError: null,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp(),
+                sentAt: null,
+            });
+        });
+        return newStatements.length;
+    });
+}
+
+/**
+ * Pending statements whose next try is due, oldest first.
+ */
+export async function getDueXapiStatements(maxCount: number): Promise<QueuedXapiStatement[]> {
+    return retryOperation(async () => {
+        const snapshot = await getDocs(query(collection(db, XAPI_QUEUE_COLLECTION), where('status', '==', 'pending')));
+        const now = Date.now();
+        const dueTime = (item: QueuedXapiStatement) => (item.nextAttemptAt ? new Date(item.nextAttemptAt as string).getTime() : 0);
+        return snapshot.docs
+            .map(docSnap => toQueuedStatement(docSnap.id, docSnap.data()))
+            .filter(item => dueTime(item) <= now)
+            .sort((a, b) => dueTime(a) - dueTime(b))
+            .slice(0, maxCount);
+    });
+}
+
+export async function markXapiStatementsSent(statementIds: string[]): Promise<void> {
+    return retryOperation(() => commitInBatches(statementIds, (batch, statementId) => {
+        batch.update(doc(db, XAPI_QUEUE_COLLECTION, statementId), { status: 'sent', lastError: null, sentAt: serverTimestamp(), updatedAt: serverTimestamp() });
+    }));
+}
+
+/**
+ * Records a failed try. The next try backs off exponentially; after MAX_XAPI_DELIVERY_ATTEMPTS the statement is marked failed.
+ */
+export async function markXapiStatementsRetry(items: Pick<QueuedXapiStatement, 'id' | 'attempts'>[], error: string): Promise<void> {
+    const now = Date.now();
+    return retryOperation(() => commitInBatches(items, (batch, item) => {
+        const attempts = (item.attempts || 0) + 1;
+        const delay = Math.min(FIRST_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+        batch.update(doc(db, XAPI_QUEUE_COLLECTION, item.id), {
+            status: attempts >= MAX_XAPI_DELIVERY_ATTEMPTS ? 'failed' : 'pending',
+            attempts,
+            nextAttemptAt: Timestamp.fromMillis(now + delay),
+            lastError: error.slice(0, 1000),
+            updatedAt: serverTimestamp(),
+        });
+    }));
+}
+
+/**
+ * Puts a brand's failed statements back in the queue, e.g. after its LRS settings were fixed.
+ * @returns The number of statements requeued.
+ */
+export async function requeueFailedXapiStatements(brandId: string): Promise<number> {
+    if (!brandId) return 0;
+    return retryOperation(async () => {
+        const snapshot = await getDocs(query(collection(db, XAPI_QUEUE_COLLECTION), where('brandId', '==', brandId), where('status', '==', 'failed')));
+        await commitInBatches(snapshot.docs, (batch, docSnap) => {
+            batch.update(docSnap.ref, { status: 'pending', attempts: 0, nextAttemptAt: serverTimestamp(), updatedAt: serverTimestamp() });
+        });
+        return snapshot.size;
+    });
+}
+
+export async function getXapiQueueSummary(brandId: string): Promise<XapiQueueSummary> {
+    return retryOperation(async () => {
+        const queueRef = collection(db, XAPI_QUEUE_COLLECTION);
+        const countFor = async (status: QueuedXapiStatement['status']) =>
+            (await getCountFromServer(query(queueRef, where('brandId', '==', brandId), where('status', '==', status)))).data().count;
+        const [pending, failed, sent, unsentSnapshot] = await Promise.all([
+            countFor('pending'),
+            countFor('failed'),
+            countFor('sent'),
+            getDocs(query(queueRef, where('brandId', '==', brandId), where('status', 'in', ['pending', 'failed']), limit(50))),
+        ]);
+        const lastTried = unsentSnapshot.docs
+            .map(docSnap => docSnap.data())
+            .filter(data => data.lastError && data.updatedAt instanceof Timestamp)
+            .sort((a, b) => b.updatedAt.toMillis() - a.updatedAt.toMillis())[0];
+        return { pending, failed, sent, lastError: lastTried?.lastError ?? null };
+    });
+}
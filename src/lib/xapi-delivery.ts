@@ -0,0 +1,176 @@
+// This is a server-only file. It sends queued xAPI statements to brands' Learning Record Stores.
+import { getCompanyById } from './company-data';
+import { getCourseById } from './firestore-data';
+import { getBrandCourseById } from './brand-content-data';
+import { getUserById } from './user-data';
+import {
+    getBrandLrsSettings,
+    getDueXapiStatements,
+    markXapiStatementsRetry,
+    markXapiStatementsSent,
+    queueXapiStatements,
+} from './xapi-data';
+import { XAPI_VERSION, buildQuizAttemptStatements, type XapiStatementScope } from './xapi';
+import { getBrandLrsCredentials } from './lrs-secrets';
+import type { QuestionBase, QuizAttempt } from '@/types/course';
+import type { User } from '@/types/user';
+import type { BrandLrsSettings, LrsCredentials, QueuedXapiStatement, XapiStatement } from '@/types/xapi';
+
+const LRS_REQUEST_TIMEOUT_MS = 30 * 1000;
+const STATEMENTS_PER_REQUEST = 100;
+const MAX_STATEMENTS_PER_RUN = 2000;
+
+export interface XapiDeliveryResult {
+    sent: number;
+    retried: number; // Failed this time; will be tried again or marked failed
+}
+
+// Where a learner's statements go: their brand's LRS, or the parent brand's when the brand has none of its own
+export interface XapiDestination {
+    settingsBrandId: string;
+    learnerBrandId: string;
+}
+
+let isDelivering = false;
+
+/**
+ * Finds the LRS a learner's statements should be sent to.
+ * @returns null if neither the learner's brand nor its parent has an enabled LRS.
+ */
+export async function getXapiDestination(user: Pick<User, 'companyId'>): Promise<XapiDestination | null> {
+    if (!user.companyId) return null;
+    const isUsable = (settings: BrandLrsSettings | null) => !!settings?.enabled && !!settings.endpoint;
+
+    if (isUsable(await getBrandLrsSettings(user.companyId))) {
+        return { settingsBrandId: user.companyId, learnerBrandId: user.companyId };
+    }
+    const brand = await getCompanyById(user.companyId);
+    if (brand?.parentBrandId && isUsable(await getBrandLrsSettings(brand.parentBrandId))) {
+        return { settingsBrandId: brand.parentBrandId, learnerBrandId: user.companyId };
+    }
+    return null;
+}
+
+const authorizationHeader = (settings: Pick<LrsCredentials, 'username' | 'password'>) =>
+    `Basic ${Buffer.from(`${settings.username}:${settings.password}`).toString('base64')}`;
+
+async function describeFailure(response: Response): Promise<string> {
+    const body = (await response.text().catch(() => '')).replace(/\s+/g, ' ').trim().slice(0, 300);
+    return `The LRS responded ${response.status} ${response.statusText}${body ? `: ${body}` : ''}`;
+}
+
+/**
+ * Sends a request to an LRS's xAPI endpoint with the brand's credentials.
+ * @param path - Relative to the endpoint, e.g. '/statements'.
+ */
+export function sendLrsRequest(settings: LrsCredentials, path: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(`${settings.endpoint}${path}`, {
+        ...init,
+        headers: {
+            'X-Experience-API-Version': XAPI_VERSION,
+            Authorization: authorizationHeader(settings),
+            ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+            ...init.headers,
+        },
+        signal: AbortSignal.timeout(LRS_REQUEST_TIMEOUT_MS),
+    });
+}
+
+async function postStatements(settings: LrsCredentials, statements: XapiStatement[]): Promise<void> {
+    const response = await sendLrsRequest(settings, '/statements', { method: 'POST', body: JSON.stringify(statements) });
+    if (!response.ok) throw new Error(await describeFailure(response));
+}
+
+/**
+ * Checks that an LRS endpoint answers and accepts the credentials, without storing anything in it.
+ * @returns An error message, or null if the LRS can be used.
+ */
+export async function checkLrsConnection(settings: LrsCredentials): Promise<string | null> {
+    try {
+        const about = await fetch(`${settings.endpoint}/about`, { headers: { 'X-Experience-API-Version': XAPI_VERSION }, signal: AbortSignal.timeout(LRS_REQUEST_TIMEOUT_MS) });
+        if (!about.ok) return `This doesn't look like an xAPI endpoint. ${await describeFailure(about)}`;
+        const statements = await sendLrsRequest(settings, '/statements?limit=1');
+        if (statements.status === 401 || statements.status === 403) return `The LRS rejected the key and secret. ${await describeFailure(statements)}`;
+        if (!statements.ok) return await describeFailure(statements);
+        return null;
+    } catch (error: any) {
+        return error.name === 'TimeoutError' ? "The LRS didn't respond in time." : `Could not reach the LRS: ${error.message}`;
+    }
+}
+
+/**
+ * Sends due statements, one request per brand and batch. Failed batches are retried later with backoff.
+ * Called by the xapi-delivery cron route and after statements are queued.
+ */
+export async function deliverPendingXapiStatements(): Promise<XapiDeliveryResult> {
+    const result: XapiDeliveryResult = { sent: 0, retried: 0 };
+    if (isDelivering) return result; // The run in progress picks up anything newly queued
+    isDelivering = true;
+    try {
+        const due = await getDueXapiStatements(MAX_STATEMENTS_PER_RUN);
+        const byBrand = new Map<string, QueuedXapiStatement[]>();
+        due.forEach(item => byBrand.set(item.brandId, [...(byBrand.get(item.brandId) || []), item]));
+
+        for (const [brandId, items] of byBrand) {
+            const settings = await getBrandLrsCredentials(brandId).catch((error: Error) => error);
+            for (let start = 0; start < items.length; start += STATEMENTS_PER_REQUEST) {
+                const batch = items.slice(start, start + STATEMENTS_PER_REQUEST);
+                try {
+                    if (settings instanceof Error) throw settings; // e.g. the secret can't be decrypted
+                    if (!settings?.enabled || !settings.endpoint) throw new Error("The brand's LRS is turned off or has no endpoint.");
+                    await postStatements(settings, batch.map(item => item.statement));
+                    await markXapiStatementsSent(batch.map(item => item.id));
+                    result.sent += batch.length;
+                } catch (error: any) {
+                    const message = error.name === 'TimeoutError' ? "The LRS didn't respond in time." : error.message || 'Unknown error.';
+                    console.warn(`xAPI delivery to brand ${brandId}'s LRS failed for ${batch.length} statement(s): ${message}`);
+                    await markXapiStatementsRetry(batch, message);
+                    result.retried += batch.length;
+                }
+            }
+        }
+        return result;
+    } finally {
+        isDelivering = false;
+    }
+}
+
+/**
+ * Queues statements for a learner's LRS and starts sending them in the background.
+ * Statements left unsent when the server stops are sent by the xapi-delivery cron route.
+ */
+export async function emitXapiStatements(destination: XapiDestination, statements: XapiStatement[]): Promise<number> {
+    const queued = await queueXapiStatements(destination.settingsBrandId, statements);
+    if (queued > 0) {
+        deliverPendingXapiStatements().catch(error => console.error("Background xAPI delivery failed:", error));
+    }
+    return queued;
+}
+
+/**
+ * Emits "answered" statements and the passed/failed result for a graded quiz attempt,
+ * if the learner's brand has an LRS. Never throws, so reporting can't break quiz submission.
+ * @param questions - The quiz's questions in their original order.
+ */
+export async function emitQuizAttemptStatements(attempt: QuizAttempt, questions: QuestionBase[]): Promise<void> {
+    if (attempt.quizType !== 'quiz' && attempt.quizType !== 'brandQuiz') return;
+    try {
+        const user = await getUserById(attempt.userId);
+        const destination = user ? await getXapiDestination(user) : null;
+        if (!user || !destination) return;
+
+        const globalCourse = await getCourseById(attempt.courseId);
+        const course = globalCourse ?? (await getBrandCourseById(attempt.courseId));
+        if (!course) return;
+
+        const scope: XapiStatementScope = {
+            user,
+            course: { id: course.id, title: course.title, isBrandCourse: !globalCourse },
+            brandId: destination.learnerBrandId,
+            locale: attempt.locale,
+        };
+        await emitXapiStatements(destination, buildQuizAttemptStatements(scope, { type: attempt.quizType, id: attempt.quizId, title: attempt.quizTitle }, questions, attempt));
+    } catch (error) {
+        console.error(`Failed to emit xAPI statements for quiz attempt ${attempt.id}:`, error);
+    }
+}
@@ -0,0 +1,268 @@
+// This is a server-only file. It builds the xAPI statements sent to brands' Learning Record Stores.
+import { createHash, randomUUID } from 'crypto';
+import { formatScormTime } from './scorm';
+import type { QuestionBase, QuizAttempt } from '@/types/course';
+import type { User } from '@/types/user';
+import type {
+    XapiActivity,
+    XapiActivityDefinition,
+    XapiAgent,
+    XapiContext,
+    XapiInteractionComponent,
+    XapiStatement,
+    XapiVerb,
+} from '@/types/xapi';
+
+export const XAPI_VERSION = '1.0.3';
+export const XAPI_PLATFORM = 'Gymramp';
+
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002';
+const IRI_BASE = `${appUrl.replace(/\/+$/, '')}/xapi`;
+const BRAND_EXTENSION = `${IRI_BASE}/extensions/brand-id`;
+const ATTEMPT_EXTENSION = `${IRI_BASE}/extensions/attempt-number`;
+
+// ADL vocabulary, so LRS reports recognise the statements
+const verb = (name: string): XapiVerb => ({ id: `http://adlnet.gov/expapi/verbs/${name}`, display: { 'en-US': name } });
+export const XAPI_VERBS = {
+    launched: verb('launched'),
+    experienced: verb('experienced'),
+    answered: verb('answered'),
+    passed: verb('passed'),
+    failed: verb('failed'),
+    completed: verb('completed'),
+};
+
+const ACTIVITY_TYPES = {
+    course: 'http://adlnet.gov/expapi/activities/course',
+    lesson: 'http://adlnet.gov/expapi/activities/lesson',
+    assessment: 'http://adlnet.gov/expapi/activities/assessment',
+    interaction: 'http://adlnet.gov/expapi/activities/cmi.interaction',
+};
+
+// A content item as it appears in a curriculum: 'lesson', 'brandLesson', 'quiz' or 'brandQuiz', and its ID
+export interface XapiContentRef {
+    type: string;
+    id: string;
+    title: string;
+}
+
+// Who, in which course and on whose behalf a statement is made
+export interface XapiStatementScope {
+    user: Pick<User, 'id' | 'name' | 'email'>;
+    course: { id: string; title: string; isBrandCourse: boolean };
+    brandId: string | null; // The learner's brand
+    locale?: string | null;
+}
+
+/**
+ * Formats a SHA-1 of the parts as a name-based (version 5 style) UUID, so the same event
+ * always gets the same statement ID and a re-sent statement isn't stored twice.
+ */
+export function getDeterministicUuid(...parts: string[]): string {
+    const hex = createHash('sha1').update(parts.join('|')).digest('hex');
+    const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+const kebab = (type: string) => type.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+export function getCourseActivity(course: XapiStatementScope['course']): XapiActivity {
+    return {
+        objectType: 'Activity',
+        id: `${IRI_BASE}/activities/${course.isBrandCourse ? 'brand-course' : 'course'}/${encodeURIComponent(course.id)}`,
+        definition: { type: ACTIVITY_TYPES.course, name: { 'en-US': course.title } },
+    };
+}
+
+export function getContentActivity(item: XapiContentRef): XapiActivity {
+    const isQuiz = item.type === 'quiz' || item.type === 'brandQuiz';
+    return {
+        objectType: 'Activity',
+        id: `${IRI_BASE}/activities/${kebab(item.type)}/${encodeURIComponent(item.id)}`,
+        definition: { type: isQuiz ? ACTIVITY_TYPES.assessment : ACTIVITY_TYPES.lesson, name: { 'en-US': item.title } },
+    };
+}
+
+function toAgent(user: XapiStatementScope['user']): XapiAgent {
+    return { objectType: 'Agent', name: user.name, mbox: `mailto:${user.email.trim().toLowerCase()}` };
+}
+
+function buildContext(scope: XapiStatementScope, contextActivities: XapiContext['contextActivities'], extensions: Record<string, unknown> = {}): XapiContext {
+    return {
+        registration: getDeterministicUuid('registration', scope.user.id, scope.course.id),
+        platform: XAPI_PLATFORM,
+        language: scope.locale || 'en',
+        contextActivities,
+        extensions: { ...(scope.brandId ? { [BRAND_EXTENSION]: scope.brandId } : {}), ...extensions },
+    };
+}
+
+const toIsoString = (value: unknown): string | null => {
+    if (!value) return null;
+    const time = new Date(value as string).getTime();
+    return Number.isFinite(time) ? new Date(time).toISOString() : null;
+};
+
+/**
+ * The learner opened the course player.
+ */
+export function buildCourseLaunchedStatement(scope: XapiStatementScope): XapiStatement {
+    return {
+        id: randomUUID(),
+        actor: toAgent(scope.user),
+        verb: XAPI_VERBS.launched,
+        object: getCourseActivity(scope.course),
+        context: buildContext(scope, {}),
+        timestamp: new Date().toISOString(),
+    };
+}
+
+/**
+ * The learner opened a lesson.
+ */
+export function buildLessonExperiencedStatement(scope: XapiStatementScope, lesson: XapiContentRef): XapiStatement {
+    return {
+        id: randomUUID(),
+        actor: toAgent(scope.user),
+        verb: XAPI_VERBS.experienced,
+        object: getContentActivity(lesson),
+        context: buildContext(scope, { parent: [getCourseActivity(scope.course)] }),
+        timestamp: new Date().toISOString(),
+    };
+}
+
+/**
+ * The learner finished the course. One statement per completion, however often it is reported.
+ */
+export function buildCourseCompletedStatement(scope: XapiStatementScope, completion: { completedAt: unknown; timeSpentSeconds?: number | null }): XapiStatement {
+    const completedAt = toIsoString(completion.completedAt) || new Date().toISOString();
+    return {
+        id: getDeterministicUuid('completed', scope.user.id, scope.course.id, completedAt),
+        actor: toAgent(scope.user),
+        verb: XAPI_VERBS.completed,
+        object: getCourseActivity(scope.course),
+        result: {
+            completion: true,
+            ...(completion.timeSpentSeconds ? { duration: formatScormTime(completion.timeSpentSeconds, '2004') } : {}),
+        },
+        context: buildContext(scope, {}),
+        timestamp: completedAt,
+    };
+}
+
+// --- Quiz attempts ---
+
+const component = (id: string, text: string): XapiInteractionComponent => ({ id, description: { 'en-US': text } });
+
+/**
+ * Describes a question as a cmi.interaction, with a response mapper that turns a graded answer
+ * into the interaction's response format. Choices are identified by their position in the
+ * question's original option order, so shuffled attempts still report the same IDs.
+ */
+function describeInteraction(question: QuestionBase): { definition: XapiActivityDefinition; toResponse: (answer: unknown) => string } {
+    const options = question.options || [];
+    const choiceId = (text: unknown) => {
+        const index = options.indexOf(String(text));
+        return index === -1 ? '' : `choice-${index}`;
+    };
+    const choices = options.map((option, index) => component(`choice-${index}`, option));
+    const list = (answer: unknown) => (Array.isArray(answer) ? answer : answer ? [answer] : []);
+    const base: XapiActivityDefinition = { type: ACTIVITY_TYPES.interaction, name: { 'en-US': question.text }, description: { 'en-US': question.text } };
+
+    switch (question.type) {
+        case 'true-false': {
+            const toBoolean = (value: unknown) => (String(value ?? '').trim().toLowerCase() === 'true' ? 'true' : 'false');
+            return {
+                definition: { ...base, interactionType: 'true-false', correctResponsesPattern: question.correctAnswer ? [toBoolean(question.correctAnswer)] : [] },
+                toResponse: answer => (answer ? toBoolean(answer) : ''),
+            };
+        }
+        case 'multiple-select':
+            return {
+                definition: { ...base, interactionType: 'choice', choices, correctResponsesPattern: [(question.correctAnswers || []).map(choiceId).filter(Boolean).join('[,]')] },
+                toResponse: answer => list(answer).map(choiceId).filter(Boolean).join('[,]'),
+            };
+        case 'ordering':
+            return {
+                definition: { ...base, interactionType: 'sequencing', choices, correctResponsesPattern: [(question.correctAnswers || []).map(choiceId).join('[,]')] },
+                toResponse: answer => list(answer).map(choiceId).join('[,]'),
+            };
+        case 'matching': {
+            const pairs = question.matchingPairs || [];
+            const toPairs = (matches: unknown[]) => matches
+                .map((match, index) => (match && choiceId(match) ? `source-${index}[.]${choiceId(match)}` : ''))
+                .filter(Boolean)
+                .join('[,]');
+            return {
+                definition: {
+                    ...base,
+                    interactionType: 'matching',
+                    source: pairs.map((pair, index) => component(`source-${index}`, pair.prompt)),
+                    target: choices,
+                    correctResponsesPattern: [toPairs(pairs.map(pair => pair.match))],
+                },
+                toResponse: answer => toPairs(list(answer)),
+            };
+        }
+        case 'short-answer':
+            return {
+                definition: {
+                    ...base,
+                    interactionType: 'fill-in',
+                    correctResponsesPattern: (question.acceptedAnswers || []).map(accepted => `{case_matters=${question.caseSensitive ? 'true' : 'false'}}${accepted}`),
+                },
+                toResponse: answer => (typeof answer === 'string' ? answer : ''),
+            };
+        default: // 'multiple-choice' and 'image-choice'
+            return {
+                definition: { ...base, interactionType: 'choice', choices, correctResponsesPattern: question.correctAnswer ? [choiceId(question.correctAnswer)] : [] },
+                toResponse: answer => choiceId(list(answer)[0]),
+            };
+    }
+}
+
+/**
+ * An "answered" statement per question and a "passed" or "failed" statement for a graded attempt.
+ * @param questions - The quiz's questions in their original order, for the interaction definitions.
+ */
+export function buildQuizAttemptStatements(scope: XapiStatementScope, quiz: XapiContentRef, questions: QuestionBase[], attempt: QuizAttempt): XapiStatement[] {
+    const actor = toAgent(scope.user);
+    const courseActivity = getCourseActivity(scope.course);
+    const quizActivity = getContentActivity(quiz);
+    const submittedAt = toIsoString(attempt.submittedAt) || new Date().toISOString();
+    const startedAt = toIsoString(attempt.startedAt);
+    const attemptExtensions = { [ATTEMPT_EXTENSION]: attempt.attemptNumber };
+    const questionsById = new Map(questions.map(question => [question.id, question]));
+
+    const answeredStatements = (attempt.answers || []).map((answer): XapiStatement => {
+        const question = questionsById.get(answer.questionId) ?? { id: answer.questionId, text: answer.questionText, type: answer.questionType, options: [] };
+        const { definition, toResponse } = describeInteraction(question);
+        return {
+            id: getDeterministicUuid('answered', attempt.id, answer.questionId),
+            actor,
+            verb: XAPI_VERBS.answered,
+            object: { objectType: 'Activity', id: `${quizActivity.id}/questions/${encodeURIComponent(answer.questionId)}`, definition },
+            result: { success: answer.isCorrect, response: answer.answer === null ? '' : toResponse(answer.answer) },
+            context: buildContext(scope, { parent: [quizActivity], grouping: [courseActivity] }, attemptExtensions),
+            timestamp: submittedAt,
+        };
+    });
+
+    const total = attempt.totalQuestions || 0;
+    const outcome: XapiStatement = {
+        id: getDeterministicUuid('graded', attempt.id),
+        actor,
+        verb: attempt.passed ? XAPI_VERBS.passed : XAPI_VERBS.failed,
+        object: quizActivity,
+        result: {
+            score: { scaled: Math.max(0, Math.min(1, (attempt.score || 0) / 100)), raw: attempt.correctCount || 0, min: 0, max: total },
+            success: attempt.passed,
+            completion: true,
+            ...(startedAt ? { duration: formatScormTime(Math.max(0, (Date.parse(submittedAt) - Date.parse(startedAt)) / 1000), '2004') } : {}),
+        },
+        context: buildContext(scope, { parent: [courseActivity] }, attemptExtensions),
+        timestamp: submittedAt,
+    };
+
+    return [...answeredStatements, outcome];
+}
@@ -0,0 +1,145 @@
+// Minimal ZIP support for content packages (e.g. IMS QTI).
+// Archives are written uncompressed; stored and deflated entries can be read.
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Builds a ZIP archive from the given files, without compression.
+ * @param files - File paths within the archive and their contents. Strings are encoded as UTF-8.
+ * @returns The archive bytes.
+ */
+export function createZip(files: { name: string; data: Uint8Array | string }[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    files.forEach((file) => {
+        const nameBytes = encoder.encode(file.name);
+        const data = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+        const crc = crc32(data);
+
+        const local = new Uint8Array(30 + nameBytes.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, LOCAL_FILE_HEADER, true);
+        localView.setUint16(4, 20, true); // Version needed
+        localView.setUint16(6, UTF8_FLAG, true);
+        localView.setUint16(8, 0, true); // Stored
+        localView.setUint32(14, crc, true);
+        localView.setUint32(18, data.length, true);
+        localView.setUint32(22, data.length, true);
+        localView.setUint16(26, nameBytes.length, true);
+        local.set(nameBytes, 30);
+
+        const central = new Uint8Array(46 + nameBytes.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+        centralView.setUint16(4, 20, true); // Version made by
+        centralView.setUint16(6, 20, true); // Version needed
+        centralView.setUint16(8, UTF8_FLAG, true);
+        centralView.setUint16(10, 0, true); // Stored
+        centralView.setUint32(16, crc, true);
+        centralView.setUint32(20, data.length, true);
+        centralView.setUint32(24, data.length, true);
+        centralView.setUint16(28, nameBytes.length, true);
+        centralView.setUint32(42, offset, true);
+        central.set(nameBytes, 46);
+
+        localParts.push(local, data);
+        centralParts.push(central);
+        offset += local.length + data.length;
+    });
+
+    const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    endView.setUint16(8, files.length, true);
+    endView.setUint16(10, files.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    const parts = [...localParts, ...centralParts, end];
+    const archive = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let position = 0;
+    parts.forEach((part) => {
+        archive.set(part, position);
+        position += part.length;
+    });
+    return archive;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error("This browser cannot read compressed ZIP files.");
+    }
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Reads the files in a ZIP archive. Directories are skipped.
+ * @param archive - The archive bytes.
+ * @returns The files in archive order.
+ * @throws If the data is not a ZIP archive or uses an unsupported compression method.
+ */
+export async function readZip(archive: Uint8Array): Promise<ZipEntry[]> {
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+    let endOffset = -1;
+    for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) throw new Error("The file is not a valid ZIP archive.");
+
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let position = view.getUint32(endOffset + 16, true);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error("The ZIP archive is corrupt.");
+        const method = view.getUint16(position + 10, true);
+        const compressedSize = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const extraLength = view.getUint16(position + 30, true);
+        const commentLength = view.getUint16(position + 32, true);
+        const localOffset = view.getUint32(position + 42, true);
+        const name = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength));
+        position += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const raw = archive.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) entries.push({ name, data: raw });
+        else if (method === 8) entries.push({ name, data: await inflateRaw(raw) });
+        else throw new Error(`Unsupported compression in ZIP entry "${name}".`);
+    }
+    return entries;
+}
@@ -19,7 +19,7 @@ export interface ActivityLog {
   };
 }
 
-export type NotificationType = 'message' | 'reminder' | 'badge' | 'announcement' | 'course_completion';
+export type NotificationType = 'message' | 'reminder' | 'badge' | 'announcement' | 'course_completion' | 'content_review';
 
 export interface Notification {
   id: string;
@@ -0,0 +1,79 @@
+// src/types/analytics.ts
+import type { UserRole } from './user';
+
+// Totals kept as sums rather than rates, so a parent's numbers are simply its children's added up
+export interface AnalyticsMetrics {
+  totalUsers: number;
+  activeUsers: number;
+  assignments: number; // Directly assigned courses across all users
+  completedAssignments: number;
+  overdueAssignments: number;
+  quizAttempts: number; // Submitted attempts only
+  quizScoreTotal: number; // Sum of the submitted attempts' scores
+}
+
+export interface UserAnalytics {
+  userId: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  isActive: boolean;
+  metrics: AnalyticsMetrics;
+}
+
+export interface LocationAnalytics {
+  locationId: string | null; // null groups the brand's users who have no location
+  name: string;
+  brandId: string;
+  metrics: AnalyticsMetrics;
+  users: UserAnalytics[];
+  fallingBehind: string[]; // Why the location trails the rest of the group. Empty = on track
+}
+
+export interface BrandAnalytics {
+  brandId: string;
+  name: string;
+  parentBrandId: string | null;
+  metrics: AnalyticsMetrics; // The brand's own users plus all of its child brands
+  ownMetrics: AnalyticsMetrics; // The brand's own users only
+  locations: LocationAnalytics[];
+  children: BrandAnalytics[];
+}
+
+export type LearningMetricsScopeType = 'brand' | 'location';
+
+// Whose activity a daily aggregate counts: a brand's own users, or the users assigned to a location
+export interface LearningMetricsScope {
+  type: LearningMetricsScopeType;
+  id: string;
+}
+
+// The counts a single progress event adds to the day's aggregates
+export interface LearningActivity {
+  lessonsCompleted?: number;
+  coursesCompleted?: number;
+  quizzesPassed?: number;
+  quizzesFailed?: number;
+  secondsLearned?: number;
+}
+
+// One day of learning activity, as stored per scope or merged across several
+export interface DailyLearningMetrics {
+  date: string; // YYYY-MM-DD (UTC)
+  activeLearnerIds: string[]; // Anyone who recorded any activity that day
+  lessonsCompleted: number;
+  coursesCompleted: number;
+  quizzesPassed: number;
+  quizzesFailed: number;
+  secondsLearned: number;
+}
+
+// A period's totals. Active learners are counted once however many days they were active
+export interface LearningMetricsSummary {
+  activeLearners: number;
+  lessonsCompleted: number;
+  coursesCompleted: number;
+  quizzesPassed: number;
+  quizzesFailed: number;
+  minutesLearned: number;
+}
@@ -0,0 +1,73 @@
+// src/types/certificate.ts
+import type { Timestamp } from 'firebase/firestore';
+
+// A certificate issued for one completion of a course. The Firestore document ID is the
+// public verification ID used in /verify/[certificateId], so it must never be guessable.
+export interface IssuedCertificate {
+  id: string;
+  serialNumber: string; // Human-readable reference printed on the certificate, e.g. "GR-2026-7K3M-9Q2P"
+  userId: string;
+  holderName: string; // Snapshot of the user's name when the certificate was issued
+  courseId: string;
+  courseTitle: string;
+  brandId: string | null; // Issuing brand, or null for the platform itself
+  brandName: string | null;
+  completedAt: string; // ISO string
+  expiresAt: string | null; // ISO string, for courses that require recertification
+  timeSpentSeconds?: number; // Time spent on the course, for the "hours" merge field
+  issuedAt: Timestamp | Date | string | null;
+}
+
+export type CertificateStatus = 'valid' | 'expired';
+
+export type CertificateOrientation = 'landscape' | 'portrait';
+export type CertificateFontFamily = 'serif' | 'sans' | 'mono'; // Limited to the fonts built into every PDF reader
+export type CertificateFieldAlign = 'left' | 'center' | 'right';
+
+export type CertificateFieldKey =
+  | 'learnerName'
+  | 'courseTitle'
+  | 'completionDate'
+  | 'expiryDate'
+  | 'hours'
+  | 'brandName'
+  | 'signatoryName'
+  | 'signatureImage'
+  | 'serialNumber'
+  | 'qrCode'
+  | 'staticText';
+
+// A merge field placed on the certificate. Positions and widths are percentages of the page,
+// so the same template renders identically in the on-screen preview and the PDF.
+export interface CertificateTemplateField {
+  id: string;
+  key: CertificateFieldKey;
+  text?: string | null; // Only for 'staticText'
+  x: number; // Anchor point from the left edge; the text extends from it according to align
+  y: number; // Top of the field from the top edge
+  width: number; // Text wraps at this width; images and QR codes are scaled to it
+  align: CertificateFieldAlign;
+  fontFamily: CertificateFontFamily;
+  fontSize: number; // Points on the PDF page
+  bold: boolean;
+  color: string; // Hex, e.g. "#1f2937"
+}
+
+export interface CertificateTemplate {
+  id: string;
+  name: string;
+  brandId: string | null; // Owning brand, or null for platform templates available to every course
+  orientation: CertificateOrientation;
+  backgroundColor: string; // Hex
+  backgroundImageUrl: string | null; // Stretched to fill the page
+  signatoryName: string | null;
+  signatoryTitle: string | null;
+  signatureImageUrl: string | null;
+  fields: CertificateTemplateField[];
+  isDeleted?: boolean;
+  deletedAt?: Timestamp | null;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type CertificateTemplateFormData = Omit<CertificateTemplate, 'id' | 'brandId' | 'isDeleted' | 'deletedAt' | 'createdAt' | 'updatedAt'>;
@@ -2,13 +2,22 @@
 
 import { z } from 'zod';
 // Define question types
-export type QuestionType = 'multiple-choice' | 'true-false' | 'multiple-select';
+export type QuestionType = 'multiple-choice' | 'true-false' | 'multiple-select' | 'short-answer' | 'matching' | 'ordering' | 'image-choice';
 import type { Timestamp } from 'firebase/firestore'; // Import Timestamp
+import type { LessonVideoAsset } from './video';
+
+// A prompt and the answer it must be matched with ('matching' questions)
+export interface MatchingPair {
+  prompt: string;
+  match: string;
+}
 
 // Translation object for a Question
 export interface QuestionTranslation {
   text?: string;
   options?: string[]; // Array of translated option strings, must match order of original options
+  acceptedAnswers?: string[]; // 'short-answer': answers accepted in this language, in addition to the originals
+  matchingPairs?: Partial<MatchingPair>[]; // 'matching': translated labels, must match order of original pairs
 }
 
 // Represents a single question within a quiz (Global or Brand)
@@ -18,12 +27,23 @@ export interface QuestionBase {
     type: QuestionType;
     options: string[]; // Always an array of available option texts
     translations?: { [key: string]: QuestionTranslation }; // e.g., { 'es': { text: '...', options: [...] } }
+    tag?: string | null; // Optional category, used to stratify random draws from the quiz's question pool
 
-    // For single-answer types ('multiple-choice', 'true-false')
+    // For single-answer types ('multiple-choice', 'true-false', 'image-choice')
     correctAnswer?: string; // The single correct option text
 
-    // For multi-answer type ('multiple-select')
+    // For multi-answer type ('multiple-select'), and the correct sequence of options for 'ordering'
     correctAnswers?: string[]; // Array of correct option texts
+
+    // For 'short-answer': accepted variants, compared after trimming and collapsing whitespace
+    acceptedAnswers?: string[];
+    caseSensitive?: boolean;
+
+    // For 'matching': options hold the match texts, offered for each prompt
+    matchingPairs?: MatchingPair[];
+
+    // For 'image-choice': image URL per option, aligned with options. The option text is the label and answer value.
+    optionImages?: string[];
 }
 
 export type QuestionFormDataBase = Omit<QuestionBase, 'id'>;
@@ -40,12 +60,26 @@ export interface QuizTranslation {
   questions?: Question[];
 }
 
+// Rules applied when a quiz is taken (Global or Brand). Missing fields fall back to DEFAULT_QUIZ_SETTINGS in src/lib/quiz-attempt-data.ts.
+export interface QuizSettings {
+    passingScore: number; // Percentage (0-100) required to pass
+    maxAttempts: number | null; // null = unlimited
+    attemptCooldownMinutes: number | null; // Wait between attempts; null = none
+    timeLimitMinutes: number | null; // Countdown per attempt; null = untimed
+    showCorrectAnswers: boolean; // Reveal correct answers after submission
+    questionsToDraw?: number | null; // Random draw of N questions from the pool per attempt; null = all questions
+    stratifyByTag?: boolean; // Draw proportionally from each question tag
+    shuffleQuestions?: boolean; // Randomize question order per attempt
+    shuffleOptions?: boolean; // Randomize answer option order per attempt
+}
+
 // Represents a standalone quiz in the library
-export interface Quiz {
+export interface Quiz extends VersionedContent {
     id: string;
     title: string;
     questions: Question[];
     questionCount?: number; // Denormalized for list views
+    settings?: QuizSettings | null;
     isDeleted?: boolean;
     deletedAt?: Timestamp | null;
     createdAt?: Timestamp;
@@ -53,15 +87,75 @@ export interface Quiz {
     translations?: { [key: string]: Pick<QuizTranslation, 'title'> }; // Only titles are translated on the main quiz object
 }
 
+// A checkpoint that pauses the lesson video and asks a quiz or a single question (Global or Brand lessons)
+export interface LessonTimedEvent {
+  eventId: string;
+  timestamp: number; // Seconds into the video
+  type: 'quiz' | 'question';
+  quizId?: string | null; // 'quiz': a quiz from the same library as the lesson
+  question?: Question | null; // 'question': asked on its own and graded in the browser
+  requireCorrect: boolean; // The video stays paused until the learner answers correctly
+}
+
+// A WebVTT caption file for a lesson video, one per language
+export interface LessonCaptionTrack {
+  locale: string; // Language of the captions, e.g. 'en'
+  label: string; // Shown in the player's caption menu
+  url: string; // WebVTT file in storage. SRT uploads are converted first
+}
+
+// 'standard' lessons show content and an optional video; 'scorm' lessons play an uploaded SCORM package
+export type LessonType = 'standard' | 'scorm';
+
+export type ScormVersion = '1.2' | '2004';
+
+// An uploaded SCORM package, unpacked into storage under lessons/scorm/{id} and served by /api/scorm
+export interface ScormPackage {
+  id: string;
+  version: ScormVersion;
+  title: string; // The manifest's organization title
+  launchPath: string; // The SCO to launch, relative to the package root, including any parameters
+  masteryScore: number | null; // Pass mark from the manifest (0-100), if it sets one
+  fileName: string; // The uploaded zip, for display
+  fileCount: number;
+}
+
+// cmi.core.lesson_status values. SCORM 2004's completion and success statuses are folded into these
+export type ScormLessonStatus = 'not attempted' | 'browsed' | 'incomplete' | 'completed' | 'passed' | 'failed';
+
+// What a learner's SCORM package has reported so far, kept between sessions
+export interface ScormRuntimeData {
+  lessonStatus: ScormLessonStatus;
+  scoreRaw: number | null;
+  scoreMin: number | null;
+  scoreMax: number | null;
+  scoreScaled: number | null; // -1 to 1. SCORM 2004 only
+  location: string; // Bookmark set by the package
+  suspendData: string;
+  exit: string; // How the last session ended; 'suspend' means the next one resumes
+  totalTimeSeconds: number;
+  updatedAt?: string | null;
+}
+
+// Messages between the learn page and the SCORM player page on the content origin, which hosts the runtime API
+export type ScormPlayerMessage =
+  | { type: 'scorm:ready' } // The player is listening and waiting to be started
+  | { type: 'scorm:start'; scormPackage: Pick<ScormPackage, 'id' | 'version' | 'launchPath' | 'masteryScore'>; learner: { id: string; name: string }; initialData: ScormRuntimeData | null }
+  | { type: 'scorm:commit'; data: ScormRuntimeData; sessionEnded: boolean }
+  | { type: 'scorm:progress'; data: ScormRuntimeData }; // What to store if the session ends without the package ending it
+
 // Translation object for a Lesson
 export interface LessonTranslation {
   title?: string | null;
   content?: string | null;
   videoUrl?: string | null;
+  timedEvents?: LessonTimedEvent[] | null; // Checkpoints for the translated video. Used only when the translation has its own video
+  captions?: LessonCaptionTrack[] | null; // Captions for the translated video. Used only when the translation has its own video
+  videoAsset?: LessonVideoAsset | null; // Processing output for an uploaded translated video
 }
 
 // Represents a single standalone lesson in the library
-export interface Lesson {
+export interface Lesson extends VersionedContent {
     id: string;
     title: string;
     content: string;
@@ -70,6 +164,12 @@ export interface Lesson {
     exerciseFilesInfo?: string | null;
     isPreviewAvailable?: boolean;
     playbackTime?: string | null;
+    timedEvents?: LessonTimedEvent[]; // In-video checkpoints, ordered by timestamp
+    captions?: LessonCaptionTrack[]; // Caption tracks for the video, one per language
+    videoAsset?: LessonVideoAsset | null; // Processing output for an uploaded video: HLS playlist, poster and duration
+    videoAssetIds?: string[]; // Every asset used by the lesson or its translations, so the processing job can find it
+    lessonType?: LessonType; // Missing = 'standard'
+    scormPackage?: ScormPackage | null; // Set on 'scorm' lessons
     isDeleted?: boolean;
     deletedAt?: Timestamp | null;
     createdAt?: Timestamp;
@@ -84,8 +184,20 @@ export interface CourseTranslation {
     longDescription?: string | null;
 }
 
+// When a curriculum item opens for a learner. Items without a rule are available right away.
+export type CurriculumAvailability =
+  | { type: 'days-after-assignment'; days: number }
+  | { type: 'date'; date: string }; // YYYY-MM-DD, opens at the start of that day
+
+// A named section of a course curriculum. Item IDs use the same prefixed format as the curriculum array.
+export interface CurriculumModule {
+  id: string;
+  title: string;
+  itemIds: string[];
+}
+
 // Represents a course in the global library
-export interface Course {
+export interface Course extends VersionedContent {
   id: string;
   title: string;
   description: string;
@@ -95,8 +207,11 @@ export interface Course {
   level: 'Beginner' | 'Intermediate' | 'Advanced';
   duration: string;
   category?: string | null; // New field
-  curriculum: string[]; // Array of 'lesson-[id]' or 'quiz-[id]'
+  curriculum: string[]; // Array of 'lesson-[id]' or 'quiz-[id]', flattened in module order
+  modules?: CurriculumModule[]; // Ordered sections of the curriculum. Courses saved before modules existed have none
+  curriculumAvailability?: { [itemId: string]: CurriculumAvailability }; // Drip schedule, keyed by prefixed curriculum ID
   certificateTemplateId?: string | null; // Added for certificate template
+  validityMonths?: number | null; // Completions expire after this many months and the course must be retaken. Null = never expires
   isDeleted?: boolean;
   deletedAt?: Timestamp | null;
   createdAt?: Timestamp;
@@ -105,7 +220,7 @@ export interface Course {
 }
 
 // Type for the form data when adding/editing a course metadata (global library)
-export type CourseFormData = Omit<Course, 'id' | 'isDeleted' | 'deletedAt' | 'createdAt' | 'updatedAt' | 'curriculum' | 'translations'> & {
+export type CourseFormData = Omit<Course, 'id' | 'isDeleted' | 'deletedAt' | 'createdAt' | 'updatedAt' | 'curriculum' | 'modules' | 'curriculumAvailability' | 'translations'> & {
     certificateTemplateId?: string | null;
     translations?: { [key: string]: CourseTranslation };
 };
@@ -120,12 +235,18 @@ export interface LessonFormData {
     exerciseFilesInfo?: string | null;
     isPreviewAvailable?: boolean;
     playbackTime?: string | null;
+    timedEvents?: LessonTimedEvent[];
+    captions?: LessonCaptionTrack[];
+    videoAsset?: LessonVideoAsset | null;
+    lessonType?: LessonType;
+    scormPackage?: ScormPackage | null;
     translations?: { [key: string]: LessonTranslation };
 }
 
 // Type for the form data when adding/editing a quiz (basic for now)
 export interface QuizFormData {
     title: string;
+    settings?: QuizSettings | null;
     translations?: { [key: string]: Pick<QuizTranslation, 'title'> }; // Only title can be edited directly
 }
 
@@ -149,7 +270,9 @@ export interface Program {
   id: string;
   title: string;
   description: string;
-  courseIds: string[];
+  courseIds: string[]; // Ordered learning path
+  isSequential?: boolean; // When true, each course unlocks once the previous course in courseIds is completed
+  coursePrerequisites?: { [courseId: string]: string[] }; // Courses that must be completed before the keyed course unlocks
   isStandardSubscription: boolean; // New field to differentiate pricing model
   // For standard monthly subscription model
   standardSubscriptionPrice: string | null;
@@ -170,10 +293,19 @@ export interface Program {
 // Type for form data when adding/editing a Program
 export type ProgramFormData = Omit<Program, 'id' | 'isDeleted' | 'deletedAt' | 'createdAt' | 'updatedAt'>;
 
+// Why a course in a Program's learning path cannot be opened yet
+export interface CourseLock {
+  courseId: string;
+  programId: string;
+  programTitle: string;
+  missingCourseIds: string[]; // Prerequisites the user has not completed yet
+  reason: string; // e.g. "Complete Sales 101 first."
+}
+
 
 // --- Brand Specific Content ---
 
-export interface BrandCourse {
+export interface BrandCourse extends VersionedContent {
     id: string;
     brandId: string; // ID of the Brand that owns this course
     title: string;
@@ -184,8 +316,14 @@ export interface BrandCourse {
     level: 'Beginner' | 'Intermediate' | 'Advanced';
     duration: string;
     category?: string | null;
-    curriculum: string[]; // Array of 'brandLesson-[id]' or 'brandQuiz-[id]'
+    curriculum: string[]; // Array of 'brandLesson-[id]' or 'brandQuiz-[id]', flattened in module order
+    modules?: CurriculumModule[]; // Ordered sections of the curriculum. Courses saved before modules existed have none
+    curriculumAvailability?: { [itemId: string]: CurriculumAvailability }; // Drip schedule, keyed by prefixed curriculum ID
     certificateTemplateId?: string | null; // Added for certificate template
+    validityMonths?: number | null; // Completions expire after this many months and the course must be retaken. Null = never expires
+    isApproved?: boolean; // false while a course created under course approval waits for its first approval. Missing = visible
+    approvalStatus?: CourseReviewStatus | null; // State of the latest review, if the course was ever submitted
+    sharing?: BrandCourseSharing | null; // Child brands that can assign this course. Missing = not shared
     isDeleted?: boolean;
     deletedAt?: Timestamp | null;
     createdAt?: Timestamp;
@@ -193,12 +331,27 @@ export interface BrandCourse {
     translations?: { [key: string]: CourseTranslation };
 }
 
-export type BrandCourseFormData = Omit<BrandCourse, 'id' | 'brandId' | 'isDeleted' | 'deletedAt' | 'createdAt' | 'updatedAt' | 'curriculum' | 'translations'> & {
+export type BrandCourseFormData = Omit<BrandCourse, 'id' | 'brandId' | 'isApproved' | 'approvalStatus' | 'sharing' | 'isDeleted' | 'deletedAt' | 'createdAt' | 'updatedAt' | 'curriculum' | 'modules' | 'curriculumAvailability' | 'translations'> & {
     certificateTemplateId?: string | null;
     translations?: { [key: string]: CourseTranslation };
 };
 
-export interface BrandLesson {
+// A parent brand's course offered read-only to its child brands
+export interface BrandCourseSharing {
+    scope: 'all' | 'selected'; // 'all' includes child brands added later
+    brandIds: string[]; // Child brands the course is shared with when scope is 'selected'
+}
+
+// How one child brand's users are doing on a course shared with it
+export interface SharedCourseCompletion {
+    brandId: string;
+    brandName: string;
+    assigned: number;
+    inProgress: number;
+    completed: number;
+}
+
+export interface BrandLesson extends VersionedContent {
     id: string;
     brandId: string;
     title: string;
@@ -207,6 +360,12 @@ export interface BrandLesson {
     featuredImageUrl?: string | null;
     exerciseFilesInfo?: string | null;
     playbackTime?: string | null;
+    timedEvents?: LessonTimedEvent[]; // In-video checkpoints, ordered by timestamp
+    captions?: LessonCaptionTrack[]; // Caption tracks for the video, one per language
+    videoAsset?: LessonVideoAsset | null; // Processing output for an uploaded video: HLS playlist, poster and duration
+    videoAssetIds?: string[]; // Every asset used by the lesson or its translations, so the processing job can find it
+    lessonType?: LessonType; // Missing = 'standard'
+    scormPackage?: ScormPackage | null; // Set on 'scorm' lessons
     isDeleted?: boolean;
     deletedAt?: Timestamp | null;
     createdAt?: Timestamp;
@@ -214,7 +373,7 @@ export interface BrandLesson {
     translations?: { [key: string]: LessonTranslation };
 }
 
-export type BrandLessonFormData = Omit<BrandLesson, 'id' | 'isDeleted' | 'deletedAt' | 'createdAt' | 'updatedAt' | 'translations'> & {
+export type BrandLessonFormData = Omit<BrandLesson, 'id' | 'isDeleted' | 'deletedAt' | 'createdAt' | 'updatedAt' | 'translations' | 'videoAssetIds'> & {
   brandId: string; // Required for creation
   translations?: { [key: string]: LessonTranslation };
 };
@@ -223,12 +382,13 @@ export type BrandLessonFormData = Omit<BrandLesson, 'id' | 'isDeleted' | 'delete
 export interface BrandQuestion extends QuestionBase {}
 export type BrandQuestionFormData = QuestionFormDataBase;
 
-export interface BrandQuiz {
+export interface BrandQuiz extends VersionedContent {
     id: string;
     brandId: string;
     title: string;
     questions: BrandQuestion[];
     questionCount?: number; // Denormalized for list views
+    settings?: QuizSettings | null;
     isDeleted?: boolean;
     deletedAt?: Timestamp | null;
     createdAt?: Timestamp;
@@ -241,6 +401,253 @@ export type BrandQuizFormData = Omit<BrandQuiz, 'id' | 'brandId' | 'questions' |
   translations?: { [key: string]: Pick<QuizTranslation, 'title'> }; // Only title can be edited directly
 };
 
+// --- Drafts & Versions ---
+
+// Content that authors edit as a draft and publish as numbered versions
+export type VersionedItemType = 'course' | 'lesson' | 'quiz' | 'brandCourse' | 'brandLesson' | 'brandQuiz';
+
+// The editable fields of a course, lesson or quiz at one point in time (see VERSIONED_FIELDS in src/lib/content-versions.ts)
+export type ContentSnapshot = { [field: string]: any };
+
+export interface ContentVersionAuthor {
+    id: string;
+    name: string;
+}
+
+// Publishing state kept on every course, lesson and quiz. The item's own fields are always the published content learners see.
+export interface VersionedContent {
+    draft?: ContentSnapshot | null; // Unpublished edits, as a full snapshot of the editable fields. Missing = nothing to publish
+    draftUpdatedAt?: Timestamp | null;
+    publishedVersion?: number; // Missing = 1, the content as first created
+    publishedAt?: Timestamp | null;
+    publishedBy?: ContentVersionAuthor | null;
+}
+
+// A published version, stored at {collection}/{itemId}/versions/{version}
+export interface ContentVersion {
+    id: string;
+    version: number;
+    content: ContentSnapshot;
+    publishedAt: string | null; // ISO string
+    publishedBy: ContentVersionAuthor | null; // null for content created before it was first published from a draft
+    note: string | null;
+    restoredFromVersion?: number | null; // Set when the version is a rollback
+}
+
+// An item's published content next to its draft, for the publishing view
+export interface ContentPublishingState {
+    publishedVersion: number;
+    published: ContentSnapshot;
+    draft: ContentSnapshot | null;
+    draftUpdatedAt: string | null; // ISO string
+}
+
+// One difference between two snapshots, for the version diff view
+export interface ContentChange {
+    label: string; // e.g. 'Title', 'Title (es)', 'Question 3'
+    kind: 'added' | 'removed' | 'changed';
+    before: string | null;
+    after: string | null;
+}
+
+// --- Course Reviews ---
+
+// Where a brand course stands with its reviewer. 'approved' once the latest submission was approved
+export type CourseReviewStatus = 'pending' | 'changes_requested' | 'approved';
+
+// A reviewer's comment on one change of a submission (by its ContentChange label), or on the submission as a whole
+export interface CourseReviewComment {
+    id: string;
+    changeLabel: string | null; // null for a general comment
+    text: string;
+    author: ContentVersionAuthor | null;
+    createdAt: string; // ISO string
+}
+
+// A lesson or quiz of a submitted course whose content is reviewed with it
+export interface CourseReviewItem {
+    itemType: 'brandLesson' | 'brandQuiz';
+    itemId: string;
+    title: string;
+    content: ContentSnapshot; // The submitted content (its draft, if it had one)
+    publishedContent: ContentSnapshot | null; // What learners saw when it was submitted. null if it is new to the course
+}
+
+// A brand course submitted for approval, stored in courseReviews. Resubmitting while it is open updates it.
+export interface CourseReview {
+    id: string;
+    courseId: string;
+    courseTitle: string;
+    brandId: string;
+    reviewerBrandId: string | null; // Parent brand whose admins review it, or null when only Super Admins do
+    status: CourseReviewStatus;
+    content: ContentSnapshot; // The submitted course content, with its curriculum if that changed
+    publishedContent: ContentSnapshot | null; // What learners saw when it was submitted. null if the course was never approved
+    items: CourseReviewItem[]; // Lessons and quizzes that changed or are new to the course
+    itemTitles: { [curriculumItemId: string]: string }; // Titles of the curriculum items, for showing curriculum changes
+    note: string | null; // The author's description of the changes
+    submittedBy: ContentVersionAuthor | null;
+    submittedAt: string | null; // ISO string
+    reviewedBy: ContentVersionAuthor | null;
+    reviewedAt: string | null; // ISO string
+    comments: CourseReviewComment[];
+}
+
+// --- Quiz Attempts ---
+
+// Option text or typed text for single-answer types; sorted option texts for 'multiple-select';
+// the chosen match per prompt for 'matching'; the options in the order given for 'ordering'.
+export type QuizAnswerValue = string | string[];
+
+// A single graded answer within an attempt. Question text and correct answers are snapshotted for audit.
+export interface QuizAttemptAnswer {
+    questionId: string;
+    questionText: string;
+    questionType: QuestionType;
+    answer: QuizAnswerValue | null; // null if the question was left unanswered
+    correctAnswer?: string | null;
+    correctAnswers?: string[] | null;
+    isCorrect: boolean;
+}
+
+// A quiz attempt. Created server-side when the user starts the quiz and graded server-side on submission.
+export interface QuizAttempt {
+    id: string;
+    userId: string;
+    courseId: string;
+    quizId: string; // Short quiz ID, without the 'quiz-' / 'brandQuiz-' prefix
+    quizType: 'quiz' | 'brandQuiz' | 'lesson' | 'brandLesson'; // Lesson types are SCORM lessons, scored by the package itself
+    quizTitle: string;
+    locale: string;
+    status: 'in_progress' | 'submitted';
+    attemptNumber: number; // 1-based
+    passingScore: number; // Snapshot of the pass mark in force for this attempt
+    timeLimitMinutes?: number | null; // Snapshot of the time limit in force for this attempt
+    questionIds?: string[] | null; // The questions drawn for this attempt, in the order shown. Missing = all questions in quiz order.
+    optionOrder?: Record<string, number[]> | null; // Per question ID, indices into the original options in the order shown
+    quizVersion?: number | null; // Published version of the quiz the attempt is pinned to. Missing = 1
+    answers: QuizAttemptAnswer[];
+    correctCount: number;
+    totalQuestions: number;
+    score: number; // Percentage (0-100)
+    passed: boolean;
+    timedOut?: boolean; // Submitted after the time limit had expired
+    startedAt: Timestamp | Date | string | null;
+    submittedAt: Timestamp | Date | string | null;
+}
+
+// Sent by the client to begin an attempt
+export interface QuizAttemptStartRequest {
+    userId: string;
+    courseId: string;
+    quizId: string;
+    quizType: 'quiz' | 'brandQuiz';
+    locale?: string | null;
+    quizVersion?: number | null; // Version of the quiz the client has loaded, so a different pinned version can be sent back
+}
+
+// Sent by the SCORM player on each commit and when the package ends its session
+export interface ScormProgressRequest {
+    userId: string;
+    courseId: string;
+    itemId: string; // Prefixed lesson ID, e.g. 'brandLesson-abc'
+    data: ScormRuntimeData;
+    sessionEnded: boolean;
+    sessionStartedAt?: string | null; // ISO string, for the attempt history
+    locale?: string | null;
+}
+
+// Sent by the client when a quiz is submitted. Grading happens on the server.
+export interface QuizSubmission {
+    attemptId: string;
+    userId: string;
+    answers: Record<string, QuizAnswerValue>; // Keyed by question ID
+}
+
+// --- Question Import/Export ---
+
+export type QuestionInterchangeFormat = 'csv' | 'gift' | 'qti';
+
+// One question read from an import file, with everything wrong with it. Only rows without errors are imported.
+export interface QuestionImportRow {
+    location: string; // Where in the file the question came from, e.g. "Row 4", "Line 12", "items/item-3.xml"
+    question: QuestionFormData | null; // null when the source could not be read as a question at all
+    errors: string[];
+}
+
+// --- Course Packages ---
+
+// The library a course and its lessons and quizzes belong to
+export type CourseLibrary = { type: 'global' } | { type: 'brand'; brandId: string };
+
+type PackagedFields = 'isDeleted' | 'deletedAt' | 'createdAt' | 'updatedAt' | keyof VersionedContent;
+
+// Content as stored in a package. IDs are those of the source library; curriculum items keep their source prefixes.
+export type PackagedCourse = Omit<Course, PackagedFields>;
+export type PackagedLesson = Omit<Lesson, PackagedFields | 'videoAssetIds'>;
+export type PackagedQuiz = Omit<Quiz, PackagedFields | 'questionCount'>;
+
+export type CoursePackageMediaKind = 'courseImage' | 'lessonImage' | 'questionImage' | 'caption' | 'video';
+
+// A media file inside the package. Every manifest field holding `url` is pointed at the re-uploaded copy on import.
+export interface CoursePackageMedia {
+    path: string; // Within the zip, e.g. 'media/3-cover.png'
+    url: string; // Where the file was exported from
+    kind: CoursePackageMediaKind; // Decides the storage folder on import
+    contentType: string;
+    videoAssetId?: string | null; // 'video': the asset the file is the source of, so lessons get the re-processed asset
+}
+
+// The unpacked files of a SCORM lesson, stored under 'scorm/{packageId}/' in the zip
+export interface CoursePackageScormFiles {
+    packageId: string;
+    files: string[]; // Paths relative to the package root
+}
+
+// course.json: everything needed to recreate the course in another environment or library
+export interface CoursePackageManifest {
+    format: 'gymramp-course-package';
+    version: number;
+    exportedAt: string;
+    source: {
+        library: CourseLibrary['type'];
+        brandId: string | null;
+        projectId: string | null; // Firebase project, to tell environments apart
+    };
+    course: PackagedCourse;
+    lessons: PackagedLesson[]; // Curriculum lessons
+    quizzes: PackagedQuiz[]; // Curriculum quizzes, and quizzes used by lesson checkpoints
+    media: CoursePackageMedia[];
+    scormPackages: CoursePackageScormFiles[];
+    warnings: string[]; // Problems found while exporting, e.g. media that could not be downloaded
+}
+
+// Something in a package that clashes with, or is missing from, the library it is imported into
+export interface CoursePackageConflict {
+    itemType: 'course' | 'lesson' | 'quiz' | 'certificateTemplate' | 'checkpoint';
+    title: string;
+    message: string;
+    existingId?: string | null; // The library item with the same title, which can be reused instead of copying
+}
+
+export interface CoursePackageImportOptions {
+    target: CourseLibrary;
+    reuseExisting: boolean; // Use library lessons and quizzes with the same title instead of creating copies
+}
+
+export interface CoursePackageImportReport {
+    courseId: string;
+    courseTitle: string;
+    target: CourseLibrary;
+    lessonsCreated: number;
+    lessonsReused: number;
+    quizzesCreated: number;
+    quizzesReused: number;
+    filesUploaded: number;
+    videosQueued: number; // Re-uploaded videos waiting to be processed
+    warnings: string[];
+}
+
 // --- AI Translation Types ---
 
 export const TranslateContentInputSchema = z.object({
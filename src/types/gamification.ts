@@ -0,0 +1,55 @@
+// src/types/gamification.ts
+import type { Timestamp } from 'firebase/firestore';
+
+// Declarative rules a badge can be awarded for. Evaluated by the badge engine in src/lib/gamification.ts.
+export type BadgeCriteria =
+  | { type: 'courses_completed'; count: number } // N distinct courses completed
+  | { type: 'program_completed'; programId?: string | null } // Every course in a Program (a specific one, or any)
+  | { type: 'category_completed'; category?: string | null } // Every course in a category (a specific one, or any)
+  | { type: 'perfect_quiz_first_attempt' } // 100% on the first attempt of a quiz
+  | { type: 'course_completed_within_hours'; hours: number } // Completed within X hours of starting it
+  | { type: 'daily_lesson_streak'; days: number }; // At least one lesson completed on N consecutive days
+
+export type BadgeCriteriaType = BadgeCriteria['type'];
+
+// Events that trigger badge evaluation
+export type BadgeEventType = 'COURSE_PROGRESS_UPDATED' | 'QUIZ_SUBMITTED';
+
+export interface BadgeEventData {
+  courseId?: string;
+  quizId?: string;
+  score?: number; // Percentage, for QUIZ_SUBMITTED
+  attemptNumber?: number; // 1-based attempt number, for QUIZ_SUBMITTED
+}
+
+// A badge definition stored in Firestore
+export interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string; // Key into BADGE_ICONS in src/lib/gamification.ts, e.g. 'Trophy'
+  color: string; // Tailwind text color class, e.g. 'text-amber-500'
+  criteria: BadgeCriteria;
+  isActive: boolean;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type BadgeDefinitionFormData = Omit<BadgeDefinition, 'id' | 'createdAt' | 'updatedAt'>;
+
+// A badge awarded to a user. Document ID is `${userId}_${badgeId}` so a badge can only be awarded once.
+export interface UserBadge {
+  id: string;
+  userId: string;
+  badgeId: string;
+  awardedAt: Timestamp | Date | string;
+  triggeringEvent: BadgeEventType;
+  eventData?: BadgeEventData | null;
+}
+
+// Tracks consecutive days with at least one completed lesson
+export interface LearningStreak {
+  currentStreak: number;
+  longestStreak: number;
+  lastActivityDate: string; // 'YYYY-MM-DD' (UTC)
+}
@@ -0,0 +1,60 @@
+// src/types/trash.ts
+
+// Everything that is soft-deleted and can be restored from the trash
+export type TrashItemType =
+  | 'course'
+  | 'lesson'
+  | 'quiz'
+  | 'program'
+  | 'partner'
+  | 'certificateTemplate'
+  | 'company'
+  | 'location'
+  | 'user'
+  | 'brandCourse'
+  | 'brandLesson'
+  | 'brandQuiz';
+
+// Who deleted an item, stored on the item next to isDeleted and deletedAt
+export interface TrashActor {
+  id: string;
+  name: string;
+}
+
+// Set on locations and users deleted together with their brand, so restoring the brand brings them back.
+// They are not listed in the trash on their own.
+export interface TrashCascade {
+  type: 'company';
+  id: string;
+}
+
+// Where a deleted lesson or quiz sat in a course curriculum, so restoring it can put it back
+export interface TrashCurriculumPlacement {
+  courseId: string;
+  moduleId: string | null;
+}
+
+export interface TrashItem {
+  id: string;
+  type: TrashItemType;
+  title: string;
+  brandId: string | null; // Owning brand, or null for platform-wide items
+  deletedAt: string | null; // ISO string. Items deleted before this was recorded have none
+  deletedBy: TrashActor | null;
+  purgeAt: string | null; // ISO string. When the scheduled purge removes the item for good
+  cascadeCount: number; // Locations and users that were deleted with a brand and come back with it
+}
+
+export interface TrashSettings {
+  retentionDays: number; // Days a deleted item stays in the trash before it is purged
+  updatedAt?: string | null; // ISO string
+}
+
+// Deletes the login accounts of purged users and returns how many were deleted. Runs on the server, so purges get it from their caller
+export type TrashLoginAccountCleanup = (emails: string[]) => Promise<number>;
+
+export interface TrashPurgeResult {
+  purged: number; // Trash items permanently deleted, not counting what was deleted with them
+  filesDeleted: number;
+  failed: number;
+}
@@ -1,6 +1,8 @@
 // src/types/user.ts
 
 import type { Timestamp } from 'firebase/firestore'; // Import Timestamp
+import type { LearningStreak } from './gamification';
+import type { ScormRuntimeData } from './course';
 
 export type UserRole = 'Super Admin' | 'Admin' | 'Owner' | 'Manager' | 'Staff' | 'Partner';
 
@@ -13,6 +15,10 @@ export interface User {
   companyId: string | null; // ID of the company/brand the user belongs to. Null for Super Admin/Partner
   assignedLocationIds: string[]; // Array of location IDs assigned to the user
   assignedCourseIds?: string[]; // Optional: Array of course IDs assigned directly to this user
+  courseAssignedAt?: { [courseId: string]: Timestamp | Date | string }; // When each directly assigned course was assigned
+  courseDueDates?: { [courseId: string]: string }; // Optional due date (YYYY-MM-DD) for each directly assigned course
+  courseRemindersSent?: { [courseId: string]: number[] }; // Reminder offsets (days relative to the due date) already sent
+  courseCompletionHistory?: { [courseId: string]: ArchivedCourseCompletion[] }; // Expired completions of recertification courses, oldest first
   isActive: boolean; // Whether the user account is active or deactivated
   profileImageUrl?: string | null; // Optional URL for profile image
   requiresPasswordChange?: boolean; // Added for password reset flow
@@ -24,10 +30,20 @@ export interface User {
   courseProgress?: { // Optional: To store progress for each assigned course
     [courseId: string]: UserCourseProgressData;
   };
+  learningStreak?: LearningStreak | null; // Consecutive days with a completed lesson, used for badges
   // Add company name for convenience if needed, but typically fetched via companyId
   company?: string; // Optional: Denormalized company name
 }
 
+// A completion that expired and was archived when the course was reset for recertification
+export interface ArchivedCourseCompletion {
+    startedAt: string | null; // ISO strings, so the entries can live in an array
+    completedAt: string | null;
+    expiredAt: string;
+    timeSpentSeconds: number;
+    quizAttempts: Record<string, number>;
+}
+
 // Data structure for individual course progress within a User document
 export interface UserCourseProgressData {
     progress: number; // Percentage completion (0-100)
@@ -35,8 +51,12 @@ export interface UserCourseProgressData {
     completedItems: string[]; // Array of completed lesson/quiz IDs (prefixed)
     lastUpdated?: Timestamp | Date | null; // Firestore Timestamp of last progress update
     videoProgress?: Record<string, number>; // Added for video progress tracking
+    scormData?: Record<string, ScormRuntimeData>; // SCORM lesson runtime data, keyed by prefixed lesson ID
     timeSpentSeconds?: number; // Cumulative seconds spent on this course
     quizAttempts?: Record<string, number>; // Maps quiz ID (the part after 'quiz-') to attempt count
+    startedAt?: Timestamp | Date | string | null; // When the course was first opened (older progress: when its first item was completed)
+    completedAt?: Timestamp | Date | string | null; // When the course reached 'Completed'
+    moduleProgress?: Record<string, { completed: number; total: number }>; // Per curriculum module, keyed by module ID. Calculated when read, not stored
 }
 
 
@@ -65,6 +85,7 @@ export interface Company { // Conceptually "Brand"
   brandBackgroundColor?: string | null;
   brandForegroundColor?: string | null;
   canManageCourses?: boolean;
+  requiresCourseApproval?: boolean; // Brand courses and their changes reach learners only once a reviewer approves them
   stripeCustomerId?: string | null;
   stripeSubscriptionId?: string | null;
   // New fields for Brand Hierarchy
@@ -0,0 +1,44 @@
+// src/types/video.ts
+import type { Timestamp } from 'firebase/firestore';
+
+// queued: uploaded and waiting for the processing job. processing: ffmpeg is packaging it.
+// ready: HLS renditions and poster are available. failed: see the asset's error.
+export type VideoAssetStatus = 'queued' | 'processing' | 'ready' | 'failed';
+
+// One quality level of the HLS package
+export interface VideoRendition {
+  name: string; // e.g. '720p'
+  width: number;
+  height: number;
+  bandwidth: number; // Peak bits per second, as advertised in the master playlist
+}
+
+// An uploaded lesson video and the output of its processing job. The Firestore document ID
+// is also the folder the source and HLS files are stored under.
+export interface VideoAsset {
+  id: string;
+  fileName: string; // Original file name, for display
+  sourcePath: string; // Storage path of the uploaded file
+  sourceUrl: string; // Download URL of the uploaded file. Played directly until processing finishes
+  status: VideoAssetStatus;
+  hlsUrl: string | null; // Master playlist
+  posterUrl: string | null;
+  durationSeconds: number | null;
+  width: number | null; // Of the source video
+  height: number | null;
+  renditions: VideoRendition[];
+  error: string | null; // Why processing failed
+  processingStartedAt: Timestamp | Date | string | null;
+  createdAt?: Timestamp | Date | string | null;
+  updatedAt?: Timestamp | Date | string | null;
+}
+
+// The part of a VideoAsset copied onto the lessons (and lesson translations) that use it.
+// The processing job keeps these copies up to date.
+export interface LessonVideoAsset {
+  id: string;
+  status: VideoAssetStatus;
+  hlsUrl: string | null;
+  posterUrl: string | null;
+  durationSeconds: number | null;
+}
@@ -0,0 +1,142 @@
+// src/types/xapi.ts
+import type { Timestamp } from 'firebase/firestore';
+
+// --- xAPI 1.0.3 statements (the parts we send and store) ---
+
+// Text keyed by RFC 5646 language tag, e.g. { 'en-US': 'Fire Safety' }
+export type XapiLanguageMap = Record<string, string>;
+
+// Learners are identified by email (the mbox inverse functional identifier)
+export interface XapiAgent {
+  objectType: 'Agent';
+  name?: string;
+  mbox: string; // 'mailto:' URI
+}
+
+export interface XapiVerb {
+  id: string; // IRI, e.g. 'http://adlnet.gov/expapi/verbs/completed'
+  display: XapiLanguageMap;
+}
+
+// One option of a 'choice', 'sequencing' or 'matching' interaction
+export interface XapiInteractionComponent {
+  id: string;
+  description: XapiLanguageMap;
+}
+
+export interface XapiActivityDefinition {
+  type?: string; // Activity type IRI
+  name?: XapiLanguageMap;
+  description?: XapiLanguageMap;
+  // Set on question activities
+  interactionType?: 'true-false' | 'choice' | 'fill-in' | 'matching' | 'sequencing';
+  correctResponsesPattern?: string[];
+  choices?: XapiInteractionComponent[];
+  source?: XapiInteractionComponent[];
+  target?: XapiInteractionComponent[];
+}
+
+export interface XapiActivity {
+  objectType: 'Activity';
+  id: string; // IRI
+  definition?: XapiActivityDefinition;
+}
+
+export interface XapiResult {
+  score?: { scaled?: number; raw?: number; min?: number; max?: number };
+  success?: boolean;
+  completion?: boolean;
+  response?: string;
+  duration?: string; // ISO 8601 duration
+}
+
+export interface XapiContext {
+  registration?: string; // UUID shared by every statement about one learner taking one course
+  platform?: string;
+  language?: string;
+  contextActivities?: {
+    parent?: XapiActivity[];
+    grouping?: XapiActivity[];
+  };
+  extensions?: Record<string, unknown>;
+}
+
+export interface XapiStatement {
+  id: string; // UUID
+  actor: XapiAgent;
+  verb: XapiVerb;
+  object: XapiActivity;
+  result?: XapiResult;
+  context?: XapiContext;
+  timestamp: string; // ISO string, when the learning event happened
+  stored?: string; // Set by the LRS
+  authority?: Record<string, unknown>; // Set by the LRS
+  version?: string;
+}
+
+// --- Delivery to a brand's Learning Record Store ---
+
+// Where a brand's statements are sent. Kept apart from the brand document so the
+// credentials aren't loaded with the brand's branding. The secret itself never leaves the server.
+export interface BrandLrsSettings {
+  brandId: string; // Also the Firestore document ID
+  enabled: boolean;
+  endpoint: string; // The LRS's xAPI base URL; statements are posted to `${endpoint}/statements`
+  username: string; // LRS key, for HTTP Basic auth
+  hasPassword: boolean; // Whether an LRS secret is saved
+  updatedAt?: Timestamp | Date | string | null;
+}
+
+// The settings as stored, for the server. The secret is encrypted by src/lib/lrs-secrets.ts
+export interface StoredBrandLrsSettings extends BrandLrsSettings {
+  encryptedPassword: string | null;
+  plainTextPassword: string | null; // Saved before secrets were encrypted; encrypted on the next save
+}
+
+// What the server sends requests to an LRS with
+export interface LrsCredentials {
+  endpoint: string;
+  username: string;
+  password: string;
+}
+
+export interface BrandLrsSettingsFormData {
+  enabled: boolean;
+  endpoint: string;
+  username: string;
+  password?: string; // A new secret. Left empty, the saved secret is kept
+  removePassword?: boolean;
+}
+
+// pending: waiting to be sent, possibly after a failed try. sent: accepted by the LRS.
+// failed: gave up after the maximum number of tries; can be requeued from the brand's settings.
+export type XapiDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+// A statement waiting to be sent, or the record of one that was. The document ID is the statement ID.
+export interface QueuedXapiStatement {
+  id: string;
+  brandId: string; // Whose LRS settings are used
+  statement: XapiStatement;
+  status: XapiDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Timestamp | Date | string | null;
+  lastError: string | null;
+  createdAt?: Timestamp | Date | string | null;
+  sentAt?: Timestamp | Date | string | null;
+}
+
+export interface XapiQueueSummary {
+  pending: number;
+  failed: number;
+  sent: number;
+  lastError: string | null; // From the most recently tried statement that hasn't been sent
+}
+
+// Sent by the course player for events that happen in the browser
+export interface XapiLearningEventRequest {
+  userId: string;
+  courseId: string;
+  verb: 'launched' | 'experienced' | 'completed';
+  itemId?: string | null; // Prefixed lesson ID, for 'experienced'
+  locale?: string | null;
+}